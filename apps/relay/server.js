@@ -0,0 +1,357 @@
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { pathToFileURL } from "node:url";
+
+const PORT = Number(process.env.PORT ?? 4455);
+const HOST = process.env.HOST ?? "localhost";
+export const MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+let nextPeerId = 1;
+
+/**
+ * A room is one shared project. The relay only orders and forwards
+ * messages; it never parses actions or projects.
+ */
+class Room {
+  constructor(name) {
+    this.name = name;
+    this.seq = 0;
+    /** @type {Map<string, Peer>} */
+    this.peers = new Map();
+  }
+
+  join(peer, name, color) {
+    const others = [...this.peers.values()].map((p) => p.info);
+    peer.info = { peerId: peer.id, name, color };
+    this.peers.set(peer.id, peer);
+    peer.send({
+      type: "welcome",
+      peerId: peer.id,
+      seq: this.seq,
+      peers: others,
+    });
+    this.broadcast({ type: "peer-joined", peer: peer.info }, peer);
+    log(`${this.name}: ${name} joined (${this.peers.size} connected)`);
+  }
+
+  leave(peer) {
+    if (!this.peers.delete(peer.id)) return;
+    this.broadcast({ type: "peer-left", peerId: peer.id });
+    log(`${this.name}: ${peer.info.name} left (${this.peers.size} connected)`);
+    if (this.peers.size === 0) {
+      rooms.delete(this.name);
+    }
+  }
+
+  broadcast(message, except) {
+    const data = JSON.stringify(message);
+    for (const peer of this.peers.values()) {
+      if (peer !== except) peer.sendRaw(data);
+    }
+  }
+
+  handle(peer, message) {
+    switch (message.type) {
+      case "action":
+        // Echoed to the sender too, so it learns where its action landed
+        this.broadcast({
+          type: "action",
+          seq: ++this.seq,
+          peerId: peer.id,
+          action: message.action,
+        });
+        break;
+      case "snapshot":
+        this.broadcast({
+          type: "snapshot",
+          seq: ++this.seq,
+          peerId: peer.id,
+          project: message.project,
+        });
+        break;
+      case "presence":
+        this.broadcast(
+          {
+            type: "presence",
+            peerId: peer.id,
+            cursorTime: message.cursorTime ?? null,
+            selectedClipIds: message.selectedClipIds ?? [],
+          },
+          peer,
+        );
+        break;
+      case "sync-request": {
+        // The longest-connected peer is the most likely to be up to date
+        const source = [...this.peers.values()].find((p) => p !== peer);
+        source?.send({ type: "sync-request", peerId: peer.id });
+        break;
+      }
+      case "sync":
+        this.peers.get(message.targetPeerId)?.send({
+          type: "sync",
+          seq: message.seq,
+          project: message.project,
+        });
+        break;
+      case "sync-unavailable":
+        this.peers
+          .get(message.targetPeerId)
+          ?.send({ type: "sync-unavailable" });
+        break;
+    }
+  }
+}
+
+export class Peer {
+  constructor(socket, roomName) {
+    this.id = `peer-${nextPeerId++}`;
+    this.socket = socket;
+    this.roomName = roomName;
+    /** @type {Room | null} Set once the peer has said hello. */
+    this.room = null;
+    this.info = null;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.fragmentOpcode = null;
+    this.closed = false;
+
+    socket.on("data", (chunk) => this.receive(chunk));
+    socket.on("close", () => this.handleClose());
+    socket.on("error", () => this.handleClose());
+  }
+
+  send(message) {
+    this.sendRaw(JSON.stringify(message));
+  }
+
+  sendRaw(data) {
+    this.writeFrame(OPCODE_TEXT, Buffer.from(data, "utf8"));
+  }
+
+  writeFrame(opcode, payload) {
+    if (this.closed) return;
+
+    let header;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        // Clients must mask their frames (RFC 6455 section 5.1)
+        this.close(1002);
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(
+        this.buffer.subarray(offset + 4, offset + 4 + length),
+      );
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload);
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close(1000);
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        this.fragments = [payload];
+        this.fragmentBytes = payload.length;
+        this.fragmentOpcode = opcode;
+        break;
+      case OPCODE_CONTINUATION:
+        if (this.fragmentOpcode === null) {
+          this.close(1002);
+          return;
+        }
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+          this.fragments = [];
+          // Message too big
+          this.close(1009);
+          return;
+        }
+        this.fragments.push(payload);
+        break;
+      default:
+        this.close(1002);
+        return;
+    }
+
+    if (!fin) return;
+
+    const data = Buffer.concat(this.fragments);
+    const isText = this.fragmentOpcode === OPCODE_TEXT;
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.fragmentOpcode = null;
+    if (!isText) return;
+
+    let message;
+    try {
+      message = JSON.parse(data.toString("utf8"));
+    } catch {
+      return;
+    }
+    if (!message || typeof message.type !== "string") return;
+
+    if (message.type === "hello") {
+      if (!this.room) {
+        this.room = getRoom(this.roomName);
+        this.room.join(
+          this,
+          String(message.name ?? "Guest"),
+          String(message.color ?? ""),
+        );
+      }
+    } else {
+      this.room?.handle(this, message);
+    }
+  }
+
+  close(code) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.writeFrame(OPCODE_CLOSE, payload);
+    this.closed = true;
+    this.socket.end();
+    this.room?.leave(this);
+  }
+
+  handleClose() {
+    this.closed = true;
+    this.room?.leave(this);
+  }
+}
+
+/** Room named by the request path, or null when the path is not valid UTF-8. */
+export function getRoomName(url) {
+  const path = new URL(url ?? "/", "http://relay").pathname;
+  try {
+    return decodeURIComponent(path.replace(/^\/+|\/+$/g, "")) || "default";
+  } catch {
+    return null;
+  }
+}
+
+function getRoom(name) {
+  let room = rooms.get(name);
+  if (!room) {
+    room = new Room(name);
+    rooms.set(name, room);
+  }
+  return room;
+}
+
+function log(message) {
+  console.log(`[Relay] ${message}`);
+}
+
+export const server = createServer((request, response) => {
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(
+    JSON.stringify({
+      rooms: [...rooms.values()].map((room) => ({
+        name: room.name,
+        peers: room.peers.size,
+        seq: room.seq,
+      })),
+    }),
+  );
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  const roomName = getRoomName(request.url);
+  if (
+    request.headers.upgrade?.toLowerCase() !== "websocket" ||
+    !key ||
+    roomName === null
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n", () => socket.destroy());
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  socket.setNoDelay(true);
+
+  new Peer(socket, roomName);
+});
+
+// Tests import the server and listen on a port of their own
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  server.listen(PORT, HOST, () => {
+    log(`Listening on ws://${HOST}:${PORT}/<room>`);
+  });
+}
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect } from "node:net";
+import { EventEmitter, once } from "node:events";
+import { MAX_MESSAGE_BYTES, Peer, getRoomName, server } from "./server.js";
+
+/** Sends a raw upgrade request and resolves with everything the relay wrote. */
+async function upgrade(port, path) {
+  const socket = connect(port, "127.0.0.1");
+  await once(socket, "connect");
+  socket.write(
+    `GET ${path} HTTP/1.1\r\n` +
+      "Host: relay\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\n" +
+      "Sec-WebSocket-Version: 13\r\n\r\n",
+  );
+  let response = "";
+  socket.on("data", (chunk) => {
+    response += chunk.toString("latin1");
+    if (response.startsWith("HTTP/1.1 101")) socket.destroy();
+  });
+  await once(socket, "close");
+  return response;
+}
+
+/** A client frame with a zero mask, so the payload goes out as is. */
+function clientFrame(fin, opcode, length) {
+  const header = Buffer.alloc(14);
+  header[0] = (fin ? 0x80 : 0) | opcode;
+  header[1] = 0x80 | 127;
+  header.writeBigUInt64BE(BigInt(length), 2);
+  return Buffer.concat([header, Buffer.alloc(length)]);
+}
+
+test("room names come from the decoded path", () => {
+  assert.equal(getRoomName("/my%20project/"), "my project");
+  assert.equal(getRoomName("/"), "default");
+  assert.equal(getRoomName("/%E0%A4%A"), null);
+});
+
+test("a malformed room path is refused without taking the relay down", async () => {
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  try {
+    const { port } = server.address();
+    const refused = await upgrade(port, "/%E0%A4%A");
+    assert.match(refused, /^HTTP\/1\.1 400 Bad Request/);
+
+    const accepted = await upgrade(port, "/my-project");
+    assert.match(accepted, /^HTTP\/1\.1 101 Switching Protocols/);
+  } finally {
+    server.close();
+  }
+});
+
+test("a fragmented message over the size limit closes the connection", () => {
+  const socket = new EventEmitter();
+  const written = [];
+  socket.write = (data) => written.push(data);
+  socket.end = () => {};
+  const peer = new Peer(socket, "default");
+
+  const half = Math.floor(MAX_MESSAGE_BYTES / 2) + 1;
+  peer.receive(clientFrame(false, 0x1, half));
+  assert.equal(peer.closed, false);
+  peer.receive(clientFrame(false, 0x0, half));
+
+  assert.equal(peer.closed, true);
+  assert.equal(peer.fragments.length, 0);
+  const close = written.at(-1);
+  assert.equal(close[0], 0x88);
+  assert.equal(close.readUInt16BE(2), 1009);
+});
@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+import { realpathSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { createNodeHost } from "./host.js";
+
+const USAGE = `Usage: openreel-render <project.json> --media <dir> --out <file>
+
+Options:
+  --media <dir>     Directory holding the project's media, matched by name
+  --out <file>      Output video path
+  --format <fmt>    mp4, webm or mov (default: mp4)
+  --codec <codec>   h264, h265, vp8, vp9, av1 or prores
+  --width <px>      Output width (default: the project's)
+  --height <px>     Output height (default: the project's)
+  --fps <rate>      Output frame rate (default: the project's)
+  --ffmpeg <path>   ffmpeg binary (default: ffmpeg on PATH)`;
+
+/** Turns command-line arguments into render options. */
+export function parseCliArgs(argv) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      media: { type: "string" },
+      out: { type: "string" },
+      format: { type: "string" },
+      codec: { type: "string" },
+      width: { type: "string" },
+      height: { type: "string" },
+      fps: { type: "string" },
+      ffmpeg: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) return null;
+
+  const [projectPath] = positionals;
+  if (!projectPath || !values.media || !values.out) {
+    throw new Error("A project file, --media and --out are required");
+  }
+
+  const settings = {};
+  if (values.format) settings.format = values.format;
+  if (values.codec) settings.codec = values.codec;
+  for (const [key, name] of [
+    ["width", "width"],
+    ["height", "height"],
+    ["frameRate", "fps"],
+  ]) {
+    if (values[name] === undefined) continue;
+    const value = Number(values[name]);
+    if (!(value > 0)) {
+      throw new Error(`--${name} must be a positive number`);
+    }
+    settings[key] = value;
+  }
+
+  return {
+    projectPath,
+    ffmpegPath: values.ffmpeg ?? "ffmpeg",
+    options: {
+      mediaDirectory: values.media,
+      outputPath: values.out,
+      settings,
+    },
+  };
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!parsed) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Core ships as TypeScript source, so load it through tsx
+  const { register } = await import("tsx/esm/api");
+  register();
+  const [{ createCanvas }, { createHeadlessRenderer }] = await Promise.all([
+    import("@napi-rs/canvas"),
+    import("@openreel/core/export/headless-renderer"),
+  ]);
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  const renderer = createHeadlessRenderer(
+    createNodeHost(createCanvas, parsed.ffmpegPath),
+  );
+  const json = await readFile(parsed.projectPath, "utf8");
+  const render = renderer.renderJson(json, {
+    ...parsed.options,
+    signal: controller.signal,
+  });
+
+  let step = await render.next();
+  let lastPercent = -1;
+  while (!step.done) {
+    const { phase, progress } = step.value;
+    const percent = Math.floor(progress * 100);
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      process.stderr.write(`[Render] ${phase} ${percent}%\n`);
+    }
+    step = await render.next();
+  }
+
+  const result = step.value;
+  if (!result.success) {
+    console.error(
+      `[Render] Failed: ${result.error?.message ?? "unknown error"}`,
+    );
+    return 1;
+  }
+  console.error(
+    `[Render] Wrote ${parsed.options.outputPath} ` +
+      `(${result.stats?.framesRendered ?? 0} frames)`,
+  );
+  return 0;
+}
+
+// npm links the bin, so compare against the resolved script path
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href
+) {
+  main().then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error(error);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,96 @@
+import { spawn } from "node:child_process";
+import { access } from "node:fs/promises";
+
+/**
+ * Node bindings for the core HeadlessRenderer: media is checked on disk,
+ * frames are drawn on `createCanvas` and ffmpeg runs as a child process.
+ *
+ * @param {(width: number, height: number) => unknown} createCanvas
+ * @param {string} [ffmpegPath]
+ */
+export function createNodeHost(createCanvas, ffmpegPath = "ffmpeg") {
+  return {
+    async fileExists(path) {
+      try {
+        await access(path);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    createCanvas,
+
+    runFFmpeg(args, stdin) {
+      const child = spawn(ffmpegPath, args, {
+        stdio: [stdin ? "pipe" : "ignore", "pipe", "pipe"],
+      });
+      const stdout = [];
+      const stderr = [];
+      child.stdout.on("data", (chunk) => stdout.push(chunk));
+      child.stderr.on("data", (chunk) => stderr.push(chunk));
+
+      const exited = new Promise((resolve, reject) => {
+        child.on("error", reject);
+        child.on("close", (code) => resolve(code ?? 1));
+      });
+      const written = stdin ? writeAll(child.stdin, stdin) : Promise.resolve();
+
+      return Promise.all([exited, written]).then(([exitCode]) => ({
+        exitCode,
+        stdout: new Uint8Array(Buffer.concat(stdout)),
+        stderr: Buffer.concat(stderr).toString("utf8"),
+      }));
+    },
+
+    async *streamFFmpeg(args) {
+      const child = spawn(ffmpegPath, args, {
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      const stderr = [];
+      child.stderr.on("data", (chunk) => stderr.push(chunk));
+      const closed = new Promise((resolve, reject) => {
+        child.on("error", reject);
+        child.on("close", resolve);
+      });
+      closed.catch(() => {});
+
+      try {
+        for await (const chunk of child.stdout) {
+          yield new Uint8Array(
+            chunk.buffer,
+            chunk.byteOffset,
+            chunk.byteLength,
+          );
+        }
+        const exitCode = await closed;
+        if (exitCode !== 0) {
+          const message = Buffer.concat(stderr).toString("utf8").trim();
+          throw new Error(`ffmpeg exited with code ${exitCode}: ${message}`);
+        }
+      } finally {
+        // The renderer stops reading once a clip leaves the screen
+        if (child.exitCode === null) child.kill();
+      }
+    },
+  };
+}
+
+/** Writes every chunk to ffmpeg's stdin, waiting whenever the pipe is full. */
+async function writeAll(writable, chunks) {
+  // ffmpeg closes stdin early when it fails; its exit code reports why
+  writable.on("error", () => {});
+  try {
+    for await (const chunk of chunks) {
+      if (writable.destroyed) return;
+      if (!writable.write(chunk) && !writable.destroyed) {
+        await new Promise((resolve) => {
+          writable.once("drain", resolve);
+          writable.once("close", resolve);
+        });
+      }
+    }
+  } finally {
+    writable.end();
+  }
+}
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createNodeHost } from "./host.js";
+import { parseCliArgs } from "./cli.js";
+
+// Node stands in for ffmpeg: `-e <script>` runs the given script
+const host = createNodeHost(() => null, process.execPath);
+
+test("runFFmpeg writes stdin to the process and collects stdout", async () => {
+  async function* frames() {
+    yield new TextEncoder().encode("frame-1,");
+    yield new TextEncoder().encode("frame-2");
+  }
+
+  const result = await host.runFFmpeg(
+    ["-e", "process.stdin.pipe(process.stdout)"],
+    frames(),
+  );
+
+  assert.equal(result.exitCode, 0);
+  assert.equal(new TextDecoder().decode(result.stdout), "frame-1,frame-2");
+});
+
+test("runFFmpeg reports the exit code and stderr", async () => {
+  const result = await host.runFFmpeg([
+    "-e",
+    "process.stderr.write('bad input'); process.exit(3)",
+  ]);
+
+  assert.equal(result.exitCode, 3);
+  assert.equal(result.stderr, "bad input");
+});
+
+test("streamFFmpeg stops the process when reading ends early", async () => {
+  const stream = host.streamFFmpeg([
+    "-e",
+    "setInterval(() => process.stdout.write('x'.repeat(64)), 5)",
+  ]);
+
+  for await (const chunk of stream) {
+    assert.ok(chunk.byteLength > 0);
+    break;
+  }
+  // The test would hang here if the child were still running
+});
+
+test("streamFFmpeg throws when the process fails", async () => {
+  const stream = host.streamFFmpeg(["-e", "process.exit(1)"]);
+
+  await assert.rejects(async () => {
+    for await (const _ of stream) {
+      // no output expected
+    }
+  }, /exited with code 1/);
+});
+
+test("fileExists checks the disk", async () => {
+  assert.equal(await host.fileExists(process.execPath), true);
+  assert.equal(await host.fileExists("/no/such/media.mp4"), false);
+});
+
+test("parseCliArgs maps flags to render settings", () => {
+  const parsed = parseCliArgs([
+    "project.json",
+    "--media",
+    "media",
+    "--out",
+    "out.webm",
+    "--format",
+    "webm",
+    "--fps",
+    "24",
+  ]);
+
+  assert.equal(parsed.projectPath, "project.json");
+  assert.deepEqual(parsed.options, {
+    mediaDirectory: "media",
+    outputPath: "out.webm",
+    settings: { format: "webm", frameRate: 24 },
+  });
+  assert.throws(() => parseCliArgs(["project.json"]), /--media and --out/);
+});
@@ -54,6 +54,43 @@ export interface NoiseReductionConfig {
   release?: number;
 }
 
+/**
+ * De-esser parameters
+ */
+export interface DeEsserConfig {
+  frequency: number;
+  threshold: number;
+  range: number;
+}
+
+/**
+ * True-peak limiter parameters
+ */
+export interface LimiterConfig {
+  ceiling: number;
+  release: number;
+  lookahead: number;
+}
+
+/**
+ * Noise gate / expander parameters
+ */
+export interface GateConfig {
+  threshold: number;
+  ratio: number;
+  range: number;
+  attack: number;
+  hold: number;
+  release: number;
+}
+
+/**
+ * Pitch shifter parameters
+ */
+export interface PitchShiftConfig {
+  semitones: number;
+}
+
 /**
  * Noise profile data
  */
@@ -126,6 +163,43 @@ export const DEFAULT_NOISE_REDUCTION: NoiseReductionConfig = {
   release: 100,
 };
 
+/**
+ * Default de-esser settings
+ */
+export const DEFAULT_DE_ESSER: DeEsserConfig = {
+  frequency: 6500,
+  threshold: -30,
+  range: 10,
+};
+
+/**
+ * Default limiter settings
+ */
+export const DEFAULT_LIMITER: LimiterConfig = {
+  ceiling: -1,
+  release: 0.1,
+  lookahead: 0.005,
+};
+
+/**
+ * Default gate settings
+ */
+export const DEFAULT_GATE: GateConfig = {
+  threshold: -50,
+  ratio: 20,
+  range: 40,
+  attack: 0.001,
+  hold: 0.05,
+  release: 0.1,
+};
+
+/**
+ * Default pitch shift settings
+ */
+export const DEFAULT_PITCH_SHIFT: PitchShiftConfig = {
+  semitones: 0,
+};
+
 /**
  * Validate EQ band parameters
  *
@@ -228,6 +302,65 @@ export function validateNoiseReduction(
   };
 }
 
+/**
+ * Validate de-esser parameters
+ *
+ * @param config - De-esser config to validate
+ * @returns Validated config with clamped values
+ */
+export function validateDeEsser(config: Partial<DeEsserConfig>): DeEsserConfig {
+  return {
+    frequency: Math.max(2000, Math.min(12000, config.frequency ?? 6500)),
+    threshold: Math.max(-60, Math.min(0, config.threshold ?? -30)),
+    range: Math.max(0, Math.min(24, config.range ?? 10)),
+  };
+}
+
+/**
+ * Validate limiter parameters
+ *
+ * @param config - Limiter config to validate
+ * @returns Validated config with clamped values
+ */
+export function validateLimiter(config: Partial<LimiterConfig>): LimiterConfig {
+  return {
+    ceiling: Math.max(-12, Math.min(0, config.ceiling ?? -1)),
+    release: Math.max(0.01, Math.min(1, config.release ?? 0.1)),
+    lookahead: Math.max(0.001, Math.min(0.02, config.lookahead ?? 0.005)),
+  };
+}
+
+/**
+ * Validate gate parameters
+ *
+ * @param config - Gate config to validate
+ * @returns Validated config with clamped values
+ */
+export function validateGate(config: Partial<GateConfig>): GateConfig {
+  return {
+    threshold: Math.max(-80, Math.min(0, config.threshold ?? -50)),
+    ratio: Math.max(1, Math.min(20, config.ratio ?? 20)),
+    range: Math.max(0, Math.min(80, config.range ?? 40)),
+    attack: Math.max(0.0001, Math.min(0.1, config.attack ?? 0.001)),
+    hold: Math.max(0, Math.min(1, config.hold ?? 0.05)),
+    release: Math.max(0.005, Math.min(2, config.release ?? 0.1)),
+  };
+}
+
+/**
+ * Validate pitch shift parameters
+ *
+ * @param config - Pitch shift config to validate
+ * @returns Validated config with clamped values
+ */
+export function validatePitchShift(
+  config: Partial<PitchShiftConfig>,
+): PitchShiftConfig {
+  return {
+    semitones: Math.max(-12, Math.min(12, config.semitones ?? 0)),
+  };
+}
+
 /**
  * Create an EQ effect
  *
@@ -322,6 +455,49 @@ export function createNoiseReductionEffect(
   };
 }
 
+/**
+ * Configs of the effects the effects worklet runs, keyed by effect type
+ */
+export interface VoiceEffectConfigs {
+  deEsser: DeEsserConfig;
+  limiter: LimiterConfig;
+  gate: GateConfig;
+  pitchShift: PitchShiftConfig;
+}
+
+export type VoiceEffectType = keyof VoiceEffectConfigs;
+
+const VOICE_EFFECT_VALIDATORS: {
+  [K in VoiceEffectType]: (
+    config: Partial<VoiceEffectConfigs[K]>,
+  ) => VoiceEffectConfigs[K];
+} = {
+  deEsser: validateDeEsser,
+  limiter: validateLimiter,
+  gate: validateGate,
+  pitchShift: validatePitchShift,
+};
+
+/**
+ * Create a de-esser, limiter, gate or pitch shift effect
+ *
+ * @param type - Effect type
+ * @param config - Effect configuration
+ * @returns Effect object
+ */
+export function createVoiceEffect<T extends VoiceEffectType>(
+  type: T,
+  config: VoiceEffectConfigs[T],
+): Effect {
+  const validated = VOICE_EFFECT_VALIDATORS[type](config);
+  return {
+    id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+    type,
+    params: validated as unknown as Record<string, unknown>,
+    enabled: true,
+  };
+}
+
 /**
  * AudioBridgeEffects class
  *
@@ -675,6 +851,70 @@ export class AudioBridgeEffects {
     }
   }
 
+  /**
+   * Apply a de-esser, limiter, gate or pitch shift effect to a clip
+   *
+   * @param clipId - ID of the clip
+   * @param type - Effect type
+   * @param config - Effect configuration
+   * @returns Result of the operation
+   */
+  applyVoiceEffect<T extends VoiceEffectType>(
+    clipId: string,
+    type: T,
+    config: VoiceEffectConfigs[T],
+  ): AudioEffectResult {
+    try {
+      const effect = createVoiceEffect(type, config);
+      const projectStore = useProjectStore.getState();
+
+      projectStore.addAudioEffect(clipId, effect);
+
+      return { success: true, effectId: effect.id };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : `Failed to apply ${type}`,
+      };
+    }
+  }
+
+  /**
+   * Update a de-esser, limiter, gate or pitch shift effect on a clip
+   *
+   * @param clipId - ID of the clip
+   * @param effectId - ID of the effect to update
+   * @param type - Effect type
+   * @param config - New effect configuration
+   * @returns Result of the operation
+   */
+  updateVoiceEffect<T extends VoiceEffectType>(
+    clipId: string,
+    effectId: string,
+    type: T,
+    config: VoiceEffectConfigs[T],
+  ): AudioEffectResult {
+    try {
+      const validated = VOICE_EFFECT_VALIDATORS[type](config);
+      const projectStore = useProjectStore.getState();
+
+      projectStore.updateAudioEffect(
+        clipId,
+        effectId,
+        validated as unknown as Record<string, unknown>,
+      );
+
+      return { success: true, effectId };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : `Failed to update ${type}`,
+      };
+    }
+  }
+
   /**
    * Learn noise profile from an audio buffer
    *
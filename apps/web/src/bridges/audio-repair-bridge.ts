@@ -0,0 +1,187 @@
+import {
+  applyAudioRepair,
+  computeSpectrogram,
+  detectHumFrequency,
+  getWavEncoder,
+  type AudioRepair,
+  type Spectrogram,
+} from "@openreel/core";
+import { useProjectStore } from "../stores/project-store";
+
+export interface AudioRepairOutcome {
+  success: boolean;
+  error?: string;
+  /** Clicks or clipped runs rebuilt */
+  repairs?: number;
+  humFrequency?: number;
+}
+
+const REPAIR_LABELS: Record<AudioRepair["type"], string> = {
+  hum: "dehummed",
+  declick: "declicked",
+  declip: "declipped",
+  spectral: "repaired",
+};
+
+/**
+ * Runs audio repairs over a clip's whole source media, imports the result
+ * as a new WAV and points the clip at it, so undo restores the original.
+ */
+export class AudioRepairBridge {
+  private audioContext: AudioContext | null = null;
+  private decoded = new Map<string, Promise<AudioBuffer>>();
+  private spectrograms = new Map<string, Spectrogram>();
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+
+  private getAudioClip(clipId: string) {
+    const store = useProjectStore.getState();
+    const clip = store.getClip(clipId);
+    if (!clip) {
+      throw new Error("Clip not found");
+    }
+    const track = store.getTrack(clip.trackId);
+    if (track?.type !== "audio") {
+      throw new Error(
+        "Audio repair works on audio clips; separate the audio first",
+      );
+    }
+    const mediaItem = store.getMediaItem(clip.mediaId);
+    if (!mediaItem?.blob) {
+      throw new Error("Media blob not found");
+    }
+    return { clip, mediaItem, blob: mediaItem.blob };
+  }
+
+  private decode(mediaId: string, blob: Blob): Promise<AudioBuffer> {
+    let buffer = this.decoded.get(mediaId);
+    if (!buffer) {
+      buffer = blob
+        .arrayBuffer()
+        .then((data) => this.getAudioContext().decodeAudioData(data));
+      buffer.catch(() => this.decoded.delete(mediaId));
+      // Decoded sources are large, so only the last one is kept
+      this.decoded.clear();
+      this.decoded.set(mediaId, buffer);
+    }
+    return buffer;
+  }
+
+  private async getChannels(
+    clipId: string,
+  ): Promise<{ channels: Float32Array[]; sampleRate: number }> {
+    const { mediaItem, blob } = this.getAudioClip(clipId);
+    const buffer = await this.decode(mediaItem.id, blob);
+    // The WAV encoder writes mono or stereo
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < Math.min(2, buffer.numberOfChannels); c++) {
+      channels.push(buffer.getChannelData(c));
+    }
+    return { channels, sampleRate: buffer.sampleRate };
+  }
+
+  /** Spectrogram of the clip's whole source media, cached per media item. */
+  async getSpectrogram(clipId: string): Promise<Spectrogram> {
+    const { mediaItem } = this.getAudioClip(clipId);
+    const cached = this.spectrograms.get(mediaItem.id);
+    if (cached) {
+      return cached;
+    }
+    const { channels, sampleRate } = await this.getChannels(clipId);
+    const spectrogram = computeSpectrogram(channels, sampleRate);
+    this.spectrograms.set(mediaItem.id, spectrogram);
+    return spectrogram;
+  }
+
+  async detectHum(clipId: string): Promise<number | null> {
+    const { channels, sampleRate } = await this.getChannels(clipId);
+    return detectHumFrequency(channels, sampleRate);
+  }
+
+  async repairClip(
+    clipId: string,
+    repair: AudioRepair,
+  ): Promise<AudioRepairOutcome> {
+    try {
+      const { mediaItem } = this.getAudioClip(clipId);
+      const { channels, sampleRate } = await this.getChannels(clipId);
+      const result = applyAudioRepair(channels, sampleRate, repair);
+      // Nothing was rebuilt, so keep the clip on its original media
+      if (
+        repair.type !== "hum" &&
+        repair.type !== "spectral" &&
+        !result.repairs
+      ) {
+        return { success: true, repairs: 0 };
+      }
+
+      const wav = getWavEncoder().encodeFullWav(
+        result.channels,
+        sampleRate,
+        24,
+      );
+      const name = mediaItem.name.replace(/\.[^.]+$/, "");
+      const file = new File(
+        [wav.buffer as ArrayBuffer],
+        `${name} (${REPAIR_LABELS[repair.type]}).wav`,
+        { type: "audio/wav" },
+      );
+
+      const store = useProjectStore.getState();
+      const imported = await store.importMedia(file);
+      if (!imported.success || !imported.actionId) {
+        return {
+          success: false,
+          error: imported.error?.message ?? "Failed to import repaired audio",
+        };
+      }
+      const replaced = await store.replaceClipSource(clipId, imported.actionId);
+      if (!replaced.success) {
+        return {
+          success: false,
+          error: replaced.error?.message ?? "Failed to replace clip audio",
+        };
+      }
+      return {
+        success: true,
+        repairs: result.repairs,
+        humFrequency: result.humFrequency,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Audio repair failed",
+      };
+    }
+  }
+
+  dispose(): void {
+    this.decoded.clear();
+    this.spectrograms.clear();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
+}
+
+let bridgeInstance: AudioRepairBridge | null = null;
+
+export function getAudioRepairBridge(): AudioRepairBridge {
+  if (!bridgeInstance) {
+    bridgeInstance = new AudioRepairBridge();
+  }
+  return bridgeInstance;
+}
+
+export function disposeAudioRepairBridge(): void {
+  if (bridgeInstance) {
+    bridgeInstance.dispose();
+    bridgeInstance = null;
+  }
+}
@@ -10,11 +10,17 @@ import {
   type WaveformScopeData,
   type VectorscopeData,
   type HistogramData,
+  type ColorPipeline,
   DEFAULT_COLOR_WHEELS,
   DEFAULT_CURVES,
   DEFAULT_HSL,
+  fromPersistedColorGrading,
+  getProjectClips,
+  mapProjectClips,
+  toPersistedColorGrading,
+  withClipState,
 } from "@openreel/core";
-import type { Effect } from "@openreel/core";
+import type { Effect, Project, ProjectStateEngine } from "@openreel/core";
 import { v4 as uuidv4 } from "uuid";
 
 export type EffectsChangeCallback = (clipId: string, effects: Effect[]) => void;
@@ -90,6 +96,7 @@ export interface SerializedColorGrading {
     data: number[];
     size: number;
     intensity: number;
+    shaper?: number[];
   };
   hsl?: HSLValues;
 }
@@ -105,7 +112,7 @@ export interface SerializedColorGrading {
  * - 11.1: Update effect order in clip's effect list
  * - 11.2: Process effects in new order after reordering
  */
-export class EffectsBridge {
+export class EffectsBridge implements ProjectStateEngine {
   private videoEffectsEngine: VideoEffectsEngine | null = null;
   private colorGradingEngine: ColorGradingEngine | null = null;
   private initialized = false;
@@ -623,6 +630,47 @@ export class EffectsBridge {
     return this.clipColorGrading.get(clipId) || {};
   }
 
+  /**
+   * Replace the color grading settings for a clip
+   *
+   * @param clipId - The clip to update
+   * @param settings - Complete settings; missing fields are cleared
+   */
+  setColorGrading(clipId: string, settings: ColorGradingSettings): void {
+    this.clipColorGrading.set(clipId, { ...settings });
+  }
+
+  /**
+   * Replace all color grades with the ones stored on the project's clips
+   */
+  hydrateFromProject(project: Project): void {
+    this.clipColorGrading.clear();
+    for (const clip of getProjectClips(project)) {
+      if (clip.colorGrade) {
+        this.clipColorGrading.set(
+          clip.id,
+          fromPersistedColorGrading(clip.colorGrade),
+        );
+      }
+    }
+  }
+
+  /**
+   * Copy the current color grades onto the project's clips
+   */
+  writeToProject(project: Project): Project {
+    return mapProjectClips(project, (clip) => {
+      const settings = this.clipColorGrading.get(clip.id);
+      return withClipState(
+        clip,
+        "colorGrade",
+        settings && Object.keys(settings).length > 0
+          ? toPersistedColorGrading(settings)
+          : undefined,
+      );
+    });
+  }
+
   /**
    * Reset color grading to defaults
    *
@@ -648,17 +696,27 @@ export class EffectsBridge {
    *
    * @param clipId - The clip to process
    * @param image - The source image
+   * @param pipeline - Color management transforms; when given, the grade
+   *   runs in floating point between them
    * @returns Processed image
    */
   async processColorGrading(
     clipId: string,
     image: ImageBitmap,
+    pipeline?: ColorPipeline,
   ): Promise<{ image: ImageBitmap; processingTime: number }> {
     if (!this.initialized || !this.colorGradingEngine) {
       return { image, processingTime: 0 };
     }
 
     const settings = this.getColorGrading(clipId);
+    if (pipeline) {
+      return this.colorGradingEngine.applyManagedGrade(
+        image,
+        settings,
+        pipeline,
+      );
+    }
     let currentImage = image;
     let totalTime = 0;
 
@@ -805,6 +863,9 @@ export class EffectsBridge {
         data: Array.from(colorGrading.lut.data),
         size: colorGrading.lut.size,
         intensity: colorGrading.lut.intensity,
+        ...(colorGrading.lut.shaper && {
+          shaper: Array.from(colorGrading.lut.shaper),
+        }),
       };
     }
 
@@ -861,6 +922,9 @@ export class EffectsBridge {
         data: new Uint8Array(data.colorGrading.lut.data),
         size: data.colorGrading.lut.size,
         intensity: data.colorGrading.lut.intensity,
+        ...(data.colorGrading.lut.shaper && {
+          shaper: new Float32Array(data.colorGrading.lut.shaper),
+        }),
       };
     }
 
@@ -1038,6 +1102,17 @@ export function getEffectsBridge(): EffectsBridge {
   return effectsBridgeInstance;
 }
 
+/**
+ * Get the shared EffectsBridge instance without starting initialization.
+ * Clip color grades can be read and written before the GPU is set up.
+ */
+export function getEffectsBridgeState(): EffectsBridge {
+  if (!effectsBridgeInstance) {
+    effectsBridgeInstance = new EffectsBridge();
+  }
+  return effectsBridgeInstance;
+}
+
 /**
  * Get the shared EffectsBridge instance (async version - preferred)
  * Properly awaits initialization before returning.
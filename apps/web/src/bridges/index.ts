@@ -53,6 +53,7 @@ export {
 export {
   EffectsBridge,
   getEffectsBridge,
+  getEffectsBridgeState,
   initializeEffectsBridge,
   disposeEffectsBridge,
   type VideoEffect,
@@ -162,3 +163,16 @@ export {
   type SilenceAnalysisResult,
   type SilenceProgressCallback,
 } from "./silence-cut-bridge";
+
+export {
+  AudioRepairBridge,
+  getAudioRepairBridge,
+  disposeAudioRepairBridge,
+  type AudioRepairOutcome,
+} from "./audio-repair-bridge";
+
+export {
+  MultiCamBridge,
+  getMultiCamBridge,
+  disposeMultiCamBridge,
+} from "./multicam-bridge";
@@ -8,6 +8,7 @@ import type {
   ProcessedMedia,
   WaveformData,
   MediaTrackInfo,
+  SceneCut,
 } from "@openreel/core";
 import { useProjectStore } from "../stores/project-store";
 
@@ -85,12 +86,15 @@ export class MediaBridge {
    *
    * @param file - The file to import
    * @param generateWaveform - Whether to generate waveform data (default: true)
+   * @param quickMode - Skip thumbnails, waveform and scene detection
+   * @param detectSceneCuts - Find shot changes in video (default: false)
    * @returns Import result with processed media or error
    */
   async importFile(
     file: File,
     generateWaveform = true,
     quickMode = false,
+    detectSceneCuts = false,
   ): Promise<MediaBridgeImportResult> {
     if (!this.initialized || !this.mediaImportService) {
       return {
@@ -111,6 +115,7 @@ export class MediaBridge {
         waveformSamplesPerSecond: 100,
         useFallback: true,
         quickMode,
+        detectSceneCuts,
       });
 
       if (!result.success || !result.media) {
@@ -174,6 +179,23 @@ export class MediaBridge {
     }
   }
 
+  /**
+   * Find shot changes in a video that is already imported
+   *
+   * @param file - The video file
+   * @param duration - Media duration in seconds
+   * @returns Scene cuts in media time
+   */
+  async detectSceneCuts(
+    file: File | Blob,
+    duration: number,
+  ): Promise<SceneCut[]> {
+    if (!this.initialized || !this.mediaImportService) {
+      throw new Error("MediaBridge not initialized");
+    }
+    return this.mediaImportService.detectSceneCutsForMedia(file, duration);
+  }
+
   /**
    * Import multiple media files
    *
@@ -1,6 +1,17 @@
 import {
   getMotionTrackingEngine,
+  type ClipStabilization,
+  type CornerPin,
+  type Keyframe,
+  type MaskEngine,
+  type MaskTrackingOptions,
+  type PlanarFrameProvider,
+  type PlanarKeyframeExportOptions,
+  type PlanarTrackingData,
+  type PlanarTrackingOptions,
   type Rectangle,
+  type StabilizationOptions,
+  type StabilizationSettings,
   type TrackingOptions,
   type TrackingJob,
   type TrackingData,
@@ -30,6 +41,7 @@ class MotionTrackingBridge {
   };
   private listeners: Set<MotionTrackingStateListener> = new Set();
   private clipTrackingMap: Map<string, string> = new Map();
+  private clipPlanarTrackMap: Map<string, string> = new Map();
   private unsubscribeProgress: (() => void) | null = null;
   private unsubscribeLost: (() => void) | null = null;
 
@@ -86,53 +98,18 @@ class MotionTrackingBridge {
     try {
       const job = await this.engine.startTracking(clipId, region, options);
       this.updateState({ currentJob: job });
-
-      const pollInterval = setInterval(() => {
-        const currentJob = this.engine.getTrackingJob(job.id);
-        if (!currentJob) {
-          clearInterval(pollInterval);
-          return;
-        }
-
-        this.updateState({ currentJob, progress: currentJob.progress });
-
-        if (
-          currentJob.status === "completed" ||
-          currentJob.status === "failed" ||
-          currentJob.status === "cancelled"
-        ) {
-          clearInterval(pollInterval);
-
-          if (currentJob.status === "completed") {
-            const allTrackingData = this.engine.getTrackingDataForClip(clipId);
-            const latestData =
-              allTrackingData.length > 0
-                ? allTrackingData[allTrackingData.length - 1]
-                : null;
-
-            if (latestData) {
-              this.clipTrackingMap.set(clipId, latestData.trackId);
-            }
-
-            this.updateState({
-              isTracking: false,
-              trackingData: latestData,
-              currentJob,
-            });
-          } else if (currentJob.status === "failed") {
-            this.updateState({
-              isTracking: false,
-              error: currentJob.error || "Tracking failed",
-              currentJob,
-            });
-          } else {
-            this.updateState({
-              isTracking: false,
-              currentJob,
-            });
-          }
+      this.watchJob(job.id, () => {
+        const allTrackingData = this.engine.getTrackingDataForClip(clipId);
+        const latestData =
+          allTrackingData.length > 0
+            ? allTrackingData[allTrackingData.length - 1]
+            : null;
+
+        if (latestData) {
+          this.clipTrackingMap.set(clipId, latestData.trackId);
         }
-      }, 100);
+        return { trackingData: latestData };
+      });
 
       return job;
     } catch (error) {
@@ -146,6 +123,141 @@ class MotionTrackingBridge {
     }
   }
 
+  /** Planar (four-corner) tracking; see MotionTrackingEngine. */
+  async startPlanarTracking(
+    clipId: string,
+    corners: CornerPin,
+    getFrame: PlanarFrameProvider,
+    options: PlanarTrackingOptions = {},
+  ): Promise<TrackingJob> {
+    this.updateState({
+      isTracking: true,
+      progress: 0,
+      lostFrames: [],
+      error: null,
+    });
+
+    const job = await this.engine.startPlanarTracking(
+      clipId,
+      corners,
+      getFrame,
+      options,
+    );
+    this.updateState({ currentJob: job });
+    this.watchJob(job.id, (completed) => {
+      if (completed.trackId) {
+        this.clipPlanarTrackMap.set(clipId, completed.trackId);
+      }
+      return {};
+    });
+    return job;
+  }
+
+  /** Makes a mask follow its subject; see MotionTrackingEngine. */
+  async startMaskTracking(
+    masks: MaskEngine,
+    maskId: string,
+    getFrame: PlanarFrameProvider,
+    options: MaskTrackingOptions = {},
+  ): Promise<TrackingJob> {
+    this.updateState({
+      isTracking: true,
+      progress: 0,
+      lostFrames: [],
+      error: null,
+    });
+
+    const job = await this.engine.startMaskTracking(
+      masks,
+      maskId,
+      getFrame,
+      options,
+    );
+    this.updateState({ currentJob: job });
+    this.watchJob(job.id, () => ({}));
+    return job;
+  }
+
+  /** Analyzes a clip's camera shake; see MotionTrackingEngine. */
+  async startStabilization(
+    clipId: string,
+    getFrame: PlanarFrameProvider,
+    options: StabilizationOptions = {},
+  ): Promise<TrackingJob> {
+    this.updateState({
+      isTracking: true,
+      progress: 0,
+      lostFrames: [],
+      error: null,
+    });
+
+    const job = await this.engine.startStabilization(
+      clipId,
+      getFrame,
+      options,
+    );
+    this.updateState({ currentJob: job });
+    this.watchJob(job.id, () => ({}));
+    return job;
+  }
+
+  getStabilization(clipId: string): ClipStabilization | undefined {
+    return this.engine.getStabilization(clipId);
+  }
+
+  updateStabilizationSettings(
+    clipId: string,
+    settings: Partial<StabilizationSettings>,
+  ): ClipStabilization {
+    return this.engine.updateStabilizationSettings(clipId, settings);
+  }
+
+  removeStabilization(clipId: string): void {
+    this.engine.removeStabilization(clipId);
+  }
+
+  private watchJob(
+    jobId: string,
+    onCompleted: (job: TrackingJob) => Partial<MotionTrackingState>,
+  ): void {
+    const pollInterval = setInterval(() => {
+      const currentJob = this.engine.getTrackingJob(jobId);
+      if (!currentJob) {
+        clearInterval(pollInterval);
+        return;
+      }
+
+      this.updateState({ currentJob, progress: currentJob.progress });
+
+      if (
+        currentJob.status === "completed" ||
+        currentJob.status === "failed" ||
+        currentJob.status === "cancelled"
+      ) {
+        clearInterval(pollInterval);
+
+        if (currentJob.status === "completed") {
+          this.updateState({
+            ...onCompleted(currentJob),
+            isTracking: false,
+            currentJob,
+          });
+        } else if (currentJob.status === "failed") {
+          this.updateState({
+            isTracking: false,
+            error: currentJob.error || "Tracking failed",
+            currentJob,
+          });
+        } else {
+          this.updateState({
+            isTracking: false,
+            currentJob,
+          });
+        }
+      }
+    }, 100);
+  }
+
   cancelTracking(jobId: string): void {
     this.engine.cancelTracking(jobId);
     this.updateState({
@@ -207,6 +319,48 @@ class MotionTrackingBridge {
     this.engine.correctTrackingPoint(trackId, frameIndex, position);
   }
 
+  correctPlanarCorners(
+    trackId: string,
+    frameIndex: number,
+    corners: CornerPin,
+  ): void {
+    this.engine.correctPlanarCorners(trackId, frameIndex, corners);
+  }
+
+  attachCornerPin(
+    trackId: string,
+    elementId: string,
+    corners?: CornerPin,
+  ): void {
+    this.engine.attachCornerPin(trackId, elementId, corners);
+  }
+
+  detachCornerPin(elementId: string): void {
+    this.engine.detachCornerPin(elementId);
+  }
+
+  getCornerPinAtTime(
+    elementId: string,
+    timeInSeconds: number,
+  ): CornerPin | null {
+    return this.engine.getCornerPinAtTime(elementId, timeInSeconds);
+  }
+
+  exportPlanarTrackAsKeyframes(
+    trackId: string,
+    options?: PlanarKeyframeExportOptions,
+  ): Keyframe[] {
+    return this.engine.exportPlanarTrackAsKeyframes(trackId, options);
+  }
+
+  getPlanarTracksForClip(clipId: string): PlanarTrackingData[] {
+    return this.engine.getPlanarTracksForClip(clipId);
+  }
+
+  getClipPlanarTrackId(clipId: string): string | null {
+    return this.clipPlanarTrackMap.get(clipId) || null;
+  }
+
   getTrackingDataForClip(clipId: string): TrackingData[] {
     return this.engine.getTrackingDataForClip(clipId);
   }
@@ -0,0 +1,156 @@
+import type {
+  AngleSwitch,
+  AutoSwitchOptions,
+  MultiCamGroup,
+} from "@openreel/core";
+import { useEngineStore } from "../stores/engine-store";
+import { useProjectStore } from "../stores/project-store";
+
+/**
+ * Feeds multicam auto switching with microphone audio from the timeline.
+ * Group time zero is where the earliest angle clip starts, so cuts and
+ * live switches line up with the audio the user hears.
+ */
+export class MultiCamBridge {
+  private audioContext: AudioContext | null = null;
+  private decoded = new Map<string, AudioBuffer>();
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+
+  /** Timeline time where the group's angles begin. */
+  getGroupStartTime(group: MultiCamGroup): number {
+    return this.getGroupSpan(group).start;
+  }
+
+  async autoSwitch(
+    groupId: string,
+    options: AutoSwitchOptions = {},
+  ): Promise<AngleSwitch[]> {
+    const engine = await useEngineStore.getState().getMultiCamEngine();
+    const group = engine.getGroup(groupId);
+    if (!group) {
+      throw new Error("Multicam group not found");
+    }
+    const span = this.getGroupSpan(group);
+
+    const micBuffers = new Map<string, AudioBuffer>();
+    for (const angle of group.angles) {
+      if (!angle.micTrackId) continue;
+      micBuffers.set(
+        angle.id,
+        await this.renderTrackAudio(angle.micTrackId, span.start, span.end),
+      );
+    }
+
+    const switches = engine.autoSwitchByAudio(groupId, micBuffers, options);
+    useProjectStore.setState((state) => ({
+      project: { ...state.project, modifiedAt: Date.now() },
+    }));
+    return switches;
+  }
+
+  private getGroupSpan(group: MultiCamGroup): { start: number; end: number } {
+    const store = useProjectStore.getState();
+    const clips = group.angles
+      .map((angle) => store.getClip(angle.clipId))
+      .filter((clip) => clip !== undefined);
+    if (clips.length === 0) {
+      return { start: 0, end: group.duration };
+    }
+    const start = Math.min(...clips.map((clip) => clip.startTime));
+    const end = Math.max(
+      ...clips.map((clip) => clip.startTime + clip.duration),
+    );
+    return { start, end };
+  }
+
+  /** Mixes a track's clips down to mono between two timeline times. */
+  private async renderTrackAudio(
+    trackId: string,
+    start: number,
+    end: number,
+  ): Promise<AudioBuffer> {
+    const store = useProjectStore.getState();
+    const track = store.project.timeline.tracks.find((t) => t.id === trackId);
+    if (!track) {
+      throw new Error("Microphone track not found");
+    }
+
+    const audioContext = this.getAudioContext();
+    const sampleRate = audioContext.sampleRate;
+    const length = Math.max(1, Math.ceil((end - start) * sampleRate));
+    const output = audioContext.createBuffer(1, length, sampleRate);
+    const mix = output.getChannelData(0);
+
+    for (const clip of track.clips) {
+      const source = await this.decodeMedia(clip.mediaId);
+      if (!source) continue;
+      const channels = Array.from(
+        { length: source.numberOfChannels },
+        (_, channel) => source.getChannelData(channel),
+      );
+      const first = Math.max(
+        0,
+        Math.ceil((clip.startTime - start) * sampleRate),
+      );
+      const last = Math.min(
+        length,
+        Math.floor((clip.startTime + clip.duration - start) * sampleRate),
+      );
+      for (let to = first; to < last; to++) {
+        const time = start + to / sampleRate - clip.startTime;
+        const from = Math.floor((clip.inPoint + time) * source.sampleRate);
+        if (from >= source.length) break;
+        let sample = 0;
+        for (const data of channels) sample += data[from];
+        mix[to] += sample / channels.length;
+      }
+    }
+    return output;
+  }
+
+  private async decodeMedia(mediaId: string): Promise<AudioBuffer | null> {
+    const cached = this.decoded.get(mediaId);
+    if (cached) return cached;
+
+    const mediaItem = useProjectStore.getState().getMediaItem(mediaId);
+    if (!mediaItem?.blob) return null;
+    try {
+      const arrayBuffer = await mediaItem.blob.arrayBuffer();
+      const buffer = await this.getAudioContext().decodeAudioData(arrayBuffer);
+      this.decoded.set(mediaId, buffer);
+      return buffer;
+    } catch {
+      return null;
+    }
+  }
+
+  dispose(): void {
+    this.decoded.clear();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
+}
+
+let bridgeInstance: MultiCamBridge | null = null;
+
+export function getMultiCamBridge(): MultiCamBridge {
+  if (!bridgeInstance) {
+    bridgeInstance = new MultiCamBridge();
+  }
+  return bridgeInstance;
+}
+
+export function disposeMultiCamBridge(): void {
+  if (bridgeInstance) {
+    bridgeInstance.dispose();
+    bridgeInstance = null;
+  }
+}
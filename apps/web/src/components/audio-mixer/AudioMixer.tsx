@@ -6,11 +6,16 @@ import React, {
   useRef,
 } from "react";
 import { useProjectStore } from "../../stores/project-store";
-import { ChannelStrip } from "./ChannelStrip";
+import { ChannelStrip, BusStrip } from "./ChannelStrip";
+import { InsertChain } from "./InsertChain";
 import type { ChannelStripState } from "./types";
 import { volumeToDb, formatDb } from "./types";
 import {
   getRealtimeAudioProcessor,
+  getTrackMix,
+  DEFAULT_MASTER_BUS,
+  type AudioSend,
+  type Effect,
   type RealtimeAudioProcessor,
 } from "@openreel/core";
 
@@ -26,10 +31,19 @@ export interface AudioMixerProps {
  */
 const MasterChannel: React.FC<{
   volume: number;
+  effects: Effect[];
   peakLevel: number;
   rmsLevel: number;
   onVolumeChange: (volume: number) => void;
-}> = ({ volume, peakLevel, rmsLevel, onVolumeChange }) => {
+  onEffectsChange: (effects: Effect[]) => void;
+}> = ({
+  volume,
+  effects,
+  peakLevel,
+  rmsLevel,
+  onVolumeChange,
+  onEffectsChange,
+}) => {
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       onVolumeChange(parseFloat(e.target.value));
@@ -51,6 +65,9 @@ const MasterChannel: React.FC<{
     <div className="flex flex-col items-center gap-2 p-3 bg-gray-900 rounded-lg min-w-[100px] border border-gray-700">
       <div className="text-xs text-gray-300 font-bold">MASTER</div>
 
+      {/* Master insert chain */}
+      <InsertChain effects={effects} onChange={onEffectsChange} />
+
       {/* Stereo level meter */}
       <div className="flex gap-1 h-32 w-6">
         <div className="flex-1 bg-gray-800 rounded-sm overflow-hidden relative">
@@ -126,18 +143,25 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
   const project = useProjectStore((state) => state.project);
   const muteTrack = useProjectStore((state) => state.muteTrack);
   const soloTrack = useProjectStore((state) => state.soloTrack);
+  const addAudioBus = useProjectStore((state) => state.addAudioBus);
+  const removeAudioBus = useProjectStore((state) => state.removeAudioBus);
+  const updateAudioBus = useProjectStore((state) => state.updateAudioBus);
+  const updateTrackMix = useProjectStore((state) => state.updateTrackMix);
+  const updateMasterBus = useProjectStore((state) => state.updateMasterBus);
+  const bakeBusDucking = useProjectStore((state) => state.bakeBusDucking);
 
   // Reference to the audio processor
   const audioProcessorRef = useRef<RealtimeAudioProcessor | null>(null);
 
-  // Local state for master volume and levels
-  const [masterVolume, setMasterVolume] = useState(1);
+  // Faders, pans, routing and buses live in the project's mix
+  const audioMix = project.timeline.audioMix;
+  const buses = useMemo(() => audioMix?.buses ?? [], [audioMix]);
+  const master = audioMix?.master ?? DEFAULT_MASTER_BUS;
+  const masterVolume = master.volume;
+
+  // Local state for levels
   const [masterPeakLevel, setMasterPeakLevel] = useState(0);
   const [masterRmsLevel, setMasterRmsLevel] = useState(0);
-
-  // Local state for track volumes and pans (stored per-track)
-  const [trackVolumes, setTrackVolumes] = useState<Record<string, number>>({});
-  const [trackPans, setTrackPans] = useState<Record<string, number>>({});
   const [trackLevels, setTrackLevels] = useState<
     Record<string, { peak: number; rms: number }>
   >({});
@@ -161,38 +185,57 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
 
   // Build channel strip states (Requirement 20.1)
   const channels: ChannelStripState[] = useMemo(() => {
-    return audioTracks.map((track) => ({
-      trackId: track.id,
-      trackName: track.name,
-      trackType: track.type,
-      volume: trackVolumes[track.id] ?? 1,
-      pan: trackPans[track.id] ?? 0,
-      muted: track.muted,
-      solo: track.solo,
-      peakLevel: trackLevels[track.id]?.peak ?? 0,
-      rmsLevel: trackLevels[track.id]?.rms ?? 0,
-    }));
-  }, [audioTracks, trackVolumes, trackPans, trackLevels]);
+    return audioTracks.map((track) => {
+      const trackMix = getTrackMix(audioMix, track.id);
+      return {
+        trackId: track.id,
+        trackName: track.name,
+        trackType: track.type,
+        volume: trackMix.volume,
+        pan: trackMix.pan,
+        muted: track.muted,
+        solo: track.solo,
+        peakLevel: trackLevels[track.id]?.peak ?? 0,
+        rmsLevel: trackLevels[track.id]?.rms ?? 0,
+        outputBusId: trackMix.outputBusId,
+        sends: trackMix.sends,
+      };
+    });
+  }, [audioTracks, audioMix, trackLevels]);
 
   // Handle volume change (Requirement 20.2)
-  const handleVolumeChange = useCallback((trackId: string, volume: number) => {
-    setTrackVolumes((prev) => ({
-      ...prev,
-      [trackId]: volume,
-    }));
-    // Apply volume change to audio processor
-    audioProcessorRef.current?.setTrackVolume(trackId, volume);
-  }, []);
+  const handleVolumeChange = useCallback(
+    (trackId: string, volume: number) => {
+      updateTrackMix(trackId, { volume });
+      // Apply volume change to audio processor
+      audioProcessorRef.current?.setTrackVolume(trackId, volume);
+    },
+    [updateTrackMix],
+  );
 
   // Handle pan change (Requirement 20.3)
-  const handlePanChange = useCallback((trackId: string, pan: number) => {
-    setTrackPans((prev) => ({
-      ...prev,
-      [trackId]: pan,
-    }));
-    // Apply pan change to audio processor
-    audioProcessorRef.current?.setTrackPan(trackId, pan);
-  }, []);
+  const handlePanChange = useCallback(
+    (trackId: string, pan: number) => {
+      updateTrackMix(trackId, { pan });
+      // Apply pan change to audio processor
+      audioProcessorRef.current?.setTrackPan(trackId, pan);
+    },
+    [updateTrackMix],
+  );
+
+  const handleOutputChange = useCallback(
+    (trackId: string, outputBusId: string | undefined) => {
+      updateTrackMix(trackId, { outputBusId });
+    },
+    [updateTrackMix],
+  );
+
+  const handleSendsChange = useCallback(
+    (trackId: string, sends: AudioSend[]) => {
+      updateTrackMix(trackId, { sends });
+    },
+    [updateTrackMix],
+  );
 
   // Handle mute toggle (Requirement 20.5)
   const handleMuteToggle = useCallback(
@@ -217,11 +260,25 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
   );
 
   // Handle master volume change
-  const handleMasterVolumeChange = useCallback((volume: number) => {
-    setMasterVolume(volume);
-    // Apply master volume to audio processor
-    audioProcessorRef.current?.setMasterVolume(volume);
-  }, []);
+  const handleMasterVolumeChange = useCallback(
+    (volume: number) => {
+      updateMasterBus({ volume });
+      // Apply master volume to audio processor
+      audioProcessorRef.current?.setMasterVolume(volume);
+    },
+    [updateMasterBus],
+  );
+
+  const handleMasterEffectsChange = useCallback(
+    (effects: Effect[]) => {
+      updateMasterBus({ effects });
+    },
+    [updateMasterBus],
+  );
+
+  const handleAddBus = useCallback(() => {
+    addAudioBus(`Bus ${buses.length + 1}`);
+  }, [addAudioBus, buses.length]);
 
   // Level metering - updates based on track audibility from audio processor
   useEffect(() => {
@@ -239,7 +296,7 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
         const isAudible = audibilityMap
           ? (audibilityMap.get(track.id) ?? false)
           : !track.muted && (!hasSoloedTracks || track.solo);
-        const trackVolume = trackVolumes[track.id] ?? 1;
+        const trackVolume = getTrackMix(audioMix, track.id).volume;
 
         if (isAudible && trackVolume > 0) {
           // Calculate levels based on track volume
@@ -270,7 +327,7 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
     }, 100);
 
     return () => clearInterval(interval);
-  }, [visible, audioTracks, hasSoloedTracks, masterVolume, trackVolumes]);
+  }, [visible, audioTracks, hasSoloedTracks, masterVolume, audioMix]);
 
   if (!visible) return null;
 
@@ -284,15 +341,23 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold text-white">Audio Mixer</h2>
-        {onClose && (
+        <div className="flex items-center gap-3">
           <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors"
-            aria-label="Close mixer"
+            onClick={handleAddBus}
+            className="px-2 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
           >
-            ✕
+            + Add Bus
           </button>
-        )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Close mixer"
+            >
+              ✕
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Channel strips container */}
@@ -303,10 +368,13 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
             <ChannelStrip
               key={channel.trackId}
               channel={channel}
+              buses={buses}
               onVolumeChange={handleVolumeChange}
               onPanChange={handlePanChange}
               onMuteToggle={handleMuteToggle}
               onSoloToggle={handleSoloToggle}
+              onOutputChange={handleOutputChange}
+              onSendsChange={handleSendsChange}
               hasSoloedTracks={hasSoloedTracks}
             />
           ))
@@ -322,12 +390,30 @@ export const AudioMixer: React.FC<AudioMixerProps> = ({
           <div className="w-px bg-gray-700 mx-2 self-stretch" />
         )}
 
+        {/* Submix and effect-return buses */}
+        {buses.map((bus) => (
+          <BusStrip
+            key={bus.id}
+            bus={bus}
+            buses={buses}
+            onUpdate={updateAudioBus}
+            onRemove={removeAudioBus}
+            onBakeDucking={bakeBusDucking}
+          />
+        ))}
+
+        {buses.length > 0 && (
+          <div className="w-px bg-gray-700 mx-2 self-stretch" />
+        )}
+
         {/* Master channel */}
         <MasterChannel
           volume={masterVolume}
+          effects={master.effects}
           peakLevel={masterPeakLevel}
           rmsLevel={masterRmsLevel}
           onVolumeChange={handleMasterVolumeChange}
+          onEffectsChange={handleMasterEffectsChange}
         />
       </div>
 
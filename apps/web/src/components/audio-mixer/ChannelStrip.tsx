@@ -1,16 +1,30 @@
 import React, { useCallback, useMemo } from "react";
+import type { AudioBus, AudioSend } from "@openreel/core";
 import type { ChannelStripState } from "./types";
 import { volumeToDb, formatDb, formatPan } from "./types";
+import { InsertChain } from "./InsertChain";
+import { SidechainControls } from "./SidechainControls";
 
 export interface ChannelStripProps {
   channel: ChannelStripState;
+  buses: AudioBus[];
   onVolumeChange: (trackId: string, volume: number) => void;
   onPanChange: (trackId: string, pan: number) => void;
   onMuteToggle: (trackId: string) => void;
   onSoloToggle: (trackId: string) => void;
+  onOutputChange: (trackId: string, busId: string | undefined) => void;
+  onSendsChange: (trackId: string, sends: AudioSend[]) => void;
   hasSoloedTracks: boolean;
 }
 
+export interface BusStripProps {
+  bus: AudioBus;
+  buses: AudioBus[];
+  onUpdate: (busId: string, updates: Partial<Omit<AudioBus, "id">>) => void;
+  onRemove: (busId: string) => void;
+  onBakeDucking: (busId: string) => void;
+}
+
 /**
  * Level meter component for displaying audio levels
  */
@@ -162,6 +176,81 @@ const PanKnob: React.FC<{
   );
 };
 
+/**
+ * Output selector and aux sends for a track
+ */
+const Routing: React.FC<{
+  outputBusId?: string;
+  sends: AudioSend[];
+  buses: AudioBus[];
+  onOutputChange: (busId: string | undefined) => void;
+  onSendsChange: (sends: AudioSend[]) => void;
+}> = ({ outputBusId, sends, buses, onOutputChange, onSendsChange }) => {
+  const setSend = (busId: string, updates: Partial<AudioSend>) => {
+    const existing = sends.find((s) => s.busId === busId);
+    onSendsChange(
+      existing
+        ? sends.map((s) => (s.busId === busId ? { ...s, ...updates } : s))
+        : [...sends, { busId, level: 0, preFader: false, ...updates }],
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      <select
+        value={outputBusId ?? ""}
+        onChange={(e) => onOutputChange(e.target.value || undefined)}
+        className="w-full bg-gray-700 text-gray-300 text-[10px] rounded px-1 py-0.5"
+        aria-label="Track output"
+      >
+        <option value="">Master</option>
+        {buses.map((bus) => (
+          <option key={bus.id} value={bus.id}>
+            {bus.name}
+          </option>
+        ))}
+      </select>
+      {buses.map((bus) => {
+        const send = sends.find((s) => s.busId === bus.id);
+        return (
+          <div key={bus.id} className="flex items-center gap-1">
+            <span
+              className="text-[9px] text-gray-400 w-8 truncate"
+              title={bus.name}
+            >
+              {bus.name}
+            </span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={send?.level ?? 0}
+              onChange={(e) =>
+                setSend(bus.id, { level: parseFloat(e.target.value) })
+              }
+              className="w-10 h-1 appearance-none bg-gray-700 rounded-full cursor-pointer"
+              aria-label={`Send to ${bus.name}`}
+            />
+            <button
+              onClick={() => setSend(bus.id, { preFader: !send?.preFader })}
+              className={`px-1 text-[9px] rounded ${
+                send?.preFader
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-400"
+              }`}
+              aria-label={`Send to ${bus.name} pre-fader`}
+              aria-pressed={send?.preFader ?? false}
+            >
+              {send?.preFader ? "Pre" : "Post"}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 /**
  * ChannelStrip component
  *
@@ -173,10 +262,13 @@ const PanKnob: React.FC<{
  */
 export const ChannelStrip: React.FC<ChannelStripProps> = ({
   channel,
+  buses,
   onVolumeChange,
   onPanChange,
   onMuteToggle,
   onSoloToggle,
+  onOutputChange,
+  onSendsChange,
   hasSoloedTracks,
 }) => {
   const handleVolumeChange = useCallback(
@@ -201,6 +293,20 @@ export const ChannelStrip: React.FC<ChannelStripProps> = ({
     onSoloToggle(channel.trackId);
   }, [channel.trackId, onSoloToggle]);
 
+  const handleOutputChange = useCallback(
+    (busId: string | undefined) => {
+      onOutputChange(channel.trackId, busId);
+    },
+    [channel.trackId, onOutputChange],
+  );
+
+  const handleSendsChange = useCallback(
+    (sends: AudioSend[]) => {
+      onSendsChange(channel.trackId, sends);
+    },
+    [channel.trackId, onSendsChange],
+  );
+
   // Determine if this channel is effectively muted
   // (either explicitly muted, or not soloed when other tracks are soloed)
   const isEffectivelyMuted = useMemo(() => {
@@ -276,6 +382,105 @@ export const ChannelStrip: React.FC<ChannelStripProps> = ({
           S
         </button>
       </div>
+
+      {/* Output bus and aux sends */}
+      <Routing
+        outputBusId={channel.outputBusId}
+        sends={channel.sends}
+        buses={buses}
+        onOutputChange={handleOutputChange}
+        onSendsChange={handleSendsChange}
+      />
+    </div>
+  );
+};
+
+/**
+ * BusStrip component
+ *
+ * A submix or effect-return bus: insert chain, sidechain ducking, pan,
+ * fader and mute. Every bus feeds the master.
+ */
+export const BusStrip: React.FC<BusStripProps> = ({
+  bus,
+  buses,
+  onUpdate,
+  onRemove,
+  onBakeDucking,
+}) => {
+  const handleVolumeChange = useCallback(
+    (volume: number) => {
+      onUpdate(bus.id, { volume });
+    },
+    [bus.id, onUpdate],
+  );
+
+  const handlePanChange = useCallback(
+    (pan: number) => {
+      onUpdate(bus.id, { pan });
+    },
+    [bus.id, onUpdate],
+  );
+
+  return (
+    <div
+      className={`flex flex-col items-center gap-2 p-3 bg-gray-800 rounded-lg min-w-[80px] border border-gray-600
+ ${bus.muted ? "opacity-60" : ""}`}
+      data-testid={`bus-strip-${bus.id}`}
+    >
+      <div className="flex items-center gap-1 w-full">
+        <input
+          key={bus.name}
+          defaultValue={bus.name}
+          onBlur={(e) => {
+            const name = e.target.value.trim();
+            if (name && name !== bus.name) onUpdate(bus.id, { name });
+          }}
+          className="flex-1 min-w-0 bg-transparent text-xs text-gray-300 font-medium text-center"
+          aria-label="Bus name"
+        />
+        <button
+          onClick={() => onRemove(bus.id)}
+          className="text-xs text-gray-500 hover:text-white"
+          aria-label={`Remove ${bus.name}`}
+        >
+          ✕
+        </button>
+      </div>
+
+      <InsertChain
+        effects={bus.effects}
+        onChange={(effects) => onUpdate(bus.id, { effects })}
+      />
+
+      <SidechainControls
+        bus={bus}
+        buses={buses}
+        onChange={(ducking) => onUpdate(bus.id, { ducking })}
+        onBake={() => onBakeDucking(bus.id)}
+      />
+
+      <PanKnob value={bus.pan} onChange={handlePanChange} />
+
+      <Fader
+        value={bus.volume}
+        onChange={handleVolumeChange}
+        disabled={bus.muted}
+      />
+
+      <button
+        onClick={() => onUpdate(bus.id, { muted: !bus.muted })}
+        className={`px-2 py-1 text-xs font-bold rounded transition-colors
+ ${
+   bus.muted
+     ? "bg-red-600 text-white"
+     : "bg-gray-700 text-gray-400 hover:bg-gray-600"
+ }`}
+        aria-label={bus.muted ? "Unmute bus" : "Mute bus"}
+        aria-pressed={bus.muted}
+      >
+        M
+      </button>
     </div>
   );
 };
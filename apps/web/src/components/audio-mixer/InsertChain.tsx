@@ -0,0 +1,124 @@
+import React, { useCallback } from "react";
+import type { Effect } from "@openreel/core";
+import { v4 as uuidv4 } from "uuid";
+import {
+  DEFAULT_EQ_BANDS,
+  DEFAULT_COMPRESSOR,
+  DEFAULT_REVERB,
+  DEFAULT_DELAY,
+  DEFAULT_DE_ESSER,
+  DEFAULT_LIMITER,
+  DEFAULT_GATE,
+  DEFAULT_PITCH_SHIFT,
+} from "../../bridges/audio-bridge-effects";
+
+const INSERT_TYPES: Array<{
+  type: string;
+  label: string;
+  params: () => Record<string, unknown>;
+}> = [
+  { type: "eq", label: "EQ", params: () => ({ bands: DEFAULT_EQ_BANDS }) },
+  {
+    type: "compressor",
+    label: "Compressor",
+    params: () => ({ ...DEFAULT_COMPRESSOR }),
+  },
+  { type: "reverb", label: "Reverb", params: () => ({ ...DEFAULT_REVERB }) },
+  { type: "delay", label: "Delay", params: () => ({ ...DEFAULT_DELAY }) },
+  {
+    type: "deEsser",
+    label: "De-esser",
+    params: () => ({ ...DEFAULT_DE_ESSER }),
+  },
+  { type: "gate", label: "Gate", params: () => ({ ...DEFAULT_GATE }) },
+  {
+    type: "pitchShift",
+    label: "Pitch Shift",
+    params: () => ({ ...DEFAULT_PITCH_SHIFT }),
+  },
+  { type: "limiter", label: "Limiter", params: () => ({ ...DEFAULT_LIMITER }) },
+];
+
+const insertLabel = (type: string) =>
+  INSERT_TYPES.find((t) => t.type === type)?.label ?? type;
+
+export interface InsertChainProps {
+  effects: Effect[];
+  onChange: (effects: Effect[]) => void;
+}
+
+/**
+ * Insert slots for a bus, processed top to bottom ahead of the fader
+ */
+export const InsertChain: React.FC<InsertChainProps> = ({
+  effects,
+  onChange,
+}) => {
+  const handleAdd = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const insert = INSERT_TYPES.find((t) => t.type === e.target.value);
+      if (!insert) return;
+      onChange([
+        ...effects,
+        {
+          id: uuidv4(),
+          type: insert.type,
+          params: insert.params(),
+          enabled: true,
+        },
+      ]);
+    },
+    [effects, onChange],
+  );
+
+  return (
+    <div className="flex flex-col gap-1 w-full" data-testid="insert-chain">
+      {effects.map((effect) => (
+        <div
+          key={effect.id}
+          className={`flex items-center gap-1 px-1 py-0.5 rounded bg-gray-700 text-[10px]
+ ${effect.enabled ? "text-gray-200" : "text-gray-500 line-through"}`}
+        >
+          <button
+            onClick={() =>
+              onChange(
+                effects.map((e) =>
+                  e.id === effect.id ? { ...e, enabled: !e.enabled } : e,
+                ),
+              )
+            }
+            className="flex-1 text-left truncate"
+            aria-label={`${effect.enabled ? "Bypass" : "Enable"} ${insertLabel(
+              effect.type,
+            )}`}
+            aria-pressed={effect.enabled}
+          >
+            {insertLabel(effect.type)}
+          </button>
+          <button
+            onClick={() => onChange(effects.filter((e) => e.id !== effect.id))}
+            className="text-gray-400 hover:text-white"
+            aria-label={`Remove ${insertLabel(effect.type)}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={handleAdd}
+        className="w-full bg-gray-700 text-gray-300 text-[10px] rounded px-1 py-0.5"
+        aria-label="Add insert"
+      >
+        <option value="">+ Insert</option>
+        {INSERT_TYPES.map((t) => (
+          <option key={t.type} value={t.type}>
+            {t.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default InsertChain;
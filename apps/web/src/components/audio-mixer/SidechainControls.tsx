@@ -0,0 +1,127 @@
+import React from "react";
+import {
+  DEFAULT_SIDECHAIN_DUCKING,
+  type AudioBus,
+  type SidechainDucking,
+} from "@openreel/core";
+
+type DuckingField = "threshold" | "ratio" | "attack" | "release" | "lookahead";
+
+const FIELDS: Array<{
+  key: DuckingField;
+  label: string;
+  unit: string;
+  /** Display units per stored unit */
+  scale: number;
+  min: number;
+}> = [
+  { key: "threshold", label: "Thr", unit: "dB", scale: 1, min: -60 },
+  { key: "ratio", label: "Ratio", unit: ":1", scale: 1, min: 1 },
+  { key: "attack", label: "Att", unit: "ms", scale: 1000, min: 0 },
+  { key: "release", label: "Rel", unit: "ms", scale: 1000, min: 0 },
+  { key: "lookahead", label: "Look", unit: "ms", scale: 1000, min: 0 },
+];
+
+export interface SidechainControlsProps {
+  bus: AudioBus;
+  buses: AudioBus[];
+  onChange: (ducking: SidechainDucking | undefined) => void;
+  onBake: () => void;
+}
+
+/**
+ * Sidechain ducking for a bus: the key bus that drives it, the compressor
+ * settings, and baking the result into clip volume automation
+ */
+export const SidechainControls: React.FC<SidechainControlsProps> = ({
+  bus,
+  buses,
+  onChange,
+  onBake,
+}) => {
+  const ducking = bus.ducking;
+  const keyBuses = buses.filter((b) => b.id !== bus.id);
+  const hasKey = !!ducking && keyBuses.some((b) => b.id === ducking.keyBusId);
+
+  return (
+    <div className="flex flex-col gap-1 w-full" data-testid="sidechain">
+      <select
+        value={hasKey && ducking ? ducking.keyBusId : ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? {
+                  ...DEFAULT_SIDECHAIN_DUCKING,
+                  ...ducking,
+                  keyBusId: e.target.value,
+                }
+              : undefined,
+          )
+        }
+        className="w-full bg-gray-700 text-gray-300 text-[10px] rounded px-1 py-0.5"
+        aria-label="Duck under bus"
+      >
+        <option value="">No ducking</option>
+        {keyBuses.map((b) => (
+          <option key={b.id} value={b.id}>
+            Duck under {b.name}
+          </option>
+        ))}
+      </select>
+
+      {ducking && hasKey && (
+        <>
+          {FIELDS.map((field) => (
+            <label
+              key={field.key}
+              className="flex items-center justify-between gap-1 text-[9px] text-gray-400"
+            >
+              {field.label}
+              <input
+                key={ducking[field.key]}
+                type="number"
+                min={field.min}
+                defaultValue={+(ducking[field.key] * field.scale).toFixed(1)}
+                onBlur={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (Number.isNaN(value)) return;
+                  const stored = Math.max(field.min, value) / field.scale;
+                  if (stored !== ducking[field.key]) {
+                    onChange({ ...ducking, [field.key]: stored });
+                  }
+                }}
+                className="w-10 bg-gray-700 text-gray-200 rounded px-1 text-right"
+                aria-label={`Ducking ${field.key} (${field.unit})`}
+              />
+            </label>
+          ))}
+          <div className="flex gap-1">
+            <button
+              onClick={() =>
+                onChange({ ...ducking, enabled: !ducking.enabled })
+              }
+              className={`flex-1 px-1 py-0.5 text-[9px] rounded ${
+                ducking.enabled
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-400"
+              }`}
+              aria-pressed={ducking.enabled}
+            >
+              {ducking.enabled ? "On" : "Off"}
+            </button>
+            <button
+              onClick={onBake}
+              disabled={!ducking.enabled}
+              className="flex-1 px-1 py-0.5 text-[9px] rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+              title="Bake to clip volume automation"
+            >
+              Bake
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SidechainControls;
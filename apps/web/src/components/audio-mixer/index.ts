@@ -1,3 +1,5 @@
 export { AudioMixer } from "./AudioMixer";
-export { ChannelStrip } from "./ChannelStrip";
+export { ChannelStrip, BusStrip } from "./ChannelStrip";
+export { InsertChain } from "./InsertChain";
+export { SidechainControls } from "./SidechainControls";
 export * from "./types";
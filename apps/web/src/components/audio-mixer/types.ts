@@ -1,3 +1,5 @@
+import type { AudioSend } from "@openreel/core";
+
 /**
  * Channel strip state for a single audio track
  */
@@ -11,6 +13,8 @@ export interface ChannelStripState {
   readonly solo: boolean;
   readonly peakLevel: number; // 0-1 for meter display
   readonly rmsLevel: number; // 0-1 for meter display
+  readonly outputBusId?: string; // master when unset
+  readonly sends: AudioSend[];
 }
 
 /**
@@ -10,6 +10,7 @@ import {
   Wand2,
   FileStack,
   Volume2,
+  FileText,
 } from "lucide-react";
 import { ScrollArea } from "@openreel/ui";
 import { AutoCaptionPanel } from "./inspector/AutoCaptionPanel";
@@ -18,8 +19,9 @@ import { FilterPresetsPanel } from "./inspector/FilterPresetsPanel";
 import { MusicLibraryPanel } from "./inspector/MusicLibraryPanel";
 import { TemplatesBrowserPanel } from "./inspector/TemplatesBrowserPanel";
 import { MultiCameraPanel } from "./inspector/MultiCameraPanel";
+import { TranscriptEditorPanel } from "./inspector/TranscriptEditorPanel";
 
-type FeatureId = "templates" | "captions" | "tts" | "filters" | "music" | "multicam" | null;
+type FeatureId = "templates" | "captions" | "tts" | "filters" | "music" | "multicam" | "transcript" | null;
 
 interface FeatureCardProps {
   icon: React.ElementType;
@@ -115,6 +117,8 @@ export const AIGenTab: React.FC = () => {
         return <MusicLibraryPanel />;
       case "multicam":
         return <MultiCameraPanel />;
+      case "transcript":
+        return <TranscriptEditorPanel />;
       default:
         return null;
     }
@@ -230,6 +234,18 @@ export const AIGenTab: React.FC = () => {
             isActive={activeFeature === "multicam"}
             onClick={() => handleFeatureClick("multicam")}
           />
+          <FeatureCard
+            icon={FileText}
+            title="Text-Based Editing"
+            description="Cut video by deleting words from the transcript"
+            iconColor="text-amber-400"
+            iconBg="bg-amber-500/20"
+            activeBorder="border-amber-500/50"
+            activeBg="bg-amber-500/10"
+            activeRing="ring-amber-500/30"
+            isActive={activeFeature === "transcript"}
+            onClick={() => handleFeatureClick("transcript")}
+          />
         </FeatureSection>
 
         <div className="pt-2 border-t border-border">
@@ -19,6 +19,7 @@ import {
   AlertTriangle,
   RefreshCw,
   Palette,
+  Clapperboard,
 } from "lucide-react";
 import {
   BACKGROUND_PRESETS,
@@ -303,7 +304,13 @@ export const AssetsPanel: React.FC = () => {
   const mediaItems = project.mediaLibrary.items;
 
   // UI store
-  const { select, isSelected, startDrag } = useUIStore();
+  const {
+    select,
+    isSelected,
+    startDrag,
+    detectSceneCutsOnImport,
+    setDetectSceneCutsOnImport,
+  } = useUIStore();
 
   // Count missing assets
   const missingAssetsCount = mediaItems.filter(
@@ -334,7 +341,9 @@ export const AssetsPanel: React.FC = () => {
             `Importing ${file.name} (${i + 1}/${fileArray.length})...`,
           );
 
-          const result = await importMedia(file);
+          const result = await importMedia(file, {
+            detectSceneCuts: detectSceneCutsOnImport,
+          });
 
           // If it's a video with audio, extract audio to separate track
           if (result.success && file.type.startsWith("video/")) {
@@ -350,7 +359,7 @@ export const AssetsPanel: React.FC = () => {
         setImportProgress("");
       }
     },
-    [importMedia],
+    [importMedia, detectSceneCutsOnImport],
   );
 
   // Handle drag and drop import
@@ -534,6 +543,14 @@ export const AssetsPanel: React.FC = () => {
             onClick={triggerFileInput}
             title="Import media"
           />
+          <IconButton
+            icon={Clapperboard}
+            onClick={() => setDetectSceneCutsOnImport(!detectSceneCutsOnImport)}
+            className={detectSceneCutsOnImport ? "text-primary" : undefined}
+            title={`Detect scene cuts on import: ${
+              detectSceneCutsOnImport ? "on" : "off"
+            }`}
+          />
           <IconButton icon={Maximize2} title="Maximize panel" />
           <IconButton icon={X} title="Close panel" />
         </div>
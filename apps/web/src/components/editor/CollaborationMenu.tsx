@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { Users, Loader2 } from "lucide-react";
+import {
+  Button,
+  Input,
+  Label,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from "@openreel/ui";
+import { useCollaborationStore } from "../../stores/collaboration-store";
+
+/**
+ * Toolbar control for joining a collaboration room on a relay (see
+ * apps/relay) and listing who else is editing.
+ */
+export const CollaborationMenu: React.FC = () => {
+  const {
+    status,
+    peers,
+    color,
+    relayUrl,
+    displayName,
+    setRelayUrl,
+    setDisplayName,
+    connect,
+    disconnect,
+  } = useCollaborationStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isConnected = status === "connected";
+  const isBusy = status === "connecting" || status === "syncing";
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={`relative p-2 rounded-lg transition-colors ${
+            status !== "disconnected"
+              ? "bg-primary/20 text-primary"
+              : "hover:bg-background-elevated text-text-secondary hover:text-text-primary"
+          }`}
+          title="Collaborate"
+        >
+          {isBusy ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Users size={16} />
+          )}
+          {isConnected && peers.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-primary text-[9px] font-bold text-white flex items-center justify-center">
+              {peers.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3">
+        <div className="space-y-3">
+          <div className="text-sm font-medium text-text-primary">
+            Collaborate
+          </div>
+
+          {status === "disconnected" ? (
+            <>
+              <div>
+                <Label className="block text-xs font-medium text-text-secondary mb-1">
+                  Your name
+                </Label>
+                <Input
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  placeholder="Guest"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="block text-xs font-medium text-text-secondary mb-1">
+                  Room URL
+                </Label>
+                <Input
+                  value={relayUrl}
+                  onChange={(e) => setRelayUrl(e.target.value)}
+                  className="h-8 text-xs font-mono"
+                />
+              </div>
+              <p className="text-[10px] text-text-muted">
+                Start a relay with <code>pnpm relay</code>. Everyone joining
+                the same room edits the same timeline; media must be imported
+                on each machine.
+              </p>
+              <Button
+                className="w-full"
+                size="sm"
+                onClick={() => void connect()}
+                disabled={relayUrl.trim() === ""}
+              >
+                Join room
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-2 text-xs text-text-primary">
+                  <span
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: color ?? undefined }}
+                  />
+                  {displayName.trim() || "Guest"} (you)
+                </div>
+                {peers.map((peer) => (
+                  <div
+                    key={peer.peerId}
+                    className="flex items-center gap-2 text-xs text-text-secondary"
+                  >
+                    <span
+                      className="w-2.5 h-2.5 rounded-full"
+                      style={{ backgroundColor: peer.color }}
+                    />
+                    {peer.name}
+                  </div>
+                ))}
+                {isBusy && (
+                  <div className="text-[10px] text-text-muted">
+                    {status === "syncing"
+                      ? "Loading the shared project..."
+                      : "Connecting..."}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                className="w-full"
+                size="sm"
+                onClick={disconnect}
+              >
+                Leave room
+              </Button>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CollaborationMenu;
@@ -42,7 +42,13 @@ import {
   exportPresetsManager,
   type PlatformExportPreset,
 } from "../../services/export-presets";
-import type { VideoExportSettings, UpscaleQuality } from "@openreel/core";
+import {
+  LOUDNESS_TARGETS,
+  type HdrTransfer,
+  type LoudnessTarget,
+  type VideoExportSettings,
+  type UpscaleQuality,
+} from "@openreel/core";
 import {
   getDeviceProfile,
   estimateExportTime,
@@ -546,6 +552,39 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                   </div>
                 </div>
 
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-text-secondary mb-2">
+                    HDR
+                  </label>
+                  <Select
+                    value={customSettings.hdr?.transfer ?? "off"}
+                    onValueChange={(value) =>
+                      setCustomSettings({
+                        ...customSettings,
+                        hdr:
+                          value === "off"
+                            ? undefined
+                            : { transfer: value as HdrTransfer },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-full bg-background-tertiary border-border text-text-primary">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background-secondary border-border">
+                      <SelectItem value="off">Off (SDR)</SelectItem>
+                      <SelectItem value="pq">HDR10 (PQ)</SelectItem>
+                      <SelectItem value="hlg">HLG</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {customSettings.hdr && (
+                    <p className="text-[10px] text-text-muted mt-1">
+                      10-bit BT.2020 with HEVC, VP9 or AV1, whichever this
+                      browser can encode
+                    </p>
+                  )}
+                </div>
+
                 <div className="col-span-2">
                   <label className="block text-xs font-medium text-text-secondary mb-2">
                     Audio Settings
@@ -626,6 +665,53 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                   </div>
                 </div>
 
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-text-secondary mb-2">
+                    Loudness Normalization
+                  </label>
+                  <Select
+                    value={
+                      (Object.keys(LOUDNESS_TARGETS) as LoudnessTarget[]).find(
+                        (target) =>
+                          LOUDNESS_TARGETS[target].targetLufs ===
+                          customSettings.audioSettings.loudness?.targetLufs,
+                      ) ?? "off"
+                    }
+                    onValueChange={(value) =>
+                      setCustomSettings({
+                        ...customSettings,
+                        audioSettings: {
+                          ...customSettings.audioSettings,
+                          loudness:
+                            value === "off"
+                              ? undefined
+                              : LOUDNESS_TARGETS[value as LoudnessTarget],
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-full bg-background-tertiary border-border text-text-primary">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background-secondary border-border">
+                      <SelectItem value="off">Off</SelectItem>
+                      <SelectItem value="streaming">
+                        Streaming (-14 LUFS)
+                      </SelectItem>
+                      <SelectItem value="podcast">Podcast (-16 LUFS)</SelectItem>
+                      <SelectItem value="broadcast">
+                        Broadcast, EBU R128 (-23 LUFS)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {customSettings.audioSettings.loudness && (
+                    <p className="text-[10px] text-text-muted mt-1">
+                      Measured to ITU-R BS.1770, true peaks limited to{" "}
+                      {customSettings.audioSettings.loudness.truePeakLimit} dBTP
+                    </p>
+                  )}
+                </div>
+
                 <div className="col-span-2 border-t border-border pt-4 mt-2">
                   <div className="flex items-center justify-between mb-3">
                     <div className="flex items-center gap-2">
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useMemo, useRef, useState } from "react";
 import { ChevronDown, Zap, Captions, Loader2 } from "lucide-react";
 import { useProjectStore } from "../../stores/project-store";
 import { useUIStore } from "../../stores/ui-store";
@@ -8,6 +8,8 @@ import {
   ChromaKeyEngine,
   getTranscriptionService,
   initializeTranscriptionService,
+  LocalWhisperBackend,
+  RemoteWhisperBackend,
   type WhisperTranscriptionProgress,
   type CaptionAnimationStyle,
   CAPTION_ANIMATION_STYLES,
@@ -23,6 +25,7 @@ import {
   MaskSection,
   ColorGradingSection,
   AudioEffectsSection,
+  AudioRepairSection,
   TextSection,
   TextAnimationSection,
   ShapeSection,
@@ -64,6 +67,8 @@ import {
   SelectLabel,
 } from "@openreel/ui";
 
+const TRANSCRIPTION_ENDPOINT = "https://transcribe.openreel.video";
+
 // Initialize engines as singletons
 const chromaKeyEngine = new ChromaKeyEngine({ width: 1920, height: 1080 });
 
@@ -190,6 +195,13 @@ export const InspectorPanel: React.FC = () => {
   const [transcriptionProgress, setTranscriptionProgress] =
     useState<WhisperTranscriptionProgress | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  // "device" keeps audio on this machine; cloud sends it to the endpoint
+  const [captionEngine, setCaptionEngine] = useState<"cloud" | "device">(
+    "cloud",
+  );
+  const [whisperModelFile, setWhisperModelFile] = useState<File | null>(null);
+  const whisperModelInputRef = useRef<HTMLInputElement>(null);
+  const localBackendModelRef = useRef<File | null>(null);
   const [defaultAnimationStyle, setDefaultAnimationStyle] =
     useState<CaptionAnimationStyle>("word-highlight");
 
@@ -440,6 +452,10 @@ export const InspectorPanel: React.FC = () => {
       console.error("[Subtitles] No media item found for clip");
       return;
     }
+    if (captionEngine === "device" && !whisperModelFile) {
+      whisperModelInputRef.current?.click();
+      return;
+    }
 
     setIsTranscribing(true);
     setTranscriptionProgress({
@@ -452,10 +468,24 @@ export const InspectorPanel: React.FC = () => {
       let transcriptionService = getTranscriptionService();
       if (!transcriptionService) {
         transcriptionService = initializeTranscriptionService({
-          apiEndpoint: "https://transcribe.openreel.video",
+          apiEndpoint: TRANSCRIPTION_ENDPOINT,
         });
       }
 
+      if (captionEngine === "device" && whisperModelFile) {
+        if (localBackendModelRef.current !== whisperModelFile) {
+          transcriptionService.setBackend(
+            new LocalWhisperBackend({ model: whisperModelFile }),
+          );
+          localBackendModelRef.current = whisperModelFile;
+        }
+      } else if (transcriptionService.getBackend().isLocal) {
+        transcriptionService.setBackend(
+          new RemoteWhisperBackend(TRANSCRIPTION_ENDPOINT),
+        );
+        localBackendModelRef.current = null;
+      }
+
       const regularClip = getClip(selectedClip.id);
       if (!regularClip) {
         throw new Error("Could not find clip data");
@@ -500,6 +530,8 @@ export const InspectorPanel: React.FC = () => {
   }, [
     selectedClip,
     isTranscribing,
+    captionEngine,
+    whisperModelFile,
     getMediaItem,
     getClip,
     addSubtitle,
@@ -645,6 +677,56 @@ export const InspectorPanel: React.FC = () => {
                     </Select>
                   </div>
 
+                  <div>
+                    <label className="text-[10px] text-text-secondary block mb-1">
+                      Transcription
+                    </label>
+                    <Select
+                      value={captionEngine}
+                      onValueChange={(v) => setCaptionEngine(v as "cloud" | "device")}
+                      disabled={isTranscribing}
+                    >
+                      <SelectTrigger className="w-full bg-background-secondary border-border text-text-primary text-[11px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-background-secondary border-border">
+                        <SelectItem value="cloud">Cloud (OpenReel)</SelectItem>
+                        <SelectItem value="device">
+                          On this device (private)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {captionEngine === "device" && (
+                    <div className="space-y-1">
+                      <input
+                        ref={whisperModelInputRef}
+                        type="file"
+                        accept=".bin"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) setWhisperModelFile(file);
+                          e.target.value = "";
+                        }}
+                      />
+                      <button
+                        onClick={() => whisperModelInputRef.current?.click()}
+                        disabled={isTranscribing}
+                        className="w-full py-1.5 bg-background-tertiary hover:bg-background-secondary text-text-primary rounded-lg text-[10px] transition-all truncate px-2"
+                      >
+                        {whisperModelFile
+                          ? whisperModelFile.name
+                          : "Choose Whisper model (.bin)..."}
+                      </button>
+                      <p className="text-[9px] text-text-muted">
+                        A whisper.cpp f16 model such as ggml-base.en.bin. Audio
+                        never leaves this machine.
+                      </p>
+                    </div>
+                  )}
+
                   {transcriptionProgress ? (
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
@@ -1088,6 +1170,16 @@ export const InspectorPanel: React.FC = () => {
               </Section>
             )}
 
+            {clipType === "audio" && (
+              <Section
+                title="Audio Repair"
+                sectionId="audio-repair"
+                defaultOpen={false}
+              >
+                <AudioRepairSection clipId={clipId} />
+              </Section>
+            )}
+
             {showAudioEffects && (
               <Section
                 title="Audio Ducking"
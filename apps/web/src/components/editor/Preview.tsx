@@ -31,6 +31,7 @@ import {
   getSpeedEngine,
   getMasterClock,
   getRealtimeAudioGraph,
+  getAudioEngine,
   getParticleEngine,
   type Effect,
   type AudioClipSchedule,
@@ -40,6 +41,7 @@ import {
   type StickerClip,
   type Subtitle,
   type Track,
+  type AudioMix,
 } from "@openreel/core";
 import { useEngineStore } from "../../stores/engine-store";
 import {
@@ -59,6 +61,7 @@ import {
   getTransitionAtTime,
   renderTransitionFrame,
   getAnimatedTransform,
+  getStabilizedTransform,
   applyEmphasisAnimation,
   CropModeView,
   MotionPathOverlay,
@@ -696,6 +699,44 @@ export const Preview: React.FC = () => {
     }
   }, [isMuted]);
 
+  useEffect(() => {
+    audioGraphRef.current?.setAudioMix(project.timeline.audioMix);
+  }, [project.timeline.audioMix]);
+
+  // Sidechain ducking curves come from the same offline key render that
+  // export uses, so playback ducks exactly like the exported mix
+  const duckingGainsRef = useRef<{
+    tracks: Track[];
+    audioMix: AudioMix;
+    gains: Map<string, Float32Array>;
+  } | null>(null);
+
+  const getDuckingGains = useCallback(async (): Promise<Map<
+    string,
+    Float32Array
+  > | null> => {
+    const { project, getTimelineDuration } = useProjectStore.getState();
+    const { tracks, audioMix } = project.timeline;
+    if (!audioMix?.buses.some((b) => b.ducking?.enabled)) return null;
+
+    const cached = duckingGainsRef.current;
+    if (cached && cached.tracks === tracks && cached.audioMix === audioMix) {
+      return cached.gains;
+    }
+    try {
+      const gains = await getAudioEngine().renderDuckingGains(
+        project,
+        0,
+        getTimelineDuration(),
+      );
+      duckingGainsRef.current = { tracks, audioMix, gains };
+      return gains;
+    } catch (error) {
+      console.error("[Preview] Failed to render ducking:", error);
+      return null;
+    }
+  }, []);
+
   /**
    * Render overlay clips (text and shapes) respecting proper z-ordering with video/image tracks.
    * Track order determines layering: lower track index = rendered on top.
@@ -809,6 +850,7 @@ export const Preview: React.FC = () => {
       }
       const audioGraph = audioGraphRef.current;
       audioGraph.setMasterVolume(isMuted ? 0 : 1);
+      await audioGraph.loadEffects();
 
       const projectStore = useProjectStore.getState();
       const speedEngine = getSpeedEngine();
@@ -906,17 +948,21 @@ export const Preview: React.FC = () => {
               pan: 0,
               effects: enabledEffects,
               speed: audioClip.speed ?? 1,
+              automation: audioClip.automation?.volume,
             });
           }
         }
       }
+      audioGraph.setAudioMix(projectStore.project.timeline.audioMix);
+      const duckingGains = await getDuckingGains();
 
       if (scheduledClips.length > 0) {
         await audioGraph.resume();
         audioGraph.scheduleClips(scheduledClips);
+        if (duckingGains) audioGraph.setDuckingGains(duckingGains);
       }
     },
-    [getMediaItem, isMuted],
+    [getMediaItem, isMuted, getDuckingGains],
   );
 
   const preDecodeAllAudioBuffers = useCallback(async (): Promise<void> => {
@@ -992,6 +1038,7 @@ export const Preview: React.FC = () => {
             pan: 0,
             effects: audioEffects,
             speed: clip.speed ?? 1,
+            automation: clip.automation?.volume,
           });
         }
       }
@@ -1434,6 +1481,14 @@ export const Preview: React.FC = () => {
                     };
                   }
 
+                  animatedTransform = getStabilizedTransform(
+                    animatedTransform,
+                    clip,
+                    clipLocalTime,
+                    canvas.width,
+                    canvas.height,
+                  );
+
                   try {
                     const processedFrame = await applyEffectsToFrame(
                       clip.id,
@@ -1872,6 +1927,7 @@ export const Preview: React.FC = () => {
       }
       const audioGraph = audioGraphRef.current;
       audioGraph.setMasterVolume(isMuted ? 0 : 1);
+      await audioGraph.loadEffects();
 
       const tracksWithAudio = timelineTracks.filter(
         (t) => (t.type === "audio" || t.type === "video") && !t.hidden,
@@ -1886,6 +1942,10 @@ export const Preview: React.FC = () => {
           effects: [],
         });
       }
+      audioGraph.setAudioMix(
+        useProjectStore.getState().project.timeline.audioMix,
+      );
+      const duckingGains = await getDuckingGains();
 
       await audioGraph.resume();
       audioGraph.seekTo(startPosition);
@@ -1917,12 +1977,14 @@ export const Preview: React.FC = () => {
                 pan: 0,
                 effects: [],
                 speed: audioClip.speed ?? 1,
+                automation: audioClip.automation?.volume,
               });
             }
           }
         }
         return schedules;
       });
+      if (duckingGains) audioGraph.setDuckingGains(duckingGains);
 
       await masterClock.play();
 
@@ -2108,6 +2170,14 @@ export const Preview: React.FC = () => {
           };
         }
 
+        transform = getStabilizedTransform(
+          transform,
+          latestClip,
+          clipLocalTime,
+          canvas.width,
+          canvas.height,
+        );
+
         ctx.fillStyle = "#000000";
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
@@ -2229,6 +2299,7 @@ export const Preview: React.FC = () => {
       actualEndTime,
       allSubtitles,
       getMediaItem,
+      getDuckingGains,
       isMuted,
       preDecodeAllAudioBuffers,
       setPlayheadPosition,
@@ -2552,6 +2623,14 @@ export const Preview: React.FC = () => {
                 };
               }
 
+              transform = getStabilizedTransform(
+                transform,
+                clip,
+                clipLocalTime,
+                canvas.width,
+                canvas.height,
+              );
+
               let processedFrame:
                 | ImageBitmap
                 | HTMLCanvasElement
@@ -2805,6 +2884,7 @@ export const Preview: React.FC = () => {
       }
       const audioGraph = audioGraphRef.current;
       audioGraph.setMasterVolume(isMuted ? 0 : 1);
+      await audioGraph.loadEffects();
 
       const tracksWithAudio = timelineTracksRef.current.filter(
         (t) => (t.type === "audio" || t.type === "video") && !t.hidden,
@@ -2819,6 +2899,10 @@ export const Preview: React.FC = () => {
           effects: [],
         });
       }
+      audioGraph.setAudioMix(
+        useProjectStore.getState().project.timeline.audioMix,
+      );
+      const duckingGains = await getDuckingGains();
 
       await audioGraph.resume();
 
@@ -2856,6 +2940,7 @@ export const Preview: React.FC = () => {
 
       audioGraph.seekTo(playbackStartPosition);
       audioGraph.startScheduler(getAudioClipsForScheduler);
+      if (duckingGains) audioGraph.setDuckingGains(duckingGains);
 
       await masterClock.play();
 
@@ -3043,6 +3128,14 @@ export const Preview: React.FC = () => {
               };
             }
 
+            transform = getStabilizedTransform(
+              transform,
+              clip,
+              clipLocalTime,
+              canvas.width,
+              canvas.height,
+            );
+
             if (track.type === "image") {
               const cachedBitmap = imageBitmapCacheRef.current.get(clip.id);
               if (cachedBitmap) {
@@ -3554,6 +3647,7 @@ export const Preview: React.FC = () => {
     setupAudioFromAudioTrack,
     preDecodeAllAudioBuffers,
     getAudioClipsForScheduler,
+    getDuckingGains,
     isMuted,
     settings.width,
     settings.height,
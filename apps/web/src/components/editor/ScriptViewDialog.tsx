@@ -38,7 +38,7 @@ export const ScriptViewDialog: React.FC<ScriptViewDialogProps> = ({
   isOpen,
   onClose,
 }) => {
-  const { project } = useProjectStore();
+  const { project, getFullProject } = useProjectStore();
   const [importJson, setImportJson] = useState("");
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
@@ -50,10 +50,10 @@ export const ScriptViewDialog: React.FC<ScriptViewDialogProps> = ({
   const exportedJson = useMemo(() => {
     if (!project) return "";
     return serializer.exportToJsonWithMetadata(
-      project,
+      getFullProject(),
       `Exported from ${project.name}`,
     );
-  }, [project, serializer]);
+  }, [project, getFullProject, serializer]);
 
   const handleCopy = useCallback(async () => {
     try {
@@ -10,6 +10,7 @@ import {
   Redo2,
   Layers,
   Maximize2,
+  AudioLines,
   Film,
   Music,
   Image,
@@ -44,6 +45,7 @@ import {
   TrackHeader,
   TrackLane,
   BeatMarkerOverlay,
+  CollaboratorOverlay,
   MarkerIndicator,
   formatTimecode,
   getTrackInfo,
@@ -94,8 +96,14 @@ export const Timeline: React.FC = () => {
 
   const [showLayersPanel, setShowLayersPanel] = useState(false);
 
-  const { select, selectMultiple, clearSelection, getSelectedClipIds } =
-    useUIStore();
+  const {
+    select,
+    selectMultiple,
+    clearSelection,
+    getSelectedClipIds,
+    showSpectrograms,
+    setShowSpectrograms,
+  } = useUIStore();
   const selectedClipIds = getSelectedClipIds();
 
   const { getTitleEngine, getGraphicsEngine } = useEngineStore();
@@ -862,6 +870,12 @@ export const Timeline: React.FC = () => {
               <span className="text-base font-medium">+</span>
             </button>
           </div>
+          <IconButton
+            icon={AudioLines}
+            onClick={() => setShowSpectrograms(!showSpectrograms)}
+            title={showSpectrograms ? "Show waveforms" : "Show spectrograms"}
+            className={showSpectrograms ? "text-primary" : undefined}
+          />
           <IconButton icon={Maximize2} title="Maximize timeline" />
         </div>
       </div>
@@ -988,6 +1002,13 @@ export const Timeline: React.FC = () => {
                 totalHeight={totalTracksHeight}
               />
 
+              <CollaboratorOverlay
+                tracks={visualOrderTracks}
+                trackHeights={trackHeightsMap}
+                pixelsPerSecond={pixelsPerSecond}
+                totalHeight={totalTracksHeight}
+              />
+
               {project.timeline.markers.map((marker) => (
                 <MarkerIndicator
                   key={marker.id}
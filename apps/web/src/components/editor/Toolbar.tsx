@@ -21,6 +21,7 @@ import {
   Diamond,
   Sparkles,
   Play,
+  ImagePlay,
 } from "lucide-react";
 import { useProjectStore } from "../../stores/project-store";
 import { useUIStore } from "../../stores/ui-store";
@@ -32,6 +33,7 @@ import {
   estimateExportTime,
   type VideoExportSettings,
   type AudioExportSettings,
+  type AnimatedImageExportSettings,
   type ExportResult,
   type DeviceProfile,
   type TimeEstimate,
@@ -40,6 +42,7 @@ import { ExportDialog } from "./ExportDialog";
 import { ScreenRecorder } from "./ScreenRecorder";
 import { HistoryPanel } from "./inspector/HistoryPanel";
 import { ProjectSwitcher } from "./ProjectSwitcher";
+import { CollaborationMenu } from "./CollaborationMenu";
 import { toast } from "../../stores/notification-store";
 import { useAnalytics, AnalyticsEvents } from "../../hooks/useAnalytics";
 import { startTour, ONBOARDING_KEY, startMoGraphTour, MOGRAPH_TOUR_KEY } from "./tour";
@@ -58,6 +61,7 @@ type ExportType =
   | "mp4"
   | "prores"
   | "gif"
+  | "apng"
   | "wav"
   | "4k-master"
   | "4k-prores"
@@ -76,7 +80,7 @@ interface ExportState {
 }
 
 export const Toolbar: React.FC = () => {
-  const { project } = useProjectStore();
+  const { project, getFullProject } = useProjectStore();
   const { openModal, selectedItems, setExportState: setGlobalExportState, keyframeEditorOpen, toggleKeyframeEditor } =
     useUIStore();
   const { mode: themeMode, toggleTheme } = useThemeStore();
@@ -186,7 +190,7 @@ export const Toolbar: React.FC = () => {
             bitDepth: 24,
           };
 
-          const generator = engine.exportAudio(project, audioSettings);
+          const generator = engine.exportAudio(getFullProject(), audioSettings);
           let finalResult: ExportResult | undefined;
 
           while (true) {
@@ -217,6 +221,52 @@ export const Toolbar: React.FC = () => {
           } else {
             throw new Error(finalResult?.error?.message || "Export failed");
           }
+        } else if (type === "gif" || type === "apng") {
+          const animatedSettings: Partial<AnimatedImageExportSettings> = {
+            format: type,
+            frameRate: 15,
+            palette: "global",
+            dithering: "floyd-steinberg",
+            loopCount: 0,
+          };
+
+          const generator = engine.exportAnimatedImage(
+            getFullProject(),
+            animatedSettings,
+          );
+          let finalResult: ExportResult | undefined;
+
+          while (true) {
+            const { value, done } = await generator.next();
+            if (done) {
+              finalResult = value;
+              break;
+            }
+            setExportState((prev) => ({
+              ...prev,
+              progress: value.progress * 100,
+              phase:
+                value.phase === "complete" ? "Complete!" : `${value.phase}...`,
+            }));
+          }
+
+          if (finalResult?.success && finalResult.blob) {
+            downloadBlob(
+              finalResult.blob,
+              `${project.name || "export"}.${type === "gif" ? "gif" : "png"}`,
+            );
+            setExportState((prev) => ({
+              ...prev,
+              complete: true,
+              phase: "Downloaded!",
+            }));
+            track(AnalyticsEvents.PROJECT_EXPORTED, {
+              format: type,
+              duration: project.timeline?.duration ?? 0,
+            });
+          } else {
+            throw new Error(finalResult?.error?.message || "Export failed");
+          }
         } else {
           const getExportSettings = (): Partial<VideoExportSettings> => {
             const base = {
@@ -308,13 +358,6 @@ export const Toolbar: React.FC = () => {
                   bitrate: 220000,
                   quality: 100,
                 };
-              case "gif":
-                return {
-                  ...base,
-                  format: "webm",
-                  codec: "vp9",
-                  bitrate: 8000,
-                };
               case "mp4":
               default:
                 return {
@@ -337,8 +380,6 @@ export const Toolbar: React.FC = () => {
               case "prores":
               case "project":
                 return "mov";
-              case "gif":
-                return "webm";
               default:
                 return "mp4";
             }
@@ -349,8 +390,6 @@ export const Toolbar: React.FC = () => {
             switch (ext) {
               case "mov":
                 return "video/quicktime";
-              case "webm":
-                return "video/webm";
               default:
                 return "video/mp4";
             }
@@ -388,7 +427,7 @@ export const Toolbar: React.FC = () => {
             }
           }
 
-          const generator = engine.exportVideoWithFFmpeg(project, videoSettings, writableStream);
+          const generator = engine.exportVideoWithFFmpeg(getFullProject(), videoSettings, writableStream);
           let finalResult: ExportResult | undefined;
 
           while (true) {
@@ -456,7 +495,7 @@ export const Toolbar: React.FC = () => {
         }));
       }
     },
-    [project, track],
+    [project, getFullProject, track],
   );
 
   const handleCancelExport = useCallback(() => {
@@ -548,7 +587,7 @@ export const Toolbar: React.FC = () => {
           }
         }
 
-        const generator = engine.exportVideoWithFFmpeg(project, exportSettings, writableStream);
+        const generator = engine.exportVideoWithFFmpeg(getFullProject(), exportSettings, writableStream);
         let finalResult: ExportResult | undefined;
 
         while (true) {
@@ -613,7 +652,7 @@ export const Toolbar: React.FC = () => {
         }));
       }
     },
-    [project, track],
+    [project, getFullProject, track],
   );
 
 
@@ -741,6 +780,18 @@ export const Toolbar: React.FC = () => {
       desc: `${projectRes} - Web & social`,
       type: "mp4",
     },
+    {
+      label: "Animated GIF",
+      icon: ImagePlay,
+      desc: "480px 15fps loop - Reactions & previews",
+      type: "gif",
+    },
+    {
+      label: "Animated PNG",
+      icon: ImagePlay,
+      desc: "480px 15fps loop - Full colour",
+      type: "apng",
+    },
     {
       label: "Audio Only (WAV)",
       icon: Music,
@@ -951,6 +1002,8 @@ export const Toolbar: React.FC = () => {
           </TooltipContent>
         </Tooltip>
 
+        <CollaborationMenu />
+
         <Tooltip>
           <TooltipTrigger asChild>
             <button
@@ -7,10 +7,17 @@ import {
   type CompressorConfig,
   type ReverbConfig,
   type DelayConfig,
+  type VoiceEffectConfigs,
+  type VoiceEffectType,
   DEFAULT_EQ_BANDS,
+  DEFAULT_DE_ESSER,
+  DEFAULT_GATE,
+  DEFAULT_LIMITER,
+  DEFAULT_PITCH_SHIFT,
 } from "../../../bridges/audio-bridge-effects";
 import { useProjectStore } from "../../../stores/project-store";
 import { LabeledSlider as Slider } from "@openreel/ui";
+import { ParametricEQ } from "./ParametricEQ";
 
 const SubSection: React.FC<{
   title: string;
@@ -64,42 +71,74 @@ const SubSection: React.FC<{
   );
 };
 
-const EQBand: React.FC<{
-  frequency: string;
-  gain: number;
-  onChange: (gain: number) => void;
-}> = ({ frequency, gain, onChange }) => {
-  const percentage = ((gain + 12) / 24) * 100;
+/**
+ * State for a de-esser, gate, limiter or pitch shift on the clip, picked up
+ * from the clip's existing effect of that type
+ */
+function useVoiceEffect<T extends VoiceEffectType>(
+  clipId: string,
+  type: T,
+  defaults: VoiceEffectConfigs[T],
+) {
+  const toggleAudioEffect = useProjectStore((state) => state.toggleAudioEffect);
+  const getAudioEffects = useProjectStore((state) => state.getAudioEffects);
 
-  return (
-    <div className="flex flex-col items-center gap-1">
-      <div className="h-16 w-4 bg-background-tertiary rounded-full relative overflow-hidden">
-        <input
-          type="range"
-          min={-12}
-          max={12}
-          value={gain}
-          onChange={(e) => onChange(parseFloat(e.target.value))}
-          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-          style={{ writingMode: "vertical-lr", direction: "rtl" }}
-        />
-        <div
-          className="absolute bottom-0 left-0 right-0 bg-primary/50 rounded-full transition-all"
-          style={{ height: `${percentage}%` }}
-        />
-        <div
-          className="absolute left-1/2 -translate-x-1/2 w-3 h-3 bg-white rounded-full shadow-sm pointer-events-none transition-all"
-          style={{ bottom: `calc(${percentage}% - 6px)` }}
-        />
-      </div>
-      <span className="text-[8px] text-text-muted">{frequency}</span>
-      <span className="text-[8px] font-mono text-text-secondary">
-        {gain > 0 ? "+" : ""}
-        {gain}
-      </span>
-    </div>
+  const [enabled, setEnabled] = useState(false);
+  const [effectId, setEffectId] = useState<string | null>(null);
+  const [config, setConfig] = useState<VoiceEffectConfigs[T]>(defaults);
+
+  useEffect(() => {
+    const effect = getAudioEffects(clipId).find((e) => e.type === type);
+    setEnabled(effect?.enabled ?? false);
+    setEffectId(effect?.id ?? null);
+    setConfig({
+      ...defaults,
+      ...(effect?.params as Partial<VoiceEffectConfigs[T]> | undefined),
+    });
+  }, [clipId, type, defaults, getAudioEffects]);
+
+  const toggle = useCallback(
+    (value: boolean) => {
+      if (value && !effectId) {
+        const result = getAudioBridgeEffects().applyVoiceEffect(
+          clipId,
+          type,
+          config,
+        );
+        if (result.success && result.effectId) {
+          setEffectId(result.effectId);
+        }
+      } else if (effectId) {
+        toggleAudioEffect(clipId, effectId, value);
+      }
+
+      setEnabled(value);
+    },
+    [clipId, type, effectId, config, toggleAudioEffect],
   );
-};
+
+  const change = useCallback(
+    (key: keyof VoiceEffectConfigs[T], value: number) => {
+      setConfig((prev) => {
+        const next = { ...prev, [key]: value };
+
+        if (effectId && enabled) {
+          getAudioBridgeEffects().updateVoiceEffect(
+            clipId,
+            effectId,
+            type,
+            next,
+          );
+        }
+
+        return next;
+      });
+    },
+    [clipId, type, effectId, enabled],
+  );
+
+  return { enabled, config, toggle, change };
+}
 
 interface AudioEffectsSectionProps {
   clipId: string;
@@ -113,6 +152,8 @@ interface AudioEffectsSectionProps {
  * - 13.3: Apply compressor with threshold, ratio, attack, release
  * - 13.4: Apply reverb with room size, damping, wet/dry
  * - 13.5: Apply delay with time, feedback, wet level
+ * - Parametric EQ over a live spectrum, de-esser, noise gate, pitch shift
+ *   and true-peak limiter
  */
 export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
   clipId,
@@ -120,19 +161,17 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
   // Get store methods
   const toggleAudioEffect = useProjectStore((state) => state.toggleAudioEffect);
   const getAudioEffects = useProjectStore((state) => state.getAudioEffects);
+  const trackId = useProjectStore(
+    (state) =>
+      state.project.timeline.tracks.find((track) =>
+        track.clips.some((clip) => clip.id === clipId),
+      )?.id,
+  );
 
   // Local state for audio effects
   const [eqEnabled, setEqEnabled] = useState(false);
   const [eqEffectId, setEqEffectId] = useState<string | null>(null);
-  const [eqBands, setEqBands] = useState<
-    Array<{ frequency: string; gain: number }>
-  >([
-    { frequency: "60Hz", gain: 0 },
-    { frequency: "250Hz", gain: 0 },
-    { frequency: "1kHz", gain: 0 },
-    { frequency: "4kHz", gain: 0 },
-    { frequency: "16kHz", gain: 0 },
-  ]);
+  const [eqBands, setEqBands] = useState<EQBandConfig[]>(DEFAULT_EQ_BANDS);
 
   const [compressorEnabled, setCompressorEnabled] = useState(false);
   const [compressorEffectId, setCompressorEffectId] = useState<string | null>(
@@ -180,12 +219,7 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
         setEqEffectId(effect.id);
         const params = effect.params as { bands?: EQBandConfig[] };
         if (params.bands) {
-          setEqBands(
-            params.bands.map((b) => ({
-              frequency: formatFrequency(b.frequency),
-              gain: b.gain,
-            })),
-          );
+          setEqBands(params.bands);
         }
       } else if (effect.type === "compressor") {
         setCompressorEnabled(effect.enabled);
@@ -206,21 +240,10 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
     }
   }, [clipId, getAudioEffects]);
 
-  // Format frequency for display
-  const formatFrequency = (freq: number): string => {
-    if (freq >= 1000) {
-      return `${freq / 1000}kHz`;
-    }
-    return `${freq}Hz`;
-  };
-
-  // Parse frequency from display string
-  const parseFrequency = (freqStr: string): number => {
-    if (freqStr.includes("kHz")) {
-      return parseFloat(freqStr) * 1000;
-    }
-    return parseFloat(freqStr);
-  };
+  const deEsser = useVoiceEffect(clipId, "deEsser", DEFAULT_DE_ESSER);
+  const gate = useVoiceEffect(clipId, "gate", DEFAULT_GATE);
+  const limiter = useVoiceEffect(clipId, "limiter", DEFAULT_LIMITER);
+  const pitchShift = useVoiceEffect(clipId, "pitchShift", DEFAULT_PITCH_SHIFT);
 
   // Handle EQ toggle
   const handleEqToggle = useCallback(
@@ -229,14 +252,7 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
 
       if (enabled && !eqEffectId) {
         // Create new EQ effect
-        const bands: EQBandConfig[] = eqBands.map((b, i) => ({
-          type: DEFAULT_EQ_BANDS[i].type,
-          frequency: parseFrequency(b.frequency),
-          gain: b.gain,
-          q: DEFAULT_EQ_BANDS[i].q,
-        }));
-
-        const result = bridge.applyEQ(clipId, bands);
+        const result = bridge.applyEQ(clipId, eqBands);
 
         if (result.success && result.effectId) {
           setEqEffectId(result.effectId);
@@ -252,29 +268,15 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
     [clipId, eqEffectId, eqBands, toggleAudioEffect],
   );
 
-  // Handle EQ band change
-  const handleEqBandChange = useCallback(
-    (index: number, gain: number) => {
-      const bridge = getAudioBridgeEffects();
-
-      setEqBands((bands) => {
-        const newBands = bands.map((band, i) =>
-          i === index ? { ...band, gain } : band,
-        );
-
-        // Update effect if it exists
-        if (eqEffectId && eqEnabled) {
-          const eqBandConfigs: EQBandConfig[] = newBands.map((b, i) => ({
-            type: DEFAULT_EQ_BANDS[i].type,
-            frequency: parseFrequency(b.frequency),
-            gain: b.gain,
-            q: DEFAULT_EQ_BANDS[i].q,
-          }));
-          bridge.updateEQ(clipId, eqEffectId, eqBandConfigs);
-        }
+  // Handle EQ band changes
+  const handleEqBandsChange = useCallback(
+    (bands: EQBandConfig[]) => {
+      setEqBands(bands);
 
-        return newBands;
-      });
+      // Update effect if it exists
+      if (eqEffectId && eqEnabled) {
+        getAudioBridgeEffects().updateEQ(clipId, eqEffectId, bands);
+      }
     },
     [clipId, eqEffectId, eqEnabled],
   );
@@ -401,21 +403,109 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
         </span>
       </div>
 
+      <SubSection
+        title="Noise Gate"
+        enabled={gate.enabled}
+        onToggle={gate.toggle}
+      >
+        <div className="space-y-2">
+          <Slider
+            label="Threshold"
+            value={gate.config.threshold}
+            onChange={(v) => gate.change("threshold", v)}
+            min={-80}
+            max={0}
+            unit="dB"
+          />
+          <Slider
+            label="Ratio"
+            value={gate.config.ratio}
+            onChange={(v) => gate.change("ratio", v)}
+            min={1}
+            max={20}
+            step={0.5}
+            unit=":1"
+          />
+          <Slider
+            label="Range"
+            value={gate.config.range}
+            onChange={(v) => gate.change("range", v)}
+            min={0}
+            max={80}
+            unit="dB"
+          />
+          <Slider
+            label="Attack"
+            value={gate.config.attack * 1000}
+            onChange={(v) => gate.change("attack", v / 1000)}
+            min={0.1}
+            max={100}
+            step={0.1}
+            unit="ms"
+          />
+          <Slider
+            label="Hold"
+            value={gate.config.hold * 1000}
+            onChange={(v) => gate.change("hold", v / 1000)}
+            min={0}
+            max={1000}
+            unit="ms"
+          />
+          <Slider
+            label="Release"
+            value={gate.config.release * 1000}
+            onChange={(v) => gate.change("release", v / 1000)}
+            min={5}
+            max={2000}
+            unit="ms"
+          />
+        </div>
+      </SubSection>
+
       <SubSection
         title="Equalizer"
         enabled={eqEnabled}
         onToggle={handleEqToggle}
         defaultOpen
       >
-        <div className="flex justify-around py-2">
-          {eqBands.map((band, index) => (
-            <EQBand
-              key={band.frequency}
-              frequency={band.frequency}
-              gain={band.gain}
-              onChange={(gain) => handleEqBandChange(index, gain)}
-            />
-          ))}
+        <ParametricEQ
+          bands={eqBands}
+          onChange={handleEqBandsChange}
+          trackId={trackId}
+        />
+      </SubSection>
+
+      <SubSection
+        title="De-esser"
+        enabled={deEsser.enabled}
+        onToggle={deEsser.toggle}
+      >
+        <div className="space-y-2">
+          <Slider
+            label="Frequency"
+            value={deEsser.config.frequency}
+            onChange={(v) => deEsser.change("frequency", v)}
+            min={2000}
+            max={12000}
+            step={100}
+            unit="Hz"
+          />
+          <Slider
+            label="Threshold"
+            value={deEsser.config.threshold}
+            onChange={(v) => deEsser.change("threshold", v)}
+            min={-60}
+            max={0}
+            unit="dB"
+          />
+          <Slider
+            label="Range"
+            value={deEsser.config.range}
+            onChange={(v) => deEsser.change("range", v)}
+            min={0}
+            max={24}
+            unit="dB"
+          />
         </div>
       </SubSection>
 
@@ -527,6 +617,56 @@ export const AudioEffectsSection: React.FC<AudioEffectsSectionProps> = ({
           />
         </div>
       </SubSection>
+
+      <SubSection
+        title="Pitch Shift"
+        enabled={pitchShift.enabled}
+        onToggle={pitchShift.toggle}
+      >
+        <Slider
+          label="Semitones"
+          value={pitchShift.config.semitones}
+          onChange={(v) => pitchShift.change("semitones", v)}
+          min={-12}
+          max={12}
+          unit="st"
+        />
+      </SubSection>
+
+      <SubSection
+        title="Limiter"
+        enabled={limiter.enabled}
+        onToggle={limiter.toggle}
+      >
+        <div className="space-y-2">
+          <Slider
+            label="Ceiling"
+            value={limiter.config.ceiling}
+            onChange={(v) => limiter.change("ceiling", v)}
+            min={-12}
+            max={0}
+            step={0.1}
+            unit="dBTP"
+          />
+          <Slider
+            label="Release"
+            value={limiter.config.release * 1000}
+            onChange={(v) => limiter.change("release", v / 1000)}
+            min={10}
+            max={1000}
+            unit="ms"
+          />
+          <Slider
+            label="Lookahead"
+            value={limiter.config.lookahead * 1000}
+            onChange={(v) => limiter.change("lookahead", v / 1000)}
+            min={1}
+            max={20}
+            step={0.5}
+            unit="ms"
+          />
+        </div>
+      </SubSection>
     </div>
   );
 };
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Activity, AlertCircle, Check, Search, Wand2 } from "lucide-react";
+import {
+  DEFAULT_DECLICK,
+  DEFAULT_HUM_REMOVAL,
+  type AudioRepair,
+  type DeclickConfig,
+  type HumRemovalConfig,
+} from "@openreel/core";
+import { LabeledSlider as Slider } from "@openreel/ui";
+import { getAudioRepairBridge } from "../../../bridges/audio-repair-bridge";
+
+interface AudioRepairSectionProps {
+  clipId: string;
+}
+
+type Mains = "auto" | 50 | 60;
+
+type Status = { kind: "success" | "error"; message: string } | null;
+
+const MAINS_OPTIONS: { value: Mains; label: string }[] = [
+  { value: "auto", label: "Auto" },
+  { value: 50, label: "50 Hz" },
+  { value: 60, label: "60 Hz" },
+];
+
+const RepairButton: React.FC<{
+  label: string;
+  busy: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}> = ({ label, busy, disabled, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`w-full py-2 rounded-lg text-[10px] font-medium transition-colors flex items-center justify-center gap-2 ${
+      busy
+        ? "bg-primary/20 text-primary cursor-wait"
+        : "bg-primary/10 border border-primary/30 text-primary hover:bg-primary/20 disabled:opacity-50"
+    }`}
+  >
+    {busy ? (
+      <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+    ) : (
+      <Wand2 size={12} />
+    )}
+    {busy ? "Processing..." : label}
+  </button>
+);
+
+/**
+ * Hum removal, declicking and declipping for audio clips. Each repair
+ * renders a new copy of the clip's media, so it can be undone.
+ */
+export const AudioRepairSection: React.FC<AudioRepairSectionProps> = ({
+  clipId,
+}) => {
+  const [hum, setHum] = useState<HumRemovalConfig>(DEFAULT_HUM_REMOVAL);
+  const [mains, setMains] = useState<Mains>("auto");
+  const [detected, setDetected] = useState<number | null>(null);
+  const [declick, setDeclick] = useState<DeclickConfig>(DEFAULT_DECLICK);
+  const [busy, setBusy] = useState<AudioRepair["type"] | "detect" | null>(null);
+  const [status, setStatus] = useState<Status>(null);
+
+  useEffect(() => {
+    setDetected(null);
+    setStatus(null);
+  }, [clipId]);
+
+  const handleDetect = useCallback(async () => {
+    setBusy("detect");
+    setStatus(null);
+    try {
+      const frequency = await getAudioRepairBridge().detectHum(clipId);
+      setDetected(frequency);
+      if (frequency === null) {
+        setStatus({ kind: "error", message: "No mains hum found" });
+      }
+    } catch (error) {
+      setStatus({
+        kind: "error",
+        message: error instanceof Error ? error.message : "Detection failed",
+      });
+    } finally {
+      setBusy(null);
+    }
+  }, [clipId]);
+
+  const runRepair = useCallback(
+    async (repair: AudioRepair) => {
+      setBusy(repair.type);
+      setStatus(null);
+      const result = await getAudioRepairBridge().repairClip(clipId, repair);
+      setBusy(null);
+
+      if (!result.success) {
+        setStatus({
+          kind: "error",
+          message: result.error ?? "Repair failed",
+        });
+        return;
+      }
+      const repairs = result.repairs ?? 0;
+      const message =
+        repair.type === "hum"
+          ? `Removed ${result.humFrequency?.toFixed(2)} Hz hum`
+          : repair.type === "declick"
+            ? repairs
+              ? `Repaired ${repairs} click${repairs === 1 ? "" : "s"}`
+              : "No clicks found"
+            : repairs
+              ? `Rebuilt ${repairs} clipped peak${repairs === 1 ? "" : "s"}`
+              : "No clipping found";
+      setStatus({ kind: "success", message });
+    },
+    [clipId],
+  );
+
+  const handleRemoveHum = useCallback(() => {
+    runRepair({
+      type: "hum",
+      ...hum,
+      frequency: mains === "auto" ? (detected ?? undefined) : mains,
+    });
+  }, [runRepair, hum, mains, detected]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-[10px] font-medium text-text-secondary">
+          <Activity size={12} />
+          Hum Removal
+        </div>
+        <div className="flex items-center gap-1">
+          {MAINS_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setMains(option.value)}
+              className={`flex-1 py-1 rounded text-[9px] transition-colors ${
+                mains === option.value
+                  ? "bg-primary/20 text-primary border border-primary"
+                  : "bg-background-tertiary text-text-secondary border border-transparent hover:border-border"
+              }`}
+            >
+              {option.value === "auto" && detected !== null
+                ? `Auto (${detected.toFixed(2)} Hz)`
+                : option.label}
+            </button>
+          ))}
+          <button
+            onClick={handleDetect}
+            disabled={busy !== null}
+            title="Detect mains frequency"
+            className="p-1 rounded text-text-secondary bg-background-tertiary hover:text-primary disabled:opacity-50"
+          >
+            <Search size={12} />
+          </button>
+        </div>
+        <Slider
+          label="Harmonics"
+          value={hum.harmonics}
+          onChange={(harmonics) => setHum((prev) => ({ ...prev, harmonics }))}
+          min={1}
+          max={16}
+        />
+        <Slider
+          label="Notch Q"
+          value={hum.q}
+          onChange={(q) => setHum((prev) => ({ ...prev, q }))}
+          min={5}
+          max={100}
+        />
+        <RepairButton
+          label="Remove Hum"
+          busy={busy === "hum"}
+          disabled={busy !== null}
+          onClick={handleRemoveHum}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="text-[10px] font-medium text-text-secondary">
+          Declick
+        </div>
+        <Slider
+          label="Sensitivity"
+          value={declick.sensitivity * 100}
+          onChange={(v) =>
+            setDeclick((prev) => ({ ...prev, sensitivity: v / 100 }))
+          }
+          min={0}
+          max={100}
+          unit="%"
+        />
+        <Slider
+          label="Max Click Length"
+          value={declick.maxClickLength * 1000}
+          onChange={(v) =>
+            setDeclick((prev) => ({ ...prev, maxClickLength: v / 1000 }))
+          }
+          min={0.5}
+          max={5}
+          step={0.1}
+          unit="ms"
+        />
+        <RepairButton
+          label="Remove Clicks"
+          busy={busy === "declick"}
+          disabled={busy !== null}
+          onClick={() => runRepair({ type: "declick", ...declick })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="text-[10px] font-medium text-text-secondary">
+          Declip
+        </div>
+        <p className="text-[9px] text-text-muted">
+          Rebuilds flattened peaks from the waveform around them and lowers the
+          level so they fit.
+        </p>
+        <RepairButton
+          label="Rebuild Clipped Peaks"
+          busy={busy === "declip"}
+          disabled={busy !== null}
+          onClick={() => runRepair({ type: "declip" })}
+        />
+      </div>
+
+      {status && (
+        <div
+          className={`flex items-center justify-center gap-1 text-[9px] ${
+            status.kind === "error" ? "text-red-500" : "text-green-500"
+          }`}
+        >
+          {status.kind === "error" ? (
+            <AlertCircle size={10} />
+          ) : (
+            <Check size={10} />
+          )}
+          {status.message}
+        </div>
+      )}
+      <p className="text-[9px] text-text-muted text-center">
+        Select a region in the timeline spectrogram to attenuate it.
+      </p>
+    </div>
+  );
+};
+
+export default AudioRepairSection;
@@ -15,7 +15,9 @@ import {
 import { ColorWheelsControl } from "./ColorWheelsControl";
 import { CurvesEditor } from "./CurvesEditor";
 import { LUTLoader } from "./LUTLoader";
+import { LUTExporter } from "./LUTExporter";
 import { HSLControls } from "./HSLControls";
+import { ColorManagementControls } from "./ColorManagementControls";
 
 const SubSection: React.FC<{
   title: string;
@@ -56,6 +58,10 @@ export const ColorGradingSection: React.FC<ColorGradingSectionProps> = ({
     useProjectStore();
 
   const modifiedAt = useProjectStore((state) => state.project.modifiedAt);
+  const mediaName = useProjectStore((state) => {
+    const clip = state.getClip(clipId);
+    return clip ? state.getMediaItem(clip.mediaId)?.name : undefined;
+  });
 
   const colorGrading = useMemo(
     () => getColorGrading(clipId),
@@ -152,6 +158,10 @@ export const ColorGradingSection: React.FC<ColorGradingSectionProps> = ({
           lutData={colorGrading.lut as LUTData | null}
           onChange={handleLUTChange}
         />
+        <LUTExporter
+          settings={colorGrading}
+          title={mediaName?.replace(/\.[^.]+$/, "")}
+        />
       </SubSection>
 
       <SubSection title="HSL">
@@ -161,6 +171,10 @@ export const ColorGradingSection: React.FC<ColorGradingSectionProps> = ({
           onReset={handleHSLReset}
         />
       </SubSection>
+
+      <SubSection title="Color Management">
+        <ColorManagementControls clipId={clipId} />
+      </SubSection>
     </div>
   );
 };
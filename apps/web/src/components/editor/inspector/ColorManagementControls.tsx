@@ -0,0 +1,158 @@
+import React, { useCallback } from "react";
+import {
+  COLOR_SPACES,
+  DEFAULT_COLOR_MANAGEMENT,
+  INPUT_COLOR_SPACES,
+  OUTPUT_COLOR_SPACES,
+  WORKING_COLOR_SPACES,
+  type ColorManagementSettings,
+  type ColorSpaceId,
+  type InputColorSpace,
+} from "@openreel/core";
+import { useProjectStore } from "../../../stores/project-store";
+
+interface ColorManagementControlsProps {
+  clipId: string;
+}
+
+const Toggle: React.FC<{
+  label: string;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}> = ({ label, enabled, onChange }) => (
+  <div className="flex items-center justify-between">
+    <span className="text-[10px] text-text-secondary">{label}</span>
+    <button
+      onClick={() => onChange(!enabled)}
+      className={`w-8 h-4 rounded-full transition-colors ${
+        enabled ? "bg-primary" : "bg-background-tertiary border border-border"
+      }`}
+    >
+      <div
+        className={`w-3 h-3 rounded-full bg-white shadow-sm transition-transform ${
+          enabled ? "translate-x-4" : "translate-x-0.5"
+        }`}
+      />
+    </button>
+  </div>
+);
+
+const SpaceSelect: React.FC<{
+  label: string;
+  value: string;
+  options: readonly ColorSpaceId[];
+  emptyLabel?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}> = ({ label, value, options, emptyLabel, disabled, onChange }) => (
+  <div className="flex items-center justify-between gap-2">
+    <span className="text-[10px] text-text-secondary">{label}</span>
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 max-w-[60%] px-1 py-0.5 text-[10px] bg-background-secondary rounded border border-border focus:border-primary focus:outline-none disabled:opacity-50"
+    >
+      {emptyLabel && <option value="">{emptyLabel}</option>}
+      {options.map((id) => (
+        <option key={id} value={id}>
+          {COLOR_SPACES[id].name}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+/**
+ * Project color management and the input space of the selected clip's
+ * media. Grades are applied in the working space once this is enabled.
+ */
+export const ColorManagementControls: React.FC<
+  ColorManagementControlsProps
+> = ({ clipId }) => {
+  const settings = useProjectStore(
+    (state) =>
+      state.project.settings.colorManagement ?? DEFAULT_COLOR_MANAGEMENT,
+  );
+  const mediaItem = useProjectStore((state) => {
+    const clip = state.getClip(clipId);
+    return clip ? state.getMediaItem(clip.mediaId) : undefined;
+  });
+  const updateSettings = useProjectStore((state) => state.updateSettings);
+  const setMediaColorSpace = useProjectStore(
+    (state) => state.setMediaColorSpace,
+  );
+
+  const update = useCallback(
+    (changes: Partial<ColorManagementSettings>) => {
+      updateSettings({ colorManagement: { ...settings, ...changes } });
+    },
+    [settings, updateSettings],
+  );
+
+  const defaultInput =
+    mediaItem?.type === "image" ? "srgb" : settings.defaultInputSpace;
+
+  return (
+    <div className="space-y-2">
+      <Toggle
+        label="Enabled"
+        enabled={settings.enabled}
+        onChange={(enabled) => update({ enabled })}
+      />
+      {mediaItem && mediaItem.type !== "audio" && (
+        <SpaceSelect
+          label="Input"
+          value={mediaItem.colorSpace ?? ""}
+          options={INPUT_COLOR_SPACES}
+          emptyLabel={`Default (${COLOR_SPACES[defaultInput].name})`}
+          disabled={!settings.enabled}
+          onChange={(value) =>
+            setMediaColorSpace(
+              mediaItem.id,
+              (value || undefined) as InputColorSpace | undefined,
+            )
+          }
+        />
+      )}
+      <SpaceSelect
+        label="Default Input"
+        value={settings.defaultInputSpace}
+        options={INPUT_COLOR_SPACES}
+        disabled={!settings.enabled}
+        onChange={(value) =>
+          update({ defaultInputSpace: value as InputColorSpace })
+        }
+      />
+      <SpaceSelect
+        label="Working"
+        value={settings.workingSpace}
+        options={WORKING_COLOR_SPACES}
+        disabled={!settings.enabled}
+        onChange={(value) =>
+          update({
+            workingSpace: value as ColorManagementSettings["workingSpace"],
+          })
+        }
+      />
+      <SpaceSelect
+        label="Output"
+        value={settings.outputSpace}
+        options={OUTPUT_COLOR_SPACES}
+        disabled={!settings.enabled}
+        onChange={(value) =>
+          update({
+            outputSpace: value as ColorManagementSettings["outputSpace"],
+          })
+        }
+      />
+      <Toggle
+        label="Tone Map HDR to SDR"
+        enabled={settings.toneMapping}
+        onChange={(toneMapping) => update({ toneMapping })}
+      />
+    </div>
+  );
+};
+
+export default ColorManagementControls;
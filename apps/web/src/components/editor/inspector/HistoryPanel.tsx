@@ -12,6 +12,7 @@ import {
   Shapes,
   FileCode,
   Smile,
+  GitBranch,
 } from "lucide-react";
 import { Input, ScrollArea } from "@openreel/ui";
 import { useProjectStore } from "../../../stores/project-store";
@@ -25,10 +26,13 @@ interface DisplayEntry {
   isClipEntry: boolean;
   clipType?: "shape" | "text" | "svg" | "sticker";
   groupId?: string;
+  nodeId?: string;
+  depth: number;
+  isApplied: boolean;
 }
 
 export const HistoryPanel: React.FC = () => {
-  const { actionHistory, undo, redo, canUndo, canRedo, clipUndoStack, clipRedoStack } = useProjectStore();
+  const { actionHistory, undo, redo, canUndo, canRedo, jumpToHistory, clipUndoStack, clipRedoStack } = useProjectStore();
   const [combinedHistory, setCombinedHistory] = useState<DisplayEntry[]>([]);
   const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([]);
   const [showSnapshots, setShowSnapshots] = useState(false);
@@ -47,30 +51,44 @@ export const HistoryPanel: React.FC = () => {
 
   useEffect(() => {
     const updateHistory = () => {
-      const actionEntries = actionHistory.getDisplayHistory();
+      const treeItems = actionHistory.getDisplayTree();
       setSnapshots(actionHistory.getSnapshots());
 
-      const displayEntries: DisplayEntry[] = actionEntries.map((item, idx) => ({
-        id: `action-${item.entry.action.id}-${idx}`,
-        description: item.entry.description,
-        timestamp: item.entry.timestamp,
-        isCurrent: item.isCurrent,
-        isClipEntry: false,
-        groupId: item.entry.groupId,
+      const clipEntries: DisplayEntry[] = clipUndoStack.map((entry, idx) => ({
+        id: `clip-${entry.clipId}-${idx}`,
+        description: getClipDescription(entry.type),
+        timestamp: Date.now() - (clipUndoStack.length - idx) * 1000,
+        isCurrent: idx === clipUndoStack.length - 1 && clipRedoStack.length === 0,
+        isClipEntry: true,
+        clipType: entry.type,
+        depth: 0,
+        isApplied: true,
       }));
 
-      clipUndoStack.forEach((entry, idx) => {
+      // Keep the tree order of action entries (branches follow the entry they
+      // diverged from) and slot clip entries into the main line by time
+      const displayEntries: DisplayEntry[] = [];
+      treeItems.forEach((item) => {
+        const { entry } = item.node;
+        if (item.depth === 0) {
+          while (clipEntries.length > 0 && clipEntries[0].timestamp < entry.timestamp) {
+            displayEntries.push(clipEntries.shift()!);
+          }
+        }
         displayEntries.push({
-          id: `clip-${entry.clipId}-${idx}`,
-          description: getClipDescription(entry.type),
-          timestamp: Date.now() - (clipUndoStack.length - idx) * 1000,
-          isCurrent: idx === clipUndoStack.length - 1 && clipRedoStack.length === 0,
-          isClipEntry: true,
-          clipType: entry.type,
+          id: `action-${item.node.id}`,
+          description: entry.description,
+          timestamp: entry.timestamp,
+          isCurrent: item.isCurrent,
+          isClipEntry: false,
+          groupId: entry.groupId,
+          nodeId: item.node.id,
+          depth: item.depth,
+          isApplied: item.isApplied,
         });
       });
+      displayEntries.push(...clipEntries);
 
-      displayEntries.sort((a, b) => a.timestamp - b.timestamp);
       setCombinedHistory(displayEntries);
     };
 
@@ -91,6 +109,13 @@ export const HistoryPanel: React.FC = () => {
     }
   }, [redo, canRedo]);
 
+  const handleJump = useCallback(
+    async (nodeId: string | null) => {
+      await jumpToHistory(nodeId);
+    },
+    [jumpToHistory],
+  );
+
   const handleCreateSnapshot = useCallback(() => {
     if (newSnapshotName.trim()) {
       actionHistory.createSnapshot(newSnapshotName.trim());
@@ -180,7 +205,11 @@ export const HistoryPanel: React.FC = () => {
                 key={snapshot.id}
                 className="flex items-center justify-between p-2 rounded hover:bg-background-tertiary group"
               >
-                <div className="flex items-center gap-2">
+                <div
+                  className="flex items-center gap-2 cursor-pointer"
+                  onClick={() => handleJump(snapshot.nodeId)}
+                  title="Jump to snapshot"
+                >
                   <Bookmark size={10} className="text-yellow-500" />
                   <div>
                     <p className="text-xs text-text-primary">{snapshot.name}</p>
@@ -245,12 +274,19 @@ export const HistoryPanel: React.FC = () => {
               return (
                 <div
                   key={item.id}
+                  onClick={item.nodeId ? () => handleJump(item.nodeId ?? null) : undefined}
+                  style={{ paddingLeft: 8 + item.depth * 12 }}
                   className={`flex items-center gap-2 p-2 rounded transition-colors ${
+                    item.nodeId ? "cursor-pointer" : ""
+                  } ${item.isApplied ? "" : "opacity-50"} ${
                     item.isCurrent
                       ? "bg-primary/20 border border-primary/30"
                       : "hover:bg-background-tertiary"
                   }`}
                 >
+                  {item.depth > 0 && (
+                    <GitBranch size={10} className="text-text-muted shrink-0" />
+                  )}
                   {item.isClipEntry && ClipIcon ? (
                     <ClipIcon size={12} className={item.isCurrent ? "text-primary" : "text-text-muted"} />
                   ) : (
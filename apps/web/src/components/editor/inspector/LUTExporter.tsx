@@ -0,0 +1,108 @@
+import React, { useCallback, useState } from "react";
+import { Download } from "lucide-react";
+import {
+  ColorGradingEngine,
+  LUT_BAKE_SIZES,
+  LUT_FILE_FORMATS,
+  formatLUTFile,
+  type ColorGradingSettings,
+  type LUTBakeSize,
+  type LUTFileFormat,
+} from "@openreel/core";
+
+interface LUTExporterProps {
+  settings: ColorGradingSettings;
+  title?: string;
+}
+
+const FORMAT_LABELS: Record<LUTFileFormat, string> = {
+  cube: ".cube (Resolve / Adobe)",
+  "3dl": ".3dl (Autodesk)",
+  csp: ".csp (Cinespace)",
+};
+
+const OptionSelect = <T extends string | number>({
+  label,
+  value,
+  options,
+  format,
+  onChange,
+}: {
+  label: string;
+  value: T;
+  options: readonly T[];
+  format: (option: T) => string;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex items-center justify-between gap-2">
+    <span className="text-[10px] text-text-secondary">{label}</span>
+    <select
+      value={value}
+      onChange={(e) =>
+        onChange(options.find((option) => String(option) === e.target.value)!)
+      }
+      className="flex-1 min-w-0 max-w-[60%] px-1 py-0.5 text-[10px] bg-background-secondary rounded border border-border focus:border-primary focus:outline-none"
+    >
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {format(option)}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+/**
+ * Bakes the clip's whole grade (wheels, curves, LUT and HSL) into a 3D
+ * LUT file so the look can be applied in other projects and tools.
+ */
+export const LUTExporter: React.FC<LUTExporterProps> = ({
+  settings,
+  title = "Grade",
+}) => {
+  const [format, setFormat] = useState<LUTFileFormat>("cube");
+  const [size, setSize] = useState<LUTBakeSize>(33);
+
+  const handleExport = useCallback(() => {
+    const lut = new ColorGradingEngine().bakeLUT(settings, size, title);
+    const blob = new Blob([formatLUTFile(lut, format)], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${title}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [settings, size, title, format]);
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border">
+      <OptionSelect
+        label="Format"
+        value={format}
+        options={LUT_FILE_FORMATS}
+        format={(option) => FORMAT_LABELS[option]}
+        onChange={setFormat}
+      />
+      <OptionSelect
+        label="Size"
+        value={size}
+        options={LUT_BAKE_SIZES}
+        format={(option) => `${option}-point`}
+        onChange={setSize}
+      />
+      <button
+        onClick={handleExport}
+        className="w-full py-2 bg-background-tertiary border border-border rounded-lg text-[10px] text-text-secondary hover:text-text-primary hover:border-text-secondary transition-colors flex items-center justify-center gap-2"
+      >
+        <Download size={12} />
+        Export Grade as LUT
+      </button>
+    </div>
+  );
+};
+
+export default LUTExporter;
@@ -1,7 +1,12 @@
 import React, { useCallback, useRef, useState } from "react";
 import { Upload, X, AlertCircle } from "lucide-react";
 import { Slider } from "@openreel/ui";
-import type { LUTData } from "@openreel/core";
+import {
+  getLUTFileFormat,
+  parseLUTFile,
+  toLUTData,
+  type LUTData,
+} from "@openreel/core";
 
 interface LUTLoaderProps {
   lutData: LUTData | null;
@@ -34,136 +39,10 @@ const IntensitySlider: React.FC<{
   );
 };
 
-/**
- * Parse a .cube LUT file
- *
- * Parse 3D LUT data from .cube files
- */
-function parseCubeLUT(content: string): LUTData {
-  const lines = content.split("\n").map((line) => line.trim());
-  let size = 0;
-  const data: number[] = [];
-
-  for (const line of lines) {
-    // Skip comments and empty lines
-    if (line.startsWith("#") || line === "") continue;
-
-    // Parse LUT size
-    if (line.startsWith("LUT_3D_SIZE")) {
-      const parts = line.split(/\s+/);
-      size = parseInt(parts[1], 10);
-      if (isNaN(size) || size < 2 || size > 256) {
-        throw new Error(`Invalid LUT size: ${parts[1]}`);
-      }
-      continue;
-    }
-
-    // Skip other metadata
-    if (line.startsWith("TITLE") || line.startsWith("DOMAIN_")) continue;
-
-    // Parse RGB values
-    const values = line.split(/\s+/).map(parseFloat);
-    if (values.length === 3 && values.every((v) => !isNaN(v))) {
-      // Convert from 0-1 to 0-255
-      data.push(
-        Math.round(Math.max(0, Math.min(1, values[0])) * 255),
-        Math.round(Math.max(0, Math.min(1, values[1])) * 255),
-        Math.round(Math.max(0, Math.min(1, values[2])) * 255),
-      );
-    }
-  }
-
-  if (size === 0) {
-    throw new Error("LUT size not specified in file");
-  }
-
-  const expectedLength = size * size * size * 3;
-  if (data.length !== expectedLength) {
-    throw new Error(
-      `Invalid LUT data: expected ${expectedLength} values, got ${data.length}`,
-    );
-  }
-
-  return {
-    data: new Uint8Array(data),
-    size,
-    intensity: 1,
-  };
-}
-
-/**
- * Parse a .3dl LUT file
- *
- * Parse 3D LUT data from .3dl files
- */
-function parse3dlLUT(content: string): LUTData {
-  const lines = content.split("\n").map((line) => line.trim());
-  const data: number[] = [];
-  let size = 0;
-
-  // First line should contain the mesh size
-  for (const line of lines) {
-    if (line === "" || line.startsWith("#")) continue;
-
-    // Try to parse as mesh definition (first non-comment line)
-    if (size === 0) {
-      const meshValues = line.split(/\s+/).map(parseFloat);
-      if (meshValues.length >= 1 && !isNaN(meshValues[0])) {
-        // 3dl files typically have mesh points, calculate size
-        // Common sizes: 17, 33, 65
-        size = Math.round(Math.cbrt(meshValues.length / 3)) || 17;
-        if (meshValues.length === 3) {
-          // This is actually a data line, not mesh definition
-          size = 17; // Default size
-          data.push(
-            Math.round((meshValues[0] / 4095) * 255),
-            Math.round((meshValues[1] / 4095) * 255),
-            Math.round((meshValues[2] / 4095) * 255),
-          );
-        }
-        continue;
-      }
-    }
-
-    // Parse RGB values (3dl uses 0-4095 range typically)
-    const values = line.split(/\s+/).map(parseFloat);
-    if (values.length === 3 && values.every((v) => !isNaN(v))) {
-      // Detect range and normalize to 0-255
-      const maxVal = Math.max(...values);
-      const scale = maxVal > 255 ? 4095 : maxVal > 1 ? 255 : 1;
-      data.push(
-        Math.round((values[0] / scale) * 255),
-        Math.round((values[1] / scale) * 255),
-        Math.round((values[2] / scale) * 255),
-      );
-    }
-  }
-
-  // Determine size from data length
-  if (size === 0 || size * size * size * 3 !== data.length) {
-    const calculatedSize = Math.round(Math.cbrt(data.length / 3));
-    if (calculatedSize * calculatedSize * calculatedSize * 3 === data.length) {
-      size = calculatedSize;
-    } else {
-      throw new Error("Could not determine LUT size from data");
-    }
-  }
-
-  if (data.length === 0) {
-    throw new Error("No valid LUT data found in file");
-  }
-
-  return {
-    data: new Uint8Array(data),
-    size,
-    intensity: 1,
-  };
-}
-
 /**
  * LUTLoader Component
  *
- * - 6.1: Open file picker for .cube or .3dl LUT files
+ * - 6.1: Open file picker for .cube, .3dl or .csp LUT files
  * - 6.2: Parse 3D LUT data and apply to clip
  * - 6.3: Adjust LUT intensity with slider (0-100%)
  * - 6.4: Display error message for invalid files
@@ -181,7 +60,7 @@ export const LUTLoader: React.FC<LUTLoaderProps> = ({
   /**
    * Handle file selection
    *
-   * Open file picker for .cube or .3dl files
+   * Open file picker for .cube, .3dl or .csp files
    */
   const handleFileSelect = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -193,22 +72,15 @@ export const LUTLoader: React.FC<LUTLoaderProps> = ({
 
       try {
         const content = await file.text();
-        const extension = file.name.toLowerCase().split(".").pop();
-
-        let parsedLUT: LUTData;
-
-        if (extension === "cube") {
-          parsedLUT = parseCubeLUT(content);
-        } else if (extension === "3dl") {
-          parsedLUT = parse3dlLUT(content);
-        } else {
+        const format = getLUTFileFormat(file.name);
+        if (!format) {
           throw new Error(
-            "Unsupported file format. Please use .cube or .3dl files.",
+            "Unsupported file format. Please use .cube, .3dl or .csp files.",
           );
         }
 
         setFileName(file.name);
-        onChange(parsedLUT);
+        onChange(toLUTData(parseLUTFile(content, format)));
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : "Failed to parse LUT file";
@@ -264,7 +136,7 @@ export const LUTLoader: React.FC<LUTLoaderProps> = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".cube,.3dl"
+        accept=".cube,.3dl,.csp"
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -284,7 +156,7 @@ export const LUTLoader: React.FC<LUTLoaderProps> = ({
           ) : (
             <>
               <Upload size={12} />
-              Load LUT (.cube, .3dl)
+              Load LUT (.cube, .3dl, .csp)
             </>
           )}
         </button>
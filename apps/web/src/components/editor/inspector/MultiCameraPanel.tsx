@@ -8,23 +8,52 @@ import {
   ChevronRight,
   Check,
   Link,
+  Mic,
+  Wand2,
+  Radio,
+  Loader2,
 } from "lucide-react";
 import { useProjectStore } from "../../../stores/project-store";
 import { useEngineStore } from "../../../stores/engine-store";
+import { useTimelineStore } from "../../../stores/timeline-store";
+import { toast } from "../../../stores/notification-store";
+import { getMultiCamBridge } from "../../../bridges/multicam-bridge";
 import type { MultiCamGroup, CameraAngle } from "@openreel/core";
 
 interface MultiCameraPanelProps {
   onClose?: () => void;
 }
 
+interface AudioTrackOption {
+  id: string;
+  name: string;
+}
+
 const AngleCard: React.FC<{
   angle: CameraAngle;
+  index: number;
   isActive: boolean;
+  isWide: boolean;
+  audioTracks: AudioTrackOption[];
   onSelect: () => void;
   onRename: (name: string) => void;
   onRemove: () => void;
   onOffsetChange: (offset: number) => void;
-}> = ({ angle, isActive, onSelect, onRename, onRemove, onOffsetChange }) => {
+  onMicChange: (trackId: string | null) => void;
+  onWideToggle: () => void;
+}> = ({
+  angle,
+  index,
+  isActive,
+  isWide,
+  audioTracks,
+  onSelect,
+  onRename,
+  onRemove,
+  onOffsetChange,
+  onMicChange,
+  onWideToggle,
+}) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(angle.name);
 
@@ -44,9 +73,12 @@ const AngleCard: React.FC<{
     >
       <div className="flex items-center gap-2">
         <div
-          className="w-3 h-3 rounded-full"
+          className="w-3 h-3 rounded-full flex items-center justify-center text-[7px] text-white"
           style={{ backgroundColor: angle.color }}
-        />
+          title={`Press ${index + 1} to switch here while live switching`}
+        >
+          {index < 9 ? index + 1 : ""}
+        </div>
         {isEditing ? (
           <input
             type="text"
@@ -92,6 +124,36 @@ const AngleCard: React.FC<{
         />
         <span className="text-[8px] text-text-muted">sec</span>
       </div>
+      <div className="mt-1 flex items-center gap-1">
+        <Mic size={8} className="text-text-muted" />
+        <select
+          value={angle.micTrackId ?? ""}
+          onChange={(e) => onMicChange(e.target.value || null)}
+          onClick={(e) => e.stopPropagation()}
+          className="flex-1 min-w-0 px-1 py-0.5 text-[8px] bg-background-secondary rounded border border-border focus:border-primary focus:outline-none"
+        >
+          <option value="">No mic</option>
+          {audioTracks.map((track) => (
+            <option key={track.id} value={track.id}>
+              {track.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onWideToggle();
+          }}
+          title="Show this angle when several people talk"
+          className={`px-1 py-0.5 text-[8px] rounded transition-colors ${
+            isWide
+              ? "bg-primary text-white"
+              : "bg-background-secondary text-text-muted hover:text-text-primary"
+          }`}
+        >
+          Wide
+        </button>
+      </div>
     </div>
   );
 };
@@ -99,22 +161,36 @@ const AngleCard: React.FC<{
 const GroupSection: React.FC<{
   group: MultiCamGroup;
   isExpanded: boolean;
+  audioTracks: AudioTrackOption[];
+  isAutoSwitching: boolean;
+  isLive: boolean;
   onToggle: () => void;
   onSelectAngle: (angleId: string) => void;
   onRemoveAngle: (angleId: string) => void;
   onRenameAngle: (angleId: string, name: string) => void;
   onOffsetChange: (angleId: string, offset: number) => void;
+  onMicChange: (angleId: string, trackId: string | null) => void;
+  onWideToggle: (angleId: string) => void;
   onSync: () => void;
+  onAutoSwitch: () => void;
+  onLiveToggle: () => void;
   onDelete: () => void;
 }> = ({
   group,
   isExpanded,
+  audioTracks,
+  isAutoSwitching,
+  isLive,
   onToggle,
   onSelectAngle,
   onRemoveAngle,
   onRenameAngle,
   onOffsetChange,
+  onMicChange,
+  onWideToggle,
   onSync,
+  onAutoSwitch,
+  onLiveToggle,
   onDelete,
 }) => (
   <div className="border border-border rounded-lg overflow-hidden">
@@ -138,18 +214,50 @@ const GroupSection: React.FC<{
     {isExpanded && (
       <div className="p-2 space-y-2">
         <div className="grid grid-cols-2 gap-2">
-          {group.angles.map((angle) => (
+          {group.angles.map((angle, index) => (
             <AngleCard
               key={angle.id}
               angle={angle}
+              index={index}
               isActive={angle.id === group.activeAngleId}
+              isWide={angle.id === group.wideAngleId}
+              audioTracks={audioTracks}
               onSelect={() => onSelectAngle(angle.id)}
               onRename={(name) => onRenameAngle(angle.id, name)}
               onRemove={() => onRemoveAngle(angle.id)}
               onOffsetChange={(offset) => onOffsetChange(angle.id, offset)}
+              onMicChange={(trackId) => onMicChange(angle.id, trackId)}
+              onWideToggle={() => onWideToggle(angle.id)}
             />
           ))}
         </div>
+        <div className="flex gap-1">
+          <button
+            onClick={onAutoSwitch}
+            disabled={isAutoSwitching}
+            title="Cut to whoever is speaking on their assigned mic"
+            className="flex-1 flex items-center justify-center gap-1 py-1.5 text-[9px] text-text-secondary hover:text-text-primary bg-background-tertiary rounded transition-colors disabled:opacity-50"
+          >
+            {isAutoSwitching ? (
+              <Loader2 size={10} className="animate-spin" />
+            ) : (
+              <Wand2 size={10} />
+            )}
+            Auto Switch
+          </button>
+          <button
+            onClick={onLiveToggle}
+            title="Press number keys during playback to cut between angles"
+            className={`flex-1 flex items-center justify-center gap-1 py-1.5 text-[9px] rounded transition-colors ${
+              isLive
+                ? "bg-red-500/20 text-red-400"
+                : "bg-background-tertiary text-text-secondary hover:text-text-primary"
+            }`}
+          >
+            <Radio size={10} />
+            {isLive ? "Live: press 1-9" : "Live Switch"}
+          </button>
+        </div>
         <div className="flex gap-1 pt-2 border-t border-border">
           <button
             onClick={onSync}
@@ -178,6 +286,10 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
   const [selectedClips, setSelectedClips] = useState<string[]>([]);
   const [multiCamEngine, setMultiCamEngine] =
     useState<import("@openreel/core").MultiCamEngine | null>(null);
+  const [autoSwitchingGroupId, setAutoSwitchingGroupId] = useState<
+    string | null
+  >(null);
+  const [liveGroupId, setLiveGroupId] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -213,6 +325,70 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
     return clips;
   }, [project]);
 
+  const audioTracks = useMemo(
+    () =>
+      project.timeline.tracks
+        .filter((track) => track.type === "audio")
+        .map((track) => ({
+          id: track.id,
+          name: track.name || `Track ${track.id.slice(-4)}`,
+        })),
+    [project],
+  );
+
+  useEffect(() => {
+    if (!multiCamEngine || !liveGroupId) return;
+    const group = multiCamEngine.getGroup(liveGroupId);
+    if (!group) return;
+
+    const startTime = getMultiCamBridge().getGroupStartTime(group);
+    const groupTime = () =>
+      useTimelineStore.getState().playheadPosition - startTime;
+    const touchProject = () =>
+      useProjectStore.setState((state) => ({
+        project: { ...state.project, modifiedAt: Date.now() },
+      }));
+    const followPlayback = (playing: boolean) => {
+      const live = multiCamEngine.isLiveSwitching(group.id);
+      if (playing && !live) {
+        multiCamEngine.startLiveSwitching(group.id, groupTime());
+      } else if (!playing && live) {
+        multiCamEngine.stopLiveSwitching(group.id, groupTime());
+        touchProject();
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        !/^[1-9]$/.test(e.key)
+      ) {
+        return;
+      }
+      const angle = group.angles[Number(e.key) - 1];
+      if (!angle || !multiCamEngine.isLiveSwitching(group.id)) return;
+      e.preventDefault();
+      multiCamEngine.liveSwitch(group.id, angle.id, groupTime());
+      touchProject();
+    };
+
+    followPlayback(useTimelineStore.getState().playbackState === "playing");
+    const unsubscribe = useTimelineStore.subscribe(
+      (state) => state.playbackState,
+      (playbackState) => followPlayback(playbackState === "playing"),
+    );
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("keydown", handleKeyDown);
+      followPlayback(false);
+    };
+  }, [multiCamEngine, liveGroupId]);
+
   const toggleGroup = (groupId: string) => {
     setExpandedGroups((prev) => {
       const next = new Set(prev);
@@ -285,6 +461,45 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
     [multiCamEngine],
   );
 
+  const handleMicChange = useCallback(
+    (groupId: string, angleId: string, trackId: string | null) => {
+      if (!multiCamEngine) return;
+      multiCamEngine.setAngleMicrophone(groupId, angleId, trackId);
+      useProjectStore.setState((state) => ({
+        project: { ...state.project, modifiedAt: Date.now() },
+      }));
+    },
+    [multiCamEngine],
+  );
+
+  const handleWideToggle = useCallback(
+    (groupId: string, angleId: string) => {
+      if (!multiCamEngine) return;
+      const isWide = multiCamEngine.getGroup(groupId)?.wideAngleId === angleId;
+      multiCamEngine.setWideAngle(groupId, isWide ? null : angleId);
+      useProjectStore.setState((state) => ({
+        project: { ...state.project, modifiedAt: Date.now() },
+      }));
+    },
+    [multiCamEngine],
+  );
+
+  const handleAutoSwitch = useCallback(async (groupId: string) => {
+    setAutoSwitchingGroupId(groupId);
+    try {
+      const switches = await getMultiCamBridge().autoSwitch(groupId);
+      toast.success("Auto Switch Complete", `Created ${switches.length} cuts`);
+    } catch (error) {
+      console.error("Multicam auto switch failed:", error);
+      toast.error(
+        "Auto Switch Failed",
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    } finally {
+      setAutoSwitchingGroupId(null);
+    }
+  }, []);
+
   const handleSyncAudio = useCallback(
     async (_groupId: string) => {
       if (!multiCamEngine) return;
@@ -296,6 +511,7 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
     (groupId: string) => {
       if (!multiCamEngine) return;
       multiCamEngine.deleteGroup(groupId);
+      setLiveGroupId((current) => (current === groupId ? null : current));
       setExpandedGroups((prev) => {
         const next = new Set(prev);
         next.delete(groupId);
@@ -340,6 +556,9 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
               key={group.id}
               group={group}
               isExpanded={expandedGroups.has(group.id)}
+              audioTracks={audioTracks}
+              isAutoSwitching={autoSwitchingGroupId === group.id}
+              isLive={liveGroupId === group.id}
               onToggle={() => toggleGroup(group.id)}
               onSelectAngle={(angleId) => handleSelectAngle(group.id, angleId)}
               onRemoveAngle={(angleId) => handleRemoveAngle(group.id, angleId)}
@@ -349,7 +568,17 @@ export const MultiCameraPanel: React.FC<MultiCameraPanelProps> = () => {
               onOffsetChange={(angleId, offset) =>
                 handleOffsetChange(group.id, angleId, offset)
               }
+              onMicChange={(angleId, trackId) =>
+                handleMicChange(group.id, angleId, trackId)
+              }
+              onWideToggle={(angleId) => handleWideToggle(group.id, angleId)}
               onSync={() => handleSyncAudio(group.id)}
+              onAutoSwitch={() => handleAutoSwitch(group.id)}
+              onLiveToggle={() =>
+                setLiveGroupId((current) =>
+                  current === group.id ? null : group.id,
+                )
+              }
               onDelete={() => handleDeleteGroup(group.id)}
             />
           ))}
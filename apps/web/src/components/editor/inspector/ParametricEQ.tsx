@@ -0,0 +1,409 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Plus, X } from "lucide-react";
+import {
+  getEQResponse,
+  getRealtimeAudioGraph,
+  logFrequencies,
+  SpectrumAnalyzer,
+} from "@openreel/core";
+import {
+  validateEQBand,
+  type EQBandConfig,
+} from "../../../bridges/audio-bridge-effects";
+import { LabeledSlider as Slider } from "@openreel/ui";
+
+const WIDTH = 256;
+const HEIGHT = 128;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+/** dB shown above and below the 0 dB line */
+const GAIN_RANGE = 18;
+/** Spectrum level drawn at the bottom edge */
+const SPECTRUM_FLOOR = -90;
+const SAMPLE_RATE = 48000;
+const MAX_BANDS = 8;
+
+const BAND_TYPES: Array<{ type: EQBandConfig["type"]; label: string }> = [
+  { type: "peaking", label: "Bell" },
+  { type: "lowshelf", label: "Low Shelf" },
+  { type: "highshelf", label: "High Shelf" },
+  { type: "lowpass", label: "Low Cut" },
+  { type: "highpass", label: "High Cut" },
+  { type: "notch", label: "Notch" },
+];
+
+const BAND_COLORS = [
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#a855f7",
+  "#ec4899",
+  "#ef4444",
+];
+
+const FREQUENCY_GRID = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GAIN_GRID = [-12, -6, 0, 6, 12];
+
+const frequencyToX = (frequency: number) =>
+  (Math.log(frequency / MIN_FREQUENCY) /
+    Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) *
+  WIDTH;
+
+const xToFrequency = (x: number) =>
+  MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, x / WIDTH);
+
+const gainToY = (gain: number) =>
+  HEIGHT / 2 - (gain / GAIN_RANGE) * (HEIGHT / 2);
+
+const yToGain = (y: number) => ((HEIGHT / 2 - y) / (HEIGHT / 2)) * GAIN_RANGE;
+
+/** Cuts and notches have no gain, so their handles sit on the 0 dB line */
+const hasGain = (type: EQBandConfig["type"]) =>
+  type === "peaking" || type === "lowshelf" || type === "highshelf";
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000
+    ? `${(frequency / 1000).toFixed(frequency >= 10000 ? 0 : 1)}k`
+    : `${Math.round(frequency)}`;
+
+interface ParametricEQProps {
+  bands: EQBandConfig[];
+  onChange: (bands: EQBandConfig[]) => void;
+  /** Track whose output is drawn behind the curve */
+  trackId?: string;
+}
+
+/**
+ * ParametricEQ Component
+ *
+ * EQ curve over a live spectrum of the clip's track. Drag a band's handle
+ * to move its frequency and gain, scroll over it to change its Q.
+ */
+export const ParametricEQ: React.FC<ParametricEQProps> = ({
+  bands,
+  onChange,
+  trackId,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const selected = bands[Math.min(selectedIndex, bands.length - 1)];
+
+  const frequencies = useMemo(() => logFrequencies(WIDTH + 1), []);
+
+  const curvePath = useMemo(() => {
+    const response = getEQResponse(bands, SAMPLE_RATE, frequencies);
+    return Array.from(response, (db, x) => {
+      const y = gainToY(
+        Math.max(-GAIN_RANGE - 2, Math.min(GAIN_RANGE + 2, db)),
+      );
+      return `${x === 0 ? "M" : "L"}${x},${y.toFixed(1)}`;
+    }).join(" ");
+  }, [bands, frequencies]);
+
+  const updateBand = useCallback(
+    (index: number, updates: Partial<EQBandConfig>) => {
+      onChange(
+        bands.map((band, i) =>
+          i === index ? validateEQBand({ ...band, ...updates }) : band,
+        ),
+      );
+    },
+    [bands, onChange],
+  );
+
+  const handleAddBand = useCallback(() => {
+    if (bands.length >= MAX_BANDS) return;
+    onChange([...bands, { type: "peaking", frequency: 1000, gain: 0, q: 1.4 }]);
+    setSelectedIndex(bands.length);
+  }, [bands, onChange]);
+
+  const handleRemoveBand = useCallback(
+    (index: number) => {
+      onChange(bands.filter((_, i) => i !== index));
+      setSelectedIndex((current) =>
+        Math.max(0, Math.min(current, bands.length - 2)),
+      );
+    },
+    [bands, onChange],
+  );
+
+  // Live spectrum of the track, after its effects
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!trackId || !canvas || !context) return;
+
+    const analyser = getRealtimeAudioGraph().getAnalyser(trackId);
+    const spectrumAnalyzer = new SpectrumAnalyzer(analyser.fftSize);
+    const binFrequencies = spectrumAnalyzer.getFrequencies(
+      analyser.context.sampleRate,
+    );
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const spectrum = spectrumAnalyzer.analyze(samples, 0.8);
+
+      context.clearRect(0, 0, WIDTH, HEIGHT);
+      context.beginPath();
+      context.moveTo(0, HEIGHT);
+      for (let i = 1; i < spectrum.length; i++) {
+        if (binFrequencies[i] < MIN_FREQUENCY) continue;
+        if (binFrequencies[i] > MAX_FREQUENCY) break;
+        const level = Math.max(0, 1 - spectrum[i] / SPECTRUM_FLOOR);
+        context.lineTo(
+          frequencyToX(binFrequencies[i]),
+          HEIGHT - Math.min(1, level) * HEIGHT,
+        );
+      }
+      context.lineTo(WIDTH, HEIGHT);
+      context.closePath();
+      context.fillStyle = "rgba(148, 163, 184, 0.25)";
+      context.fill();
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [trackId]);
+
+  // Handle dragging a band handle
+  useEffect(() => {
+    if (dragIndex === null) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const svg = svgRef.current;
+      if (!svg) return;
+      const rect = svg.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+      const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+      const band = bands[dragIndex];
+      updateBand(dragIndex, {
+        frequency: Math.round(xToFrequency(Math.max(0, Math.min(WIDTH, x)))),
+        gain: hasGain(band.type)
+          ? Math.round(yToGain(Math.max(0, Math.min(HEIGHT, y))) * 10) / 10
+          : band.gain,
+      });
+    };
+
+    const handleMouseUp = () => setDragIndex(null);
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragIndex, bands, updateBand]);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-lg overflow-hidden border border-border bg-background-tertiary">
+        <canvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          className="absolute inset-0 w-full h-full"
+        />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="relative w-full h-auto block select-none"
+        >
+          {FREQUENCY_GRID.map((frequency) => (
+            <line
+              key={frequency}
+              x1={frequencyToX(frequency)}
+              y1={0}
+              x2={frequencyToX(frequency)}
+              y2={HEIGHT}
+              stroke="currentColor"
+              className="text-border"
+              strokeWidth={0.5}
+            />
+          ))}
+          {GAIN_GRID.map((gain) => (
+            <line
+              key={gain}
+              x1={0}
+              y1={gainToY(gain)}
+              x2={WIDTH}
+              y2={gainToY(gain)}
+              stroke="currentColor"
+              className="text-border"
+              strokeWidth={gain === 0 ? 1 : 0.5}
+            />
+          ))}
+          {FREQUENCY_GRID.map((frequency) => (
+            <text
+              key={frequency}
+              x={frequencyToX(frequency) + 2}
+              y={HEIGHT - 3}
+              fontSize={7}
+              fill="currentColor"
+              className="text-text-muted"
+            >
+              {formatFrequency(frequency)}
+            </text>
+          ))}
+
+          <path
+            d={curvePath}
+            fill="none"
+            stroke="currentColor"
+            className="text-primary"
+            strokeWidth={1.5}
+          />
+
+          {bands.map((band, index) => (
+            <circle
+              key={index}
+              cx={frequencyToX(band.frequency)}
+              cy={gainToY(hasGain(band.type) ? band.gain : 0)}
+              r={index === selectedIndex ? 5 : 4}
+              fill={BAND_COLORS[index % BAND_COLORS.length]}
+              stroke="white"
+              strokeWidth={index === selectedIndex ? 1.5 : 0.5}
+              className="cursor-move"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                setSelectedIndex(index);
+                setDragIndex(index);
+              }}
+              onWheel={(e) =>
+                updateBand(index, {
+                  q: band.q * (e.deltaY < 0 ? 1.1 : 1 / 1.1),
+                })
+              }
+            />
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex items-center gap-1 flex-wrap">
+        {bands.map((band, index) => (
+          <button
+            key={index}
+            onClick={() => setSelectedIndex(index)}
+            className={`px-1.5 py-0.5 rounded text-[9px] font-mono border transition-colors ${
+              index === selectedIndex
+                ? "border-primary text-text-primary"
+                : "border-border text-text-muted hover:text-text-secondary"
+            }`}
+          >
+            <span style={{ color: BAND_COLORS[index % BAND_COLORS.length] }}>
+              ●
+            </span>{" "}
+            {formatFrequency(band.frequency)}
+          </button>
+        ))}
+        <button
+          onClick={handleAddBand}
+          disabled={bands.length >= MAX_BANDS}
+          className="p-1 rounded border border-border text-text-muted hover:text-text-primary disabled:opacity-40"
+          title="Add band"
+        >
+          <Plus size={10} />
+        </button>
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={selected.type}
+              onChange={(e) =>
+                updateBand(selectedIndex, {
+                  type: e.target.value as EQBandConfig["type"],
+                })
+              }
+              className="flex-1 bg-background-tertiary border border-border rounded px-2 py-1 text-[10px] text-text-primary"
+            >
+              {BAND_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleRemoveBand(selectedIndex)}
+              className="p-1 rounded text-text-muted hover:text-red-400"
+              title="Remove band"
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-text-secondary">Frequency</span>
+              <span className="text-[10px] font-mono text-text-primary bg-background-tertiary px-1.5 py-0.5 rounded border border-border">
+                {formatFrequency(selected.frequency)}Hz
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={WIDTH}
+              step={0.5}
+              value={frequencyToX(selected.frequency)}
+              onChange={(e) =>
+                updateBand(selectedIndex, {
+                  frequency: Math.round(
+                    xToFrequency(parseFloat(e.target.value)),
+                  ),
+                })
+              }
+              className="w-full h-1.5 accent-primary"
+            />
+          </div>
+          {hasGain(selected.type) && (
+            <Slider
+              label="Gain"
+              value={selected.gain}
+              onChange={(v) => updateBand(selectedIndex, { gain: v })}
+              min={-GAIN_RANGE}
+              max={GAIN_RANGE}
+              step={0.5}
+              unit="dB"
+            />
+          )}
+          {selected.type !== "lowshelf" && selected.type !== "highshelf" && (
+            <Slider
+              label={
+                selected.type === "lowpass" || selected.type === "highpass"
+                  ? "Resonance"
+                  : "Q"
+              }
+              value={selected.q}
+              onChange={(v) => updateBand(selectedIndex, { q: v })}
+              min={0.1}
+              max={18}
+              step={0.1}
+              unit={
+                selected.type === "lowpass" || selected.type === "highpass"
+                  ? "dB"
+                  : ""
+              }
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParametricEQ;
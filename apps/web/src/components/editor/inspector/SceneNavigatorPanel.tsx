@@ -7,6 +7,7 @@ import {
   Plus,
   Layers,
 } from "lucide-react";
+import { getTimelineSceneCuts } from "@openreel/core";
 import { useProjectStore } from "../../../stores/project-store";
 import { getPlaybackBridge } from "../../../bridges/playback-bridge";
 
@@ -18,6 +19,11 @@ interface Scene {
   color: string;
 }
 
+const HARD_CUT_COLOR = "#f59e0b";
+const SOFT_CUT_COLOR = "#a855f7";
+/** Detected cuts this close to a marker are taken to be the same boundary. */
+const MARKER_CUT_TOLERANCE = 0.1;
+
 interface SceneNavigatorPanelProps {
   variant?: "horizontal" | "vertical" | "compact";
 }
@@ -27,12 +33,36 @@ export const SceneNavigatorPanel: React.FC<SceneNavigatorPanelProps> = ({
 }) => {
   const { project, addMarker } = useProjectStore();
   const markers = project.timeline.markers;
+  const tracks = project.timeline.tracks;
+  const mediaItems = project.mediaLibrary.items;
   const duration = project.timeline.duration;
 
   const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
 
   const scenes: Scene[] = useMemo(() => {
-    if (markers.length === 0) {
+    // Markers set by hand come first; detected shot changes fill the rest
+    const boundaries: Omit<Scene, "endTime">[] = markers.map((marker) => ({
+      id: marker.id,
+      label: marker.label,
+      startTime: marker.time,
+      color: marker.color,
+    }));
+    const cuts = getTimelineSceneCuts({ tracks }, mediaItems).filter(
+      (cut) =>
+        !markers.some(
+          (marker) => Math.abs(marker.time - cut.time) < MARKER_CUT_TOLERANCE,
+        ),
+    );
+    cuts.forEach((cut, index) => {
+      boundaries.push({
+        id: `${cut.clipId}-cut-${index}`,
+        label: `Shot ${index + 2}`,
+        startTime: cut.time,
+        color: cut.cutType === "soft" ? SOFT_CUT_COLOR : HARD_CUT_COLOR,
+      });
+    });
+
+    if (boundaries.length === 0) {
       return [
         {
           id: "default",
@@ -44,34 +74,24 @@ export const SceneNavigatorPanel: React.FC<SceneNavigatorPanelProps> = ({
       ];
     }
 
-    const sortedMarkers = [...markers].sort((a, b) => a.time - b.time);
-    const sceneList: Scene[] = [];
-
-    sortedMarkers.forEach((marker, index) => {
-      const nextMarker = sortedMarkers[index + 1];
-      const endTime = nextMarker ? nextMarker.time : duration;
-
-      sceneList.push({
-        id: marker.id,
-        label: marker.label,
-        startTime: marker.time,
-        endTime,
-        color: marker.color,
-      });
-    });
+    const sorted = boundaries.sort((a, b) => a.startTime - b.startTime);
+    const sceneList: Scene[] = sorted.map((boundary, index) => ({
+      ...boundary,
+      endTime: sorted[index + 1]?.startTime ?? duration,
+    }));
 
-    if (sortedMarkers[0]?.time > 0) {
+    if (sorted[0].startTime > 0) {
       sceneList.unshift({
         id: "intro",
-        label: "Intro",
+        label: cuts.length > 0 ? "Shot 1" : "Intro",
         startTime: 0,
-        endTime: sortedMarkers[0].time,
+        endTime: sorted[0].startTime,
         color: "#6366f1",
       });
     }
 
     return sceneList;
-  }, [markers, duration]);
+  }, [markers, tracks, mediaItems, duration]);
 
   const currentScene = scenes[currentSceneIndex] || scenes[0];
 
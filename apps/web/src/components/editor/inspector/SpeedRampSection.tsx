@@ -21,10 +21,20 @@ import { useTimelineStore } from "../../../stores/timeline-store";
 import {
   getSpeedEngine,
   type SpeedKeyframe,
+  type FrameInterpolationMode,
   SPEED_MIN,
   SPEED_MAX,
 } from "@openreel/core";
 
+const FRAME_INTERPOLATION_OPTIONS: {
+  mode: FrameInterpolationMode;
+  name: string;
+}[] = [
+  { mode: "none", name: "Repeat" },
+  { mode: "blend", name: "Blend" },
+  { mode: "optical-flow", name: "Optical Flow" },
+];
+
 interface ClipLike {
   id: string;
   startTime: number;
@@ -260,6 +270,7 @@ export const SpeedRampSection: React.FC<SpeedRampSectionProps> = ({ clip }) => {
   const keyframes = speedData?.keyframes ?? [];
   const freezeFrames = speedData?.freezeFrames ?? [];
   const pitchCorrection = speedData?.pitchCorrection ?? true;
+  const frameInterpolation = speedData?.frameInterpolation ?? "none";
 
   const handleSpeedChange = useCallback(
     (speed: number) => {
@@ -285,6 +296,16 @@ export const SpeedRampSection: React.FC<SpeedRampSectionProps> = ({ clip }) => {
     }));
   }, [clip.id, pitchCorrection, speedEngine]);
 
+  const handleFrameInterpolationChange = useCallback(
+    (mode: FrameInterpolationMode) => {
+      speedEngine.setFrameInterpolation(clip.id, mode);
+      useProjectStore.setState((state) => ({
+        project: { ...state.project, modifiedAt: Date.now() },
+      }));
+    },
+    [clip.id, speedEngine],
+  );
+
   const handleAddKeyframe = useCallback(
     (time: number, speed: number) => {
       speedEngine.addSpeedKeyframe(clip.id, time, speed, "ease-in-out");
@@ -419,6 +440,25 @@ export const SpeedRampSection: React.FC<SpeedRampSectionProps> = ({ clip }) => {
         </button>
       </div>
 
+      <div className="space-y-1">
+        <span className="text-[10px] text-text-secondary">Slow Motion Frames</span>
+        <div className="grid grid-cols-3 gap-1">
+          {FRAME_INTERPOLATION_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => handleFrameInterpolationChange(option.mode)}
+              className={`py-1.5 px-2 text-[9px] rounded-lg border transition-colors ${
+                frameInterpolation === option.mode
+                  ? "bg-primary/20 border-primary text-primary"
+                  : "bg-background-tertiary border-border text-text-secondary hover:border-primary/50"
+              }`}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <button
         onClick={() => setShowCurve(!showCurve)}
         className="w-full flex items-center gap-2 py-2 text-[10px] text-text-secondary hover:text-text-primary transition-colors"
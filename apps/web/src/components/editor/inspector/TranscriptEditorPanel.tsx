@@ -0,0 +1,327 @@
+import React, { useState, useCallback, useMemo, useEffect } from "react";
+import { Trash2, Eraser, AlertCircle, Loader2 } from "lucide-react";
+import {
+  buildTranscript,
+  detectFillerWords,
+  getLinkedTrackIds,
+  type ActionResult,
+  type FillerKind,
+  type Project,
+  type TranscriptWord,
+} from "@openreel/core";
+import { useProjectStore } from "../../../stores/project-store";
+import { useTimelineStore } from "../../../stores/timeline-store";
+import { useUIStore } from "../../../stores/ui-store";
+
+const DRAG_TYPE = "application/x-openreel-words";
+
+/**
+ * The clip the transcript most likely came from: the selected video or
+ * audio clip, else the one under the first word, video tracks first.
+ */
+function findSourceClipId(
+  project: Project,
+  selectedClipIds: readonly string[],
+  words: readonly TranscriptWord[],
+): string | null {
+  const tracks = project.timeline.tracks.filter(
+    (track) => track.type === "video" || track.type === "audio",
+  );
+  const clips = tracks.flatMap((track) => track.clips);
+  const selected = clips.find((clip) => selectedClipIds.includes(clip.id));
+  if (selected) return selected.id;
+  if (words.length === 0) return null;
+
+  const time = words[0].startTime;
+  const ordered = [
+    ...tracks.filter((track) => track.type === "video"),
+    ...tracks.filter((track) => track.type === "audio"),
+  ];
+  for (const track of ordered) {
+    const clip = track.clips.find(
+      (c) => c.startTime <= time && c.startTime + c.duration > time,
+    );
+    if (clip) return clip.id;
+  }
+  return null;
+}
+
+export const TranscriptEditorPanel: React.FC = () => {
+  const project = useProjectStore((state) => state.project);
+  const subtitles = project.timeline.subtitles;
+  const deleteTranscriptWords = useProjectStore(
+    (state) => state.deleteTranscriptWords,
+  );
+  const moveTranscriptWords = useProjectStore(
+    (state) => state.moveTranscriptWords,
+  );
+  const seekTo = useTimelineStore((state) => state.seekTo);
+  const selectedItems = useUIStore((state) => state.selectedItems);
+
+  const [selected, setSelected] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [chosenTrackIds, setChosenTrackIds] = useState<string[] | null>(null);
+
+  const words = useMemo(() => buildTranscript(subtitles), [subtitles]);
+  const sourceClipId = useMemo(
+    () =>
+      findSourceClipId(
+        project,
+        selectedItems
+          .filter((item) => item.type === "clip")
+          .map((item) => item.id),
+        words,
+      ),
+    [project, selectedItems, words],
+  );
+  const cuttableTracks = useMemo(
+    () =>
+      project.timeline.tracks.filter(
+        (track) =>
+          !track.locked && (track.type === "video" || track.type === "audio"),
+      ),
+    [project],
+  );
+  const trackIds = useMemo(
+    () =>
+      chosenTrackIds ??
+      (sourceClipId ? getLinkedTrackIds(project, sourceClipId) : []),
+    [chosenTrackIds, sourceClipId, project],
+  );
+
+  // Follow the linked tracks again once the source clip changes
+  useEffect(() => {
+    setChosenTrackIds(null);
+  }, [sourceClipId]);
+
+  const toggleTrack = useCallback(
+    (trackId: string) => {
+      setChosenTrackIds(
+        trackIds.includes(trackId)
+          ? trackIds.filter((id) => id !== trackId)
+          : [...trackIds, trackId],
+      );
+    },
+    [trackIds],
+  );
+  const canEdit = trackIds.length > 0 && !isEditing;
+  const fillers = useMemo(() => {
+    const kinds = new Map<string, FillerKind>();
+    for (const match of detectFillerWords(words)) {
+      kinds.set(match.wordId, match.kind);
+    }
+    return kinds;
+  }, [words]);
+
+  // Word ids change whenever their subtitle is edited
+  useEffect(() => {
+    setSelected([]);
+    setAnchorId(null);
+  }, [words]);
+
+  const runEdit = useCallback(
+    async (edit: () => Promise<ActionResult>) => {
+      setIsEditing(true);
+      setError(null);
+      try {
+        const result = await edit();
+        if (!result.success) {
+          setError(result.error?.message ?? "Edit failed");
+        }
+      } finally {
+        setIsEditing(false);
+      }
+    },
+    [],
+  );
+
+  const handleWordClick = useCallback(
+    (event: React.MouseEvent, wordId: string, startTime: number) => {
+      if (event.shiftKey && anchorId) {
+        const from = words.findIndex((w) => w.id === anchorId);
+        const to = words.findIndex((w) => w.id === wordId);
+        const [start, end] = from < to ? [from, to] : [to, from];
+        setSelected(words.slice(start, end + 1).map((w) => w.id));
+        return;
+      }
+      setSelected([wordId]);
+      setAnchorId(wordId);
+      seekTo(startTime);
+    },
+    [anchorId, words, seekTo],
+  );
+
+  const handleDeleteSelected = useCallback(() => {
+    if (selected.length === 0 || !canEdit) return;
+    runEdit(() => deleteTranscriptWords(selected, trackIds));
+  }, [selected, canEdit, runEdit, deleteTranscriptWords, trackIds]);
+
+  const handleRemoveFillers = useCallback(() => {
+    if (fillers.size === 0 || !canEdit) return;
+    runEdit(() => deleteTranscriptWords([...fillers.keys()], trackIds));
+  }, [fillers, canEdit, runEdit, deleteTranscriptWords, trackIds]);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.key === "Delete" || event.key === "Backspace") {
+        event.preventDefault();
+        handleDeleteSelected();
+      }
+    },
+    [handleDeleteSelected],
+  );
+
+  const handleDragStart = useCallback(
+    (event: React.DragEvent, wordId: string) => {
+      const dragged = selected.includes(wordId) ? selected : [wordId];
+      event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(dragged));
+      event.dataTransfer.effectAllowed = "move";
+    },
+    [selected],
+  );
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent, beforeWordId: string | null) => {
+      event.preventDefault();
+      setDropTargetId(null);
+      const data = event.dataTransfer.getData(DRAG_TYPE);
+      if (!data || !canEdit) return;
+      const wordIds = JSON.parse(data) as string[];
+      runEdit(() => moveTranscriptWords(wordIds, beforeWordId, trackIds));
+    },
+    [canEdit, runEdit, moveTranscriptWords, trackIds],
+  );
+
+  if (words.length === 0) {
+    return (
+      <div className="p-4 text-center space-y-2">
+        <p className="text-[11px] text-text-secondary">No transcript yet</p>
+        <p className="text-[10px] text-text-muted">
+          Text-based editing works on subtitles with word timings. Transcribe
+          a clip first, then edit the video by editing its words here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={handleDeleteSelected}
+          disabled={selected.length === 0 || !canEdit}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-background-tertiary hover:bg-background-elevated disabled:opacity-50 text-text-primary rounded-lg text-[10px] transition-colors"
+        >
+          <Trash2 size={12} />
+          Delete {selected.length > 1 ? `${selected.length} words` : "word"}
+        </button>
+        <button
+          onClick={handleRemoveFillers}
+          disabled={fillers.size === 0 || !canEdit}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-amber-500/15 hover:bg-amber-500/25 disabled:opacity-50 text-amber-300 rounded-lg text-[10px] transition-colors"
+        >
+          <Eraser size={12} />
+          Remove {fillers.size} filler{fillers.size !== 1 ? "s" : ""}
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] text-text-secondary">Cut tracks</div>
+        <div className="flex flex-wrap gap-1">
+          {cuttableTracks.map((track) => (
+            <button
+              key={track.id}
+              onClick={() => toggleTrack(track.id)}
+              className={`px-2 py-0.5 rounded text-[9px] transition-colors ${
+                trackIds.includes(track.id)
+                  ? "bg-primary/20 text-primary border border-primary"
+                  : "bg-background-tertiary text-text-secondary border border-transparent hover:border-border"
+              }`}
+            >
+              {track.name}
+            </button>
+          ))}
+        </div>
+        {trackIds.length === 0 && (
+          <p className="text-[9px] text-text-muted">
+            Select the transcribed clip or pick the tracks to cut.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-500/10 border border-red-500/30 rounded-lg">
+          <AlertCircle size={14} className="text-red-400" />
+          <span className="text-[10px] text-red-400">{error}</span>
+        </div>
+      )}
+
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="relative p-3 bg-background-secondary rounded-lg text-[12px] leading-7 text-text-primary outline-none focus:ring-1 focus:ring-primary/40"
+      >
+        {isEditing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background-secondary/70 rounded-lg">
+            <Loader2 size={16} className="animate-spin text-primary" />
+          </div>
+        )}
+        {words.map((word) => {
+          const filler = fillers.get(word.id);
+          const isSelected = selected.includes(word.id);
+          return (
+            <span
+              key={word.id}
+              draggable
+              onClick={(e) => handleWordClick(e, word.id, word.startTime)}
+              onDragStart={(e) => handleDragStart(e, word.id)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(word.id);
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={(e) => handleDrop(e, word.id)}
+              title={
+                filler === "filler"
+                  ? "Filler word"
+                  : filler === "repeat"
+                    ? "Repeated word"
+                    : `${word.startTime.toFixed(2)}s`
+              }
+              className={`inline-block px-0.5 mr-0.5 rounded cursor-pointer select-none ${
+                isSelected
+                  ? "bg-primary/30"
+                  : filler
+                    ? "bg-amber-500/20 text-amber-200 line-through decoration-amber-400/60"
+                    : "hover:bg-background-tertiary"
+              } ${dropTargetId === word.id ? "border-l-2 border-primary" : ""}`}
+            >
+              {word.text}
+            </span>
+          );
+        })}
+        <span
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropTargetId("end");
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, null)}
+          className={`inline-block w-6 h-4 align-middle ${
+            dropTargetId === "end" ? "border-l-2 border-primary" : ""
+          }`}
+        />
+      </div>
+
+      <p className="text-[9px] text-text-muted text-center">
+        Click a word to jump to it, shift-click to select a passage. Delete
+        cuts it from the tracks above; drag words to reorder.
+      </p>
+    </div>
+  );
+};
+
+export default TranscriptEditorPanel;
@@ -32,6 +32,7 @@ export { FilterPresetsPanel } from "./FilterPresetsPanel";
 export { TextSection } from "./TextSection";
 export { TextAnimationSection } from "./TextAnimationSection";
 export { AutoCaptionPanel } from "./AutoCaptionPanel";
+export { TranscriptEditorPanel } from "./TranscriptEditorPanel";
 export { AudioTextSyncPanel } from "./AudioTextSyncPanel";
 
 // Graphics & Shapes
@@ -43,6 +44,8 @@ export { StickerPickerPanel } from "./StickerPickerPanel";
 
 // Audio
 export { AudioEffectsSection } from "./AudioEffectsSection";
+export { AudioRepairSection } from "./AudioRepairSection";
+export { ParametricEQ } from "./ParametricEQ";
 export { AudioDuckingSection } from "./AudioDuckingSection";
 export { AutoCutSilenceSection } from "./AutoCutSilenceSection";
 export { MusicLibraryPanel } from "./MusicLibraryPanel";
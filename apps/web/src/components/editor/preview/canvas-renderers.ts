@@ -11,12 +11,21 @@ import {
   AnimationEngine,
   type Keyframe,
   type EmphasisAnimation,
+  applyStabilization,
+  getMotionTrackingEngine,
+  getSpeedEngine,
+  getStabilizationAtTime,
+  COLOR_SPACES,
+  createColorPipeline,
+  getMediaColorSpace,
+  type ColorPipeline,
 } from "@openreel/core";
 import * as THREE from "three";
 
 type GraphicClipUnion = ShapeClip | SVGClip | StickerClip;
 import { getEffectsBridge } from "../../../bridges/effects-bridge";
 import { getTransitionBridge } from "../../../bridges/transition-bridge";
+import { useProjectStore } from "../../../stores/project-store";
 import type { ClipTransform } from "./types";
 import { DEFAULT_TRANSFORM } from "./types";
 import { ThreeJSLayerRenderer } from "./threejs-layer-renderer";
@@ -537,6 +546,38 @@ export const getAnimatedTransform = (
   return result;
 };
 
+/**
+ * Adds a video clip's stabilization correction, when it has been analyzed,
+ * to its animated transform. Frames are drawn fitted to the canvas, so the
+ * correction is sized against that fit, matching the export renderer.
+ */
+export const getStabilizedTransform = (
+  transform: ClipTransform,
+  clip: { id: string },
+  clipLocalTime: number,
+  canvasWidth: number,
+  canvasHeight: number,
+): ClipTransform => {
+  const stabilization = getMotionTrackingEngine().getStabilization(clip.id);
+  if (!stabilization) return transform;
+
+  const sourceTime = getSpeedEngine().getSourceTimeAtPlaybackTime(
+    clip.id,
+    clipLocalTime,
+  );
+  const correction = getStabilizationAtTime(stabilization, sourceTime);
+  if (!correction) return transform;
+
+  const frameAspect = stabilization.frameWidth / stabilization.frameHeight;
+  const fitsWidth = frameAspect > canvasWidth / canvasHeight;
+  return applyStabilization(
+    transform,
+    correction,
+    fitsWidth ? canvasWidth : canvasHeight * frameAspect,
+    fitsWidth ? canvasWidth / frameAspect : canvasHeight,
+  );
+};
+
 const fontLoadingPromises = new Map<string, Promise<void>>();
 
 const ensureFontLoaded = async (
@@ -1804,6 +1845,28 @@ export const drawFrameWithTransform = (
   ctx.restore();
 };
 
+/**
+ * Color management transforms for a clip in the viewer. The canvas shows
+ * SDR, so HDR outputs are previewed tone mapped to Rec.709.
+ */
+const getPreviewColorPipeline = (clipId: string): ColorPipeline | undefined => {
+  const { project, getClip, getMediaItem } = useProjectStore.getState();
+  const colorManagement = project.settings.colorManagement;
+  if (!colorManagement?.enabled) return undefined;
+  const clip = getClip(clipId);
+  const mediaItem = clip && getMediaItem(clip.mediaId);
+  if (!mediaItem) return undefined;
+  const inputSpace = getMediaColorSpace(mediaItem, colorManagement);
+  if (COLOR_SPACES[colorManagement.outputSpace].highDynamicRange) {
+    return createColorPipeline(
+      inputSpace,
+      { ...colorManagement, toneMapping: true },
+      "rec709",
+    );
+  }
+  return createColorPipeline(inputSpace, colorManagement);
+};
+
 export const applyEffectsToFrame = async (
   clipId: string,
   frame: ImageBitmap,
@@ -1860,11 +1923,13 @@ export const applyEffectsToFrame = async (
       } catch {}
     }
 
-    if (Object.keys(colorGrading).length > 0) {
+    const colorPipeline = getPreviewColorPipeline(clipId);
+    if (colorPipeline || Object.keys(colorGrading).length > 0) {
       try {
         const colorGradingResult = await effectsBridge.processColorGrading(
           clipId,
           processedFrame,
+          colorPipeline,
         );
         if (
           colorGradingResult.image &&
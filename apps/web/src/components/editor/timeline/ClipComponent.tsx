@@ -6,6 +6,7 @@ import { useUIStore } from "../../../stores/ui-store";
 import { useTimelineStore } from "../../../stores/timeline-store";
 import { calculateSnap, generateWaveformPath, getClipStyle } from "./utils";
 import { ClipContextMenu } from "./ClipContextMenu";
+import { ClipSpectrogram } from "./ClipSpectrogram";
 import { ContextMenu, ContextMenuTrigger } from "@openreel/ui";
 
 interface ClipComponentProps {
@@ -48,7 +49,7 @@ export const ClipComponent: React.FC<ClipComponentProps> = ({
   onTrimClip,
 }) => {
   const { getMediaItem } = useProjectStore();
-  const { snapSettings } = useUIStore();
+  const { snapSettings, showSpectrograms } = useUIStore();
   const { playheadPosition } = useTimelineStore();
   const mediaItem = getMediaItem(clip.mediaId);
   const [isDragging, setIsDragging] = useState(false);
@@ -439,7 +440,11 @@ export const ClipComponent: React.FC<ClipComponentProps> = ({
         </span>
       </div>
 
-      {isAudio && (
+      {isAudio && showSpectrograms && (
+        <ClipSpectrogram clip={clip} width={width} isSelected={isSelected} />
+      )}
+
+      {isAudio && !showSpectrograms && (
         <>
           <div className="absolute inset-0 flex items-center opacity-50 px-1 pointer-events-none">
             {mediaItem?.waveformData ? (
@@ -9,10 +9,12 @@ import {
   Volume2,
   Film,
   Image,
+  Clapperboard,
 } from "lucide-react";
-import type { Clip, Track } from "@openreel/core";
+import { getClipSceneCuts, type Clip, type Track } from "@openreel/core";
 import { useProjectStore } from "../../../stores/project-store";
 import { useTimelineStore } from "../../../stores/timeline-store";
+import { toast } from "../../../stores/notification-store";
 import {
   ContextMenuContent,
   ContextMenuItem,
@@ -41,6 +43,8 @@ export const ClipContextMenu: React.FC<ClipContextMenuProps> = ({
     removeClip,
     rippleDeleteClip,
     splitClip,
+    splitClipAtSceneCuts,
+    detectSceneCuts,
     separateAudio,
     getMediaItem,
     copyEffects,
@@ -63,6 +67,9 @@ export const ClipContextMenu: React.FC<ClipContextMenuProps> = ({
     mediaItem?.metadata?.channels &&
     mediaItem.metadata.channels > 0;
 
+  const canDetectScenes = isVideo && mediaItem?.type === "video";
+  const sceneCutCount = getClipSceneCuts(clip, mediaItem).length;
+
   const hasEffects = clip.effects && clip.effects.length > 0;
   const hasCopiedEffects = copiedEffects && copiedEffects.length > 0;
 
@@ -93,6 +100,28 @@ export const ClipContextMenu: React.FC<ClipContextMenuProps> = ({
     onClose?.();
   };
 
+  const handleDetectSceneCuts = async () => {
+    onClose?.();
+    const result = await detectSceneCuts(clip.mediaId);
+    if (!result.success) {
+      toast.error("Scene detection failed", result.error?.message);
+      return;
+    }
+    const count = getClipSceneCuts(
+      clip,
+      useProjectStore.getState().getMediaItem(clip.mediaId),
+    ).length;
+    toast.success("Scene detection complete", `Found ${count} cuts in clip`);
+  };
+
+  const handleSplitAtSceneCuts = async () => {
+    onClose?.();
+    const result = await splitClipAtSceneCuts(clip.id);
+    if (!result.success) {
+      toast.error("Split failed", result.error?.message);
+    }
+  };
+
   const handleSeparateAudio = async () => {
     await separateAudio(clip.id);
     onClose?.();
@@ -148,6 +177,24 @@ export const ClipContextMenu: React.FC<ClipContextMenuProps> = ({
         Split at Playhead
         <ContextMenuShortcut>S</ContextMenuShortcut>
       </ContextMenuItem>
+      {canDetectScenes && (
+        <>
+          <ContextMenuItem onClick={handleDetectSceneCuts}>
+            <Clapperboard className="mr-2 h-4 w-4" />
+            Detect Scene Cuts
+          </ContextMenuItem>
+          <ContextMenuItem
+            onClick={handleSplitAtSceneCuts}
+            disabled={sceneCutCount === 0}
+          >
+            <Scissors className="mr-2 h-4 w-4" />
+            Split at Scene Cuts
+            {sceneCutCount > 0 && (
+              <ContextMenuShortcut>{sceneCutCount}</ContextMenuShortcut>
+            )}
+          </ContextMenuItem>
+        </>
+      )}
 
       {(isVideo || isImage) && (
         <>
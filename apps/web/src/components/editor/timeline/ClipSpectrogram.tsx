@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import type { Clip, Spectrogram, SpectralRegion } from "@openreel/core";
+import { getAudioRepairBridge } from "../../../bridges/audio-repair-bridge";
+
+interface ClipSpectrogramProps {
+  clip: Clip;
+  /** Width of the clip on the timeline in pixels */
+  width: number;
+  isSelected: boolean;
+}
+
+const MIN_FREQUENCY = 40;
+const CANVAS_HEIGHT = 96;
+const MAX_CANVAS_WIDTH = 4096;
+const FLOOR_DB = -100;
+const GAIN_OPTIONS = [-6, -12, -24, -60];
+
+interface Selection {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/** Frequency at a height from 0 (top, Nyquist) to 1 (bottom) on a log axis. */
+function frequencyAt(position: number, nyquist: number): number {
+  return MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, 1 - position);
+}
+
+/** Dark blue through magenta and orange to pale yellow. */
+function heatColor(level: number): [number, number, number] {
+  const t = Math.max(0, Math.min(1, level));
+  return [
+    Math.round(255 * Math.min(1, t * 1.8)),
+    Math.round(255 * Math.max(0, t * 1.6 - 0.6)),
+    Math.round(
+      255 * (t < 0.4 ? 0.15 + t * 1.4 : Math.max(0, 0.71 - (t - 0.4) * 1.8)),
+    ),
+  ];
+}
+
+function drawSpectrogram(
+  canvas: HTMLCanvasElement,
+  spectrogram: Spectrogram,
+  clip: Clip,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  const { width, height } = canvas;
+  const { data, frames, bins, fftSize, hopSize, sampleRate } = spectrogram;
+  const nyquist = sampleRate / 2;
+  const image = context.createImageData(width, height);
+
+  const rowBins = new Int32Array(height);
+  for (let y = 0; y < height; y++) {
+    const frequency = frequencyAt(y / (height - 1), nyquist);
+    rowBins[y] = Math.min(
+      bins - 1,
+      Math.round((frequency * fftSize) / sampleRate),
+    );
+  }
+
+  const span = clip.outPoint - clip.inPoint;
+  for (let x = 0; x < width; x++) {
+    const time = clip.inPoint + ((x + 0.5) / width) * span;
+    const frame = Math.round((time * sampleRate) / hopSize);
+    if (frame < 0 || frame >= frames) continue;
+    for (let y = 0; y < height; y++) {
+      const db = data[frame * bins + rowBins[y]];
+      const [r, g, b] = heatColor((db - FLOOR_DB) / -FLOOR_DB);
+      const offset = (y * width + x) * 4;
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    }
+  }
+  context.putImageData(image, 0, 0);
+}
+
+/**
+ * Spectrogram of an audio clip drawn on a log frequency axis. On a
+ * selected clip, dragging marks a time and frequency region that can be
+ * turned down, e.g. to remove a cough or a whistle under dialogue.
+ */
+export const ClipSpectrogram: React.FC<ClipSpectrogramProps> = ({
+  clip,
+  width,
+  isSelected,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [gain, setGain] = useState(-24);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSpectrogram(null);
+    getAudioRepairBridge()
+      .getSpectrogram(clip.id)
+      .then((result) => {
+        if (!cancelled) setSpectrogram(result);
+      })
+      .catch((err) => {
+        console.warn("[ClipSpectrogram] Failed to analyze clip:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clip.id, clip.mediaId]);
+
+  const canvasWidth = Math.max(
+    1,
+    Math.min(MAX_CANVAS_WIDTH, Math.round(width)),
+  );
+
+  useEffect(() => {
+    if (spectrogram && canvasRef.current) {
+      drawSpectrogram(canvasRef.current, spectrogram, clip);
+    }
+  }, [spectrogram, clip, canvasWidth]);
+
+  useEffect(() => {
+    if (!isSelected) {
+      setSelection(null);
+      setError(null);
+    }
+  }, [isSelected]);
+
+  const toFraction = useCallback((e: MouseEvent | React.MouseEvent) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || busy) return;
+    // Keep the clip from starting a move
+    e.stopPropagation();
+    const start = toFraction(e);
+    setSelection({ x0: start.x, y0: start.y, x1: start.x, y1: start.y });
+    setError(null);
+    setIsSelecting(true);
+  };
+
+  useEffect(() => {
+    if (!isSelecting) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = toFraction(e);
+      setSelection((prev) =>
+        prev ? { ...prev, x1: point.x, y1: point.y } : prev,
+      );
+    };
+    const handleMouseUp = () => {
+      setIsSelecting(false);
+      setSelection((prev) =>
+        prev &&
+        Math.abs(prev.x1 - prev.x0) > 0.005 &&
+        Math.abs(prev.y1 - prev.y0) > 0.02
+          ? prev
+          : null,
+      );
+    };
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [isSelecting, toFraction]);
+
+  const handleAttenuate = useCallback(async () => {
+    if (!selection || !spectrogram) return;
+    const nyquist = spectrogram.sampleRate / 2;
+    const span = clip.outPoint - clip.inPoint;
+    const region: SpectralRegion = {
+      startTime: clip.inPoint + Math.min(selection.x0, selection.x1) * span,
+      endTime: clip.inPoint + Math.max(selection.x0, selection.x1) * span,
+      lowFrequency: frequencyAt(Math.max(selection.y0, selection.y1), nyquist),
+      highFrequency: frequencyAt(Math.min(selection.y0, selection.y1), nyquist),
+      gain,
+    };
+    setBusy(true);
+    const result = await getAudioRepairBridge().repairClip(clip.id, {
+      type: "spectral",
+      ...region,
+    });
+    setBusy(false);
+    if (result.success) {
+      setSelection(null);
+    } else {
+      setError(result.error ?? "Attenuation failed");
+    }
+  }, [selection, spectrogram, clip, gain]);
+
+  const left = selection ? Math.min(selection.x0, selection.x1) : 0;
+  const top = selection ? Math.min(selection.y0, selection.y1) : 0;
+  const right = selection ? Math.max(selection.x0, selection.x1) : 0;
+  const bottom = selection ? Math.max(selection.y0, selection.y1) : 0;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 ${
+        isSelected ? "cursor-crosshair" : "pointer-events-none"
+      }`}
+      onMouseDown={isSelected ? handleMouseDown : undefined}
+    >
+      <canvas
+        ref={canvasRef}
+        width={canvasWidth}
+        height={CANVAS_HEIGHT}
+        className="w-full h-full opacity-80"
+      />
+      {selection && (
+        <div
+          className="absolute border border-white/80 bg-white/15 pointer-events-none"
+          style={{
+            left: `${left * 100}%`,
+            top: `${top * 100}%`,
+            width: `${(right - left) * 100}%`,
+            height: `${(bottom - top) * 100}%`,
+          }}
+        />
+      )}
+      {selection && !isSelecting && (
+        <div
+          className="absolute z-20 flex items-center gap-1 p-1 rounded-md bg-background-secondary border border-border shadow-lg text-[9px] text-text-secondary cursor-default"
+          // Clips clip their overflow, so keep the popover inside the lane
+          style={
+            bottom < 0.6
+              ? { left: `${left * 100}%`, top: `${bottom * 100}%` }
+              : { left: `${left * 100}%`, bottom: `${(1 - top) * 100}%` }
+          }
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <select
+            value={gain}
+            onChange={(e) => setGain(Number(e.target.value))}
+            disabled={busy}
+            className="bg-background-tertiary border border-border rounded px-1 py-0.5"
+          >
+            {GAIN_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} dB
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAttenuate}
+            disabled={busy}
+            className="px-1.5 py-0.5 rounded bg-primary/20 text-primary hover:bg-primary/30 disabled:opacity-50"
+          >
+            {busy ? "Attenuating..." : "Attenuate"}
+          </button>
+          <button
+            onClick={() => setSelection(null)}
+            disabled={busy}
+            title="Clear selection"
+            className="p-0.5 rounded hover:text-text-primary"
+          >
+            <X size={10} />
+          </button>
+          {error && <span className="text-red-500">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
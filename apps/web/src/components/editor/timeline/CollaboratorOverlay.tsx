@@ -0,0 +1,91 @@
+import React, { useMemo } from "react";
+import type { Track } from "@openreel/core";
+import { useCollaborationStore } from "../../../stores/collaboration-store";
+
+interface CollaboratorOverlayProps {
+  tracks: Track[];
+  trackHeights: Map<string, number>;
+  pixelsPerSecond: number;
+  totalHeight: number;
+}
+
+/**
+ * Draws the playheads and clip selections of the other people in the
+ * collaboration session on top of the track lanes.
+ */
+export const CollaboratorOverlay: React.FC<CollaboratorOverlayProps> = ({
+  tracks,
+  trackHeights,
+  pixelsPerSecond,
+  totalHeight,
+}) => {
+  const peers = useCollaborationStore((state) => state.peers);
+
+  const clipBounds = useMemo(() => {
+    const bounds = new Map<
+      string,
+      { left: number; top: number; width: number; height: number }
+    >();
+    let top = 0;
+    for (const track of tracks) {
+      const height = trackHeights.get(track.id) ?? 0;
+      for (const clip of track.clips) {
+        bounds.set(clip.id, {
+          left: clip.startTime * pixelsPerSecond,
+          top,
+          width: clip.duration * pixelsPerSecond,
+          height,
+        });
+      }
+      top += height;
+    }
+    return bounds;
+  }, [tracks, trackHeights, pixelsPerSecond]);
+
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-40">
+      {peers.map((peer) =>
+        peer.selectedClipIds.map((clipId) => {
+          const rect = clipBounds.get(clipId);
+          if (!rect) return null;
+          return (
+            <div
+              key={`${peer.peerId}-${clipId}`}
+              className="absolute rounded-md border-2"
+              style={{ ...rect, borderColor: peer.color }}
+            />
+          );
+        }),
+      )}
+
+      {peers.map(
+        (peer) =>
+          peer.cursorTime !== null && (
+            <div
+              key={`cursor-${peer.peerId}`}
+              className="absolute top-0"
+              style={{
+                left: `${peer.cursorTime * pixelsPerSecond}px`,
+                height: `${totalHeight}px`,
+              }}
+            >
+              <div
+                className="h-full w-px opacity-80"
+                style={{ backgroundColor: peer.color }}
+              />
+              <div
+                className="absolute top-0 left-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-white whitespace-nowrap"
+                style={{ backgroundColor: peer.color }}
+              >
+                {peer.name}
+              </div>
+            </div>
+          ),
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorOverlay;
@@ -5,7 +5,9 @@ export { TimeRuler } from "./TimeRuler";
 export { TrackHeader } from "./TrackHeader";
 export { TrackLane } from "./TrackLane";
 export { ClipComponent } from "./ClipComponent";
+export { ClipSpectrogram } from "./ClipSpectrogram";
 export { TextClipComponent } from "./TextClipComponent";
 export { ShapeClipComponent } from "./ShapeClipComponent";
 export { BeatMarkerOverlay } from "./BeatMarkerOverlay";
+export { CollaboratorOverlay } from "./CollaboratorOverlay";
 export { MarkerIndicator } from "./MarkerIndicator";
@@ -0,0 +1,68 @@
+import { StorageEngine } from "@openreel/core";
+import type { ActionHistory, SerializedActionHistory } from "@openreel/core";
+
+const storage = new StorageEngine();
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+let stopActiveWatcher: (() => void) | null = null;
+
+export async function saveProjectHistory(
+  projectId: string,
+  history: ActionHistory,
+): Promise<void> {
+  await storage.saveHistory(projectId, history.toJSON());
+}
+
+export async function loadProjectHistory(
+  projectId: string,
+): Promise<SerializedActionHistory | null> {
+  try {
+    return await storage.loadHistory(projectId);
+  } catch (error) {
+    console.warn("[HistoryStorage] Failed to load history:", error);
+    return null;
+  }
+}
+
+export async function deleteProjectHistory(projectId: string): Promise<void> {
+  await storage.deleteHistory(projectId);
+}
+
+/**
+ * Saves the undo tree shortly after every change. Only one history is watched
+ * at a time: watching another project's history flushes and stops the
+ * previous watcher.
+ */
+export function watchProjectHistory(
+  projectId: string,
+  history: ActionHistory,
+): () => void {
+  stopActiveWatcher?.();
+
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  const save = () => {
+    timeoutId = null;
+    saveProjectHistory(projectId, history).catch((error) => {
+      console.error("[HistoryStorage] Failed to save history:", error);
+    });
+  };
+
+  const unsubscribe = history.subscribe(() => {
+    if (timeoutId) clearTimeout(timeoutId);
+    timeoutId = setTimeout(save, SAVE_DEBOUNCE_MS);
+  });
+
+  const stop = () => {
+    unsubscribe();
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      save();
+    }
+    if (stopActiveWatcher === stop) {
+      stopActiveWatcher = null;
+    }
+  };
+  stopActiveWatcher = stop;
+  return stop;
+}
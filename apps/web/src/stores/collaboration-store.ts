@@ -0,0 +1,190 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  createCollaborationSession,
+  createWebSocketTransport,
+  type CollaborationConflict,
+  type CollaborationSession,
+  type CollaborationStatus,
+  type CollaboratorPresence,
+} from "@openreel/core";
+import { useProjectStore } from "./project-store";
+import { useTimelineStore } from "./timeline-store";
+import { useUIStore } from "./ui-store";
+import { toast } from "./notification-store";
+
+const PRESENCE_THROTTLE_MS = 100;
+
+export const DEFAULT_RELAY_URL = "ws://localhost:4455/openreel";
+
+interface CollaborationState {
+  status: CollaborationStatus;
+  peers: CollaboratorPresence[];
+  /** Colour other collaborators see for this user while connected. */
+  color: string | null;
+  relayUrl: string;
+  displayName: string;
+
+  setRelayUrl: (url: string) => void;
+  setDisplayName: (name: string) => void;
+  connect: () => Promise<void>;
+  disconnect: () => void;
+}
+
+let session: CollaborationSession | null = null;
+let cleanups: Array<() => void> = [];
+let stopPresence: (() => void) | null = null;
+
+function teardown(): void {
+  cleanups.forEach((cleanup) => cleanup());
+  cleanups = [];
+  stopPresence?.();
+  stopPresence = null;
+  session = null;
+}
+
+function describeConflict(
+  conflict: CollaborationConflict,
+  peers: CollaboratorPresence[],
+): string {
+  const reason = conflict.errors[0]?.message ?? "The edit is no longer valid";
+  if (conflict.isLocal) {
+    return `Your edit was reverted because a collaborator changed the timeline first. ${reason}`;
+  }
+  const peer = peers.find((p) => p.peerId === conflict.peerId);
+  return `${peer?.name ?? "A collaborator"}'s edit could not be applied. ${reason}`;
+}
+
+/**
+ * Throttles presence updates so that scrubbing or playback does not flood the
+ * relay, while always sending the latest playhead position.
+ */
+function watchPresence(target: CollaborationSession): () => void {
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const send = () => {
+    timeoutId = null;
+    target.updatePresence(
+      useTimelineStore.getState().playheadPosition,
+      useUIStore.getState().getSelectedClipIds(),
+    );
+  };
+  const schedule = () => {
+    if (!timeoutId) {
+      timeoutId = setTimeout(send, PRESENCE_THROTTLE_MS);
+    }
+  };
+
+  const unsubscribePlayhead = useTimelineStore.subscribe(
+    (state) => state.playheadPosition,
+    schedule,
+  );
+  const unsubscribeSelection = useUIStore.subscribe(
+    (state) => state.selectedItems,
+    schedule,
+  );
+  send();
+
+  return () => {
+    unsubscribePlayhead();
+    unsubscribeSelection();
+    if (timeoutId) clearTimeout(timeoutId);
+  };
+}
+
+export const useCollaborationStore = create<CollaborationState>()(
+  persist(
+    (set, get) => ({
+      status: "disconnected",
+      peers: [],
+      color: null,
+      relayUrl: DEFAULT_RELAY_URL,
+      displayName: "",
+
+      setRelayUrl: (relayUrl) => set({ relayUrl }),
+      setDisplayName: (displayName) => set({ displayName }),
+
+      connect: async () => {
+        if (session) return;
+
+        const { relayUrl, displayName } = get();
+        const { actionExecutor } = useProjectStore.getState();
+        const current = createCollaborationSession({
+          executor: actionExecutor,
+          getProject: () => useProjectStore.getState().project,
+          name: displayName.trim() || "Guest",
+        });
+        session = current;
+        set({ color: current.getColor() });
+
+        cleanups.push(
+          current.subscribe((event) => {
+            switch (event.type) {
+              case "status":
+                set({ status: event.status });
+                if (event.status === "connected" && !stopPresence) {
+                  stopPresence = watchPresence(current);
+                } else if (event.status === "disconnected") {
+                  teardown();
+                  set({ peers: [], color: null });
+                }
+                break;
+              case "peers":
+                set({ peers: event.peers });
+                break;
+              case "project":
+                useProjectStore.setState({ project: { ...event.project } });
+                break;
+              case "conflict":
+                toast.warning(
+                  "Edit conflict",
+                  describeConflict(event.conflict, get().peers),
+                );
+                break;
+            }
+          }),
+        );
+
+        // Switching projects gives the store a new executor for the new
+        // project, which is not the one being shared
+        cleanups.push(
+          useProjectStore.subscribe(
+            (state) => state.actionExecutor,
+            (executor) => {
+              if (executor !== actionExecutor) {
+                get().disconnect();
+                toast.info(
+                  "Left collaboration session",
+                  "Another project was opened",
+                );
+              }
+            },
+          ),
+        );
+
+        try {
+          await current.connect(createWebSocketTransport(relayUrl));
+        } catch (error) {
+          teardown();
+          set({ status: "disconnected", color: null });
+          toast.error(
+            "Could not join session",
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+      },
+
+      disconnect: () => {
+        // The session's "disconnected" status event tears everything down
+        session?.disconnect();
+      },
+    }),
+    {
+      name: "openreel-collaboration",
+      partialize: (state) => ({
+        relayUrl: state.relayUrl,
+        displayName: state.displayName,
+      }),
+    },
+  ),
+);
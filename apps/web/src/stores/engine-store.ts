@@ -22,10 +22,17 @@ import {
   getPlaybackController,
   getPhotoEngine,
   getExportEngine,
+  getSpeedEngine,
+  getMotionTrackingEngine,
   titleEngine as coreTitleEngine,
   graphicsEngine as coreGraphicsEngine,
 } from "@openreel/core";
-import type { RenderedFrame } from "@openreel/core";
+import { getEffectsBridgeState } from "../bridges/effects-bridge";
+import type {
+  ActionEngines,
+  ProjectStateEngine,
+  RenderedFrame,
+} from "@openreel/core";
 
 const lazyEngineCache = new Map<string, unknown>();
 
@@ -39,6 +46,35 @@ async function getOrCreateEngine<T>(
   return lazyEngineCache.get(key) as Promise<T>;
 }
 
+// Engines whose clip state lives on the project are needed synchronously
+// when a project is loaded or saved, so they are created on first use
+const projectStateEngineCache = new Map<string, unknown>();
+
+function getOrCreateProjectStateEngine<T>(key: string, factory: () => T): T {
+  if (!projectStateEngineCache.has(key)) {
+    projectStateEngineCache.set(key, factory());
+  }
+  return projectStateEngineCache.get(key) as T;
+}
+
+const getChromaKeyEngineSync = () =>
+  getOrCreateProjectStateEngine(
+    "chromaKey",
+    () => new ChromaKeyEngine({ width: 1920, height: 1080 })
+  );
+const getMultiCamEngineSync = () =>
+  getOrCreateProjectStateEngine("multiCam", () => new MultiCamEngine());
+const getMaskEngineSync = () =>
+  getOrCreateProjectStateEngine(
+    "mask",
+    () => new MaskEngine({ width: 1920, height: 1080 })
+  );
+const getNestedSequenceEngineSync = () =>
+  getOrCreateProjectStateEngine(
+    "nestedSequence",
+    () => new NestedSequenceEngine()
+  );
+
 export interface AudioLevelData {
   peaks: Map<string, number>;
   rms: Map<string, number>;
@@ -106,6 +142,10 @@ export interface EngineState {
   getMaskEngine: () => Promise<MaskEngine>;
   getNestedSequenceEngine: () => Promise<NestedSequenceEngine>;
   getAdjustmentLayerEngine: () => Promise<AdjustmentLayerEngine>;
+  /** Engines that hydrate from and write back to the project. */
+  getProjectStateEngines: () => ProjectStateEngine[];
+  /** State bindings the action executor validates and applies against. */
+  getActionEngines: () => ActionEngines;
 }
 
 /**
@@ -276,6 +316,7 @@ export const useEngineStore = create<EngineState>()(
       }
 
       lazyEngineCache.clear();
+      projectStateEngineCache.clear();
 
       set({
         initialized: false,
@@ -383,21 +424,28 @@ export const useEngineStore = create<EngineState>()(
       getOrCreateEngine("template", () => new TemplateEngine()),
     getSoundLibraryEngine: () =>
       getOrCreateEngine("soundLibrary", () => new SoundLibraryEngine()),
-    getChromaKeyEngine: () =>
-      getOrCreateEngine(
-        "chromaKey",
-        () => new ChromaKeyEngine({ width: 1920, height: 1080 })
-      ),
-    getMultiCamEngine: () =>
-      getOrCreateEngine("multiCam", () => new MultiCamEngine()),
-    getMaskEngine: () =>
-      getOrCreateEngine(
-        "mask",
-        () => new MaskEngine({ width: 1920, height: 1080 })
-      ),
+    getChromaKeyEngine: () => Promise.resolve(getChromaKeyEngineSync()),
+    getMultiCamEngine: () => Promise.resolve(getMultiCamEngineSync()),
+    getMaskEngine: () => Promise.resolve(getMaskEngineSync()),
     getNestedSequenceEngine: () =>
-      getOrCreateEngine("nestedSequence", () => new NestedSequenceEngine()),
+      Promise.resolve(getNestedSequenceEngineSync()),
     getAdjustmentLayerEngine: () =>
       getOrCreateEngine("adjustmentLayer", () => new AdjustmentLayerEngine()),
+    getProjectStateEngines: () => [
+      getMaskEngineSync(),
+      getSpeedEngine(),
+      getChromaKeyEngineSync(),
+      getMotionTrackingEngine(),
+      getMultiCamEngineSync(),
+      getNestedSequenceEngineSync(),
+      getEffectsBridgeState(),
+    ],
+    getActionEngines: () => ({
+      masks: getMaskEngineSync(),
+      speed: getSpeedEngine(),
+      colorGrading: getEffectsBridgeState(),
+      multicam: getMultiCamEngineSync(),
+      nestedSequences: getNestedSequenceEngineSync(),
+    }),
   })),
 );
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { useProjectStore } from "./project-store";
+import { loadProjectHistory } from "../services/history-storage";
 import type { Project, Clip, MediaItem } from "@openreel/core";
 
 vi.mock("../services/auto-save", () => ({
@@ -33,6 +34,11 @@ vi.mock("../bridges/media-bridge", () => ({
   initializeMediaBridge: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock("../services/history-storage", () => ({
+  loadProjectHistory: vi.fn().mockResolvedValue(null),
+  watchProjectHistory: vi.fn(),
+}));
+
 describe("ProjectStore", () => {
   beforeEach(() => {
     useProjectStore.getState().createNewProject();
@@ -186,6 +192,41 @@ describe("ProjectStore", () => {
     });
   });
 
+  describe("history restore", () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should move the saved history to the node the project was saved at", async () => {
+      await useProjectStore.getState().addTrack("video");
+      await useProjectStore.getState().renameProject("Renamed");
+      const savedHistory = useProjectStore.getState().actionHistory.toJSON();
+      await useProjectStore.getState().undo();
+      const savedProject = useProjectStore.getState().getFullProject();
+
+      vi.mocked(loadProjectHistory).mockResolvedValueOnce(savedHistory);
+      useProjectStore.getState().loadProject(savedProject);
+      await flush();
+
+      expect(useProjectStore.getState().canUndo()).toBe(true);
+      expect(useProjectStore.getState().canRedo()).toBe(true);
+    });
+
+    it("should drop a saved history that does not reach the project", async () => {
+      await useProjectStore.getState().addTrack("video");
+      const savedHistory = useProjectStore.getState().actionHistory.toJSON();
+      const savedProject = {
+        ...useProjectStore.getState().getFullProject(),
+        historyNodeId: "newer-node",
+      };
+
+      vi.mocked(loadProjectHistory).mockResolvedValueOnce(savedHistory);
+      useProjectStore.getState().loadProject(savedProject);
+      await flush();
+
+      expect(useProjectStore.getState().canUndo()).toBe(false);
+      expect(useProjectStore.getState().canRedo()).toBe(false);
+    });
+  });
+
   describe("project renaming", () => {
     it("should rename project", async () => {
       const result = await useProjectStore.getState().renameProject("New Name");
@@ -497,8 +538,8 @@ describe("ProjectStore", () => {
   });
 
   describe("marker operations", () => {
-    it("should add a marker", () => {
-      useProjectStore.getState().addMarker(5, "Scene 1", "#ff0000");
+    it("should add a marker", async () => {
+      await useProjectStore.getState().addMarker(5, "Scene 1", "#ff0000");
 
       const markers = useProjectStore.getState().getMarkers();
       expect(markers.length).toBe(1);
@@ -506,19 +547,19 @@ describe("ProjectStore", () => {
       expect(markers[0].label).toBe("Scene 1");
     });
 
-    it("should remove a marker", () => {
-      useProjectStore.getState().addMarker(5, "Scene 1");
+    it("should remove a marker", async () => {
+      await useProjectStore.getState().addMarker(5, "Scene 1");
       const markers = useProjectStore.getState().getMarkers();
       const markerId = markers[0].id;
 
-      useProjectStore.getState().removeMarker(markerId);
+      await useProjectStore.getState().removeMarker(markerId);
 
       const updatedMarkers = useProjectStore.getState().getMarkers();
       expect(updatedMarkers.length).toBe(0);
     });
 
-    it("should get marker by id", () => {
-      useProjectStore.getState().addMarker(10, "Marker Test");
+    it("should get marker by id", async () => {
+      await useProjectStore.getState().addMarker(10, "Marker Test");
       const markers = useProjectStore.getState().getMarkers();
       const markerId = markers[0].id;
 
@@ -526,6 +567,22 @@ describe("ProjectStore", () => {
       expect(marker).toBeDefined();
       expect(marker?.time).toBe(10);
     });
+
+    it("should undo a marker change", async () => {
+      await useProjectStore.getState().addMarker(5, "Scene 1");
+      const markerId = useProjectStore.getState().getMarkers()[0].id;
+      await useProjectStore
+        .getState()
+        .updateMarker(markerId, { label: "Scene 2" });
+
+      await useProjectStore.getState().undo();
+      expect(useProjectStore.getState().getMarker(markerId)?.label).toBe(
+        "Scene 1",
+      );
+
+      await useProjectStore.getState().undo();
+      expect(useProjectStore.getState().getMarkers()).toHaveLength(0);
+    });
   });
 
   describe("undo/redo", () => {
@@ -643,6 +700,26 @@ describe("ProjectStore - Text Clips", () => {
     expect(allTextClips.length).toBe(initialCount + 2);
   });
 
+  it("should undo a text edit", async () => {
+    const { project } = useProjectStore.getState();
+    const trackId = project.timeline.tracks[0].id;
+    const clipId =
+      useProjectStore.getState().createTextClip(trackId, 0, "Hello", 5)?.id ??
+      "";
+    // Keep the creation out of the way so undo reaches the edit
+    useProjectStore.setState({ clipUndoStack: [] });
+
+    const updated = useProjectStore
+      .getState()
+      .updateTextContent(clipId, "Goodbye");
+    expect(updated?.text).toBe("Goodbye");
+    // Let the executor record the edit in the history
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await useProjectStore.getState().undo();
+    expect(useProjectStore.getState().getTextClip(clipId)?.text).toBe("Hello");
+  });
+
   it("should get available animation presets", () => {
     const presets = useProjectStore.getState().getAvailableAnimationPresets();
     expect(Array.isArray(presets)).toBe(true);
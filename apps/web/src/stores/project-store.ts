@@ -24,11 +24,29 @@ import type {
   Effect,
   Keyframe,
   Transform,
+  InputColorSpace,
+  AudioBus,
+  MasterBus,
+  TrackMix,
 } from "@openreel/core";
 import {
   ActionExecutor,
   ActionHistory,
+  bakeDuckingAutomation,
+  getAudioEngine,
+  TranscriptEditEngine,
   textAnimationEngine,
+  importEDL,
+  exportEDL,
+  importFCPXML,
+  exportFCPXML,
+  detectSubtitleFormat,
+  parseSubtitles,
+  exportSubtitles,
+  hydrateEngines,
+  writeEngineState,
+  sceneCutsToMarkers,
+  getClipSceneCuts,
 } from "@openreel/core";
 import { v4 as uuidv4 } from "uuid";
 import type {
@@ -56,6 +74,10 @@ import {
 } from "../services/media-storage";
 import { restoreMediaItem } from "../utils/media-recovery";
 import { projectManager } from "../services/project-manager";
+import {
+  loadProjectHistory,
+  watchProjectHistory,
+} from "../services/history-storage";
 
 /**
  * ProjectState - Complete state interface for project management
@@ -101,10 +123,20 @@ export interface ProjectState {
   updateSettings: (settings: Partial<ProjectSettings>) => Promise<ActionResult>;
 
   // Media library actions
-  importMedia: (file: File) => Promise<ActionResult>;
+  importMedia: (
+    file: File,
+    options?: { detectSceneCuts?: boolean },
+  ) => Promise<ActionResult>;
+  /** Finds shot changes in a video and keeps them as markers on the item. */
+  detectSceneCuts: (mediaId: string) => Promise<ActionResult>;
   deleteMedia: (mediaId: string) => Promise<ActionResult>;
   replaceMediaAsset: (mediaId: string, file: File) => Promise<ActionResult>;
   renameMedia: (mediaId: string, name: string) => Promise<ActionResult>;
+  /** Overrides the color space a media item is decoded as; undefined resets it. */
+  setMediaColorSpace: (
+    mediaId: string,
+    colorSpace: InputColorSpace | undefined,
+  ) => Promise<ActionResult>;
   getMediaItem: (mediaId: string) => MediaItem | undefined;
 
   // Track actions
@@ -120,6 +152,24 @@ export interface ProjectState {
   soloTrack: (trackId: string, solo: boolean) => Promise<ActionResult>;
   getTrack: (trackId: string) => Track | undefined;
 
+  // Mixer actions
+  addAudioBus: (name: string) => Promise<ActionResult>;
+  removeAudioBus: (busId: string) => Promise<ActionResult>;
+  updateAudioBus: (
+    busId: string,
+    updates: Partial<Omit<AudioBus, "id">>,
+  ) => Promise<ActionResult>;
+  updateTrackMix: (
+    trackId: string,
+    updates: Partial<TrackMix>,
+  ) => Promise<ActionResult>;
+  updateMasterBus: (updates: Partial<MasterBus>) => Promise<ActionResult>;
+  /**
+   * Writes a bus's sidechain ducking into the volume automation of the
+   * clips routed to it and turns the bus ducking off, as one undo step.
+   */
+  bakeBusDucking: (busId: string) => Promise<ActionResult>;
+
   // Clip actions
   addClip: (
     trackId: string,
@@ -142,6 +192,8 @@ export interface ProjectState {
     outPoint?: number,
   ) => Promise<ActionResult>;
   splitClip: (clipId: string, time: number) => Promise<ActionResult>;
+  /** Splits a clip at its media's scene cuts as one undo step. */
+  splitClipAtSceneCuts: (clipId: string) => Promise<ActionResult>;
   rippleDeleteClip: (clipId: string) => Promise<ActionResult>;
   slipClip: (clipId: string, delta: number) => Promise<ActionResult>;
   slideClip: (clipId: string, delta: number) => Promise<ActionResult>;
@@ -157,6 +209,8 @@ export interface ProjectState {
   ) => Promise<ActionResult>;
   getClip: (clipId: string) => Clip | undefined;
   separateAudio: (clipId: string) => Promise<ActionResult>;
+  /** Points an audio clip at another media item, such as a repaired copy. */
+  replaceClipSource: (clipId: string, mediaId: string) => Promise<ActionResult>;
   updateClipTransform: (
     clipId: string,
     transform: Partial<Transform>,
@@ -241,16 +295,51 @@ export interface ProjectState {
     srtContent: string
   ) => Promise<{ success: boolean; errors: string[] }>;
   exportSRT: () => Promise<string>;
+  // Subtitle files in SRT, WebVTT, ASS/SSA or TTML/IMSC
+  importSubtitles: (
+    content: string,
+    format?: import("@openreel/core").SubtitleFormat,
+  ) => Promise<{ success: boolean; errors: string[] }>;
+  exportSubtitles: (format: import("@openreel/core").SubtitleFormat) => string;
   applySubtitleStylePreset: (presetName: string) => Promise<boolean>;
   getSubtitleStylePresets: () => Promise<string[]>;
 
+  // Text-based editing - cuts the chosen video/audio tracks along with the words
+  deleteTranscriptWords: (
+    wordIds: string[],
+    trackIds: string[],
+  ) => Promise<ActionResult>;
+  moveTranscriptWords: (
+    wordIds: string[],
+    beforeWordId: string | null,
+    trackIds: string[],
+  ) => Promise<ActionResult>;
+
+  // Interchange actions - EDL and FCPXML rough cut import/export
+  importEDL: (
+    edlContent: string,
+    options?: import("@openreel/core").EDLImportOptions,
+  ) => { success: boolean; errors: string[]; warnings: string[] };
+  exportEDL: (options?: import("@openreel/core").EDLExportOptions) => string;
+  importFCPXML: (
+    xmlContent: string,
+    options?: import("@openreel/core").FCPXMLImportOptions,
+  ) => { success: boolean; errors: string[]; warnings: string[] };
+  exportFCPXML: (
+    options?: import("@openreel/core").FCPXMLExportOptions,
+  ) => string;
+
   // Marker actions
-  addMarker: (time: number, label?: string, color?: string) => void;
-  removeMarker: (markerId: string) => void;
+  addMarker: (
+    time: number,
+    label?: string,
+    color?: string,
+  ) => Promise<ActionResult>;
+  removeMarker: (markerId: string) => Promise<ActionResult>;
   updateMarker: (
     markerId: string,
     updates: Partial<import("@openreel/core").Marker>,
-  ) => void;
+  ) => Promise<ActionResult>;
   getMarker: (markerId: string) => import("@openreel/core").Marker | undefined;
   getMarkers: () => import("@openreel/core").Marker[];
 
@@ -386,6 +475,7 @@ export interface ProjectState {
   redo: () => Promise<ActionResult>;
   canUndo: () => boolean;
   canRedo: () => boolean;
+  jumpToHistory: (nodeId: string | null) => Promise<ActionResult>;
 
   // Execute arbitrary action
   executeAction: (action: Action) => Promise<ActionResult>;
@@ -398,6 +488,127 @@ export interface ProjectState {
   checkForRecovery: () => Promise<AutoSaveMetadata[]>;
   recoverFromAutoSave: (saveId: string) => Promise<boolean>;
   forceSave: () => Promise<void>;
+  /** The project with title, graphics and engine-side clip state folded in. */
+  getFullProject: () => Project;
+}
+
+/**
+ * Create the undo history and executor for a project. The history is saved
+ * next to the project as it changes; with restoreSaved, the tree stored for
+ * the project is loaded back in unless editing has already started.
+ *
+ * The tree is saved on its own schedule, so it can be ahead of or behind the
+ * saved project. It is moved to the node the project was saved at, and
+ * dropped when that node is gone or the project never recorded one.
+ */
+function createProjectHistory(
+  project: Project,
+  restoreSaved: boolean,
+): { actionHistory: ActionHistory; actionExecutor: ActionExecutor } {
+  const actionHistory = new ActionHistory();
+  const actionExecutor = new ActionExecutor(
+    actionHistory,
+    useEngineStore.getState().getActionEngines(),
+  );
+  watchProjectHistory(project.id, actionHistory);
+
+  if (restoreSaved) {
+    void loadProjectHistory(project.id).then((data) => {
+      if (!data || actionHistory.canUndo() || actionHistory.canRedo()) {
+        return;
+      }
+      // The project is already in the state of its node, so the jump plan
+      // is not applied; only the history's position moves
+      if (
+        project.historyNodeId === undefined ||
+        !actionHistory.restore(data) ||
+        !actionHistory.jumpTo(project.historyNodeId)
+      ) {
+        actionHistory.clear();
+      }
+    });
+  }
+
+  return { actionHistory, actionExecutor };
+}
+
+/**
+ * A text or graphics clip held by the title or graphics engine rather than
+ * by a timeline track.
+ */
+type OverlayClip =
+  | { kind: "text"; clip: TextClip }
+  | { kind: "shape"; clip: ShapeClip }
+  | { kind: "svg"; clip: SVGClip }
+  | { kind: "sticker"; clip: StickerClip };
+
+function findOverlayClip(clipId: string): OverlayClip | undefined {
+  const engines = useEngineStore.getState();
+  const textClip = engines.getTitleEngine()?.getTextClip(clipId);
+  if (textClip) {
+    return { kind: "text", clip: textClip };
+  }
+
+  const graphicsEngine = engines.getGraphicsEngine();
+  if (!graphicsEngine) {
+    return undefined;
+  }
+  const shapeClip = graphicsEngine.getShapeClip(clipId);
+  if (shapeClip) {
+    return { kind: "shape", clip: shapeClip };
+  }
+  const svgClip = graphicsEngine.getSVGClip(clipId);
+  if (svgClip) {
+    return { kind: "svg", clip: svgClip };
+  }
+  const stickerClip = graphicsEngine.getStickerClip(clipId);
+  return stickerClip ? { kind: "sticker", clip: stickerClip } : undefined;
+}
+
+/**
+ * Copy the clips held by the title and graphics engines into the project, so
+ * text and graphic actions validate and apply against the live clips.
+ */
+function captureOverlayClips(project: Project): void {
+  const engines = useEngineStore.getState();
+  const titleEngine = engines.getTitleEngine();
+  const graphicsEngine = engines.getGraphicsEngine();
+
+  if (titleEngine) {
+    Object.assign(project, { textClips: titleEngine.getAllTextClips() });
+  }
+  if (graphicsEngine) {
+    Object.assign(project, {
+      shapeClips: graphicsEngine.getAllShapeClips(),
+      svgClips: graphicsEngine.getAllSVGClips(),
+      stickerClips: graphicsEngine.getAllStickerClips(),
+    });
+  }
+}
+
+/**
+ * Load the project's text and graphics clips back into the engines after an
+ * action, undo or redo has changed them.
+ */
+function loadOverlayClips(project: Project): void {
+  const engines = useEngineStore.getState();
+  const titleEngine = engines.getTitleEngine();
+  const graphicsEngine = engines.getGraphicsEngine();
+
+  if (titleEngine && project.textClips) {
+    titleEngine.loadTextClips(project.textClips);
+  }
+  if (graphicsEngine) {
+    if (project.shapeClips) {
+      graphicsEngine.loadShapeClips(project.shapeClips);
+    }
+    if (project.svgClips) {
+      graphicsEngine.loadSVGClips(project.svgClips);
+    }
+    if (project.stickerClips) {
+      graphicsEngine.loadStickerClips(project.stickerClips);
+    }
+  }
 }
 
 /**
@@ -405,12 +616,111 @@ export interface ProjectState {
  */
 export const useProjectStore = create<ProjectState>()(
   subscribeWithSelector((set, get) => {
-    const actionHistory = new ActionHistory();
-    const actionExecutor = new ActionExecutor(actionHistory);
+    const initialProject = createEmptyProject();
+    const { actionHistory, actionExecutor } = createProjectHistory(
+      initialProject,
+      false,
+    );
+
+    /**
+     * Execute a text or graphic action against the clips held by the title
+     * and graphics engines. These actions are applied before execute first
+     * awaits, so the engines are reloaded straight away and callers can read
+     * the edited clip back synchronously.
+     */
+    const executeOverlayAction = (
+      type: string,
+      params: Record<string, unknown>,
+    ): Promise<ActionResult> => {
+      const { project, actionExecutor } = get();
+      const action: Action = {
+        type,
+        id: uuidv4(),
+        timestamp: Date.now(),
+        params,
+      };
+
+      captureOverlayClips(project);
+      const result = actionExecutor.execute(action, project);
+      loadOverlayClips(project);
+      set({ project: { ...project, modifiedAt: Date.now() } });
+      return result;
+    };
+
+    /**
+     * Apply updates to a text or graphics clip. A transform update is merged
+     * into the clip's transform, and undefined values leave fields unchanged.
+     */
+    const updateOverlayClip = (
+      overlay: OverlayClip,
+      updates: Record<string, unknown>,
+    ): void => {
+      const merged = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined),
+      );
+      if (merged.transform) {
+        merged.transform = {
+          ...overlay.clip.transform,
+          ...(merged.transform as Partial<Transform>),
+        };
+      }
+
+      void executeOverlayAction(
+        overlay.kind === "text" ? "text/update" : "graphic/update",
+        { clipId: overlay.clip.id, updates: merged },
+      );
+    };
+
+    /**
+     * Execute a color grade action. The grade is applied before execute
+     * first awaits, so the sliders keep reading the bridge synchronously.
+     */
+    const executeColorGradeAction = (
+      type: string,
+      params: Record<string, unknown>,
+    ): boolean => {
+      const { project, actionExecutor } = get();
+      const action: Action = {
+        type,
+        id: uuidv4(),
+        timestamp: Date.now(),
+        params,
+      };
+
+      void actionExecutor.execute(action, project).then((result) => {
+        if (!result.success) {
+          console.error("Failed to apply color grading:", result.error);
+        }
+      });
+      set({ project: { ...project, modifiedAt: Date.now() } });
+      return true;
+    };
+
+    /**
+     * Apply updates to a text clip and return the clip as it is afterwards,
+     * or null when it does not exist.
+     */
+    const updateTextClip = (
+      clipId: string,
+      getUpdates: (clip: TextClip) => Partial<TextClip>,
+    ): TextClip | null => {
+      const titleEngine = useEngineStore.getState().getTitleEngine();
+      if (!titleEngine) {
+        console.error("TitleEngine not initialized");
+        return null;
+      }
+
+      const textClip = titleEngine.getTextClip(clipId);
+      if (!textClip) {
+        return null;
+      }
+      updateOverlayClip({ kind: "text", clip: textClip }, getUpdates(textClip));
+      return titleEngine.getTextClip(clipId) ?? null;
+    };
 
     return {
       // Initial state - create empty project (Requirement 1.1)
-      project: createEmptyProject(),
+      project: initialProject,
       photoProjects: new Map(),
       actionExecutor,
       actionHistory,
@@ -425,10 +735,11 @@ export const useProjectStore = create<ProjectState>()(
         name?: string,
         settings?: Partial<ProjectSettings>,
       ) => {
-        const newHistory = new ActionHistory();
-        const newExecutor = new ActionExecutor(newHistory);
+        const project = createEmptyProject(name, settings);
+        const { actionHistory: newHistory, actionExecutor: newExecutor } =
+          createProjectHistory(project, false);
         set({
-          project: createEmptyProject(name, settings),
+          project,
           actionHistory: newHistory,
           actionExecutor: newExecutor,
           clipUndoStack: [],
@@ -455,9 +766,13 @@ export const useProjectStore = create<ProjectState>()(
             graphicsEngine.loadStickerClips(project.stickerClips);
           }
         }
+        hydrateEngines(
+          project,
+          useEngineStore.getState().getProjectStateEngines(),
+        );
 
-        const newHistory = new ActionHistory();
-        const newExecutor = new ActionExecutor(newHistory);
+        const { actionHistory: newHistory, actionExecutor: newExecutor } =
+          createProjectHistory(project, true);
         set({
           project,
           actionHistory: newHistory,
@@ -501,7 +816,10 @@ export const useProjectStore = create<ProjectState>()(
       },
 
       // Media library actions
-      importMedia: async (file: File) => {
+      importMedia: async (
+        file: File,
+        options: { detectSceneCuts?: boolean } = {},
+      ) => {
         const { project } = get();
 
         try {
@@ -511,7 +829,12 @@ export const useProjectStore = create<ProjectState>()(
           }
 
           const isLargeFile = file.size > 50 * 1024 * 1024;
-          const importResult = await mediaBridge.importFile(file, true, isLargeFile);
+          const importResult = await mediaBridge.importFile(
+            file,
+            true,
+            isLargeFile,
+            options.detectSceneCuts,
+          );
 
           if (!importResult.success || !importResult.media) {
             return {
@@ -606,6 +929,10 @@ export const useProjectStore = create<ProjectState>()(
             waveformData: processedMedia.waveformData?.peaks || null,
             filmstripThumbnails:
               filmstripThumbnails.length > 0 ? filmstripThumbnails : undefined,
+            markers: processedMedia.sceneCuts
+              ? sceneCutsToMarkers(processedMedia.sceneCuts)
+              : undefined,
+            colorSpace: processedMedia.metadata.colorSpace,
           };
 
           const updatedProject = {
@@ -685,6 +1012,65 @@ export const useProjectStore = create<ProjectState>()(
         }
       },
 
+      detectSceneCuts: async (mediaId: string) => {
+        const mediaItem = get().getMediaItem(mediaId);
+        if (!mediaItem?.blob || mediaItem.type !== "video") {
+          return {
+            success: false,
+            error: {
+              code: "MEDIA_NOT_FOUND" as const,
+              message: "No video to analyse",
+            },
+          };
+        }
+
+        try {
+          const mediaBridge = getMediaBridge();
+          if (!mediaBridge.isInitialized()) {
+            await initializeMediaBridge();
+          }
+          const cuts = await mediaBridge.detectSceneCuts(
+            mediaItem.blob,
+            mediaItem.metadata.duration,
+          );
+
+          const { project, actionExecutor } = get();
+          const current = project.mediaLibrary.items.find(
+            (item) => item.id === mediaId,
+          );
+          const action: Action = {
+            type: "media/setMarkers",
+            id: uuidv4(),
+            timestamp: Date.now(),
+            params: {
+              mediaId,
+              markers: [
+                ...(current?.markers ?? []).filter(
+                  (marker) => marker.kind !== "scene-cut",
+                ),
+                ...sceneCutsToMarkers(cuts),
+              ],
+            },
+          };
+          const result = await actionExecutor.execute(action, project);
+          if (result.success) {
+            set({ project: { ...project } });
+          }
+          return result;
+        } catch (error) {
+          return {
+            success: false,
+            error: {
+              code: "DECODE_ERROR" as const,
+              message:
+                error instanceof Error
+                  ? error.message
+                  : "Scene detection failed",
+            },
+          };
+        }
+      },
+
       deleteMedia: async (mediaId: string) => {
         const { project, actionExecutor } = get();
         const action: Action = {
@@ -839,6 +1225,24 @@ export const useProjectStore = create<ProjectState>()(
         return result;
       },
 
+      setMediaColorSpace: async (
+        mediaId: string,
+        colorSpace: InputColorSpace | undefined,
+      ) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "media/setColorSpace",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { mediaId, colorSpace },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
       getMediaItem: (mediaId: string) => {
         const { project } = get();
         return project.mediaLibrary.items.find((item) => item.id === mediaId);
@@ -973,6 +1377,169 @@ export const useProjectStore = create<ProjectState>()(
         return project.timeline.tracks.find((track) => track.id === trackId);
       },
 
+      // Mixer actions
+      addAudioBus: async (name: string) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "mixer/addBus",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: {
+            bus: {
+              id: uuidv4(),
+              name,
+              volume: 1,
+              pan: 0,
+              muted: false,
+              effects: [],
+            },
+          },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
+      removeAudioBus: async (busId: string) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "mixer/removeBus",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { busId },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
+      updateAudioBus: async (busId, updates) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "mixer/updateBus",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { busId, updates },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
+      updateTrackMix: async (trackId, updates) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "mixer/updateTrack",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { trackId, updates },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
+      updateMasterBus: async (updates) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "mixer/updateMaster",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { updates },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
+      bakeBusDucking: async (busId: string) => {
+        const { project, actionExecutor, actionHistory } = get();
+        const bus = project.timeline.audioMix?.buses.find(
+          (b) => b.id === busId,
+        );
+        if (!bus?.ducking?.enabled) {
+          return {
+            success: false,
+            error: {
+              code: "INVALID_PARAMS" as const,
+              message: "Bus has no ducking to bake",
+            },
+          };
+        }
+
+        let gain: Float32Array | undefined;
+        try {
+          const gains = await getAudioEngine().renderDuckingGains(
+            project,
+            0,
+            calculateTimelineDuration(project),
+          );
+          gain = gains.get(busId);
+        } catch (error) {
+          return {
+            success: false,
+            error: {
+              code: "DECODE_ERROR" as const,
+              message:
+                error instanceof Error ? error.message : "Audio render failed",
+            },
+          };
+        }
+        if (!gain) {
+          return {
+            success: false,
+            error: {
+              code: "INVALID_PARAMS" as const,
+              message: "Ducking key bus not found",
+            },
+          };
+        }
+
+        const baked = bakeDuckingAutomation(project.timeline, busId, gain);
+        actionHistory.beginGroup("Bake ducking");
+        try {
+          for (const { clipId, points } of baked) {
+            const result = await actionExecutor.execute(
+              {
+                type: "audio/addAutomation",
+                id: uuidv4(),
+                timestamp: Date.now(),
+                params: { clipId, points },
+              },
+              project,
+            );
+            if (!result.success) {
+              return result;
+            }
+          }
+          return await actionExecutor.execute(
+            {
+              type: "mixer/updateBus",
+              id: uuidv4(),
+              timestamp: Date.now(),
+              params: {
+                busId,
+                updates: { ducking: { ...bus.ducking, enabled: false } },
+              },
+            },
+            project,
+          );
+        } finally {
+          actionHistory.endGroup();
+          set({ project: { ...project } });
+        }
+      },
+
       // Clip actions
       addClip: async (trackId: string, mediaId: string, startTime: number) => {
         const { project, actionExecutor } = get();
@@ -1218,6 +1785,51 @@ export const useProjectStore = create<ProjectState>()(
         return result;
       },
 
+      splitClipAtSceneCuts: async (clipId: string) => {
+        const { project, actionExecutor, actionHistory, getClip } = get();
+        const clip = getClip(clipId);
+        if (!clip) {
+          return {
+            success: false,
+            error: {
+              code: "CLIP_NOT_FOUND" as const,
+              message: "Clip not found",
+            },
+          };
+        }
+        const cuts = getClipSceneCuts(clip, get().getMediaItem(clip.mediaId));
+        if (cuts.length === 0) {
+          return {
+            success: false,
+            error: {
+              code: "INVALID_PARAMS" as const,
+              message: "No scene cuts within clip",
+            },
+          };
+        }
+
+        // From the last cut back, so the original clip keeps the first shot
+        actionHistory.beginGroup("Split at scene cuts");
+        try {
+          for (const cut of [...cuts].reverse()) {
+            const action: Action = {
+              type: "clip/split",
+              id: uuidv4(),
+              timestamp: Date.now(),
+              params: { clipId, time: cut.time, id: uuidv4() },
+            };
+            const result = await actionExecutor.execute(action, project);
+            if (!result.success) {
+              return result;
+            }
+          }
+        } finally {
+          actionHistory.endGroup();
+          set({ project: { ...project } });
+        }
+        return { success: true, actionId: clipId };
+      },
+
       rippleDeleteClip: async (clipId: string) => {
         const { project, actionExecutor } = get();
         const action: Action = {
@@ -1349,6 +1961,21 @@ export const useProjectStore = create<ProjectState>()(
         return undefined;
       },
 
+      replaceClipSource: async (clipId: string, mediaId: string) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "audio/replaceSource",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { clipId, mediaId },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
+      },
+
       copyClips: (clipIds: string[]) => {
         const { getClip } = get();
         const clips = clipIds
@@ -1575,84 +2202,32 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        // Try text clips
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            const newTransform = {
-              ...textClip.transform,
-              ...transformUpdate,
-              position: {
-                ...textClip.transform.position,
-                ...(transformUpdate.position || {}),
-              },
-              scale: {
-                ...textClip.transform.scale,
-                ...(transformUpdate.scale || {}),
-              },
-              anchor: {
-                ...textClip.transform.anchor,
-                ...(transformUpdate.anchor || {}),
-              },
-            };
-            titleEngine.updateTextClip(clipId, { transform: newTransform });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        // Try text and shape/SVG clips
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        // Try shape/SVG clips
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            const newTransform = {
-              ...shapeClip.transform,
-              ...transformUpdate,
-              position: {
-                ...shapeClip.transform.position,
-                ...(transformUpdate.position || {}),
-              },
-              scale: {
-                ...shapeClip.transform.scale,
-                ...(transformUpdate.scale || {}),
-              },
-              anchor: {
-                ...shapeClip.transform.anchor,
-                ...(transformUpdate.anchor || {}),
-              },
-            };
-            graphicsEngine.updateShapeClip(clipId, { transform: newTransform });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            const newTransform = {
-              ...svgClip.transform,
-              ...transformUpdate,
-              position: {
-                ...svgClip.transform.position,
-                ...(transformUpdate.position || {}),
-              },
-              scale: {
-                ...svgClip.transform.scale,
-                ...(transformUpdate.scale || {}),
-              },
-              anchor: {
-                ...svgClip.transform.anchor,
-                ...(transformUpdate.anchor || {}),
-              },
-            };
-            graphicsEngine.updateSVGClip(clipId, { transform: newTransform });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        return false;
+        const { transform } = overlay.clip;
+        updateOverlayClip(overlay, {
+          transform: {
+            ...transform,
+            ...transformUpdate,
+            position: {
+              ...transform.position,
+              ...(transformUpdate.position || {}),
+            },
+            scale: {
+              ...transform.scale,
+              ...(transformUpdate.scale || {}),
+            },
+            anchor: {
+              ...transform.anchor,
+              ...(transformUpdate.anchor || {}),
+            },
+          },
+        });
+        return true;
       },
 
       updateClipBlendMode: (clipId: string, blendMode) => {
@@ -1683,35 +2258,14 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        // Try text clips
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, { blendMode });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        // Try graphics clips
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, { blendMode });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, { blendMode });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        // Try text and shape/SVG clips
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { blendMode });
+        return true;
       },
 
       updateClipBlendOpacity: (clipId: string, opacity: number) => {
@@ -1746,34 +2300,13 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, { blendOpacity: opacity });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, { blendOpacity: opacity });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, { blendOpacity: opacity });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { blendOpacity: opacity });
+        return true;
       },
 
       updateClipEmphasisAnimation: (clipId: string, emphasisAnimation) => {
@@ -1803,41 +2336,13 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, { emphasisAnimation });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, { emphasisAnimation });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, { emphasisAnimation });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const stickerClip = graphicsEngine.getStickerClip(clipId);
-          if (stickerClip) {
-            graphicsEngine.updateStickerClip(clipId, { emphasisAnimation });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        const overlay = findOverlayClip(clipId);
+        if (!overlay) {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { emphasisAnimation });
+        return true;
       },
 
       updateClipRotate3D: (
@@ -1873,40 +2378,13 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, {
-              transform: { ...textClip.transform, rotate3d },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, {
-              transform: { ...shapeClip.transform, rotate3d },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, {
-              transform: { ...svgClip.transform, rotate3d },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { transform: { rotate3d } });
+        return true;
       },
 
       updateClipPerspective: (clipId: string, perspective: number) => {
@@ -1944,40 +2422,13 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, {
-              transform: { ...textClip.transform, perspective },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, {
-              transform: { ...shapeClip.transform, perspective },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, {
-              transform: { ...svgClip.transform, perspective },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { transform: { perspective } });
+        return true;
       },
 
       updateClipTransformStyle: (
@@ -2013,40 +2464,13 @@ export const useProjectStore = create<ProjectState>()(
           return true;
         }
 
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (titleEngine) {
-          const textClip = titleEngine.getTextClip(clipId);
-          if (textClip) {
-            titleEngine.updateTextClip(clipId, {
-              transform: { ...textClip.transform, transformStyle },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-        }
-
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-        if (graphicsEngine) {
-          const shapeClip = graphicsEngine.getShapeClip(clipId);
-          if (shapeClip) {
-            graphicsEngine.updateShapeClip(clipId, {
-              transform: { ...shapeClip.transform, transformStyle },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
-
-          const svgClip = graphicsEngine.getSVGClip(clipId);
-          if (svgClip) {
-            graphicsEngine.updateSVGClip(clipId, {
-              transform: { ...svgClip.transform, transformStyle },
-            });
-            set({ project: { ...project, modifiedAt: Date.now() } });
-            return true;
-          }
+        const overlay = findOverlayClip(clipId);
+        if (!overlay || overlay.kind === "sticker") {
+          return false;
         }
 
-        return false;
+        updateOverlayClip(overlay, { transform: { transformStyle } });
+        return true;
       },
 
       // Undo/Redo
@@ -2166,8 +2590,10 @@ export const useProjectStore = create<ProjectState>()(
         }
 
         // Fall back to action executor for timeline operations, track changes, media operations, etc.
+        captureOverlayClips(project);
         const result = await actionExecutor.undo(project);
         if (result.success) {
+          loadOverlayClips(project);
           set({ project: { ...project } });
         }
         return result;
@@ -2280,8 +2706,10 @@ export const useProjectStore = create<ProjectState>()(
         }
 
         // Fall back to action executor for timeline operations
+        captureOverlayClips(project);
         const result = await actionExecutor.redo(project);
         if (result.success) {
+          loadOverlayClips(project);
           set({ project: { ...project } });
         }
         return result;
@@ -2299,11 +2727,24 @@ export const useProjectStore = create<ProjectState>()(
         return clipRedoStack.length > 0 || actionHistory.canRedo();
       },
 
+      jumpToHistory: async (nodeId: string | null) => {
+        const { project, actionExecutor } = get();
+        captureOverlayClips(project);
+        const result = await actionExecutor.jumpTo(nodeId, project);
+        if (result.success) {
+          loadOverlayClips(project);
+          set({ project: { ...project, modifiedAt: Date.now() } });
+        }
+        return result;
+      },
+
       // Execute arbitrary action
       executeAction: async (action: Action) => {
         const { project, actionExecutor } = get();
+        captureOverlayClips(project);
         const result = await actionExecutor.execute(action, project);
         if (result.success) {
+          loadOverlayClips(project);
           set({ project: { ...project } });
         }
         return result;
@@ -2318,19 +2759,7 @@ export const useProjectStore = create<ProjectState>()(
       // Auto-save methods
       initializeAutoSave: async () => {
         await initializeAutoSave();
-        autoSaveManager.start(() => {
-          const { project } = get();
-          const titleEngine = useEngineStore.getState().getTitleEngine();
-          const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-
-          return {
-            ...project,
-            textClips: titleEngine?.getAllTextClips() || [],
-            shapeClips: graphicsEngine?.getAllShapeClips() || [],
-            svgClips: graphicsEngine?.getAllSVGClips() || [],
-            stickerClips: graphicsEngine?.getAllStickerClips() || [],
-          };
-        });
+        autoSaveManager.start(() => get().getFullProject());
 
         // Subscribe to project state changes to mark as dirty for auto-save
         // Uses Zustand's subscribeWithSelector middleware to detect changes to project object only
@@ -2385,9 +2814,13 @@ export const useProjectStore = create<ProjectState>()(
               graphicsEngine.loadStickerClips(recoveredProject.stickerClips);
             }
           }
+          hydrateEngines(
+            projectWithMedia,
+            useEngineStore.getState().getProjectStateEngines(),
+          );
 
-          const newHistory = new ActionHistory();
-          const newExecutor = new ActionExecutor(newHistory);
+          const { actionHistory: newHistory, actionExecutor: newExecutor } =
+            createProjectHistory(projectWithMedia, true);
           set({
             project: projectWithMedia,
             actionHistory: newHistory,
@@ -2404,32 +2837,26 @@ export const useProjectStore = create<ProjectState>()(
       },
 
       forceSave: async () => {
-        const { project } = get();
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
-
-        const fullProject: Project = {
-          ...project,
-          textClips: titleEngine?.getAllTextClips() || [],
-          shapeClips: graphicsEngine?.getAllShapeClips() || [],
-          svgClips: graphicsEngine?.getAllSVGClips() || [],
-          stickerClips: graphicsEngine?.getAllStickerClips() || [],
-        };
-        await autoSaveManager.forceSave(fullProject);
+        await autoSaveManager.forceSave(get().getFullProject());
       },
 
       getFullProject: (): Project => {
-        const { project } = get();
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        const graphicsEngine = useEngineStore.getState().getGraphicsEngine();
+        const { project, actionHistory } = get();
+        const engines = useEngineStore.getState();
+        const titleEngine = engines.getTitleEngine();
+        const graphicsEngine = engines.getGraphicsEngine();
 
-        return {
-          ...project,
-          textClips: titleEngine?.getAllTextClips() || [],
-          shapeClips: graphicsEngine?.getAllShapeClips() || [],
-          svgClips: graphicsEngine?.getAllSVGClips() || [],
-          stickerClips: graphicsEngine?.getAllStickerClips() || [],
-        };
+        return writeEngineState(
+          {
+            ...project,
+            textClips: titleEngine?.getAllTextClips() || [],
+            shapeClips: graphicsEngine?.getAllShapeClips() || [],
+            svgClips: graphicsEngine?.getAllSVGClips() || [],
+            stickerClips: graphicsEngine?.getAllStickerClips() || [],
+            historyNodeId: actionHistory.getCurrentNodeId(),
+          },
+          engines.getProjectStateEngines(),
+        );
       },
 
       // Text clip actions
@@ -2493,17 +2920,7 @@ export const useProjectStore = create<ProjectState>()(
        * Update text content and style
        */
       updateTextContent: (clipId: string, text: string) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          console.error("TitleEngine not initialized");
-          return null;
-        }
-
-        const updatedClip = titleEngine.updateText(clipId, text);
-        if (updatedClip) {
-          set({ project: { ...get().project, modifiedAt: Date.now() } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, () => ({ text }));
       },
 
       /**
@@ -2511,17 +2928,9 @@ export const useProjectStore = create<ProjectState>()(
        * Update text content and style
        */
       updateTextStyle: (clipId: string, style: Partial<TextStyle>) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          console.error("TitleEngine not initialized");
-          return null;
-        }
-
-        const updatedClip = titleEngine.updateStyle(clipId, style);
-        if (updatedClip) {
-          set({ project: { ...get().project, modifiedAt: Date.now() } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, (clip) => ({
+          style: { ...clip.style, ...style },
+        }));
       },
 
       /**
@@ -2529,18 +2938,7 @@ export const useProjectStore = create<ProjectState>()(
        * Apply text animation presets
        */
       updateTextAnimation: (clipId: string, animation: TextAnimation) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          console.error("TitleEngine not initialized");
-          return null;
-        }
-
-        const updatedClip = titleEngine.updateTextClip(clipId, { animation });
-        if (updatedClip) {
-          // Trigger re-render by updating project state
-          set({ project: { ...get().project } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, () => ({ animation }));
       },
 
       /**
@@ -2548,17 +2946,9 @@ export const useProjectStore = create<ProjectState>()(
        * Text Overlay System
        */
       updateTextTransform: (clipId: string, transform: Partial<Transform>) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          console.error("TitleEngine not initialized");
-          return null;
-        }
-
-        const updatedClip = titleEngine.updateTextClip(clipId, { transform });
-        if (updatedClip) {
-          set({ project: { ...get().project, modifiedAt: Date.now() } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, (clip) => ({
+          transform: { ...clip.transform, ...transform },
+        }));
       },
 
       /**
@@ -2587,17 +2977,7 @@ export const useProjectStore = create<ProjectState>()(
        * Update text clip keyframes for entry/exit transitions
        */
       updateTextClipKeyframes: (clipId: string, keyframes: Keyframe[]) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          console.error("TitleEngine not initialized");
-          return null;
-        }
-
-        const updatedClip = titleEngine.updateTextClip(clipId, { keyframes });
-        if (updatedClip) {
-          set({ project: { ...get().project, modifiedAt: Date.now() } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, () => ({ keyframes }));
       },
 
       // Text animation actions
@@ -2613,11 +2993,6 @@ export const useProjectStore = create<ProjectState>()(
         outDuration: number = 0.5,
         params?: Partial<TextAnimationParams>,
       ) => {
-        const titleEngine = useEngineStore.getState().getTitleEngine();
-        if (!titleEngine) {
-          return null;
-        }
-
         const animation = textAnimationEngine.createAnimationPreset(
           preset,
           inDuration,
@@ -2625,13 +3000,7 @@ export const useProjectStore = create<ProjectState>()(
           params,
         );
 
-        const updatedClip = titleEngine.updateTextClip(clipId, { animation });
-
-        if (updatedClip) {
-          const { project } = get();
-          set({ project: { ...project, modifiedAt: Date.now() } });
-        }
-        return updatedClip || null;
+        return updateTextClip(clipId, () => ({ animation }));
       },
 
       /**
@@ -2742,6 +3111,24 @@ export const useProjectStore = create<ProjectState>()(
         );
       },
 
+      deleteTranscriptWords: async (wordIds, trackIds) => {
+        const { project, actionExecutor } = get();
+        const result = await new TranscriptEditEngine(actionExecutor, {
+          trackIds,
+        }).deleteWords(project, wordIds);
+        set({ project: { ...project, modifiedAt: Date.now() } });
+        return result;
+      },
+
+      moveTranscriptWords: async (wordIds, beforeWordId, trackIds) => {
+        const { project, actionExecutor } = get();
+        const result = await new TranscriptEditEngine(actionExecutor, {
+          trackIds,
+        }).moveWords(project, wordIds, beforeWordId);
+        set({ project: { ...project, modifiedAt: Date.now() } });
+        return result;
+      },
+
       importSRT: async (srtContent: string) => {
         const subtitleEngine = await useEngineStore
           .getState()
@@ -2779,6 +3166,77 @@ export const useProjectStore = create<ProjectState>()(
         return subtitleEngine.exportSRT(project.timeline);
       },
 
+      importSubtitles: async (content, format) => {
+        const { project, actionExecutor } = get();
+        const resolvedFormat = format ?? detectSubtitleFormat(content);
+        const parsed = parseSubtitles(content, resolvedFormat);
+        if (!parsed.success) {
+          return {
+            success: false,
+            errors: parsed.errors.map((err) =>
+              err.line > 0 ? `Line ${err.line}: ${err.message}` : err.message,
+            ),
+          };
+        }
+
+        const action: Action = {
+          type: "subtitle/import",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { content, format: resolvedFormat },
+        };
+        const result = await actionExecutor.execute(action, project);
+        if (!result.success) {
+          return {
+            success: false,
+            errors: [result.error?.message ?? "Subtitle import failed"],
+          };
+        }
+        set({ project: { ...project, modifiedAt: Date.now() } });
+        return { success: true, errors: [] };
+      },
+
+      exportSubtitles: (format) => {
+        const { project } = get();
+        return exportSubtitles(project.timeline.subtitles, format, {
+          width: project.settings.width,
+          height: project.settings.height,
+          title: project.name,
+        });
+      },
+
+      importEDL: (edlContent, options) => {
+        const result = importEDL(get().project, edlContent, options);
+        if (result.success) {
+          set({ project: result.project });
+        }
+        return {
+          success: result.success,
+          errors: result.errors,
+          warnings: result.warnings,
+        };
+      },
+
+      exportEDL: (options) => {
+        return exportEDL(get().project, options);
+      },
+
+      importFCPXML: (xmlContent, options) => {
+        const result = importFCPXML(get().project, xmlContent, options);
+        if (result.success) {
+          set({ project: result.project });
+        }
+        return {
+          success: result.success,
+          errors: result.errors,
+          warnings: result.warnings,
+        };
+      },
+
+      exportFCPXML: (options) => {
+        return exportFCPXML(get().project, options);
+      },
+
       applySubtitleStylePreset: async (presetName: string) => {
         const subtitleEngine = await useEngineStore
           .getState()
@@ -2814,50 +3272,59 @@ export const useProjectStore = create<ProjectState>()(
 
       // Marker actions
 
-      addMarker: (time, label = "Marker", color = "#3b82f6") => {
-        const newMarker: import("@openreel/core").Marker = {
-          id: `marker-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
-          time,
-          label,
-          color,
-        };
-        set((state) => ({
-          project: {
-            ...state.project,
-            timeline: {
-              ...state.project.timeline,
-              markers: [...state.project.timeline.markers, newMarker],
+      addMarker: async (time, label = "Marker", color = "#3b82f6") => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "marker/add",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: {
+            marker: {
+              id: `marker-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+              time,
+              label,
+              color,
             },
           },
-        }));
+        };
+
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
       },
 
-      removeMarker: (markerId) => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            timeline: {
-              ...state.project.timeline,
-              markers: state.project.timeline.markers.filter(
-                (m) => m.id !== markerId,
-              ),
-            },
-          },
-        }));
+      removeMarker: async (markerId) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "marker/remove",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { markerId },
+        };
+
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
       },
 
-      updateMarker: (markerId, updates) => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            timeline: {
-              ...state.project.timeline,
-              markers: state.project.timeline.markers.map((m) =>
-                m.id === markerId ? { ...m, ...updates } : m,
-              ),
-            },
-          },
-        }));
+      updateMarker: async (markerId, updates) => {
+        const { project, actionExecutor } = get();
+        const action: Action = {
+          type: "marker/update",
+          id: uuidv4(),
+          timestamp: Date.now(),
+          params: { markerId, updates },
+        };
+
+        const result = await actionExecutor.execute(action, project);
+        if (result.success) {
+          set({ project: { ...project } });
+        }
+        return result;
       },
 
       getMarker: (markerId) => {
@@ -2953,20 +3420,24 @@ export const useProjectStore = create<ProjectState>()(
           return null;
         }
 
-        // Update the shape style in GraphicsEngine's internal state
-        const updatedClip = graphicsEngine.updateShapeStyle(shapeClip, style);
-
-        // Trigger re-render by updating project state reference (doesn't need full project clone)
-        // This notifies Zustand subscribers that state has changed via modifiedAt timestamp change
-        const { project } = get();
-        set({
-          project: {
-            ...project,
-            modifiedAt: Date.now(), // Cheap way to signal change without modifying project content
+        // Fill and stroke are merged so a partial update keeps the other fields
+        updateOverlayClip(
+          { kind: "shape", clip: shapeClip },
+          {
+            style: {
+              ...shapeClip.style,
+              ...style,
+              fill: style.fill
+                ? { ...shapeClip.style.fill, ...style.fill }
+                : shapeClip.style.fill,
+              stroke: style.stroke
+                ? { ...shapeClip.style.stroke, ...style.stroke }
+                : shapeClip.style.stroke,
+            },
           },
-        });
+        );
 
-        return updatedClip;
+        return graphicsEngine.getShapeClip(clipId) ?? null;
       },
 
       updateShapeTransform: (clipId: string, transform: Partial<Transform>) => {
@@ -2976,34 +3447,14 @@ export const useProjectStore = create<ProjectState>()(
           return null;
         }
 
-        const shapeClip = graphicsEngine.getShapeClip(clipId);
-        if (shapeClip) {
-          const updatedClip = graphicsEngine.updateShapeClip(clipId, {
-            transform,
-          });
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
-          return updatedClip || null;
+        const overlay = findOverlayClip(clipId);
+        if (overlay?.kind === "shape") {
+          updateOverlayClip(overlay, { transform });
+          return graphicsEngine.getShapeClip(clipId) ?? null;
         }
-
-        const svgClip = graphicsEngine.getSVGClip(clipId);
-        if (svgClip) {
-          const updatedClip = graphicsEngine.updateSVGClip(clipId, {
-            transform,
-          });
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
-          return updatedClip || null;
+        if (overlay?.kind === "svg") {
+          updateOverlayClip(overlay, { transform });
+          return graphicsEngine.getSVGClip(clipId) ?? null;
         }
 
         console.error(`Graphic clip ${clipId} not found`);
@@ -3104,19 +3555,14 @@ export const useProjectStore = create<ProjectState>()(
           return null;
         }
 
-        const updatedClip = graphicsEngine.updateSVGClip(clipId, updates);
-        if (updatedClip) {
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
-        } else {
+        const svgClip = graphicsEngine.getSVGClip(clipId);
+        if (!svgClip) {
           console.error(`[ProjectStore] Failed to update SVG clip ${clipId}`);
+          return null;
         }
-        return updatedClip || null;
+
+        updateOverlayClip({ kind: "svg", clip: svgClip }, updates);
+        return graphicsEngine.getSVGClip(clipId) ?? null;
       },
 
       createStickerClip: (clip: StickerClip) => {
@@ -3160,17 +3606,11 @@ export const useProjectStore = create<ProjectState>()(
         if (!graphicsEngine) {
           return false;
         }
-        const deleted = graphicsEngine.deleteShapeClip(clipId);
-        if (deleted) {
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
+        if (!graphicsEngine.getShapeClip(clipId)) {
+          return false;
         }
-        return deleted;
+        void executeOverlayAction("graphic/remove", { clipId });
+        return !graphicsEngine.getShapeClip(clipId);
       },
 
       deleteSVGClip: (clipId: string) => {
@@ -3178,17 +3618,11 @@ export const useProjectStore = create<ProjectState>()(
         if (!graphicsEngine) {
           return false;
         }
-        const deleted = graphicsEngine.deleteSVGClip(clipId);
-        if (deleted) {
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
+        if (!graphicsEngine.getSVGClip(clipId)) {
+          return false;
         }
-        return deleted;
+        void executeOverlayAction("graphic/remove", { clipId });
+        return !graphicsEngine.getSVGClip(clipId);
       },
 
       deleteStickerClip: (clipId: string) => {
@@ -3196,17 +3630,11 @@ export const useProjectStore = create<ProjectState>()(
         if (!graphicsEngine) {
           return false;
         }
-        const deleted = graphicsEngine.deleteStickerClip(clipId);
-        if (deleted) {
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
+        if (!graphicsEngine.getStickerClip(clipId)) {
+          return false;
         }
-        return deleted;
+        void executeOverlayAction("graphic/remove", { clipId });
+        return !graphicsEngine.getStickerClip(clipId);
       },
 
       deleteTextClip: (clipId: string) => {
@@ -3214,17 +3642,11 @@ export const useProjectStore = create<ProjectState>()(
         if (!titleEngine) {
           return false;
         }
-        const deleted = titleEngine.deleteTextClip(clipId);
-        if (deleted) {
-          const { project } = get();
-          set({
-            project: {
-              ...project,
-              modifiedAt: Date.now(),
-            },
-          });
+        if (!titleEngine.getTextClip(clipId)) {
+          return false;
         }
-        return deleted;
+        void executeOverlayAction("text/remove", { clipId });
+        return !titleEngine.getTextClip(clipId);
       },
 
       // Photo editing actions
@@ -3683,45 +4105,10 @@ export const useProjectStore = create<ProjectState>()(
           return false;
         }
 
-        // Apply each setting type
-        if (settings.colorWheels) {
-          const result = effectsBridge.applyColorWheels(
-            clipId,
-            settings.colorWheels,
-          );
-          if (!result.success) {
-            console.error("Failed to apply color wheels:", result.error);
-            return false;
-          }
-        }
-
-        if (settings.curves) {
-          const result = effectsBridge.applyCurves(clipId, settings.curves);
-          if (!result.success) {
-            console.error("Failed to apply curves:", result.error);
-            return false;
-          }
-        }
-
-        if (settings.lut) {
-          const result = effectsBridge.applyLUT(clipId, settings.lut);
-          if (!result.success) {
-            console.error("Failed to apply LUT:", result.error);
-            return false;
-          }
-        }
-
-        if (settings.hsl) {
-          const result = effectsBridge.applyHSL(clipId, settings.hsl);
-          if (!result.success) {
-            console.error("Failed to apply HSL:", result.error);
-            return false;
-          }
-        }
-
-        // Trigger re-render by updating project state
-        set({ project: { ...get().project, modifiedAt: Date.now() } });
-        return true;
+        return executeColorGradeAction("colorGrade/update", {
+          clipId,
+          settings,
+        });
       },
 
       /**
@@ -3745,15 +4132,7 @@ export const useProjectStore = create<ProjectState>()(
           return false;
         }
 
-        const result = effectsBridge.resetColorGrading(clipId);
-        if (!result.success) {
-          console.error("Failed to reset color grading:", result.error);
-          return false;
-        }
-
-        // Trigger re-render by updating project state
-        set({ project: { ...get().project, modifiedAt: Date.now() } });
-        return true;
+        return executeColorGradeAction("colorGrade/reset", { clipId });
       },
 
       // Audio effects actions
@@ -65,9 +65,12 @@ export interface UIState {
   shortcuts: KeyboardShortcuts;
   theme: "light" | "dark" | "system";
   showWaveforms: boolean;
+  /** Draws audio clips as spectrograms, for selecting regions to repair */
+  showSpectrograms: boolean;
   showThumbnails: boolean;
   showKeyframes: boolean;
   autoScroll: boolean;
+  detectSceneCutsOnImport: boolean;
   activeModal: string | null;
   modalData: Record<string, unknown> | null;
   contextMenu: {
@@ -109,9 +112,11 @@ export interface UIState {
   resetShortcuts: () => void;
   setTheme: (theme: "light" | "dark" | "system") => void;
   setShowWaveforms: (show: boolean) => void;
+  setShowSpectrograms: (show: boolean) => void;
   setShowThumbnails: (show: boolean) => void;
   setShowKeyframes: (show: boolean) => void;
   setAutoScroll: (enabled: boolean) => void;
+  setDetectSceneCutsOnImport: (enabled: boolean) => void;
   openModal: (modalId: string, data?: Record<string, unknown>) => void;
   closeModal: () => void;
   showContextMenu: (x: number, y: number, items: ContextMenuItem[]) => void;
@@ -199,9 +204,11 @@ export const useUIStore = create<UIState>()(
 
         theme: "dark",
         showWaveforms: true,
+        showSpectrograms: false,
         showThumbnails: true,
         showKeyframes: true,
         autoScroll: true,
+        detectSceneCutsOnImport: false,
 
         activeModal: null,
         modalData: null,
@@ -439,6 +446,10 @@ export const useUIStore = create<UIState>()(
           set({ showWaveforms: show });
         },
 
+        setShowSpectrograms: (show: boolean) => {
+          set({ showSpectrograms: show });
+        },
+
         setShowThumbnails: (show: boolean) => {
           set({ showThumbnails: show });
         },
@@ -451,6 +462,10 @@ export const useUIStore = create<UIState>()(
           set({ autoScroll: enabled });
         },
 
+        setDetectSceneCutsOnImport: (enabled: boolean) => {
+          set({ detectSceneCutsOnImport: enabled });
+        },
+
         openModal: (modalId: string, data?: Record<string, unknown>) => {
           set({
             activeModal: modalId,
@@ -540,9 +555,11 @@ export const useUIStore = create<UIState>()(
           shortcuts: state.shortcuts,
           theme: state.theme,
           showWaveforms: state.showWaveforms,
+          showSpectrograms: state.showSpectrograms,
           showThumbnails: state.showThumbnails,
           showKeyframes: state.showKeyframes,
           autoScroll: state.autoScroll,
+          detectSceneCutsOnImport: state.detectSceneCutsOnImport,
           skipWelcomeScreen: state.skipWelcomeScreen,
           // NOT persisted: selectedItems, isDragging, contextMenu, activeModal, showWelcomeScreen
         }),
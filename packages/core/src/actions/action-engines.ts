@@ -0,0 +1,60 @@
+import type { Mask } from "../video/mask-engine";
+import type { ClipSpeedData } from "../video/speed-engine";
+import type { ColorGradingSettings } from "../video/color-grading-engine";
+import type { MultiCamGroup, AngleSwitch } from "../video/multicam-engine";
+import type {
+  CompoundClip,
+  CompoundClipContent,
+  CompoundClipInstance,
+} from "../timeline/nested-sequence-engine";
+
+export interface MaskStateBinding {
+  getMasksForClip(clipId: string): Mask[];
+  setMasksForClip(clipId: string, masks: Mask[]): void;
+}
+
+export interface SpeedStateBinding {
+  getClipSpeedData(clipId: string): ClipSpeedData | undefined;
+  setClipSpeedData(clipId: string, data: ClipSpeedData | undefined): void;
+}
+
+export interface ColorGradingStateBinding {
+  getColorGrading(clipId: string): ColorGradingSettings;
+  setColorGrading(clipId: string, settings: ColorGradingSettings): void;
+}
+
+export interface MulticamStateBinding {
+  getGroup(groupId: string): MultiCamGroup | undefined;
+  getSwitches(groupId: string): AngleSwitch[];
+  setSwitches(groupId: string, switches: AngleSwitch[]): void;
+  setActiveAngle(groupId: string, angleId: string): boolean;
+}
+
+export interface NestedSequenceStateBinding {
+  addCompoundClip(compound: CompoundClip): void;
+  getCompoundClip(id: string): CompoundClip | undefined;
+  updateCompoundClip(id: string, content: CompoundClipContent): boolean;
+  renameCompoundClip(id: string, name: string): boolean;
+  deleteCompoundClip(id: string): boolean;
+  addInstance(instance: CompoundClipInstance): boolean;
+  getInstance(id: string): CompoundClipInstance | undefined;
+  getInstancesForCompound(compoundClipId: string): CompoundClipInstance[];
+  deleteInstance(id: string): boolean;
+  getAllCompoundClips(): CompoundClip[];
+  getAllInstances(): CompoundClipInstance[];
+  clearAll(): void;
+}
+
+/**
+ * Engines that own clip state outside the Project. Mask, speed ramp, color
+ * grading, multicam and nested sequence actions are validated, applied and
+ * inverted against these; when a binding is missing, actions for that domain
+ * fail validation instead of silently doing nothing.
+ */
+export interface ActionEngines {
+  readonly masks?: MaskStateBinding;
+  readonly speed?: SpeedStateBinding;
+  readonly colorGrading?: ColorGradingStateBinding;
+  readonly multicam?: MulticamStateBinding;
+  readonly nestedSequences?: NestedSequenceStateBinding;
+}
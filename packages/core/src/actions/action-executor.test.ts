@@ -0,0 +1,631 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ActionExecutor } from "./action-executor";
+import { SpeedEngine } from "../video/speed-engine";
+import { MultiCamEngine } from "../video/multicam-engine";
+import { NestedSequenceEngine } from "../timeline/nested-sequence-engine";
+import type { Mask } from "../video/mask-engine";
+import type { ColorGradingSettings } from "../video/color-grading-engine";
+import type {
+  ColorGradingStateBinding,
+  MaskStateBinding,
+} from "./action-engines";
+import type { Action, Project, Clip, Track, MediaItem } from "../types";
+import type { TextClip } from "../text/types";
+import { DEFAULT_TEXT_STYLE, DEFAULT_TEXT_TRANSFORM } from "../text/types";
+
+const createMockClip = (overrides?: Partial<Clip>): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 5,
+  inPoint: 0,
+  outPoint: 5,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createMockTrack = (overrides?: Partial<Track>): Track => ({
+  id: "track-1",
+  type: "video",
+  name: "Video 1",
+  clips: [createMockClip(), createMockClip({ id: "clip-2", startTime: 5 })],
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  ...overrides,
+});
+
+const createMockProject = (): Project => ({
+  id: "project-1",
+  name: "Actions",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: {
+    tracks: [
+      createMockTrack(),
+      createMockTrack({ id: "track-2", type: "text", name: "Text", clips: [] }),
+    ],
+    subtitles: [],
+    duration: 10,
+    markers: [],
+  },
+});
+
+const createAction = (
+  type: string,
+  params: Record<string, unknown>,
+): Action => ({
+  type,
+  id: `action-${type}`,
+  timestamp: 0,
+  params,
+});
+
+const createMaskBinding = (): MaskStateBinding => {
+  const masks = new Map<string, Mask[]>();
+  return {
+    getMasksForClip: (clipId) => masks.get(clipId) ?? [],
+    setMasksForClip: (clipId, list) => {
+      masks.set(clipId, list);
+    },
+  };
+};
+
+const createMask = (id: string): Mask => ({
+  id,
+  clipId: "clip-1",
+  type: "shape",
+  path: {
+    points: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+    ],
+    closed: true,
+  },
+  feathering: 0,
+  inverted: false,
+  expansion: 0,
+  opacity: 1,
+  keyframes: [],
+});
+
+describe("ActionExecutor editing surface", () => {
+  let project: Project;
+
+  beforeEach(() => {
+    project = createMockProject();
+  });
+
+  it("should add, update and undo markers", async () => {
+    const executor = new ActionExecutor();
+    const marker = { id: "marker-1", time: 2, label: "Cut", color: "#fff" };
+
+    expect(
+      (await executor.execute(createAction("marker/add", { marker }), project))
+        .success,
+    ).toBe(true);
+    await executor.execute(
+      createAction("marker/update", {
+        markerId: "marker-1",
+        updates: { label: "Intro" },
+      }),
+      project,
+    );
+    expect(project.timeline.markers[0].label).toBe("Intro");
+
+    await executor.undo(project);
+    expect(project.timeline.markers[0].label).toBe("Cut");
+    await executor.undo(project);
+    expect(project.timeline.markers).toHaveLength(0);
+    await executor.redo(project);
+    expect(project.timeline.markers).toEqual([marker]);
+  });
+
+  it("should route tracks to mixer buses and undo bus removal", async () => {
+    const executor = new ActionExecutor();
+    const bus = {
+      id: "bus-reverb",
+      name: "Reverb",
+      volume: 1,
+      pan: 0,
+      muted: false,
+      effects: [],
+    };
+
+    await executor.execute(createAction("mixer/addBus", { bus }), project);
+    await executor.execute(
+      createAction("mixer/updateTrack", {
+        trackId: "track-1",
+        updates: {
+          outputBusId: "bus-reverb",
+          sends: [{ busId: "bus-reverb", level: 0.5, preFader: true }],
+        },
+      }),
+      project,
+    );
+    expect(project.timeline.audioMix?.tracks["track-1"]).toEqual({
+      volume: 1,
+      pan: 0,
+      outputBusId: "bus-reverb",
+      sends: [{ busId: "bus-reverb", level: 0.5, preFader: true }],
+    });
+
+    await executor.execute(
+      createAction("mixer/removeBus", { busId: "bus-reverb" }),
+      project,
+    );
+    expect(project.timeline.audioMix?.buses).toEqual([]);
+    expect(project.timeline.audioMix?.tracks["track-1"].outputBusId).toBe(
+      undefined,
+    );
+    expect(project.timeline.audioMix?.tracks["track-1"].sends).toEqual([]);
+
+    await executor.undo(project);
+    expect(project.timeline.audioMix?.buses).toEqual([bus]);
+    expect(project.timeline.audioMix?.tracks["track-1"].outputBusId).toBe(
+      "bus-reverb",
+    );
+
+    const invalid = await executor.execute(
+      createAction("mixer/updateTrack", {
+        trackId: "track-1",
+        updates: { sends: [{ busId: "missing", level: 1, preFader: false }] },
+      }),
+      project,
+    );
+    expect(invalid.success).toBe(false);
+  });
+
+  it("should restore removed text clips at their original index", async () => {
+    const executor = new ActionExecutor();
+    const textClip = (id: string): TextClip => ({
+      id,
+      trackId: "track-2",
+      startTime: 0,
+      duration: 3,
+      text: id,
+      style: DEFAULT_TEXT_STYLE,
+      transform: DEFAULT_TEXT_TRANSFORM,
+      keyframes: [],
+    });
+
+    await executor.execute(
+      createAction("text/add", { textClip: textClip("title") }),
+      project,
+    );
+    await executor.execute(
+      createAction("text/add", { textClip: textClip("lower-third") }),
+      project,
+    );
+    await executor.execute(
+      createAction("text/remove", { clipId: "title" }),
+      project,
+    );
+    expect(project.textClips?.map((c) => c.id)).toEqual(["lower-third"]);
+
+    await executor.undo(project);
+    expect(project.textClips?.map((c) => c.id)).toEqual([
+      "title",
+      "lower-third",
+    ]);
+  });
+
+  it("should reject engine actions when no engine is attached", async () => {
+    const executor = new ActionExecutor();
+    const result = await executor.execute(
+      createAction("mask/add", {
+        clipId: "clip-1",
+        mask: createMask("mask-1"),
+      }),
+      project,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Mask engine is not attached");
+  });
+
+  it("should validate and undo mask updates", async () => {
+    const masks = createMaskBinding();
+    const executor = new ActionExecutor(undefined, { masks });
+
+    await executor.execute(
+      createAction("mask/add", {
+        clipId: "clip-1",
+        mask: createMask("mask-1"),
+      }),
+      project,
+    );
+    const invalid = await executor.execute(
+      createAction("mask/update", {
+        clipId: "clip-1",
+        maskId: "mask-1",
+        updates: { feathering: 500 },
+      }),
+      project,
+    );
+    expect(invalid.success).toBe(false);
+
+    await executor.execute(
+      createAction("mask/update", {
+        clipId: "clip-1",
+        maskId: "mask-1",
+        updates: { feathering: 20, inverted: true },
+      }),
+      project,
+    );
+    expect(masks.getMasksForClip("clip-1")[0].feathering).toBe(20);
+    expect(project.timeline.tracks[0].clips[0].masks?.[0].feathering).toBe(20);
+
+    await executor.undo(project);
+    expect(masks.getMasksForClip("clip-1")[0]).toMatchObject({
+      feathering: 0,
+      inverted: false,
+    });
+    expect(project.timeline.tracks[0].clips[0].masks?.[0].feathering).toBe(0);
+  });
+
+  it("should push persisted clip state into engines on restore", async () => {
+    const masks = createMaskBinding();
+    const speed = new SpeedEngine();
+    const executor = new ActionExecutor(undefined, { masks, speed });
+    await executor.execute(
+      createAction("mask/add", {
+        clipId: "clip-1",
+        mask: createMask("mask-1"),
+      }),
+      project,
+    );
+    const snapshot: Project = JSON.parse(JSON.stringify(project));
+
+    await executor.execute(
+      createAction("mask/remove", { clipId: "clip-1", maskId: "mask-1" }),
+      project,
+    );
+    await executor.execute(
+      createAction("speed/setPitchCorrection", {
+        clipId: "clip-2",
+        enabled: false,
+      }),
+      project,
+    );
+    expect(project.timeline.tracks[0].clips[0].masks).toBeUndefined();
+    expect(project.timeline.tracks[0].clips[1].speedData).toBeDefined();
+
+    executor.restoreProject(project, snapshot);
+    expect(masks.getMasksForClip("clip-1").map((m) => m.id)).toEqual([
+      "mask-1",
+    ]);
+    expect(speed.getClipSpeedData("clip-2")).toBeUndefined();
+  });
+
+  it("should restore the previous speed ramp on undo", async () => {
+    const speed = new SpeedEngine();
+    const executor = new ActionExecutor(undefined, { speed });
+
+    await executor.execute(
+      createAction("speed/addKeyframe", {
+        clipId: "clip-1",
+        keyframe: { id: "kf-1", time: 1, speed: 2, easing: "linear" },
+      }),
+      project,
+    );
+    expect(speed.getSpeedKeyframes("clip-1")).toHaveLength(1);
+    expect(speed.getClipSpeedData("clip-1")?.originalDuration).toBe(5);
+    expect(
+      project.timeline.tracks[0].clips[0].speedData?.keyframes,
+    ).toHaveLength(1);
+
+    const outOfRange = await executor.execute(
+      createAction("speed/addKeyframe", {
+        clipId: "clip-1",
+        keyframe: { id: "kf-2", time: 2, speed: 50, easing: "linear" },
+      }),
+      project,
+    );
+    expect(outOfRange.success).toBe(false);
+
+    await executor.undo(project);
+    expect(speed.getClipSpeedData("clip-1")).toBeUndefined();
+    expect(project.timeline.tracks[0].clips[0].speedData).toBeUndefined();
+  });
+
+  it("should switch multicam angles and undo the switch", async () => {
+    const multicam = new MultiCamEngine();
+    const group = multicam.createGroup("Interview", ["clip-1", "clip-2"]);
+    const executor = new ActionExecutor(undefined, { multicam });
+
+    await executor.execute(
+      createAction("multicam/switchAngle", {
+        groupId: group.id,
+        angleId: group.angles[1].id,
+        time: 0,
+      }),
+      project,
+    );
+    expect(multicam.getSwitches(group.id)).toHaveLength(1);
+    expect(project.timeline.multicamGroups?.[0]).toMatchObject({
+      id: group.id,
+      switches: [{ angleId: group.angles[1].id, time: 0 }],
+    });
+
+    await executor.undo(project);
+    expect(multicam.getSwitches(group.id)).toHaveLength(0);
+    expect(project.timeline.multicamGroups?.[0].switches).toEqual([]);
+  });
+
+  it("should reject compound clips that contain themselves", async () => {
+    const nestedSequences = new NestedSequenceEngine();
+    const executor = new ActionExecutor(undefined, { nestedSequences });
+    const track = project.timeline.tracks[0];
+    const compound = nestedSequences.createCompoundClip(track.clips, [track]);
+
+    await executor.execute(
+      createAction("sequence/addInstance", {
+        instance: {
+          id: "instance-1",
+          compoundClipId: compound.id,
+          trackId: "track-1",
+          startTime: 10,
+          duration: compound.content.duration,
+          inPoint: 0,
+          outPoint: compound.content.duration,
+          transform: track.clips[0].transform,
+          volume: 1,
+        },
+      }),
+      project,
+    );
+    expect(nestedSequences.getInstance("instance-1")).toBeDefined();
+
+    const result = await executor.execute(
+      createAction("sequence/update", {
+        compoundClipId: compound.id,
+        content: {
+          ...compound.content,
+          clips: [createMockClip({ id: "instance-1" })],
+        },
+      }),
+      project,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error?.details?.errors).toEqual([
+      expect.objectContaining({ code: "CIRCULAR_REFERENCE" }),
+    ]);
+
+    await executor.undo(project);
+    expect(nestedSequences.getInstance("instance-1")).toBeUndefined();
+  });
+
+  it("should keep color grades and nested sequences in the project", async () => {
+    const grades = new Map<string, ColorGradingSettings>();
+    const colorGrading: ColorGradingStateBinding = {
+      getColorGrading: (clipId) => grades.get(clipId) ?? {},
+      setColorGrading: (clipId, settings) => {
+        grades.set(clipId, settings);
+      },
+    };
+    const nestedSequences = new NestedSequenceEngine();
+    const executor = new ActionExecutor(undefined, {
+      colorGrading,
+      nestedSequences,
+    });
+    const track = project.timeline.tracks[0];
+    const hsl = {
+      hue: [10, 0, 0, 0, 0, 0, 0, 0],
+      saturation: [0, 0, 0, 0, 0, 0, 0, 0],
+      luminance: [0, 0, 0, 0, 0, 0, 0, 0],
+    };
+    const lut = {
+      data: new Uint8Array(8 * 4).fill(128),
+      size: 2,
+      intensity: 1,
+    };
+
+    await executor.execute(
+      createAction("colorGrade/update", {
+        clipId: "clip-1",
+        settings: { hsl, lut },
+      }),
+      project,
+    );
+    await executor.execute(
+      createAction("sequence/create", {
+        compoundClip: {
+          id: "compound-1",
+          name: "Intro",
+          content: { clips: track.clips, tracks: [track], duration: 10 },
+          createdAt: 0,
+          modifiedAt: 0,
+          color: "#8b5cf6",
+        },
+      }),
+      project,
+    );
+    expect(project.timeline.tracks[0].clips[0].colorGrade).toEqual({
+      hsl,
+      lut: { ...lut, data: Array.from(lut.data) },
+    });
+    expect(
+      project.timeline.nestedSequences?.compoundClips.map((c) => c.id),
+    ).toEqual(["compound-1"]);
+    const snapshot: Project = JSON.parse(JSON.stringify(project));
+
+    await executor.execute(
+      createAction("colorGrade/reset", { clipId: "clip-1" }),
+      project,
+    );
+    await executor.execute(
+      createAction("sequence/delete", { compoundClipId: "compound-1" }),
+      project,
+    );
+    expect(project.timeline.nestedSequences).toBeUndefined();
+
+    executor.restoreProject(project, snapshot);
+    expect(grades.get("clip-1")).toEqual({ hsl, lut });
+    expect(grades.get("clip-2")).toEqual({});
+    expect(nestedSequences.getCompoundClip("compound-1")?.name).toBe("Intro");
+  });
+
+  it("should set a media color space and undo it", async () => {
+    const executor = new ActionExecutor();
+    const media = (): MediaItem => project.mediaLibrary.items[0];
+    (project.mediaLibrary as { items: MediaItem[] }).items = [
+      {
+        id: "media-1",
+        name: "A001.mov",
+        type: "video",
+        fileHandle: null,
+        blob: null,
+        metadata: {
+          duration: 5,
+          width: 3840,
+          height: 2160,
+          frameRate: 25,
+          codec: "hevc",
+          sampleRate: 48000,
+          channels: 2,
+          fileSize: 0,
+        },
+        thumbnailUrl: null,
+        waveformData: null,
+      },
+    ];
+
+    const invalid = await executor.execute(
+      createAction("media/setColorSpace", {
+        mediaId: "media-1",
+        colorSpace: "log-c",
+      }),
+      project,
+    );
+    expect(invalid.success).toBe(false);
+
+    await executor.execute(
+      createAction("media/setColorSpace", {
+        mediaId: "media-1",
+        colorSpace: "slog3",
+      }),
+      project,
+    );
+    expect(media().colorSpace).toBe("slog3");
+
+    await executor.undo(project);
+    expect(media().colorSpace).toBeUndefined();
+  });
+
+  it("should replace media markers and undo it", async () => {
+    const executor = new ActionExecutor();
+    const media = (): MediaItem => project.mediaLibrary.items[0];
+    (project.mediaLibrary as { items: MediaItem[] }).items = [
+      {
+        id: "media-1",
+        name: "A001.mov",
+        type: "video",
+        fileHandle: null,
+        blob: null,
+        metadata: {
+          duration: 5,
+          width: 1920,
+          height: 1080,
+          frameRate: 25,
+          codec: "h264",
+          sampleRate: 48000,
+          channels: 2,
+          fileSize: 0,
+        },
+        thumbnailUrl: null,
+        waveformData: null,
+      },
+    ];
+    const markers = [
+      { id: "cut-1", time: 2, label: "Cut 1", kind: "scene-cut" as const },
+    ];
+
+    const invalid = await executor.execute(
+      createAction("media/setMarkers", { mediaId: "media-1", markers: null }),
+      project,
+    );
+    expect(invalid.success).toBe(false);
+
+    await executor.execute(
+      createAction("media/setMarkers", { mediaId: "media-1", markers }),
+      project,
+    );
+    expect(media().markers).toEqual(markers);
+    expect(executor.getHistory().peekUndo()?.description).toBe(
+      "Update media markers",
+    );
+
+    await executor.undo(project);
+    expect(media().markers).toEqual([]);
+  });
+
+  it("should swap a clip onto repaired media and undo the swap", async () => {
+    const executor = new ActionExecutor();
+    const clip = () => project.timeline.tracks[0].clips[0];
+    (project.mediaLibrary as { items: MediaItem[] }).items = [
+      {
+        id: "media-repaired",
+        name: "take (repaired).wav",
+        type: "audio",
+        fileHandle: null,
+        blob: null,
+        metadata: {
+          duration: 5,
+          width: 0,
+          height: 0,
+          frameRate: 0,
+          codec: "pcm",
+          sampleRate: 48000,
+          channels: 2,
+          fileSize: 0,
+        },
+        thumbnailUrl: null,
+        waveformData: null,
+      },
+    ];
+
+    const invalid = await executor.execute(
+      createAction("audio/replaceSource", {
+        clipId: "clip-1",
+        mediaId: "missing",
+      }),
+      project,
+    );
+    expect(invalid.success).toBe(false);
+
+    await executor.execute(
+      createAction("audio/replaceSource", {
+        clipId: "clip-1",
+        mediaId: "media-repaired",
+      }),
+      project,
+    );
+    expect(clip().mediaId).toBe("media-repaired");
+
+    await executor.undo(project);
+    expect(clip().mediaId).toBe("media-1");
+  });
+});
@@ -9,9 +9,19 @@ import type {
   KeyframeAction,
   TransitionAction,
   AudioAction,
+  MixerAction,
   SubtitleAction,
   MediaAction,
   ProjectAction,
+  MaskAction,
+  ColorGradeAction,
+  SpeedAction,
+  TextClipAction,
+  GraphicAction,
+  GraphicClipData,
+  MarkerAction,
+  MulticamAction,
+  NestedSequenceAction,
 } from "../types/actions";
 import type {
   Project,
@@ -24,31 +34,156 @@ import type {
   Subtitle,
   SubtitleStyle,
   MediaItem,
+  MediaMarker,
   TransitionType,
+  Marker,
+  AudioBus,
+  MasterBus,
+  TrackMix,
 } from "../types";
+import type { TextClip } from "../text/types";
+import type { Mask } from "../video/mask-engine";
+import type { InputColorSpace } from "../video/color-management";
+import type {
+  ClipSpeedData,
+  SpeedKeyframe,
+  FreezeFrame,
+} from "../video/speed-engine";
+import {
+  DEFAULT_COLOR_WHEELS,
+  DEFAULT_CURVES,
+  DEFAULT_HSL,
+  fromPersistedColorGrading,
+  toPersistedColorGrading,
+  type ColorGradingSettings,
+} from "../video/color-grading-engine";
+import type {
+  AngleSwitch,
+  MultiCamGroupState,
+} from "../video/multicam-engine";
+import { DEFAULT_AUDIO_MIX, getTrackMix } from "../audio/audio-mix";
+import {
+  rippleDeleteSubtitleRange,
+  moveSubtitleRange,
+} from "../text/subtitle-engine";
+import {
+  parseSubtitles,
+  type SubtitleFormat,
+} from "../text/subtitle-formats";
+import type {
+  CompoundClip,
+  CompoundClipContent,
+  CompoundClipInstance,
+} from "../timeline/nested-sequence-engine";
 import type {
   MutableTimeline,
   MutableTrack,
   MutableClip,
 } from "../utils/immutable-updates";
+import { getProjectClips, withClipState } from "../storage/engine-state";
 import { ActionValidator } from "./action-validator";
 import { ActionHistory } from "./action-history";
 import { InverseActionGenerator } from "./inverse-action-generator";
+import type { ActionEngines } from "./action-engines";
+
+// Actions that create an entity, keyed to the lastAddedIds domain they set.
+// The generated id is written back into the recorded action so that redo,
+// jumps through the undo tree and replays recreate the same entity.
+const CREATED_ID_DOMAINS: Record<string, string> = {
+  "track/add": "track",
+  "clip/add": "clip",
+  "clip/split": "clip",
+  "effect/add": "effect",
+  "keyframe/add": "keyframe",
+  "transition/add": "transition",
+  "subtitle/add": "subtitle",
+  "multicam/switchAngle": "multicam",
+};
+
+export interface ExecuteOptions {
+  /**
+   * Record the action in the undo history and report it to subscribers.
+   * Disable for actions that originate elsewhere, such as a collaborator.
+   */
+  readonly recordHistory?: boolean;
+  /**
+   * Validate before applying (default true). Inverse actions are applied
+   * without validation, as undo does.
+   */
+  readonly validate?: boolean;
+}
+
+export type ActionExecutorEvent =
+  | {
+      readonly type: "applied";
+      readonly action: Action;
+      readonly inverseAction: Action | null;
+      readonly source: "execute" | "undo" | "redo" | "jump";
+    }
+  | {
+      readonly type: "restored";
+      readonly project: Project;
+      readonly previous: Project;
+    };
+
+const GRAPHIC_COLLECTION_KEYS = [
+  "shapeClips",
+  "svgClips",
+  "stickerClips",
+] as const;
+
+type GraphicCollectionKey = (typeof GRAPHIC_COLLECTION_KEYS)[number];
+
+/** Writable view of the project's top-level collections. */
+type MutableProject = { -readonly [K in keyof Project]: Project[K] };
+
+/** The graphic collections, each typed as holding any graphic clip. */
+type GraphicCollections = {
+  [K in GraphicCollectionKey]?: GraphicClipData[];
+};
 
 export class ActionExecutor {
   private validator: ActionValidator;
   private history: ActionHistory;
   private inverseGenerator: InverseActionGenerator;
+  private engines: ActionEngines;
   private lastAddedIds: Map<string, string> = new Map();
+  private listeners: Set<(event: ActionExecutorEvent) => void> = new Set();
 
-  constructor(history?: ActionHistory) {
-    this.validator = new ActionValidator();
+  constructor(history?: ActionHistory, engines: ActionEngines = {}) {
+    this.engines = engines;
+    this.validator = new ActionValidator(engines);
     this.history = history || new ActionHistory();
-    this.inverseGenerator = new InverseActionGenerator();
+    this.inverseGenerator = new InverseActionGenerator(engines);
   }
 
-  async execute(action: Action, project: Project): Promise<ActionResult> {
-    const validationResult = this.validator.validate(action, project);
+  /**
+   * Listen for actions applied locally through execute, undo, redo and
+   * jumpTo, each with the inverse that reverts it. A jump that restores a
+   * checkpoint is reported as "restored" instead.
+   */
+  subscribe(listener: (event: ActionExecutorEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(event: ActionExecutorEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  setRejectOverlaps(enabled: boolean): void {
+    this.validator.setRejectOverlaps(enabled);
+  }
+
+  async execute(
+    action: Action,
+    project: Project,
+    options: ExecuteOptions = {},
+  ): Promise<ActionResult> {
+    const validationResult =
+      options.validate === false
+        ? { valid: true, errors: [] }
+        : this.validator.validate(action, project);
 
     if (!validationResult.valid) {
       return {
@@ -65,9 +200,36 @@ export class ActionExecutor {
       action,
       projectSnapshot,
     );
+    const createdDomain = CREATED_ID_DOMAINS[action.type];
+    if (createdDomain) {
+      this.lastAddedIds.delete(createdDomain);
+    }
     try {
       await this.applyAction(action as TimelineAction, project);
-      this.history.push(action, inverseAction);
+      if (options.recordHistory === false) {
+        return { success: true, actionId: action.id };
+      }
+
+      const createdId = createdDomain
+        ? this.lastAddedIds.get(createdDomain)
+        : undefined;
+      const recordedAction = createdId
+        ? { ...action, params: { ...action.params, id: createdId } }
+        : action;
+      const recordedInverse =
+        createdId && inverseAction
+          ? this.resolveSpecialMarkers(inverseAction)
+          : inverseAction;
+      this.history.push(recordedAction, recordedInverse);
+      if (this.history.needsCheckpoint()) {
+        this.history.addCheckpoint(project);
+      }
+      this.notify({
+        type: "applied",
+        action: recordedAction,
+        inverseAction: recordedInverse,
+        source: "execute",
+      });
 
       return {
         success: true,
@@ -127,7 +289,7 @@ export class ActionExecutor {
     try {
       for (const inverseAction of inverseActions) {
         const resolvedAction = this.resolveSpecialMarkers(inverseAction);
-        await this.applyAction(resolvedAction as TimelineAction, project);
+        await this.applyAndNotify(resolvedAction, project, "undo");
       }
       return { success: true, actionId: inverseActions[0].id };
     } catch (error) {
@@ -165,7 +327,7 @@ export class ActionExecutor {
 
     try {
       for (const action of actions) {
-        await this.applyAction(action as TimelineAction, project);
+        await this.applyAndNotify(action, project, "redo");
       }
       return { success: true, actionId: actions[0].id };
     } catch (error) {
@@ -179,10 +341,150 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * Moves the project to any node of the undo tree, including branches that
+   * were undone and then edited over. Pass null (or the base node id) to go
+   * back to the oldest reachable state.
+   */
+  async jumpTo(
+    nodeId: string | null,
+    project: Project,
+  ): Promise<ActionResult> {
+    const plan = this.history.jumpTo(nodeId);
+    if (!plan) {
+      return {
+        success: false,
+        error: {
+          code: "INVALID_PARAMS",
+          message: "History entry is not reachable",
+        },
+      };
+    }
+
+    try {
+      if (plan.checkpoint) {
+        const previous = JSON.parse(JSON.stringify(project));
+        this.restoreProject(project, plan.checkpoint.project);
+        this.notify({ type: "restored", project, previous });
+      }
+      for (const inverseAction of plan.inverseActions) {
+        const resolvedAction = this.resolveSpecialMarkers(inverseAction);
+        await this.applyAndNotify(resolvedAction, project, "jump");
+      }
+      for (const action of plan.actions) {
+        await this.applyAndNotify(action, project, "jump");
+      }
+      return { success: true, actionId: nodeId ?? undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: "INVALID_PARAMS",
+          message: error instanceof Error ? error.message : "Jump failed",
+        },
+      };
+    }
+  }
+
+  /**
+   * Inverse of an action against the current state of project. Actions that
+   * carry the id of the entity they create get that id in place of the
+   * created-entity marker.
+   */
+  generateInverse(action: Action, project: Project): Action | null {
+    const inverseAction = this.inverseGenerator.generate(
+      action,
+      JSON.parse(JSON.stringify(project)),
+    );
+    const createdId = (action.params as { id?: unknown }).id;
+    if (
+      !inverseAction ||
+      !CREATED_ID_DOMAINS[action.type] ||
+      typeof createdId !== "string"
+    ) {
+      return inverseAction;
+    }
+
+    const params = { ...inverseAction.params } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(params)) {
+      if (value === "__LAST_ADDED__") {
+        params[key] = createdId;
+      }
+    }
+    return { ...inverseAction, params };
+  }
+
+  /**
+   * Replaces the contents of project in place with a JSON copy of another
+   * state (a checkpoint or a collaborator's project). Media items keep their
+   * live blobs and thumbnails when they still exist in the current project.
+   */
+  restoreProject(project: Project, snapshot: Project): void {
+    const restored = structuredClone(snapshot);
+    for (const key of Object.keys(project)) {
+      if (!(key in restored)) {
+        delete (project as unknown as Record<string, unknown>)[key];
+      }
+    }
+    const liveItems = new Map(
+      project.mediaLibrary.items.map((item) => [item.id, item]),
+    );
+    Object.assign(project, restored, {
+      mediaLibrary: {
+        ...restored.mediaLibrary,
+        items: restored.mediaLibrary.items.map(
+          (item) => liveItems.get(item.id) ?? item,
+        ),
+      },
+    });
+
+    for (const clip of getProjectClips(project)) {
+      this.hydrateClipState(clip);
+    }
+    const { multicam, nestedSequences } = this.engines;
+    for (const group of project.timeline.multicamGroups ?? []) {
+      if (multicam?.getGroup(group.id)) {
+        multicam.setSwitches(group.id, group.switches);
+        multicam.setActiveAngle(group.id, group.activeAngleId);
+      }
+    }
+    if (nestedSequences) {
+      nestedSequences.clearAll();
+      const state = project.timeline.nestedSequences;
+      for (const compound of state?.compoundClips ?? []) {
+        nestedSequences.addCompoundClip(structuredClone(compound));
+      }
+      for (const instance of state?.instances ?? []) {
+        nestedSequences.addInstance(structuredClone(instance));
+      }
+    }
+  }
+
   getHistory(): ActionHistory {
     return this.history;
   }
 
+  private async applyAndNotify(
+    action: Action,
+    project: Project,
+    source: "undo" | "redo" | "jump",
+  ): Promise<void> {
+    const inverseAction =
+      this.listeners.size > 0
+        ? this.inverseGenerator.generate(
+            action,
+            JSON.parse(JSON.stringify(project)),
+          )
+        : null;
+    await this.applyAction(action as TimelineAction, project);
+    this.notify({
+      type: "applied",
+      action,
+      inverseAction: inverseAction && this.resolveSpecialMarkers(inverseAction),
+      source,
+    });
+  }
+
   private resolveSpecialMarkers(action: Action): Action {
     const params = { ...action.params } as Record<string, unknown>;
 
@@ -224,6 +526,24 @@ export class ActionExecutor {
       this.applyAudioAction(action as AudioAction, project);
     } else if (type.startsWith("subtitle/")) {
       this.applySubtitleAction(action as SubtitleAction, project);
+    } else if (type.startsWith("mask/")) {
+      this.applyMaskAction(action as MaskAction, project);
+    } else if (type.startsWith("colorGrade/")) {
+      this.applyColorGradeAction(action as ColorGradeAction, project);
+    } else if (type.startsWith("speed/")) {
+      this.applySpeedAction(action as SpeedAction, project);
+    } else if (type.startsWith("text/")) {
+      this.applyTextClipAction(action as TextClipAction, project);
+    } else if (type.startsWith("graphic/")) {
+      this.applyGraphicAction(action as GraphicAction, project);
+    } else if (type.startsWith("marker/")) {
+      this.applyMarkerAction(action as MarkerAction, project);
+    } else if (type.startsWith("mixer/")) {
+      this.applyMixerAction(action as MixerAction, project);
+    } else if (type.startsWith("multicam/")) {
+      this.applyMulticamAction(action as MulticamAction, project);
+    } else if (type.startsWith("sequence/")) {
+      this.applyNestedSequenceAction(action as NestedSequenceAction, project);
     }
   }
 
@@ -299,6 +619,32 @@ export class ActionExecutor {
         break;
       }
 
+      case "media/setColorSpace": {
+        const params = action.params as {
+          mediaId: string;
+          colorSpace?: InputColorSpace;
+        };
+        mediaLibrary.items = mediaLibrary.items.map((item: MediaItem) =>
+          item.id === params.mediaId
+            ? { ...item, colorSpace: params.colorSpace }
+            : item,
+        );
+        break;
+      }
+
+      case "media/setMarkers": {
+        const params = action.params as {
+          mediaId: string;
+          markers: MediaMarker[];
+        };
+        mediaLibrary.items = mediaLibrary.items.map((item: MediaItem) =>
+          item.id === params.mediaId
+            ? { ...item, markers: params.markers }
+            : item,
+        );
+        break;
+      }
+
       case "media/restore": {
         const params = action.params as { mediaItem: MediaItem };
         mediaLibrary.items = [...mediaLibrary.items, params.mediaItem];
@@ -325,6 +671,7 @@ export class ActionExecutor {
         const params = action.params as {
           trackType: string;
           position?: number;
+          id?: string;
         };
         const trackNames: Record<string, string> = {
           video: "Video",
@@ -338,7 +685,7 @@ export class ActionExecutor {
             (t: MutableTrack) => t.type === params.trackType,
           ).length + 1;
         const newTrack: MutableTrack = {
-          id: `track-${Date.now()}`,
+          id: params.id ?? `track-${Date.now()}`,
           type: params.trackType as Track["type"],
           name: `${trackNames[params.trackType] || params.trackType} ${trackCount}`,
           clips: [],
@@ -443,6 +790,7 @@ export class ActionExecutor {
           mediaId: string;
           startTime: number;
           duration?: number;
+          id?: string;
         };
         const track = timeline.tracks.find(
           (t: MutableTrack) => t.id === params.trackId,
@@ -459,7 +807,7 @@ export class ActionExecutor {
               ? mediaItem.metadata.duration
               : 5);
           const newClip = {
-            id: `clip-${Date.now()}`,
+            id: params.id ?? `clip-${Date.now()}`,
             mediaId: params.mediaId,
             trackId: params.trackId,
             startTime: params.startTime,
@@ -500,6 +848,7 @@ export class ActionExecutor {
             ? { ...track, clips: [...track.clips, params.clip] }
             : track,
         );
+        this.hydrateClipState(params.clip);
         break;
       }
 
@@ -565,7 +914,11 @@ export class ActionExecutor {
       }
 
       case "clip/split": {
-        const params = action.params as { clipId: string; time: number };
+        const params = action.params as {
+          clipId: string;
+          time: number;
+          id?: string;
+        };
         const clip = this.findClip(timeline, params.clipId);
         if (clip) {
           const splitTime = params.time;
@@ -577,13 +930,25 @@ export class ActionExecutor {
             outPoint: clip.inPoint + splitOffset,
           };
 
-          const clip2 = {
-            ...clip,
-            id: `clip-${Date.now()}`,
-            startTime: splitTime,
-            duration: clip.duration - splitOffset,
-            inPoint: clip.inPoint + splitOffset,
-          };
+          const clip2Id = params.id ?? `clip-${Date.now()}`;
+          // The new half keeps its masks under fresh ids; speed ramps are
+          // timed against the original clip, so they stay with the first half
+          const clip2 = withClipState(
+            {
+              ...clip,
+              id: clip2Id,
+              startTime: splitTime,
+              duration: clip.duration - splitOffset,
+              inPoint: clip.inPoint + splitOffset,
+              masks: clip.masks?.map((mask) => ({
+                ...mask,
+                id: `${mask.id}_${clip2Id}`,
+                clipId: clip2Id,
+              })),
+            },
+            "speedData",
+            undefined,
+          );
 
           timeline.tracks = timeline.tracks.map((track: MutableTrack) => ({
             ...track,
@@ -592,6 +957,7 @@ export class ActionExecutor {
             ),
           }));
 
+          this.hydrateClipState(clip2);
           this.lastAddedIds.set("clip", clip2.id);
         }
         break;
@@ -618,6 +984,7 @@ export class ActionExecutor {
           }
           return track;
         });
+        this.hydrateClipState(params.originalClip);
         break;
       }
 
@@ -666,6 +1033,7 @@ export class ActionExecutor {
           }
           return track;
         });
+        this.hydrateClipState(params.clip);
         break;
       }
 
@@ -800,9 +1168,10 @@ export class ActionExecutor {
           clipId: string;
           effectType: string;
           params?: Record<string, unknown>;
+          id?: string;
         };
         const newEffect = {
-          id: `effect-${Date.now()}`,
+          id: params.id ?? `effect-${Date.now()}`,
           type: params.effectType,
           params: params.params || {},
           enabled: true,
@@ -942,9 +1311,10 @@ export class ActionExecutor {
           time: number;
           property: string;
           value: unknown;
+          id?: string;
         };
         const newKeyframe = {
-          id: `keyframe-${Date.now()}`,
+          id: params.id ?? `keyframe-${Date.now()}`,
           time: params.time,
           property: params.property,
           value: params.value,
@@ -1040,6 +1410,7 @@ export class ActionExecutor {
           clipBId: string;
           transitionType: TransitionType;
           duration: number;
+          id?: string;
         };
         const clipA = this.findClip(timeline, params.clipAId);
         if (clipA) {
@@ -1048,7 +1419,7 @@ export class ActionExecutor {
           );
           if (track) {
             const newTransition: Transition = {
-              id: `transition-${Date.now()}`,
+              id: params.id ?? `transition-${Date.now()}`,
               clipAId: params.clipAId,
               clipBId: params.clipBId,
               type: params.transitionType,
@@ -1189,6 +1560,19 @@ export class ActionExecutor {
         }));
         break;
       }
+
+      case "audio/replaceSource": {
+        const params = action.params as { clipId: string; mediaId: string };
+        timeline.tracks = timeline.tracks.map((track: MutableTrack) => ({
+          ...track,
+          clips: track.clips.map((clip: MutableClip) =>
+            clip.id === params.clipId
+              ? { ...clip, mediaId: params.mediaId }
+              : clip,
+          ),
+        }));
+        break;
+      }
     }
   }
 
@@ -1204,9 +1588,10 @@ export class ActionExecutor {
           text: string;
           startTime: number;
           endTime: number;
+          id?: string;
         };
         const newSubtitle = {
-          id: `subtitle-${Date.now()}`,
+          id: params.id ?? `subtitle-${Date.now()}`,
           text: params.text,
           startTime: params.startTime,
           endTime: params.endTime,
@@ -1269,14 +1654,50 @@ export class ActionExecutor {
         break;
       }
 
+      case "subtitle/rippleDelete": {
+        const params = action.params as { startTime: number; endTime: number };
+        timeline.subtitles = rippleDeleteSubtitleRange(
+          timeline.subtitles || [],
+          params.startTime,
+          params.endTime,
+        );
+        break;
+      }
+
+      case "subtitle/moveRange": {
+        const params = action.params as {
+          startTime: number;
+          endTime: number;
+          toTime: number;
+        };
+        timeline.subtitles = moveSubtitleRange(
+          timeline.subtitles || [],
+          params.startTime,
+          params.endTime,
+          params.toTime,
+        );
+        break;
+      }
+
       case "subtitle/import": {
-        const params = action.params as { srtContent: string };
+        const params = action.params as {
+          srtContent?: string;
+          content?: string;
+          format?: SubtitleFormat;
+        };
+        if (params.content !== undefined) {
+          const { subtitles } = parseSubtitles(params.content, params.format);
+          timeline.subtitles = [...(timeline.subtitles || []), ...subtitles];
+          break;
+        }
+
+        const srtContent = params.srtContent ?? "";
         const srtRegex =
           /(\d+)\n(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})\n([\s\S]*?)(?=\n\n|\n*$)/g;
         let match;
         const newSubtitles = [];
 
-        while ((match = srtRegex.exec(params.srtContent)) !== null) {
+        while ((match = srtRegex.exec(srtContent)) !== null) {
           const startTime = this.parseSrtTime(match[2]);
           const endTime = this.parseSrtTime(match[3]);
           const text = match[4].trim();
@@ -1297,12 +1718,640 @@ export class ActionExecutor {
     }
   }
 
+  private applyMaskAction(
+    action: MaskAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const masks = this.requireEngine(this.engines.masks, "Mask");
+    const { clipId } = action.params as { clipId: string };
+    const current = masks.getMasksForClip(clipId);
+
+    switch (action.type) {
+      case "mask/add": {
+        const params = action.params as { mask: Mask };
+        masks.setMasksForClip(clipId, [...current, { ...params.mask, clipId }]);
+        break;
+      }
+
+      case "mask/remove": {
+        const params = action.params as { maskId: string };
+        masks.setMasksForClip(
+          clipId,
+          current.filter((m) => m.id !== params.maskId),
+        );
+        break;
+      }
+
+      case "mask/restore": {
+        const params = action.params as { mask: Mask; index: number };
+        const restored = [...current];
+        restored.splice(params.index, 0, { ...params.mask, clipId });
+        masks.setMasksForClip(clipId, restored);
+        break;
+      }
+
+      case "mask/update": {
+        const params = action.params as {
+          maskId: string;
+          updates: Partial<Mask>;
+        };
+        masks.setMasksForClip(
+          clipId,
+          current.map((m) =>
+            m.id === params.maskId
+              ? { ...m, ...params.updates, id: m.id, clipId }
+              : m,
+          ),
+        );
+        break;
+      }
+    }
+
+    this.persistClipState(
+      project,
+      clipId,
+      "masks",
+      masks.getMasksForClip(clipId),
+    );
+  }
+
+  private applyColorGradeAction(
+    action:
+      | ColorGradeAction
+      | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const colorGrading = this.requireEngine(
+      this.engines.colorGrading,
+      "Color grading",
+    );
+    const { clipId } = action.params as { clipId: string };
+
+    switch (action.type) {
+      case "colorGrade/update": {
+        const params = action.params as { settings: ColorGradingSettings };
+        colorGrading.setColorGrading(clipId, {
+          ...colorGrading.getColorGrading(clipId),
+          ...params.settings,
+        });
+        break;
+      }
+
+      case "colorGrade/reset":
+        colorGrading.setColorGrading(clipId, {
+          colorWheels: structuredClone(DEFAULT_COLOR_WHEELS),
+          curves: structuredClone(DEFAULT_CURVES),
+          hsl: structuredClone(DEFAULT_HSL),
+        });
+        break;
+
+      case "colorGrade/restore": {
+        const params = action.params as { settings: ColorGradingSettings };
+        colorGrading.setColorGrading(clipId, params.settings);
+        break;
+      }
+    }
+
+    const settings = colorGrading.getColorGrading(clipId);
+    this.persistClipState(
+      project,
+      clipId,
+      "colorGrade",
+      Object.keys(settings).length > 0
+        ? toPersistedColorGrading(settings)
+        : undefined,
+    );
+  }
+
+  private applySpeedAction(
+    action: SpeedAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const speed = this.requireEngine(this.engines.speed, "Speed");
+    const { clipId } = action.params as { clipId: string };
+
+    if (action.type === "speed/restore") {
+      const params = action.params as { data: ClipSpeedData | null };
+      speed.setClipSpeedData(clipId, params.data ?? undefined);
+      this.persistClipState(
+        project,
+        clipId,
+        "speedData",
+        params.data ?? undefined,
+      );
+      return;
+    }
+
+    const existing = speed.getClipSpeedData(clipId);
+    const clip = this.findClip(project.timeline as MutableTimeline, clipId);
+    const data: ClipSpeedData = existing
+      ? {
+          ...existing,
+          keyframes: [...existing.keyframes],
+          freezeFrames: [...existing.freezeFrames],
+        }
+      : {
+          clipId,
+          baseSpeed: clip?.speed ?? 1,
+          reverse: clip?.reversed ?? false,
+          keyframes: [],
+          pitchCorrection: true,
+          freezeFrames: [],
+          originalDuration: clip ? clip.outPoint - clip.inPoint : 0,
+        };
+
+    switch (action.type) {
+      case "speed/addKeyframe": {
+        const params = action.params as { keyframe: SpeedKeyframe };
+        data.keyframes = [...data.keyframes, { ...params.keyframe }].sort(
+          (a, b) => a.time - b.time,
+        );
+        break;
+      }
+
+      case "speed/removeKeyframe": {
+        const params = action.params as { keyframeId: string };
+        data.keyframes = data.keyframes.filter(
+          (k) => k.id !== params.keyframeId,
+        );
+        break;
+      }
+
+      case "speed/updateKeyframe": {
+        const params = action.params as {
+          keyframeId: string;
+          updates: Partial<SpeedKeyframe>;
+        };
+        data.keyframes = data.keyframes
+          .map((k) =>
+            k.id === params.keyframeId
+              ? { ...k, ...params.updates, id: k.id }
+              : k,
+          )
+          .sort((a, b) => a.time - b.time);
+        break;
+      }
+
+      case "speed/addFreezeFrame": {
+        const params = action.params as { freezeFrame: FreezeFrame };
+        data.freezeFrames = [
+          ...data.freezeFrames,
+          { ...params.freezeFrame, clipId },
+        ].sort((a, b) => a.startTime - b.startTime);
+        break;
+      }
+
+      case "speed/removeFreezeFrame": {
+        const params = action.params as { freezeFrameId: string };
+        data.freezeFrames = data.freezeFrames.filter(
+          (f) => f.id !== params.freezeFrameId,
+        );
+        break;
+      }
+
+      case "speed/setPitchCorrection": {
+        const params = action.params as { enabled: boolean };
+        data.pitchCorrection = params.enabled;
+        break;
+      }
+    }
+
+    speed.setClipSpeedData(clipId, data);
+    this.persistClipState(project, clipId, "speedData", data);
+  }
+
+  private applyTextClipAction(
+    action: TextClipAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const mutableProject = project as MutableProject;
+    const textClips: TextClip[] = project.textClips ?? [];
+
+    switch (action.type) {
+      case "text/add": {
+        const params = action.params as { textClip: TextClip };
+        mutableProject.textClips = [...textClips, params.textClip];
+        break;
+      }
+
+      case "text/remove": {
+        const params = action.params as { clipId: string };
+        mutableProject.textClips = textClips.filter(
+          (c) => c.id !== params.clipId,
+        );
+        break;
+      }
+
+      case "text/restore": {
+        const params = action.params as { textClip: TextClip; index: number };
+        const restored = [...textClips];
+        restored.splice(params.index, 0, params.textClip);
+        mutableProject.textClips = restored;
+        break;
+      }
+
+      case "text/update": {
+        const params = action.params as {
+          clipId: string;
+          updates: Partial<TextClip>;
+        };
+        mutableProject.textClips = textClips.map((c) =>
+          c.id === params.clipId ? { ...c, ...params.updates, id: c.id } : c,
+        );
+        break;
+      }
+    }
+  }
+
+  private applyGraphicAction(
+    action: GraphicAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const graphics = project as GraphicCollections;
+
+    switch (action.type) {
+      case "graphic/add": {
+        const params = action.params as { graphic: GraphicClipData };
+        const key = this.getGraphicCollectionKey(params.graphic);
+        graphics[key] = [...(graphics[key] ?? []), params.graphic];
+        break;
+      }
+
+      case "graphic/restore": {
+        const params = action.params as {
+          graphic: GraphicClipData;
+          index: number;
+        };
+        const key = this.getGraphicCollectionKey(params.graphic);
+        const restored = [...(graphics[key] ?? [])];
+        restored.splice(params.index, 0, params.graphic);
+        graphics[key] = restored;
+        break;
+      }
+
+      case "graphic/remove":
+      case "graphic/update": {
+        const params = action.params as {
+          clipId: string;
+          updates?: Partial<GraphicClipData>;
+        };
+        for (const key of GRAPHIC_COLLECTION_KEYS) {
+          const collection = graphics[key];
+          if (!collection?.some((c) => c.id === params.clipId)) continue;
+
+          graphics[key] =
+            action.type === "graphic/remove"
+              ? collection.filter((c) => c.id !== params.clipId)
+              : collection.map((c) =>
+                  // The clip keeps its id and type, so it stays the same kind
+                  c.id === params.clipId
+                    ? ({
+                        ...c,
+                        ...params.updates,
+                        id: c.id,
+                        type: c.type,
+                      } as GraphicClipData)
+                    : c,
+                );
+        }
+        break;
+      }
+    }
+  }
+
+  private getGraphicCollectionKey(
+    graphic: GraphicClipData,
+  ): GraphicCollectionKey {
+    switch (graphic.type) {
+      case "shape":
+        return "shapeClips";
+      case "svg":
+        return "svgClips";
+      default:
+        return "stickerClips";
+    }
+  }
+
+  private applyMarkerAction(
+    action: MarkerAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const timeline = project.timeline as MutableTimeline;
+    const markers: Marker[] = timeline.markers ?? [];
+
+    switch (action.type) {
+      case "marker/add": {
+        const params = action.params as { marker: Marker };
+        timeline.markers = [...markers, { ...params.marker }];
+        break;
+      }
+
+      case "marker/remove": {
+        const params = action.params as { markerId: string };
+        timeline.markers = markers.filter((m) => m.id !== params.markerId);
+        break;
+      }
+
+      case "marker/restore": {
+        const params = action.params as { marker: Marker; index: number };
+        const restored = [...markers];
+        restored.splice(params.index, 0, params.marker);
+        timeline.markers = restored;
+        break;
+      }
+
+      case "marker/update": {
+        const params = action.params as {
+          markerId: string;
+          updates: Partial<Marker>;
+        };
+        timeline.markers = markers.map((m) =>
+          m.id === params.markerId ? { ...m, ...params.updates, id: m.id } : m,
+        );
+        break;
+      }
+    }
+  }
+
+  private applyMixerAction(
+    action: MixerAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const timeline = project.timeline as MutableTimeline;
+    const mix = timeline.audioMix ?? DEFAULT_AUDIO_MIX;
+
+    switch (action.type) {
+      case "mixer/addBus": {
+        const params = action.params as { bus: AudioBus };
+        timeline.audioMix = {
+          ...mix,
+          buses: [...mix.buses, { ...params.bus }],
+        };
+        break;
+      }
+
+      case "mixer/removeBus": {
+        // Tracks routed to the bus fall back to the master
+        const params = action.params as { busId: string };
+        const tracks: Record<string, TrackMix> = {};
+        for (const [trackId, trackMix] of Object.entries(mix.tracks)) {
+          tracks[trackId] = {
+            ...trackMix,
+            outputBusId:
+              trackMix.outputBusId === params.busId
+                ? undefined
+                : trackMix.outputBusId,
+            sends: trackMix.sends.filter((s) => s.busId !== params.busId),
+          };
+        }
+        timeline.audioMix = {
+          ...mix,
+          buses: mix.buses.filter((b) => b.id !== params.busId),
+          tracks,
+        };
+        break;
+      }
+
+      case "mixer/restoreBus": {
+        const params = action.params as {
+          bus: AudioBus;
+          index: number;
+          tracks: Record<string, TrackMix>;
+        };
+        const buses = [...mix.buses];
+        buses.splice(params.index, 0, params.bus);
+        timeline.audioMix = {
+          ...mix,
+          buses,
+          tracks: { ...mix.tracks, ...params.tracks },
+        };
+        break;
+      }
+
+      case "mixer/updateBus": {
+        const params = action.params as {
+          busId: string;
+          updates: Partial<AudioBus>;
+        };
+        timeline.audioMix = {
+          ...mix,
+          buses: mix.buses.map((b) =>
+            b.id === params.busId ? { ...b, ...params.updates, id: b.id } : b,
+          ),
+        };
+        break;
+      }
+
+      case "mixer/updateTrack": {
+        const params = action.params as {
+          trackId: string;
+          updates: Partial<TrackMix>;
+        };
+        timeline.audioMix = {
+          ...mix,
+          tracks: {
+            ...mix.tracks,
+            [params.trackId]: {
+              ...getTrackMix(mix, params.trackId),
+              ...params.updates,
+            },
+          },
+        };
+        break;
+      }
+
+      case "mixer/updateMaster": {
+        const params = action.params as { updates: Partial<MasterBus> };
+        timeline.audioMix = {
+          ...mix,
+          master: { ...mix.master, ...params.updates },
+        };
+        break;
+      }
+    }
+  }
+
+  private applyMulticamAction(
+    action: MulticamAction | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const multicam = this.requireEngine(this.engines.multicam, "Multicam");
+    const { groupId } = action.params as { groupId: string };
+
+    switch (action.type) {
+      case "multicam/switchAngle": {
+        const params = action.params as {
+          angleId: string;
+          time: number;
+          id?: string;
+        };
+        const switchItem: AngleSwitch = {
+          id:
+            params.id ??
+            `switch_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+          groupId,
+          angleId: params.angleId,
+          time: params.time,
+        };
+        multicam.setSwitches(groupId, [
+          ...multicam.getSwitches(groupId),
+          switchItem,
+        ]);
+        this.lastAddedIds.set("multicam", switchItem.id);
+        break;
+      }
+
+      case "multicam/removeSwitch": {
+        const params = action.params as { switchId: string };
+        multicam.setSwitches(
+          groupId,
+          multicam.getSwitches(groupId).filter((s) => s.id !== params.switchId),
+        );
+        break;
+      }
+
+      case "multicam/restoreSwitches": {
+        const params = action.params as { switches: AngleSwitch[] };
+        multicam.setSwitches(groupId, params.switches);
+        break;
+      }
+
+      case "multicam/setActiveAngle": {
+        const params = action.params as { angleId: string };
+        multicam.setActiveAngle(groupId, params.angleId);
+        break;
+      }
+    }
+
+    const group = multicam.getGroup(groupId);
+    if (group) {
+      const timeline = project.timeline as MutableTimeline;
+      const state: MultiCamGroupState = {
+        ...structuredClone(group),
+        switches: structuredClone(multicam.getSwitches(groupId)),
+      };
+      const groups = timeline.multicamGroups ?? [];
+      timeline.multicamGroups = groups.some((g) => g.id === groupId)
+        ? groups.map((g) => (g.id === groupId ? state : g))
+        : [...groups, state];
+    }
+  }
+
+  private applyNestedSequenceAction(
+    action:
+      | NestedSequenceAction
+      | { type: string; params: Record<string, unknown> },
+    project: Project,
+  ): void {
+    const sequences = this.requireEngine(
+      this.engines.nestedSequences,
+      "Nested sequence",
+    );
+
+    switch (action.type) {
+      case "sequence/create": {
+        const params = action.params as { compoundClip: CompoundClip };
+        sequences.addCompoundClip(params.compoundClip);
+        break;
+      }
+
+      case "sequence/update": {
+        const params = action.params as {
+          compoundClipId: string;
+          content: CompoundClipContent;
+        };
+        sequences.updateCompoundClip(params.compoundClipId, params.content);
+        break;
+      }
+
+      case "sequence/rename": {
+        const params = action.params as {
+          compoundClipId: string;
+          name: string;
+        };
+        sequences.renameCompoundClip(params.compoundClipId, params.name);
+        break;
+      }
+
+      case "sequence/delete": {
+        const params = action.params as { compoundClipId: string };
+        sequences.deleteCompoundClip(params.compoundClipId);
+        break;
+      }
+
+      case "sequence/addInstance": {
+        const params = action.params as { instance: CompoundClipInstance };
+        sequences.addInstance(params.instance);
+        break;
+      }
+
+      case "sequence/removeInstance": {
+        const params = action.params as { instanceId: string };
+        sequences.deleteInstance(params.instanceId);
+        break;
+      }
+    }
+
+    const timeline = project.timeline as MutableTimeline;
+    const compoundClips = sequences.getAllCompoundClips();
+    if (compoundClips.length > 0) {
+      timeline.nestedSequences = structuredClone({
+        compoundClips,
+        instances: sequences.getAllInstances(),
+      });
+    } else {
+      delete timeline.nestedSequences;
+    }
+  }
+
+  private requireEngine<T>(engine: T | undefined, domain: string): T {
+    if (!engine) {
+      throw new Error(
+        `${domain} engine is not attached to the action executor`,
+      );
+    }
+    return engine;
+  }
+
   private parseSrtTime(timeString: string): number {
     const [time, ms] = timeString.split(",");
     const [hours, minutes, seconds] = time.split(":").map(Number);
     return hours * 3600 + minutes * 60 + seconds + Number(ms) / 1000;
   }
 
+  /** Pushes the state persisted on a clip into the bound engines. */
+  private hydrateClipState(clip: Clip): void {
+    this.engines.masks?.setMasksForClip(clip.id, clip.masks ?? []);
+    this.engines.speed?.setClipSpeedData(clip.id, clip.speedData);
+    this.engines.colorGrading?.setColorGrading(
+      clip.id,
+      fromPersistedColorGrading(clip.colorGrade ?? {}),
+    );
+  }
+
+  /**
+   * Copies engine-owned clip state onto the clip itself, so checkpoints,
+   * saves and exports see what the engine sees.
+   */
+  private persistClipState<K extends "masks" | "speedData" | "colorGrade">(
+    project: Project,
+    clipId: string,
+    key: K,
+    value: Clip[K] | undefined,
+  ): void {
+    const timeline = project.timeline as MutableTimeline;
+    timeline.tracks = timeline.tracks.map((track: MutableTrack) =>
+      track.clips.some((c: MutableClip) => c.id === clipId)
+        ? {
+            ...track,
+            clips: track.clips.map((c: MutableClip) =>
+              c.id === clipId ? withClipState(c, key, value) : c,
+            ),
+          }
+        : track,
+    );
+  }
+
   private findClip(
     timeline: MutableTimeline,
     clipId: string,
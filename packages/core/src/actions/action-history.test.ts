@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ActionExecutor } from "./action-executor";
+import { ActionHistory } from "./action-history";
+import type { Action, Project } from "../types";
+
+const createMockProject = (): Project => ({
+  id: "project-1",
+  name: "History",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: {
+    tracks: [],
+    subtitles: [],
+    duration: 0,
+    markers: [],
+  },
+});
+
+const createAction = (
+  type: string,
+  params: Record<string, unknown>,
+): Action => ({
+  type,
+  id: `action-${type}`,
+  timestamp: 0,
+  params,
+});
+
+const addMarker = (label: string): Action =>
+  createAction("marker/add", {
+    marker: { id: `marker-${label}`, time: 0, label, color: "#fff" },
+  });
+
+const markerLabels = (project: Project): string[] =>
+  project.timeline.markers.map((marker) => marker.label);
+
+describe("ActionHistory undo tree", () => {
+  let project: Project;
+  let history: ActionHistory;
+  let executor: ActionExecutor;
+
+  beforeEach(() => {
+    project = createMockProject();
+    history = new ActionHistory();
+    history.setAutoGroupWindow(0);
+    executor = new ActionExecutor(history);
+  });
+
+  it("should keep the undone branch when editing after undo", async () => {
+    await executor.execute(addMarker("A"), project);
+    await executor.execute(addMarker("B"), project);
+    const branchB = history.getCurrentNodeId();
+
+    await executor.undo(project);
+    await executor.execute(addMarker("C"), project);
+    expect(markerLabels(project)).toEqual(["A", "C"]);
+    expect(history.canRedo()).toBe(false);
+
+    const tree = history.getDisplayTree();
+    expect(tree).toHaveLength(3);
+    expect(tree.find((item) => item.node.id === branchB)).toMatchObject({
+      depth: 1,
+      isApplied: false,
+    });
+
+    const result = await executor.jumpTo(branchB, project);
+    expect(result.success).toBe(true);
+    expect(markerLabels(project)).toEqual(["A", "B"]);
+
+    await executor.undo(project);
+    await executor.redo(project);
+    expect(markerLabels(project)).toEqual(["A", "B"]);
+
+    await executor.jumpTo(null, project);
+    expect(markerLabels(project)).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it("should recreate added entities with the same id on redo", async () => {
+    await executor.execute(
+      createAction("track/add", { trackType: "video" }),
+      project,
+    );
+    const trackId = project.timeline.tracks[0].id;
+    expect(history.peekUndo()?.action.params).toMatchObject({ id: trackId });
+
+    await executor.undo(project);
+    expect(project.timeline.tracks).toHaveLength(0);
+
+    await executor.redo(project);
+    expect(project.timeline.tracks.map((t) => t.id)).toEqual([trackId]);
+  });
+
+  it("should restore a serialized tree and keep undoing", async () => {
+    await executor.execute(addMarker("A"), project);
+    await executor.execute(addMarker("B"), project);
+    const branchB = history.getCurrentNodeId();
+    await executor.undo(project);
+    await executor.execute(addMarker("C"), project);
+    history.createSnapshot("Before B");
+
+    const restored = new ActionHistory();
+    expect(
+      restored.restore(JSON.parse(JSON.stringify(history.toJSON()))),
+    ).toBe(true);
+    const restoredExecutor = new ActionExecutor(restored);
+
+    expect(restored.getCurrentNodeId()).toBe(history.getCurrentNodeId());
+    expect(restored.getSnapshots()).toEqual([
+      expect.objectContaining({ name: "Before B", stackIndex: 2 }),
+    ]);
+
+    await restoredExecutor.undo(project);
+    expect(markerLabels(project)).toEqual(["A"]);
+    await restoredExecutor.jumpTo(branchB, project);
+    expect(markerLabels(project)).toEqual(["A", "B"]);
+  });
+
+  it("should reject serialized trees from another format version", () => {
+    const data = { ...history.toJSON(), version: 99 };
+    expect(history.restore(data)).toBe(false);
+  });
+
+  it("should bound the tree at periodic checkpoints", async () => {
+    history = new ActionHistory(10, 4);
+    history.setAutoGroupWindow(0);
+    executor = new ActionExecutor(history);
+
+    for (let i = 0; i < 14; i++) {
+      await executor.execute(addMarker(`${i}`), project);
+    }
+
+    const baseId = history.getBaseNodeId();
+    expect(history.getUndoStackSize()).toBeLessThanOrEqual(10);
+    expect(history.getCheckpoints().map((c) => c.nodeId)).toContain(baseId);
+
+    await executor.jumpTo(baseId, project);
+    expect(project.timeline.markers).toHaveLength(
+      14 - history.getRedoStackSize(),
+    );
+  });
+
+  it("should replay from a checkpoint when an inverse is missing", async () => {
+    history = new ActionHistory(1000, 2);
+    history.setAutoGroupWindow(0);
+    executor = new ActionExecutor(history);
+
+    await executor.execute(addMarker("A"), project);
+    await executor.execute(addMarker("B"), project);
+    const checkpointed = history.getCurrentNodeId();
+    expect(history.getCheckpoints().map((c) => c.nodeId)).toEqual([
+      checkpointed,
+    ]);
+
+    history.push(createAction("project/rename", { name: "Renamed" }), null);
+    (project as { name: string }).name = "Renamed";
+
+    const result = await executor.jumpTo(checkpointed, project);
+    expect(result.success).toBe(true);
+    expect(project.name).toBe("History");
+    expect(markerLabels(project)).toEqual(["A", "B"]);
+  });
+});
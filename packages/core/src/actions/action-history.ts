@@ -1,4 +1,5 @@
 import type { Action } from "../types/actions";
+import type { Project } from "../types/project";
 
 export interface HistoryEntry {
   readonly action: Action;
@@ -20,6 +21,55 @@ export interface HistorySnapshot {
   name: string;
   timestamp: number;
   stackIndex: number;
+  nodeId: string | null;
+}
+
+/**
+ * One edit in the undo tree. Undoing and then editing again adds a sibling
+ * under the same parent, so the previously undone branch stays reachable.
+ */
+export interface HistoryNode {
+  readonly id: string;
+  readonly parentId: string | null;
+  readonly entry: HistoryEntry;
+}
+
+/**
+ * Project state captured after a node was applied. Checkpoints bound the tree
+ * (it is rebased onto the oldest checkpoint once it outgrows maxHistorySize)
+ * and let jumps replay forward when an inverse action is missing.
+ */
+export interface HistoryCheckpoint {
+  readonly id: string;
+  readonly nodeId: string;
+  readonly timestamp: number;
+  readonly project: Project;
+}
+
+export interface HistoryTreeItem {
+  readonly node: HistoryNode;
+  readonly depth: number;
+  readonly isCurrent: boolean;
+  readonly isApplied: boolean;
+  readonly hasCheckpoint: boolean;
+}
+
+export interface HistoryJumpPlan {
+  readonly checkpoint: HistoryCheckpoint | null;
+  readonly inverseActions: Action[];
+  readonly actions: Action[];
+}
+
+export const HISTORY_FORMAT_VERSION = 1;
+
+export interface SerializedActionHistory {
+  readonly version: number;
+  readonly baseId: string | null;
+  readonly currentId: string | null;
+  readonly nodes: HistoryNode[];
+  readonly activeChildren: Array<[string | null, string]>;
+  readonly snapshots: HistorySnapshot[];
+  readonly checkpoints: HistoryCheckpoint[];
 }
 
 const ACTION_DESCRIPTIONS: Record<
@@ -45,12 +95,17 @@ const ACTION_DESCRIPTIONS: Record<
   "transition/remove": () => "Remove transition",
   "audio/setVolume": () => "Adjust volume",
   "audio/setFade": () => "Adjust fade",
+  "audio/replaceSource": () => "Repair audio",
+  "subtitle/import": () => "Import subtitles",
   "subtitle/add": () => "Add subtitle",
   "subtitle/remove": () => "Remove subtitle",
+  "subtitle/rippleDelete": () => "Ripple delete subtitles",
+  "subtitle/moveRange": () => "Move subtitles",
   "project/rename": () => "Rename project",
   "project/updateSettings": () => "Update settings",
   "media/import": () => "Import media",
   "media/delete": () => "Delete media",
+  "media/setMarkers": () => "Update media markers",
 };
 
 function getActionDescription(action: Action): string {
@@ -62,18 +117,30 @@ function getActionDescription(action: Action): string {
   return `${parts[0]}: ${parts[1] || "action"}`;
 }
 
+/**
+ * Undo tree of executed actions. The undo stack is the path from the base
+ * node to the current node and the redo stack follows the most recently
+ * visited child of each node, so linear undo/redo behaves as before while
+ * abandoned branches remain available through jumpTo.
+ */
 export class ActionHistory {
-  private undoStack: HistoryEntry[] = [];
-  private redoStack: HistoryEntry[] = [];
+  private nodes: Map<string, HistoryNode> = new Map();
+  private children: Map<string | null, string[]> = new Map();
+  private activeChildren: Map<string | null, string> = new Map();
+  private checkpoints: Map<string, HistoryCheckpoint> = new Map();
+  private baseId: string | null = null;
+  private currentId: string | null = null;
   private maxHistorySize: number;
+  private checkpointInterval: number;
   private currentGroupId: string | null = null;
   private snapshots: HistorySnapshot[] = [];
   private listeners: Set<() => void> = new Set();
   private lastActionTime: number = 0;
   private autoGroupWindow: number = 100;
 
-  constructor(maxHistorySize: number = 1000) {
+  constructor(maxHistorySize: number = 1000, checkpointInterval: number = 50) {
     this.maxHistorySize = maxHistorySize;
+    this.checkpointInterval = checkpointInterval;
   }
 
   subscribe(listener: () => void): () => void {
@@ -90,42 +157,44 @@ export class ActionHistory {
     const timeSinceLastAction = now - this.lastActionTime;
     this.lastActionTime = now;
 
+    const lastNode = this.getCurrentNode();
     const shouldAutoGroup =
       timeSinceLastAction < this.autoGroupWindow &&
-      this.undoStack.length > 0 &&
-      this.undoStack[this.undoStack.length - 1].action.type === action.type;
+      lastNode !== null &&
+      lastNode.entry.action.type === action.type;
 
     let groupId = this.currentGroupId;
     if (shouldAutoGroup && !groupId) {
       groupId = `auto-${now}`;
-      const lastEntry = this.undoStack[this.undoStack.length - 1];
-      if (!lastEntry.groupId) {
-        this.undoStack[this.undoStack.length - 1] = { ...lastEntry, groupId };
+      if (!lastNode.entry.groupId) {
+        this.nodes.set(lastNode.id, {
+          ...lastNode,
+          entry: { ...lastNode.entry, groupId },
+        });
       }
     }
 
-    const entry: HistoryEntry = {
-      action,
-      inverseAction,
-      timestamp: now,
-      description: getActionDescription(action),
-      groupId: groupId || undefined,
+    const node: HistoryNode = {
+      id: `history-${now}-${Math.random().toString(36).slice(2, 11)}`,
+      parentId: this.currentId,
+      entry: {
+        action,
+        inverseAction,
+        timestamp: now,
+        description: getActionDescription(action),
+        groupId: groupId || undefined,
+      },
     };
 
-    this.undoStack.push(entry);
-    this.redoStack = [];
-
-    this.snapshots = this.snapshots.filter(
-      (s) => s.stackIndex <= this.undoStack.length,
-    );
-
-    if (this.undoStack.length > this.maxHistorySize) {
-      this.undoStack.shift();
-      this.snapshots = this.snapshots
-        .map((s) => ({ ...s, stackIndex: s.stackIndex - 1 }))
-        .filter((s) => s.stackIndex >= 0);
-    }
+    this.nodes.set(node.id, node);
+    this.children.set(this.currentId, [
+      ...(this.children.get(this.currentId) ?? []),
+      node.id,
+    ]);
+    this.activeChildren.set(this.currentId, node.id);
+    this.currentId = node.id;
 
+    this.trim();
     this.notify();
   }
 
@@ -144,20 +213,20 @@ export class ActionHistory {
   }
 
   undo(): Action | null {
-    const entry = this.undoStack.pop();
-    if (entry) {
-      this.redoStack.push(entry);
+    const node = this.getCurrentNode();
+    if (node) {
+      this.currentId = node.parentId;
       this.notify();
-      return entry.inverseAction;
+      return node.entry.inverseAction;
     }
     return null;
   }
 
   undoGroup(): Action[] {
-    if (this.undoStack.length === 0) return [];
+    const lastNode = this.getCurrentNode();
+    if (!lastNode) return [];
 
-    const lastEntry = this.undoStack[this.undoStack.length - 1];
-    const groupId = lastEntry.groupId;
+    const groupId = lastNode.entry.groupId;
 
     if (!groupId) {
       const action = this.undo();
@@ -165,10 +234,7 @@ export class ActionHistory {
     }
 
     const inverseActions: Action[] = [];
-    while (
-      this.undoStack.length > 0 &&
-      this.undoStack[this.undoStack.length - 1].groupId === groupId
-    ) {
+    while (this.getCurrentNode()?.entry.groupId === groupId) {
       const action = this.undo();
       if (action) inverseActions.push(action);
     }
@@ -176,20 +242,20 @@ export class ActionHistory {
   }
 
   redo(): Action | null {
-    const entry = this.redoStack.pop();
-    if (entry) {
-      this.undoStack.push(entry);
+    const node = this.getRedoNode();
+    if (node) {
+      this.currentId = node.id;
       this.notify();
-      return entry.action;
+      return node.entry.action;
     }
     return null;
   }
 
   redoGroup(): Action[] {
-    if (this.redoStack.length === 0) return [];
+    const nextNode = this.getRedoNode();
+    if (!nextNode) return [];
 
-    const nextEntry = this.redoStack[this.redoStack.length - 1];
-    const groupId = nextEntry.groupId;
+    const groupId = nextNode.entry.groupId;
 
     if (!groupId) {
       const action = this.redo();
@@ -197,22 +263,124 @@ export class ActionHistory {
     }
 
     const actions: Action[] = [];
-    while (
-      this.redoStack.length > 0 &&
-      this.redoStack[this.redoStack.length - 1].groupId === groupId
-    ) {
+    while (this.getRedoNode()?.entry.groupId === groupId) {
       const action = this.redo();
       if (action) actions.push(action);
     }
     return actions;
   }
 
+  /**
+   * Moves the current position to any node of the tree (or to the base
+   * state). Returns the actions that bring the project there: inverse actions
+   * up to the common ancestor followed by forward actions down the target
+   * branch, or a checkpoint to restore before replaying forward when an
+   * inverse on the way up is missing. Returns null if the node is unknown or
+   * unreachable.
+   */
+  jumpTo(nodeId: string | null): HistoryJumpPlan | null {
+    if (
+      nodeId !== this.baseId &&
+      (nodeId === null || !this.nodes.has(nodeId))
+    ) {
+      return null;
+    }
+
+    const from = this.getPath(this.currentId);
+    const to = this.getPath(nodeId);
+    let shared = 0;
+    while (
+      shared < from.length &&
+      shared < to.length &&
+      from[shared].id === to[shared].id
+    ) {
+      shared++;
+    }
+
+    const inverseActions: Action[] = [];
+    for (const node of from.slice(shared).reverse()) {
+      if (!node.entry.inverseAction) break;
+      inverseActions.push(node.entry.inverseAction);
+    }
+
+    let plan: HistoryJumpPlan;
+    if (inverseActions.length === from.length - shared) {
+      plan = {
+        checkpoint: null,
+        inverseActions,
+        actions: to.slice(shared).map((node) => node.entry.action),
+      };
+    } else {
+      let index = to.length - 1;
+      while (index >= 0 && !this.checkpoints.has(to[index].id)) {
+        index--;
+      }
+      const checkpointNodeId = index >= 0 ? to[index].id : this.baseId;
+      const checkpoint =
+        checkpointNodeId !== null
+          ? this.checkpoints.get(checkpointNodeId)
+          : undefined;
+      if (!checkpoint) {
+        return null;
+      }
+      plan = {
+        checkpoint,
+        inverseActions: [],
+        actions: to.slice(index + 1).map((node) => node.entry.action),
+      };
+    }
+
+    for (const node of to) {
+      this.activeChildren.set(node.parentId, node.id);
+    }
+    this.currentId = nodeId;
+    this.notify();
+    return plan;
+  }
+
+  needsCheckpoint(): boolean {
+    let distance = 0;
+    let id = this.currentId;
+    while (id !== null && id !== this.baseId && !this.checkpoints.has(id)) {
+      distance++;
+      id = this.nodes.get(id)?.parentId ?? null;
+    }
+    return distance >= this.checkpointInterval;
+  }
+
+  addCheckpoint(project: Project): HistoryCheckpoint | null {
+    if (this.currentId === null) return null;
+
+    const checkpoint: HistoryCheckpoint = {
+      id: `checkpoint-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      nodeId: this.currentId,
+      timestamp: Date.now(),
+      project: JSON.parse(JSON.stringify(project)),
+    };
+    this.checkpoints.set(checkpoint.nodeId, checkpoint);
+    this.notify();
+    return checkpoint;
+  }
+
+  getCheckpoints(): HistoryCheckpoint[] {
+    return [...this.checkpoints.values()];
+  }
+
+  getCheckpointInterval(): number {
+    return this.checkpointInterval;
+  }
+
+  setCheckpointInterval(count: number): void {
+    this.checkpointInterval = Math.max(1, count);
+  }
+
   createSnapshot(name: string): HistorySnapshot {
     const snapshot: HistorySnapshot = {
       id: `snapshot-${Date.now()}`,
       name,
       timestamp: Date.now(),
-      stackIndex: this.undoStack.length,
+      stackIndex: this.getPath(this.currentId).length,
+      nodeId: this.currentId,
     };
     this.snapshots.push(snapshot);
     this.notify();
@@ -220,7 +388,10 @@ export class ActionHistory {
   }
 
   getSnapshots(): HistorySnapshot[] {
-    return [...this.snapshots];
+    return this.snapshots.map((s) => ({
+      ...s,
+      stackIndex: this.getPath(s.nodeId).length,
+    }));
   }
 
   deleteSnapshot(id: string): boolean {
@@ -233,70 +404,146 @@ export class ActionHistory {
     return false;
   }
 
-  getDisplayHistory(): Array<{ entry: HistoryEntry; isCurrent: boolean }> {
-    const result: Array<{ entry: HistoryEntry; isCurrent: boolean }> = [];
+  getDisplayHistory(): Array<{
+    entry: HistoryEntry;
+    nodeId: string;
+    isCurrent: boolean;
+  }> {
+    const path = this.getPath(this.currentId);
+    const result: Array<{
+      entry: HistoryEntry;
+      nodeId: string;
+      isCurrent: boolean;
+    }> = [];
     const seen = new Set<string>();
 
-    for (let i = this.undoStack.length - 1; i >= 0; i--) {
-      const entry = this.undoStack[i];
+    for (let i = path.length - 1; i >= 0; i--) {
+      const { entry, id } = path[i];
+      const isCurrent = i === path.length - 1;
       if (entry.groupId) {
         if (!seen.has(entry.groupId)) {
           seen.add(entry.groupId);
-          result.push({ entry, isCurrent: i === this.undoStack.length - 1 });
+          result.push({ entry, nodeId: id, isCurrent });
         }
       } else {
-        result.push({ entry, isCurrent: i === this.undoStack.length - 1 });
+        result.push({ entry, nodeId: id, isCurrent });
       }
     }
     return result.reverse();
   }
 
+  /**
+   * Flattens the whole tree for display. The active line of each node comes
+   * last at the parent's depth; abandoned branches are listed before it one
+   * level deeper. Runs of a group collapse into their final node.
+   */
+  getDisplayTree(): HistoryTreeItem[] {
+    const applied = new Set(this.getPath(this.currentId).map((n) => n.id));
+    const items: HistoryTreeItem[] = [];
+
+    const visit = (parentId: string | null, depth: number): void => {
+      const activeId = this.activeChildren.get(parentId);
+      const childIds = (this.children.get(parentId) ?? []).filter(
+        (id) => id !== activeId,
+      );
+      for (const childId of childIds) {
+        this.addTreeItem(items, childId, depth + 1, applied);
+        visit(childId, depth + 1);
+      }
+      if (activeId) {
+        this.addTreeItem(items, activeId, depth, applied);
+        visit(activeId, depth);
+      }
+    };
+
+    visit(this.baseId, 0);
+    return items;
+  }
+
+  private addTreeItem(
+    items: HistoryTreeItem[],
+    nodeId: string,
+    depth: number,
+    applied: Set<string>,
+  ): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+
+    const nextId = this.activeChildren.get(nodeId);
+    const next = nextId ? this.nodes.get(nextId) : undefined;
+    if (node.entry.groupId && next?.entry.groupId === node.entry.groupId) {
+      return;
+    }
+
+    items.push({
+      node,
+      depth,
+      isCurrent: node.id === this.currentId,
+      isApplied: applied.has(node.id),
+      hasCheckpoint: this.checkpoints.has(node.id),
+    });
+  }
+
+  getCurrentNodeId(): string | null {
+    return this.currentId;
+  }
+
+  getBaseNodeId(): string | null {
+    return this.baseId;
+  }
+
+  getNode(id: string): HistoryNode | null {
+    return this.nodes.get(id) ?? null;
+  }
+
   canUndo(): boolean {
-    return this.undoStack.length > 0;
+    return this.getCurrentNode() !== null;
   }
 
   canRedo(): boolean {
-    return this.redoStack.length > 0;
+    return this.getRedoNode() !== null;
   }
 
   getHistory(): Action[] {
-    return this.undoStack.map((entry) => entry.action);
+    return this.getPath(this.currentId).map((node) => node.entry.action);
   }
 
   getHistoryEntries(): HistoryEntry[] {
-    return [...this.undoStack];
+    return this.getPath(this.currentId).map((node) => node.entry);
   }
 
   getRedoEntries(): HistoryEntry[] {
-    return [...this.redoStack];
+    return this.getRedoPath()
+      .map((node) => node.entry)
+      .reverse();
   }
 
   clear(): void {
-    this.undoStack = [];
-    this.redoStack = [];
+    this.nodes.clear();
+    this.children.clear();
+    this.activeChildren.clear();
+    this.checkpoints.clear();
+    this.baseId = null;
+    this.currentId = null;
     this.snapshots = [];
     this.currentGroupId = null;
     this.notify();
   }
 
   getUndoStackSize(): number {
-    return this.undoStack.length;
+    return this.getPath(this.currentId).length;
   }
 
   getRedoStackSize(): number {
-    return this.redoStack.length;
+    return this.getRedoPath().length;
   }
 
   peekUndo(): HistoryEntry | null {
-    return this.undoStack.length > 0
-      ? this.undoStack[this.undoStack.length - 1]
-      : null;
+    return this.getCurrentNode()?.entry ?? null;
   }
 
   peekRedo(): HistoryEntry | null {
-    return this.redoStack.length > 0
-      ? this.redoStack[this.redoStack.length - 1]
-      : null;
+    return this.getRedoNode()?.entry ?? null;
   }
 
   getMaxHistorySize(): number {
@@ -305,9 +552,139 @@ export class ActionHistory {
 
   setMaxHistorySize(size: number): void {
     this.maxHistorySize = size;
-    // Trim if necessary
-    while (this.undoStack.length > this.maxHistorySize) {
-      this.undoStack.shift();
+    this.trim();
+  }
+
+  toJSON(): SerializedActionHistory {
+    return {
+      version: HISTORY_FORMAT_VERSION,
+      baseId: this.baseId,
+      currentId: this.currentId,
+      nodes: [...this.nodes.values()],
+      activeChildren: [...this.activeChildren.entries()],
+      snapshots: [...this.snapshots],
+      checkpoints: [...this.checkpoints.values()],
+    };
+  }
+
+  /**
+   * Replaces the tree with a previously serialized one. Returns false and
+   * leaves the history untouched when the format version is not supported.
+   */
+  restore(data: SerializedActionHistory): boolean {
+    if (data.version !== HISTORY_FORMAT_VERSION) {
+      return false;
+    }
+
+    this.nodes = new Map(data.nodes.map((node) => [node.id, node]));
+    this.children = new Map();
+    for (const node of data.nodes) {
+      if (node.id === data.baseId) continue;
+      this.children.set(node.parentId, [
+        ...(this.children.get(node.parentId) ?? []),
+        node.id,
+      ]);
     }
+    this.activeChildren = new Map(data.activeChildren);
+    this.checkpoints = new Map(
+      data.checkpoints
+        .filter((checkpoint) => this.nodes.has(checkpoint.nodeId))
+        .map((checkpoint) => [checkpoint.nodeId, checkpoint]),
+    );
+    this.baseId = data.baseId;
+    this.currentId =
+      data.currentId !== null && this.nodes.has(data.currentId)
+        ? data.currentId
+        : data.baseId;
+    this.snapshots = [...data.snapshots];
+    this.currentGroupId = null;
+    this.notify();
+    return true;
+  }
+
+  private getCurrentNode(): HistoryNode | null {
+    if (this.currentId === null || this.currentId === this.baseId) {
+      return null;
+    }
+    return this.nodes.get(this.currentId) ?? null;
+  }
+
+  private getRedoNode(): HistoryNode | null {
+    const nextId = this.activeChildren.get(this.currentId);
+    return nextId ? (this.nodes.get(nextId) ?? null) : null;
+  }
+
+  /** Nodes from just below the base node down to (and including) nodeId */
+  private getPath(nodeId: string | null): HistoryNode[] {
+    const path: HistoryNode[] = [];
+    let id = nodeId;
+    while (id !== null && id !== this.baseId) {
+      const node = this.nodes.get(id);
+      if (!node) break;
+      path.push(node);
+      id = node.parentId;
+    }
+    return path.reverse();
+  }
+
+  private getRedoPath(): HistoryNode[] {
+    const path: HistoryNode[] = [];
+    let nextId = this.activeChildren.get(this.currentId);
+    while (nextId) {
+      const node = this.nodes.get(nextId);
+      if (!node) break;
+      path.push(node);
+      nextId = this.activeChildren.get(node.id);
+    }
+    return path;
+  }
+
+  /**
+   * Keeps the tree within maxHistorySize by moving the base forward along
+   * the current path, preferring the oldest checkpoint so whole checkpoint
+   * intervals are dropped at once.
+   */
+  private trim(): void {
+    while (this.getNodeCount() > this.maxHistorySize) {
+      const path = this.getPath(this.currentId);
+      if (path.length === 0) break;
+
+      const checkpointNode = path.find((node) => this.checkpoints.has(node.id));
+      this.rebase((checkpointNode ?? path[0]).id);
+    }
+  }
+
+  private getNodeCount(): number {
+    return this.nodes.size - (this.baseId !== null ? 1 : 0);
+  }
+
+  private rebase(nodeId: string): void {
+    const kept = new Set<string>([nodeId]);
+    const queue = [nodeId];
+    for (let i = 0; i < queue.length; i++) {
+      for (const childId of this.children.get(queue[i]) ?? []) {
+        kept.add(childId);
+        queue.push(childId);
+      }
+    }
+
+    for (const id of [...this.nodes.keys()]) {
+      if (kept.has(id)) continue;
+      this.nodes.delete(id);
+      this.children.delete(id);
+      this.activeChildren.delete(id);
+      this.checkpoints.delete(id);
+    }
+    this.children.delete(null);
+    this.activeChildren.delete(null);
+
+    const base = this.nodes.get(nodeId);
+    if (base) {
+      this.nodes.set(nodeId, { ...base, parentId: null });
+    }
+    this.baseId = nodeId;
+    this.snapshots = this.snapshots.filter(
+      (s) => s.nodeId !== null && kept.has(s.nodeId),
+    );
   }
 }
@@ -10,13 +10,57 @@ import type {
   KeyframeAction,
   TransitionAction,
   AudioAction,
+  MixerAction,
   SubtitleAction,
   MediaAction,
   ProjectAction,
+  MaskAction,
+  ColorGradeAction,
+  SpeedAction,
+  TextClipAction,
+  GraphicAction,
+  GraphicClipData,
+  MarkerAction,
+  MulticamAction,
+  NestedSequenceAction,
 } from "../types/actions";
-import type { Project, Timeline, Track, Clip } from "../types";
+import type {
+  Project,
+  Timeline,
+  Track,
+  Clip,
+  Marker,
+  AudioBus,
+  TrackMix,
+} from "../types";
+import type { Mask } from "../video/mask-engine";
+import { SPEED_MIN, SPEED_MAX } from "../video/speed-engine";
+import { SUBTITLE_FORMATS } from "../text/subtitle-formats";
+import { INPUT_COLOR_SPACES } from "../video/color-management";
+import type { CompoundClipContent } from "../timeline/nested-sequence-engine";
+import type {
+  ActionEngines,
+  NestedSequenceStateBinding,
+} from "./action-engines";
 
 export class ActionValidator {
+  private engines: ActionEngines;
+  private rejectOverlaps = false;
+
+  constructor(engines: ActionEngines = {}) {
+    this.engines = engines;
+  }
+
+  /**
+   * When enabled, clip/add and clip/move fail with OVERLAP_DETECTED if the
+   * clip would overlap another clip on the target track. Collaborative
+   * sessions turn this on so every peer resolves concurrent placements into
+   * the same slot identically.
+   */
+  setRejectOverlaps(enabled: boolean): void {
+    this.rejectOverlaps = enabled;
+  }
+
   validate(action: Action, project: Project): ValidationResult {
     const errors: ValidationError[] = [];
     if (!action.type || typeof action.type !== "string") {
@@ -40,6 +84,10 @@ export class ActionValidator {
     );
     errors.push(...typeValidationErrors);
 
+    if (errors.length === 0 && this.rejectOverlaps) {
+      errors.push(...this.validatePlacement(action, project));
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -72,6 +120,27 @@ export class ActionValidator {
       return this.validateAudioAction(action as AudioAction, project);
     } else if (type.startsWith("subtitle/")) {
       return this.validateSubtitleAction(action as SubtitleAction, project);
+    } else if (type.startsWith("mask/")) {
+      return this.validateMaskAction(action as MaskAction, project);
+    } else if (type.startsWith("colorGrade/")) {
+      return this.validateColorGradeAction(action as ColorGradeAction, project);
+    } else if (type.startsWith("speed/")) {
+      return this.validateSpeedAction(action as SpeedAction, project);
+    } else if (type.startsWith("text/")) {
+      return this.validateTextClipAction(action as TextClipAction, project);
+    } else if (type.startsWith("graphic/")) {
+      return this.validateGraphicAction(action as GraphicAction, project);
+    } else if (type.startsWith("marker/")) {
+      return this.validateMarkerAction(action as MarkerAction, project);
+    } else if (type.startsWith("mixer/")) {
+      return this.validateMixerAction(action as MixerAction, project);
+    } else if (type.startsWith("multicam/")) {
+      return this.validateMulticamAction(action as MulticamAction, project);
+    } else if (type.startsWith("sequence/")) {
+      return this.validateNestedSequenceAction(
+        action as NestedSequenceAction,
+        project,
+      );
     }
 
     return [
@@ -154,6 +223,8 @@ export class ActionValidator {
 
       case "media/delete":
       case "media/rename":
+      case "media/setColorSpace":
+      case "media/setMarkers":
         if (
           !action.params.mediaId ||
           typeof action.params.mediaId !== "string"
@@ -185,6 +256,29 @@ export class ActionValidator {
             });
           }
         }
+
+        if (
+          action.type === "media/setColorSpace" &&
+          action.params.colorSpace !== undefined &&
+          !INPUT_COLOR_SPACES.includes(action.params.colorSpace)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Unknown input color space: ${action.params.colorSpace}`,
+            path: "params.colorSpace",
+          });
+        }
+
+        if (
+          action.type === "media/setMarkers" &&
+          !Array.isArray(action.params.markers)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Markers must be an array",
+            path: "params.markers",
+          });
+        }
         break;
     }
 
@@ -1010,6 +1104,20 @@ export class ActionValidator {
           });
         }
         break;
+
+      case "audio/replaceSource":
+        if (
+          !project.mediaLibrary.items.some(
+            (item) => item.id === action.params.mediaId,
+          )
+        ) {
+          errors.push({
+            code: "MEDIA_NOT_FOUND",
+            message: `Media with ID ${action.params.mediaId} not found`,
+            path: "params.mediaId",
+          });
+        }
+        break;
     }
 
     return errors;
@@ -1023,7 +1131,23 @@ export class ActionValidator {
 
     switch (action.type) {
       case "subtitle/import":
-        if (
+        if ("content" in action.params) {
+          const { content, format } = action.params;
+          if (!content || typeof content !== "string") {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Subtitle content is required and must be a string",
+              path: "params.content",
+            });
+          }
+          if (format !== undefined && !SUBTITLE_FORMATS.includes(format)) {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: `Unsupported subtitle format: ${format}`,
+              path: "params.format",
+            });
+          }
+        } else if (
           !action.params.srtContent ||
           typeof action.params.srtContent !== "string"
         ) {
@@ -1138,11 +1262,1319 @@ export class ActionValidator {
           });
         }
         break;
+
+      case "subtitle/rippleDelete":
+      case "subtitle/moveRange":
+        if (
+          typeof action.params.startTime !== "number" ||
+          typeof action.params.endTime !== "number" ||
+          action.params.startTime < 0 ||
+          action.params.endTime <= action.params.startTime
+        ) {
+          errors.push({
+            code: "INVALID_TIME_RANGE",
+            message: "End time must be greater than a non-negative start time",
+            path: "params",
+          });
+        }
+        if (
+          action.type === "subtitle/moveRange" &&
+          (typeof action.params.toTime !== "number" || action.params.toTime < 0)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Target time must be a non-negative number",
+            path: "params.toTime",
+          });
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  private validateMaskAction(
+    action: MaskAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const masks = this.engines.masks;
+    if (!masks) {
+      return [this.engineNotAttached("Mask")];
+    }
+
+    if (
+      !this.validateClipTarget(project.timeline, action.params.clipId, errors)
+    ) {
+      return errors;
+    }
+
+    const existing = masks.getMasksForClip(action.params.clipId);
+
+    switch (action.type) {
+      case "mask/add": {
+        const mask = action.params.mask;
+        if (!mask || typeof mask !== "object" || typeof mask.id !== "string") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Mask is required and must have a string ID",
+            path: "params.mask",
+          });
+          break;
+        }
+        if (!mask.path || !Array.isArray(mask.path.points)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Mask path must contain a points array",
+            path: "params.mask.path",
+          });
+        }
+        if (existing.some((m) => m.id === mask.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Mask with ID ${mask.id} already exists on clip`,
+            path: "params.mask.id",
+          });
+        }
+        errors.push(...this.validateMaskValues(mask, "params.mask"));
+        break;
+      }
+
+      case "mask/remove":
+      case "mask/update":
+        if (!existing.some((m) => m.id === action.params.maskId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Mask with ID ${action.params.maskId} not found on clip`,
+            path: "params.maskId",
+          });
+        }
+        if (action.type === "mask/update") {
+          if (
+            !action.params.updates ||
+            typeof action.params.updates !== "object"
+          ) {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Mask updates must be an object",
+              path: "params.updates",
+            });
+          } else {
+            errors.push(
+              ...this.validateMaskValues(
+                action.params.updates,
+                "params.updates",
+              ),
+            );
+          }
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  private validateMaskValues(
+    values: Partial<Mask>,
+    path: string,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (
+      values.feathering !== undefined &&
+      (typeof values.feathering !== "number" ||
+        values.feathering < 0 ||
+        values.feathering > 100)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Feathering must be a number between 0 and 100",
+        path: `${path}.feathering`,
+      });
+    }
+
+    if (
+      values.expansion !== undefined &&
+      (typeof values.expansion !== "number" ||
+        values.expansion < -100 ||
+        values.expansion > 100)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Expansion must be a number between -100 and 100",
+        path: `${path}.expansion`,
+      });
+    }
+
+    if (
+      values.opacity !== undefined &&
+      (typeof values.opacity !== "number" ||
+        values.opacity < 0 ||
+        values.opacity > 1)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Opacity must be a number between 0 and 1",
+        path: `${path}.opacity`,
+      });
+    }
+
+    return errors;
+  }
+
+  private validateColorGradeAction(
+    action: ColorGradeAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (!this.engines.colorGrading) {
+      return [this.engineNotAttached("Color grading")];
+    }
+
+    if (
+      !this.validateClipTarget(project.timeline, action.params.clipId, errors)
+    ) {
+      return errors;
+    }
+
+    if (action.type === "colorGrade/update") {
+      const settings = action.params.settings;
+      if (!settings || typeof settings !== "object") {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: "Color grading settings must be an object",
+          path: "params.settings",
+        });
+      } else if (
+        settings.lut &&
+        (!(settings.lut.data instanceof Uint8Array) ||
+          settings.lut.data.length !== settings.lut.size ** 3 * 4)
+      ) {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: "LUT data must be an RGBA Uint8Array of size^3 entries",
+          path: "params.settings.lut",
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private validateSpeedAction(
+    action: SpeedAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const speed = this.engines.speed;
+    if (!speed) {
+      return [this.engineNotAttached("Speed")];
+    }
+
+    if (
+      !this.validateClipTarget(project.timeline, action.params.clipId, errors)
+    ) {
+      return errors;
+    }
+
+    const data = speed.getClipSpeedData(action.params.clipId);
+
+    switch (action.type) {
+      case "speed/addKeyframe":
+      case "speed/updateKeyframe": {
+        const values =
+          action.type === "speed/addKeyframe"
+            ? action.params.keyframe
+            : action.params.updates;
+        const path =
+          action.type === "speed/addKeyframe"
+            ? "params.keyframe"
+            : "params.updates";
+        if (!values || typeof values !== "object") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Speed keyframe must be an object",
+            path,
+          });
+          break;
+        }
+        if (action.type === "speed/addKeyframe") {
+          if (typeof action.params.keyframe.id !== "string") {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Speed keyframe ID is required and must be a string",
+              path: "params.keyframe.id",
+            });
+          } else if (
+            data?.keyframes.some((k) => k.id === action.params.keyframe.id)
+          ) {
+            errors.push({
+              code: "KEYFRAME_CONFLICT",
+              message: `Speed keyframe ${action.params.keyframe.id} already exists`,
+              path: "params.keyframe.id",
+            });
+          }
+        } else if (
+          !data?.keyframes.some((k) => k.id === action.params.keyframeId)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Speed keyframe ${action.params.keyframeId} not found`,
+            path: "params.keyframeId",
+          });
+        }
+        if (
+          (action.type === "speed/addKeyframe" || values.time !== undefined) &&
+          (typeof values.time !== "number" || values.time < 0)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Keyframe time must be a non-negative number",
+            path: `${path}.time`,
+          });
+        }
+        if (
+          (action.type === "speed/addKeyframe" || values.speed !== undefined) &&
+          (typeof values.speed !== "number" ||
+            values.speed < SPEED_MIN ||
+            values.speed > SPEED_MAX)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Speed must be a number between ${SPEED_MIN} and ${SPEED_MAX}`,
+            path: `${path}.speed`,
+          });
+        }
+        break;
+      }
+
+      case "speed/removeKeyframe":
+        if (!data?.keyframes.some((k) => k.id === action.params.keyframeId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Speed keyframe ${action.params.keyframeId} not found`,
+            path: "params.keyframeId",
+          });
+        }
+        break;
+
+      case "speed/addFreezeFrame": {
+        const freezeFrame = action.params.freezeFrame;
+        if (
+          !freezeFrame ||
+          typeof freezeFrame !== "object" ||
+          typeof freezeFrame.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Freeze frame is required and must have a string ID",
+            path: "params.freezeFrame",
+          });
+          break;
+        }
+        if (
+          typeof freezeFrame.sourceTime !== "number" ||
+          freezeFrame.sourceTime < 0 ||
+          typeof freezeFrame.startTime !== "number" ||
+          freezeFrame.startTime < 0
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Freeze frame times must be non-negative numbers",
+            path: "params.freezeFrame",
+          });
+        }
+        if (
+          typeof freezeFrame.duration !== "number" ||
+          freezeFrame.duration <= 0
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Freeze frame duration must be a positive number",
+            path: "params.freezeFrame.duration",
+          });
+        }
+        break;
+      }
+
+      case "speed/removeFreezeFrame":
+        if (
+          !data?.freezeFrames.some((f) => f.id === action.params.freezeFrameId)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Freeze frame ${action.params.freezeFrameId} not found`,
+            path: "params.freezeFrameId",
+          });
+        }
+        break;
+
+      case "speed/setPitchCorrection":
+        if (typeof action.params.enabled !== "boolean") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Enabled parameter must be a boolean",
+            path: "params.enabled",
+          });
+        }
+        break;
     }
 
     return errors;
   }
 
+  private validateTextClipAction(
+    action: TextClipAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const textClips = project.textClips ?? [];
+
+    switch (action.type) {
+      case "text/add": {
+        const textClip = action.params.textClip;
+        if (
+          !textClip ||
+          typeof textClip !== "object" ||
+          typeof textClip.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Text clip is required and must have a string ID",
+            path: "params.textClip",
+          });
+          break;
+        }
+        if (textClips.some((c) => c.id === textClip.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Text clip with ID ${textClip.id} already exists`,
+            path: "params.textClip.id",
+          });
+        }
+        if (typeof textClip.text !== "string") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Text must be a string",
+            path: "params.textClip.text",
+          });
+        }
+        this.validateTrackTarget(
+          project.timeline,
+          textClip.trackId,
+          "params.textClip.trackId",
+          errors,
+        );
+        errors.push(
+          ...this.validateTimeRange(textClip, "params.textClip", true),
+        );
+        break;
+      }
+
+      case "text/remove":
+      case "text/update": {
+        const textClip = textClips.find((c) => c.id === action.params.clipId);
+        if (!textClip) {
+          errors.push({
+            code: "CLIP_NOT_FOUND",
+            message: `Text clip with ID ${action.params.clipId} not found`,
+            path: "params.clipId",
+          });
+          break;
+        }
+        this.validateTrackTarget(
+          project.timeline,
+          textClip.trackId,
+          "params.clipId",
+          errors,
+        );
+        if (action.type === "text/update") {
+          const updates = action.params.updates;
+          if (!updates || typeof updates !== "object") {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Text clip updates must be an object",
+              path: "params.updates",
+            });
+            break;
+          }
+          if (updates.text !== undefined && typeof updates.text !== "string") {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Text must be a string",
+              path: "params.updates.text",
+            });
+          }
+          if (updates.trackId !== undefined) {
+            this.validateTrackTarget(
+              project.timeline,
+              updates.trackId,
+              "params.updates.trackId",
+              errors,
+            );
+          }
+          errors.push(
+            ...this.validateTimeRange(updates, "params.updates", false),
+          );
+        }
+        break;
+      }
+    }
+
+    return errors;
+  }
+
+  private validateGraphicAction(
+    action: GraphicAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    switch (action.type) {
+      case "graphic/add": {
+        const graphic = action.params.graphic;
+        if (
+          !graphic ||
+          typeof graphic !== "object" ||
+          typeof graphic.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Graphic clip is required and must have a string ID",
+            path: "params.graphic",
+          });
+          break;
+        }
+        if (!["shape", "svg", "sticker", "emoji"].includes(graphic.type)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message:
+              "Graphic type must be 'shape', 'svg', 'sticker', or 'emoji'",
+            path: "params.graphic.type",
+          });
+        }
+        if (this.findGraphic(project, graphic.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Graphic clip with ID ${graphic.id} already exists`,
+            path: "params.graphic.id",
+          });
+        }
+        if (graphic.type === "svg" && typeof graphic.svgContent !== "string") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "SVG content is required and must be a string",
+            path: "params.graphic.svgContent",
+          });
+        }
+        this.validateTrackTarget(
+          project.timeline,
+          graphic.trackId,
+          "params.graphic.trackId",
+          errors,
+        );
+        errors.push(...this.validateTimeRange(graphic, "params.graphic", true));
+        break;
+      }
+
+      case "graphic/remove":
+      case "graphic/update": {
+        const graphic = this.findGraphic(project, action.params.clipId);
+        if (!graphic) {
+          errors.push({
+            code: "CLIP_NOT_FOUND",
+            message: `Graphic clip with ID ${action.params.clipId} not found`,
+            path: "params.clipId",
+          });
+          break;
+        }
+        this.validateTrackTarget(
+          project.timeline,
+          graphic.trackId,
+          "params.clipId",
+          errors,
+        );
+        if (action.type === "graphic/update") {
+          const updates = action.params.updates;
+          if (!updates || typeof updates !== "object") {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Graphic clip updates must be an object",
+              path: "params.updates",
+            });
+            break;
+          }
+          if ("type" in updates) {
+            errors.push({
+              code: "INCOMPATIBLE_TYPE",
+              message: "Graphic clip type cannot be changed",
+              path: "params.updates.type",
+            });
+          }
+          if (updates.trackId !== undefined) {
+            this.validateTrackTarget(
+              project.timeline,
+              updates.trackId,
+              "params.updates.trackId",
+              errors,
+            );
+          }
+          errors.push(
+            ...this.validateTimeRange(updates, "params.updates", false),
+          );
+        }
+        break;
+      }
+    }
+
+    return errors;
+  }
+
+  private validateMarkerAction(
+    action: MarkerAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const markers = project.timeline.markers ?? [];
+
+    switch (action.type) {
+      case "marker/add": {
+        const marker = action.params.marker;
+        if (
+          !marker ||
+          typeof marker !== "object" ||
+          typeof marker.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Marker is required and must have a string ID",
+            path: "params.marker",
+          });
+          break;
+        }
+        if (markers.some((m) => m.id === marker.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Marker with ID ${marker.id} already exists`,
+            path: "params.marker.id",
+          });
+        }
+        errors.push(
+          ...this.validateMarkerValues(marker, "params.marker", true),
+        );
+        break;
+      }
+
+      case "marker/remove":
+      case "marker/update":
+        if (!markers.some((m) => m.id === action.params.markerId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Marker with ID ${action.params.markerId} not found`,
+            path: "params.markerId",
+          });
+        }
+        if (action.type === "marker/update") {
+          if (
+            !action.params.updates ||
+            typeof action.params.updates !== "object"
+          ) {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Marker updates must be an object",
+              path: "params.updates",
+            });
+          } else {
+            errors.push(
+              ...this.validateMarkerValues(
+                action.params.updates,
+                "params.updates",
+                false,
+              ),
+            );
+          }
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  private validateMarkerValues(
+    values: Partial<Marker>,
+    path: string,
+    required: boolean,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (
+      (required || values.time !== undefined) &&
+      (typeof values.time !== "number" || values.time < 0)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Marker time must be a non-negative number",
+        path: `${path}.time`,
+      });
+    }
+
+    if (
+      (required || values.label !== undefined) &&
+      typeof values.label !== "string"
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Marker label must be a string",
+        path: `${path}.label`,
+      });
+    }
+
+    if (
+      (required || values.color !== undefined) &&
+      typeof values.color !== "string"
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Marker color must be a string",
+        path: `${path}.color`,
+      });
+    }
+
+    return errors;
+  }
+
+  private validateMixerAction(
+    action: MixerAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const buses = project.timeline.audioMix?.buses ?? [];
+
+    switch (action.type) {
+      case "mixer/addBus": {
+        const bus = action.params.bus;
+        if (!bus || typeof bus !== "object" || typeof bus.id !== "string") {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Bus is required and must have a string ID",
+            path: "params.bus",
+          });
+          break;
+        }
+        if (buses.some((b) => b.id === bus.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Bus with ID ${bus.id} already exists`,
+            path: "params.bus.id",
+          });
+        }
+        errors.push(
+          ...this.validateBusValues(bus, [...buses, bus], bus.id, "params.bus"),
+        );
+        break;
+      }
+
+      case "mixer/removeBus":
+      case "mixer/updateBus":
+        if (!buses.some((b) => b.id === action.params.busId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Bus with ID ${action.params.busId} not found`,
+            path: "params.busId",
+          });
+        }
+        if (action.type === "mixer/updateBus") {
+          errors.push(
+            ...this.validateBusValues(
+              action.params.updates,
+              buses,
+              action.params.busId,
+              "params.updates",
+            ),
+          );
+        }
+        break;
+
+      case "mixer/updateTrack": {
+        if (
+          !project.timeline.tracks.some((t) => t.id === action.params.trackId)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Track with ID ${action.params.trackId} not found`,
+            path: "params.trackId",
+          });
+        }
+        errors.push(
+          ...this.validateTrackMixValues(
+            action.params.updates,
+            buses,
+            "params.updates",
+          ),
+        );
+        break;
+      }
+
+      case "mixer/updateMaster": {
+        const { volume } = action.params.updates;
+        if (volume !== undefined && !this.isMixLevel(volume)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Master volume must be between 0 and 4",
+            path: "params.updates.volume",
+          });
+        }
+        break;
+      }
+    }
+
+    return errors;
+  }
+
+  private validateBusValues(
+    values: Partial<AudioBus>,
+    buses: AudioBus[],
+    busId: string,
+    path: string,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const ducking = values.ducking;
+    if (ducking) {
+      if (
+        ducking.keyBusId === busId ||
+        !buses.some((b) => b.id === ducking.keyBusId)
+      ) {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: "Ducking key must be another existing bus",
+          path: `${path}.ducking.keyBusId`,
+        });
+      }
+      if (typeof ducking.ratio !== "number" || ducking.ratio < 1) {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: "Ducking ratio must be at least 1",
+          path: `${path}.ducking.ratio`,
+        });
+      }
+      for (const key of ["attack", "release", "lookahead"] as const) {
+        if (typeof ducking[key] !== "number" || ducking[key] < 0) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Ducking ${key} must be a non-negative number`,
+            path: `${path}.ducking.${key}`,
+          });
+        }
+      }
+    }
+    if (values.volume !== undefined && !this.isMixLevel(values.volume)) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Bus volume must be between 0 and 4",
+        path: `${path}.volume`,
+      });
+    }
+    if (values.pan !== undefined && !this.isMixPan(values.pan)) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Bus pan must be between -1 and 1",
+        path: `${path}.pan`,
+      });
+    }
+    return errors;
+  }
+
+  private validateTrackMixValues(
+    values: Partial<TrackMix>,
+    buses: AudioBus[],
+    path: string,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (values.volume !== undefined && !this.isMixLevel(values.volume)) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Track volume must be between 0 and 4",
+        path: `${path}.volume`,
+      });
+    }
+    if (values.pan !== undefined && !this.isMixPan(values.pan)) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Track pan must be between -1 and 1",
+        path: `${path}.pan`,
+      });
+    }
+    if (
+      values.outputBusId !== undefined &&
+      !buses.some((b) => b.id === values.outputBusId)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: `Bus with ID ${values.outputBusId} not found`,
+        path: `${path}.outputBusId`,
+      });
+    }
+    values.sends?.forEach((send, index) => {
+      if (!buses.some((b) => b.id === send.busId)) {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: `Bus with ID ${send.busId} not found`,
+          path: `${path}.sends[${index}].busId`,
+        });
+      }
+      if (!this.isMixLevel(send.level)) {
+        errors.push({
+          code: "INVALID_PARAMS",
+          message: "Send level must be between 0 and 4",
+          path: `${path}.sends[${index}].level`,
+        });
+      }
+    });
+    return errors;
+  }
+
+  private isMixLevel(value: unknown): boolean {
+    return typeof value === "number" && value >= 0 && value <= 4;
+  }
+
+  private isMixPan(value: unknown): boolean {
+    return typeof value === "number" && value >= -1 && value <= 1;
+  }
+
+  private validateMulticamAction(
+    action: MulticamAction,
+    _project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const multicam = this.engines.multicam;
+    if (!multicam) {
+      return [this.engineNotAttached("Multicam")];
+    }
+
+    const group = multicam.getGroup(action.params.groupId);
+    if (!group) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: `Multicam group with ID ${action.params.groupId} not found`,
+        path: "params.groupId",
+      });
+      return errors;
+    }
+
+    switch (action.type) {
+      case "multicam/switchAngle":
+      case "multicam/setActiveAngle":
+        if (!group.angles.some((a) => a.id === action.params.angleId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Angle with ID ${action.params.angleId} not found in group`,
+            path: "params.angleId",
+          });
+        }
+        if (
+          action.type === "multicam/switchAngle" &&
+          (typeof action.params.time !== "number" ||
+            action.params.time < 0 ||
+            action.params.time > group.duration)
+        ) {
+          errors.push({
+            code: "OUT_OF_BOUNDS",
+            message: `Switch time must be between 0 and ${group.duration}`,
+            path: "params.time",
+          });
+        }
+        break;
+
+      case "multicam/removeSwitch":
+        if (
+          !multicam
+            .getSwitches(action.params.groupId)
+            .some((s) => s.id === action.params.switchId)
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Switch with ID ${action.params.switchId} not found`,
+            path: "params.switchId",
+          });
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  private validateNestedSequenceAction(
+    action: NestedSequenceAction,
+    project: Project,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const sequences = this.engines.nestedSequences;
+    if (!sequences) {
+      return [this.engineNotAttached("Nested sequence")];
+    }
+
+    switch (action.type) {
+      case "sequence/create": {
+        const compound = action.params.compoundClip;
+        if (
+          !compound ||
+          typeof compound !== "object" ||
+          typeof compound.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Compound clip is required and must have a string ID",
+            path: "params.compoundClip",
+          });
+          break;
+        }
+        if (sequences.getCompoundClip(compound.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Compound clip with ID ${compound.id} already exists`,
+            path: "params.compoundClip.id",
+          });
+        }
+        if (!compound.content || !Array.isArray(compound.content.clips)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Compound clip content must contain a clips array",
+            path: "params.compoundClip.content",
+          });
+        } else if (
+          this.containsCompound(compound.content, compound.id, sequences)
+        ) {
+          errors.push({
+            code: "CIRCULAR_REFERENCE",
+            message: "Compound clip cannot contain an instance of itself",
+            path: "params.compoundClip.content",
+          });
+        }
+        break;
+      }
+
+      case "sequence/update":
+      case "sequence/rename":
+      case "sequence/delete":
+        if (!sequences.getCompoundClip(action.params.compoundClipId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Compound clip with ID ${action.params.compoundClipId} not found`,
+            path: "params.compoundClipId",
+          });
+          break;
+        }
+        if (action.type === "sequence/update") {
+          if (
+            !action.params.content ||
+            !Array.isArray(action.params.content.clips)
+          ) {
+            errors.push({
+              code: "INVALID_PARAMS",
+              message: "Compound clip content must contain a clips array",
+              path: "params.content",
+            });
+          } else if (
+            this.containsCompound(
+              action.params.content,
+              action.params.compoundClipId,
+              sequences,
+            )
+          ) {
+            errors.push({
+              code: "CIRCULAR_REFERENCE",
+              message: "Compound clip cannot contain an instance of itself",
+              path: "params.content",
+            });
+          }
+        }
+        if (
+          action.type === "sequence/rename" &&
+          (!action.params.name || typeof action.params.name !== "string")
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Compound clip name is required and must be a string",
+            path: "params.name",
+          });
+        }
+        if (
+          action.type === "sequence/delete" &&
+          sequences.getInstancesForCompound(action.params.compoundClipId)
+            .length > 0
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Compound clip is still used on the timeline",
+            path: "params.compoundClipId",
+          });
+        }
+        break;
+
+      case "sequence/addInstance": {
+        const instance = action.params.instance;
+        if (
+          !instance ||
+          typeof instance !== "object" ||
+          typeof instance.id !== "string"
+        ) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: "Instance is required and must have a string ID",
+            path: "params.instance",
+          });
+          break;
+        }
+        if (!sequences.getCompoundClip(instance.compoundClipId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Compound clip with ID ${instance.compoundClipId} not found`,
+            path: "params.instance.compoundClipId",
+          });
+        }
+        if (sequences.getInstance(instance.id)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Instance with ID ${instance.id} already exists`,
+            path: "params.instance.id",
+          });
+        }
+        this.validateTrackTarget(
+          project.timeline,
+          instance.trackId,
+          "params.instance.trackId",
+          errors,
+        );
+        errors.push(
+          ...this.validateTimeRange(instance, "params.instance", true),
+        );
+        break;
+      }
+
+      case "sequence/removeInstance":
+        if (!sequences.getInstance(action.params.instanceId)) {
+          errors.push({
+            code: "INVALID_PARAMS",
+            message: `Instance with ID ${action.params.instanceId} not found`,
+            path: "params.instanceId",
+          });
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  /**
+   * Walks nested instances in the content and reports whether any of them,
+   * directly or through another compound clip, resolves to compoundClipId.
+   */
+  private containsCompound(
+    content: CompoundClipContent,
+    compoundClipId: string,
+    sequences: NestedSequenceStateBinding,
+    visited: Set<string> = new Set(),
+  ): boolean {
+    for (const clip of content.clips) {
+      const instance = sequences.getInstance(clip.id);
+      if (!instance) continue;
+      if (instance.compoundClipId === compoundClipId) return true;
+      if (visited.has(instance.compoundClipId)) continue;
+      visited.add(instance.compoundClipId);
+
+      const nested = sequences.getCompoundClip(instance.compoundClipId);
+      if (
+        nested &&
+        this.containsCompound(
+          nested.content,
+          compoundClipId,
+          sequences,
+          visited,
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private validateClipTarget(
+    timeline: Timeline,
+    clipId: string,
+    errors: ValidationError[],
+  ): Clip | null {
+    if (!clipId || typeof clipId !== "string") {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Clip ID is required and must be a string",
+        path: "params.clipId",
+      });
+      return null;
+    }
+
+    const clip = this.findClip(timeline, clipId);
+    if (!clip) {
+      errors.push({
+        code: "CLIP_NOT_FOUND",
+        message: `Clip with ID ${clipId} not found`,
+        path: "params.clipId",
+      });
+      return null;
+    }
+
+    const track = this.findTrack(timeline, clip.trackId);
+    if (track?.locked) {
+      errors.push({
+        code: "TRACK_LOCKED",
+        message: `Track containing clip ${clipId} is locked`,
+        path: "params.clipId",
+      });
+    }
+
+    return clip;
+  }
+
+  private validateTrackTarget(
+    timeline: Timeline,
+    trackId: string,
+    path: string,
+    errors: ValidationError[],
+  ): void {
+    if (!trackId || typeof trackId !== "string") {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Track ID is required and must be a string",
+        path,
+      });
+      return;
+    }
+
+    const track = this.findTrack(timeline, trackId);
+    if (!track) {
+      errors.push({
+        code: "TRACK_NOT_FOUND",
+        message: `Track with ID ${trackId} not found`,
+        path,
+      });
+    } else if (track.locked) {
+      errors.push({
+        code: "TRACK_LOCKED",
+        message: `Track ${trackId} is locked`,
+        path,
+      });
+    }
+  }
+
+  private validateTimeRange(
+    values: { startTime?: number; duration?: number },
+    path: string,
+    required: boolean,
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (
+      (required || values.startTime !== undefined) &&
+      (typeof values.startTime !== "number" || values.startTime < 0)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Start time must be a non-negative number",
+        path: `${path}.startTime`,
+      });
+    }
+
+    if (
+      (required || values.duration !== undefined) &&
+      (typeof values.duration !== "number" || values.duration <= 0)
+    ) {
+      errors.push({
+        code: "INVALID_PARAMS",
+        message: "Duration must be a positive number",
+        path: `${path}.duration`,
+      });
+    }
+
+    return errors;
+  }
+
+  private findGraphic(
+    project: Project,
+    clipId: string,
+  ): GraphicClipData | null {
+    return (
+      project.shapeClips?.find((c) => c.id === clipId) ??
+      project.svgClips?.find((c) => c.id === clipId) ??
+      project.stickerClips?.find((c) => c.id === clipId) ??
+      null
+    );
+  }
+
+  private engineNotAttached(domain: string): ValidationError {
+    return {
+      code: "ENGINE_NOT_ATTACHED",
+      message: `${domain} engine is not attached to the action executor`,
+    };
+  }
+
+  private validatePlacement(
+    action: Action,
+    project: Project,
+  ): ValidationError[] {
+    const timeline = project.timeline;
+    let trackId: string;
+    let duration: number;
+    let movingClipId: string | undefined;
+
+    if (action.type === "clip/move") {
+      const params = action.params as {
+        clipId: string;
+        startTime: number;
+        trackId?: string;
+      };
+      const clip = this.findClip(timeline, params.clipId);
+      if (!clip) return [];
+      trackId = params.trackId ?? clip.trackId;
+      duration = clip.duration;
+      movingClipId = clip.id;
+    } else if (action.type === "clip/add") {
+      const params = action.params as {
+        trackId: string;
+        mediaId: string;
+        duration?: number;
+      };
+      const mediaDuration = project.mediaLibrary.items.find(
+        (item) => item.id === params.mediaId,
+      )?.metadata.duration;
+      trackId = params.trackId;
+      duration =
+        params.duration ??
+        (mediaDuration && mediaDuration > 0 ? mediaDuration : 5);
+    } else {
+      return [];
+    }
+
+    const track = this.findTrack(timeline, trackId);
+    if (!track) return [];
+
+    const startTime = (action.params as { startTime: number }).startTime;
+    const endTime = startTime + duration;
+    const overlapping = track.clips.find(
+      (c) =>
+        c.id !== movingClipId &&
+        startTime < c.startTime + c.duration &&
+        endTime > c.startTime,
+    );
+    if (!overlapping) return [];
+
+    return [
+      {
+        code: "OVERLAP_DETECTED",
+        message: `Clip would overlap clip ${overlapping.id} on track ${track.id}`,
+        path: "params.startTime",
+      },
+    ];
+  }
+
   private findTrack(timeline: Timeline, trackId: string): Track | null {
     return timeline.tracks.find((t) => t.id === trackId) || null;
   }
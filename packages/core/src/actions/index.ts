@@ -1,10 +1,28 @@
 export { ActionValidator } from "./action-validator";
-export { ActionExecutor } from "./action-executor";
+export {
+  ActionExecutor,
+  type ExecuteOptions,
+  type ActionExecutorEvent,
+} from "./action-executor";
 export {
   ActionHistory,
   type HistoryEntry,
   type ActionGroup,
   type HistorySnapshot,
+  type HistoryNode,
+  type HistoryCheckpoint,
+  type HistoryTreeItem,
+  type HistoryJumpPlan,
+  type SerializedActionHistory,
+  HISTORY_FORMAT_VERSION,
 } from "./action-history";
 export { ActionSerializer } from "./action-serializer";
 export { InverseActionGenerator } from "./inverse-action-generator";
+export type {
+  ActionEngines,
+  MaskStateBinding,
+  SpeedStateBinding,
+  ColorGradingStateBinding,
+  MulticamStateBinding,
+  NestedSequenceStateBinding,
+} from "./action-engines";
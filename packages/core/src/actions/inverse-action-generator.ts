@@ -8,14 +8,32 @@ import type {
   KeyframeAction,
   TransitionAction,
   AudioAction,
+  MixerAction,
   SubtitleAction,
   MediaAction,
   ProjectAction,
+  MaskAction,
+  ColorGradeAction,
+  SpeedAction,
+  TextClipAction,
+  GraphicAction,
+  GraphicClipData,
+  MarkerAction,
+  MulticamAction,
+  NestedSequenceAction,
 } from "../types/actions";
 import type { Project, MediaItem } from "../types/project";
-import type { Track, Clip, Transition } from "../types/timeline";
+import type { Track, Clip, Transition, TrackMix } from "../types/timeline";
+import { DEFAULT_MASTER_BUS, getTrackMix } from "../audio/audio-mix";
+import type { ActionEngines } from "./action-engines";
 
 export class InverseActionGenerator {
+  private engines: ActionEngines;
+
+  constructor(engines: ActionEngines = {}) {
+    this.engines = engines;
+  }
+
   generate(action: Action, projectBefore: Project): Action | null {
     const type = (action as TimelineAction).type;
 
@@ -69,6 +87,40 @@ export class InverseActionGenerator {
         action as SubtitleAction & Action,
         projectBefore,
       );
+    } else if (type.startsWith("mask/")) {
+      return this.generateMaskInverse(action as MaskAction & Action);
+    } else if (type.startsWith("colorGrade/")) {
+      return this.generateColorGradeInverse(
+        action as ColorGradeAction & Action,
+      );
+    } else if (type.startsWith("speed/")) {
+      return this.generateSpeedInverse(action as SpeedAction & Action);
+    } else if (type.startsWith("text/")) {
+      return this.generateTextClipInverse(
+        action as TextClipAction & Action,
+        projectBefore,
+      );
+    } else if (type.startsWith("graphic/")) {
+      return this.generateGraphicInverse(
+        action as GraphicAction & Action,
+        projectBefore,
+      );
+    } else if (type.startsWith("marker/")) {
+      return this.generateMarkerInverse(
+        action as MarkerAction & Action,
+        projectBefore,
+      );
+    } else if (type.startsWith("mixer/")) {
+      return this.generateMixerInverse(
+        action as MixerAction & Action,
+        projectBefore,
+      );
+    } else if (type.startsWith("multicam/")) {
+      return this.generateMulticamInverse(action as MulticamAction & Action);
+    } else if (type.startsWith("sequence/")) {
+      return this.generateNestedSequenceInverse(
+        action as NestedSequenceAction & Action,
+      );
     }
 
     return null;
@@ -140,6 +192,30 @@ export class InverseActionGenerator {
           name: media.name,
         });
       }
+
+      case "media/setColorSpace": {
+        const media = projectBefore.mediaLibrary.items.find(
+          (item) => item.id === action.params.mediaId,
+        );
+        if (!media) return null;
+
+        return this.createInverseAction(action, "media/setColorSpace", {
+          mediaId: action.params.mediaId,
+          colorSpace: media.colorSpace,
+        });
+      }
+
+      case "media/setMarkers": {
+        const media = projectBefore.mediaLibrary.items.find(
+          (item) => item.id === action.params.mediaId,
+        );
+        if (!media) return null;
+
+        return this.createInverseAction(action, "media/setMarkers", {
+          mediaId: action.params.mediaId,
+          markers: media.markers ?? [],
+        });
+      }
     }
   }
 
@@ -494,6 +570,12 @@ export class InverseActionGenerator {
           clipId: action.params.clipId,
           points: clip.automation?.volume ?? [],
         });
+
+      case "audio/replaceSource":
+        return this.createInverseAction(action, "audio/replaceSource", {
+          clipId: action.params.clipId,
+          mediaId: clip.mediaId,
+        });
     }
   }
 
@@ -539,6 +621,12 @@ export class InverseActionGenerator {
         });
       }
 
+      case "subtitle/rippleDelete":
+      case "subtitle/moveRange":
+        return this.createInverseAction(action, "subtitle/restoreAll", {
+          subtitles: timeline.subtitles.map((s) => ({ ...s })),
+        });
+
       case "subtitle/setStyle": {
         const firstSubtitle = timeline.subtitles[0];
         return this.createInverseAction(action, "subtitle/setStyle", {
@@ -548,6 +636,333 @@ export class InverseActionGenerator {
     }
   }
 
+  private generateMaskInverse(
+    action: MaskAction & Action,
+  ): Action | null {
+    const masks = this.engines.masks?.getMasksForClip(action.params.clipId);
+    if (!masks) return null;
+
+    switch (action.type) {
+      case "mask/add":
+        return this.createInverseAction(action, "mask/remove", {
+          clipId: action.params.clipId,
+          maskId: action.params.mask.id,
+        });
+
+      case "mask/remove": {
+        const index = masks.findIndex((m) => m.id === action.params.maskId);
+        if (index === -1) return null;
+
+        return this.createInverseAction(action, "mask/restore", {
+          clipId: action.params.clipId,
+          mask: structuredClone(masks[index]),
+          index,
+        });
+      }
+
+      case "mask/update": {
+        const mask = masks.find((m) => m.id === action.params.maskId);
+        if (!mask) return null;
+
+        return this.createInverseAction(action, "mask/update", {
+          clipId: action.params.clipId,
+          maskId: action.params.maskId,
+          updates: this.pickPrevious(mask, action.params.updates),
+        });
+      }
+    }
+  }
+
+  private generateColorGradeInverse(
+    action: ColorGradeAction & Action,
+  ): Action | null {
+    const colorGrading = this.engines.colorGrading;
+    if (!colorGrading) return null;
+
+    return this.createInverseAction(action, "colorGrade/restore", {
+      clipId: action.params.clipId,
+      settings: structuredClone(
+        colorGrading.getColorGrading(action.params.clipId),
+      ),
+    });
+  }
+
+  private generateSpeedInverse(action: SpeedAction & Action): Action | null {
+    const speed = this.engines.speed;
+    if (!speed) return null;
+
+    // Every speed action rewrites part of ClipSpeedData, so the inverse
+    // restores the whole record (or clears it if the clip had none).
+    const data = speed.getClipSpeedData(action.params.clipId);
+    return this.createInverseAction(action, "speed/restore", {
+      clipId: action.params.clipId,
+      data: data ? structuredClone(data) : null,
+    });
+  }
+
+  private generateTextClipInverse(
+    action: TextClipAction & Action,
+    projectBefore: Project,
+  ): Action | null {
+    const textClips = projectBefore.textClips ?? [];
+
+    switch (action.type) {
+      case "text/add":
+        return this.createInverseAction(action, "text/remove", {
+          clipId: action.params.textClip.id,
+        });
+
+      case "text/remove": {
+        const index = textClips.findIndex((c) => c.id === action.params.clipId);
+        if (index === -1) return null;
+
+        return this.createInverseAction(action, "text/restore", {
+          textClip: structuredClone(textClips[index]),
+          index,
+        });
+      }
+
+      case "text/update": {
+        const textClip = textClips.find((c) => c.id === action.params.clipId);
+        if (!textClip) return null;
+
+        return this.createInverseAction(action, "text/update", {
+          clipId: action.params.clipId,
+          updates: this.pickPrevious(textClip, action.params.updates),
+        });
+      }
+    }
+  }
+
+  private generateGraphicInverse(
+    action: GraphicAction & Action,
+    projectBefore: Project,
+  ): Action | null {
+    switch (action.type) {
+      case "graphic/add":
+        return this.createInverseAction(action, "graphic/remove", {
+          clipId: action.params.graphic.id,
+        });
+
+      case "graphic/remove": {
+        const collection = this.findGraphicCollection(
+          projectBefore,
+          action.params.clipId,
+        );
+        if (!collection) return null;
+        const index = collection.findIndex(
+          (c) => c.id === action.params.clipId,
+        );
+
+        return this.createInverseAction(action, "graphic/restore", {
+          graphic: structuredClone(collection[index]),
+          index,
+        });
+      }
+
+      case "graphic/update": {
+        const graphic = this.findGraphicCollection(
+          projectBefore,
+          action.params.clipId,
+        )?.find((c) => c.id === action.params.clipId);
+        if (!graphic) return null;
+
+        return this.createInverseAction(action, "graphic/update", {
+          clipId: action.params.clipId,
+          updates: this.pickPrevious(graphic, action.params.updates),
+        });
+      }
+    }
+  }
+
+  private generateMarkerInverse(
+    action: MarkerAction & Action,
+    projectBefore: Project,
+  ): Action | null {
+    const markers = projectBefore.timeline.markers ?? [];
+
+    switch (action.type) {
+      case "marker/add":
+        return this.createInverseAction(action, "marker/remove", {
+          markerId: action.params.marker.id,
+        });
+
+      case "marker/remove": {
+        const index = markers.findIndex(
+          (m) => m.id === action.params.markerId,
+        );
+        if (index === -1) return null;
+
+        return this.createInverseAction(action, "marker/restore", {
+          marker: { ...markers[index] },
+          index,
+        });
+      }
+
+      case "marker/update": {
+        const marker = markers.find((m) => m.id === action.params.markerId);
+        if (!marker) return null;
+
+        return this.createInverseAction(action, "marker/update", {
+          markerId: action.params.markerId,
+          updates: this.pickPrevious(marker, action.params.updates),
+        });
+      }
+    }
+  }
+
+  private generateMixerInverse(
+    action: MixerAction & Action,
+    projectBefore: Project,
+  ): Action | null {
+    const mix = projectBefore.timeline.audioMix;
+    const buses = mix?.buses ?? [];
+
+    switch (action.type) {
+      case "mixer/addBus":
+        return this.createInverseAction(action, "mixer/removeBus", {
+          busId: action.params.bus.id,
+        });
+
+      case "mixer/removeBus": {
+        const busId = action.params.busId;
+        const index = buses.findIndex((b) => b.id === busId);
+        if (index === -1) return null;
+
+        // Removing a bus also drops the routing and sends that used it
+        const tracks: Record<string, TrackMix> = {};
+        for (const [trackId, trackMix] of Object.entries(mix?.tracks ?? {})) {
+          if (
+            trackMix.outputBusId === busId ||
+            trackMix.sends.some((s) => s.busId === busId)
+          ) {
+            tracks[trackId] = structuredClone(trackMix);
+          }
+        }
+        return this.createInverseAction(action, "mixer/restoreBus", {
+          bus: structuredClone(buses[index]),
+          index,
+          tracks,
+        });
+      }
+
+      case "mixer/updateBus": {
+        const bus = buses.find((b) => b.id === action.params.busId);
+        if (!bus) return null;
+
+        return this.createInverseAction(action, "mixer/updateBus", {
+          busId: action.params.busId,
+          updates: this.pickPrevious(bus, action.params.updates),
+        });
+      }
+
+      case "mixer/updateTrack":
+        return this.createInverseAction(action, "mixer/updateTrack", {
+          trackId: action.params.trackId,
+          updates: this.pickPrevious(
+            getTrackMix(mix, action.params.trackId),
+            action.params.updates,
+          ),
+        });
+
+      case "mixer/updateMaster":
+        return this.createInverseAction(action, "mixer/updateMaster", {
+          updates: this.pickPrevious(
+            mix?.master ?? DEFAULT_MASTER_BUS,
+            action.params.updates,
+          ),
+        });
+    }
+  }
+
+  private generateMulticamInverse(
+    action: MulticamAction & Action,
+  ): Action | null {
+    const multicam = this.engines.multicam;
+    const group = multicam?.getGroup(action.params.groupId);
+    if (!multicam || !group) return null;
+
+    switch (action.type) {
+      case "multicam/switchAngle":
+      case "multicam/removeSwitch":
+        return this.createInverseAction(action, "multicam/restoreSwitches", {
+          groupId: action.params.groupId,
+          switches: multicam
+            .getSwitches(action.params.groupId)
+            .map((s) => ({ ...s })),
+        });
+
+      case "multicam/setActiveAngle":
+        return this.createInverseAction(action, "multicam/setActiveAngle", {
+          groupId: action.params.groupId,
+          angleId: group.activeAngleId,
+        });
+    }
+  }
+
+  private generateNestedSequenceInverse(
+    action: NestedSequenceAction & Action,
+  ): Action | null {
+    const sequences = this.engines.nestedSequences;
+    if (!sequences) return null;
+
+    switch (action.type) {
+      case "sequence/create":
+        return this.createInverseAction(action, "sequence/delete", {
+          compoundClipId: action.params.compoundClip.id,
+        });
+
+      case "sequence/update": {
+        const compound = sequences.getCompoundClip(
+          action.params.compoundClipId,
+        );
+        if (!compound) return null;
+
+        return this.createInverseAction(action, "sequence/update", {
+          compoundClipId: action.params.compoundClipId,
+          content: structuredClone(compound.content),
+        });
+      }
+
+      case "sequence/rename": {
+        const compound = sequences.getCompoundClip(
+          action.params.compoundClipId,
+        );
+        if (!compound) return null;
+
+        return this.createInverseAction(action, "sequence/rename", {
+          compoundClipId: action.params.compoundClipId,
+          name: compound.name,
+        });
+      }
+
+      case "sequence/delete": {
+        const compound = sequences.getCompoundClip(
+          action.params.compoundClipId,
+        );
+        if (!compound) return null;
+
+        return this.createInverseAction(action, "sequence/create", {
+          compoundClip: structuredClone(compound),
+        });
+      }
+
+      case "sequence/addInstance":
+        return this.createInverseAction(action, "sequence/removeInstance", {
+          instanceId: action.params.instance.id,
+        });
+
+      case "sequence/removeInstance": {
+        const instance = sequences.getInstance(action.params.instanceId);
+        if (!instance) return null;
+
+        return this.createInverseAction(action, "sequence/addInstance", {
+          instance: structuredClone(instance),
+        });
+      }
+    }
+  }
+
   private findClip(timeline: { tracks: Track[] }, clipId: string): Clip | null {
     for (const track of timeline.tracks) {
       const clip = track.clips.find((c) => c.id === clipId);
@@ -567,6 +982,38 @@ export class InverseActionGenerator {
     return null;
   }
 
+  private findGraphicCollection(
+    project: Project,
+    clipId: string,
+  ): readonly GraphicClipData[] | null {
+    for (const collection of [
+      project.shapeClips,
+      project.svgClips,
+      project.stickerClips,
+    ]) {
+      if (collection?.some((c) => c.id === clipId)) {
+        return collection;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Captures the current value of every key an update is about to change,
+   * so applying the result as an update restores the original object.
+   */
+  private pickPrevious(
+    source: object,
+    updates: object,
+  ): Record<string, unknown> {
+    const previous: Record<string, unknown> = {};
+    for (const key of Object.keys(updates)) {
+      const value = (source as Record<string, unknown>)[key];
+      previous[key] = value === undefined ? undefined : structuredClone(value);
+    }
+    return previous;
+  }
+
   private cloneMediaItem(item: MediaItem): Record<string, unknown> {
     return {
       id: item.id,
@@ -1,6 +1,8 @@
 import type { Effect } from "../types/timeline";
 import type { AudioEffectParams, EQBand } from "../types/effects";
 import { FFT } from "./fft";
+import { createWorkletEffectNode } from "./effect-chain";
+import { tryLoadEffectsWorklet } from "./effects-worklet-processor";
 
 export interface AudioEffectChainConfig {
   readonly effects: Effect[];
@@ -92,6 +94,7 @@ export class AudioEffectsEngine {
     );
     const source = offlineContext.createBufferSource();
     source.buffer = buffer;
+    await tryLoadEffectsWorklet(offlineContext);
     const { firstNode, lastNode, appliedEffects } = await this.buildEffectChain(
       offlineContext,
       enabledEffects,
@@ -168,11 +171,25 @@ export class AudioEffectsEngine {
         return this.createNoiseReductionNodePair(context, effect);
       case "gain":
         return this.createGainNodePair(context, effect);
+      case "deEsser":
+      case "limiter":
+      case "gate":
+      case "pitchShift":
+        return this.createWorkletNodePair(context, effect);
       default:
         return null;
     }
   }
 
+  /** Null when the effects worklet isn't available. */
+  private createWorkletNodePair(
+    context: BaseAudioContext,
+    effect: Effect,
+  ): EffectNodePair | null {
+    const node = createWorkletEffectNode(context, effect);
+    return node ? { input: node, output: node } : null;
+  }
+
   private createEQNodePair(
     context: BaseAudioContext,
     effect: Effect,
@@ -184,6 +201,11 @@ export class AudioEffectsEngine {
       return null;
     }
 
+    const worklet = this.createWorkletNodePair(context, effect);
+    if (worklet) {
+      return worklet;
+    }
+
     let firstNode: BiquadFilterNode | null = null;
     let lastNode: BiquadFilterNode | null = null;
 
@@ -10,6 +10,12 @@ import type {
   TimeRange,
 } from "./types";
 import { DEFAULT_AUDIO_CONFIG } from "./types";
+import { analyzeLoudness } from "./loudness";
+import { MixBusGraph, getTrackMix } from "./audio-mix";
+import { computeDuckingGain, DUCKING_CONTROL_RATE } from "./sidechain";
+import { scheduleVolumeAutomation } from "./volume-automation";
+import { createEffectChain } from "./effect-chain";
+import { tryLoadEffectsWorklet } from "./effects-worklet-processor";
 
 /**
  * AudioEngine handles audio rendering and mixing for video projects.
@@ -94,7 +100,8 @@ export class AudioEngine {
 
   /**
    * Renders audio for a time range, mixing all active audio tracks.
-   * Respects muting, solo, and effects on each track.
+   * Respects muting, solo, and effects on each track, and runs the tracks
+   * through the timeline's mixer buses like live playback does.
    *
    * @param project - The project containing timeline and media
    * @param startTime - Start time in seconds
@@ -108,6 +115,75 @@ export class AudioEngine {
   ): Promise<RenderedAudio> {
     this.ensureInitialized();
 
+    const ducking = await this.renderDuckingGains(project, startTime, duration);
+    const buffer = await this.renderMix(project, startTime, duration, {
+      ducking,
+    });
+
+    return {
+      buffer,
+      startTime,
+      duration,
+      channels: buffer.numberOfChannels,
+      sampleRate: buffer.sampleRate,
+    };
+  }
+
+  /**
+   * Computes the sidechain ducking gain curve of every bus with ducking
+   * enabled, by rendering each key bus on its own. Curves start at
+   * `startTime` and run at DUCKING_CONTROL_RATE.
+   *
+   * @returns Gain curves keyed by ducked bus id
+   */
+  async renderDuckingGains(
+    project: Project,
+    startTime: number,
+    duration: number,
+  ): Promise<Map<string, Float32Array>> {
+    this.ensureInitialized();
+
+    const buses = project.timeline.audioMix?.buses ?? [];
+    const gains = new Map<string, Float32Array>();
+    const keys = new Map<string, Float32Array[]>();
+
+    for (const bus of buses) {
+      const ducking = bus.ducking;
+      if (!ducking?.enabled || ducking.keyBusId === bus.id) continue;
+      if (!buses.some((b) => b.id === ducking.keyBusId)) continue;
+
+      let key = keys.get(ducking.keyBusId);
+      if (!key) {
+        const rendered = await this.renderMix(project, startTime, duration, {
+          listenBusId: ducking.keyBusId,
+        });
+        key = Array.from({ length: rendered.numberOfChannels }, (_, c) =>
+          rendered.getChannelData(c),
+        );
+        keys.set(ducking.keyBusId, key);
+      }
+      gains.set(
+        bus.id,
+        computeDuckingGain(
+          key,
+          project.settings.sampleRate || this.config.sampleRate,
+          ducking,
+        ),
+      );
+    }
+
+    return gains;
+  }
+
+  private async renderMix(
+    project: Project,
+    startTime: number,
+    duration: number,
+    options: {
+      listenBusId?: string;
+      ducking?: Map<string, Float32Array>;
+    },
+  ): Promise<AudioBuffer> {
     const { timeline, mediaLibrary, settings } = project;
     const sampleRate = settings.sampleRate || this.config.sampleRate;
     const channels = settings.channels || this.config.channels;
@@ -123,10 +199,29 @@ export class AudioEngine {
       startTime,
       duration,
     );
+    await tryLoadEffectsWorklet(offlineContext);
+    const mixBus = new MixBusGraph(offlineContext, offlineContext.destination, {
+      listenBusId: options.listenBusId,
+    });
+    mixBus.setMix(timeline.audioMix);
+    for (const [busId, gain] of options.ducking ?? []) {
+      mixBus.setDucking(busId, gain, DUCKING_CONTROL_RATE, 0);
+    }
+
     const hasSoloTracks = audioTracks.some((t) => t.solo);
     for (const trackInfo of audioTracks) {
       if (this.isTrackMuted(trackInfo, hasSoloTracks)) continue;
 
+      const trackMix = getTrackMix(timeline.audioMix, trackInfo.trackId);
+      const trackInput = offlineContext.createGain();
+      const trackPanner = offlineContext.createStereoPanner();
+      const trackFader = offlineContext.createGain();
+      trackPanner.pan.value = Math.max(-1, Math.min(1, trackMix.pan));
+      trackFader.gain.value = trackMix.volume;
+      trackInput.connect(trackPanner);
+      trackPanner.connect(trackFader);
+      mixBus.route(trackInfo.trackId, trackInput, trackFader);
+
       for (const clipInfo of trackInfo.clips) {
         const mediaItem = mediaLibrary.items.find(
           (m) => m.id === clipInfo.mediaId,
@@ -142,18 +237,11 @@ export class AudioEngine {
           audioBuffer,
           clipInfo,
           startTime,
+          trackInput,
         );
       }
     }
-    const renderedBuffer = await offlineContext.startRendering();
-
-    return {
-      buffer: renderedBuffer,
-      startTime,
-      duration,
-      channels,
-      sampleRate,
-    };
+    return offlineContext.startRendering();
   }
 
   /**
@@ -258,10 +346,15 @@ export class AudioEngine {
       volume: clip.volume,
       pan,
       effects: clip.effects,
+      audioEffects: clip.audioEffects,
       fadeIn: clip.fade?.fadeIn,
       fadeOut: clip.fade?.fadeOut,
       speed: (clip as any).speed || 1,
       reversed: (clip as any).reversed || false,
+      automation: clip.automation?.volume?.map((point) => ({
+        time: point.time - offsetInClip,
+        value: point.value,
+      })),
     };
   }
 
@@ -413,6 +506,7 @@ export class AudioEngine {
     audioBuffer: AudioBuffer,
     clipInfo: AudioClipRenderInfo,
     renderStartTime: number,
+    destination: AudioNode,
   ): Promise<void> {
     const source = context.createBufferSource();
     source.buffer = audioBuffer;
@@ -424,16 +518,27 @@ export class AudioEngine {
 
     const gainNode = context.createGain();
     gainNode.gain.value = clipInfo.volume;
+    const automationGain = context.createGain();
+    const effectChain = createEffectChain(context, clipInfo.audioEffects ?? []);
     const pannerNode = context.createStereoPanner();
     pannerNode.pan.value = Math.max(-1, Math.min(1, clipInfo.pan));
     source.connect(gainNode);
-    gainNode.connect(pannerNode);
-    pannerNode.connect(context.destination);
+    gainNode.connect(automationGain);
+    automationGain.connect(effectChain.input);
+    effectChain.output.connect(pannerNode);
+    pannerNode.connect(destination);
     const contextStartTime = Math.max(
       0,
       clipInfo.timelineStartTime - renderStartTime,
     );
     this.applyFades(gainNode, clipInfo, contextStartTime);
+    if (clipInfo.automation?.length) {
+      scheduleVolumeAutomation(
+        automationGain.gain,
+        clipInfo.automation,
+        contextStartTime,
+      );
+    }
 
     const startOffset = reversed
       ? audioBuffer.duration - clipInfo.sourceTime
@@ -507,8 +612,8 @@ export class AudioEngine {
       .filter((track) => track.type === "audio" || track.type === "video")
       .map((track) => ({
         trackId: track.id,
-        volume: 1, // Default volume, would be stored in track
-        pan: 0, // Default pan
+        volume: getTrackMix(timeline.audioMix, track.id).volume,
+        pan: getTrackMix(timeline.audioMix, track.id).pan,
         muted: track.muted,
         solo: track.solo,
         peakLevel: 0,
@@ -657,30 +762,11 @@ export class AudioEngine {
   }
 
   measureLoudness(buffer: AudioBuffer): LoudnessMetrics {
-    const channelData = buffer.getChannelData(0);
-    let sumSquares = 0;
-    let peak = 0;
-
-    for (let i = 0; i < channelData.length; i++) {
-      const sample = channelData[i];
-      sumSquares += sample * sample;
-      peak = Math.max(peak, Math.abs(sample));
+    const channels: Float32Array[] = [];
+    for (let i = 0; i < buffer.numberOfChannels; i++) {
+      channels.push(buffer.getChannelData(i));
     }
-
-    const rms = Math.sqrt(sumSquares / channelData.length);
-    const rmsDb = 20 * Math.log10(rms || 0.0001);
-    const peakDb = 20 * Math.log10(peak || 0.0001);
-
-    // Approximate LUFS (simplified - real implementation would use K-weighting)
-    const lufs = rmsDb - 0.691; // Rough approximation
-
-    return {
-      integrated: lufs,
-      shortTerm: lufs,
-      momentary: lufs,
-      truePeak: peakDb,
-      range: 10, // Placeholder
-    };
+    return analyzeLoudness(channels, buffer.sampleRate);
   }
 
   clearCache(): void {
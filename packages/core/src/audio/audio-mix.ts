@@ -0,0 +1,213 @@
+import type { AudioMix, MasterBus, TrackMix } from "../types/timeline";
+import {
+  createEffectChain,
+  disconnectEffectChain,
+  type EffectChain,
+} from "./effect-chain";
+
+export const DEFAULT_MASTER_BUS: MasterBus = { volume: 1, effects: [] };
+
+export const DEFAULT_TRACK_MIX: TrackMix = { volume: 1, pan: 0, sends: [] };
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+  buses: [],
+  tracks: {},
+  master: DEFAULT_MASTER_BUS,
+};
+
+export function getTrackMix(
+  mix: AudioMix | undefined,
+  trackId: string,
+): TrackMix {
+  return mix?.tracks[trackId] ?? DEFAULT_TRACK_MIX;
+}
+
+interface BusNodes {
+  input: GainNode;
+  chain: EffectChain;
+  /** Sidechain ducking gain, driven by a precomputed curve. */
+  duck: GainNode;
+  panNode: StereoPannerNode;
+  fader: GainNode;
+}
+
+export interface MixBusGraphOptions {
+  /**
+   * Build only this bus and send its output straight to the destination,
+   * with tracks feeding nothing else. Used to render a sidechain key.
+   */
+  listenBusId?: string;
+}
+
+interface TrackRoute {
+  preFader: AudioNode;
+  postFader: AudioNode;
+  sends: Array<{ source: AudioNode; gain: GainNode }>;
+}
+
+/**
+ * The bus side of a mix: submix and effect-return buses with their insert
+ * chains, and the master bus. Tracks hand over a pre-fader and post-fader
+ * node and the graph connects them to their output bus and sends. Works on
+ * any context, so playback and export share one topology. Sidechain ducking
+ * is applied as a gain curve computed ahead of time from the key bus.
+ */
+export class MixBusGraph {
+  private mix: AudioMix = DEFAULT_AUDIO_MIX;
+  private masterChain: EffectChain;
+  private masterFader: GainNode;
+  private buses: Map<string, BusNodes> = new Map();
+  private routes: Map<string, TrackRoute> = new Map();
+
+  constructor(
+    private context: BaseAudioContext,
+    private destination: AudioNode,
+    private options: MixBusGraphOptions = {},
+  ) {
+    this.masterChain = createEffectChain(context, []);
+    this.masterFader = context.createGain();
+    this.connectMaster();
+  }
+
+  /** Rebuilds the buses for `mix` and reconnects every routed track. */
+  setMix(mix: AudioMix | undefined): void {
+    for (const route of this.routes.values()) this.disconnectRoute(route);
+    this.disconnectBuses();
+
+    this.mix = mix ?? DEFAULT_AUDIO_MIX;
+    this.masterChain = createEffectChain(this.context, this.mix.master.effects);
+    this.masterFader = this.context.createGain();
+    this.connectMaster();
+
+    const { listenBusId } = this.options;
+    for (const bus of this.mix.buses) {
+      if (listenBusId && bus.id !== listenBusId) continue;
+
+      const input = this.context.createGain();
+      const chain = createEffectChain(this.context, bus.effects);
+      const duck = this.context.createGain();
+      const panNode = this.context.createStereoPanner();
+      const fader = this.context.createGain();
+      panNode.pan.value = Math.max(-1, Math.min(1, bus.pan));
+      fader.gain.value = bus.muted ? 0 : bus.volume;
+
+      input.connect(chain.input);
+      chain.output.connect(duck);
+      duck.connect(panNode);
+      panNode.connect(fader);
+      fader.connect(listenBusId ? this.destination : this.masterChain.input);
+      this.buses.set(bus.id, { input, chain, duck, panNode, fader });
+    }
+
+    for (const [trackId, route] of this.routes) {
+      this.connectRoute(trackId, route);
+    }
+  }
+
+  /**
+   * Routes a track. `preFader` is its signal after effects, `postFader`
+   * after pan and fader; `postFader` should feed nothing else.
+   */
+  route(trackId: string, preFader: AudioNode, postFader: AudioNode): void {
+    this.unroute(trackId);
+    const route: TrackRoute = { preFader, postFader, sends: [] };
+    this.routes.set(trackId, route);
+    this.connectRoute(trackId, route);
+  }
+
+  /**
+   * Plays a bus's ducking gain curve from `offset` seconds into the curve,
+   * starting at context time `when`.
+   */
+  setDucking(
+    busId: string,
+    gain: Float32Array,
+    controlRate: number,
+    when: number,
+    offset: number = 0,
+  ): void {
+    const bus = this.buses.get(busId);
+    if (!bus) return;
+    const curve = gain.subarray(Math.floor(offset * controlRate));
+    bus.duck.gain.cancelScheduledValues(0);
+    if (curve.length < 2) {
+      bus.duck.gain.setValueAtTime(curve[0] ?? 1, when);
+      return;
+    }
+    bus.duck.gain.setValueCurveAtTime(curve, when, curve.length / controlRate);
+  }
+
+  /** Returns every bus to unity ducking gain. */
+  clearDucking(): void {
+    for (const bus of this.buses.values()) {
+      bus.duck.gain.cancelScheduledValues(0);
+      bus.duck.gain.setValueAtTime(1, this.context.currentTime);
+    }
+  }
+
+  unroute(trackId: string): void {
+    const route = this.routes.get(trackId);
+    if (route) {
+      this.disconnectRoute(route);
+      this.routes.delete(trackId);
+    }
+  }
+
+  dispose(): void {
+    for (const trackId of Array.from(this.routes.keys())) {
+      this.unroute(trackId);
+    }
+    this.disconnectBuses();
+  }
+
+  private connectMaster(): void {
+    this.masterFader.gain.value = this.mix.master.volume;
+    this.masterChain.output.connect(this.masterFader);
+    this.masterFader.connect(this.destination);
+  }
+
+  private connectRoute(trackId: string, route: TrackRoute): void {
+    const trackMix = getTrackMix(this.mix, trackId);
+    const output = trackMix.outputBusId
+      ? this.buses.get(trackMix.outputBusId)
+      : undefined;
+    if (output) {
+      route.postFader.connect(output.input);
+    } else if (!this.options.listenBusId) {
+      route.postFader.connect(this.masterChain.input);
+    }
+
+    for (const send of trackMix.sends) {
+      const bus = this.buses.get(send.busId);
+      if (!bus) continue;
+      const source = send.preFader ? route.preFader : route.postFader;
+      const gain = this.context.createGain();
+      gain.gain.value = send.level;
+      source.connect(gain);
+      gain.connect(bus.input);
+      route.sends.push({ source, gain });
+    }
+  }
+
+  private disconnectRoute(route: TrackRoute): void {
+    route.postFader.disconnect();
+    for (const { source, gain } of route.sends) {
+      if (source !== route.postFader) source.disconnect(gain);
+      gain.disconnect();
+    }
+    route.sends = [];
+  }
+
+  private disconnectBuses(): void {
+    for (const bus of this.buses.values()) {
+      bus.input.disconnect();
+      disconnectEffectChain(bus.chain);
+      bus.duck.disconnect();
+      bus.panNode.disconnect();
+      bus.fader.disconnect();
+    }
+    this.buses.clear();
+    disconnectEffectChain(this.masterChain);
+    this.masterFader.disconnect();
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyAudioRepair,
+  attenuateSpectralRegion,
+  declick,
+  declip,
+  detectHumFrequency,
+  removeHum,
+  DEFAULT_DECLICK,
+  DEFAULT_HUM_REMOVAL,
+} from "./audio-repair";
+
+const SAMPLE_RATE = 48000;
+
+/** Deterministic white noise so thresholds don't flake. */
+function noise(length: number, db: number, seed: number = 1): Float32Array {
+  const amplitude = Math.pow(10, db / 20) * Math.sqrt(3);
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0x100000000) * 2 - 1);
+  }
+  return samples;
+}
+
+function tone(
+  length: number,
+  frequency: number,
+  amplitude: number,
+  into: Float32Array = new Float32Array(length),
+): Float32Array {
+  for (let i = 0; i < length; i++) {
+    into[i] +=
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return into;
+}
+
+/** Level of one frequency in dB, by correlating with a sine and cosine. */
+function levelAt(
+  samples: Float32Array,
+  frequency: number,
+  from: number = 0,
+  to: number = samples.length,
+): number {
+  let re = 0;
+  let im = 0;
+  for (let i = from; i < to; i++) {
+    const phase = (2 * Math.PI * frequency * i) / SAMPLE_RATE;
+    re += samples[i] * Math.cos(phase);
+    im += samples[i] * Math.sin(phase);
+  }
+  return 20 * Math.log10((2 * Math.hypot(re, im)) / (to - from));
+}
+
+describe("hum removal", () => {
+  const withHum = (fundamental: number) => {
+    const samples = noise(SAMPLE_RATE * 3, -50);
+    tone(samples.length, fundamental, 0.05, samples);
+    tone(samples.length, fundamental * 2, 0.03, samples);
+    tone(samples.length, fundamental * 3, 0.02, samples);
+    return samples;
+  };
+
+  it("should find the mains fundamental and its exact line frequency", () => {
+    expect(detectHumFrequency([withHum(60)], SAMPLE_RATE)).toBeCloseTo(60, 1);
+    expect(detectHumFrequency([withHum(50.3)], SAMPLE_RATE)).toBeCloseTo(
+      50.3,
+      1,
+    );
+    expect(
+      detectHumFrequency([noise(SAMPLE_RATE * 3, -50)], SAMPLE_RATE),
+    ).toBeNull();
+  });
+
+  it("should notch the hum out and leave the rest alone", () => {
+    const samples = withHum(60);
+    tone(samples.length, 1000, 0.1, samples);
+    const result = applyAudioRepair([samples], SAMPLE_RATE, {
+      type: "hum",
+      ...DEFAULT_HUM_REMOVAL,
+    });
+    const [out] = result.channels;
+
+    expect(result.humFrequency).toBeCloseTo(60, 1);
+    for (const frequency of [60, 120, 180]) {
+      expect(levelAt(out, frequency)).toBeLessThan(
+        levelAt(samples, frequency) - 30,
+      );
+    }
+    expect(levelAt(out, 1000)).toBeCloseTo(levelAt(samples, 1000), 1);
+  });
+
+  it("should report when there is no hum to remove", () => {
+    expect(() =>
+      applyAudioRepair([noise(SAMPLE_RATE, -50)], SAMPLE_RATE, {
+        type: "hum",
+        ...DEFAULT_HUM_REMOVAL,
+      }),
+    ).toThrow("No mains hum found");
+    // With the frequency given it just runs the notches
+    const [out] = removeHum([tone(4800, 1000, 0.5)], SAMPLE_RATE, {
+      ...DEFAULT_HUM_REMOVAL,
+      frequency: 50,
+    });
+    expect(out).toHaveLength(4800);
+  });
+});
+
+describe("declick", () => {
+  const clean = () => {
+    const samples = noise(SAMPLE_RATE, -70);
+    return tone(samples.length, 440, 0.5, samples);
+  };
+
+  it("should rebuild clicks from the audio around them", () => {
+    const original = clean();
+    const damaged = Float32Array.from(original);
+    const clicks = [5000, 18000, 33333];
+    for (const position of clicks) {
+      damaged[position] += 0.6;
+      damaged[position + 1] -= 0.4;
+      damaged[position + 2] += 0.3;
+    }
+
+    const result = declick([damaged], SAMPLE_RATE, DEFAULT_DECLICK);
+    expect(result.repairs).toBe(clicks.length);
+    for (const position of clicks) {
+      for (let i = position; i < position + 3; i++) {
+        expect(Math.abs(result.channels[0][i] - original[i])).toBeLessThan(
+          0.01,
+        );
+      }
+    }
+  });
+
+  it("should leave clean audio untouched", () => {
+    const original = clean();
+    const result = declick([original], SAMPLE_RATE, DEFAULT_DECLICK);
+    expect(result.repairs).toBe(0);
+    expect(result.channels[0]).toEqual(original);
+  });
+});
+
+describe("declip", () => {
+  it("should rebuild flattened peaks above the clip level", () => {
+    const original = tone(SAMPLE_RATE / 4, 220, 1);
+    const clipped = original.map((v) => Math.max(-0.7, Math.min(0.7, v)));
+
+    const result = declip([clipped], {});
+    const [out] = result.channels;
+    expect(result.repairs).toBeGreaterThan(50);
+
+    // Rebuilt peaks can go past full scale, so compare the shape
+    let peak = 0;
+    for (const value of out) peak = Math.max(peak, Math.abs(value));
+    expect(peak).toBeLessThanOrEqual(1);
+    let error = 0;
+    for (let i = 1000; i < out.length - 1000; i++) {
+      error = Math.max(error, Math.abs(out[i] / peak - original[i]));
+    }
+    expect(error).toBeLessThan(0.05);
+  });
+
+  it("should not touch audio that never clipped", () => {
+    const original = tone(SAMPLE_RATE / 4, 50, 0.9);
+    const result = declip([original], {});
+    expect(result.repairs).toBe(0);
+    expect(result.channels[0]).toEqual(original);
+  });
+});
+
+describe("spectral region attenuation", () => {
+  it("should only turn down the selected time and frequency range", () => {
+    const samples = tone(SAMPLE_RATE, 500, 0.2);
+    tone(samples.length, 4000, 0.2, samples);
+
+    const [out] = attenuateSpectralRegion([samples], SAMPLE_RATE, {
+      startTime: 0.4,
+      endTime: 0.6,
+      lowFrequency: 3000,
+      highFrequency: 5000,
+      gain: -40,
+    });
+
+    const inside = [0.45 * SAMPLE_RATE, 0.55 * SAMPLE_RATE] as const;
+    expect(levelAt(out, 4000, ...inside)).toBeLessThan(-50);
+    expect(levelAt(out, 500, ...inside)).toBeCloseTo(levelAt(samples, 500), 1);
+    // Outside the frames that overlap the region nothing changes at all
+    for (const i of [1000, 0.3 * SAMPLE_RATE, 0.7 * SAMPLE_RATE]) {
+      expect(out[i]).toBe(samples[i]);
+    }
+  });
+});
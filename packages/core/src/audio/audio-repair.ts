@@ -0,0 +1,680 @@
+import { getWasmFFT } from "../wasm/fft";
+import { biquadCoefficients } from "./biquad";
+
+export interface HumRemovalConfig {
+  /** Mains fundamental in Hz; detected from the audio when left out */
+  frequency?: number;
+  harmonics: number; // 1 to 16, including the fundamental
+  q: number; // 5 to 100, notch width is frequency / q
+}
+
+export interface DeclickConfig {
+  sensitivity: number; // 0 to 1
+  maxClickLength: number; // 0.0005 to 0.005 seconds
+}
+
+export interface DeclipConfig {
+  /** Level the audio clipped at, 0 to 1; detected when left out */
+  threshold?: number;
+}
+
+/** A time and frequency rectangle of a spectrogram, in source time. */
+export interface SpectralRegion {
+  startTime: number;
+  endTime: number;
+  lowFrequency: number;
+  highFrequency: number;
+  gain: number; // -60 to 0 dB
+}
+
+export type AudioRepair =
+  | ({ type: "hum" } & HumRemovalConfig)
+  | ({ type: "declick" } & DeclickConfig)
+  | ({ type: "declip" } & DeclipConfig)
+  | ({ type: "spectral" } & SpectralRegion);
+
+export interface AudioRepairResult {
+  readonly channels: Float32Array[];
+  /** Clicks or clipped runs rebuilt; 0 for hum and spectral repairs */
+  readonly repairs: number;
+  /** Fundamental the hum remover notched out */
+  readonly humFrequency?: number;
+}
+
+export const DEFAULT_HUM_REMOVAL: HumRemovalConfig = {
+  harmonics: 8,
+  q: 30,
+};
+
+export const DEFAULT_DECLICK: DeclickConfig = {
+  sensitivity: 0.5,
+  maxClickLength: 0.002,
+};
+
+/** Runs one repair over every channel of the audio. */
+export function applyAudioRepair(
+  channels: Float32Array[],
+  sampleRate: number,
+  repair: AudioRepair,
+): AudioRepairResult {
+  switch (repair.type) {
+    case "hum": {
+      const frequency =
+        repair.frequency ?? detectHumFrequency(channels, sampleRate);
+      if (frequency === null) {
+        throw new Error("No mains hum found; set the frequency manually");
+      }
+      return {
+        channels: removeHum(channels, sampleRate, { ...repair, frequency }),
+        repairs: 0,
+        humFrequency: frequency,
+      };
+    }
+    case "declick":
+      return declick(channels, sampleRate, repair);
+    case "declip":
+      return declip(channels, repair);
+    case "spectral":
+      return {
+        channels: attenuateSpectralRegion(channels, sampleRate, repair),
+        repairs: 0,
+      };
+  }
+}
+
+// Hum
+
+const HUM_CANDIDATES = [50, 60];
+/** How far mains frequency is searched either side of nominal, in Hz */
+const HUM_SEARCH = 1;
+const HUM_HARMONICS_CHECKED = 8;
+/** dB a harmonic has to stand above its neighbourhood to count */
+const HUM_PROMINENCE = 10;
+const HUM_MAX_FRAMES = 64;
+
+/**
+ * Mains hum fundamental, 50 or 60 Hz refined to the actual line frequency,
+ * or null when neither series of harmonics stands out of the spectrum.
+ */
+export function detectHumFrequency(
+  channels: Float32Array[],
+  sampleRate: number,
+): number | null {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return null;
+
+  // Around 0.7 seconds, a bin narrow enough to separate 50 from 60 Hz
+  // harmonics and place the fundamental within a few hundredths of a Hz
+  let fftSize = 1;
+  while (fftSize < sampleRate / 2) fftSize <<= 1;
+  const fft = getWasmFFT(fftSize);
+  const binWidth = sampleRate / fftSize;
+
+  const frames = Math.max(
+    1,
+    Math.min(
+      HUM_MAX_FRAMES,
+      Math.floor((length - fftSize) / (fftSize / 2)) + 1,
+    ),
+  );
+  const hop =
+    frames > 1 ? Math.floor((length - fftSize) / (frames - 1)) : fftSize;
+  const spectrum = new Float32Array(fftSize / 2);
+  const frame = new Float32Array(fftSize);
+  for (let f = 0; f < frames; f++) {
+    frame.fill(0);
+    for (let i = 0; i < fftSize && f * hop + i < length; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[f * hop + i];
+      frame[i] = sum / channels.length;
+    }
+    const { real, imag } = fft.forward(fft.applyHannWindow(frame));
+    const magnitudes = fft.getMagnitude(real, imag);
+    for (let i = 0; i < spectrum.length; i++) spectrum[i] += magnitudes[i];
+  }
+
+  // Median of the bins around a frequency, skipping the peak itself
+  const backgroundAt = (frequency: number) => {
+    const centre = Math.round(frequency / binWidth);
+    const neighbours: number[] = [];
+    for (let offset = 4; offset <= 16; offset++) {
+      if (centre - offset > 0) neighbours.push(spectrum[centre - offset]);
+      if (centre + offset < spectrum.length) {
+        neighbours.push(spectrum[centre + offset]);
+      }
+    }
+    neighbours.sort((a, b) => a - b);
+    return neighbours[neighbours.length >> 1] || 1e-12;
+  };
+
+  let best: { frequency: number; prominence: number } | null = null;
+  for (const nominal of HUM_CANDIDATES) {
+    const harmonics = Math.min(
+      HUM_HARMONICS_CHECKED,
+      Math.floor((sampleRate * 0.45) / (nominal + HUM_SEARCH)),
+    );
+
+    let prominence = 0;
+    let weightedSum = 0;
+    let weights = 0;
+    let prominent = 0;
+    for (let k = 1; k <= harmonics; k++) {
+      const low = Math.floor((k * (nominal - HUM_SEARCH)) / binWidth);
+      const high = Math.ceil((k * (nominal + HUM_SEARCH)) / binWidth);
+      let peak = low;
+      for (let bin = low + 1; bin <= high; bin++) {
+        if (spectrum[bin] > spectrum[peak]) peak = bin;
+      }
+      const db = 20 * Math.log10(spectrum[peak] / backgroundAt(k * nominal));
+      if (!(db >= HUM_PROMINENCE) || peak < 1) continue;
+
+      // Parabola through the log magnitudes places the peak between bins;
+      // higher harmonics pin the fundamental down more finely
+      const alpha = Math.log(spectrum[peak - 1] + 1e-12);
+      const beta = Math.log(spectrum[peak] + 1e-12);
+      const gamma = Math.log(spectrum[peak + 1] + 1e-12);
+      const denominator = alpha - 2 * beta + gamma;
+      const offset =
+        denominator < 0 ? (0.5 * (alpha - gamma)) / denominator : 0;
+      const estimate = ((peak + offset) * binWidth) / k;
+      weightedSum += estimate * k;
+      weights += k;
+      prominence += db;
+      prominent++;
+    }
+
+    if (prominent >= 2 && (!best || prominence > best.prominence)) {
+      best = {
+        frequency: Math.round((weightedSum / weights) * 100) / 100,
+        prominence,
+      };
+    }
+  }
+  return best?.frequency ?? null;
+}
+
+/**
+ * Notches the hum fundamental and its harmonics out of each channel. Each
+ * notch runs forward then backward, so the result has no phase shift and
+ * no settling at either end.
+ */
+export function removeHum(
+  channels: Float32Array[],
+  sampleRate: number,
+  config: HumRemovalConfig & { frequency: number },
+): Float32Array[] {
+  const q = Math.max(5, Math.min(100, config.q));
+  const harmonics = Math.max(1, Math.min(16, Math.round(config.harmonics)));
+  const notches: number[][] = [];
+  for (let k = 1; k <= harmonics; k++) {
+    const frequency = config.frequency * k;
+    if (frequency >= sampleRate * 0.45) break;
+    notches.push(biquadCoefficients("notch", frequency, 0, q, sampleRate));
+  }
+
+  return channels.map((channel) => {
+    const output = Float32Array.from(channel);
+    for (const coefficients of notches) {
+      filterInPlace(output, coefficients);
+      output.reverse();
+      filterInPlace(output, coefficients);
+      output.reverse();
+    }
+    return output;
+  });
+}
+
+function filterInPlace(samples: Float32Array, coefficients: number[]): void {
+  const [b0, b1, b2, a1, a2] = coefficients;
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b2 * x - a2 * y;
+    samples[i] = y;
+  }
+}
+
+// Clicks and clipping
+
+const DECLICK_BLOCK = 2048;
+const DECLICK_ORDER = 24;
+/** Residual level below which nothing counts as a click, about -80 dBFS */
+const DECLICK_FLOOR = 1e-4;
+const INTERPOLATION_ORDER = 16;
+
+/**
+ * Finds clicks as spikes in the error of a linear predictor fitted to each
+ * block, then rebuilds each click from the audio either side of it.
+ */
+export function declick(
+  channels: Float32Array[],
+  sampleRate: number,
+  config: DeclickConfig,
+): AudioRepairResult {
+  const sensitivity = Math.max(0, Math.min(1, config.sensitivity));
+  // Robust standard deviations of the prediction error a spike must reach
+  const factor = 12 - 9 * sensitivity;
+  const maxLength = Math.max(
+    2,
+    Math.round(
+      Math.max(0.0005, Math.min(0.005, config.maxClickLength)) * sampleRate,
+    ),
+  );
+
+  let repairs = 0;
+  const output = channels.map((channel) => {
+    const samples = Float32Array.from(channel);
+    const marked = new Uint8Array(samples.length);
+
+    for (let start = 0; start < samples.length; start += DECLICK_BLOCK) {
+      const end = Math.min(samples.length, start + DECLICK_BLOCK);
+      if (end - start <= DECLICK_ORDER * 2) continue;
+      const predictor = fitPredictor(samples, start, end, DECLICK_ORDER);
+
+      // A click throws off the prediction from before it and, running
+      // backward, from after it, while the error it leaves in its wake only
+      // shows in one direction
+      const first = Math.max(start, DECLICK_ORDER);
+      const last = Math.min(end, samples.length - DECLICK_ORDER);
+      if (last <= first) continue;
+      const residual = new Float32Array(last - first);
+      for (let i = first; i < last; i++) {
+        let forward = samples[i];
+        let backward = samples[i];
+        for (let j = 1; j <= DECLICK_ORDER; j++) {
+          forward += predictor[j] * samples[i - j];
+          backward += predictor[j] * samples[i + j];
+        }
+        residual[i - first] = Math.min(Math.abs(forward), Math.abs(backward));
+      }
+      const sorted = Float32Array.from(residual).sort();
+      const sigma = 1.4826 * sorted[sorted.length >> 1];
+      const threshold = Math.max(factor * sigma, DECLICK_FLOOR);
+      for (let i = 0; i < residual.length; i++) {
+        if (residual[i] > threshold) marked[first + i] = 1;
+      }
+    }
+
+    for (const [start, end] of findRuns(marked, 1, 4)) {
+      if (end - start > maxLength) continue;
+      interpolateGap(samples, start, end, marked);
+      repairs++;
+    }
+    return samples;
+  });
+
+  return { channels: output, repairs };
+}
+
+/**
+ * Rebuilds runs of clipped samples from the audio either side of them,
+ * keeping each rebuilt peak at least as loud as the clip level. The result
+ * is turned down as a whole if the rebuilt peaks would go over full scale.
+ */
+export function declip(
+  channels: Float32Array[],
+  config: DeclipConfig,
+): AudioRepairResult {
+  let positive = 0;
+  let negative = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      if (channel[i] > positive) positive = channel[i];
+      if (channel[i] < negative) negative = channel[i];
+    }
+  }
+  // Clipped audio sits at its peak level for several samples in a row,
+  // within a 16-bit step
+  const detected = config.threshold === undefined;
+  const positiveLevel = detected ? positive - 1e-5 : config.threshold!;
+  const negativeLevel = detected ? negative + 1e-5 : -config.threshold!;
+
+  let repairs = 0;
+  let peak = 0;
+  const output = channels.map((channel) => {
+    const samples = Float32Array.from(channel);
+    const clipped = new Uint8Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      if (
+        (positiveLevel > 0 && samples[i] >= positiveLevel) ||
+        (negativeLevel < 0 && samples[i] <= negativeLevel)
+      ) {
+        clipped[i] = 1;
+      }
+    }
+
+    // A smooth peak can round to the same value twice, a flattened one
+    // holds for longer
+    for (const [start, end] of findRuns(clipped, detected ? 3 : 2, 0)) {
+      const sign = samples[start] > 0 ? 1 : -1;
+      const level = sign > 0 ? positiveLevel : -negativeLevel;
+      interpolateGap(samples, start, end, clipped);
+      for (let i = start; i < end; i++) {
+        samples[i] = sign * Math.max(level, sign * samples[i]);
+      }
+      repairs++;
+    }
+
+    for (let i = 0; i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    return samples;
+  });
+
+  if (peak > 1) {
+    const scale = 0.999 / peak;
+    for (const samples of output) {
+      for (let i = 0; i < samples.length; i++) samples[i] *= scale;
+    }
+  }
+  return { channels: output, repairs };
+}
+
+/**
+ * Runs of flagged samples as `[start, end)` pairs, at least `minLength`
+ * long, merging runs separated by up to `maxGap` unflagged samples.
+ */
+function findRuns(
+  flags: Uint8Array,
+  minLength: number,
+  maxGap: number,
+): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  let i = 0;
+  while (i < flags.length) {
+    if (!flags[i]) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let end = i + 1;
+    for (let j = end; j < flags.length && j - end <= maxGap; j++) {
+      if (flags[j]) end = j + 1;
+    }
+    if (end - start >= minLength) runs.push([start, end]);
+    i = end;
+  }
+  for (const run of runs) {
+    for (let j = run[0]; j < run[1]; j++) flags[j] = 1;
+  }
+  return runs;
+}
+
+/**
+ * Fills `[start, end)` by predicting forward from the audio before the gap
+ * and backward from the audio after it, crossfading the two. Context stops
+ * at other flagged samples so one damaged run doesn't feed another.
+ */
+function interpolateGap(
+  samples: Float32Array,
+  start: number,
+  end: number,
+  flags: Uint8Array,
+): void {
+  const length = end - start;
+  const contextLength = Math.max(INTERPOLATION_ORDER * 4, length * 2);
+
+  let before = start;
+  while (before > 0 && start - before < contextLength && !flags[before - 1]) {
+    before--;
+  }
+  let after = end;
+  while (
+    after < samples.length &&
+    after - end < contextLength &&
+    !flags[after]
+  ) {
+    after++;
+  }
+
+  const forward = predictGap(samples, before, start, length, 1);
+  const backward = predictGap(samples, after, end, length, -1);
+
+  for (let i = 0; i < length; i++) {
+    const weight = 0.5 - 0.5 * Math.cos((Math.PI * (i + 1)) / (length + 1));
+    if (forward && backward) {
+      samples[start + i] = (1 - weight) * forward[i] + weight * backward[i];
+    } else if (forward || backward) {
+      samples[start + i] = (forward ?? backward)![i];
+    } else {
+      const left = start > 0 ? samples[start - 1] : 0;
+      const right = end < samples.length ? samples[end] : 0;
+      samples[start + i] = left + ((right - left) * (i + 1)) / (length + 1);
+    }
+  }
+}
+
+/**
+ * Extrapolates `length` samples from the context between `from` and `to`,
+ * forward past `to` when `direction` is 1 or backward before it when -1,
+ * in sample order. Null when there is too little context to fit a
+ * predictor.
+ */
+function predictGap(
+  samples: Float32Array,
+  from: number,
+  to: number,
+  length: number,
+  direction: 1 | -1,
+): Float32Array | null {
+  const contextLength = Math.abs(to - from);
+  const order = Math.min(INTERPOLATION_ORDER, Math.floor(contextLength / 3));
+  if (order < 2) return null;
+
+  // Context in the order the prediction runs, so a backward prediction is
+  // a forward one over the reversed audio
+  const context = new Float32Array(contextLength + length);
+  for (let i = 0; i < contextLength; i++) {
+    context[i] = direction === 1 ? samples[from + i] : samples[from - 1 - i];
+  }
+  const predictor = fitPredictorCovariance(context, contextLength, order);
+  let limit = 0;
+  for (let i = 0; i < contextLength; i++) {
+    limit = Math.max(limit, Math.abs(context[i]));
+  }
+  // An unstable fit can run away over a long gap
+  limit *= 4;
+
+  const predicted = new Float32Array(length);
+  for (let i = contextLength; i < context.length; i++) {
+    let value = 0;
+    for (let j = 1; j <= order; j++) value -= predictor[j] * context[i - j];
+    context[i] = Math.max(-limit, Math.min(limit, value));
+  }
+  predicted.set(context.subarray(contextLength));
+  if (direction === -1) predicted.reverse();
+  return predicted;
+}
+
+/**
+ * Linear prediction error filter of `samples[0, length)` by least squares
+ * (the covariance method), which unlike the autocorrelation method doesn't
+ * damp the prediction, so tones carry on at full level across a gap.
+ */
+function fitPredictorCovariance(
+  samples: Float32Array,
+  length: number,
+  order: number,
+): Float64Array {
+  // Normal equations for x[n] ≈ Σ c[i] x[n - i], augmented with the right
+  // hand side in the last column
+  const matrix = Array.from(
+    { length: order },
+    () => new Float64Array(order + 1),
+  );
+  for (let n = order; n < length; n++) {
+    for (let i = 0; i < order; i++) {
+      const xi = samples[n - 1 - i];
+      matrix[i][order] += samples[n] * xi;
+      for (let j = 0; j < order; j++) {
+        matrix[i][j] += xi * samples[n - 1 - j];
+      }
+    }
+  }
+  let trace = 0;
+  for (let i = 0; i < order; i++) trace += matrix[i][i];
+  for (let i = 0; i < order; i++)
+    matrix[i][i] += (trace / order) * 1e-9 + 1e-20;
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < order; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < order; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) {
+        pivot = row;
+      }
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    const divisor = matrix[column][column] || 1e-20;
+    for (let row = column + 1; row < order; row++) {
+      const factor = matrix[row][column] / divisor;
+      for (let k = column; k <= order; k++) {
+        matrix[row][k] -= factor * matrix[column][k];
+      }
+    }
+  }
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  for (let i = order - 1; i >= 0; i--) {
+    let sum = matrix[i][order];
+    for (let j = i + 1; j < order; j++) sum += a[j + 1] * matrix[i][j];
+    a[i + 1] = -sum / (matrix[i][i] || 1e-20);
+  }
+  return a;
+}
+
+/**
+ * Linear prediction error filter `[1, a1 .. ap]` of `samples[start, end)`
+ * by the autocorrelation method, so `x[n] ≈ -Σ a[j] x[n - j]`.
+ */
+function fitPredictor(
+  samples: Float32Array,
+  start: number,
+  end: number,
+  order: number,
+): Float64Array {
+  const r = new Float64Array(order + 1);
+  for (let lag = 0; lag <= order; lag++) {
+    let sum = 0;
+    for (let i = start + lag; i < end; i++) {
+      sum += samples[i] * samples[i - lag];
+    }
+    r[lag] = sum;
+  }
+  // A touch of white noise keeps the recursion stable on pure tones
+  r[0] = r[0] * (1 + 1e-9) + 1e-20;
+
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = r[0];
+  for (let i = 1; i <= order; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) acc += a[j] * r[i - j];
+    const k = -acc / error;
+    const previous = a.slice();
+    for (let j = 1; j < i; j++) a[j] = previous[j] + k * previous[i - j];
+    a[i] = k;
+    error *= 1 - k * k;
+    if (error <= 0) break;
+  }
+  return a;
+}
+
+// Spectral editing
+
+const SPECTRAL_FFT_SIZE = 2048;
+const SPECTRAL_HOP = SPECTRAL_FFT_SIZE / 4;
+/** Bins over which a region's edge fades back to unity gain */
+const SPECTRAL_TAPER = 3;
+
+/**
+ * Turns down a time and frequency rectangle by `region.gain` dB with a
+ * short-time Fourier transform. Only the change is overlap-added back, so
+ * audio outside the region comes out bit-identical.
+ */
+export function attenuateSpectralRegion(
+  channels: Float32Array[],
+  sampleRate: number,
+  region: SpectralRegion,
+): Float32Array[] {
+  const n = SPECTRAL_FFT_SIZE;
+  const fft = getWasmFFT(n);
+  const binWidth = sampleRate / n;
+  const gain = Math.pow(10, Math.max(-60, Math.min(0, region.gain)) / 20);
+  const startSample = Math.max(0, Math.floor(region.startTime * sampleRate));
+  const endSample = Math.ceil(region.endTime * sampleRate);
+  const lowBin = Math.max(0, Math.floor(region.lowFrequency / binWidth));
+  const highBin = Math.min(n / 2, Math.ceil(region.highFrequency / binWidth));
+
+  const window = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+  }
+  // Squared periodic Hann windows at a quarter hop sum to 1.5
+  const overlap = 1.5;
+
+  const taper = (distance: number) =>
+    distance <= 0
+      ? 1
+      : distance >= SPECTRAL_TAPER
+        ? 0
+        : 0.5 + 0.5 * Math.cos((Math.PI * distance) / SPECTRAL_TAPER);
+
+  const binWeights = new Float32Array(n / 2 + 1);
+  for (let bin = 0; bin <= n / 2; bin++) {
+    binWeights[bin] = taper(Math.max(lowBin - bin, bin - highBin));
+  }
+
+  return channels.map((channel) => {
+    const output = Float32Array.from(channel);
+    if (endSample <= startSample || highBin < lowBin) return output;
+
+    const firstFrame = Math.max(
+      0,
+      Math.floor((startSample - n) / SPECTRAL_HOP) + 1,
+    );
+    const lastFrame = Math.floor((endSample - 1) / SPECTRAL_HOP);
+    const frame = new Float32Array(n);
+
+    for (let f = firstFrame; f <= lastFrame; f++) {
+      const offset = f * SPECTRAL_HOP;
+      if (offset >= channel.length) break;
+      // Frames count by how much of their window lies inside the region
+      let inside = 0;
+      for (let i = 0; i < n; i++) {
+        const position = offset + i;
+        if (position >= startSample && position < endSample) {
+          inside += window[i];
+        }
+      }
+      const timeWeight = inside / (n / 2);
+      if (timeWeight <= 0) continue;
+
+      for (let i = 0; i < n; i++) {
+        const position = offset + i;
+        frame[i] =
+          position < channel.length ? channel[position] * window[i] : 0;
+      }
+      const { real, imag } = fft.forward(frame);
+      for (let bin = 0; bin <= n / 2; bin++) {
+        const change = (gain - 1) * binWeights[bin] * Math.min(1, timeWeight);
+        real[bin] *= change;
+        imag[bin] *= change;
+        if (bin > 0 && bin < n / 2) {
+          real[n - bin] *= change;
+          imag[n - bin] *= change;
+        }
+      }
+      const difference = fft.inverse(real, imag);
+      for (let i = 0; i < n; i++) {
+        const position = offset + i;
+        if (position >= output.length) break;
+        output[position] += (difference[i] * window[i]) / overlap;
+      }
+    }
+    return output;
+  });
+}
@@ -0,0 +1,142 @@
+import type { EQBand } from "../types/effects";
+
+/**
+ * Normalized biquad coefficients `[b0, b1, b2, a1, a2]` for an EQ band,
+ * following the Web Audio BiquadFilterNode formulas so a band sounds the
+ * same whether it runs as a native node or in the effects worklet. As in
+ * Web Audio, `q` is in dB for lowpass and highpass and shelves ignore it.
+ *
+ * The effects worklet embeds this function's source, so it must not
+ * reference anything outside its own body.
+ */
+export function biquadCoefficients(
+  type: string,
+  frequency: number,
+  gain: number,
+  q: number,
+  sampleRate: number,
+): number[] {
+  const nyquist = sampleRate / 2;
+  const w0 =
+    (2 * Math.PI * Math.max(0, Math.min(nyquist, frequency))) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+  const A = Math.pow(10, gain / 40);
+  let b0 = 1;
+  let b1 = 0;
+  let b2 = 0;
+  let a0 = 1;
+  let a1 = 0;
+  let a2 = 0;
+
+  switch (type) {
+    case "lowpass":
+    case "highpass": {
+      const alpha = sin / (2 * Math.pow(10, q / 20));
+      const sign = type === "lowpass" ? -1 : 1;
+      b0 = (1 + sign * cos) / 2;
+      b1 = -sign * (1 + sign * cos);
+      b2 = b0;
+      a0 = 1 + alpha;
+      a1 = -2 * cos;
+      a2 = 1 - alpha;
+      break;
+    }
+    case "peaking": {
+      const alpha = sin / (2 * Math.max(q, 1e-4));
+      b0 = 1 + alpha * A;
+      b1 = -2 * cos;
+      b2 = 1 - alpha * A;
+      a0 = 1 + alpha / A;
+      a1 = -2 * cos;
+      a2 = 1 - alpha / A;
+      break;
+    }
+    case "notch": {
+      const alpha = sin / (2 * Math.max(q, 1e-4));
+      b0 = 1;
+      b1 = -2 * cos;
+      b2 = 1;
+      a0 = 1 + alpha;
+      a1 = -2 * cos;
+      a2 = 1 - alpha;
+      break;
+    }
+    case "lowshelf":
+    case "highshelf": {
+      const sign = type === "lowshelf" ? 1 : -1;
+      const twoSqrtAAlpha = sin * Math.sqrt(A) * Math.SQRT2;
+      b0 = A * (A + 1 - sign * (A - 1) * cos + twoSqrtAAlpha);
+      b1 = 2 * sign * A * (A - 1 - sign * (A + 1) * cos);
+      b2 = A * (A + 1 - sign * (A - 1) * cos - twoSqrtAAlpha);
+      a0 = A + 1 + sign * (A - 1) * cos + twoSqrtAAlpha;
+      a1 = -2 * sign * (A - 1 + sign * (A + 1) * cos);
+      a2 = A + 1 + sign * (A - 1) * cos - twoSqrtAAlpha;
+      break;
+    }
+  }
+
+  return [b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0];
+}
+
+/** Clamps a band to the ranges the EQ accepts. */
+export function clampEQBand(band: EQBand): EQBand {
+  return {
+    type: band.type,
+    frequency: Math.max(20, Math.min(20000, band.frequency)),
+    gain: Math.max(-24, Math.min(24, band.gain)),
+    q: Math.max(0.1, Math.min(18, band.q)),
+  };
+}
+
+/**
+ * Magnitude response in dB of a chain of EQ bands at each of
+ * `frequencies`.
+ */
+export function getEQResponse(
+  bands: EQBand[],
+  sampleRate: number,
+  frequencies: Float32Array,
+): Float32Array {
+  const response = new Float32Array(frequencies.length);
+  for (const band of bands.map(clampEQBand)) {
+    const [b0, b1, b2, a1, a2] = biquadCoefficients(
+      band.type,
+      band.frequency,
+      band.gain,
+      band.q,
+      sampleRate,
+    );
+    for (let i = 0; i < frequencies.length; i++) {
+      const w = (2 * Math.PI * frequencies[i]) / sampleRate;
+      const cos1 = Math.cos(w);
+      const sin1 = Math.sin(w);
+      const cos2 = Math.cos(2 * w);
+      const sin2 = Math.sin(2 * w);
+      const numReal = b0 + b1 * cos1 + b2 * cos2;
+      const numImag = -(b1 * sin1 + b2 * sin2);
+      const denReal = 1 + a1 * cos1 + a2 * cos2;
+      const denImag = -(a1 * sin1 + a2 * sin2);
+      const magnitude = Math.sqrt(
+        (numReal * numReal + numImag * numImag) /
+          (denReal * denReal + denImag * denImag),
+      );
+      response[i] += 20 * Math.log10(Math.max(magnitude, 1e-9));
+    }
+  }
+  return response;
+}
+
+/** `count` frequencies spaced evenly on a log scale from `min` to `max`. */
+export function logFrequencies(
+  count: number,
+  min: number = 20,
+  max: number = 20000,
+): Float32Array {
+  const frequencies = new Float32Array(count);
+  const ratio = Math.log(max / min);
+  for (let i = 0; i < count; i++) {
+    frequencies[i] = min * Math.exp((ratio * i) / Math.max(1, count - 1));
+  }
+  return frequencies;
+}
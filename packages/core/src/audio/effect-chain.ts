@@ -0,0 +1,248 @@
+import type { Effect } from "../types/timeline";
+import {
+  createEffectsWorkletNode,
+  getEffectWorkletParams,
+  isEffectsWorkletLoaded,
+} from "./effects-worklet-processor";
+
+/**
+ * Web Audio node chains for the compressor, EQ, reverb, delay, de-esser,
+ * limiter, gate and pitch shift effects. Shared by live playback and
+ * offline rendering so both process a mix the same way.
+ */
+export interface EffectChain {
+  input: AudioNode;
+  output: AudioNode;
+  /** Every node in the chain, for disconnecting. */
+  nodes: AudioNode[];
+}
+
+const impulseResponseCache = new WeakMap<
+  BaseAudioContext,
+  Map<string, AudioBuffer>
+>();
+
+/**
+ * Builds the enabled effects into a serial chain. With none enabled the
+ * chain is a single pass-through gain.
+ */
+export function createEffectChain(
+  context: BaseAudioContext,
+  effects: Effect[],
+): EffectChain {
+  const input = context.createGain();
+  const nodes: AudioNode[] = [input];
+  let output: AudioNode = input;
+
+  for (const effect of effects.filter((e) => e.enabled)) {
+    switch (effect.type) {
+      case "compressor": {
+        const compressor = createCompressorNode(context, effect);
+        output.connect(compressor);
+        output = compressor;
+        nodes.push(compressor);
+        break;
+      }
+      case "eq": {
+        const worklet = createWorkletEffectNode(context, effect);
+        for (const node of worklet
+          ? [worklet]
+          : createEQFilters(context, effect)) {
+          output.connect(node);
+          output = node;
+          nodes.push(node);
+        }
+        break;
+      }
+      case "deEsser":
+      case "limiter":
+      case "gate":
+      case "pitchShift": {
+        const worklet = createWorkletEffectNode(context, effect);
+        if (worklet) {
+          output.connect(worklet);
+          output = worklet;
+          nodes.push(worklet);
+        }
+        break;
+      }
+      case "reverb": {
+        const reverb = createReverbNodes(context, effect);
+        output.connect(reverb[0]);
+        output = reverb[reverb.length - 1];
+        nodes.push(...reverb);
+        break;
+      }
+      case "delay": {
+        const delay = createDelayNodes(context, effect);
+        output.connect(delay[0]);
+        output = delay[delay.length - 1];
+        nodes.push(...delay);
+        break;
+      }
+    }
+  }
+
+  return { input, output, nodes };
+}
+
+export function disconnectEffectChain(chain: EffectChain): void {
+  for (const node of chain.nodes) node.disconnect();
+}
+
+/**
+ * An effects worklet node running `effect`, or null when the effect isn't
+ * a worklet effect or the worklet hasn't been loaded into `context`. EQ
+ * falls back to BiquadFilterNodes, which respond identically; the other
+ * worklet effects are skipped.
+ */
+export function createWorkletEffectNode(
+  context: BaseAudioContext,
+  effect: Effect,
+): AudioWorkletNode | null {
+  const params = getEffectWorkletParams(effect);
+  if (!params || !isEffectsWorkletLoaded(context)) return null;
+  return createEffectsWorkletNode(context, params);
+}
+
+function createCompressorNode(
+  context: BaseAudioContext,
+  effect: Effect,
+): DynamicsCompressorNode {
+  const params = effect.params as Record<string, number>;
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = params.threshold ?? -24;
+  compressor.ratio.value = params.ratio ?? 4;
+  compressor.attack.value = params.attack ?? 0.003;
+  compressor.release.value = params.release ?? 0.25;
+  compressor.knee.value = params.knee ?? 30;
+  return compressor;
+}
+
+function createEQFilters(
+  context: BaseAudioContext,
+  effect: Effect,
+): BiquadFilterNode[] {
+  const params = effect.params as {
+    bands?: Array<{
+      type: string;
+      frequency: number;
+      gain: number;
+      q: number;
+    }>;
+  };
+  return (params.bands || []).map((band) => {
+    const filter = context.createBiquadFilter();
+    filter.type = band.type as BiquadFilterType;
+    filter.frequency.value = Math.max(20, Math.min(20000, band.frequency));
+    filter.gain.value = Math.max(-24, Math.min(24, band.gain));
+    filter.Q.value = Math.max(0.1, Math.min(18, band.q));
+    return filter;
+  });
+}
+
+/** Input first, output last. */
+function createReverbNodes(
+  context: BaseAudioContext,
+  effect: Effect,
+): AudioNode[] {
+  const params = effect.params as Record<string, number>;
+  const roomSize = params.roomSize ?? 0.5;
+  const damping = params.damping ?? 0.5;
+
+  const inputGain = context.createGain();
+  const dryGain = context.createGain();
+  const wetGain = context.createGain();
+  const convolver = context.createConvolver();
+  const outputGain = context.createGain();
+
+  dryGain.gain.value = params.dryLevel ?? 0.7;
+  wetGain.gain.value = params.wetLevel ?? 0.5;
+  convolver.buffer = getImpulseResponse(context, roomSize, damping);
+
+  inputGain.connect(dryGain);
+  dryGain.connect(outputGain);
+  inputGain.connect(convolver);
+  convolver.connect(wetGain);
+  wetGain.connect(outputGain);
+
+  return [inputGain, dryGain, wetGain, convolver, outputGain];
+}
+
+/**
+ * Decaying noise impulse response. The noise is seeded from the room
+ * parameters so playback and export convolve with the same response.
+ */
+function getImpulseResponse(
+  context: BaseAudioContext,
+  roomSize: number,
+  damping: number,
+): AudioBuffer {
+  let cache = impulseResponseCache.get(context);
+  if (!cache) {
+    cache = new Map();
+    impulseResponseCache.set(context, cache);
+  }
+  const key = `${roomSize.toFixed(2)}_${damping.toFixed(2)}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const sampleRate = context.sampleRate;
+  const duration = 0.5 + roomSize * 3.5;
+  const length = Math.floor(sampleRate * duration);
+  const impulseBuffer = context.createBuffer(2, length, sampleRate);
+
+  // mulberry32
+  let seed = Math.round(roomSize * 100) * 101 + Math.round(damping * 100) + 1;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  for (let channel = 0; channel < 2; channel++) {
+    const channelData = impulseBuffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      const decay = Math.exp((-3 * t) / duration);
+      const noise = (random() * 2 - 1) * decay;
+      const dampingFactor = 1 - (damping * t) / duration;
+      channelData[i] = noise * dampingFactor;
+    }
+  }
+
+  cache.set(key, impulseBuffer);
+  return impulseBuffer;
+}
+
+/** Input first, output last. */
+function createDelayNodes(
+  context: BaseAudioContext,
+  effect: Effect,
+): AudioNode[] {
+  const params = effect.params as Record<string, number>;
+  const wetLevel = params.wetLevel ?? 0.5;
+
+  const inputGain = context.createGain();
+  const delayNode = context.createDelay(2);
+  const feedbackGain = context.createGain();
+  const wetGain = context.createGain();
+  const dryGain = context.createGain();
+  const outputGain = context.createGain();
+
+  delayNode.delayTime.value = Math.max(0, Math.min(2, params.time ?? 0.5));
+  feedbackGain.gain.value = Math.max(0, Math.min(0.95, params.feedback ?? 0.3));
+  wetGain.gain.value = wetLevel;
+  dryGain.gain.value = 1 - wetLevel;
+
+  inputGain.connect(dryGain);
+  dryGain.connect(outputGain);
+  inputGain.connect(delayNode);
+  delayNode.connect(feedbackGain);
+  feedbackGain.connect(delayNode);
+  delayNode.connect(wetGain);
+  wetGain.connect(outputGain);
+
+  return [inputGain, delayNode, feedbackGain, wetGain, dryGain, outputGain];
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import {
+  effectsWorkletCode,
+  getEffectWorkletParams,
+  type EffectWorkletParams,
+} from "./effects-worklet-processor";
+import { getEQResponse } from "./biquad";
+import { measureTruePeakEnvelope } from "./loudness";
+import type { Effect } from "../types/timeline";
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128;
+
+interface Processor {
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean;
+}
+
+/** Evaluates the worklet source the way AudioWorkletGlobalScope would. */
+function createProcessor(
+  params: Partial<EffectWorkletParams>,
+  sampleRate: number = SAMPLE_RATE,
+): Processor {
+  let Processor: (new (options: unknown) => Processor) | undefined;
+  class AudioWorkletProcessor {
+    port = { onmessage: null, postMessage: () => undefined };
+  }
+  new Function(
+    "AudioWorkletProcessor",
+    "registerProcessor",
+    "sampleRate",
+    effectsWorkletCode,
+  )(
+    AudioWorkletProcessor,
+    (_name: string, processor: typeof Processor) => {
+      Processor = processor;
+    },
+    sampleRate,
+  );
+  return new Processor!({ processorOptions: params });
+}
+
+function run(processor: Processor, channels: Float32Array[]): Float32Array[] {
+  const length = channels[0].length;
+  const output = channels.map(() => new Float32Array(length));
+  for (let start = 0; start < length; start += BLOCK) {
+    const end = Math.min(length, start + BLOCK);
+    const outBlock = channels.map(() => new Float32Array(end - start));
+    processor.process(
+      [channels.map((c) => c.subarray(start, end))],
+      [outBlock],
+    );
+    outBlock.forEach((block, c) => output[c].set(block, start));
+  }
+  return output;
+}
+
+const sine = (frequency: number, db: number, seconds: number) => {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const amplitude = Math.pow(10, db / 20);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] =
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+/** Peak level in dB over the second half, past any settling. */
+const settledPeakDb = (samples: Float32Array) => {
+  let peak = 0;
+  for (let i = samples.length >> 1; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return 20 * Math.log10(peak);
+};
+
+const effect = (type: string, params: Record<string, unknown>): Effect => ({
+  id: type,
+  type,
+  params,
+  enabled: true,
+});
+
+describe("effects worklet", () => {
+  it("should run EQ bands with the response the curve display shows", () => {
+    const bands = [
+      { type: "peaking" as const, frequency: 1000, gain: 6, q: 1.4 },
+      { type: "highpass" as const, frequency: 200, gain: 0, q: 0 },
+    ];
+    const processor = createProcessor(
+      getEffectWorkletParams(effect("eq", { bands }))!,
+    );
+    for (const frequency of [100, 1000, 5000]) {
+      const [out] = run(processor, [sine(frequency, -12, 0.5)]);
+      const expected = getEQResponse(
+        bands,
+        SAMPLE_RATE,
+        new Float32Array([frequency]),
+      )[0];
+      expect(settledPeakDb(out)).toBeCloseTo(-12 + expected, 1);
+    }
+  });
+
+  it("should keep true peaks under the limiter ceiling", () => {
+    const processor = createProcessor(
+      getEffectWorkletParams(effect("limiter", { ceiling: -1 }))!,
+    );
+    // Inter-sample peaks land between samples at fs/4 with a 45° phase
+    const input = new Float32Array(SAMPLE_RATE);
+    for (let i = 0; i < input.length; i++) {
+      input[i] = 1.5 * Math.sin((Math.PI * i) / 2 + Math.PI / 4);
+    }
+    const output = run(processor, [input, input.slice()]);
+    // Away from the buffer ends, where the measurement's own filter rings
+    const envelope = measureTruePeakEnvelope(output, SAMPLE_RATE);
+    const peak = Math.max(...envelope.subarray(480, envelope.length - 480));
+    expect(20 * Math.log10(peak)).toBeLessThanOrEqual(-0.9);
+  });
+
+  it("should pass quiet audio through the limiter untouched but delayed", () => {
+    const processor = createProcessor(
+      getEffectWorkletParams(
+        effect("limiter", { ceiling: -1, lookahead: 0.005 }),
+      )!,
+    );
+    const input = sine(440, -12, 0.2);
+    const [out] = run(processor, [input]);
+    const delay = 240 + 5;
+    for (const i of [1000, 3000, 7000]) {
+      expect(out[i + delay]).toBeCloseTo(input[i], 6);
+    }
+  });
+
+  it("should gate low-level noise and let signal through", () => {
+    const params = getEffectWorkletParams(
+      effect("gate", { threshold: -40, range: 30, hold: 0.01 }),
+    )!;
+    const [quiet] = run(createProcessor(params), [sine(440, -60, 1)]);
+    const [loud] = run(createProcessor(params), [sine(440, -20, 1)]);
+    expect(settledPeakDb(quiet)).toBeCloseTo(-90, 0);
+    expect(settledPeakDb(loud)).toBeCloseTo(-20, 1);
+  });
+
+  it("should turn down sibilance without touching the low end", () => {
+    const params = getEffectWorkletParams(
+      effect("deEsser", { frequency: 5000, threshold: -30, range: 12 }),
+    )!;
+    const [ess] = run(createProcessor(params), [sine(9000, -6, 0.5)]);
+    const [voice] = run(createProcessor(params), [sine(200, -6, 0.5)]);
+    expect(settledPeakDb(ess)).toBeLessThan(-6 - 10);
+    expect(settledPeakDb(voice)).toBeCloseTo(-6, 1);
+  });
+
+  it("should shift pitch by the given semitones", () => {
+    const processor = createProcessor(
+      getEffectWorkletParams(effect("pitchShift", { semitones: 12 }))!,
+    );
+    const [out] = run(processor, [sine(220, -6, 1)]);
+    let crossings = 0;
+    for (let i = SAMPLE_RATE / 2 + 1; i < SAMPLE_RATE; i++) {
+      if (out[i - 1] < 0 && out[i] >= 0) crossings++;
+    }
+    // 440 Hz over half a second
+    expect(crossings).toBeGreaterThanOrEqual(215);
+    expect(crossings).toBeLessThanOrEqual(225);
+  });
+
+  it("should only map the effects the worklet implements", () => {
+    expect(getEffectWorkletParams(effect("reverb", {}))).toBeNull();
+    expect(
+      getEffectWorkletParams(effect("pitchShift", { semitones: 30 })),
+    ).toEqual({ pitchShiftEnabled: true, pitchShiftSemitones: 12 });
+  });
+});
@@ -1,3 +1,7 @@
+import type { Effect } from "../types/timeline";
+import type { EQBand } from "../types/effects";
+import { biquadCoefficients, clampEQBand } from "./biquad";
+
 export const EFFECTS_WORKLET_NAME = "openreel-effects-processor";
 
 export interface EffectWorkletParams {
@@ -12,6 +16,25 @@ export interface EffectWorkletParams {
   eqLowGain: number;
   eqMidGain: number;
   eqHighGain: number;
+  /** Parametric bands; when set they replace the fixed three-band EQ */
+  eqBands: EQBand[];
+  deEsserEnabled: boolean;
+  deEsserFrequency: number;
+  deEsserThreshold: number;
+  deEsserRange: number;
+  limiterEnabled: boolean;
+  limiterCeiling: number;
+  limiterRelease: number;
+  limiterLookahead: number;
+  gateEnabled: boolean;
+  gateThreshold: number;
+  gateRatio: number;
+  gateRange: number;
+  gateAttack: number;
+  gateHold: number;
+  gateRelease: number;
+  pitchShiftEnabled: boolean;
+  pitchShiftSemitones: number;
 }
 
 export const DEFAULT_EFFECT_WORKLET_PARAMS: EffectWorkletParams = {
@@ -26,9 +49,97 @@ export const DEFAULT_EFFECT_WORKLET_PARAMS: EffectWorkletParams = {
   eqLowGain: 0,
   eqMidGain: 0,
   eqHighGain: 0,
+  eqBands: [],
+  deEsserEnabled: false,
+  deEsserFrequency: 6500,
+  deEsserThreshold: -30,
+  deEsserRange: 10,
+  limiterEnabled: false,
+  limiterCeiling: -1,
+  limiterRelease: 0.1,
+  limiterLookahead: 0.005,
+  gateEnabled: false,
+  gateThreshold: -50,
+  gateRatio: 20,
+  gateRange: 40,
+  gateAttack: 0.001,
+  gateHold: 0.05,
+  gateRelease: 0.1,
+  pitchShiftEnabled: false,
+  pitchShiftSemitones: 0,
 };
 
+/** Effect types the worklet processes. */
+export const WORKLET_EFFECT_TYPES = [
+  "eq",
+  "deEsser",
+  "limiter",
+  "gate",
+  "pitchShift",
+] as const;
+
+/**
+ * Worklet parameters that run `effect` on its own, or null for effect
+ * types the worklet doesn't implement.
+ */
+export function getEffectWorkletParams(
+  effect: Effect,
+): Partial<EffectWorkletParams> | null {
+  const params = effect.params as Record<string, number>;
+  switch (effect.type) {
+    case "eq": {
+      const bands = (effect.params as { bands?: EQBand[] }).bands ?? [];
+      return { eqEnabled: true, eqBands: bands.map(clampEQBand) };
+    }
+    case "deEsser":
+      return {
+        deEsserEnabled: true,
+        deEsserFrequency: clamp(params.frequency ?? 6500, 2000, 12000),
+        deEsserThreshold: clamp(params.threshold ?? -30, -60, 0),
+        deEsserRange: clamp(params.range ?? 10, 0, 24),
+      };
+    case "limiter":
+      return {
+        limiterEnabled: true,
+        limiterCeiling: clamp(params.ceiling ?? -1, -12, 0),
+        limiterRelease: clamp(params.release ?? 0.1, 0.01, 1),
+        limiterLookahead: clamp(params.lookahead ?? 0.005, 0.001, 0.02),
+      };
+    case "gate":
+      return {
+        gateEnabled: true,
+        gateThreshold: clamp(params.threshold ?? -50, -80, 0),
+        gateRatio: clamp(params.ratio ?? 20, 1, 20),
+        gateRange: clamp(params.range ?? 40, 0, 80),
+        gateAttack: clamp(params.attack ?? 0.001, 0.0001, 0.1),
+        gateHold: clamp(params.hold ?? 0.05, 0, 1),
+        gateRelease: clamp(params.release ?? 0.1, 0.005, 2),
+      };
+    case "pitchShift":
+      return {
+        pitchShiftEnabled: true,
+        pitchShiftSemitones: clamp(params.semitones ?? 0, -12, 12),
+      };
+    default:
+      return null;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Processor source. Biquad coefficients come from the same function the
+ * EQ curve display uses. Dynamics detect across channels so stereo stays
+ * centred. The limiter delays its output by its look-ahead plus six
+ * samples for true-peak interpolation.
+ */
 export const effectsWorkletCode = `
+const biquadCoefficients = ${biquadCoefficients.toString()};
+
+const TRUE_PEAK_TAPS = 12;
+
 class OpenreelEffectsProcessor extends AudioWorkletProcessor {
  constructor(options) {
  super();
@@ -47,17 +158,62 @@ class OpenreelEffectsProcessor extends AudioWorkletProcessor {
  this.eqLowGain = 0;
  this.eqMidGain = 0;
  this.eqHighGain = 0;
+ this.eqBands = [];
+ this.eqCoefficients = [];
 
  this.lowpassState = [0, 0];
  this.highpassState = [0, 0];
  this.bandpassState = [0, 0];
 
+ this.deEsserEnabled = false;
+ this.deEsserFrequency = 6500;
+ this.deEsserThreshold = -30;
+ this.deEsserRange = 10;
+ this.deEsserEnvelope = 0;
+ this.deEsserAttackCoeff = Math.exp(-1 / (sampleRate * 0.0005));
+ this.deEsserReleaseCoeff = Math.exp(-1 / (sampleRate * 0.06));
+ this.lowBand = [];
+ this.highBand = [];
+
+ this.limiterEnabled = false;
+ this.limiterCeiling = -1;
+ this.limiterRelease = 0.1;
+ this.limiterLookahead = 0.005;
+ this.limiter = null;
+ this.truePeakPhases = this.createInterpolator(sampleRate < 96000 ? 4 : 2);
+
+ this.gateEnabled = false;
+ this.gateThreshold = -50;
+ this.gateRatio = 20;
+ this.gateRange = 40;
+ this.gateAttack = 0.001;
+ this.gateHold = 0.05;
+ this.gateRelease = 0.1;
+ this.gateDetector = 0;
+ this.gateDetectorDecay = Math.exp(-1 / (sampleRate * 0.01));
+ this.gateReduction = 0;
+ this.gateHoldCounter = 0;
+
+ this.pitchShiftEnabled = false;
+ this.pitchShiftSemitones = 0;
+ this.pitchWindow = Math.round(sampleRate * 0.05);
+ this.pitchPhase = 0;
+ this.pitchWrite = 0;
+
+ this.channels = [];
+ this.frame = [];
+
  this.port.onmessage = (event) => {
  const { type, params } = event.data;
  if (type === 'updateParams') {
  this.updateParams(params);
  }
  };
+
+ this.configure();
+ if (options && options.processorOptions) {
+ this.updateParams(options.processorOptions);
+ }
  }
 
  updateParams(params) {
@@ -72,6 +228,64 @@ class OpenreelEffectsProcessor extends AudioWorkletProcessor {
  if (params.eqLowGain !== undefined) this.eqLowGain = params.eqLowGain;
  if (params.eqMidGain !== undefined) this.eqMidGain = params.eqMidGain;
  if (params.eqHighGain !== undefined) this.eqHighGain = params.eqHighGain;
+ if (params.eqBands !== undefined) this.eqBands = params.eqBands;
+ if (params.deEsserEnabled !== undefined) this.deEsserEnabled = params.deEsserEnabled;
+ if (params.deEsserFrequency !== undefined) this.deEsserFrequency = params.deEsserFrequency;
+ if (params.deEsserThreshold !== undefined) this.deEsserThreshold = params.deEsserThreshold;
+ if (params.deEsserRange !== undefined) this.deEsserRange = params.deEsserRange;
+ if (params.limiterEnabled !== undefined) this.limiterEnabled = params.limiterEnabled;
+ if (params.limiterCeiling !== undefined) this.limiterCeiling = params.limiterCeiling;
+ if (params.limiterRelease !== undefined) this.limiterRelease = params.limiterRelease;
+ if (params.limiterLookahead !== undefined) this.limiterLookahead = params.limiterLookahead;
+ if (params.gateEnabled !== undefined) this.gateEnabled = params.gateEnabled;
+ if (params.gateThreshold !== undefined) this.gateThreshold = params.gateThreshold;
+ if (params.gateRatio !== undefined) this.gateRatio = params.gateRatio;
+ if (params.gateRange !== undefined) this.gateRange = params.gateRange;
+ if (params.gateAttack !== undefined) this.gateAttack = params.gateAttack;
+ if (params.gateHold !== undefined) this.gateHold = params.gateHold;
+ if (params.gateRelease !== undefined) this.gateRelease = params.gateRelease;
+ if (params.pitchShiftEnabled !== undefined) this.pitchShiftEnabled = params.pitchShiftEnabled;
+ if (params.pitchShiftSemitones !== undefined) this.pitchShiftSemitones = params.pitchShiftSemitones;
+ this.configure();
+ }
+
+ configure() {
+ this.eqCoefficients = this.eqBands.map((band) =>
+ biquadCoefficients(band.type, band.frequency, band.gain, band.q, sampleRate));
+ for (const state of this.channels) {
+ if (state.eq.length !== this.eqCoefficients.length) {
+ state.eq = this.eqCoefficients.map(() => [0, 0]);
+ }
+ }
+ // Butterworth sections, cascaded in pairs into a Linkwitz-Riley crossover
+ this.deEsserLowpass = biquadCoefficients('lowpass', this.deEsserFrequency, 0, -3.0103, sampleRate);
+ this.deEsserHighpass = biquadCoefficients('highpass', this.deEsserFrequency, 0, -3.0103, sampleRate);
+
+ const lookahead = Math.max(1, Math.round(this.limiterLookahead * sampleRate));
+ if (this.limiter && this.limiter.lookahead !== lookahead) {
+ this.limiter = null;
+ }
+ this.limiterCeilingLinear = this.dbToLinear(this.limiterCeiling);
+ this.limiterReleaseCoeff = Math.exp(-1 / (sampleRate * this.limiterRelease));
+
+ this.gateAttackCoeff = Math.exp(-1 / (sampleRate * this.gateAttack));
+ this.gateReleaseCoeff = Math.exp(-1 / (sampleRate * this.gateRelease));
+ this.gateHoldSamples = Math.round(this.gateHold * sampleRate);
+
+ this.pitchRatio = Math.pow(2, this.pitchShiftSemitones / 12);
+ }
+
+ channelState(channel) {
+ let state = this.channels[channel];
+ if (!state) {
+ state = {
+ eq: this.eqCoefficients.map(() => [0, 0]),
+ deEsser: [[0, 0], [0, 0], [0, 0], [0, 0]],
+ pitch: new Float32Array(this.pitchWindow + 2),
+ };
+ this.channels[channel] = state;
+ }
+ return state;
  }
 
  dbToLinear(db) {
@@ -126,37 +340,274 @@ class OpenreelEffectsProcessor extends AudioWorkletProcessor {
  return lowFreq * lowGainLinear + midFreq * midGainLinear + highFreq * highGainLinear;
  }
 
- process(inputs, outputs, parameters) {
- const input = inputs[0];
- const output = outputs[0];
+ processBiquad(sample, c, z) {
+ const out = c[0] * sample + z[0];
+ z[0] = c[1] * sample - c[3] * out + z[1];
+ z[1] = c[2] * sample - c[4] * out;
+ return out;
+ }
 
- if (!input || !input.length) {
- return true;
+ processBands(sample, channel) {
+ const state = this.channelState(channel);
+ for (let band = 0; band < this.eqCoefficients.length; band++) {
+ sample = this.processBiquad(sample, this.eqCoefficients[band], state.eq[band]);
+ }
+ return sample;
  }
 
- for (let channel = 0; channel < output.length; channel++) {
- const inputChannel = input[channel] || input[0];
- const outputChannel = output[channel];
+ processGate(frame, channelCount) {
+ let peak = 0;
+ for (let channel = 0; channel < channelCount; channel++) {
+ peak = Math.max(peak, Math.abs(frame[channel]));
+ }
+ this.gateDetector = peak > this.gateDetector ? peak : this.gateDetector * this.gateDetectorDecay;
+ const level = this.linearToDb(this.gateDetector);
+
+ let target = 0;
+ if (level >= this.gateThreshold) {
+ this.gateHoldCounter = this.gateHoldSamples;
+ } else if (this.gateHoldCounter > 0) {
+ this.gateHoldCounter--;
+ } else {
+ target = Math.min(this.gateRange, (this.gateThreshold - level) * (this.gateRatio - 1));
+ }
 
- for (let i = 0; i < outputChannel.length; i++) {
- let sample = inputChannel[i];
+ const coeff = target > this.gateReduction ? this.gateReleaseCoeff : this.gateAttackCoeff;
+ this.gateReduction = target + coeff * (this.gateReduction - target);
+ const gain = this.dbToLinear(-this.gateReduction);
+ for (let channel = 0; channel < channelCount; channel++) {
+ frame[channel] *= gain;
+ }
+ }
 
- if (this.bypass) {
- outputChannel[i] = sample;
- continue;
+ processDeEsser(frame, channelCount) {
+ let detect = 0;
+ for (let channel = 0; channel < channelCount; channel++) {
+ const sample = frame[channel];
+ const state = this.channelState(channel).deEsser;
+ const low = this.processBiquad(this.processBiquad(sample, this.deEsserLowpass, state[0]), this.deEsserLowpass, state[1]);
+ const high = this.processBiquad(this.processBiquad(sample, this.deEsserHighpass, state[2]), this.deEsserHighpass, state[3]);
+ this.lowBand[channel] = low;
+ this.highBand[channel] = high;
+ detect = Math.max(detect, Math.abs(high));
  }
 
+ const coeff = detect > this.deEsserEnvelope ? this.deEsserAttackCoeff : this.deEsserReleaseCoeff;
+ this.deEsserEnvelope = detect + coeff * (this.deEsserEnvelope - detect);
+ const over = this.linearToDb(this.deEsserEnvelope) - this.deEsserThreshold;
+ const reduction = Math.min(this.deEsserRange, Math.max(0, over));
+ const gain = this.dbToLinear(-reduction);
+
+ // Only the band above the split frequency is turned down
+ for (let channel = 0; channel < channelCount; channel++) {
+ frame[channel] = this.lowBand[channel] + this.highBand[channel] * gain;
+ }
+ }
+
+ processPitchShift(frame, channelCount) {
+ if (this.pitchRatio === 1) return;
+
+ const size = this.pitchWindow;
+ const length = size + 2;
+ const write = this.pitchWrite;
+ const phase = this.pitchPhase;
+ const delayA = phase * size;
+ const delayB = ((phase + 0.5) % 1) * size;
+ const weightA = Math.pow(Math.sin(Math.PI * phase), 2);
+
+ for (let channel = 0; channel < channelCount; channel++) {
+ const buffer = this.channelState(channel).pitch;
+ buffer[write] = frame[channel];
+ frame[channel] = this.readDelay(buffer, write, delayA, length) * weightA +
+ this.readDelay(buffer, write, delayB, length) * (1 - weightA);
+ }
+
+ this.pitchWrite = (write + 1) % length;
+ const next = phase + (1 - this.pitchRatio) / size;
+ this.pitchPhase = next - Math.floor(next);
+ }
+
+ readDelay(buffer, write, delay, length) {
+ const position = write - delay + length;
+ const index = Math.floor(position);
+ const fraction = position - index;
+ const a = buffer[index % length];
+ const b = buffer[(index + 1) % length];
+ return a + (b - a) * fraction;
+ }
+
+ createInterpolator(factor) {
+ const half = TRUE_PEAK_TAPS / 2;
+ const phases = [];
+ for (let phase = 1; phase < factor; phase++) {
+ const coefficients = new Float64Array(TRUE_PEAK_TAPS);
+ for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+ const d = phase / factor - (tap - half + 1);
+ const sinc = Math.sin(Math.PI * d) / (Math.PI * d);
+ coefficients[tap] = sinc * 0.5 * (1 + Math.cos((Math.PI * d) / half));
+ }
+ phases.push(coefficients);
+ }
+ return phases;
+ }
+
+ createLimiter(lookahead) {
+ // Gain is the look-ahead average of a sliding minimum one sample wider,
+ // so it reaches each sample's required gain before the sample leaves
+ // the delay line
+ const delay = lookahead + TRUE_PEAK_TAPS / 2 - 1;
+ const capacity = lookahead + 2;
+ return {
+ lookahead,
+ delay,
+ history: [],
+ historyIndex: 0,
+ delays: [],
+ delayIndex: 0,
+ minValues: new Float64Array(capacity),
+ minIndices: new Float64Array(capacity),
+ minHead: 0,
+ minSize: 0,
+ box: new Float64Array(lookahead).fill(1),
+ boxSum: lookahead,
+ boxIndex: 0,
+ release: 1,
+ sample: 0,
+ };
+ }
+
+ processLimiter(frame, channelCount) {
+ const lookahead = Math.max(1, Math.round(this.limiterLookahead * sampleRate));
+ if (!this.limiter) this.limiter = this.createLimiter(lookahead);
+ const state = this.limiter;
+ const ceiling = this.limiterCeilingLinear;
+
+ // True peak between the samples six and five back, across channels
+ let peak = 0;
+ for (let channel = 0; channel < channelCount; channel++) {
+ if (!state.history[channel]) {
+ state.history[channel] = new Float32Array(TRUE_PEAK_TAPS);
+ state.delays[channel] = new Float32Array(state.delay + 1);
+ }
+ const history = state.history[channel];
+ history[state.historyIndex] = frame[channel];
+ const oldest = state.historyIndex + 1;
+ peak = Math.max(
+ peak,
+ Math.abs(history[(oldest + 5) % TRUE_PEAK_TAPS]),
+ Math.abs(history[(oldest + 6) % TRUE_PEAK_TAPS]),
+ );
+ for (const coefficients of this.truePeakPhases) {
+ let value = 0;
+ for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+ value += history[(oldest + tap) % TRUE_PEAK_TAPS] * coefficients[tap];
+ }
+ peak = Math.max(peak, Math.abs(value));
+ }
+ }
+ state.historyIndex = (state.historyIndex + 1) % TRUE_PEAK_TAPS;
+
+ const required = peak > ceiling ? ceiling / peak : 1;
+ const capacity = state.minValues.length;
+ while (state.minSize > 0 &&
+ state.minValues[(state.minHead + state.minSize - 1) % capacity] >= required) {
+ state.minSize--;
+ }
+ const tail = (state.minHead + state.minSize) % capacity;
+ state.minValues[tail] = required;
+ state.minIndices[tail] = state.sample;
+ state.minSize++;
+ while (state.minIndices[state.minHead] <= state.sample - (lookahead + 1)) {
+ state.minHead = (state.minHead + 1) % capacity;
+ state.minSize--;
+ }
+ const minimum = state.minValues[state.minHead];
+ state.sample++;
+
+ state.release = minimum < state.release
+ ? minimum
+ : minimum + this.limiterReleaseCoeff * (state.release - minimum);
+ state.boxSum += state.release - state.box[state.boxIndex];
+ state.box[state.boxIndex] = state.release;
+ state.boxIndex = (state.boxIndex + 1) % lookahead;
+ const gain = state.boxSum / lookahead;
+
+ const length = state.delay + 1;
+ for (let channel = 0; channel < channelCount; channel++) {
+ const delayed = state.delays[channel];
+ delayed[state.delayIndex] = frame[channel];
+ const sample = delayed[(state.delayIndex + 1) % length] * gain;
+ frame[channel] = Math.max(-ceiling, Math.min(ceiling, sample));
+ }
+ state.delayIndex = (state.delayIndex + 1) % length;
+ }
+
+ processFrame(frame, channelCount) {
+ if (this.gateEnabled) {
+ this.processGate(frame, channelCount);
+ }
+
+ for (let channel = 0; channel < channelCount; channel++) {
+ let sample = frame[channel];
+
  if (this.compressorEnabled) {
  sample = this.processCompressor(sample);
  }
 
  if (this.eqEnabled) {
- sample = this.processEQ(sample, channel);
+ sample = this.eqBands.length > 0
+ ? this.processBands(sample, channel)
+ : this.processEQ(sample, channel);
+ }
+
+ frame[channel] = sample;
+ }
+
+ if (this.deEsserEnabled) {
+ this.processDeEsser(frame, channelCount);
+ }
+
+ if (this.pitchShiftEnabled) {
+ this.processPitchShift(frame, channelCount);
+ }
+
+ for (let channel = 0; channel < channelCount; channel++) {
+ frame[channel] *= this.gain;
+ }
+
+ if (this.limiterEnabled) {
+ this.processLimiter(frame, channelCount);
  }
 
- sample *= this.gain;
+ for (let channel = 0; channel < channelCount; channel++) {
+ frame[channel] = Math.max(-1, Math.min(1, frame[channel]));
+ }
+ }
 
- outputChannel[i] = Math.max(-1, Math.min(1, sample));
+ process(inputs, outputs, parameters) {
+ const input = inputs[0];
+ const output = outputs[0];
+
+ if (!input || !input.length) {
+ return true;
+ }
+
+ const frame = this.frame;
+ const channelCount = output.length;
+ const frames = output[0].length;
+
+ for (let i = 0; i < frames; i++) {
+ for (let channel = 0; channel < channelCount; channel++) {
+ const inputChannel = input[channel] || input[0];
+ frame[channel] = inputChannel[i];
+ }
+
+ if (!this.bypass) {
+ this.processFrame(frame, channelCount);
+ }
+
+ for (let channel = 0; channel < channelCount; channel++) {
+ output[channel][i] = frame[channel];
  }
  }
 
@@ -176,28 +627,68 @@ export function createEffectsWorkletUrl(): string {
   return URL.createObjectURL(blob);
 }
 
-export async function loadEffectsWorklet(
-  audioContext: AudioContext,
+const workletLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Adds the processor to a realtime or offline context. Loads once per
+ * context; later calls return the same promise.
+ */
+export function loadEffectsWorklet(
+  audioContext: BaseAudioContext,
 ): Promise<void> {
-  const workletUrl = createEffectsWorkletUrl();
+  let load = workletLoads.get(audioContext);
+  if (!load) {
+    load = (async () => {
+      if (!audioContext.audioWorklet) {
+        throw new Error("AudioWorklet is not supported in this context");
+      }
+      const workletUrl = createEffectsWorkletUrl();
+      try {
+        await audioContext.audioWorklet.addModule(workletUrl);
+        loadedContexts.add(audioContext);
+      } finally {
+        URL.revokeObjectURL(workletUrl);
+      }
+    })();
+    workletLoads.set(audioContext, load);
+  }
+  return load;
+}
+
+/**
+ * Loads the processor, warning instead of throwing where AudioWorklet is
+ * unavailable. Worklet effects are then skipped.
+ */
+export async function tryLoadEffectsWorklet(
+  audioContext: BaseAudioContext,
+): Promise<boolean> {
   try {
-    await audioContext.audioWorklet.addModule(workletUrl);
-  } finally {
-    URL.revokeObjectURL(workletUrl);
+    await loadEffectsWorklet(audioContext);
+    return true;
+  } catch (error) {
+    console.warn("Effects worklet unavailable, skipping its effects:", error);
+    return false;
   }
 }
 
+export function isEffectsWorkletLoaded(
+  audioContext: BaseAudioContext,
+): boolean {
+  return loadedContexts.has(audioContext);
+}
+
+/**
+ * Parameters go in as processor options so the node processes with them
+ * from its first block, which an offline render needs.
+ */
 export function createEffectsWorkletNode(
-  audioContext: AudioContext,
+  audioContext: BaseAudioContext,
   params?: Partial<EffectWorkletParams>,
 ): AudioWorkletNode {
-  const node = new AudioWorkletNode(audioContext, EFFECTS_WORKLET_NAME);
-
-  if (params) {
-    node.port.postMessage({ type: "updateParams", params });
-  }
-
-  return node;
+  return new AudioWorkletNode(audioContext, EFFECTS_WORKLET_NAME, {
+    processorOptions: params,
+  });
 }
 
 export function updateEffectsWorkletParams(
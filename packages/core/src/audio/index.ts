@@ -1,10 +1,17 @@
 export * from "./types";
 export * from "./fft";
 export * from "./audio-engine";
+export * from "./loudness";
 export * from "./realtime-processor";
 export * from "./audio-effects-engine";
 export * from "./noise-reduction";
 export * from "./volume-automation";
+export * from "./effect-chain";
+export * from "./audio-mix";
+export * from "./sidechain";
+export * from "./biquad";
+export * from "./spectrum-analyzer";
+export * from "./audio-repair";
 export * from "./realtime-audio-graph";
 export * from "./effects-worklet-processor";
 export * from "./sound-library-engine";
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeLoudness,
+  measureTruePeak,
+  normalizeLoudness,
+} from "./loudness";
+
+const SAMPLE_RATE = 48000;
+
+/** A 1 kHz sine per segment, at a peak level in dBFS. */
+const tone = (segments: Array<[seconds: number, dbfs: number]>) => {
+  const total = segments.reduce((sum, [seconds]) => sum + seconds, 0);
+  const samples = new Float32Array(Math.round(total * SAMPLE_RATE));
+  let offset = 0;
+  for (const [seconds, dbfs] of segments) {
+    const amplitude = dbfs === -Infinity ? 0 : Math.pow(10, dbfs / 20);
+    const count = Math.round(seconds * SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      samples[offset + i] =
+        amplitude * Math.sin((2 * Math.PI * 1000 * (offset + i)) / SAMPLE_RATE);
+    }
+    offset += count;
+  }
+  return samples;
+};
+
+const stereo = (samples: Float32Array) => [samples, samples.slice()];
+
+describe("analyzeLoudness", () => {
+  it("should read a -23 dBFS stereo sine as -23 LUFS", () => {
+    const metrics = analyzeLoudness(stereo(tone([[5, -23]])), SAMPLE_RATE);
+    expect(metrics.integrated).toBeCloseTo(-23, 1);
+    expect(metrics.momentary).toBeCloseTo(-23, 1);
+    expect(metrics.shortTerm).toBeCloseTo(-23, 1);
+    expect(metrics.range).toBeLessThan(0.1);
+  });
+
+  it("should gate silence and quiet passages out of integrated loudness", () => {
+    const withSilence = tone([
+      [3, -23],
+      [3, -Infinity],
+    ]);
+    // Blocks straddling the cut are partly silent but still pass the gate
+    const integrated = analyzeLoudness(
+      stereo(withSilence),
+      SAMPLE_RATE,
+    ).integrated;
+    expect(Math.abs(integrated + 23)).toBeLessThan(0.3);
+
+    const withQuiet = tone([
+      [4, -20],
+      [4, -40],
+    ]);
+    const metrics = analyzeLoudness(stereo(withQuiet), SAMPLE_RATE);
+    expect(Math.abs(metrics.integrated + 20)).toBeLessThan(0.2);
+  });
+
+  it("should measure loudness range from short-term loudness", () => {
+    const metrics = analyzeLoudness(
+      stereo(
+        tone([
+          [10, -20],
+          [10, -30],
+        ]),
+      ),
+      SAMPLE_RATE,
+    );
+    expect(metrics.range).toBeCloseTo(10, 0);
+  });
+
+  it("should report silence as -Infinity", () => {
+    const metrics = analyzeLoudness(
+      stereo(new Float32Array(SAMPLE_RATE)),
+      SAMPLE_RATE,
+    );
+    expect(metrics.integrated).toBe(-Infinity);
+    expect(metrics.range).toBe(0);
+  });
+});
+
+describe("measureTruePeak", () => {
+  it("should find peaks between samples", () => {
+    // Quarter sample-rate sine sampled at +/-45 degrees: samples reach
+    // -3 dBFS while the waveform reaches 0 dBFS
+    const samples = new Float32Array(4800);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((Math.PI / 2) * i + Math.PI / 4);
+    }
+    expect(Math.abs(measureTruePeak([samples], SAMPLE_RATE))).toBeLessThan(0.3);
+  });
+});
+
+describe("normalizeLoudness", () => {
+  it("should gain the mix to the target", () => {
+    const channels = stereo(tone([[4, -30]]));
+    const measured = analyzeLoudness(channels, SAMPLE_RATE);
+    const gain = normalizeLoudness(channels, SAMPLE_RATE, measured, -16, -1);
+    expect(gain).toBeCloseTo(14, 1);
+    expect(analyzeLoudness(channels, SAMPLE_RATE).integrated).toBeCloseTo(
+      -16,
+      1,
+    );
+  });
+
+  it("should limit true peaks that the gain would push over the ceiling", () => {
+    const channels = stereo(tone([[4, -20]]));
+    for (const samples of channels) {
+      for (let second = 0; second < 4; second++) {
+        const start = second * SAMPLE_RATE + 1000;
+        for (let i = 0; i < 48; i++) samples[start + i] = i % 2 ? 0.9 : -0.9;
+      }
+    }
+    const measured = analyzeLoudness(channels, SAMPLE_RATE);
+    normalizeLoudness(channels, SAMPLE_RATE, measured, -14, -1);
+
+    const result = analyzeLoudness(channels, SAMPLE_RATE);
+    expect(result.truePeak).toBeLessThanOrEqual(-1);
+    expect(Math.abs(result.integrated + 14)).toBeLessThan(0.3);
+  });
+});
@@ -0,0 +1,349 @@
+import type { LoudnessMetrics } from "./types";
+
+/**
+ * Loudness measurement to ITU-R BS.1770-4 and EBU R128 (Tech 3341/3342):
+ * K-weighted, gated programme loudness, maximum momentary and short-term
+ * loudness, loudness range and oversampled true peak.
+ */
+
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+/** Gating blocks advance in 100 ms steps. */
+const STEPS_PER_SECOND = 10;
+const MOMENTARY_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+/** Interpolation filter taps per output phase. */
+const TRUE_PEAK_TAPS = 12;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages (high shelf, then RLB high-pass), derived for
+ * any sample rate. At 48 kHz these match the coefficients in BS.1770.
+ */
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+}
+
+/**
+ * BS.1770 channel weights. Five-channel and 5.1 layouts weight the
+ * surrounds by +1.5 dB and leave out the LFE.
+ */
+function getChannelWeights(channelCount: number): number[] {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  if (channelCount === 5) return [1, 1, 1, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+}
+
+function applyBiquad(samples: Float32Array, f: Biquad): Float32Array {
+  const output = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * K-weights each channel and sums its energy over 100 ms steps, weighted
+ * per channel. Any trailing partial step is dropped.
+ */
+function measureStepEnergy(
+  channels: Float32Array[],
+  sampleRate: number,
+): Float64Array {
+  const stepLength = sampleRate / STEPS_PER_SECOND;
+  const length = channels[0]?.length ?? 0;
+  const stepCount = Math.floor(length / stepLength);
+  const energy = new Float64Array(stepCount);
+  const weights = getChannelWeights(channels.length);
+  const [shelf, highPass] = createKWeighting(sampleRate);
+
+  channels.forEach((samples, channel) => {
+    const weight = weights[channel];
+    if (weight === 0) return;
+    const weighted = applyBiquad(applyBiquad(samples, shelf), highPass);
+
+    for (let step = 0; step < stepCount; step++) {
+      const start = Math.round(step * stepLength);
+      const end = Math.round((step + 1) * stepLength);
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += weighted[i] * weighted[i];
+      energy[step] += (weight * sum) / (end - start);
+    }
+  });
+  return energy;
+}
+
+/** Mean square of each gating block of `steps` consecutive steps. */
+function blockPowers(energy: Float64Array, steps: number): number[] {
+  const powers: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < energy.length; i++) {
+    sum += energy[i];
+    if (i >= steps) sum -= energy[i - steps];
+    if (i >= steps - 1) powers.push(Math.max(0, sum) / steps);
+  }
+  return powers;
+}
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Blocks above the absolute gate and `relativeGate` LU below their mean. */
+function gateBlocks(powers: number[], relativeGate: number): number[] {
+  const audible = powers.filter((power) => toLufs(power) > ABSOLUTE_GATE);
+  if (audible.length === 0) return [];
+  const threshold = toLufs(mean(audible)) + relativeGate;
+  return audible.filter((power) => toLufs(power) > threshold);
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.round((sorted.length - 1) * fraction)];
+}
+
+/** Loudness range (EBU Tech 3342) from the short-term block powers. */
+function measureRange(shortTermPowers: number[]): number {
+  const gated = gateBlocks(shortTermPowers, RANGE_RELATIVE_GATE)
+    .map(toLufs)
+    .sort((a, b) => a - b);
+  if (gated.length === 0) return 0;
+  return percentile(gated, 0.95) - percentile(gated, 0.1);
+}
+
+/**
+ * Oversampling factor for true-peak measurement: 4x below 96 kHz, as
+ * BS.1770 recommends, 2x above.
+ */
+function getOversampling(sampleRate: number): number {
+  return sampleRate < 96000 ? 4 : 2;
+}
+
+/** Hann-windowed sinc coefficients for each fractional phase. */
+function createInterpolator(factor: number): Float64Array[] {
+  const half = TRUE_PEAK_TAPS / 2;
+  const phases: Float64Array[] = [];
+  for (let phase = 1; phase < factor; phase++) {
+    const coefficients = new Float64Array(TRUE_PEAK_TAPS);
+    for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+      // Distance from the interpolated point to sample (i + tap - half + 1)
+      const d = phase / factor - (tap - half + 1);
+      const sinc = Math.sin(Math.PI * d) / (Math.PI * d);
+      coefficients[tap] = sinc * 0.5 * (1 + Math.cos((Math.PI * d) / half));
+    }
+    phases.push(coefficients);
+  }
+  return phases;
+}
+
+/**
+ * The largest absolute value of the oversampled signal between each
+ * sample and the next, taken across channels.
+ */
+export function measureTruePeakEnvelope(
+  channels: Float32Array[],
+  sampleRate: number,
+): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const envelope = new Float32Array(length);
+  const phases = createInterpolator(getOversampling(sampleRate));
+  const offset = TRUE_PEAK_TAPS / 2 - 1;
+
+  for (const samples of channels) {
+    for (let i = 0; i < length; i++) {
+      let peak = Math.abs(samples[i]);
+      for (const coefficients of phases) {
+        let value = 0;
+        for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+          const index = i + tap - offset;
+          if (index >= 0 && index < length) {
+            value += samples[index] * coefficients[tap];
+          }
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+      if (peak > envelope[i]) envelope[i] = peak;
+    }
+  }
+  return envelope;
+}
+
+/** True peak in dBTP. */
+export function measureTruePeak(
+  channels: Float32Array[],
+  sampleRate: number,
+): number {
+  const envelope = measureTruePeakEnvelope(channels, sampleRate);
+  let peak = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    if (envelope[i] > peak) peak = envelope[i];
+  }
+  return 20 * Math.log10(peak);
+}
+
+/** Gated integrated loudness from the momentary block powers. */
+function integrate(momentaryPowers: number[]): number {
+  const gated = gateBlocks(momentaryPowers, RELATIVE_GATE);
+  return gated.length > 0 ? toLufs(mean(gated)) : -Infinity;
+}
+
+/**
+ * Measures programme loudness. Momentary and short-term loudness are the
+ * maxima over the programme; loudness values are -Infinity for silence or
+ * for audio shorter than one gating block.
+ */
+export function analyzeLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+): LoudnessMetrics {
+  const energy = measureStepEnergy(channels, sampleRate);
+  const momentary = blockPowers(energy, MOMENTARY_STEPS);
+  const shortTerm = blockPowers(energy, SHORT_TERM_STEPS);
+
+  return {
+    integrated: integrate(momentary),
+    shortTerm: toLufs(shortTerm.reduce((a, b) => Math.max(a, b), 0)),
+    momentary: toLufs(momentary.reduce((a, b) => Math.max(a, b), 0)),
+    truePeak: measureTruePeak(channels, sampleRate),
+    range: measureRange(shortTerm),
+  };
+}
+
+/** Smallest value in a centered window of 2 * radius - 1 samples. */
+function slidingMinimum(values: Float32Array, radius: number): Float32Array {
+  const result = new Float32Array(values.length);
+  const window = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+  for (let i = 0; i < values.length + radius - 1; i++) {
+    if (i < values.length) {
+      while (tail > head && values[window[tail - 1]] >= values[i]) tail--;
+      window[tail++] = i;
+    }
+    const center = i - radius + 1;
+    if (center < 0) continue;
+    while (window[head] < center - radius + 1) head++;
+    result[center] = values[window[head]];
+  }
+  return result;
+}
+
+/**
+ * Lookahead true-peak limiter. The gain needed at each sample is spread
+ * over the attack window either side, smoothed, and released slowly, so
+ * it is already down when the peak arrives.
+ */
+function limitTruePeak(
+  channels: Float32Array[],
+  sampleRate: number,
+  ceiling: number,
+): void {
+  const envelope = measureTruePeakEnvelope(channels, sampleRate);
+  const length = envelope.length;
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    required[i] = envelope[i] > ceiling ? ceiling / envelope[i] : 1;
+  }
+
+  const attack = Math.max(TRUE_PEAK_TAPS, Math.round(sampleRate * 0.002));
+  const held = slidingMinimum(required, attack);
+  const release = 1 - Math.exp(-1 / (sampleRate * 0.05));
+  const gain = new Float32Array(length);
+  let sum = 0;
+  let previous = 1;
+  for (let i = 0; i < length; i++) {
+    // Trailing average over the attack window stays below every
+    // requirement that window covers
+    sum += held[i] - (i >= attack ? held[i - attack] : 1);
+    const smoothed = Math.min(1, sum / attack + 1);
+    previous = Math.min(smoothed, previous + (1 - previous) * release);
+    gain[i] = previous;
+  }
+
+  for (const samples of channels) {
+    for (let i = 0; i < length; i++) samples[i] *= gain[i];
+  }
+}
+
+function applyGain(channels: Float32Array[], gainDb: number): void {
+  const gain = Math.pow(10, gainDb / 20);
+  for (const samples of channels) {
+    for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+  }
+}
+
+/**
+ * Second pass of loudness normalization: applies the gain that brings
+ * `measured` to `targetLufs` and limits true peaks to `truePeakLimit`
+ * dBTP, in place. Limiting lowers the loudness a little, so the gain is
+ * topped up and limited again until the target holds. Returns the total
+ * gain in dB, not counting the limiter.
+ */
+export function normalizeLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  measured: LoudnessMetrics,
+  targetLufs: number,
+  truePeakLimit: number,
+): number {
+  if (!Number.isFinite(measured.integrated)) return 0;
+  // A little headroom for the interpolation error of the gain ramps
+  const ceiling = Math.pow(10, (truePeakLimit - 0.1) / 20);
+  let peak = measured.truePeak;
+  let correction = targetLufs - measured.integrated;
+  let gainDb = 0;
+
+  for (let pass = 0; pass < 4; pass++) {
+    applyGain(channels, correction);
+    gainDb += correction;
+    if (peak + correction <= truePeakLimit) break;
+
+    limitTruePeak(channels, sampleRate, ceiling);
+    peak = truePeakLimit - 0.1;
+    const energy = measureStepEnergy(channels, sampleRate);
+    correction = targetLufs - integrate(blockPowers(energy, MOMENTARY_STEPS));
+    if (Math.abs(correction) < 0.05) break;
+  }
+  return gainDb;
+}
@@ -2,7 +2,16 @@ import {
   getMasterClock,
   MasterTimelineClock,
 } from "../playback/master-timeline-clock";
-import type { Effect } from "../types/timeline";
+import type { AudioMix, AutomationPoint, Effect } from "../types/timeline";
+import {
+  createEffectChain,
+  disconnectEffectChain,
+  type EffectChain,
+} from "./effect-chain";
+import { MixBusGraph, getTrackMix } from "./audio-mix";
+import { tryLoadEffectsWorklet } from "./effects-worklet-processor";
+import { DUCKING_CONTROL_RATE } from "./sidechain";
+import { scheduleVolumeAutomation } from "./volume-automation";
 
 export interface AudioClipSchedule {
   clipId: string;
@@ -15,6 +24,8 @@ export interface AudioClipSchedule {
   pan: number;
   effects: Effect[];
   speed: number;
+  /** Volume automation, timed from `startTime`. */
+  automation?: AutomationPoint[];
 }
 
 export interface TrackConfig {
@@ -33,44 +44,26 @@ interface ScheduledSource {
   duration: number;
 }
 
-interface ReverbNodes {
-  inputGain: GainNode;
-  dryGain: GainNode;
-  wetGain: GainNode;
-  convolver: ConvolverNode;
-  outputGain: GainNode;
-}
-
-interface DelayNodes {
-  inputGain: GainNode;
-  delayNode: DelayNode;
-  feedbackGain: GainNode;
-  wetGain: GainNode;
-  dryGain: GainNode;
-  outputGain: GainNode;
-}
-
 interface TrackNodes {
   inputGain: GainNode;
-  effectChainInput: AudioNode;
-  effectChainOutput: AudioNode;
+  effectChain: EffectChain;
   panNode: StereoPannerNode;
   outputGain: GainNode;
-  compressor: DynamicsCompressorNode | null;
-  eqFilters: BiquadFilterNode[];
-  reverbNodes: ReverbNodes | null;
-  delayNodes: DelayNodes | null;
 }
 
 export class RealtimeAudioGraph {
   private audioContext: AudioContext;
   private masterClock: MasterTimelineClock;
   private masterGain: GainNode;
+  private mixBus: MixBusGraph;
+  private audioMix: AudioMix | undefined;
+  private duckingGains: Map<string, Float32Array> | null = null;
   private trackNodes: Map<string, TrackNodes> = new Map();
   private scheduledSources: Map<string, ScheduledSource[]> = new Map();
   private trackConfigs: Map<string, TrackConfig> = new Map();
+  private analysers: Map<string, AnalyserNode> = new Map();
+  private effectsWorklet: Promise<boolean>;
   private hasSoloTracks = false;
-  private impulseResponseCache: Map<string, AudioBuffer> = new Map();
   private isPlaying = false;
   private lastScheduledTime = 0;
   private scheduleAheadTime = 0.2;
@@ -81,6 +74,42 @@ export class RealtimeAudioGraph {
     this.audioContext = this.masterClock.getAudioContext();
     this.masterGain = this.audioContext.createGain();
     this.masterGain.connect(this.audioContext.destination);
+    this.mixBus = new MixBusGraph(this.audioContext, this.masterGain);
+    this.effectsWorklet = tryLoadEffectsWorklet(this.audioContext).then(
+      (loaded) => {
+        // Bus inserts built before the worklet arrived skipped its effects
+        if (loaded) this.mixBus.setMix(this.audioMix);
+        return loaded;
+      },
+    );
+  }
+
+  /**
+   * Resolves once the effects worklet is loaded, or has failed to load.
+   * Track chains built before then run without the worklet effects, so
+   * await this before creating tracks.
+   */
+  loadEffects(): Promise<boolean> {
+    return this.effectsWorklet;
+  }
+
+  /**
+   * Analyser tapping a track after its effects, or the master output when
+   * no track is given. Stays connected across track rebuilds.
+   */
+  getAnalyser(trackId?: string): AnalyserNode {
+    const key = trackId ?? "";
+    let analyser = this.analysers.get(key);
+    if (!analyser) {
+      analyser = this.audioContext.createAnalyser();
+      analyser.fftSize = 4096;
+      this.analysers.set(key, analyser);
+      const source = trackId
+        ? this.trackNodes.get(trackId)?.effectChain.output
+        : this.masterGain;
+      source?.connect(analyser);
+    }
+    return analyser;
   }
 
   getAudioContext(): AudioContext {
@@ -98,6 +127,49 @@ export class RealtimeAudioGraph {
     );
   }
 
+  /**
+   * Applies the mixer: track faders and pans, bus routing, sends and the
+   * bus and master insert chains.
+   */
+  setAudioMix(mix: AudioMix | undefined): void {
+    this.audioMix = mix;
+    this.mixBus.setMix(mix);
+    this.scheduleDucking();
+    for (const trackId of this.trackNodes.keys()) {
+      const trackMix = getTrackMix(mix, trackId);
+      this.updateTrackPan(trackId, trackMix.pan);
+      this.updateTrackVolume(trackId, trackMix.volume);
+    }
+  }
+
+  getAudioMix(): AudioMix | undefined {
+    return this.audioMix;
+  }
+
+  /**
+   * Plays sidechain ducking curves, keyed by bus id, from the current
+   * timeline position. Curves are timeline-aligned from 0 at
+   * DUCKING_CONTROL_RATE, as AudioEngine.renderDuckingGains produces them
+   * for export. Cleared when the scheduler stops.
+   */
+  setDuckingGains(gains: Map<string, Float32Array>): void {
+    this.duckingGains = gains;
+    this.scheduleDucking();
+  }
+
+  private scheduleDucking(): void {
+    if (!this.duckingGains) return;
+    for (const [busId, gain] of this.duckingGains) {
+      this.mixBus.setDucking(
+        busId,
+        gain,
+        DUCKING_CONTROL_RATE,
+        this.audioContext.currentTime,
+        this.masterClock.currentTime,
+      );
+    }
+  }
+
   createTrack(config: TrackConfig): void {
     this.removeTrack(config.trackId);
     this.trackConfigs.set(config.trackId, config);
@@ -108,240 +180,27 @@ export class RealtimeAudioGraph {
     const outputGain = this.audioContext.createGain();
     outputGain.gain.value = config.volume;
 
-    const {
-      effectChainInput,
-      effectChainOutput,
-      compressor,
-      eqFilters,
-      reverbNodes,
-      delayNodes,
-    } = this.buildEffectChain(config.effects);
-
-    inputGain.connect(effectChainInput);
-    effectChainOutput.connect(panNode);
+    const effectChain = createEffectChain(this.audioContext, config.effects);
+
+    // Mute and solo act at the input so they silence pre-fader sends too
+    inputGain.connect(effectChain.input);
+    effectChain.output.connect(panNode);
     panNode.connect(outputGain);
-    outputGain.connect(this.masterGain);
+    this.mixBus.route(config.trackId, effectChain.output, outputGain);
+    const analyser = this.analysers.get(config.trackId);
+    if (analyser) effectChain.output.connect(analyser);
 
-    const trackNode: TrackNodes = {
+    this.trackNodes.set(config.trackId, {
       inputGain,
-      effectChainInput,
-      effectChainOutput,
+      effectChain,
       panNode,
       outputGain,
-      compressor,
-      eqFilters,
-      reverbNodes,
-      delayNodes,
-    };
-
-    this.trackNodes.set(config.trackId, trackNode);
+    });
     this.scheduledSources.set(config.trackId, []);
     this.updateTrackAudibility(config.trackId);
     this.updateSoloState();
   }
 
-  private buildEffectChain(effects: Effect[]): {
-    effectChainInput: AudioNode;
-    effectChainOutput: AudioNode;
-    compressor: DynamicsCompressorNode | null;
-    eqFilters: BiquadFilterNode[];
-    reverbNodes: ReverbNodes | null;
-    delayNodes: DelayNodes | null;
-  } {
-    const passthrough = this.audioContext.createGain();
-    let compressor: DynamicsCompressorNode | null = null;
-    const eqFilters: BiquadFilterNode[] = [];
-    let reverbNodes: ReverbNodes | null = null;
-    let delayNodes: DelayNodes | null = null;
-
-    const enabledEffects = effects.filter((e) => e.enabled);
-    if (enabledEffects.length === 0) {
-      return {
-        effectChainInput: passthrough,
-        effectChainOutput: passthrough,
-        compressor,
-        eqFilters,
-        reverbNodes,
-        delayNodes,
-      };
-    }
-
-    let currentNode: AudioNode = passthrough;
-    let firstNode: AudioNode = passthrough;
-
-    for (const effect of enabledEffects) {
-      switch (effect.type) {
-        case "compressor": {
-          compressor = this.createCompressorNode(effect);
-          currentNode.connect(compressor);
-          currentNode = compressor;
-          break;
-        }
-        case "eq": {
-          const filters = this.createEQFilters(effect);
-          if (filters.length > 0) {
-            currentNode.connect(filters[0]);
-            for (let i = 1; i < filters.length; i++) {
-              filters[i - 1].connect(filters[i]);
-            }
-            currentNode = filters[filters.length - 1];
-            eqFilters.push(...filters);
-          }
-          break;
-        }
-        case "reverb": {
-          reverbNodes = this.createReverbNodes(effect);
-          currentNode.connect(reverbNodes.inputGain);
-          currentNode = reverbNodes.outputGain;
-          break;
-        }
-        case "delay": {
-          delayNodes = this.createDelayNodes(effect);
-          currentNode.connect(delayNodes.inputGain);
-          currentNode = delayNodes.outputGain;
-          break;
-        }
-      }
-    }
-
-    return {
-      effectChainInput: firstNode,
-      effectChainOutput: currentNode,
-      compressor,
-      eqFilters,
-      reverbNodes,
-      delayNodes,
-    };
-  }
-
-  private createCompressorNode(effect: Effect): DynamicsCompressorNode {
-    const params = effect.params as Record<string, number>;
-    const compressor = this.audioContext.createDynamicsCompressor();
-    compressor.threshold.value = params.threshold ?? -24;
-    compressor.ratio.value = params.ratio ?? 4;
-    compressor.attack.value = params.attack ?? 0.003;
-    compressor.release.value = params.release ?? 0.25;
-    compressor.knee.value = params.knee ?? 30;
-    return compressor;
-  }
-
-  private createEQFilters(effect: Effect): BiquadFilterNode[] {
-    const params = effect.params as {
-      bands?: Array<{
-        type: string;
-        frequency: number;
-        gain: number;
-        q: number;
-      }>;
-    };
-    const bands = params.bands || [];
-    const filters: BiquadFilterNode[] = [];
-
-    for (const band of bands) {
-      const filter = this.audioContext.createBiquadFilter();
-      filter.type = band.type as BiquadFilterType;
-      filter.frequency.value = Math.max(20, Math.min(20000, band.frequency));
-      filter.gain.value = Math.max(-24, Math.min(24, band.gain));
-      filter.Q.value = Math.max(0.1, Math.min(18, band.q));
-      filters.push(filter);
-    }
-
-    return filters;
-  }
-
-  private createReverbNodes(effect: Effect): ReverbNodes {
-    const params = effect.params as Record<string, number>;
-    const roomSize = params.roomSize ?? 0.5;
-    const damping = params.damping ?? 0.5;
-    const wetLevel = params.wetLevel ?? 0.5;
-    const dryLevel = params.dryLevel ?? 0.7;
-
-    const inputGain = this.audioContext.createGain();
-    const dryGain = this.audioContext.createGain();
-    const wetGain = this.audioContext.createGain();
-    const convolver = this.audioContext.createConvolver();
-    const outputGain = this.audioContext.createGain();
-
-    dryGain.gain.value = dryLevel;
-    wetGain.gain.value = wetLevel;
-
-    const impulseResponse = this.getOrCreateImpulseResponse(roomSize, damping);
-    convolver.buffer = impulseResponse;
-
-    inputGain.connect(dryGain);
-    dryGain.connect(outputGain);
-    inputGain.connect(convolver);
-    convolver.connect(wetGain);
-    wetGain.connect(outputGain);
-
-    return { inputGain, dryGain, wetGain, convolver, outputGain };
-  }
-
-  private getOrCreateImpulseResponse(
-    roomSize: number,
-    damping: number,
-  ): AudioBuffer {
-    const key = `${roomSize.toFixed(2)}_${damping.toFixed(2)}`;
-
-    if (this.impulseResponseCache.has(key)) {
-      return this.impulseResponseCache.get(key)!;
-    }
-
-    const sampleRate = this.audioContext.sampleRate;
-    const duration = 0.5 + roomSize * 3.5;
-    const length = Math.floor(sampleRate * duration);
-    const channels = 2;
-
-    const impulseBuffer = this.audioContext.createBuffer(
-      channels,
-      length,
-      sampleRate,
-    );
-
-    for (let channel = 0; channel < channels; channel++) {
-      const channelData = impulseBuffer.getChannelData(channel);
-      for (let i = 0; i < length; i++) {
-        const t = i / sampleRate;
-        const decay = Math.exp((-3 * t) / duration);
-        const noise = (Math.random() * 2 - 1) * decay;
-        const dampingFactor = 1 - (damping * t) / duration;
-        channelData[i] = noise * dampingFactor;
-      }
-    }
-
-    this.impulseResponseCache.set(key, impulseBuffer);
-    return impulseBuffer;
-  }
-
-  private createDelayNodes(effect: Effect): DelayNodes {
-    const params = effect.params as Record<string, number>;
-    const time = params.time ?? 0.5;
-    const feedback = params.feedback ?? 0.3;
-    const wetLevel = params.wetLevel ?? 0.5;
-
-    const inputGain = this.audioContext.createGain();
-    const delayNode = this.audioContext.createDelay(2);
-    const feedbackGain = this.audioContext.createGain();
-    const wetGain = this.audioContext.createGain();
-    const dryGain = this.audioContext.createGain();
-    const outputGain = this.audioContext.createGain();
-
-    delayNode.delayTime.value = Math.max(0, Math.min(2, time));
-    feedbackGain.gain.value = Math.max(0, Math.min(0.95, feedback));
-    wetGain.gain.value = wetLevel;
-    dryGain.gain.value = 1 - wetLevel;
-
-    inputGain.connect(dryGain);
-    dryGain.connect(outputGain);
-    inputGain.connect(delayNode);
-    delayNode.connect(feedbackGain);
-    feedbackGain.connect(delayNode);
-    delayNode.connect(wetGain);
-    wetGain.connect(outputGain);
-
-    return { inputGain, delayNode, feedbackGain, wetGain, dryGain, outputGain };
-  }
-
   removeTrack(trackId: string): void {
     const sources = this.scheduledSources.get(trackId);
     if (sources) {
@@ -356,26 +215,11 @@ export class RealtimeAudioGraph {
 
     const nodes = this.trackNodes.get(trackId);
     if (nodes) {
+      this.mixBus.unroute(trackId);
       nodes.inputGain.disconnect();
+      disconnectEffectChain(nodes.effectChain);
       nodes.panNode.disconnect();
       nodes.outputGain.disconnect();
-      if (nodes.compressor) nodes.compressor.disconnect();
-      for (const filter of nodes.eqFilters) filter.disconnect();
-      if (nodes.reverbNodes) {
-        nodes.reverbNodes.inputGain.disconnect();
-        nodes.reverbNodes.dryGain.disconnect();
-        nodes.reverbNodes.wetGain.disconnect();
-        nodes.reverbNodes.convolver.disconnect();
-        nodes.reverbNodes.outputGain.disconnect();
-      }
-      if (nodes.delayNodes) {
-        nodes.delayNodes.inputGain.disconnect();
-        nodes.delayNodes.delayNode.disconnect();
-        nodes.delayNodes.feedbackGain.disconnect();
-        nodes.delayNodes.wetGain.disconnect();
-        nodes.delayNodes.dryGain.disconnect();
-        nodes.delayNodes.outputGain.disconnect();
-      }
     }
     this.trackNodes.delete(trackId);
     this.trackConfigs.delete(trackId);
@@ -387,7 +231,10 @@ export class RealtimeAudioGraph {
     const config = this.trackConfigs.get(trackId);
     if (nodes && config) {
       config.volume = Math.max(0, Math.min(4, volume));
-      this.updateTrackAudibility(trackId);
+      nodes.outputGain.gain.setValueAtTime(
+        config.volume,
+        this.audioContext.currentTime,
+      );
     }
   }
 
@@ -442,9 +289,8 @@ export class RealtimeAudioGraph {
       audible = false;
     }
 
-    const targetGain = audible ? config.volume : 0;
-    nodes.outputGain.gain.setValueAtTime(
-      targetGain,
+    nodes.inputGain.gain.setValueAtTime(
+      audible ? 1 : 0,
       this.audioContext.currentTime,
     );
   }
@@ -489,12 +335,29 @@ export class RealtimeAudioGraph {
     clipGain.gain.value = schedule.volume;
 
     source.connect(clipGain);
-    clipGain.connect(trackNodes.inputGain);
 
     const contextStartTime =
       this.audioContext.currentTime +
       schedule.startTime -
       this.masterClock.currentTime;
+
+    if (schedule.automation?.length) {
+      const automationGain = this.audioContext.createGain();
+      const offset = Math.max(
+        0,
+        this.masterClock.currentTime - schedule.startTime,
+      );
+      scheduleVolumeAutomation(
+        automationGain.gain,
+        schedule.automation,
+        Math.max(this.audioContext.currentTime, contextStartTime),
+        offset,
+      );
+      clipGain.connect(automationGain);
+      automationGain.connect(trackNodes.inputGain);
+    } else {
+      clipGain.connect(trackNodes.inputGain);
+    }
     const duration = schedule.endTime - schedule.startTime;
 
     if (contextStartTime > this.audioContext.currentTime) {
@@ -623,6 +486,8 @@ export class RealtimeAudioGraph {
       this.schedulerIntervalId = null;
     }
     this.stopAllClips();
+    this.duckingGains = null;
+    this.mixBus.clearDucking();
   }
 
   seekTo(time: number): void {
@@ -635,7 +500,9 @@ export class RealtimeAudioGraph {
     for (const trackId of Array.from(this.trackNodes.keys())) {
       this.removeTrack(trackId);
     }
-    this.impulseResponseCache.clear();
+    this.mixBus.dispose();
+    for (const analyser of this.analysers.values()) analyser.disconnect();
+    this.analysers.clear();
     this.masterGain.disconnect();
   }
 }
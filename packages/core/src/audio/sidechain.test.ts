@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeDuckingGain,
+  duckingGainToAutomation,
+  DEFAULT_SIDECHAIN_DUCKING,
+} from "./sidechain";
+import { getAutomationValueAt } from "./volume-automation";
+import type { SidechainDucking } from "../types/timeline";
+
+const SAMPLE_RATE = 48000;
+
+const ducking: SidechainDucking = {
+  ...DEFAULT_SIDECHAIN_DUCKING,
+  keyBusId: "dialogue",
+  threshold: -30,
+  ratio: 4,
+  attack: 0.005,
+  release: 0.1,
+  lookahead: 0,
+};
+
+/** Silence, then a -10 dBFS 1 kHz tone from `onset` to `end` seconds. */
+const keySignal = (onset: number, end: number, total: number) => {
+  const samples = new Float32Array(total * SAMPLE_RATE);
+  const amplitude = Math.pow(10, -10 / 20);
+  for (let i = onset * SAMPLE_RATE; i < end * SAMPLE_RATE; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+  }
+  return [samples];
+};
+
+const toDb = (gain: number) => 20 * Math.log10(gain);
+
+describe("computeDuckingGain", () => {
+  it("should reduce by the ratio above threshold and recover after", () => {
+    const gain = computeDuckingGain(keySignal(1, 2, 3), SAMPLE_RATE, ducking);
+    expect(gain).toHaveLength(3000);
+    expect(gain[500]).toBe(1);
+    // 20 dB over threshold at 4:1 leaves 5 dB, a 15 dB reduction
+    expect(toDb(gain[1500])).toBeCloseTo(-15, 1);
+    expect(gain[2900]).toBeGreaterThan(0.99);
+  });
+
+  it("should start the reduction early by the look-ahead", () => {
+    const key = keySignal(1, 2, 3);
+    const plain = computeDuckingGain(key, SAMPLE_RATE, ducking);
+    const early = computeDuckingGain(key, SAMPLE_RATE, {
+      ...ducking,
+      lookahead: 0.05,
+    });
+    expect(plain[980]).toBe(1);
+    expect(toDb(early[980])).toBeLessThan(-10);
+    expect(early[1500 - 50]).toBeCloseTo(plain[1500], 5);
+  });
+
+  it("should leave the signal alone when the key stays under threshold", () => {
+    const gain = computeDuckingGain(keySignal(1, 2, 3), SAMPLE_RATE, {
+      ...ducking,
+      threshold: -5,
+    });
+    expect(gain.every((g) => g === 1)).toBe(true);
+  });
+});
+
+describe("duckingGainToAutomation", () => {
+  it("should thin the curve to points that track it within tolerance", () => {
+    const gain = computeDuckingGain(keySignal(1, 2, 3), SAMPLE_RATE, ducking);
+    const points = duckingGainToAutomation(gain, 1000, 0.5, 2.5);
+
+    expect(points.length).toBeLessThan(100);
+    expect(points[0]).toEqual({ time: 0, value: 1 });
+    expect(points[points.length - 1].time).toBe(2.5);
+    for (const time of [0.25, 0.6, 1, 1.4, 1.7, 2.2]) {
+      const baked = getAutomationValueAt(points, time);
+      const actual = gain[Math.floor((time + 0.5) * 1000)];
+      expect(Math.abs(toDb(baked) - toDb(actual))).toBeLessThan(1);
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import type {
+  AutomationPoint,
+  SidechainDucking,
+  Timeline,
+} from "../types/timeline";
+import { getTrackMix } from "./audio-mix";
+
+/** Points per second in a ducking gain curve. */
+export const DUCKING_CONTROL_RATE = 1000;
+
+export const DEFAULT_SIDECHAIN_DUCKING: Omit<SidechainDucking, "keyBusId"> = {
+  enabled: true,
+  threshold: -30,
+  ratio: 4,
+  attack: 0.01,
+  release: 0.3,
+  lookahead: 0.01,
+};
+
+/**
+ * Gain curve, at `controlRate`, that a sidechain compressor keyed by `key`
+ * applies to the ducked signal. Peak detection per control step, a hard
+ * knee, attack and release smoothing of the reduction in dB, and the whole
+ * curve shifted earlier by the look-ahead.
+ */
+export function computeDuckingGain(
+  key: Float32Array[],
+  sampleRate: number,
+  ducking: SidechainDucking,
+  controlRate: number = DUCKING_CONTROL_RATE,
+): Float32Array {
+  const length = key[0]?.length ?? 0;
+  const samplesPerStep = sampleRate / controlRate;
+  const steps = Math.ceil(length / samplesPerStep);
+  const slope = 1 - 1 / Math.max(1, ducking.ratio);
+  const attack = smoothingCoefficient(ducking.attack, controlRate);
+  const release = smoothingCoefficient(ducking.release, controlRate);
+
+  const reduction = new Float32Array(steps);
+  let envelope = 0;
+  for (let step = 0; step < steps; step++) {
+    const start = Math.floor(step * samplesPerStep);
+    const end = Math.min(length, Math.floor((step + 1) * samplesPerStep));
+    let peak = 0;
+    for (const channel of key) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+
+    const level = peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+    const target = Math.max(0, level - ducking.threshold) * slope;
+    const coefficient = target > envelope ? attack : release;
+    envelope = target + coefficient * (envelope - target);
+    reduction[step] = envelope;
+  }
+
+  const shift = Math.max(0, Math.round(ducking.lookahead * controlRate));
+  const gain = new Float32Array(steps);
+  for (let step = 0; step < steps; step++) {
+    const db = step + shift < steps ? reduction[step + shift] : 0;
+    gain[step] = Math.pow(10, -db / 20);
+  }
+  return gain;
+}
+
+function smoothingCoefficient(seconds: number, controlRate: number): number {
+  return seconds > 0 ? Math.exp(-1 / (seconds * controlRate)) : 0;
+}
+
+function gainAt(gain: Float32Array, controlRate: number, time: number): number {
+  const index = Math.floor(time * controlRate);
+  return index >= 0 && index < gain.length ? gain[index] : 1;
+}
+
+/**
+ * Thins a gain curve to automation points for `duration` seconds from
+ * `from`, with times relative to `from`. A point is kept wherever the gain
+ * has moved more than `toleranceDb` since the last one, plus the point
+ * before each move so flat stretches stay flat.
+ */
+export function duckingGainToAutomation(
+  gain: Float32Array,
+  controlRate: number,
+  from: number,
+  duration: number,
+  toleranceDb: number = 0.5,
+): AutomationPoint[] {
+  const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-6));
+  const first = gainAt(gain, controlRate, from);
+  const points: AutomationPoint[] = [{ time: 0, value: first }];
+  let lastDb = toDb(first);
+  let lastIndex = -1;
+
+  const startIndex = Math.ceil(from * controlRate);
+  const endIndex = Math.floor((from + duration) * controlRate);
+  for (let index = startIndex + 1; index < endIndex; index++) {
+    const value = gainAt(gain, controlRate, index / controlRate);
+    if (Math.abs(toDb(value) - lastDb) <= toleranceDb) continue;
+
+    if (lastIndex !== index - 1 && index - 1 > startIndex) {
+      points.push({
+        time: (index - 1) / controlRate - from,
+        value: gainAt(gain, controlRate, (index - 1) / controlRate),
+      });
+    }
+    points.push({ time: index / controlRate - from, value });
+    lastDb = toDb(value);
+    lastIndex = index;
+  }
+
+  points.push({
+    time: duration,
+    value: gainAt(gain, controlRate, from + duration),
+  });
+  return points;
+}
+
+/**
+ * Volume automation that reproduces a bus's ducking on each clip routed
+ * to the bus. Replaces whatever volume automation the clips had.
+ */
+export function bakeDuckingAutomation(
+  timeline: Timeline,
+  busId: string,
+  gain: Float32Array,
+  controlRate: number = DUCKING_CONTROL_RATE,
+): Array<{ clipId: string; points: AutomationPoint[] }> {
+  return timeline.tracks
+    .filter(
+      (track) => getTrackMix(timeline.audioMix, track.id).outputBusId === busId,
+    )
+    .flatMap((track) =>
+      track.clips.map((clip) => ({
+        clipId: clip.id,
+        points: duckingGainToAutomation(
+          gain,
+          controlRate,
+          clip.startTime,
+          clip.duration,
+        ),
+      })),
+    );
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { computeSpectrogram, SpectrumAnalyzer } from "./spectrum-analyzer";
+
+describe("SpectrumAnalyzer", () => {
+  it("should read a full-scale sine at 0 dBFS in its bin", () => {
+    const analyzer = new SpectrumAnalyzer(4096);
+    const sampleRate = 48000;
+    // Bin-centred so the tone doesn't spread between bins
+    const frequency = (85 * sampleRate) / 4096;
+    const samples = new Float32Array(8192);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    }
+
+    const spectrum = analyzer.analyze(samples);
+    expect(spectrum).toHaveLength(2048);
+    expect(spectrum[85]).toBeCloseTo(0, 0);
+    expect(spectrum[300]).toBeLessThan(-60);
+    expect(analyzer.getFrequencies(sampleRate)[85]).toBeCloseTo(frequency, 6);
+  });
+});
+
+describe("computeSpectrogram", () => {
+  it("should place a tone in the right bin of every frame", () => {
+    const sampleRate = 48000;
+    const frequency = (100 * sampleRate) / 2048;
+    const samples = new Float32Array(sampleRate);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    }
+
+    const spectrogram = computeSpectrogram([samples], sampleRate, 2048, 100);
+    expect(spectrogram.frames).toBeLessThanOrEqual(100);
+    expect(spectrogram.bins).toBe(1024);
+    const middle = Math.floor(spectrogram.frames / 2) * spectrogram.bins;
+    expect(spectrogram.data[middle + 100]).toBeCloseTo(0, 0);
+    expect(spectrogram.data[middle + 400]).toBeLessThan(-60);
+  });
+});
@@ -0,0 +1,108 @@
+import { getWasmFFT, initWasmFFT, WasmFFT } from "../wasm/fft";
+
+/**
+ * Magnitude spectrum of time-domain blocks, in dBFS per bin, for the live
+ * overlay behind the EQ curve. Uses the WASM FFT once it has loaded and
+ * the JS FFT until then.
+ */
+export class SpectrumAnalyzer {
+  private readonly fftSize: number;
+  private fft: WasmFFT;
+  /** Scales a Hann-windowed full-scale sine to 0 dBFS. */
+  private readonly normalization: number;
+  private smoothed: Float32Array | null = null;
+
+  constructor(fftSize: number = 4096) {
+    this.fftSize = fftSize;
+    this.fft = getWasmFFT(fftSize);
+    this.normalization = 4 / fftSize;
+    initWasmFFT()
+      .then(() => this.fft.ensureWasm())
+      .catch(() => undefined);
+  }
+
+  getFFTSize(): number {
+    return this.fftSize;
+  }
+
+  /** Centre frequency of each bin. */
+  getFrequencies(sampleRate: number): Float32Array {
+    const frequencies = new Float32Array(this.fftSize / 2);
+    for (let i = 0; i < frequencies.length; i++) {
+      frequencies[i] = (i * sampleRate) / this.fftSize;
+    }
+    return frequencies;
+  }
+
+  /**
+   * Spectrum of the last `fftSize` samples, in dBFS. With `smoothing`
+   * above 0 each call blends into the previous result, the way
+   * AnalyserNode smooths.
+   */
+  analyze(samples: Float32Array, smoothing: number = 0): Float32Array {
+    const block = new Float32Array(this.fftSize);
+    block.set(samples.subarray(Math.max(0, samples.length - this.fftSize)));
+    const { real, imag } = this.fft.forward(this.fft.applyHannWindow(block));
+    const magnitudes = this.fft.getMagnitude(real, imag);
+
+    const previous = this.smoothed;
+    const spectrum = new Float32Array(this.fftSize / 2);
+    for (let i = 0; i < spectrum.length; i++) {
+      const magnitude = magnitudes[i] * this.normalization;
+      const value =
+        previous && smoothing > 0
+          ? smoothing * Math.pow(10, previous[i] / 20) +
+            (1 - smoothing) * magnitude
+          : magnitude;
+      spectrum[i] = 20 * Math.log10(Math.max(value, 1e-7));
+    }
+    this.smoothed = spectrum;
+    return spectrum;
+  }
+}
+
+export interface Spectrogram {
+  /** dBFS, `bins` values per frame, frame after frame */
+  readonly data: Float32Array;
+  readonly frames: number;
+  readonly bins: number;
+  readonly fftSize: number;
+  /** Samples between frames; frame `i` is centred on `i * hopSize` */
+  readonly hopSize: number;
+  readonly sampleRate: number;
+}
+
+/**
+ * Spectrogram of the channels mixed to mono. The hop grows with the
+ * length of the audio so there are never more than `maxFrames` frames.
+ */
+export function computeSpectrogram(
+  channels: Float32Array[],
+  sampleRate: number,
+  fftSize: number = 2048,
+  maxFrames: number = 4000,
+): Spectrogram {
+  const length = channels[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  }
+
+  const hopSize = Math.max(fftSize / 4, Math.ceil(length / maxFrames));
+  const frames = Math.max(1, Math.ceil(length / hopSize));
+  const bins = fftSize / 2;
+  const analyzer = new SpectrumAnalyzer(fftSize);
+  const data = new Float32Array(frames * bins);
+  const block = new Float32Array(fftSize);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const start = frame * hopSize - fftSize / 2;
+    block.fill(0);
+    for (let i = Math.max(0, -start); i < fftSize && start + i < length; i++) {
+      block[i] = mono[start + i];
+    }
+    data.set(analyzer.analyze(block), frame * bins);
+  }
+
+  return { data, frames, bins, fftSize, hopSize, sampleRate };
+}
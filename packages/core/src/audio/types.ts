@@ -1,4 +1,4 @@
-import type { Effect } from "../types/timeline";
+import type { AutomationPoint, Effect } from "../types/timeline";
 
 export interface AudioWaveformData {
   readonly peaks: Float32Array;
@@ -10,8 +10,8 @@ export interface AudioWaveformData {
 
 export interface LoudnessMetrics {
   readonly integrated: number; // LUFS
-  readonly shortTerm: number; // LUFS
-  readonly momentary: number; // LUFS
+  readonly shortTerm: number; // LUFS, loudest 3 s window
+  readonly momentary: number; // LUFS, loudest 400 ms window
   readonly truePeak: number; // dBTP
   readonly range: number; // LU
 }
@@ -38,10 +38,14 @@ export interface AudioClipRenderInfo {
   readonly volume: number;
   readonly pan: number;
   readonly effects: Effect[];
+  /** The clip's audio effects, run ahead of the track like in playback. */
+  readonly audioEffects?: Effect[];
   readonly fadeIn?: number;
   readonly fadeOut?: number;
   readonly speed?: number;
   readonly reversed?: boolean;
+  /** Volume automation, timed from the start of the rendered portion. */
+  readonly automation?: AutomationPoint[];
 }
 
 export interface AudioChannelState {
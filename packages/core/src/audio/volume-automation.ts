@@ -45,6 +45,45 @@ export function clampVolume(volume: number): number {
   return Math.max(VOLUME_MIN, Math.min(VOLUME_MAX, volume));
 }
 
+/** Linear interpolation of automation points, held past either end. */
+export function getAutomationValueAt(
+  points: AutomationPoint[],
+  time: number,
+): number {
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  if (sorted.length === 0) return 1;
+  if (time <= sorted[0].time) return sorted[0].value;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const current = sorted[i];
+    const next = sorted[i + 1];
+    if (time < next.time) {
+      const t = (time - current.time) / (next.time - current.time);
+      return current.value + t * (next.value - current.value);
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Schedules a clip's volume automation on a gain parameter. `when` is the
+ * context time at which playback reaches `offset` seconds into the clip.
+ */
+export function scheduleVolumeAutomation(
+  param: AudioParam,
+  points: AutomationPoint[],
+  when: number,
+  offset: number = 0,
+): void {
+  param.setValueAtTime(clampVolume(getAutomationValueAt(points, offset)), when);
+  for (const point of [...points].sort((a, b) => a.time - b.time)) {
+    if (point.time <= offset) continue;
+    param.linearRampToValueAtTime(
+      clampVolume(point.value),
+      when + point.time - offset,
+    );
+  }
+}
+
 export class VolumeAutomation {
   private audioContext: AudioContext | OfflineAudioContext | null = null;
   private initialized = false;
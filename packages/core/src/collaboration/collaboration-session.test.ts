@@ -0,0 +1,366 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ActionExecutor } from "../actions/action-executor";
+import { CollaborationSession } from "./collaboration-session";
+import type {
+  CollaborationConflict,
+  CollaborationRelayMessage,
+  CollaborationTransportFactory,
+  CollaborationTransportHandlers,
+  CollaboratorInfo,
+} from "./types";
+import type { Action, Project, Clip, Track } from "../types";
+
+const createMockClip = (overrides?: Partial<Clip>): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 5,
+  inPoint: 0,
+  outPoint: 5,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createMockTrack = (overrides?: Partial<Track>): Track => ({
+  id: "track-1",
+  type: "video",
+  name: "Video 1",
+  clips: [
+    createMockClip(),
+    createMockClip({ id: "clip-2", startTime: 5 }),
+    createMockClip({ id: "clip-3", startTime: 20 }),
+  ],
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  ...overrides,
+});
+
+const createMockProject = (): Project => ({
+  id: "project-1",
+  name: "Shared cut",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: {
+    tracks: [createMockTrack()],
+    subtitles: [],
+    duration: 25,
+    markers: [],
+  },
+});
+
+const createEmptyProject = (): Project => ({
+  ...createMockProject(),
+  timeline: { tracks: [], subtitles: [], duration: 0, markers: [] },
+});
+
+const moveClip = (clipId: string, startTime: number): Action => ({
+  type: "clip/move",
+  id: `move-${clipId}-${startTime}`,
+  timestamp: 0,
+  params: { clipId, startTime },
+});
+
+/**
+ * In-memory stand-in for the relay in apps/relay: same protocol, but
+ * messages are only delivered when the test calls flush, so concurrent
+ * edits can be staged.
+ */
+class MemoryRelay {
+  private seq = 0;
+  private nextPeer = 1;
+  /** Actions received while held, sequenced on release. */
+  private held: { peerId: string; action: string }[] | null = null;
+  private clients = new Map<
+    string,
+    {
+      info: CollaboratorInfo | null;
+      handlers: CollaborationTransportHandlers;
+      inbox: string[];
+    }
+  >();
+
+  transport: CollaborationTransportFactory = async (handlers) => {
+    const peerId = `peer-${this.nextPeer++}`;
+    this.clients.set(peerId, { info: null, handlers, inbox: [] });
+    return {
+      send: (message) => this.receive(peerId, JSON.parse(message)),
+      close: () => {
+        this.clients.delete(peerId);
+        this.broadcast({ type: "peer-left", peerId });
+      },
+    };
+  };
+
+  holdActions(): void {
+    this.held = [];
+  }
+
+  releaseActions(): void {
+    const held = this.held ?? [];
+    this.held = null;
+    held.forEach(({ peerId, action }) =>
+      this.receive(peerId, { type: "action", action }),
+    );
+  }
+
+  async flush(sessions: CollaborationSession[]): Promise<void> {
+    let delivered = true;
+    while (delivered) {
+      delivered = false;
+      for (const client of this.clients.values()) {
+        const inbox = client.inbox.splice(0);
+        inbox.forEach((message) => client.handlers.onMessage(message));
+        delivered = delivered || inbox.length > 0;
+      }
+      await Promise.all(sessions.map((session) => session.whenIdle()));
+    }
+  }
+
+  private deliver(peerId: string, message: CollaborationRelayMessage): void {
+    this.clients.get(peerId)?.inbox.push(JSON.stringify(message));
+  }
+
+  private broadcast(message: CollaborationRelayMessage, except?: string): void {
+    for (const [peerId, client] of this.clients) {
+      if (peerId !== except && client.info) this.deliver(peerId, message);
+    }
+  }
+
+  private receive(peerId: string, message: Record<string, unknown>): void {
+    const client = this.clients.get(peerId);
+    if (!client) return;
+
+    switch (message.type) {
+      case "hello": {
+        const peers = [...this.clients.values()]
+          .map((c) => c.info)
+          .filter((info): info is CollaboratorInfo => info !== null);
+        client.info = {
+          peerId,
+          name: message.name as string,
+          color: message.color as string,
+        };
+        this.deliver(peerId, {
+          type: "welcome",
+          peerId,
+          seq: this.seq,
+          peers,
+        });
+        this.broadcast({ type: "peer-joined", peer: client.info }, peerId);
+        break;
+      }
+      case "action":
+        if (this.held) {
+          this.held.push({ peerId, action: message.action as string });
+          break;
+        }
+        this.broadcast({
+          type: "action",
+          seq: ++this.seq,
+          peerId,
+          action: message.action as string,
+        });
+        break;
+      case "presence":
+        this.broadcast(
+          {
+            type: "presence",
+            peerId,
+            cursorTime: message.cursorTime as number | null,
+            selectedClipIds: message.selectedClipIds as string[],
+          },
+          peerId,
+        );
+        break;
+      case "sync-request": {
+        const source = [...this.clients.entries()].find(
+          ([id, c]) => id !== peerId && c.info,
+        );
+        if (source) this.deliver(source[0], { type: "sync-request", peerId });
+        break;
+      }
+      case "sync":
+        this.deliver(message.targetPeerId as string, {
+          type: "sync",
+          seq: message.seq as number,
+          project: message.project as string,
+        });
+        break;
+      case "sync-unavailable":
+        this.deliver(message.targetPeerId as string, {
+          type: "sync-unavailable",
+        });
+        break;
+    }
+  }
+}
+
+interface Peer {
+  project: Project;
+  executor: ActionExecutor;
+  session: CollaborationSession;
+  conflicts: CollaborationConflict[];
+}
+
+const createPeer = (name: string, project: Project): Peer => {
+  const executor = new ActionExecutor();
+  const peer: Peer = {
+    project,
+    executor,
+    session: new CollaborationSession({
+      executor,
+      getProject: () => peer.project,
+      name,
+    }),
+    conflicts: [],
+  };
+  peer.session.subscribe((event) => {
+    if (event.type === "conflict") peer.conflicts.push(event.conflict);
+  });
+  return peer;
+};
+
+const clipStarts = (project: Project): Record<string, number> =>
+  Object.fromEntries(
+    project.timeline.tracks[0].clips.map((clip) => [clip.id, clip.startTime]),
+  );
+
+describe("CollaborationSession", () => {
+  let relay: MemoryRelay;
+  let alice: Peer;
+  let bob: Peer;
+
+  beforeEach(async () => {
+    relay = new MemoryRelay();
+    alice = createPeer("Alice", createMockProject());
+    bob = createPeer("Bob", createEmptyProject());
+
+    await alice.session.connect(relay.transport);
+    await relay.flush([alice.session]);
+    await bob.session.connect(relay.transport);
+    await relay.flush([alice.session, bob.session]);
+  });
+
+  it("should sync the project to a peer that joins", () => {
+    expect(bob.session.getStatus()).toBe("connected");
+    expect(clipStarts(bob.project)).toEqual(clipStarts(alice.project));
+    expect(alice.session.getPeers().map((p) => p.name)).toEqual(["Bob"]);
+  });
+
+  it("should apply peer actions without recording them", async () => {
+    await alice.executor.execute(moveClip("clip-3", 12), alice.project);
+    await relay.flush([alice.session, bob.session]);
+
+    expect(clipStarts(bob.project)["clip-3"]).toBe(12);
+    expect(bob.executor.getHistory().canUndo()).toBe(false);
+
+    await alice.executor.undo(alice.project);
+    await relay.flush([alice.session, bob.session]);
+    expect(clipStarts(bob.project)["clip-3"]).toBe(20);
+  });
+
+  it("should resolve two clips moved into the same slot", async () => {
+    await alice.executor.execute(moveClip("clip-1", 30), alice.project);
+    await bob.executor.execute(moveClip("clip-2", 30), bob.project);
+    await relay.flush([alice.session, bob.session]);
+
+    expect(clipStarts(alice.project)).toEqual({
+      "clip-1": 30,
+      "clip-2": 5,
+      "clip-3": 20,
+    });
+    expect(clipStarts(bob.project)).toEqual(clipStarts(alice.project));
+
+    expect(bob.conflicts).toEqual([
+      expect.objectContaining({
+        isLocal: true,
+        errors: [expect.objectContaining({ code: "OVERLAP_DETECTED" })],
+      }),
+    ]);
+    expect(alice.conflicts).toEqual([
+      expect.objectContaining({ isLocal: false, peerId: "peer-2" }),
+    ]);
+  });
+
+  it("should keep a joining peer waiting only until the project can be shared", async () => {
+    vi.useFakeTimers();
+    try {
+      // Project creation has no inverse, so Alice can't take it back to
+      // produce the confirmed project while it is unconfirmed
+      relay.holdActions();
+      await alice.executor.execute(
+        {
+          type: "project/create",
+          id: "create",
+          timestamp: 0,
+          params: { name: "Recut", settings: alice.project.settings },
+        },
+        alice.project,
+      );
+      const carol = createPeer("Carol", createEmptyProject());
+      const sessions = [alice.session, bob.session, carol.session];
+      await carol.session.connect(relay.transport);
+      await relay.flush(sessions);
+      expect(carol.session.getStatus()).toBe("syncing");
+
+      relay.releaseActions();
+      await relay.flush(sessions);
+      await vi.advanceTimersByTimeAsync(1000);
+      await relay.flush(sessions);
+
+      expect(carol.session.getStatus()).toBe("connected");
+      expect(carol.project.name).toBe("Recut");
+      expect(clipStarts(carol.project)).toEqual(clipStarts(alice.project));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should share cursors and selections", async () => {
+    bob.session.updatePresence(4.5, ["clip-2"]);
+    await relay.flush([alice.session, bob.session]);
+
+    expect(alice.session.getPeers()).toEqual([
+      expect.objectContaining({
+        name: "Bob",
+        cursorTime: 4.5,
+        selectedClipIds: ["clip-2"],
+      }),
+    ]);
+  });
+
+  it("should stop rejecting overlaps after disconnecting", async () => {
+    bob.session.disconnect();
+    await relay.flush([alice.session]);
+
+    expect(bob.session.getStatus()).toBe("disconnected");
+    expect(alice.session.getPeers()).toHaveLength(0);
+    const result = await bob.executor.execute(
+      moveClip("clip-1", 6),
+      bob.project,
+    );
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,505 @@
+import type {
+  Action,
+  ActionResult,
+  ValidationError,
+} from "../types/actions";
+import type { Project } from "../types/project";
+import type {
+  ActionExecutor,
+  ActionExecutorEvent,
+} from "../actions/action-executor";
+import { ActionSerializer } from "../actions/action-serializer";
+import { serializeProject, deserializeProject } from "../utils/serialization";
+import type {
+  CollaborationClientMessage,
+  CollaborationConflict,
+  CollaborationEvent,
+  CollaborationRelayMessage,
+  CollaborationStatus,
+  CollaborationTransport,
+  CollaborationTransportFactory,
+  CollaboratorPresence,
+} from "./types";
+
+export const COLLABORATOR_COLORS = [
+  "#f97316",
+  "#22c55e",
+  "#3b82f6",
+  "#e11d48",
+  "#a855f7",
+  "#14b8a6",
+] as const;
+
+export interface CollaborationSessionOptions {
+  readonly executor: ActionExecutor;
+  /** Returns the live project that the executor edits in place. */
+  readonly getProject: () => Project;
+  readonly name: string;
+  readonly color?: string;
+}
+
+/** How long a joining peer waits before asking for the project again. */
+const SYNC_RETRY_DELAY = 1000;
+
+type SequencedMessage = Extract<
+  CollaborationRelayMessage,
+  { type: "action" | "snapshot" }
+>;
+
+/**
+ * A local change that has been sent to the relay but not yet echoed back
+ * with its sequence number. Pending changes are reverted and re-applied
+ * whenever a peer's change is sequenced before them.
+ */
+type PendingChange =
+  | {
+      readonly type: "action";
+      readonly action: Action;
+      inverseAction: Action | null;
+      applied: boolean;
+      errors: ValidationError[];
+    }
+  | {
+      readonly type: "snapshot";
+      readonly project: Project;
+      previous: Project;
+      applied: boolean;
+    };
+
+function getValidationErrors(result: ActionResult): ValidationError[] {
+  const errors = result.error?.details?.errors;
+  if (Array.isArray(errors)) {
+    return errors as ValidationError[];
+  }
+  return [
+    {
+      code: result.error?.code ?? "INVALID_PARAMS",
+      message: result.error?.message ?? "Action failed",
+    },
+  ];
+}
+
+/**
+ * Shares the edits of one ActionExecutor with the other peers in a relay
+ * room. Local actions are applied immediately and broadcast; the relay puts
+ * all actions in one order, and every peer replays peers' actions in that
+ * order, rebasing its own unconfirmed actions on top. An action that fails
+ * validation at its place in the order (e.g. OVERLAP_DETECTED when two clips
+ * are moved into the same slot) is dropped by every peer and reported as a
+ * conflict.
+ *
+ * Peers' actions are not recorded in the local undo history, so undo only
+ * reverts the local user's own edits.
+ */
+export class CollaborationSession {
+  private executor: ActionExecutor;
+  private getProject: () => Project;
+  private name: string;
+  private color: string;
+  private serializer = new ActionSerializer();
+  private transport: CollaborationTransport | null = null;
+  private status: CollaborationStatus = "disconnected";
+  private peerId: string | null = null;
+  private seq = 0;
+  private pending: PendingChange[] = [];
+  private buffered: SequencedMessage[] = [];
+  private peers: Map<string, CollaboratorPresence> = new Map();
+  private listeners: Set<(event: CollaborationEvent) => void> = new Set();
+  private unsubscribeExecutor: (() => void) | null = null;
+  private processing: Promise<void> = Promise.resolve();
+  private syncRetry: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: CollaborationSessionOptions) {
+    this.executor = options.executor;
+    this.getProject = options.getProject;
+    this.name = options.name;
+    this.color =
+      options.color ??
+      COLLABORATOR_COLORS[
+        Math.floor(Math.random() * COLLABORATOR_COLORS.length)
+      ];
+  }
+
+  subscribe(listener: (event: CollaborationEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: CollaborationEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  async connect(createTransport: CollaborationTransportFactory): Promise<void> {
+    if (this.transport) {
+      return;
+    }
+
+    this.setStatus("connecting");
+    try {
+      this.transport = await createTransport({
+        onMessage: (message) => this.enqueue(message),
+        onClose: () => this.handleClose(),
+      });
+    } catch (error) {
+      this.setStatus("disconnected");
+      throw error;
+    }
+
+    this.executor.setRejectOverlaps(true);
+    this.unsubscribeExecutor = this.executor.subscribe((event) =>
+      this.handleLocalEvent(event),
+    );
+    this.send({ type: "hello", name: this.name, color: this.color });
+  }
+
+  disconnect(): void {
+    this.transport?.close();
+    this.handleClose();
+  }
+
+  updatePresence(cursorTime: number | null, selectedClipIds: string[]): void {
+    this.send({ type: "presence", cursorTime, selectedClipIds });
+  }
+
+  getStatus(): CollaborationStatus {
+    return this.status;
+  }
+
+  getPeerId(): string | null {
+    return this.peerId;
+  }
+
+  getColor(): string {
+    return this.color;
+  }
+
+  getPeers(): CollaboratorPresence[] {
+    return Array.from(this.peers.values());
+  }
+
+  /** Resolves once every relay message received so far has been handled. */
+  whenIdle(): Promise<void> {
+    return this.processing;
+  }
+
+  private send(message: CollaborationClientMessage): void {
+    this.transport?.send(JSON.stringify(message));
+  }
+
+  private setStatus(status: CollaborationStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit({ type: "status", status });
+  }
+
+  private emitPeers(): void {
+    this.emit({ type: "peers", peers: this.getPeers() });
+  }
+
+  private emitConflict(conflict: CollaborationConflict): void {
+    this.emit({ type: "conflict", conflict });
+  }
+
+  private handleLocalEvent(event: ActionExecutorEvent): void {
+    if (event.type === "applied") {
+      this.pending.push({
+        type: "action",
+        action: event.action,
+        inverseAction: event.inverseAction,
+        applied: true,
+        errors: [],
+      });
+      this.send({
+        type: "action",
+        action: this.serializer.serialize(event.action),
+      });
+    } else {
+      const project = serializeProject(event.project);
+      this.pending.push({
+        type: "snapshot",
+        project: deserializeProject(project),
+        previous: event.previous,
+        applied: true,
+      });
+      this.send({ type: "snapshot", project });
+    }
+  }
+
+  private enqueue(message: string): void {
+    this.processing = this.processing
+      .then(() =>
+        this.handleMessage(JSON.parse(message) as CollaborationRelayMessage),
+      )
+      .catch((error) => {
+        console.error("[Collaboration] Failed to handle relay message:", error);
+      });
+  }
+
+  private async handleMessage(
+    message: CollaborationRelayMessage,
+  ): Promise<void> {
+    switch (message.type) {
+      case "welcome":
+        this.peerId = message.peerId;
+        this.seq = message.seq;
+        this.peers = new Map(
+          message.peers.map((peer) => [
+            peer.peerId,
+            { ...peer, cursorTime: null, selectedClipIds: [] },
+          ]),
+        );
+        this.emitPeers();
+        if (message.peers.length > 0) {
+          this.requestSync();
+        } else {
+          this.setStatus("connected");
+        }
+        break;
+
+      case "peer-joined":
+        this.peers.set(message.peer.peerId, {
+          ...message.peer,
+          cursorTime: null,
+          selectedClipIds: [],
+        });
+        this.emitPeers();
+        break;
+
+      case "peer-left":
+        this.peers.delete(message.peerId);
+        this.emitPeers();
+        // The peer asked for the project may have been the one that left
+        if (this.status === "syncing") {
+          if (this.peers.size > 0) {
+            this.requestSync();
+          } else {
+            await this.finishSync();
+          }
+        }
+        break;
+
+      case "presence": {
+        const peer = this.peers.get(message.peerId);
+        if (peer) {
+          this.peers.set(message.peerId, {
+            ...peer,
+            cursorTime: message.cursorTime,
+            selectedClipIds: message.selectedClipIds,
+          });
+          this.emitPeers();
+        }
+        break;
+      }
+
+      case "sync-request":
+        // Always answer, or the joining peer would wait in "syncing" forever
+        if (this.status === "connected") {
+          await this.sendSync(message.peerId);
+        } else {
+          this.send({ type: "sync-unavailable", targetPeerId: message.peerId });
+        }
+        break;
+
+      case "sync-unavailable":
+        if (this.status === "syncing" && !this.syncRetry) {
+          this.syncRetry = setTimeout(() => {
+            this.syncRetry = null;
+            if (this.status === "syncing") this.requestSync();
+          }, SYNC_RETRY_DELAY);
+        }
+        break;
+
+      case "sync":
+        if (this.status === "syncing") {
+          await this.applySync(message.seq, message.project);
+        }
+        break;
+
+      case "action":
+      case "snapshot":
+        if (this.status === "syncing") {
+          this.buffered.push(message);
+        } else {
+          await this.applySequenced(message);
+        }
+        break;
+    }
+  }
+
+  private async applySequenced(message: SequencedMessage): Promise<void> {
+    if (message.seq <= this.seq) return;
+    this.seq = message.seq;
+
+    if (message.peerId === this.peerId) {
+      const change = this.pending.shift();
+      if (change?.type === "action" && !change.applied) {
+        this.emitConflict({
+          action: change.action,
+          peerId: message.peerId,
+          isLocal: true,
+          errors: change.errors,
+        });
+      }
+      return;
+    }
+
+    const project = this.getProject();
+    if (!(await this.revertPending(project))) {
+      this.requestSync();
+      return;
+    }
+
+    if (message.type === "snapshot") {
+      this.executor.restoreProject(
+        project,
+        deserializeProject(message.project),
+      );
+    } else {
+      const action = this.serializer.deserialize(message.action);
+      const result = await this.executor.execute(action, project, {
+        recordHistory: false,
+      });
+      if (!result.success) {
+        this.emitConflict({
+          action,
+          peerId: message.peerId,
+          isLocal: false,
+          errors: getValidationErrors(result),
+        });
+      }
+    }
+
+    await this.reapplyPending(project);
+    this.emit({ type: "project", project });
+  }
+
+  /**
+   * Takes unconfirmed changes back off the project, newest first. Fails
+   * without touching the project when one of them can't be inverted.
+   */
+  private async revertPending(project: Project): Promise<boolean> {
+    if (
+      this.pending.some(
+        (change) =>
+          change.applied && change.type === "action" && !change.inverseAction,
+      )
+    ) {
+      return false;
+    }
+    for (const change of [...this.pending].reverse()) {
+      if (!change.applied) continue;
+
+      if (change.type === "snapshot") {
+        this.executor.restoreProject(project, change.previous);
+      } else if (change.inverseAction) {
+        await this.executor.execute(change.inverseAction, project, {
+          recordHistory: false,
+          validate: false,
+        });
+      }
+      change.applied = false;
+    }
+    return true;
+  }
+
+  private async reapplyPending(project: Project): Promise<void> {
+    for (const change of this.pending) {
+      if (change.type === "snapshot") {
+        change.previous = JSON.parse(JSON.stringify(project));
+        this.executor.restoreProject(project, change.project);
+        change.applied = true;
+        continue;
+      }
+
+      change.inverseAction = this.executor.generateInverse(
+        change.action,
+        project,
+      );
+      const result = await this.executor.execute(change.action, project, {
+        recordHistory: false,
+      });
+      change.applied = result.success;
+      change.errors = result.success ? [] : getValidationErrors(result);
+    }
+  }
+
+  private requestSync(): void {
+    this.setStatus("syncing");
+    this.send({ type: "sync-request" });
+  }
+
+  /**
+   * Answers a joining peer with the project as of the last sequenced change,
+   * i.e. without this peer's unconfirmed actions, which the joining peer
+   * will receive from the relay. If those can't be taken back, the joining
+   * peer is told to ask again once they have been confirmed.
+   */
+  private async sendSync(targetPeerId: string): Promise<void> {
+    const project = this.getProject();
+    if (!(await this.revertPending(project))) {
+      this.send({ type: "sync-unavailable", targetPeerId });
+      return;
+    }
+    const serialized = serializeProject(project);
+    await this.reapplyPending(project);
+    this.send({
+      type: "sync",
+      targetPeerId,
+      seq: this.seq,
+      project: serialized,
+    });
+  }
+
+  private async applySync(seq: number, serialized: string): Promise<void> {
+    const project = this.getProject();
+
+    // Own actions echoed before the snapshot was taken are already part of it
+    const included = this.buffered.filter(
+      (message) => message.peerId === this.peerId && message.seq <= seq,
+    ).length;
+    this.pending.splice(0, included);
+
+    this.executor.restoreProject(project, deserializeProject(serialized));
+    // Undo entries from before joining refer to a project that is now gone
+    this.executor.getHistory().clear();
+    this.seq = seq;
+    await this.reapplyPending(project);
+    await this.finishSync();
+  }
+
+  private async finishSync(): Promise<void> {
+    this.setStatus("connected");
+    const buffered = this.buffered;
+    this.buffered = [];
+    for (const message of buffered) {
+      await this.applySequenced(message);
+    }
+    this.emit({ type: "project", project: this.getProject() });
+  }
+
+  private handleClose(): void {
+    if (!this.transport) return;
+
+    this.transport = null;
+    if (this.syncRetry) {
+      clearTimeout(this.syncRetry);
+      this.syncRetry = null;
+    }
+    this.unsubscribeExecutor?.();
+    this.unsubscribeExecutor = null;
+    this.executor.setRejectOverlaps(false);
+    this.peerId = null;
+    this.seq = 0;
+    this.pending = [];
+    this.buffered = [];
+    this.peers.clear();
+    this.emitPeers();
+    this.setStatus("disconnected");
+  }
+}
+
+export function createCollaborationSession(
+  options: CollaborationSessionOptions,
+): CollaborationSession {
+  return new CollaborationSession(options);
+}
@@ -0,0 +1,8 @@
+export * from "./types";
+export {
+  CollaborationSession,
+  createCollaborationSession,
+  COLLABORATOR_COLORS,
+  type CollaborationSessionOptions,
+} from "./collaboration-session";
+export { createWebSocketTransport } from "./websocket-transport";
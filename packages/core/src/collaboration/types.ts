@@ -0,0 +1,108 @@
+import type { Action, ValidationError } from "../types/actions";
+import type { Project } from "../types/project";
+
+export interface CollaboratorInfo {
+  readonly peerId: string;
+  readonly name: string;
+  readonly color: string;
+}
+
+export interface CollaboratorPresence extends CollaboratorInfo {
+  /** Timeline position of the collaborator's playhead, in seconds. */
+  readonly cursorTime: number | null;
+  readonly selectedClipIds: string[];
+}
+
+/**
+ * Messages a client sends to the relay. Actions and project snapshots are
+ * JSON strings (actions via ActionSerializer) so the relay never has to
+ * understand them.
+ */
+export type CollaborationClientMessage =
+  | { readonly type: "hello"; readonly name: string; readonly color: string }
+  | { readonly type: "action"; readonly action: string }
+  | { readonly type: "snapshot"; readonly project: string }
+  | {
+      readonly type: "presence";
+      readonly cursorTime: number | null;
+      readonly selectedClipIds: string[];
+    }
+  | { readonly type: "sync-request" }
+  | {
+      readonly type: "sync";
+      readonly targetPeerId: string;
+      readonly seq: number;
+      readonly project: string;
+    }
+  /** Sent instead of `sync` when the project can't be shared right now. */
+  | { readonly type: "sync-unavailable"; readonly targetPeerId: string };
+
+/**
+ * Messages the relay sends to a client. The relay stamps every action and
+ * snapshot with a room-wide sequence number and echoes it to all peers,
+ * including the sender, so everyone applies edits in the same order.
+ */
+export type CollaborationRelayMessage =
+  | {
+      readonly type: "welcome";
+      readonly peerId: string;
+      readonly seq: number;
+      readonly peers: CollaboratorInfo[];
+    }
+  | { readonly type: "peer-joined"; readonly peer: CollaboratorInfo }
+  | { readonly type: "peer-left"; readonly peerId: string }
+  | {
+      readonly type: "action";
+      readonly seq: number;
+      readonly peerId: string;
+      readonly action: string;
+    }
+  | {
+      readonly type: "snapshot";
+      readonly seq: number;
+      readonly peerId: string;
+      readonly project: string;
+    }
+  | {
+      readonly type: "presence";
+      readonly peerId: string;
+      readonly cursorTime: number | null;
+      readonly selectedClipIds: string[];
+    }
+  | { readonly type: "sync-request"; readonly peerId: string }
+  | { readonly type: "sync"; readonly seq: number; readonly project: string }
+  | { readonly type: "sync-unavailable" };
+
+export type CollaborationStatus =
+  | "disconnected"
+  | "connecting"
+  | "syncing"
+  | "connected";
+
+/** A sequenced action that failed validation and was dropped by every peer. */
+export interface CollaborationConflict {
+  readonly action: Action;
+  readonly peerId: string;
+  readonly isLocal: boolean;
+  readonly errors: ValidationError[];
+}
+
+export type CollaborationEvent =
+  | { readonly type: "status"; readonly status: CollaborationStatus }
+  | { readonly type: "peers"; readonly peers: CollaboratorPresence[] }
+  | { readonly type: "project"; readonly project: Project }
+  | { readonly type: "conflict"; readonly conflict: CollaborationConflict };
+
+export interface CollaborationTransport {
+  send(message: string): void;
+  close(): void;
+}
+
+export interface CollaborationTransportHandlers {
+  onMessage(message: string): void;
+  onClose(): void;
+}
+
+export type CollaborationTransportFactory = (
+  handlers: CollaborationTransportHandlers,
+) => Promise<CollaborationTransport>;
@@ -0,0 +1,50 @@
+import type {
+  CollaborationTransport,
+  CollaborationTransportFactory,
+} from "./types";
+
+/**
+ * Transport for a relay reachable over WebSocket, e.g. the bundled relay at
+ * ws://localhost:4455/<room>.
+ */
+export function createWebSocketTransport(
+  url: string,
+): CollaborationTransportFactory {
+  return (handlers) =>
+    new Promise<CollaborationTransport>((resolve, reject) => {
+      if (typeof WebSocket === "undefined") {
+        reject(new Error("WebSocket is not supported in this environment"));
+        return;
+      }
+
+      const socket = new WebSocket(url);
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        resolve({
+          send: (message) => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(message);
+            }
+          },
+          close: () => socket.close(),
+        });
+      };
+      socket.onmessage = (event) => {
+        if (typeof event.data === "string") {
+          handlers.onMessage(event.data);
+        }
+      };
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new Error(`Failed to connect to collaboration relay ${url}`));
+        }
+      };
+      socket.onclose = () => {
+        if (opened) {
+          handlers.onClose();
+        }
+      };
+    });
+}
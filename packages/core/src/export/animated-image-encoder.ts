@@ -0,0 +1,176 @@
+import type { AnimatedImageExportSettings } from "./types";
+import {
+  addToHistogram,
+  applyPalette,
+  buildPalette,
+  createColorHistogram,
+} from "./color-quantizer";
+import { encodeGif } from "./gif-encoder";
+import { encodeApng } from "./apng-encoder";
+
+export interface AnimatedImageFrame {
+  /** RGBA pixels at the export size. */
+  readonly data: Uint8ClampedArray | Uint8Array;
+  /** Seconds from the start of the animation. */
+  readonly time: number;
+}
+
+export interface AnimatedImageEncodeResult {
+  readonly data: Uint8Array;
+  readonly frameCount: number;
+  /** Every `frameStep`-th source frame was kept. */
+  readonly frameStep: number;
+  /** False when no amount of frame skipping reached the target size. */
+  readonly withinTarget: boolean;
+}
+
+export type AnimatedImageEncodeSettings = Pick<
+  AnimatedImageExportSettings,
+  | "format"
+  | "width"
+  | "height"
+  | "palette"
+  | "maxColors"
+  | "dithering"
+  | "loopCount"
+  | "targetFileSize"
+>;
+
+const MAX_SIZE_ATTEMPTS = 8;
+/** Pixels sampled per frame when building a shared palette. */
+const HISTOGRAM_SAMPLES_PER_FRAME = 65536;
+
+interface QuantizedFrames {
+  readonly globalPalette?: Uint8Array;
+  readonly palettes: (Uint8Array | undefined)[];
+  readonly indices: (Uint8Array | undefined)[];
+}
+
+function quantizeFrames(
+  frames: readonly AnimatedImageFrame[],
+  settings: AnimatedImageEncodeSettings,
+): QuantizedFrames {
+  const { width, height, maxColors, dithering } = settings;
+  // APNG allows only one PLTE, so per-frame palettes become full colour
+  if (settings.format === "apng" && settings.palette === "per-frame") {
+    return { palettes: [], indices: [] };
+  }
+
+  if (settings.palette === "per-frame") {
+    const palettes: Uint8Array[] = [];
+    const indices: Uint8Array[] = [];
+    for (const frame of frames) {
+      const histogram = createColorHistogram();
+      addToHistogram(histogram, frame.data);
+      const palette = buildPalette(histogram, maxColors);
+      palettes.push(palette);
+      indices.push(applyPalette(frame.data, width, height, palette, dithering));
+    }
+    return { palettes, indices };
+  }
+
+  const histogram = createColorHistogram();
+  const step = Math.ceil((width * height) / HISTOGRAM_SAMPLES_PER_FRAME);
+  for (const frame of frames) {
+    addToHistogram(histogram, frame.data, step);
+  }
+  const globalPalette = buildPalette(histogram, maxColors);
+  return {
+    globalPalette,
+    palettes: [],
+    indices: frames.map((frame) =>
+      applyPalette(frame.data, width, height, globalPalette, dithering),
+    ),
+  };
+}
+
+async function encodeSelection(
+  frames: readonly AnimatedImageFrame[],
+  quantized: QuantizedFrames,
+  selection: readonly number[],
+  duration: number,
+  settings: AnimatedImageEncodeSettings,
+): Promise<Uint8Array> {
+  const { width, height, loopCount } = settings;
+  const endOf = (position: number) =>
+    position + 1 < selection.length
+      ? frames[selection[position + 1]].time
+      : duration;
+
+  if (settings.format === "gif") {
+    // Round the cumulative time, not each delay, so the loop length holds
+    return encodeGif({
+      width,
+      height,
+      loopCount,
+      globalPalette: quantized.globalPalette,
+      frames: selection.map((frameIndex, position) => ({
+        indices: quantized.indices[frameIndex]!,
+        palette: quantized.palettes[frameIndex],
+        delay:
+          Math.round(endOf(position) * 100) -
+          Math.round(frames[frameIndex].time * 100),
+      })),
+    });
+  }
+
+  return encodeApng({
+    width,
+    height,
+    loopCount,
+    palette: quantized.globalPalette,
+    frames: selection.map((frameIndex, position) => ({
+      data: quantized.indices[frameIndex] ?? frames[frameIndex].data,
+      delay: (endOf(position) - frames[frameIndex].time) * 1000,
+    })),
+  });
+}
+
+/**
+ * Quantizes and encodes rendered frames as an animated GIF or APNG. With a
+ * target file size, frames are dropped evenly (keeping timing) until the
+ * result fits; if it never does, the smallest attempt is returned.
+ */
+export async function encodeAnimatedImage(
+  frames: readonly AnimatedImageFrame[],
+  duration: number,
+  settings: AnimatedImageEncodeSettings,
+): Promise<AnimatedImageEncodeResult> {
+  if (frames.length === 0) {
+    throw new Error("Animated image needs at least one frame");
+  }
+
+  const quantized = quantizeFrames(frames, settings);
+  const target = settings.targetFileSize;
+  let step = 1;
+  let best: AnimatedImageEncodeResult | null = null;
+
+  for (let attempt = 0; attempt < MAX_SIZE_ATTEMPTS; attempt++) {
+    const selection: number[] = [];
+    for (let i = 0; i < frames.length; i += step) selection.push(i);
+
+    const data = await encodeSelection(
+      frames,
+      quantized,
+      selection,
+      duration,
+      settings,
+    );
+    const withinTarget = !target || data.length <= target;
+    if (!best || data.length < best.data.length) {
+      best = {
+        data,
+        frameCount: selection.length,
+        frameStep: step,
+        withinTarget,
+      };
+    }
+    if (withinTarget || selection.length === 1) break;
+
+    // Most of the size scales with frame count, so aim straight for it
+    step = Math.max(step + 1, Math.ceil((step * data.length) / target));
+    step = Math.min(step, frames.length);
+  }
+
+  return best!;
+}
@@ -0,0 +1,381 @@
+import { describe, it, expect } from "vitest";
+import {
+  addToHistogram,
+  applyPalette,
+  buildPalette,
+  createColorHistogram,
+} from "./color-quantizer";
+import { encodeGif, lzwEncode } from "./gif-encoder";
+import { crc32, encodeApng } from "./apng-encoder";
+import {
+  encodeAnimatedImage,
+  type AnimatedImageFrame,
+  type AnimatedImageEncodeSettings,
+} from "./animated-image-encoder";
+
+const createGradient = (width: number, height: number, shift = 0) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = ((x + shift) * 255) / width;
+      data[i + 1] = (y * 255) / height;
+      data[i + 2] = ((x + y + shift) * 7) % 256;
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+};
+
+const createNoise = (width: number, height: number, seed: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = i % 4 === 3 ? 255 : state >> 16;
+  }
+  return data;
+};
+
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let offset = 0;
+
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < clearCode; i++) table.push([i]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  for (;;) {
+    while (bitCount < codeSize) {
+      if (offset >= data.length) return output;
+      bitBuffer |= data[offset++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return output;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push([...previous, entry[0]]);
+    } else {
+      entry = [...previous!, previous![0]];
+      table.push(entry);
+    }
+    output.push(...entry);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+}
+
+interface GifSummary {
+  loopCount: number | null;
+  frames: { delay: number; pixels: number[]; localTable: boolean }[];
+}
+
+function readGif(bytes: Uint8Array): GifSummary {
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+  expect(ascii(0, 6)).toBe("GIF89a");
+
+  let offset = 13;
+  if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 7) + 1));
+
+  const summary: GifSummary = { loopCount: null, frames: [] };
+  let delay = 0;
+  const readSubBlocks = () => {
+    const parts: number[] = [];
+    while (bytes[offset] !== 0) {
+      const size = bytes[offset];
+      parts.push(...bytes.subarray(offset + 1, offset + 1 + size));
+      offset += size + 1;
+    }
+    offset++;
+    return new Uint8Array(parts);
+  };
+
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21 && bytes[offset + 1] === 0xf9) {
+      delay = bytes[offset + 4] | (bytes[offset + 5] << 8);
+      offset += 8;
+    } else if (bytes[offset] === 0x21 && bytes[offset + 1] === 0xff) {
+      expect(ascii(offset + 3, 11)).toBe("NETSCAPE2.0");
+      offset += 14;
+      const block = readSubBlocks();
+      summary.loopCount = block[1] | (block[2] << 8);
+    } else if (bytes[offset] === 0x2c) {
+      const packed = bytes[offset + 9];
+      offset += 10;
+      const localTable = (packed & 0x80) !== 0;
+      if (localTable) offset += 3 * (1 << ((packed & 7) + 1));
+      const minCodeSize = bytes[offset++];
+      const pixels = lzwDecode(readSubBlocks(), minCodeSize);
+      summary.frames.push({ delay, pixels, localTable });
+    } else {
+      throw new Error(`Unexpected GIF block ${bytes[offset]}`);
+    }
+  }
+  return summary;
+}
+
+function readPngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array; crcValid: boolean }[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const stored = view.getUint32(offset + 8 + length);
+    const computed =
+      (crc32(bytes.subarray(offset + 4, offset + 8 + length)) ^ 0xffffffff) >>>
+      0;
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      crcValid: stored === computed,
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe("color quantizer", () => {
+  it("should build a palette no larger than requested", () => {
+    const histogram = createColorHistogram();
+    addToHistogram(histogram, createGradient(64, 64));
+    const palette = buildPalette(histogram, 16);
+    expect(palette.length).toBe(16 * 3);
+  });
+
+  it("should reproduce images with few colours exactly", () => {
+    const data = new Uint8ClampedArray([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 0, 0, 255,
+    ]);
+    const histogram = createColorHistogram();
+    addToHistogram(histogram, data);
+    const palette = buildPalette(histogram, 256);
+    expect(palette.length).toBe(9);
+
+    const indices = applyPalette(data, 2, 2, palette, "floyd-steinberg");
+    for (let i = 0; i < 4; i++) {
+      expect(palette[indices[i] * 3]).toBe(data[i * 4]);
+      expect(palette[indices[i] * 3 + 1]).toBe(data[i * 4 + 1]);
+      expect(palette[indices[i] * 3 + 2]).toBe(data[i * 4 + 2]);
+    }
+  });
+
+  it("should mix palette entries when dithering a flat colour", () => {
+    const data = new Uint8ClampedArray(16 * 16 * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      data.set([128, 128, 128, 255], i);
+    }
+    const palette = new Uint8Array([0, 0, 0, 255, 255, 255]);
+
+    const plain = applyPalette(data, 16, 16, palette, "none");
+    expect(new Set(plain).size).toBe(1);
+
+    for (const dithering of ["ordered", "floyd-steinberg"] as const) {
+      const dithered = applyPalette(data, 16, 16, palette, dithering);
+      const white = dithered.filter((index) => index === 1).length;
+      expect(white / dithered.length).toBeGreaterThan(0.3);
+      expect(white / dithered.length).toBeLessThan(0.7);
+    }
+  });
+});
+
+describe("GIF encoder", () => {
+  it("should round-trip LZW data across table resets", () => {
+    const indices = new Uint8Array(20000);
+    let state = 7;
+    for (let i = 0; i < indices.length; i++) {
+      state = (state * 1103515245 + 12345) & 0x7fffffff;
+      indices[i] = (state >> 16) & 0xff;
+    }
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual([...indices]);
+
+    const runs = new Uint8Array(5000).map((_, i) => Math.floor(i / 37) % 4);
+    expect(lzwDecode(lzwEncode(runs, 2), 2)).toEqual([...runs]);
+  });
+
+  it("should write frames, delays and the loop count", () => {
+    const globalPalette = new Uint8Array([0, 0, 0, 255, 255, 255]);
+    const first = new Uint8Array([0, 1, 1, 0]);
+    const second = new Uint8Array([1, 0, 0, 1]);
+    const bytes = encodeGif({
+      width: 2,
+      height: 2,
+      loopCount: 3,
+      globalPalette,
+      frames: [
+        { indices: first, delay: 10 },
+        {
+          indices: second,
+          delay: 25,
+          palette: new Uint8Array([255, 0, 0, 0, 0, 255]),
+        },
+      ],
+    });
+
+    const gif = readGif(bytes);
+    expect(gif.loopCount).toBe(2);
+    expect(gif.frames.map((frame) => frame.delay)).toEqual([10, 25]);
+    expect(gif.frames[0].pixels).toEqual([0, 1, 1, 0]);
+    expect(gif.frames[1].pixels).toEqual([1, 0, 0, 1]);
+    expect(gif.frames[1].localTable).toBe(true);
+  });
+
+  it("should omit the loop extension for a single play", () => {
+    const bytes = encodeGif({
+      width: 1,
+      height: 1,
+      loopCount: 1,
+      globalPalette: new Uint8Array([0, 0, 0]),
+      frames: [{ indices: new Uint8Array([0]), delay: 5 }],
+    });
+    expect(readGif(bytes).loopCount).toBeNull();
+  });
+});
+
+describe("APNG encoder", () => {
+  it("should write valid animation chunks", async () => {
+    const bytes = await encodeApng({
+      width: 4,
+      height: 4,
+      loopCount: 2,
+      frames: [
+        { data: createGradient(4, 4), delay: 100 },
+        { data: createGradient(4, 4, 1), delay: 50 },
+        { data: createGradient(4, 4, 2), delay: 50 },
+      ],
+    });
+
+    const chunks = readPngChunks(bytes);
+    expect(chunks.every((chunk) => chunk.crcValid)).toBe(true);
+    expect(chunks.map((chunk) => chunk.type)).toEqual([
+      "IHDR",
+      "acTL",
+      "fcTL",
+      "IDAT",
+      "fcTL",
+      "fdAT",
+      "fcTL",
+      "fdAT",
+      "IEND",
+    ]);
+
+    const acTL = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect(acTL.getUint32(0)).toBe(3);
+    expect(acTL.getUint32(4)).toBe(2);
+
+    const sequence = chunks
+      .filter((chunk) => chunk.type === "fcTL" || chunk.type === "fdAT")
+      .map((chunk) =>
+        new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint32(0),
+      );
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+    expect(chunks[0].data[9]).toBe(6);
+  });
+
+  it("should write a palette for indexed frames", async () => {
+    const bytes = await encodeApng({
+      width: 2,
+      height: 1,
+      loopCount: 0,
+      palette: new Uint8Array([0, 0, 0, 255, 255, 255]),
+      frames: [{ data: new Uint8Array([0, 1]), delay: 40 }],
+    });
+    const chunks = readPngChunks(bytes);
+    expect(chunks[0].data[9]).toBe(3);
+    expect(chunks.find((chunk) => chunk.type === "PLTE")?.data.length).toBe(6);
+  });
+});
+
+describe("encodeAnimatedImage", () => {
+  const width = 32;
+  const height = 32;
+  const createFrames = (count: number, noise = false): AnimatedImageFrame[] =>
+    Array.from({ length: count }, (_, i) => ({
+      data: noise
+        ? createNoise(width, height, i + 1)
+        : createGradient(width, height, i),
+      time: i / 10,
+    }));
+  const settings: AnimatedImageEncodeSettings = {
+    format: "gif",
+    width,
+    height,
+    palette: "global",
+    maxColors: 64,
+    dithering: "floyd-steinberg",
+    loopCount: 0,
+  };
+
+  it("should keep the total duration in GIF delays", async () => {
+    const result = await encodeAnimatedImage(createFrames(7), 0.7, {
+      ...settings,
+      palette: "per-frame",
+    });
+    const gif = readGif(result.data);
+    expect(gif.frames).toHaveLength(7);
+    expect(gif.frames.every((frame) => frame.localTable)).toBe(true);
+    expect(gif.frames.reduce((sum, frame) => sum + frame.delay, 0)).toBe(70);
+  });
+
+  it("should drop frames to fit a target file size", async () => {
+    const frames = createFrames(12, true);
+    const full = await encodeAnimatedImage(frames, 1.2, settings);
+    expect(full.frameCount).toBe(12);
+
+    const target = Math.floor(full.data.length / 3);
+    const reduced = await encodeAnimatedImage(frames, 1.2, {
+      ...settings,
+      targetFileSize: target,
+    });
+    expect(reduced.withinTarget).toBe(true);
+    expect(reduced.data.length).toBeLessThanOrEqual(target);
+    expect(reduced.frameStep).toBeGreaterThan(1);
+
+    const gif = readGif(reduced.data);
+    expect(gif.frames).toHaveLength(reduced.frameCount);
+    expect(gif.frames.reduce((sum, frame) => sum + frame.delay, 0)).toBe(120);
+  });
+
+  it("should return the smallest attempt when the target is unreachable", async () => {
+    const result = await encodeAnimatedImage(createFrames(4, true), 0.4, {
+      ...settings,
+      targetFileSize: 10,
+    });
+    expect(result.withinTarget).toBe(false);
+    expect(result.frameCount).toBe(1);
+  });
+
+  it("should write full-colour APNG frames for per-frame palettes", async () => {
+    const result = await encodeAnimatedImage(createFrames(3), 0.3, {
+      ...settings,
+      format: "apng",
+      palette: "per-frame",
+    });
+    const chunks = readPngChunks(result.data);
+    expect(chunks[0].data[9]).toBe(6);
+    expect(chunks.some((chunk) => chunk.type === "PLTE")).toBe(false);
+  });
+});
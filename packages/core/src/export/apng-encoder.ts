@@ -0,0 +1,234 @@
+/**
+ * Animated PNG writer. Frames are either palette-indexed (colour type 3,
+ * one PLTE shared by all frames) or full RGBA (colour type 6). Image data
+ * is zlib-compressed with CompressionStream, available in browsers and
+ * Node 18+.
+ */
+
+export interface ApngFrameData {
+  /** Palette indices, or RGBA pixels when no palette is given. */
+  readonly data: Uint8Array | Uint8ClampedArray;
+  /** Display time in milliseconds. */
+  readonly delay: number;
+}
+
+export interface ApngEncodeOptions {
+  readonly width: number;
+  readonly height: number;
+  /** Times the animation plays; 0 loops forever. */
+  readonly loopCount: number;
+  /** RGB triples. When set, frame data holds one index per pixel. */
+  readonly palette?: Uint8Array;
+  readonly frames: readonly ApngFrameData[];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array, crc: number = 0xffffffff): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(
+    8 + data.length,
+    (crc32(bytes.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0,
+  );
+  return bytes;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint32(index * 4, value));
+  return bytes;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Prefixes each scanline with its filter type. Indexed images are left
+ * unfiltered, as the PNG spec recommends; RGBA rows get whichever of the
+ * five filters leaves the smallest sum of residuals.
+ */
+function filterScanlines(
+  data: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  bytesPerPixel: number,
+): Uint8Array {
+  const stride = width * bytesPerPixel;
+  const output = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const out = y * (stride + 1);
+    if (bytesPerPixel === 1) {
+      output.set(data.subarray(row, row + stride), out + 1);
+      continue;
+    }
+
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < stride; x++) {
+        const value = data[row + x];
+        const left = x >= bytesPerPixel ? data[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? data[row + x - stride] : 0;
+        const upLeft =
+          y > 0 && x >= bytesPerPixel
+            ? data[row + x - stride - bytesPerPixel]
+            : 0;
+        const predicted =
+          filter === 0
+            ? 0
+            : filter === 1
+              ? left
+              : filter === 2
+                ? up
+                : filter === 3
+                  ? (left + up) >> 1
+                  : paeth(left, up, upLeft);
+        const residual = (value - predicted) & 0xff;
+        candidate[x] = residual;
+        score += residual < 128 ? residual : 256 - residual;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        output[out] = filter;
+        output.set(candidate, out + 1);
+      }
+    }
+    output[out] = bestFilter;
+  }
+  return output;
+}
+
+export async function encodeApng(
+  options: ApngEncodeOptions,
+): Promise<Uint8Array> {
+  const { width, height, loopCount, palette, frames } = options;
+  if (frames.length === 0) {
+    throw new Error("APNG needs at least one frame");
+  }
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = palette ? 3 : 6;
+  parts.push(chunk("IHDR", header));
+  parts.push(chunk("acTL", uint32s(frames.length, loopCount)));
+  if (palette) {
+    parts.push(chunk("PLTE", palette));
+  }
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const control = new Uint8Array(26);
+    const view = new DataView(control.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint32(12, 0);
+    view.setUint32(16, 0);
+    // Delay as a fraction: milliseconds over 1000
+    const delay = Math.min(0xffff, Math.max(0, Math.round(frame.delay)));
+    view.setUint16(20, delay);
+    view.setUint16(22, 1000);
+    control[24] = 0;
+    control[25] = 0;
+    parts.push(chunk("fcTL", control));
+
+    const compressed = await deflate(
+      filterScanlines(frame.data, width, height, palette ? 1 : 4),
+    );
+    if (i === 0) {
+      parts.push(chunk("IDAT", compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      new DataView(data.buffer).setUint32(0, sequence++);
+      data.set(compressed, 4);
+      parts.push(chunk("fdAT", data));
+    }
+  }
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  return concat(parts);
+}
+
+/**
+ * Still 16-bit RGB PNG (colour type 2). Samples are big-endian, six bytes
+ * per pixel, as PNG stores them.
+ */
+export async function encodePng16(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): Promise<Uint8Array> {
+  if (data.length !== width * height * 6) {
+    throw new Error("16-bit PNG data does not match its dimensions");
+  }
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16;
+  header[9] = 2;
+
+  return concat([
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", await deflate(filterScanlines(data, width, height, 6))),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
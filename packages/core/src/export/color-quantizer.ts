@@ -0,0 +1,235 @@
+import type { AnimatedImageDithering } from "./types";
+
+/**
+ * Median-cut palette quantization for indexed export formats. Colours are
+ * bucketed at 5 bits per channel; the palette is built by repeatedly
+ * splitting the most populous box along its widest channel.
+ */
+
+const BITS = 5;
+const SHIFT = 8 - BITS;
+const BUCKETS = 1 << (BITS * 3);
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+const ORDERED_SPREAD = 32;
+
+export interface ColorHistogram {
+  readonly counts: Uint32Array;
+  /** Summed channel values per bucket, for exact palette averages. */
+  readonly sums: Float64Array;
+}
+
+interface ColorBox {
+  readonly buckets: number[];
+  readonly count: number;
+}
+
+function bucketOf(r: number, g: number, b: number): number {
+  return ((r >> SHIFT) << (BITS * 2)) | ((g >> SHIFT) << BITS) | (b >> SHIFT);
+}
+
+export function createColorHistogram(): ColorHistogram {
+  return {
+    counts: new Uint32Array(BUCKETS),
+    sums: new Float64Array(BUCKETS * 3),
+  };
+}
+
+/** Adds every `step`-th pixel of an RGBA buffer to the histogram. */
+export function addToHistogram(
+  histogram: ColorHistogram,
+  rgba: Uint8ClampedArray | Uint8Array,
+  step: number = 1,
+): void {
+  const stride = Math.max(1, Math.floor(step)) * 4;
+  for (let i = 0; i < rgba.length; i += stride) {
+    const bucket = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    histogram.counts[bucket]++;
+    histogram.sums[bucket * 3] += rgba[i];
+    histogram.sums[bucket * 3 + 1] += rgba[i + 1];
+    histogram.sums[bucket * 3 + 2] += rgba[i + 2];
+  }
+}
+
+function channel(bucket: number, index: number): number {
+  return (bucket >> (BITS * (2 - index))) & ((1 << BITS) - 1);
+}
+
+function splitBox(
+  box: ColorBox,
+  counts: Uint32Array,
+): [ColorBox, ColorBox] | null {
+  if (box.buckets.length < 2) return null;
+
+  let axis = 0;
+  let widest = -1;
+  for (let index = 0; index < 3; index++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const bucket of box.buckets) {
+      const value = channel(bucket, index);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > widest) {
+      widest = max - min;
+      axis = index;
+    }
+  }
+
+  const sorted = [...box.buckets].sort(
+    (a, b) => channel(a, axis) - channel(b, axis),
+  );
+  let running = 0;
+  let cut = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    running += counts[sorted[i]];
+    cut = i + 1;
+    if (running >= box.count / 2) break;
+  }
+
+  const left = sorted.slice(0, cut);
+  const right = sorted.slice(cut);
+  const leftCount = left.reduce((sum, bucket) => sum + counts[bucket], 0);
+  return [
+    { buckets: left, count: leftCount },
+    { buckets: right, count: box.count - leftCount },
+  ];
+}
+
+/** Builds a palette of at most `maxColors` RGB triples. */
+export function buildPalette(
+  histogram: ColorHistogram,
+  maxColors: number,
+): Uint8Array {
+  const { counts, sums } = histogram;
+  const buckets: number[] = [];
+  let total = 0;
+  for (let bucket = 0; bucket < BUCKETS; bucket++) {
+    if (counts[bucket] > 0) {
+      buckets.push(bucket);
+      total += counts[bucket];
+    }
+  }
+  if (buckets.length === 0) {
+    return new Uint8Array(3);
+  }
+
+  const boxes: ColorBox[] = [{ buckets, count: total }];
+  const limit = Math.max(1, Math.min(256, Math.floor(maxColors)));
+  while (boxes.length < limit) {
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (
+        boxes[i].buckets.length > 1 &&
+        (target === -1 || boxes[i].count > boxes[target].count)
+      ) {
+        target = i;
+      }
+    }
+    if (target === -1) break;
+
+    const halves = splitBox(boxes[target], counts);
+    if (!halves) break;
+    boxes.splice(target, 1, ...halves);
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const bucket of box.buckets) {
+      r += sums[bucket * 3];
+      g += sums[bucket * 3 + 1];
+      b += sums[bucket * 3 + 2];
+    }
+    palette[index * 3] = Math.round(r / box.count);
+    palette[index * 3 + 1] = Math.round(g / box.count);
+    palette[index * 3 + 2] = Math.round(b / box.count);
+  });
+  return palette;
+}
+
+/**
+ * Maps RGBA pixels to palette indices. Nearest-colour lookups are cached
+ * per 5-bit bucket, which is exact enough once dithering noise is added.
+ */
+export function applyPalette(
+  rgba: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  dithering: AnimatedImageDithering = "none",
+): Uint8Array {
+  const colors = palette.length / 3;
+  const cache = new Int16Array(BUCKETS).fill(-1);
+  const indices = new Uint8Array(width * height);
+
+  const nearest = (r: number, g: number, b: number): number => {
+    const bucket = bucketOf(r, g, b);
+    const cached = cache[bucket];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[bucket] = best;
+    return best;
+  };
+  const clamp = (value: number) =>
+    value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+
+  if (dithering === "floyd-steinberg") {
+    let current = new Float32Array((width + 2) * 3);
+    let next = new Float32Array((width + 2) * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = (y * width + x) * 4;
+        const error = (x + 1) * 3;
+        const r = clamp(rgba[pixel] + current[error]);
+        const g = clamp(rgba[pixel + 1] + current[error + 1]);
+        const b = clamp(rgba[pixel + 2] + current[error + 2]);
+        const index = nearest(r, g, b);
+        indices[y * width + x] = index;
+
+        for (let c = 0; c < 3; c++) {
+          const residual =
+            (c === 0 ? r : c === 1 ? g : b) - palette[index * 3 + c];
+          current[error + 3 + c] += (residual * 7) / 16;
+          next[error - 3 + c] += (residual * 3) / 16;
+          next[error + c] += (residual * 5) / 16;
+          next[error + 3 + c] += residual / 16;
+        }
+      }
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+    return indices;
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = (y * width + x) * 4;
+      const offset =
+        dithering === "ordered"
+          ? (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * ORDERED_SPREAD
+          : 0;
+      indices[y * width + x] = nearest(
+        clamp(rgba[pixel] + offset),
+        clamp(rgba[pixel + 1] + offset),
+        clamp(rgba[pixel + 2] + offset),
+      );
+    }
+  }
+  return indices;
+}
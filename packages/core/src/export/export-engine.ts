@@ -1,9 +1,18 @@
+import type {
+  EncodedPacket,
+  EncodedPacketSink,
+  Input,
+  OutputFormat,
+  VideoCodec,
+} from "mediabunny";
 import type { Project } from "../types/project";
 import type {
   VideoExportSettings,
+  HdrExportSettings,
   AudioExportSettings,
   ImageExportSettings,
   SequenceExportSettings,
+  AnimatedImageExportSettings,
   ExportProgress,
   ExportPreset,
   ExportResult,
@@ -11,19 +20,65 @@ import type {
   ExportError,
 } from "./types";
 import {
+  CODEC_MAP,
+  DEFAULT_MASTERING_DISPLAY,
   DEFAULT_VIDEO_SETTINGS,
   DEFAULT_AUDIO_SETTINGS,
   DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_ANIMATED_IMAGE_SETTINGS,
   VIDEO_QUALITY_PRESETS,
 } from "./types";
+import {
+  encodeAnimatedImage,
+  type AnimatedImageFrame,
+} from "./animated-image-encoder";
+import {
+  areDecoderConfigsCompatible,
+  findPassThroughRanges,
+  isSpeedDataRetimed,
+  planSmartRender,
+  type SmartRenderPlan,
+  type SmartRenderSource,
+  type TimeRange,
+} from "./smart-render";
+import {
+  ContentLightMeter,
+  HdrFrameConverter,
+  createHdrConversion,
+  createHdrVideoFrame,
+  getChromaFormat,
+  getHdrCodecCandidates,
+  getHdrCodecString,
+  getHdrRenderSource,
+  getHdrVideoColorSpace,
+  resolveHdrSettings,
+  type HdrChromaFormat,
+  type HdrCodec,
+} from "./hdr-export";
+import { writeHdrMetadata } from "./hdr-metadata";
 import { VideoEngine, getVideoEngine } from "../video/video-engine";
 import { AudioEngine, getAudioEngine } from "../audio/audio-engine";
+import { normalizeLoudness } from "../audio/loudness";
 import { titleEngine } from "../text/title-engine";
 import { graphicsEngine } from "../graphics/graphics-engine";
 import { UpscalingEngine, getUpscalingEngine } from "../video/upscaling";
 import { getMediaEngine } from "../media/mediabunny-engine";
 import { getFFmpegFallback } from "../media/ffmpeg-fallback";
 import { getWavEncoder } from "../wasm/wav";
+import { getSpeedEngine } from "../video/speed-engine";
+import { getParticleEngine } from "../effects/particle-engine";
+
+interface SmartRenderSession {
+  readonly plan: SmartRenderPlan;
+  readonly outputFormat: OutputFormat;
+  readonly codec: VideoCodec;
+  readonly decoderConfig: VideoDecoderConfig;
+  readonly encoderConfig: VideoEncoderConfig;
+  readonly inputs: Map<
+    string,
+    { input: Input; sink: EncodedPacketSink; duration: number }
+  >;
+}
 
 export class ExportEngine {
   private mediabunny: typeof import("mediabunny") | null = null;
@@ -292,6 +347,22 @@ export class ExportEngine {
       };
     }
 
+    const hdr = resolveHdrSettings(fullSettings, project);
+    if (hdr) {
+      return yield* this.runHdrExport(project, fullSettings, hdr);
+    }
+
+    if (fullSettings.smartRender !== false) {
+      const session = await this.prepareSmartRender(
+        project,
+        fullSettings,
+        timelineDuration,
+      );
+      if (session) {
+        return yield* this.runSmartRender(project, fullSettings, session);
+      }
+    }
+
     const totalFrames = Math.ceil(timelineDuration * fullSettings.frameRate);
     let bytesWritten = 0;
 
@@ -390,6 +461,7 @@ export class ExportEngine {
           time,
           fullSettings.width,
           fullSettings.height,
+          "full",
         );
         const shouldUpscale = this.shouldApplyUpscaling(project, fullSettings);
         let frameImage = rendered.image;
@@ -517,6 +589,722 @@ export class ExportEngine {
     }
   }
 
+  /**
+   * Checks whether part of the timeline can be exported by copying source
+   * packets and, if so, opens the sources and plans the export. Returns
+   * null when smart rendering would not help or cannot produce a valid
+   * stream, in which case the caller renders everything.
+   */
+  private async prepareSmartRender(
+    project: Project,
+    settings: VideoExportSettings,
+    duration: number,
+  ): Promise<SmartRenderSession | null> {
+    if (
+      !this.mediabunny ||
+      typeof VideoEncoder === "undefined" ||
+      settings.codec === "prores" ||
+      settings.width !== project.settings.width ||
+      settings.height !== project.settings.height ||
+      this.shouldApplyUpscaling(project, settings)
+    ) {
+      return null;
+    }
+
+    const outputFormat = this.createVideoOutputFormat(settings.format);
+    const codec = CODEC_MAP[settings.codec] as VideoCodec;
+    if (!outputFormat.getSupportedVideoCodecs().includes(codec)) {
+      return null;
+    }
+
+    const visibleTrackIds = new Set(
+      project.timeline.tracks.filter((t) => !t.hidden).map((t) => t.id),
+    );
+    const overlays: TimeRange[] = [
+      ...titleEngine.getAllTextClips(),
+      ...graphicsEngine.getAllShapeClips(),
+      ...graphicsEngine.getAllSVGClips(),
+      ...graphicsEngine.getAllStickerClips(),
+    ]
+      .filter((clip) => visibleTrackIds.has(clip.trackId))
+      .map((clip) => ({
+        start: clip.startTime,
+        end: clip.startTime + clip.duration,
+      }));
+    // Particles keep moving after their effect ends
+    for (const effect of getParticleEngine().getAllEffects()) {
+      if (effect.enabled) {
+        overlays.push({ start: effect.startTime, end: Infinity });
+      }
+    }
+
+    const speedEngine = getSpeedEngine();
+    const retimedClipIds = new Set(
+      speedEngine
+        .getClipIds()
+        .filter((clipId) =>
+          isSpeedDataRetimed(speedEngine.getClipSpeedData(clipId)),
+        ),
+    );
+
+    const ranges = findPassThroughRanges(project, {
+      overlays,
+      retimedClipIds,
+    });
+    if (ranges.length === 0) {
+      return null;
+    }
+
+    const { Input, ALL_FORMATS, BlobSource, EncodedPacketSink } =
+      this.mediabunny;
+    const inputs: SmartRenderSession["inputs"] = new Map();
+    const sources = new Map<string, SmartRenderSource>();
+    let decoderConfig: VideoDecoderConfig | null = null;
+    const dispose = () => {
+      for (const { input } of inputs.values()) input.dispose();
+    };
+
+    for (const mediaId of new Set(ranges.map((range) => range.clip.mediaId))) {
+      const mediaItem = project.mediaLibrary.items.find(
+        (m) => m.id === mediaId,
+      );
+      if (!mediaItem?.blob) continue;
+
+      const input = new Input({
+        source: new BlobSource(mediaItem.blob),
+        formats: ALL_FORMATS,
+      });
+      try {
+        const track = await input.getPrimaryVideoTrack();
+        const config = await track?.getDecoderConfig();
+        if (
+          !track ||
+          !config ||
+          track.codec !== codec ||
+          track.rotation !== 0 ||
+          track.displayWidth !== settings.width ||
+          track.displayHeight !== settings.height ||
+          (decoderConfig && !areDecoderConfigsCompatible(config, decoderConfig))
+        ) {
+          input.dispose();
+          continue;
+        }
+
+        const clipRanges = ranges.filter((r) => r.clip.mediaId === mediaId);
+        const from = Math.min(...clipRanges.map((r) => r.clip.inPoint));
+        const to = Math.max(...clipRanges.map((r) => r.clip.outPoint));
+        const sink = new EncodedPacketSink(track);
+        const options = { verifyKeyPackets: true };
+        const keyframes: number[] = [];
+        let packet: EncodedPacket | null =
+          (await sink.getKeyPacket(from, options)) ??
+          (await sink.getFirstPacket(options));
+        while (packet && packet.timestamp <= to) {
+          if (packet.type === "key") keyframes.push(packet.timestamp);
+          packet = await sink.getNextKeyPacket(packet, options);
+        }
+
+        const stats = await track.computePacketStats(100);
+        const sourceDuration = await track.computeDuration();
+        decoderConfig ??= config;
+        sources.set(mediaId, {
+          keyframes,
+          duration: sourceDuration,
+          frameRate: stats.averagePacketRate,
+        });
+        inputs.set(mediaId, { input, sink, duration: sourceDuration });
+      } catch (error) {
+        console.warn("[ExportEngine] Smart render source skipped:", error);
+        input.dispose();
+      }
+    }
+
+    const plan = planSmartRender(ranges, sources, duration, settings.frameRate);
+    if (!decoderConfig || plan.copiedFrames === 0) {
+      dispose();
+      return null;
+    }
+
+    const encoderConfig: VideoEncoderConfig = {
+      codec: decoderConfig.codec,
+      width: settings.width,
+      height: settings.height,
+      bitrate: settings.bitrate * 1000,
+      bitrateMode: settings.bitrateMode === "cbr" ? "constant" : "variable",
+      framerate: settings.frameRate,
+      ...(codec === "avc" ? { avc: { format: "avc" as const } } : {}),
+    };
+    if (
+      plan.segments.some((segment) => segment.type === "render") &&
+      !(await this.encoderMatchesSource(encoderConfig, decoderConfig))
+    ) {
+      dispose();
+      return null;
+    }
+
+    return {
+      plan,
+      outputFormat,
+      codec,
+      decoderConfig,
+      encoderConfig,
+      inputs,
+    };
+  }
+
+  /**
+   * Encodes a single frame to see whether the browser encoder produces
+   * packets that can share a track with the copied source packets.
+   */
+  private async encoderMatchesSource(
+    config: VideoEncoderConfig,
+    decoderConfig: VideoDecoderConfig,
+  ): Promise<boolean> {
+    try {
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (!support.supported) return false;
+    } catch {
+      return false;
+    }
+
+    let produced: VideoDecoderConfig | undefined;
+    const encoder = new VideoEncoder({
+      output: (_chunk, metadata) => {
+        produced ??= metadata?.decoderConfig;
+      },
+      error: () => {},
+    });
+    try {
+      encoder.configure(config);
+      const canvas = new OffscreenCanvas(config.width, config.height);
+      canvas.getContext("2d")?.fillRect(0, 0, config.width, config.height);
+      const frame = new VideoFrame(canvas, { timestamp: 0 });
+      encoder.encode(frame, { keyFrame: true });
+      frame.close();
+      await encoder.flush();
+    } catch {
+      return false;
+    } finally {
+      if (encoder.state !== "closed") encoder.close();
+    }
+    return !!produced && areDecoderConfigsCompatible(produced, decoderConfig);
+  }
+
+  private async *runSmartRender(
+    project: Project,
+    settings: VideoExportSettings,
+    session: SmartRenderSession,
+  ): AsyncGenerator<ExportProgress, ExportResult> {
+    const { plan } = session;
+    const { totalFrames } = plan;
+    const {
+      Output,
+      BufferTarget,
+      EncodedVideoPacketSource,
+      EncodedPacket,
+      AudioSampleSource,
+      AudioSample,
+      getFirstEncodableAudioCodec,
+    } = this.mediabunny!;
+
+    this.abortController ??= new AbortController();
+    this.currentExport ??= { startTime: Date.now(), framesRendered: 0 };
+    let encoder: VideoEncoder | null = null;
+
+    try {
+      yield this.createProgress("preparing", 0, totalFrames, 0, 0);
+
+      const target = new BufferTarget();
+      const output = new Output({ format: session.outputFormat, target });
+      const videoSource = new EncodedVideoPacketSource(session.codec);
+      const audioCodecResult = await this.findSupportedAudioCodec(
+        session.outputFormat,
+        settings.audioSettings,
+        getFirstEncodableAudioCodec,
+      );
+      const audioSource = new AudioSampleSource({
+        codec: audioCodecResult.codec as "aac" | "opus" | "mp3",
+        bitrate: audioCodecResult.bitrate,
+      });
+      output.addVideoTrack(videoSource, { frameRate: settings.frameRate });
+      output.addAudioTrack(audioSource);
+      output.setMetadataTags({
+        title: project.name,
+        date: new Date(),
+      });
+      await output.start();
+
+      // The track is declared with the source's config; every packet added
+      // afterwards was checked to be compatible with it
+      let configSent = false;
+      const addPacket = async (packet: EncodedPacket) => {
+        await videoSource.add(
+          packet,
+          configSent ? undefined : { decoderConfig: session.decoderConfig },
+        );
+        configSent = true;
+      };
+
+      const encoded: EncodedPacket[] = [];
+      let encoderError: unknown = null;
+      const drainEncoder = async () => {
+        if (encoderError) throw encoderError;
+        while (encoded.length > 0) await addPacket(encoded.shift()!);
+      };
+
+      for (const segment of plan.segments) {
+        if (this.abortController.signal.aborted) {
+          throw this.createError(
+            "CANCELLED",
+            "Export cancelled by user",
+            "rendering",
+          );
+        }
+
+        if (segment.type === "copy") {
+          const { sink, duration } = session.inputs.get(
+            segment.clip.mediaId,
+          )!;
+          const offset = segment.clip.startTime - segment.clip.inPoint;
+          const options = { verifyKeyPackets: true };
+          const startPacket = await sink.getKeyPacket(
+            segment.sourceStart,
+            options,
+          );
+          const endPacket =
+            segment.sourceEnd < duration
+              ? await sink.getKeyPacket(segment.sourceEnd, options)
+              : null;
+          if (!startPacket) {
+            throw new Error("Source key frame not found for smart render");
+          }
+
+          for await (const packet of sink.packets(
+            startPacket,
+            endPacket ?? undefined,
+          )) {
+            await addPacket(
+              packet.clone({ timestamp: packet.timestamp + offset }),
+            );
+          }
+        } else {
+          if (!encoder) {
+            encoder = new VideoEncoder({
+              output: (chunk) => {
+                encoded.push(EncodedPacket.fromEncodedChunk(chunk));
+              },
+              error: (error) => {
+                encoderError = error;
+              },
+            });
+            encoder.configure(session.encoderConfig);
+          }
+
+          for (
+            let frame = segment.startFrame;
+            frame < segment.endFrame;
+            frame++
+          ) {
+            if (this.abortController.signal.aborted) {
+              throw this.createError(
+                "CANCELLED",
+                "Export cancelled by user",
+                "rendering",
+              );
+            }
+
+            const time = frame / settings.frameRate;
+            const rendered = await this.videoEngine!.renderFrame(
+              project,
+              time,
+              settings.width,
+              settings.height,
+              "full",
+            );
+            const videoFrame = new VideoFrame(rendered.image, {
+              timestamp: Math.round(time * 1e6),
+              duration: Math.round(1e6 / settings.frameRate),
+            });
+            // Each re-encoded stretch opens with a key frame so it can
+            // follow a copied GOP
+            const sinceStart = frame - segment.startFrame;
+            encoder.encode(videoFrame, {
+              keyFrame: sinceStart % settings.keyframeInterval === 0,
+            });
+            videoFrame.close();
+            rendered.image.close();
+            await drainEncoder();
+
+            this.currentExport!.framesRendered = frame + 1;
+            yield this.createProgress(
+              "rendering",
+              ((frame + 1) / totalFrames) * 0.95,
+              totalFrames,
+              frame + 1,
+              0,
+            );
+          }
+          await encoder.flush();
+          await drainEncoder();
+        }
+
+        this.currentExport!.framesRendered = segment.endFrame;
+        yield this.createProgress(
+          "rendering",
+          (segment.endFrame / totalFrames) * 0.95,
+          totalFrames,
+          segment.endFrame,
+          0,
+        );
+      }
+
+      yield this.createProgress("encoding", 0.95, totalFrames, totalFrames, 0);
+
+      const audioBuffer = await this.renderTimelineAudio(project, settings);
+      if (audioBuffer) {
+        const audioSamples = AudioSample.fromAudioBuffer(audioBuffer, 0);
+        for (const sample of audioSamples) {
+          await audioSource.add(sample);
+          sample.close();
+        }
+      }
+      videoSource.close();
+      audioSource.close();
+
+      yield this.createProgress("muxing", 0.98, totalFrames, totalFrames, 0);
+
+      await output.finalize();
+      const buffer = target.buffer;
+      if (!buffer) {
+        throw this.createError(
+          "MUXER_ERROR",
+          "Output buffer is empty",
+          "muxing",
+        );
+      }
+
+      const blob = new Blob([buffer], {
+        type: this.getMimeType(settings.format),
+      });
+
+      yield this.createProgress(
+        "complete",
+        1,
+        totalFrames,
+        totalFrames,
+        blob.size,
+      );
+
+      return {
+        success: true,
+        blob,
+        stats: this.calculateStats(totalFrames, blob.size),
+      };
+    } catch (error) {
+      if (error && typeof error === "object" && "code" in error) {
+        return { success: false, error: error as ExportError };
+      }
+      return {
+        success: false,
+        error: this.createError(
+          "FRAME_ENCODE_FAILED",
+          error instanceof Error ? error.message : "Unknown error",
+          "rendering",
+        ),
+      };
+    } finally {
+      const activeEncoder = encoder as VideoEncoder | null;
+      if (activeEncoder && activeEncoder.state !== "closed") {
+        activeEncoder.close();
+      }
+      for (const { input } of session.inputs.values()) input.dispose();
+      this.abortController = null;
+      this.currentExport = null;
+      this.videoEngine?.clearVideoElementCache();
+    }
+  }
+
+  private async findHdrEncoderConfig(
+    settings: VideoExportSettings,
+    hdr: HdrExportSettings,
+    chroma: HdrChromaFormat,
+  ): Promise<{ codec: HdrCodec; config: VideoEncoderConfig } | null> {
+    if (typeof VideoEncoder === "undefined") return null;
+
+    for (const codec of getHdrCodecCandidates(
+      settings.codec,
+      settings.format,
+    )) {
+      const codecString = getHdrCodecString(codec, {
+        chroma,
+        transfer: hdr.transfer,
+        width: settings.width,
+        height: settings.height,
+        frameRate: settings.frameRate,
+      });
+      if (!codecString) continue;
+
+      const config: VideoEncoderConfig = {
+        codec: codecString,
+        width: settings.width,
+        height: settings.height,
+        bitrate: settings.bitrate * 1000,
+        bitrateMode: settings.bitrateMode === "cbr" ? "constant" : "variable",
+        framerate: settings.frameRate,
+      };
+      try {
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (support.supported) return { codec, config };
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  private async *runHdrExport(
+    project: Project,
+    settings: VideoExportSettings,
+    hdr: HdrExportSettings,
+  ): AsyncGenerator<ExportProgress, ExportResult> {
+    const totalFrames = Math.ceil(
+      this.calculateTimelineDuration(project.timeline) * settings.frameRate,
+    );
+    const {
+      Output,
+      BufferTarget,
+      EncodedVideoPacketSource,
+      EncodedPacket,
+      AudioSampleSource,
+      AudioSample,
+      getFirstEncodableAudioCodec,
+    } = this.mediabunny!;
+
+    this.abortController ??= new AbortController();
+    this.currentExport ??= { startTime: Date.now(), framesRendered: 0 };
+    let encoder: VideoEncoder | null = null;
+    let converter: HdrFrameConverter | null = null;
+
+    try {
+      yield this.createProgress("preparing", 0, totalFrames, 0, 0);
+
+      const chroma = getChromaFormat(settings.pixelFormat);
+      const encoderChoice = await this.findHdrEncoderConfig(
+        settings,
+        hdr,
+        chroma,
+      );
+      if (!encoderChoice) {
+        throw this.createError(
+          "UNSUPPORTED_CODEC",
+          "This browser cannot encode 10-bit HEVC, VP9 or AV1 for HDR export",
+          "preparing",
+        );
+      }
+
+      const outputFormat = this.createVideoOutputFormat(settings.format);
+      const target = new BufferTarget();
+      const output = new Output({ format: outputFormat, target });
+      const videoSource = new EncodedVideoPacketSource(encoderChoice.codec);
+      const audioCodecResult = await this.findSupportedAudioCodec(
+        outputFormat,
+        settings.audioSettings,
+        getFirstEncodableAudioCodec,
+      );
+      const audioSource = new AudioSampleSource({
+        codec: audioCodecResult.codec as "aac" | "opus" | "mp3",
+        bitrate: audioCodecResult.bitrate,
+      });
+      output.addVideoTrack(videoSource, { frameRate: settings.frameRate });
+      output.addAudioTrack(audioSource);
+      output.setMetadataTags({
+        title: project.name,
+        date: new Date(),
+      });
+      await output.start();
+
+      // Encoders leave the color space out of their decoder config, and
+      // the muxer only tags the track when it is there
+      const colorSpace = getHdrVideoColorSpace(hdr.transfer);
+      let configSent = false;
+      const encoded: {
+        packet: EncodedPacket;
+        metadata?: EncodedVideoChunkMetadata;
+      }[] = [];
+      let encoderError: unknown = null;
+      const drainEncoder = async () => {
+        if (encoderError) throw encoderError;
+        while (encoded.length > 0) {
+          const { packet, metadata } = encoded.shift()!;
+          const decoderConfig = metadata?.decoderConfig;
+          await videoSource.add(
+            packet,
+            configSent || !decoderConfig
+              ? undefined
+              : { decoderConfig: { ...decoderConfig, colorSpace } },
+          );
+          configSent ||= !!decoderConfig;
+        }
+      };
+
+      encoder = new VideoEncoder({
+        output: (chunk, metadata) => {
+          encoded.push({
+            packet: EncodedPacket.fromEncodedChunk(chunk),
+            metadata,
+          });
+        },
+        error: (error) => {
+          encoderError = error;
+        },
+      });
+      encoder.configure(encoderChoice.config);
+
+      const { project: renderProject, source } = getHdrRenderSource(project);
+      converter = new HdrFrameConverter(
+        settings.width,
+        settings.height,
+        createHdrConversion(source, hdr.transfer),
+      );
+      const lightMeter = new ContentLightMeter();
+
+      for (let frame = 0; frame < totalFrames; frame++) {
+        if (this.abortController.signal.aborted) {
+          throw this.createError(
+            "CANCELLED",
+            "Export cancelled by user",
+            "rendering",
+          );
+        }
+
+        const time = frame / settings.frameRate;
+        const rendered = await this.videoEngine!.renderFrame(
+          renderProject,
+          time,
+          settings.width,
+          settings.height,
+          "full",
+          "float16",
+        );
+        const signal = converter.convert(
+          rendered.floatPixels ?? rendered.image,
+        );
+        rendered.image.close();
+        lightMeter.add(signal);
+
+        const videoFrame = createHdrVideoFrame(signal, {
+          width: settings.width,
+          height: settings.height,
+          chroma,
+          transfer: hdr.transfer,
+          timestamp: time,
+          duration: 1 / settings.frameRate,
+        });
+        encoder.encode(videoFrame, {
+          keyFrame: frame % settings.keyframeInterval === 0,
+        });
+        videoFrame.close();
+        await drainEncoder();
+
+        this.currentExport!.framesRendered = frame + 1;
+        yield this.createProgress(
+          "rendering",
+          ((frame + 1) / totalFrames) * 0.95,
+          totalFrames,
+          frame + 1,
+          0,
+        );
+      }
+      await encoder.flush();
+      await drainEncoder();
+
+      yield this.createProgress("encoding", 0.95, totalFrames, totalFrames, 0);
+
+      const audioBuffer = await this.renderTimelineAudio(project, settings);
+      if (audioBuffer) {
+        const audioSamples = AudioSample.fromAudioBuffer(audioBuffer, 0);
+        for (const sample of audioSamples) {
+          await audioSource.add(sample);
+          sample.close();
+        }
+      }
+      videoSource.close();
+      audioSource.close();
+
+      yield this.createProgress("muxing", 0.98, totalFrames, totalFrames, 0);
+
+      await output.finalize();
+      const buffer = target.buffer;
+      if (!buffer) {
+        throw this.createError(
+          "MUXER_ERROR",
+          "Output buffer is empty",
+          "muxing",
+        );
+      }
+
+      const tagged = writeHdrMetadata(new Uint8Array(buffer), settings.format, {
+        transfer: hdr.transfer,
+        masteringDisplay: hdr.masteringDisplay ?? DEFAULT_MASTERING_DISPLAY,
+        contentLightLevel: hdr.contentLightLevel ?? lightMeter.getLevels(),
+      });
+      const blob = new Blob([tagged as Uint8Array<ArrayBuffer>], {
+        type: this.getMimeType(settings.format),
+      });
+
+      yield this.createProgress(
+        "complete",
+        1,
+        totalFrames,
+        totalFrames,
+        blob.size,
+      );
+
+      return {
+        success: true,
+        blob,
+        stats: this.calculateStats(totalFrames, blob.size),
+      };
+    } catch (error) {
+      if (error && typeof error === "object" && "code" in error) {
+        return { success: false, error: error as ExportError };
+      }
+      return {
+        success: false,
+        error: this.createError(
+          "FRAME_ENCODE_FAILED",
+          error instanceof Error ? error.message : "Unknown error",
+          "rendering",
+        ),
+      };
+    } finally {
+      const activeEncoder = encoder as VideoEncoder | null;
+      if (activeEncoder && activeEncoder.state !== "closed") {
+        activeEncoder.close();
+      }
+      (converter as HdrFrameConverter | null)?.dispose();
+      this.abortController = null;
+      this.currentExport = null;
+      this.videoEngine?.clearVideoElementCache();
+    }
+  }
+
+  private createVideoOutputFormat(
+    format: VideoExportSettings["format"],
+  ): OutputFormat {
+    const { Mp4OutputFormat, WebMOutputFormat, MovOutputFormat } =
+      this.mediabunny!;
+    switch (format) {
+      case "webm":
+        return new WebMOutputFormat();
+      case "mov":
+        return new MovOutputFormat();
+      case "mp4":
+      default:
+        return new Mp4OutputFormat({ fastStart: "in-memory" });
+    }
+  }
+
   async *exportVideoWithWorker(
     project: Project,
     settings: Partial<VideoExportSettings> = {},
@@ -762,6 +1550,7 @@ export class ExportEngine {
           time,
           settings.width,
           settings.height,
+          "full",
         );
 
         const shouldUpscale = self.shouldApplyUpscaling(project, settings);
@@ -829,7 +1618,10 @@ export class ExportEngine {
 
       yield self.createProgress("encoding", 0.95, totalFrames, totalFrames, 0);
 
-      const audioBuffer = await self.renderTimelineAudioPublic(project);
+      const audioBuffer = await self.renderTimelineAudioPublic(
+        project,
+        settings,
+      );
       if (audioBuffer) {
         const channels: Float32Array[] = [];
         for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
@@ -858,8 +1650,9 @@ export class ExportEngine {
 
   private async renderTimelineAudioPublic(
     project: Project,
+    settings?: VideoExportSettings,
   ): Promise<AudioBuffer | null> {
-    return this.renderTimelineAudio(project);
+    return this.renderTimelineAudio(project, settings);
   }
 
   private isSimpleProject(project: Project): { simple: boolean; singleClip?: { mediaId: string; startTime: number; endTime: number; speed: number } } {
@@ -976,8 +1769,35 @@ export class ExportEngine {
     }
 
     const totalFrames = Math.ceil(timelineDuration * fullSettings.frameRate);
+    // HDR frames always go through the renderer and the 10-bit encode
+    const hdr = resolveHdrSettings(fullSettings, project);
+    const hdrSource = hdr ? getHdrRenderSource(project) : null;
     const simpleCheck = this.isSimpleProject(project);
 
+    if (fullSettings.smartRender !== false && !simpleCheck.simple && !hdr) {
+      const session = await this.prepareSmartRender(
+        project,
+        fullSettings,
+        timelineDuration,
+      );
+      if (session) {
+        await this.initializeGPUForExport(
+          fullSettings.width,
+          fullSettings.height,
+        );
+        const result = yield* this.runSmartRender(
+          project,
+          fullSettings,
+          session,
+        );
+        if (result.success && result.blob && writableStream) {
+          await writableStream.write(result.blob);
+          await writableStream.close();
+        }
+        return result;
+      }
+    }
+
     this.videoEngine?.resetExportState();
 
     yield this.createProgress("preparing", 0, totalFrames, 0, 0);
@@ -995,7 +1815,13 @@ export class ExportEngine {
       const ffmpeg = getFFmpegFallback();
       await ffmpeg.load();
 
-      if (simpleCheck.simple && simpleCheck.singleClip) {
+      // Stream copy would skip loudness normalization of the mix
+      if (
+        simpleCheck.simple &&
+        simpleCheck.singleClip &&
+        !hdr &&
+        !fullSettings.audioSettings.loudness
+      ) {
         const mediaItem = project.mediaLibrary.items.find(m => m.id === simpleCheck.singleClip!.mediaId);
         if (mediaItem?.blob) {
           const inputWidth = mediaItem.metadata.width;
@@ -1119,10 +1945,11 @@ export class ExportEngine {
 
           const time = frame / fullSettings.frameRate;
           const rendered = await self.videoEngine!.renderFrame(
-            project,
+            hdrSource?.project ?? project,
             time,
             fullSettings.width,
             fullSettings.height,
+            "full",
           );
 
           const shouldUpscale = self.shouldApplyUpscaling(project, fullSettings);
@@ -1169,6 +1996,16 @@ export class ExportEngine {
           audioBitrate: `${fullSettings.audioSettings.bitrate}k`,
           audioBuffer: audioBuffer || undefined,
           writableStream,
+          hdr:
+            hdr && hdrSource
+              ? {
+                  transfer: hdr.transfer,
+                  source: hdrSource.source,
+                  masteringDisplay:
+                    hdr.masteringDisplay ?? DEFAULT_MASTERING_DISPLAY,
+                  contentLightLevel: hdr.contentLightLevel,
+                }
+              : undefined,
         },
         onProgress,
       );
@@ -1345,6 +2182,7 @@ export class ExportEngine {
         time,
         fullSettings.width,
         fullSettings.height,
+        "full",
       );
 
       // Scale if needed (fallback in case render didn't match)
@@ -1499,6 +2337,186 @@ export class ExportEngine {
     }
   }
 
+  /**
+   * Exports a section of the timeline as an animated GIF or APNG. Frames
+   * are rendered at the export size, quantized to a shared or per-frame
+   * palette, and thinned out when a target file size is set.
+   */
+  async *exportAnimatedImage(
+    project: Project,
+    settings: Partial<AnimatedImageExportSettings> = {},
+  ): AsyncGenerator<ExportProgress, ExportResult> {
+    this.ensureInitialized();
+
+    const width = Math.min(
+      project.settings.width,
+      DEFAULT_ANIMATED_IMAGE_SETTINGS.width,
+    );
+    const fullSettings: AnimatedImageExportSettings = {
+      ...DEFAULT_ANIMATED_IMAGE_SETTINGS,
+      width,
+      height: Math.round(
+        (width * project.settings.height) / project.settings.width,
+      ),
+      ...settings,
+    };
+    const startTime = Math.max(0, fullSettings.startTime);
+    const endTime = Math.min(
+      fullSettings.endTime ?? project.timeline.duration,
+      project.timeline.duration,
+    );
+    const duration = endTime - startTime;
+    const totalFrames = Math.max(
+      1,
+      Math.ceil(duration * fullSettings.frameRate),
+    );
+
+    this.abortController = new AbortController();
+    this.currentExport = { startTime: Date.now(), framesRendered: 0 };
+
+    try {
+      if (
+        fullSettings.width < 1 ||
+        fullSettings.height < 1 ||
+        fullSettings.width > 0xffff ||
+        fullSettings.height > 0xffff
+      ) {
+        throw this.createError(
+          "INVALID_SETTINGS",
+          "Animated image size must be between 1 and 65535 pixels",
+          "preparing",
+        );
+      }
+      if (fullSettings.maxColors < 2 || fullSettings.maxColors > 256) {
+        throw this.createError(
+          "INVALID_SETTINGS",
+          "Palette size must be between 2 and 256 colours",
+          "preparing",
+        );
+      }
+      // GIF delays are whole hundredths of a second
+      const maxFrameRate = fullSettings.format === "gif" ? 50 : 120;
+      if (
+        fullSettings.frameRate <= 0 ||
+        fullSettings.frameRate > maxFrameRate
+      ) {
+        throw this.createError(
+          "INVALID_SETTINGS",
+          `Frame rate must be above 0 and at most ${maxFrameRate}`,
+          "preparing",
+        );
+      }
+      if (!(duration > 0)) {
+        throw this.createError(
+          "INVALID_SETTINGS",
+          "Export range is empty",
+          "preparing",
+        );
+      }
+
+      yield this.createProgress("preparing", 0, totalFrames, 0, 0);
+
+      const canvas = new OffscreenCanvas(
+        fullSettings.width,
+        fullSettings.height,
+      );
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error("Failed to create canvas context");
+      }
+
+      const frames: AnimatedImageFrame[] = [];
+      for (let i = 0; i < totalFrames; i++) {
+        if (this.abortController.signal.aborted) {
+          throw this.createError(
+            "CANCELLED",
+            "Export cancelled by user",
+            "rendering",
+          );
+        }
+
+        const time = i / fullSettings.frameRate;
+        const renderedFrame = await this.videoEngine!.renderFrame(
+          project,
+          startTime + time,
+          fullSettings.width,
+          fullSettings.height,
+          "full",
+        );
+        ctx.clearRect(0, 0, fullSettings.width, fullSettings.height);
+        ctx.drawImage(
+          renderedFrame.image,
+          0,
+          0,
+          fullSettings.width,
+          fullSettings.height,
+        );
+        renderedFrame.image.close();
+        frames.push({
+          data: ctx.getImageData(0, 0, fullSettings.width, fullSettings.height)
+            .data,
+          time,
+        });
+
+        this.currentExport!.framesRendered = i + 1;
+        yield this.createProgress(
+          "rendering",
+          ((i + 1) / totalFrames) * 0.8,
+          totalFrames,
+          i + 1,
+          0,
+        );
+      }
+
+      yield this.createProgress("encoding", 0.8, totalFrames, totalFrames, 0);
+      if (this.abortController.signal.aborted) {
+        throw this.createError(
+          "CANCELLED",
+          "Export cancelled by user",
+          "encoding",
+        );
+      }
+
+      const encoded = await encodeAnimatedImage(
+        frames,
+        duration,
+        fullSettings,
+      );
+      const blob = new Blob([encoded.data as Uint8Array<ArrayBuffer>], {
+        type: fullSettings.format === "gif" ? "image/gif" : "image/apng",
+      });
+
+      yield this.createProgress(
+        "complete",
+        1,
+        totalFrames,
+        totalFrames,
+        blob.size,
+      );
+
+      return {
+        success: true,
+        blob,
+        stats: this.calculateStats(encoded.frameCount, blob.size),
+      };
+    } catch (error) {
+      if (error && typeof error === "object" && "code" in error) {
+        return { success: false, error: error as ExportError };
+      }
+      return {
+        success: false,
+        error: this.createError(
+          "FRAME_ENCODE_FAILED",
+          error instanceof Error ? error.message : "Unknown error",
+          "encoding",
+        ),
+      };
+    } finally {
+      this.abortController = null;
+      this.currentExport = null;
+    }
+  }
+
   cancel(): void {
     if (this.abortController) {
       this.abortController.abort();
@@ -1738,7 +2756,7 @@ export class ExportEngine {
 
   private async renderTimelineAudio(
     project: Project,
-    _settings?: VideoExportSettings,
+    settings?: VideoExportSettings,
   ): Promise<AudioBuffer | null> {
     const { timeline } = project;
 
@@ -1764,6 +2782,24 @@ export class ExportEngine {
       timelineDuration,
     );
 
+    const loudness = settings?.audioSettings?.loudness;
+    if (loudness) {
+      // Measure the full mix, then gain and limit it to the target
+      const buffer = rendered.buffer;
+      const channels: Float32Array[] = [];
+      for (let i = 0; i < buffer.numberOfChannels; i++) {
+        channels.push(buffer.getChannelData(i));
+      }
+      const measured = this.audioEngine!.measureLoudness(buffer);
+      normalizeLoudness(
+        channels,
+        buffer.sampleRate,
+        measured,
+        loudness.targetLufs,
+        loudness.truePeakLimit,
+      );
+    }
+
     return rendered.buffer;
   }
 
@@ -0,0 +1,202 @@
+/**
+ * GIF89a writer for palette-indexed frames. Every frame is a full-size
+ * image drawn over the previous one, with its own colour table when it
+ * does not use the global one.
+ */
+
+export interface GifFrameData {
+  /** One palette index per pixel, row by row. */
+  readonly indices: Uint8Array;
+  /** Local colour table as RGB triples; omit to use the global palette. */
+  readonly palette?: Uint8Array;
+  /** Display time in hundredths of a second. */
+  readonly delay: number;
+}
+
+export interface GifEncodeOptions {
+  readonly width: number;
+  readonly height: number;
+  /** Times the animation plays; 0 loops forever. */
+  readonly loopCount: number;
+  readonly globalPalette?: Uint8Array;
+  readonly frames: readonly GifFrameData[];
+}
+
+const MAX_CODE_SIZE = 12;
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  uint16(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  ascii(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/** Bits per index for a palette: at least 1, at most 8. */
+function tableBits(palette: Uint8Array): number {
+  const colors = Math.max(2, palette.length / 3);
+  return Math.max(1, Math.ceil(Math.log2(colors)));
+}
+
+function writeColorTable(
+  writer: ByteWriter,
+  palette: Uint8Array,
+  bits: number,
+): void {
+  writer.bytes(palette);
+  for (let i = palette.length; i < 3 * (1 << bits); i++) writer.byte(0);
+}
+
+/**
+ * Variable-length LZW as GIF specifies it: codes are packed LSB first and
+ * the table is cleared when it reaches 4096 entries.
+ */
+export function lzwEncode(
+  indices: Uint8Array,
+  minCodeSize: number,
+): Uint8Array {
+  const output = new ByteWriter();
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.byte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+  } else {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const symbol = indices[i];
+      const key = (prefix << 8) | symbol;
+      const existing = table.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode < 1 << MAX_CODE_SIZE) {
+        table.set(key, nextCode++);
+        // The decoder lags one code behind, so widen once the code it
+        // will read next no longer fits
+        if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) {
+          codeSize++;
+        }
+      } else {
+        emit(clearCode);
+        table = new Map();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      }
+      prefix = symbol;
+    }
+    emit(prefix);
+    emit(endCode);
+  }
+
+  if (bitCount > 0) output.byte(bitBuffer & 0xff);
+  return output.toUint8Array();
+}
+
+export function encodeGif(options: GifEncodeOptions): Uint8Array {
+  const { width, height, loopCount, globalPalette, frames } = options;
+  const writer = new ByteWriter();
+
+  writer.ascii("GIF89a");
+  writer.uint16(width);
+  writer.uint16(height);
+  if (globalPalette) {
+    const bits = tableBits(globalPalette);
+    writer.byte(0x80 | ((bits - 1) << 4) | (bits - 1));
+    writer.byte(0);
+    writer.byte(0);
+    writeColorTable(writer, globalPalette, bits);
+  } else {
+    writer.bytes([0, 0, 0]);
+  }
+
+  // Without the NETSCAPE2.0 extension a GIF plays once
+  if (loopCount !== 1) {
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.ascii("NETSCAPE2.0");
+    writer.bytes([0x03, 0x01]);
+    writer.uint16(loopCount === 0 ? 0 : loopCount - 1);
+    writer.byte(0);
+  }
+
+  for (const frame of frames) {
+    const palette = frame.palette ?? globalPalette;
+    if (!palette) {
+      throw new Error("GIF frame has no colour table");
+    }
+    const bits = tableBits(palette);
+
+    // Graphic control extension: keep the frame in place for the next one
+    writer.bytes([0x21, 0xf9, 0x04, 0x04]);
+    writer.uint16(Math.max(0, Math.round(frame.delay)));
+    writer.bytes([0, 0]);
+
+    writer.byte(0x2c);
+    writer.uint16(0);
+    writer.uint16(0);
+    writer.uint16(width);
+    writer.uint16(height);
+    if (frame.palette) {
+      writer.byte(0x80 | (bits - 1));
+      writeColorTable(writer, frame.palette, bits);
+    } else {
+      writer.byte(0);
+    }
+
+    const minCodeSize = Math.max(2, bits);
+    writer.byte(minCodeSize);
+    const data = lzwEncode(frame.indices, minCodeSize);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      writer.byte(block.length);
+      writer.bytes(block);
+    }
+    writer.byte(0);
+  }
+
+  writer.byte(0x3b);
+  return writer.toUint8Array();
+}
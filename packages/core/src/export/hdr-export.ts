@@ -0,0 +1,670 @@
+/**
+ * HDR frame preparation for export. Frames are composited into a float16
+ * canvas (8-bit where the browser has none); this turns them into 10-bit
+ * BT.2020 Y'CbCr with a PQ or HLG transfer. The transfer conversion runs
+ * in a half-float render target so the only quantization after
+ * compositing is the final 10-bit one.
+ */
+import type { Project } from "../types/project";
+import {
+  COLOR_SPACES,
+  applyColorTransform,
+  decodeTransfer,
+  encodeTransfer,
+  primariesConversionMatrix,
+  type ColorTransform,
+  type OutputColorSpace,
+} from "../video/color-management";
+import type {
+  ContentLightLevel,
+  HdrExportSettings,
+  HdrTransfer,
+  VideoExportSettings,
+} from "./types";
+
+/** BT.2408 reference white: where SDR white and graphics white sit. */
+export const HDR_REFERENCE_WHITE_NITS = 203;
+const PQ_PEAK_NITS = 10000;
+
+export type HdrCodec = "hevc" | "vp9" | "av1";
+export type HdrChromaFormat = "420" | "422" | "444";
+
+/** WebCodecs pixel formats for planar 10-bit frames. */
+export const HDR_PIXEL_FORMATS: Record<HdrChromaFormat, string> = {
+  "420": "I420P10",
+  "422": "I422P10",
+  "444": "I444P10",
+};
+
+/** H.273 code points, as used by codec strings and containers. */
+export const HDR_COLOR_PRIMARIES = 9; // BT.2020
+export const HDR_MATRIX_COEFFICIENTS = 9; // BT.2020 non-constant luminance
+export const HDR_TRANSFER_CHARACTERISTICS: Record<HdrTransfer, number> = {
+  pq: 16, // SMPTE ST 2084
+  hlg: 18, // ARIB STD-B67
+};
+
+/**
+ * The HDR mode an export runs in, from its settings or, failing that,
+ * from a project whose color management outputs an HDR space.
+ */
+export function resolveHdrSettings(
+  settings: Pick<VideoExportSettings, "hdr">,
+  project: Project,
+): HdrExportSettings | null {
+  if (settings.hdr) return settings.hdr;
+  const colorManagement = project.settings.colorManagement;
+  if (!colorManagement?.enabled) return null;
+  if (colorManagement.outputSpace === "rec2020-pq") return { transfer: "pq" };
+  if (colorManagement.outputSpace === "rec2020-hlg") return { transfer: "hlg" };
+  return null;
+}
+
+/**
+ * The project to render HDR frames from and the space those frames are in.
+ * Color-managed projects composite in BT.2020 HLG, which keeps highlights
+ * and still shows SDR graphics at a sensible level; others composite in
+ * Rec.709 and are placed at reference white.
+ */
+export function getHdrRenderSource(project: Project): {
+  project: Project;
+  source: OutputColorSpace;
+} {
+  const colorManagement = project.settings.colorManagement;
+  if (!colorManagement?.enabled) {
+    return { project, source: "rec709" };
+  }
+  return {
+    project: {
+      ...project,
+      settings: {
+        ...project.settings,
+        colorManagement: {
+          ...colorManagement,
+          outputSpace: "rec2020-hlg",
+          toneMapping: false,
+        },
+      },
+    },
+    source: "rec2020-hlg",
+  };
+}
+
+export function getChromaFormat(
+  pixelFormat: VideoExportSettings["pixelFormat"],
+): HdrChromaFormat {
+  if (pixelFormat === "yuv444" || pixelFormat === "rgb") return "444";
+  if (pixelFormat === "yuv422") return "422";
+  return "420";
+}
+
+/** Codecs to try for an HDR export, the requested one first. */
+export function getHdrCodecCandidates(
+  codec: VideoExportSettings["codec"],
+  format: VideoExportSettings["format"],
+): HdrCodec[] {
+  const supported: HdrCodec[] =
+    format === "webm" ? ["vp9", "av1"] : ["hevc", "av1", "vp9"];
+  const requested: HdrCodec | null =
+    codec === "h265"
+      ? "hevc"
+      : codec === "vp9" || codec === "av1"
+        ? codec
+        : null;
+  if (!requested || !supported.includes(requested)) return supported;
+  return [requested, ...supported.filter((c) => c !== requested)];
+}
+
+interface CodecLevel {
+  pictureSize: number;
+  sampleRate: number;
+  hevc: string;
+  vp9: string;
+  av1: string;
+}
+
+const CODEC_LEVELS: CodecLevel[] = [
+  {
+    pictureSize: 2228224,
+    sampleRate: 66846720,
+    hevc: "L120",
+    vp9: "40",
+    av1: "08",
+  },
+  {
+    pictureSize: 2228224,
+    sampleRate: 133693440,
+    hevc: "L123",
+    vp9: "41",
+    av1: "09",
+  },
+  {
+    pictureSize: 8912896,
+    sampleRate: 267386880,
+    hevc: "L150",
+    vp9: "50",
+    av1: "12",
+  },
+  {
+    pictureSize: 8912896,
+    sampleRate: 534773760,
+    hevc: "L153",
+    vp9: "51",
+    av1: "13",
+  },
+  {
+    pictureSize: 8912896,
+    sampleRate: 1069547520,
+    hevc: "L156",
+    vp9: "52",
+    av1: "14",
+  },
+  {
+    pictureSize: 35651584,
+    sampleRate: 1069547520,
+    hevc: "L180",
+    vp9: "60",
+    av1: "16",
+  },
+];
+
+/**
+ * Full WebCodecs codec string for a 10-bit BT.2020 stream, or null when
+ * the codec has no profile for the chroma format (HEVC Main 10 is 4:2:0).
+ */
+export function getHdrCodecString(
+  codec: HdrCodec,
+  options: {
+    chroma: HdrChromaFormat;
+    transfer: HdrTransfer;
+    width: number;
+    height: number;
+    frameRate: number;
+  },
+): string | null {
+  const { chroma, transfer, width, height, frameRate } = options;
+  const pictureSize = width * height;
+  const level =
+    CODEC_LEVELS.find(
+      (l) =>
+        l.pictureSize >= pictureSize && l.sampleRate >= pictureSize * frameRate,
+    ) ?? CODEC_LEVELS[CODEC_LEVELS.length - 1];
+  const tc = String(HDR_TRANSFER_CHARACTERISTICS[transfer]);
+
+  switch (codec) {
+    case "hevc":
+      return chroma === "420" ? `hvc1.2.4.${level.hevc}.B0` : null;
+    case "vp9": {
+      const profile = chroma === "420" ? "02" : "03";
+      const subsampling = { "420": "01", "422": "02", "444": "03" }[chroma];
+      return `vp09.${profile}.${level.vp9}.10.${subsampling}.09.${tc}.09.00`;
+    }
+    case "av1": {
+      const profile = { "420": "0", "444": "1", "422": "2" }[chroma];
+      const subsampling = { "420": "110", "422": "100", "444": "000" }[chroma];
+      return `av01.${profile}.${level.av1}M.10.0.${subsampling}.09.${tc}.09.0`;
+    }
+  }
+}
+
+export function getHdrVideoColorSpace(
+  transfer: HdrTransfer,
+): VideoColorSpaceInit {
+  // The DOM typings predate the BT.2020 and HDR transfer values
+  return {
+    primaries: "bt2020",
+    transfer,
+    matrix: "bt2020-ncl",
+    fullRange: false,
+  } as unknown as VideoColorSpaceInit;
+}
+
+/**
+ * Source frame signal to HDR signal. Linear light is relative to
+ * reference white, so SDR white lands at 203 nits.
+ */
+export function createHdrConversion(
+  source: OutputColorSpace,
+  transfer: HdrTransfer,
+): ColorTransform {
+  return {
+    decode: COLOR_SPACES[source].transfer,
+    matrix: primariesConversionMatrix(
+      COLOR_SPACES[source].primaries,
+      "rec2020",
+    ),
+    encode: transfer,
+    toneMap: false,
+  };
+}
+
+/**
+ * CPU version of the half-float pass: RGBA pixels, 8-bit or float, to
+ * HDR R'G'B' signal, with each pixel's brightest channel in nits / 10000
+ * kept in alpha for content light measurement.
+ */
+export function encodeHdrPixels(
+  data: Uint8ClampedArray | Float32Array,
+  conversion: ColorTransform,
+): Float32Array {
+  let decode = (value: number) => decodeTransfer(conversion.decode, value);
+  if (data instanceof Uint8ClampedArray) {
+    const decodeTable = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      decodeTable[i] = decodeTransfer(conversion.decode, i / 255);
+    }
+    decode = (value) => decodeTable[value];
+  }
+  const matrix: ColorTransform = {
+    ...conversion,
+    decode: "linear",
+    encode: "linear",
+  };
+  const signal = new Float32Array(data.length);
+  const rgb = new Float32Array(3);
+
+  for (let i = 0; i < data.length; i += 4) {
+    rgb[0] = decode(data[i]);
+    rgb[1] = decode(data[i + 1]);
+    rgb[2] = decode(data[i + 2]);
+    applyColorTransform(matrix, rgb);
+    const peak = Math.max(rgb[0], rgb[1], rgb[2], 0);
+    signal[i] = encodeTransfer(conversion.encode, rgb[0]);
+    signal[i + 1] = encodeTransfer(conversion.encode, rgb[1]);
+    signal[i + 2] = encodeTransfer(conversion.encode, rgb[2]);
+    signal[i + 3] = (peak * HDR_REFERENCE_WHITE_NITS) / PQ_PEAK_NITS;
+  }
+  return signal;
+}
+
+/** Chroma plane dimensions for a frame. */
+function chromaSize(
+  width: number,
+  height: number,
+  chroma: HdrChromaFormat,
+): { width: number; height: number } {
+  return {
+    width: chroma === "444" ? width : Math.ceil(width / 2),
+    height: chroma === "420" ? Math.ceil(height / 2) : height,
+  };
+}
+
+const clamp10 = (value: number) =>
+  Math.max(0, Math.min(1023, Math.round(value)));
+
+/**
+ * HDR R'G'B' signal to planar limited-range 10-bit BT.2020 Y'CbCr, laid
+ * out as WebCodecs expects: Y, then Cb, then Cr. Chroma is averaged over
+ * each subsampled block.
+ */
+export function packYuv10(
+  signal: Float32Array,
+  width: number,
+  height: number,
+  chroma: HdrChromaFormat,
+): Uint16Array {
+  const size = chromaSize(width, height, chroma);
+  const lumaLength = width * height;
+  const chromaLength = size.width * size.height;
+  const planes = new Uint16Array(lumaLength + chromaLength * 2);
+  const cb = new Float32Array(chromaLength);
+  const cr = new Float32Array(chromaLength);
+  const counts = new Uint8Array(chromaLength);
+  const stepX = width / size.width;
+  const stepY = height / size.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const r = signal[p];
+      const g = signal[p + 1];
+      const b = signal[p + 2];
+      const luma = 0.2627 * r + 0.678 * g + 0.0593 * b;
+      planes[y * width + x] = clamp10(64 + 876 * luma);
+      const c = Math.floor(y / stepY) * size.width + Math.floor(x / stepX);
+      cb[c] += (b - luma) / 1.8814;
+      cr[c] += (r - luma) / 1.4746;
+      counts[c]++;
+    }
+  }
+  for (let c = 0; c < chromaLength; c++) {
+    planes[lumaLength + c] = clamp10(512 + (896 * cb[c]) / counts[c]);
+    planes[lumaLength + chromaLength + c] = clamp10(
+      512 + (896 * cr[c]) / counts[c],
+    );
+  }
+  return planes;
+}
+
+export function createHdrVideoFrame(
+  signal: Float32Array,
+  options: {
+    width: number;
+    height: number;
+    chroma: HdrChromaFormat;
+    transfer: HdrTransfer;
+    timestamp: number;
+    duration: number;
+  },
+): VideoFrame {
+  const { width, height, chroma, transfer, timestamp, duration } = options;
+  return new VideoFrame(packYuv10(signal, width, height, chroma), {
+    format: HDR_PIXEL_FORMATS[chroma] as VideoPixelFormat,
+    codedWidth: width,
+    codedHeight: height,
+    timestamp: Math.round(timestamp * 1e6),
+    duration: Math.round(duration * 1e6),
+    colorSpace: getHdrVideoColorSpace(transfer),
+  });
+}
+
+/** HDR signal to big-endian 16-bit RGB, as a 16-bit PNG stores it. */
+export function signalToRgb16(signal: Float32Array): Uint8Array {
+  const pixels = signal.length / 4;
+  const bytes = new Uint8Array(pixels * 6);
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 3; c++) {
+      const value = Math.round(
+        Math.max(0, Math.min(1, signal[i * 4 + c])) * 65535,
+      );
+      bytes[i * 6 + c * 2] = value >> 8;
+      bytes[i * 6 + c * 2 + 1] = value & 0xff;
+    }
+  }
+  return bytes;
+}
+
+/** Accumulates MaxCLL and MaxFALL over the frames of an export. */
+export class ContentLightMeter {
+  private maxCLL = 0;
+  private maxFALL = 0;
+
+  add(signal: Float32Array): void {
+    let sum = 0;
+    let peak = 0;
+    for (let i = 3; i < signal.length; i += 4) {
+      sum += signal[i];
+      if (signal[i] > peak) peak = signal[i];
+    }
+    const pixels = signal.length / 4;
+    this.maxCLL = Math.max(this.maxCLL, peak * PQ_PEAK_NITS);
+    if (pixels > 0) {
+      this.maxFALL = Math.max(this.maxFALL, (sum / pixels) * PQ_PEAK_NITS);
+    }
+  }
+
+  getLevels(): ContentLightLevel {
+    return {
+      maxCLL: Math.round(this.maxCLL),
+      maxFALL: Math.round(this.maxFALL),
+    };
+  }
+}
+
+const TRANSFER_IDS = { bt1886: 0, srgb: 1, hlg: 2, pq: 3, linear: 4 } as const;
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_texCoord;
+
+void main() {
+  // Row zero of the read-back is the top of the image
+  v_texCoord = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const HDR_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+uniform sampler2D u_image;
+uniform int u_decode;
+uniform int u_encode;
+uniform mat3 u_matrix;
+out vec4 outColor;
+
+const float PQ_M1 = 2610.0 / 16384.0;
+const float PQ_M2 = 2523.0 / 4096.0 * 128.0;
+const float PQ_C1 = 3424.0 / 4096.0;
+const float PQ_C2 = 2413.0 / 4096.0 * 32.0;
+const float PQ_C3 = 2392.0 / 4096.0 * 32.0;
+const float PQ_SCALE = ${PQ_PEAK_NITS.toFixed(1)} / ${HDR_REFERENCE_WHITE_NITS.toFixed(1)};
+const float HLG_A = 0.17883277;
+const float HLG_B = 0.28466892;
+const float HLG_C = 0.55991073;
+
+float hlgInverseOetf(float v) {
+  return v <= 0.5 ? v * v / 3.0 : (exp((v - HLG_C) / HLG_A) + HLG_B) / 12.0;
+}
+
+float hlgOetf(float e) {
+  return e <= 1.0 / 12.0 ? sqrt(3.0 * e) : HLG_A * log(12.0 * e - HLG_B) + HLG_C;
+}
+
+float decodeChannel(float v) {
+  if (u_decode == 0) return pow(max(v, 0.0), 2.4);
+  if (u_decode == 1) {
+    return v <= 0.04045 ? v / 12.92 : pow((v + 0.055) / 1.055, 2.4);
+  }
+  if (u_decode == 2) return hlgInverseOetf(max(v, 0.0)) / hlgInverseOetf(0.75);
+  if (u_decode == 3) {
+    float n = pow(max(v, 0.0), 1.0 / PQ_M2);
+    float l = max(n - PQ_C1, 0.0) / (PQ_C2 - PQ_C3 * n);
+    return pow(l, 1.0 / PQ_M1) * PQ_SCALE;
+  }
+  return v;
+}
+
+float encodeChannel(float v) {
+  if (u_encode == 3) {
+    float p = pow(clamp(v / PQ_SCALE, 0.0, 1.0), PQ_M1);
+    return pow((PQ_C1 + PQ_C2 * p) / (1.0 + PQ_C3 * p), PQ_M2);
+  }
+  return hlgOetf(clamp(v * hlgInverseOetf(0.75), 0.0, 1.0));
+}
+
+void main() {
+  vec3 source = texture(u_image, v_texCoord).rgb;
+  vec3 light = u_matrix * vec3(
+    decodeChannel(source.r),
+    decodeChannel(source.g),
+    decodeChannel(source.b)
+  );
+  float peak = max(max(max(light.r, light.g), light.b), 0.0);
+  outColor = vec4(
+    encodeChannel(light.r),
+    encodeChannel(light.g),
+    encodeChannel(light.b),
+    peak / PQ_SCALE
+  );
+}`;
+
+/**
+ * Runs the HDR conversion on the GPU into an RGBA16F target and reads the
+ * result back as floats. Falls back to {@link encodeHdrPixels} where
+ * WebGL2 cannot render to half-float textures.
+ */
+export class HdrFrameConverter {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly conversion: ColorTransform;
+  private gl: WebGL2RenderingContext | null = null;
+  private program: WebGLProgram | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private targetTexture: WebGLTexture | null = null;
+  private framebuffer: WebGLFramebuffer | null = null;
+  private quadBuffer: WebGLBuffer | null = null;
+  private cpuCanvas: OffscreenCanvas | null = null;
+
+  constructor(width: number, height: number, conversion: ColorTransform) {
+    this.width = width;
+    this.height = height;
+    this.conversion = conversion;
+    this.initializeGL();
+  }
+
+  /** Whether frames are converted on the GPU. */
+  isAccelerated(): boolean {
+    return this.gl !== null;
+  }
+
+  private initializeGL(): void {
+    if (typeof OffscreenCanvas === "undefined") return;
+    const canvas = new OffscreenCanvas(this.width, this.height);
+    const gl = canvas.getContext("webgl2", { premultipliedAlpha: false });
+    if (!gl || !gl.getExtension("EXT_color_buffer_float")) return;
+
+    const program = this.compileProgram(gl);
+    if (!program) return;
+
+    this.quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+      gl.STATIC_DRAW,
+    );
+    const position = gl.getAttribLocation(program, "a_position");
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    this.sourceTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.targetTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.targetTexture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA16F, this.width, this.height);
+    this.framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      this.targetTexture,
+      0,
+    );
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      return;
+    }
+
+    gl.useProgram(program);
+    gl.uniform1i(gl.getUniformLocation(program, "u_image"), 0);
+    gl.uniform1i(
+      gl.getUniformLocation(program, "u_decode"),
+      TRANSFER_IDS[this.conversion.decode as keyof typeof TRANSFER_IDS] ??
+        TRANSFER_IDS.linear,
+    );
+    gl.uniform1i(
+      gl.getUniformLocation(program, "u_encode"),
+      TRANSFER_IDS[this.conversion.encode as HdrTransfer],
+    );
+    gl.uniformMatrix3fv(
+      gl.getUniformLocation(program, "u_matrix"),
+      true,
+      this.conversion.matrix,
+    );
+    gl.viewport(0, 0, this.width, this.height);
+
+    this.gl = gl;
+    this.program = program;
+  }
+
+  private compileProgram(gl: WebGL2RenderingContext): WebGLProgram | null {
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type)!;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        console.warn(`HDR shader error: ${gl.getShaderInfoLog(shader)}`);
+        return null;
+      }
+      return shader;
+    };
+    const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compile(gl.FRAGMENT_SHADER, HDR_SHADER);
+    if (!vertexShader || !fragmentShader) return null;
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      console.warn(`HDR program link error: ${gl.getProgramInfoLog(program)}`);
+      return null;
+    }
+    return program;
+  }
+
+  /**
+   * HDR R'G'B' signal of a frame, with light levels in alpha. Float
+   * pixels from a float16 composite are uploaded as half floats.
+   */
+  convert(image: ImageBitmap | Float32Array): Float32Array {
+    const gl = this.gl;
+    if (!gl) {
+      return image instanceof Float32Array
+        ? encodeHdrPixels(image, this.conversion)
+        : this.convertOnCPU(image);
+    }
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    if (image instanceof Float32Array) {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA16F,
+        this.width,
+        this.height,
+        0,
+        gl.RGBA,
+        gl.FLOAT,
+        image,
+      );
+    } else {
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA8,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        image,
+      );
+    }
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    const signal = new Float32Array(this.width * this.height * 4);
+    gl.readPixels(0, 0, this.width, this.height, gl.RGBA, gl.FLOAT, signal);
+    return signal;
+  }
+
+  private convertOnCPU(image: ImageBitmap): Float32Array {
+    this.cpuCanvas ??= new OffscreenCanvas(this.width, this.height);
+    const ctx = this.cpuCanvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error("Failed to get 2D context for HDR conversion");
+    }
+    ctx.drawImage(image, 0, 0, this.width, this.height);
+    const { data } = ctx.getImageData(0, 0, this.width, this.height);
+    return encodeHdrPixels(data, this.conversion);
+  }
+
+  dispose(): void {
+    const gl = this.gl;
+    if (gl) {
+      gl.deleteProgram(this.program);
+      gl.deleteTexture(this.sourceTexture);
+      gl.deleteTexture(this.targetTexture);
+      gl.deleteFramebuffer(this.framebuffer);
+      gl.deleteBuffer(this.quadBuffer);
+    }
+    this.gl = null;
+    this.cpuCanvas = null;
+  }
+}
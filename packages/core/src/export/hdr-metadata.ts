@@ -0,0 +1,590 @@
+/**
+ * Writes HDR color description into a finished file. The muxer only tags
+ * primaries, transfer and matrix; mastering display (SMPTE ST 2086) and
+ * content light levels (CTA-861.3) are added here, for MP4/MOV as
+ * colr/mdcv/clli boxes (SmDm/CoLL for VP9) and for WebM as a Colour
+ * element. HLG is scene-referred, so it only gets the color tags.
+ */
+import {
+  HDR_COLOR_PRIMARIES,
+  HDR_MATRIX_COEFFICIENTS,
+  HDR_TRANSFER_CHARACTERISTICS,
+} from "./hdr-export";
+import type {
+  ContentLightLevel,
+  HdrTransfer,
+  MasteringDisplayMetadata,
+  VideoExportSettings,
+} from "./types";
+
+export interface HdrMetadata {
+  transfer: HdrTransfer;
+  masteringDisplay?: MasteringDisplayMetadata;
+  contentLightLevel?: ContentLightLevel;
+}
+
+export function writeHdrMetadata(
+  buffer: Uint8Array,
+  format: VideoExportSettings["format"],
+  metadata: HdrMetadata,
+): Uint8Array {
+  return format === "webm"
+    ? writeWebmColour(buffer, metadata)
+    : writeMp4ColorBoxes(buffer, metadata);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+// ISO BMFF
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+const VISUAL_SAMPLE_ENTRIES = ["hvc1", "hev1", "av01", "vp09", "avc1", "avc3"];
+const VISUAL_SAMPLE_ENTRY_HEADER = 8 + 78;
+const HDR_BOX_TYPES = ["colr", "mdcv", "clli", "SmDm", "CoLL"];
+
+function readBoxes(buffer: Uint8Array, start: number, end: number): Box[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error("Malformed MP4 box structure");
+    }
+    const type = String.fromCharCode(
+      ...buffer.subarray(offset + 4, offset + 8),
+    );
+    boxes.push({ type, start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+const childBoxes = (buffer: Uint8Array, box: Box, skip = 0) =>
+  readBoxes(buffer, box.start + box.headerSize + skip, box.end);
+
+function findBox(boxes: Box[], type: string): Box | undefined {
+  return boxes.find((box) => box.type === type);
+}
+
+function findSampleTables(buffer: Uint8Array, moov: Box): Box[] {
+  const tables: Box[] = [];
+  for (const trak of childBoxes(buffer, moov)) {
+    if (trak.type !== "trak") continue;
+    const mdia = findBox(childBoxes(buffer, trak), "mdia");
+    const minf = mdia && findBox(childBoxes(buffer, mdia), "minf");
+    const stbl = minf && findBox(childBoxes(buffer, minf), "stbl");
+    if (stbl) tables.push(stbl);
+  }
+  return tables;
+}
+
+function box(type: string, payload: Uint8Array, fullBox = false): Uint8Array {
+  const headerSize = fullBox ? 12 : 8;
+  const bytes = new Uint8Array(headerSize + payload.length);
+  new DataView(bytes.buffer).setUint32(0, bytes.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(payload, headerSize);
+  return bytes;
+}
+
+function fields(...values: [bits: 8 | 16 | 32, value: number][]): Uint8Array {
+  const bytes = new Uint8Array(
+    values.reduce((sum, [bits]) => sum + bits / 8, 0),
+  );
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [bits, value] of values) {
+    const clamped = Math.max(0, Math.min(2 ** bits - 1, Math.round(value)));
+    if (bits === 8) view.setUint8(offset, clamped);
+    else if (bits === 16) view.setUint16(offset, clamped);
+    else view.setUint32(offset, clamped);
+    offset += bits / 8;
+  }
+  return bytes;
+}
+
+function createColorBoxes(
+  entryType: string,
+  metadata: HdrMetadata,
+): Uint8Array[] {
+  const colr = box(
+    "colr",
+    concat([
+      new TextEncoder().encode("nclx"),
+      fields(
+        [16, HDR_COLOR_PRIMARIES],
+        [16, HDR_TRANSFER_CHARACTERISTICS[metadata.transfer]],
+        [16, HDR_MATRIX_COEFFICIENTS],
+        [8, 0],
+      ),
+    ]),
+  );
+  if (metadata.transfer !== "pq") return [colr];
+
+  const boxes = [colr];
+  const display = metadata.masteringDisplay;
+  const light = metadata.contentLightLevel;
+  if (entryType === "vp09") {
+    // VP9 codec ISO media binding: 0.16, 24.8 and 18.14 fixed point
+    if (display) {
+      const chromaticities = [
+        display.red,
+        display.green,
+        display.blue,
+        display.whitePoint,
+      ].flatMap((c): [16, number][] => [
+        [16, c.x * 65536],
+        [16, c.y * 65536],
+      ]);
+      boxes.push(
+        box(
+          "SmDm",
+          fields(
+            ...chromaticities,
+            [32, display.maxLuminance * 256],
+            [32, display.minLuminance * 16384],
+          ),
+          true,
+        ),
+      );
+    }
+    if (light) {
+      boxes.push(
+        box("CoLL", fields([16, light.maxCLL], [16, light.maxFALL]), true),
+      );
+    }
+    return boxes;
+  }
+
+  if (display) {
+    // Primaries in G, B, R order as in the HEVC SEI, in 0.00002 units
+    const chromaticities = [
+      display.green,
+      display.blue,
+      display.red,
+      display.whitePoint,
+    ].flatMap((c): [16, number][] => [
+      [16, c.x * 50000],
+      [16, c.y * 50000],
+    ]);
+    boxes.push(
+      box(
+        "mdcv",
+        fields(
+          ...chromaticities,
+          [32, display.maxLuminance * 10000],
+          [32, display.minLuminance * 10000],
+        ),
+      ),
+    );
+  }
+  if (light) {
+    boxes.push(box("clli", fields([16, light.maxCLL], [16, light.maxFALL])));
+  }
+  return boxes;
+}
+
+function writeMp4ColorBoxes(
+  buffer: Uint8Array,
+  metadata: HdrMetadata,
+): Uint8Array {
+  const topLevel = readBoxes(buffer, 0, buffer.length);
+  const moov = findBox(topLevel, "moov");
+  if (!moov) throw new Error("MP4 has no moov box");
+
+  // Ancestors of the visual sample entry, outermost first
+  let path: Box[] | null = null;
+  let entry: Box | null = null;
+  for (const trak of childBoxes(buffer, moov)) {
+    if (trak.type !== "trak") continue;
+    const mdia = findBox(childBoxes(buffer, trak), "mdia");
+    const minf = mdia && findBox(childBoxes(buffer, mdia), "minf");
+    const stbl = minf && findBox(childBoxes(buffer, minf), "stbl");
+    const stsd = stbl && findBox(childBoxes(buffer, stbl), "stsd");
+    // stsd is a full box with an entry count before its entries
+    const visual = stsd
+      ? childBoxes(buffer, stsd, 8).find((child) =>
+          VISUAL_SAMPLE_ENTRIES.includes(child.type),
+        )
+      : undefined;
+    if (visual) {
+      path = [moov, trak, mdia!, minf!, stbl!, stsd!];
+      entry = visual;
+      break;
+    }
+  }
+  if (!path || !entry) throw new Error("MP4 has no video sample entry");
+
+  const childrenStart = entry.start + VISUAL_SAMPLE_ENTRY_HEADER;
+  const kept = readBoxes(buffer, childrenStart, entry.end)
+    .filter((child) => !HDR_BOX_TYPES.includes(child.type))
+    .map((child) => buffer.subarray(child.start, child.end));
+  const children = concat([...kept, ...createColorBoxes(entry.type, metadata)]);
+  const delta = children.length - (entry.end - childrenStart);
+
+  const output = concat([
+    buffer.subarray(0, childrenStart),
+    children,
+    buffer.subarray(entry.end),
+  ]);
+  const view = new DataView(output.buffer);
+  for (const ancestor of [...path, entry]) {
+    const size = ancestor.end - ancestor.start + delta;
+    if (ancestor.headerSize === 16) {
+      view.setBigUint64(ancestor.start + 8, BigInt(size));
+    } else {
+      view.setUint32(ancestor.start, size);
+    }
+  }
+
+  // Chunk offsets point into mdat, which moves when moov precedes it
+  const mdat = findBox(topLevel, "mdat");
+  if (delta !== 0 && mdat && moov.start < mdat.start) {
+    const newMoov = findBox(readBoxes(output, 0, output.length), "moov")!;
+    for (const stbl of findSampleTables(output, newMoov)) {
+      for (const table of childBoxes(output, stbl)) {
+        if (table.type !== "stco" && table.type !== "co64") continue;
+        const countOffset = table.start + table.headerSize + 4;
+        const count = view.getUint32(countOffset);
+        for (let i = 0; i < count; i++) {
+          if (table.type === "stco") {
+            const at = countOffset + 4 + i * 4;
+            view.setUint32(at, view.getUint32(at) + delta);
+          } else {
+            const at = countOffset + 4 + i * 8;
+            view.setBigUint64(at, view.getBigUint64(at) + BigInt(delta));
+          }
+        }
+      }
+    }
+  }
+  return output;
+}
+
+// EBML
+
+const EBML_ID = {
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekPosition: 0x53ac,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  Video: 0xe0,
+  Colour: 0x55b0,
+  MatrixCoefficients: 0x55b1,
+  BitsPerChannel: 0x55b2,
+  Range: 0x55b9,
+  TransferCharacteristics: 0x55ba,
+  Primaries: 0x55bb,
+  MaxCLL: 0x55bc,
+  MaxFALL: 0x55bd,
+  MasteringMetadata: 0x55d0,
+  PrimaryRChromaticityX: 0x55d1,
+  PrimaryRChromaticityY: 0x55d2,
+  PrimaryGChromaticityX: 0x55d3,
+  PrimaryGChromaticityY: 0x55d4,
+  PrimaryBChromaticityX: 0x55d5,
+  PrimaryBChromaticityY: 0x55d6,
+  WhitePointChromaticityX: 0x55d7,
+  WhitePointChromaticityY: 0x55d8,
+  LuminanceMax: 0x55d9,
+  LuminanceMin: 0x55da,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTrackPositions: 0xb7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  /** Offset and width of the size field. */
+  sizeStart: number;
+  sizeWidth: number;
+  dataStart: number;
+  end: number;
+  unknownSize: boolean;
+}
+
+function vintWidth(firstByte: number): number {
+  for (let width = 1; width <= 8; width++) {
+    if (firstByte & (0x100 >> width)) return width;
+  }
+  throw new Error("Malformed EBML variable-size integer");
+}
+
+function readElements(
+  buffer: Uint8Array,
+  start: number,
+  end: number,
+): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const idWidth = vintWidth(buffer[offset]);
+    let id = 0;
+    for (let i = 0; i < idWidth; i++) id = id * 256 + buffer[offset + i];
+
+    const sizeStart = offset + idWidth;
+    const sizeWidth = vintWidth(buffer[sizeStart]);
+    let size = buffer[sizeStart] & (0xff >> sizeWidth);
+    let unknown = size === 0xff >> sizeWidth;
+    for (let i = 1; i < sizeWidth; i++) {
+      size = size * 256 + buffer[sizeStart + i];
+      unknown &&= buffer[sizeStart + i] === 0xff;
+    }
+    const dataStart = sizeStart + sizeWidth;
+    const elementEnd = unknown ? end : dataStart + size;
+    if (elementEnd > end) throw new Error("Malformed EBML element");
+
+    elements.push({
+      id,
+      start: offset,
+      sizeStart,
+      sizeWidth,
+      dataStart,
+      end: elementEnd,
+      unknownSize: unknown,
+    });
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+function readUint(buffer: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.end; i++) {
+    value = value * 256 + buffer[i];
+  }
+  return value;
+}
+
+/** Writes a value into an existing field without changing its width. */
+function patchUint(
+  buffer: Uint8Array,
+  offset: number,
+  width: number,
+  value: number,
+): void {
+  if (value >= 2 ** (width * 8)) {
+    throw new Error("EBML value no longer fits its field");
+  }
+  for (let i = width - 1; i >= 0; i--) {
+    buffer[offset + i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+}
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number, width?: number): Uint8Array {
+  width ??= 1;
+  while (size >= 2 ** (7 * width) - 1) width++;
+  const bytes = new Uint8Array(width);
+  patchUint(bytes, 0, width, size);
+  bytes[0] |= 0x100 >> width;
+  return bytes;
+}
+
+function ebml(id: number, data: Uint8Array): Uint8Array {
+  return concat([encodeId(id), encodeSize(data.length), data]);
+}
+
+function ebmlUint(id: number, value: number): Uint8Array {
+  let width = 1;
+  while (value >= 2 ** (width * 8)) width++;
+  const bytes = new Uint8Array(width);
+  patchUint(bytes, 0, width, Math.round(value));
+  return ebml(id, bytes);
+}
+
+function ebmlFloat(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return ebml(id, bytes);
+}
+
+function createColourElement(metadata: HdrMetadata): Uint8Array {
+  const children = [
+    ebmlUint(EBML_ID.MatrixCoefficients, HDR_MATRIX_COEFFICIENTS),
+    ebmlUint(EBML_ID.BitsPerChannel, 10),
+    // 1 is broadcast range
+    ebmlUint(EBML_ID.Range, 1),
+    ebmlUint(
+      EBML_ID.TransferCharacteristics,
+      HDR_TRANSFER_CHARACTERISTICS[metadata.transfer],
+    ),
+    ebmlUint(EBML_ID.Primaries, HDR_COLOR_PRIMARIES),
+  ];
+
+  const light = metadata.contentLightLevel;
+  const display = metadata.masteringDisplay;
+  if (metadata.transfer === "pq" && light) {
+    children.push(
+      ebmlUint(EBML_ID.MaxCLL, light.maxCLL),
+      ebmlUint(EBML_ID.MaxFALL, light.maxFALL),
+    );
+  }
+  if (metadata.transfer === "pq" && display) {
+    children.push(
+      ebml(
+        EBML_ID.MasteringMetadata,
+        concat([
+          ebmlFloat(EBML_ID.PrimaryRChromaticityX, display.red.x),
+          ebmlFloat(EBML_ID.PrimaryRChromaticityY, display.red.y),
+          ebmlFloat(EBML_ID.PrimaryGChromaticityX, display.green.x),
+          ebmlFloat(EBML_ID.PrimaryGChromaticityY, display.green.y),
+          ebmlFloat(EBML_ID.PrimaryBChromaticityX, display.blue.x),
+          ebmlFloat(EBML_ID.PrimaryBChromaticityY, display.blue.y),
+          ebmlFloat(EBML_ID.WhitePointChromaticityX, display.whitePoint.x),
+          ebmlFloat(EBML_ID.WhitePointChromaticityY, display.whitePoint.y),
+          ebmlFloat(EBML_ID.LuminanceMax, display.maxLuminance),
+          ebmlFloat(EBML_ID.LuminanceMin, display.minLuminance),
+        ]),
+      ),
+    );
+  }
+  return ebml(EBML_ID.Colour, concat(children));
+}
+
+/**
+ * Rebuilds a master element, replacing children through `rewrite`.
+ * Children it returns null for are copied unchanged.
+ */
+function rebuild(
+  buffer: Uint8Array,
+  element: EbmlElement,
+  rewrite: (child: EbmlElement) => Uint8Array | null,
+  extra: Uint8Array[] = [],
+): Uint8Array {
+  const children = readElements(buffer, element.dataStart, element.end).map(
+    (child) => rewrite(child) ?? buffer.subarray(child.start, child.end),
+  );
+  return ebml(element.id, concat([...children, ...extra]));
+}
+
+function writeWebmColour(
+  buffer: Uint8Array,
+  metadata: HdrMetadata,
+): Uint8Array {
+  const segment = readElements(buffer, 0, buffer.length).find(
+    (element) => element.id === EBML_ID.Segment,
+  );
+  if (!segment) throw new Error("WebM has no Segment element");
+  const children = readElements(buffer, segment.dataStart, segment.end);
+  const tracks = children.find((element) => element.id === EBML_ID.Tracks);
+  if (!tracks) throw new Error("WebM has no Tracks element");
+
+  const colour = createColourElement(metadata);
+  let videoFound = false;
+  const newTracks = rebuild(buffer, tracks, (entry) =>
+    entry.id !== EBML_ID.TrackEntry
+      ? null
+      : rebuild(buffer, entry, (child) => {
+          if (child.id !== EBML_ID.Video) return null;
+          videoFound = true;
+          const kept = readElements(buffer, child.dataStart, child.end)
+            .filter((element) => element.id !== EBML_ID.Colour)
+            .map((element) => buffer.subarray(element.start, element.end));
+          return ebml(EBML_ID.Video, concat([...kept, colour]));
+        }),
+  );
+  if (!videoFound) throw new Error("WebM has no video track");
+
+  // Positions are relative to the Segment data; everything after Tracks
+  // moves by delta
+  const delta = newTracks.length - (tracks.end - tracks.start);
+  const tracksPosition = tracks.start - segment.dataStart;
+  const shift = (position: number) =>
+    position > tracksPosition ? position + delta : position;
+
+  const output = buffer.slice();
+  const seekHead = children.find((element) => element.id === EBML_ID.SeekHead);
+  if (seekHead) {
+    for (const seek of readElements(buffer, seekHead.dataStart, seekHead.end)) {
+      if (seek.id !== EBML_ID.Seek) continue;
+      for (const field of readElements(buffer, seek.dataStart, seek.end)) {
+        if (field.id !== EBML_ID.SeekPosition) continue;
+        patchUint(
+          output,
+          field.dataStart,
+          field.end - field.dataStart,
+          shift(readUint(buffer, field)),
+        );
+      }
+    }
+  }
+
+  // Cue positions can grow a byte, so Cues is rebuilt rather than patched
+  const cues = children.find((element) => element.id === EBML_ID.Cues);
+  let newCues: Uint8Array | null = null;
+  if (cues && cues.start > tracks.start) {
+    newCues = rebuild(buffer, cues, (point) =>
+      point.id !== EBML_ID.CuePoint
+        ? null
+        : rebuild(buffer, point, (positions) =>
+            positions.id !== EBML_ID.CueTrackPositions
+              ? null
+              : rebuild(buffer, positions, (field) =>
+                  field.id === EBML_ID.CueClusterPosition
+                    ? ebmlUint(field.id, shift(readUint(buffer, field)))
+                    : null,
+                ),
+          ),
+    );
+  }
+
+  if (!segment.unknownSize) {
+    const cuesDelta =
+      newCues && cues ? newCues.length - (cues.end - cues.start) : 0;
+    const size = segment.end - segment.dataStart + delta + cuesDelta;
+    const field = encodeSize(size, segment.sizeWidth);
+    if (field.length !== segment.sizeWidth) {
+      throw new Error("EBML value no longer fits its field");
+    }
+    output.set(field, segment.sizeStart);
+  }
+
+  const parts = [output.subarray(0, tracks.start), newTracks];
+  if (newCues && cues) {
+    parts.push(
+      output.subarray(tracks.end, cues.start),
+      newCues,
+      output.subarray(cues.end),
+    );
+  } else {
+    parts.push(output.subarray(tracks.end));
+  }
+  return concat(parts);
+}
@@ -0,0 +1,334 @@
+import { describe, it, expect } from "vitest";
+import {
+  ContentLightMeter,
+  createHdrConversion,
+  encodeHdrPixels,
+  getHdrCodecCandidates,
+  getHdrCodecString,
+  packYuv10,
+  resolveHdrSettings,
+} from "./hdr-export";
+import { writeHdrMetadata } from "./hdr-metadata";
+import { encodePng16 } from "./apng-encoder";
+import { DEFAULT_MASTERING_DISPLAY } from "./types";
+import type { Project } from "../types";
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+const indexOf = (haystack: Uint8Array, needle: number[], from = 0) => {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const countOf = (haystack: Uint8Array, needle: number[]) => {
+  let count = 0;
+  for (let i = indexOf(haystack, needle); i >= 0;) {
+    count++;
+    i = indexOf(haystack, needle, i + 1);
+  }
+  return count;
+};
+
+const mp4Box = (type: string, ...payload: number[][]): number[] => {
+  const body = payload.flat();
+  const size = 8 + body.length;
+  return [
+    (size >>> 24) & 0xff,
+    (size >>> 16) & 0xff,
+    (size >>> 8) & 0xff,
+    size & 0xff,
+    ...ascii(type),
+    ...body,
+  ];
+};
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const createMp4 = (mdatOffset: number) => {
+  const hvc1 = mp4Box(
+    "hvc1",
+    new Array(78).fill(0),
+    mp4Box("hvcC", [1, 2, 3]),
+    mp4Box("colr", ascii("nclx"), [0, 1, 0, 1, 0, 1, 0]),
+  );
+  const stsd = mp4Box("stsd", [0, 0, 0, 0], uint32(1), hvc1);
+  const stco = mp4Box("stco", [0, 0, 0, 0], uint32(1), uint32(mdatOffset));
+  return mp4Box(
+    "moov",
+    mp4Box("trak", mp4Box("mdia", mp4Box("minf", mp4Box("stbl", stsd, stco)))),
+  );
+};
+
+describe("getHdrCodecString", () => {
+  it("should build 10-bit BT.2020 codec strings with a fitting level", () => {
+    const hd = { width: 1920, height: 1080, frameRate: 30 };
+    expect(
+      getHdrCodecString("hevc", { ...hd, chroma: "420", transfer: "pq" }),
+    ).toBe("hvc1.2.4.L120.B0");
+    expect(
+      getHdrCodecString("vp9", { ...hd, chroma: "420", transfer: "pq" }),
+    ).toBe("vp09.02.40.10.01.09.16.09.00");
+    expect(
+      getHdrCodecString("av1", {
+        width: 3840,
+        height: 2160,
+        frameRate: 60,
+        chroma: "444",
+        transfer: "hlg",
+      }),
+    ).toBe("av01.1.13M.10.0.000.09.18.09.0");
+    expect(
+      getHdrCodecString("hevc", { ...hd, chroma: "422", transfer: "pq" }),
+    ).toBeNull();
+  });
+
+  it("should try the requested codec first among those the container holds", () => {
+    expect(getHdrCodecCandidates("av1", "mp4")).toEqual(["av1", "hevc", "vp9"]);
+    expect(getHdrCodecCandidates("h264", "webm")).toEqual(["vp9", "av1"]);
+    expect(getHdrCodecCandidates("h265", "webm")).toEqual(["vp9", "av1"]);
+  });
+});
+
+describe("resolveHdrSettings", () => {
+  it("should follow an HDR color management output", () => {
+    const project = (outputSpace: string, enabled = true) =>
+      ({
+        settings: { colorManagement: { enabled, outputSpace } },
+      }) as unknown as Project;
+
+    expect(resolveHdrSettings({}, project("rec2020-pq"))).toEqual({
+      transfer: "pq",
+    });
+    expect(resolveHdrSettings({}, project("rec2020-hlg"))).toEqual({
+      transfer: "hlg",
+    });
+    expect(resolveHdrSettings({}, project("rec709"))).toBeNull();
+    expect(resolveHdrSettings({}, project("rec2020-pq", false))).toBeNull();
+    expect(
+      resolveHdrSettings({ hdr: { transfer: "hlg" } }, project("rec709")),
+    ).toEqual({ transfer: "hlg" });
+  });
+});
+
+describe("HDR pixel conversion", () => {
+  it("should place SDR white at reference white", () => {
+    const white = new Uint8ClampedArray([255, 255, 255, 255]);
+    const pq = encodeHdrPixels(white, createHdrConversion("rec709", "pq"));
+    expect(pq[0]).toBeCloseTo(0.5807, 3);
+    expect(pq[3]).toBeCloseTo(203 / 10000, 5);
+
+    const hlg = encodeHdrPixels(white, createHdrConversion("rec709", "hlg"));
+    expect(hlg[0]).toBeCloseTo(0.75, 4);
+  });
+
+  it("should keep the precision of a float composite", () => {
+    const conversion = createHdrConversion("rec709", "pq");
+    const white = encodeHdrPixels(new Float32Array([1, 1, 1, 1]), conversion);
+    expect(white[0]).toBeCloseTo(0.5807, 3);
+
+    // Between two 8-bit codes, as blending in a float16 canvas produces
+    const between = encodeHdrPixels(
+      new Float32Array([127.5 / 255, 0, 0, 1]),
+      conversion,
+    );
+    const low = encodeHdrPixels(
+      new Uint8ClampedArray([127, 0, 0, 255]),
+      conversion,
+    );
+    const high = encodeHdrPixels(
+      new Uint8ClampedArray([128, 0, 0, 255]),
+      conversion,
+    );
+    expect(between[0]).toBeGreaterThan(low[0]);
+    expect(between[0]).toBeLessThan(high[0]);
+  });
+
+  it("should pack limited-range 10-bit Y'CbCr planes", () => {
+    const red = new Float32Array(2 * 2 * 4);
+    for (let i = 0; i < 4; i++) red.set([1, 0, 0, 1], i * 4);
+    const planes = packYuv10(red, 2, 2, "420");
+    expect(planes.length).toBe(6);
+    expect(Array.from(planes.subarray(0, 4))).toEqual([294, 294, 294, 294]);
+    expect(planes[4]).toBe(387);
+    expect(planes[5]).toBe(960);
+
+    const white = new Float32Array(2 * 4).fill(1);
+    const full = packYuv10(white, 2, 1, "444");
+    expect(Array.from(full)).toEqual([940, 940, 512, 512, 512, 512]);
+  });
+
+  it("should measure content light levels", () => {
+    const meter = new ContentLightMeter();
+    meter.add(new Float32Array([0, 0, 0, 0.02, 0, 0, 0, 0.1]));
+    meter.add(new Float32Array([0, 0, 0, 0.01, 0, 0, 0, 0.01]));
+    expect(meter.getLevels()).toEqual({ maxCLL: 1000, maxFALL: 600 });
+  });
+
+  it("should write 16-bit RGB PNGs", async () => {
+    const png = await encodePng16(new Uint8Array(2 * 6).fill(0xff), 2, 1);
+    const header = indexOf(png, ascii("IHDR")) + 4;
+    expect(png[header + 8]).toBe(16);
+    expect(png[header + 9]).toBe(2);
+  });
+});
+
+describe("writeHdrMetadata", () => {
+  const metadata = {
+    transfer: "pq" as const,
+    masteringDisplay: DEFAULT_MASTERING_DISPLAY,
+    contentLightLevel: { maxCLL: 1000, maxFALL: 400 },
+  };
+
+  it("should add colr, mdcv and clli boxes and move chunk offsets", () => {
+    const ftyp = mp4Box("ftyp", ascii("isom"));
+    const moovSize = createMp4(0).length;
+    const mdatOffset = ftyp.length + moovSize + 8;
+    const payload = [0xde, 0xad, 0xbe, 0xef];
+    const file = new Uint8Array([
+      ...ftyp,
+      ...createMp4(mdatOffset),
+      ...mp4Box("mdat", payload),
+    ]);
+
+    const output = writeHdrMetadata(file, "mp4", metadata);
+    expect(countOf(output, ascii("colr"))).toBe(1);
+    expect(countOf(output, ascii("mdcv"))).toBe(1);
+    expect(countOf(output, ascii("clli"))).toBe(1);
+
+    const colr = indexOf(output, ascii("colrnclx")) + 8;
+    expect(Array.from(output.subarray(colr, colr + 6))).toEqual([
+      0, 9, 0, 16, 0, 9,
+    ]);
+    const view = new DataView(output.buffer);
+    const mdcv = indexOf(output, ascii("mdcv")) + 4;
+    expect(view.getUint16(mdcv)).toBe(13250);
+    expect(view.getUint32(mdcv + 16)).toBe(10000000);
+
+    const moov = indexOf(output, ascii("moov")) - 4;
+    expect(view.getUint32(moov)).toBe(
+      indexOf(output, ascii("mdat")) - 4 - moov,
+    );
+    const stco = indexOf(output, ascii("stco")) + 12;
+    const offset = view.getUint32(stco);
+    expect(Array.from(output.subarray(offset, offset + 4))).toEqual(payload);
+  });
+
+  it("should tag HLG without mastering metadata", () => {
+    const file = new Uint8Array(createMp4(0));
+    const output = writeHdrMetadata(file, "mov", { transfer: "hlg" });
+    const colr = indexOf(output, ascii("colrnclx")) + 8;
+    expect(output[colr + 3]).toBe(18);
+    expect(indexOf(output, ascii("mdcv"))).toBe(-1);
+  });
+
+  it("should add a WebM Colour element and keep positions valid", () => {
+    const element = (id: number[], data: number[]) => {
+      if (data.length >= 127) throw new Error("test element too large");
+      return [...id, 0x80 | data.length, ...data];
+    };
+    const TRACKS = [0x16, 0x54, 0xae, 0x6b];
+    const CUES = [0x1c, 0x53, 0xbb, 0x6b];
+    const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+    const seek = (id: number[], position: number) =>
+      element(
+        [0x4d, 0xbb],
+        [
+          ...element([0x53, 0xab], id),
+          ...element([0x53, 0xac], [0, ...uint32(position)]),
+        ],
+      );
+    const seekHead = (tracks: number, cues: number) =>
+      element(
+        [0x11, 0x4d, 0x9b, 0x74],
+        [...seek(TRACKS, tracks), ...seek(CUES, cues)],
+      );
+    const tracks = element(
+      TRACKS,
+      element(
+        [0xae],
+        [
+          ...element([0xd7], [1]),
+          ...element([0xe0], element([0xb0], [0x07, 0x80])),
+        ],
+      ),
+    );
+    const cluster = element(CLUSTER, element([0xe7], [0]));
+
+    const tracksPosition = seekHead(0, 0).length;
+    const clusterPosition = tracksPosition + tracks.length;
+    const cuesPosition = clusterPosition + cluster.length;
+    const cues = element(
+      CUES,
+      element(
+        [0xbb],
+        [
+          ...element([0xb3], [0]),
+          ...element(
+            [0xb7],
+            [...element([0xf7], [1]), ...element([0xf1], [clusterPosition])],
+          ),
+        ],
+      ),
+    );
+    const segmentData = [
+      ...seekHead(tracksPosition, cuesPosition),
+      ...tracks,
+      ...cluster,
+      ...cues,
+    ];
+    const ebmlHeader = element(
+      [0x1a, 0x45, 0xdf, 0xa3],
+      element([0x42, 0x82], ascii("webm")),
+    );
+    const segmentSize = [0x01, 0, 0, 0, 0, 0, 0, segmentData.length];
+    const file = new Uint8Array([
+      ...ebmlHeader,
+      0x18,
+      0x53,
+      0x80,
+      0x67,
+      ...segmentSize,
+      ...segmentData,
+    ]);
+
+    const output = writeHdrMetadata(file, "webm", metadata);
+    const segmentStart = ebmlHeader.length + 4 + 8;
+    expect(indexOf(output, [0x55, 0xb0])).toBeGreaterThan(0);
+    expect(indexOf(output, [0x55, 0xd0])).toBeGreaterThan(0);
+    expect(output[segmentStart - 1] + output[segmentStart - 2] * 256).toBe(
+      output.length - segmentStart,
+    );
+
+    const view = new DataView(output.buffer);
+    const seekPositions: number[] = [];
+    for (let i = indexOf(output, [0x53, 0xac, 0x85]); i >= 0;) {
+      seekPositions.push(view.getUint32(i + 4));
+      i = indexOf(output, [0x53, 0xac, 0x85], i + 1);
+    }
+    const at = (position: number) =>
+      Array.from(
+        output.subarray(segmentStart + position, segmentStart + position + 4),
+      );
+    expect(at(seekPositions[0])).toEqual(TRACKS);
+    expect(at(seekPositions[1])).toEqual(CUES);
+
+    const cuePosition = indexOf(output, [0xf7, 0x81, 0x01]) + 3;
+    expect(output[cuePosition]).toBe(0xf1);
+    const width = output[cuePosition + 1] & 0x7f;
+    let position = 0;
+    for (let i = 0; i < width; i++) {
+      position = position * 256 + output[cuePosition + 2 + i];
+    }
+    expect(at(position)).toEqual(CLUSTER);
+  });
+});
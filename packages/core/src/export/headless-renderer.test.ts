@@ -0,0 +1,331 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  HeadlessRenderer,
+  buildAtempoChain,
+  buildEncodeArgs,
+  getClipSourceTime,
+  type HeadlessCanvas,
+  type HeadlessHost,
+  type HeadlessImageData,
+  type HeadlessRenderingContext2D,
+} from "./headless-renderer";
+import { DEFAULT_VIDEO_SETTINGS } from "./types";
+import type { ExportProgress, ExportResult } from "./types";
+import type { Project, Clip, MediaItem } from "../types";
+import { ProjectSerializer } from "../storage/project-serializer";
+import type { IStorageEngine } from "../storage/types";
+
+const createFakeCanvas = (width: number, height: number): HeadlessCanvas => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const imageData = (w: number, h: number): HeadlessImageData => ({
+    width: w,
+    height: h,
+    data: new Uint8ClampedArray(w * h * 4),
+  });
+  const ctx: HeadlessRenderingContext2D = {
+    globalAlpha: 1,
+    fillStyle: "#000000",
+    save: vi.fn(),
+    restore: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
+    scale: vi.fn(),
+    transform: vi.fn(),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    closePath: vi.fn(),
+    clip: vi.fn(),
+    fillRect: vi.fn(),
+    drawImage: vi.fn() as unknown as HeadlessRenderingContext2D["drawImage"],
+    createImageData: imageData,
+    putImageData: vi.fn(),
+    getImageData: (_x, _y, w, h) => ({ width: w, height: h, data: pixels }),
+  };
+  return { width, height, getContext: () => ctx };
+};
+
+const createFakeHost = (files: string[]) => {
+  const encodeCalls: { args: string[]; frames: number }[] = [];
+  const decodeStreams: { args: string[]; closed: boolean }[] = [];
+  const host: HeadlessHost = {
+    fileExists: vi.fn(async (path: string) => files.includes(path)),
+    createCanvas: createFakeCanvas,
+    runFFmpeg: vi.fn(async (args: string[], stdin?: AsyncIterable<Uint8Array>) => {
+      if (stdin) {
+        let frames = 0;
+        for await (const chunk of stdin) {
+          expect(chunk.byteLength).toBeGreaterThan(0);
+          frames++;
+        }
+        encodeCalls.push({ args, frames });
+        return { exitCode: 0, stdout: new Uint8Array(0) };
+      }
+      const scale = args[args.indexOf("-vf") + 1].replace("scale=", "");
+      const [w, h] = scale.split(":").map(Number);
+      return { exitCode: 0, stdout: new Uint8Array(w * h * 4) };
+    }),
+    streamFFmpeg: (args: string[]) => {
+      const [fps, scale] = args[args.indexOf("-vf") + 1].split(",");
+      const [w, h] = scale.replace("scale=", "").split(":").map(Number);
+      const duration = Number(args[args.indexOf("-t") + 1]);
+      const total = Math.ceil(duration * Number(fps.replace("fps=", "")));
+      const stream = { args, closed: false };
+      decodeStreams.push(stream);
+      return (async function* () {
+        try {
+          // Chunks straddle frame boundaries, as pipe reads do
+          const bytes = new Uint8Array(total * w * h * 4);
+          const chunkSize = Math.ceil(w * h * 4 * 1.5);
+          for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+            yield bytes.subarray(offset, offset + chunkSize);
+          }
+        } finally {
+          stream.closed = true;
+        }
+      })();
+    },
+  };
+  return { host, encodeCalls, decodeStreams };
+};
+
+const createMockMediaItem = (overrides?: Partial<MediaItem>): MediaItem => ({
+  id: "media-1",
+  name: "clip.mp4",
+  type: "video",
+  fileHandle: null,
+  blob: null,
+  metadata: {
+    duration: 10,
+    width: 640,
+    height: 360,
+    frameRate: 30,
+    codec: "avc1",
+    sampleRate: 48000,
+    channels: 2,
+    fileSize: 1024,
+  },
+  thumbnailUrl: null,
+  waveformData: null,
+  ...overrides,
+});
+
+const createMockClip = (overrides?: Partial<Clip>): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 1,
+  inPoint: 0,
+  outPoint: 1,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createMockProject = (clips: Clip[] = [createMockClip()]): Project => ({
+  id: "project-1",
+  name: "Headless",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 320,
+    height: 180,
+    frameRate: 10,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [createMockMediaItem()] },
+  timeline: {
+    tracks: [
+      {
+        id: "track-1",
+        type: "video",
+        name: "Video 1",
+        clips,
+        transitions: [],
+        locked: false,
+        hidden: false,
+        muted: false,
+        solo: false,
+      },
+    ],
+    subtitles: [],
+    duration: 1,
+    markers: [],
+  },
+});
+
+const serializer = new ProjectSerializer({} as IStorageEngine);
+
+async function drain(
+  generator: AsyncGenerator<ExportProgress, ExportResult>,
+): Promise<{ progress: ExportProgress[]; result: ExportResult }> {
+  const progress: ExportProgress[] = [];
+  let next = await generator.next();
+  while (!next.done) {
+    progress.push(next.value);
+    next = await generator.next();
+  }
+  return { progress, result: next.value };
+}
+
+describe("HeadlessRenderer", () => {
+  it("should render every frame of a serialized project into ffmpeg", async () => {
+    const { host, encodeCalls, decodeStreams } = createFakeHost([
+      "/media/clip.mp4",
+    ]);
+    const renderer = new HeadlessRenderer(host, serializer);
+    const json = serializer.exportToJson(createMockProject());
+
+    const { progress, result } = await drain(
+      renderer.renderJson(json, {
+        mediaDirectory: "/media",
+        outputPath: "/out/render.mp4",
+      }),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stats?.framesRendered).toBe(10);
+    expect(encodeCalls).toHaveLength(1);
+    expect(encodeCalls[0].frames).toBe(10);
+    expect(decodeStreams).toHaveLength(1);
+    expect(encodeCalls[0].args).toContain("/out/render.mp4");
+    expect(encodeCalls[0].args).toContain("libx264");
+    expect(encodeCalls[0].args).toContain("320x180");
+    expect(progress[progress.length - 1].phase).toBe("complete");
+  });
+
+  it("should decode each clip from one stream when clips share media", async () => {
+    const { host, encodeCalls, decodeStreams } = createFakeHost([
+      "/media/clip.mp4",
+    ]);
+    const renderer = new HeadlessRenderer(host, serializer);
+    const project = createMockProject([
+      createMockClip({ id: "clip-1", speed: 0.25 }),
+      createMockClip({ id: "clip-2", inPoint: 5, outPoint: 6, speed: 0.25 }),
+    ]);
+
+    await drain(
+      renderer.render(project, {
+        mediaDirectory: "/media",
+        outputPath: "/out/render.mp4",
+      }),
+    );
+
+    const seeks = vi
+      .mocked(host.runFFmpeg)
+      .mock.calls.filter(([, stdin]) => !stdin);
+    expect(encodeCalls[0].frames).toBe(10);
+    expect(seeks).toHaveLength(0);
+    expect(decodeStreams).toHaveLength(2);
+    expect(decodeStreams[0].args).not.toContain("-ss");
+    expect(decodeStreams[1].args).toContain("5.000000");
+    expect(decodeStreams.every((stream) => stream.closed)).toBe(true);
+  });
+
+  it("should fail when referenced media is missing from the directory", async () => {
+    const { host } = createFakeHost([]);
+    const renderer = new HeadlessRenderer(host, serializer);
+
+    const { result } = await drain(
+      renderer.render(createMockProject(), {
+        mediaDirectory: "/media",
+        outputPath: "/out/render.mp4",
+      }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("INVALID_SETTINGS");
+    expect(result.error?.message).toContain("clip.mp4");
+  });
+
+  it("should reject invalid project JSON", async () => {
+    const { host } = createFakeHost([]);
+    const renderer = new HeadlessRenderer(host, serializer);
+
+    const { result } = await drain(
+      renderer.renderJson(JSON.stringify({ version: "1.0.0" }), {
+        mediaDirectory: "/media",
+        outputPath: "/out/render.mp4",
+      }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Missing project field");
+  });
+
+  it("should stop rendering when aborted", async () => {
+    const { host } = createFakeHost(["/media/clip.mp4"]);
+    const renderer = new HeadlessRenderer(host, serializer);
+    const controller = new AbortController();
+    controller.abort();
+
+    const { result } = await drain(
+      renderer.render(createMockProject(), {
+        mediaDirectory: "/media",
+        outputPath: "/out/render.mp4",
+        signal: controller.signal,
+      }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("CANCELLED");
+  });
+});
+
+describe("buildEncodeArgs", () => {
+  it("should mix audio clips at their timeline offsets", () => {
+    const clip = createMockClip({ startTime: 2.5, inPoint: 1, speed: 2 });
+    const args = buildEncodeArgs(
+      DEFAULT_VIDEO_SETTINGS,
+      5,
+      [{ path: "/media/clip.mp4", clip }],
+      "out.mp4",
+    );
+
+    const filter = args[args.indexOf("-filter_complex") + 1];
+    expect(filter).toContain("atempo=2.0");
+    expect(filter).toContain("adelay=2500:all=1");
+    expect(filter).toContain("amix=inputs=1");
+    expect(args).toContain("[aout]");
+    expect(args[args.indexOf("-ss") + 1]).toBe("1.000000");
+  });
+
+  it("should use libvpx-vp9 and opus for webm", () => {
+    const args = buildEncodeArgs(
+      { ...DEFAULT_VIDEO_SETTINGS, format: "webm", codec: "vp9" },
+      1,
+      [{ path: "a.wav", clip: createMockClip() }],
+      "out.webm",
+    );
+
+    expect(args).toContain("libvpx-vp9");
+    expect(args).toContain("libopus");
+    expect(args).not.toContain("-movflags");
+  });
+});
+
+describe("headless helpers", () => {
+  it("should chain atempo filters outside the supported range", () => {
+    expect(buildAtempoChain(1)).toEqual([]);
+    expect(buildAtempoChain(4)).toEqual(["atempo=2.0", "atempo=2.0"]);
+    expect(buildAtempoChain(0.25)).toEqual(["atempo=0.5", "atempo=0.5"]);
+  });
+
+  it("should map playback time to source time for speed and reverse", () => {
+    const clip = createMockClip({ inPoint: 2, outPoint: 6, speed: 2 });
+    expect(getClipSourceTime(clip, 1)).toBe(4);
+    expect(getClipSourceTime({ ...clip, reversed: true }, 1)).toBe(4);
+    expect(getClipSourceTime({ ...clip, reversed: true }, 0)).toBe(6);
+  });
+});
@@ -0,0 +1,1072 @@
+import type { Project, MediaItem } from "../types/project";
+import type { Clip, Track, Transform } from "../types/timeline";
+import type {
+  VideoExportSettings,
+  ExportProgress,
+  ExportResult,
+  ExportError,
+  ExportStats,
+} from "./types";
+import { DEFAULT_VIDEO_SETTINGS } from "./types";
+import type { ValidationResult } from "../storage/schema-types";
+import {
+  ProjectSerializer,
+  createProjectSerializer,
+} from "../storage/project-serializer";
+import { createStorageEngine } from "../storage/storage-engine";
+import { keyframeEngine } from "../video/keyframe-engine";
+import {
+  drawImageCornerPin,
+  getAnimatedCornerPin,
+  scaleCornerPin,
+} from "../video/corner-pin";
+import {
+  applyStabilization,
+  getStabilizationAtTime,
+} from "../video/stabilizer";
+
+/**
+ * Minimal Canvas2D surface the headless renderer draws into. node-canvas,
+ * skia-canvas and @napi-rs/canvas all satisfy it, as does OffscreenCanvas.
+ */
+export interface HeadlessCanvas {
+  readonly width: number;
+  readonly height: number;
+  getContext(type: "2d"): HeadlessRenderingContext2D | null;
+}
+
+export interface HeadlessImageData {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+}
+
+export interface HeadlessRenderingContext2D {
+  globalAlpha: number;
+  fillStyle: string;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  transform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number,
+  ): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  clip(): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  drawImage(image: HeadlessCanvas, dx: number, dy: number): void;
+  drawImage(
+    image: HeadlessCanvas,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number,
+  ): void;
+  createImageData(width: number, height: number): HeadlessImageData;
+  putImageData(imageData: HeadlessImageData, dx: number, dy: number): void;
+  getImageData(
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+  ): HeadlessImageData;
+}
+
+export interface HeadlessFFmpegResult {
+  readonly exitCode: number;
+  readonly stdout: Uint8Array;
+  readonly stderr?: string;
+}
+
+/**
+ * Environment bindings supplied by the caller. Core never imports Node
+ * modules directly; apps/render wires these up with fs/promises, a canvas
+ * package and a spawned `ffmpeg` binary.
+ */
+export interface HeadlessHost {
+  /** Whether a media file exists. ffmpeg reads it from the path itself. */
+  fileExists(path: string): Promise<boolean>;
+  createCanvas(width: number, height: number): HeadlessCanvas;
+  /**
+   * Run ffmpeg with the given arguments. When `stdin` is provided each chunk
+   * must be written to the process in order before stdin is closed.
+   */
+  runFFmpeg(
+    args: string[],
+    stdin?: AsyncIterable<Uint8Array>,
+  ): Promise<HeadlessFFmpegResult>;
+  /**
+   * Run ffmpeg and yield its stdout as it is produced. Ending the iteration
+   * early must stop the process.
+   */
+  streamFFmpeg(args: string[]): AsyncIterable<Uint8Array>;
+}
+
+export interface HeadlessRenderOptions {
+  /** Directory holding the project's media files, matched by `MediaItem.name`. */
+  mediaDirectory: string;
+  outputPath: string;
+  settings?: Partial<VideoExportSettings>;
+  signal?: AbortSignal;
+}
+
+export interface HeadlessAudioInput {
+  readonly path: string;
+  readonly clip: Clip;
+}
+
+const FFMPEG_VIDEO_CODECS: Record<VideoExportSettings["codec"], string> = {
+  h264: "libx264",
+  h265: "libx265",
+  vp8: "libvpx",
+  vp9: "libvpx-vp9",
+  av1: "libaom-av1",
+  prores: "prores_ks",
+};
+
+const PRORES_PROFILES: Record<
+  NonNullable<VideoExportSettings["proresProfile"]>,
+  string
+> = {
+  proxy: "0",
+  lt: "1",
+  standard: "2",
+  hq: "3",
+  "4444": "4",
+  "4444xq": "5",
+};
+
+const ANIMATED_TRANSFORM_PROPERTIES = [
+  "opacity",
+  "position.x",
+  "position.y",
+  "scale.x",
+  "scale.y",
+  "rotation",
+] as const;
+
+export function joinMediaPath(directory: string, fileName: string): string {
+  if (directory === "") return fileName;
+  return directory.endsWith("/") ? `${directory}${fileName}` : `${directory}/${fileName}`;
+}
+
+export function getClipSourceTime(clip: Clip, localTime: number): number {
+  const speed = clip.speed ?? 1;
+  if (clip.reversed) {
+    return Math.max(clip.inPoint, clip.outPoint - localTime * speed);
+  }
+  return Math.min(clip.outPoint, clip.inPoint + localTime * speed);
+}
+
+export function fitWithin(
+  sourceWidth: number,
+  sourceHeight: number,
+  maxWidth: number,
+  maxHeight: number,
+): { width: number; height: number } {
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    return { width: maxWidth, height: maxHeight };
+  }
+  const scale = Math.min(maxWidth / sourceWidth, maxHeight / sourceHeight);
+  return {
+    width: Math.max(2, Math.round((sourceWidth * scale) / 2) * 2),
+    height: Math.max(2, Math.round((sourceHeight * scale) / 2) * 2),
+  };
+}
+
+/** `atempo` only accepts factors in [0.5, 2], so larger changes are chained. */
+export function buildAtempoChain(speed: number): string[] {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining >= 2) {
+    filters.push("atempo=2.0");
+    remaining /= 2;
+  }
+  while (remaining <= 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-6) {
+    filters.push(`atempo=${remaining.toFixed(6)}`);
+  }
+  return filters;
+}
+
+export function buildFrameDecodeArgs(
+  path: string,
+  sourceTime: number | null,
+  width: number,
+  height: number,
+): string[] {
+  const args = ["-v", "error"];
+  if (sourceTime !== null && sourceTime > 0) {
+    args.push("-ss", sourceTime.toFixed(6));
+  }
+  args.push(
+    "-i", path,
+    "-frames:v", "1",
+    "-vf", `scale=${width}:${height}`,
+    "-f", "rawvideo",
+    "-pix_fmt", "rgba",
+    "pipe:1",
+  );
+  return args;
+}
+
+/**
+ * Decodes a clip's frames in order from `sourceTime`, one every `step`
+ * seconds of source time, so one process serves the whole clip.
+ */
+export function buildStreamDecodeArgs(
+  path: string,
+  sourceTime: number,
+  sourceDuration: number,
+  step: number,
+  width: number,
+  height: number,
+): string[] {
+  const args = ["-v", "error"];
+  if (sourceTime > 0) {
+    args.push("-ss", sourceTime.toFixed(6));
+  }
+  args.push(
+    "-t", sourceDuration.toFixed(6),
+    "-i", path,
+    "-vf", `fps=${(1 / step).toFixed(6)},scale=${width}:${height}`,
+    "-f", "rawvideo",
+    "-pix_fmt", "rgba",
+    "pipe:1",
+  );
+  return args;
+}
+
+/** Splits a decoder's stdout into fixed-size frames. */
+class RawFrameReader {
+  private chunks: AsyncIterator<Uint8Array>;
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+
+  constructor(
+    stream: AsyncIterable<Uint8Array>,
+    private frameBytes: number,
+  ) {
+    this.chunks = stream[Symbol.asyncIterator]();
+  }
+
+  /** The next frame, or null once the stream ends. */
+  async read(): Promise<Uint8Array | null> {
+    while (this.pendingBytes < this.frameBytes) {
+      const { value, done } = await this.chunks.next();
+      if (done) return null;
+      this.pending.push(value);
+      this.pendingBytes += value.byteLength;
+    }
+
+    const frame = new Uint8Array(this.frameBytes);
+    let offset = 0;
+    while (offset < this.frameBytes) {
+      const chunk = this.pending[0];
+      const take = Math.min(chunk.byteLength, this.frameBytes - offset);
+      frame.set(chunk.subarray(0, take), offset);
+      offset += take;
+      if (take === chunk.byteLength) {
+        this.pending.shift();
+      } else {
+        this.pending[0] = chunk.subarray(take);
+      }
+    }
+    this.pendingBytes -= this.frameBytes;
+    return frame;
+  }
+
+  close(): void {
+    void this.chunks.return?.();
+  }
+}
+
+interface ClipDecoder {
+  readonly reader: RawFrameReader;
+  readonly canvas: HeadlessCanvas;
+  /** Source time of the stream's first frame */
+  readonly startTime: number;
+  /** Source seconds between frames */
+  readonly step: number;
+  /** Frames read so far */
+  index: number;
+}
+
+export function buildEncodeArgs(
+  settings: VideoExportSettings,
+  duration: number,
+  audioInputs: HeadlessAudioInput[],
+  outputPath: string,
+): string[] {
+  const args = [
+    "-y",
+    "-v", "error",
+    "-f", "rawvideo",
+    "-pix_fmt", "rgba",
+    "-s", `${settings.width}x${settings.height}`,
+    "-r", settings.frameRate.toString(),
+    "-i", "pipe:0",
+  ];
+
+  for (const { path, clip } of audioInputs) {
+    const sourceDuration = clip.duration * (clip.speed ?? 1);
+    const seek = clip.reversed
+      ? Math.max(0, clip.outPoint - sourceDuration)
+      : clip.inPoint;
+    args.push(
+      "-ss", seek.toFixed(6),
+      "-t", sourceDuration.toFixed(6),
+      "-i", path,
+    );
+  }
+
+  const videoCodec = FFMPEG_VIDEO_CODECS[settings.codec];
+  const pixelFormat =
+    settings.codec === "prores"
+      ? "yuv422p10le"
+      : settings.colorDepth === 10 && settings.codec !== "h264"
+        ? "yuv420p10le"
+        : "yuv420p";
+
+  if (audioInputs.length > 0) {
+    const chains: string[] = [];
+    const labels: string[] = [];
+    audioInputs.forEach(({ clip }, index) => {
+      const filters: string[] = [];
+      if (clip.reversed) filters.push("areverse");
+      filters.push(...buildAtempoChain(clip.speed ?? 1));
+      filters.push(`volume=${clip.volume.toFixed(4)}`);
+      if (clip.fade?.fadeIn) {
+        filters.push(`afade=t=in:st=0:d=${clip.fade.fadeIn}`);
+      }
+      if (clip.fade?.fadeOut) {
+        const fadeStart = Math.max(0, clip.duration - clip.fade.fadeOut);
+        filters.push(`afade=t=out:st=${fadeStart}:d=${clip.fade.fadeOut}`);
+      }
+      const delayMs = Math.round(clip.startTime * 1000);
+      filters.push(`adelay=${delayMs}:all=1`);
+      const label = `a${index}`;
+      chains.push(`[${index + 1}:a]${filters.join(",")}[${label}]`);
+      labels.push(`[${label}]`);
+    });
+    chains.push(
+      `${labels.join("")}amix=inputs=${labels.length}:normalize=0:duration=longest,apad,atrim=0:${duration.toFixed(6)}[aout]`,
+    );
+    args.push("-filter_complex", chains.join(";"), "-map", "0:v", "-map", "[aout]");
+  } else {
+    args.push("-map", "0:v");
+  }
+
+  args.push("-c:v", videoCodec, "-pix_fmt", pixelFormat);
+
+  if (settings.codec === "prores") {
+    args.push("-profile:v", PRORES_PROFILES[settings.proresProfile ?? "hq"]);
+  } else {
+    args.push(
+      "-b:v", `${settings.bitrate}k`,
+      "-g", settings.keyframeInterval.toString(),
+    );
+    if (settings.bitrateMode === "cbr") {
+      args.push(
+        "-maxrate", `${settings.bitrate}k`,
+        "-bufsize", `${settings.bitrate * 2}k`,
+      );
+    }
+  }
+
+  if (settings.codec === "h264" || settings.codec === "h265") {
+    args.push("-preset", "medium");
+  }
+
+  if (audioInputs.length > 0) {
+    const audioCodec = settings.format === "webm" ? "libopus" : "aac";
+    args.push(
+      "-c:a", audioCodec,
+      "-b:a", `${settings.audioSettings.bitrate}k`,
+      "-ar", settings.audioSettings.sampleRate.toString(),
+      "-ac", settings.audioSettings.channels.toString(),
+    );
+  }
+
+  if (settings.format === "mp4" || settings.format === "mov") {
+    args.push("-movflags", "+faststart");
+  }
+
+  args.push("-t", duration.toFixed(6), outputPath);
+  return args;
+}
+
+/**
+ * Renders a serialized project to a video file without WebCodecs, WebGPU or
+ * a DOM. Frames are composited on a Canvas2D-compatible surface and piped as
+ * raw RGBA into ffmpeg, which also mixes the audio.
+ *
+ * Text, graphics and GPU effects are not composited here; the output covers
+ * video and image tracks with their transforms, keyframes and fades.
+ */
+export class HeadlessRenderer {
+  private host: HeadlessHost;
+  private serializer: ProjectSerializer;
+  /** Last decoded frame per clip; clips sharing media keep separate frames. */
+  private frameCache: Map<string, { key: string; canvas: HeadlessCanvas }> =
+    new Map();
+  /** Open decode stream per clip on screen, read in playback order. */
+  private decoders: Map<string, ClipDecoder> = new Map();
+  private mediaPaths: Map<string, string> = new Map();
+
+  constructor(host: HeadlessHost, serializer?: ProjectSerializer) {
+    this.host = host;
+    this.serializer =
+      serializer ?? createProjectSerializer(createStorageEngine());
+  }
+
+  parseProject(json: string): {
+    project: Project | null;
+    validation: ValidationResult;
+  } {
+    return this.serializer.importFromJsonWithValidation(json);
+  }
+
+  async resolveMedia(project: Project, mediaDirectory: string): Promise<Project> {
+    this.mediaPaths.clear();
+
+    const items: MediaItem[] = [];
+    for (const item of project.mediaLibrary.items) {
+      const path = joinMediaPath(mediaDirectory, item.name);
+      const exists = await this.host.fileExists(path);
+      if (exists) {
+        this.mediaPaths.set(item.id, path);
+      }
+      items.push({ ...item, isPlaceholder: !exists });
+    }
+
+    return { ...project, mediaLibrary: { items } };
+  }
+
+  async *renderJson(
+    json: string,
+    options: HeadlessRenderOptions,
+  ): AsyncGenerator<ExportProgress, ExportResult> {
+    const { project, validation } = this.parseProject(json);
+    if (!project) {
+      return {
+        success: false,
+        error: this.createError(
+          "INVALID_SETTINGS",
+          `Invalid project file: ${validation.errors.join("; ")}`,
+          "preparing",
+        ),
+      };
+    }
+    return yield* this.render(project, options);
+  }
+
+  async *render(
+    project: Project,
+    options: HeadlessRenderOptions,
+  ): AsyncGenerator<ExportProgress, ExportResult> {
+    const settings: VideoExportSettings = {
+      ...DEFAULT_VIDEO_SETTINGS,
+      width: project.settings.width,
+      height: project.settings.height,
+      frameRate: project.settings.frameRate,
+      ...options.settings,
+      audioSettings: {
+        ...DEFAULT_VIDEO_SETTINGS.audioSettings,
+        ...options.settings?.audioSettings,
+      },
+    };
+    if (settings.format === "webm" && !["vp8", "vp9", "av1"].includes(settings.codec)) {
+      settings.codec = "vp9";
+    }
+
+    const startedAt = Date.now();
+    const resolved = await this.resolveMedia(project, options.mediaDirectory);
+    const missing = resolved.mediaLibrary.items.filter((item) => item.isPlaceholder);
+    const referenced = new Set(
+      resolved.timeline.tracks.flatMap((track) => track.clips.map((c) => c.mediaId)),
+    );
+    const missingReferenced = missing.filter((item) => referenced.has(item.id));
+    if (missingReferenced.length > 0) {
+      return {
+        success: false,
+        error: this.createError(
+          "INVALID_SETTINGS",
+          `Missing media in ${options.mediaDirectory}: ${missingReferenced
+            .map((item) => item.name)
+            .join(", ")}`,
+          "preparing",
+        ),
+      };
+    }
+
+    const duration = this.calculateTimelineDuration(resolved);
+    if (duration <= 0) {
+      return {
+        success: false,
+        error: this.createError(
+          "MUXER_ERROR",
+          "Timeline is empty. Add clips before exporting.",
+          "preparing",
+        ),
+      };
+    }
+
+    const totalFrames = Math.ceil(duration * settings.frameRate);
+    const canvas = this.host.createCanvas(settings.width, settings.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      return {
+        success: false,
+        error: this.createError(
+          "ENCODER_INIT_FAILED",
+          "Canvas 2D context is not available",
+          "preparing",
+        ),
+      };
+    }
+
+    yield this.createProgress("preparing", 0, totalFrames, 0, startedAt);
+
+    const audioInputs = this.collectAudioInputs(resolved);
+    const args = buildEncodeArgs(settings, duration, audioInputs, options.outputPath);
+
+    let framesRendered = 0;
+    const progressQueue: ExportProgress[] = [];
+    const frames = this.renderRawFrames(
+      resolved,
+      ctx,
+      settings,
+      totalFrames,
+      options.signal,
+      (frame) => {
+        framesRendered = frame;
+        progressQueue.push(
+          this.createProgress(
+            "rendering",
+            frame / totalFrames,
+            totalFrames,
+            frame,
+            startedAt,
+          ),
+        );
+      },
+    );
+
+    try {
+      const outcome: {
+        settled: boolean;
+        result?: HeadlessFFmpegResult;
+        error?: unknown;
+      } = { settled: false };
+      const encoding = this.host.runFFmpeg(args, frames).then(
+        (result) => {
+          outcome.result = result;
+          outcome.settled = true;
+        },
+        (error: unknown) => {
+          outcome.error = error;
+          outcome.settled = true;
+        },
+      );
+
+      while (!outcome.settled || progressQueue.length > 0) {
+        if (!outcome.settled) {
+          await Promise.race([
+            encoding,
+            new Promise((resolve) => setTimeout(resolve, 50)),
+          ]);
+        }
+        while (progressQueue.length > 0) {
+          yield progressQueue.shift()!;
+        }
+      }
+
+      if (outcome.error) throw outcome.error;
+
+      const { exitCode, stderr } = outcome.result!;
+      if (exitCode !== 0) {
+        throw this.createError(
+          "FRAME_ENCODE_FAILED",
+          `ffmpeg exited with code ${exitCode}${stderr ? `: ${stderr.trim()}` : ""}`,
+          "encoding",
+        );
+      }
+
+      yield this.createProgress("complete", 1, totalFrames, framesRendered, startedAt);
+
+      return {
+        success: true,
+        stats: this.calculateStats(framesRendered, startedAt),
+      };
+    } catch (error) {
+      if (error && typeof error === "object" && "code" in error) {
+        return { success: false, error: error as ExportError };
+      }
+      return {
+        success: false,
+        error: this.createError(
+          "FRAME_ENCODE_FAILED",
+          error instanceof Error ? error.message : "Unknown error",
+          "rendering",
+        ),
+      };
+    } finally {
+      this.frameCache.clear();
+      this.closeDecoders(new Set());
+    }
+  }
+
+  private async *renderRawFrames(
+    project: Project,
+    ctx: HeadlessRenderingContext2D,
+    settings: VideoExportSettings,
+    totalFrames: number,
+    signal: AbortSignal | undefined,
+    onFrame: (framesRendered: number) => void,
+  ): AsyncGenerator<Uint8Array> {
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) {
+        throw this.createError("CANCELLED", "Export cancelled by user", "rendering");
+      }
+      await this.drawFrame(project, ctx, settings, frame / settings.frameRate);
+      const image = ctx.getImageData(0, 0, settings.width, settings.height);
+      onFrame(frame + 1);
+      yield new Uint8Array(
+        image.data.buffer,
+        image.data.byteOffset,
+        image.data.byteLength,
+      );
+    }
+  }
+
+  private async drawFrame(
+    project: Project,
+    ctx: HeadlessRenderingContext2D,
+    settings: VideoExportSettings,
+    time: number,
+  ): Promise<void> {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, settings.width, settings.height);
+
+    const scaleX = settings.width / project.settings.width;
+    const scaleY = settings.height / project.settings.height;
+
+    const renderableTracks = project.timeline.tracks
+      .filter(
+        (track) =>
+          (track.type === "video" || track.type === "image") && !track.hidden,
+      )
+      .reverse();
+
+    const visible = new Set<string>();
+    for (const track of renderableTracks) {
+      for (const clip of this.getClipsAtTime(track, time)) {
+        visible.add(clip.id);
+        const mediaItem = project.mediaLibrary.items.find(
+          (item) => item.id === clip.mediaId,
+        );
+        const path = this.mediaPaths.get(clip.mediaId);
+        if (!mediaItem || !path) continue;
+
+        const localTime = time - clip.startTime;
+        const frameSize = fitWithin(
+          mediaItem.metadata.width,
+          mediaItem.metadata.height,
+          settings.width,
+          settings.height,
+        );
+        const sourceTime =
+          mediaItem.type === "image" ? null : getClipSourceTime(clip, localTime);
+        // A reversed clip reads its source backwards, so it seeks per frame
+        const frame =
+          sourceTime === null || clip.reversed
+            ? await this.decodeFrame(
+                clip.id,
+                path,
+                sourceTime,
+                frameSize.width,
+                frameSize.height,
+                settings.frameRate,
+              )
+            : await this.readClipFrame(
+                clip,
+                path,
+                sourceTime,
+                frameSize.width,
+                frameSize.height,
+                settings.frameRate,
+              );
+        if (!frame) continue;
+
+        let transform = this.getAnimatedTransform(clip, localTime);
+        const correction =
+          clip.stabilization &&
+          sourceTime !== null &&
+          getStabilizationAtTime(clip.stabilization, sourceTime - clip.inPoint);
+        if (correction) {
+          transform = applyStabilization(
+            transform,
+            correction,
+            frameSize.width,
+            frameSize.height,
+          );
+        }
+        const opacity = transform.opacity * this.getFadeMultiplier(clip, localTime);
+        if (opacity <= 0) continue;
+
+        this.drawLayer(ctx, frame, transform, opacity, settings, scaleX, scaleY);
+      }
+    }
+    this.closeDecoders(visible);
+  }
+
+  private drawLayer(
+    ctx: HeadlessRenderingContext2D,
+    frame: HeadlessCanvas,
+    transform: Transform,
+    opacity: number,
+    settings: VideoExportSettings,
+    scaleX: number,
+    scaleY: number,
+  ): void {
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, opacity);
+
+    if (transform.cornerPin) {
+      const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+      drawImageCornerPin(
+        ctx,
+        frame,
+        {
+          x: crop.x * frame.width,
+          y: crop.y * frame.height,
+          width: crop.width * frame.width,
+          height: crop.height * frame.height,
+        },
+        scaleCornerPin(transform.cornerPin, scaleX, scaleY),
+      );
+      ctx.restore();
+      return;
+    }
+
+    ctx.translate(
+      settings.width / 2 + transform.position.x * scaleX,
+      settings.height / 2 + transform.position.y * scaleY,
+    );
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+    ctx.scale(transform.scale.x, transform.scale.y);
+
+    if (transform.crop) {
+      const sx = transform.crop.x * frame.width;
+      const sy = transform.crop.y * frame.height;
+      const sWidth = transform.crop.width * frame.width;
+      const sHeight = transform.crop.height * frame.height;
+      const drawSize = fitWithin(sWidth, sHeight, settings.width, settings.height);
+      ctx.drawImage(
+        frame,
+        sx,
+        sy,
+        sWidth,
+        sHeight,
+        -drawSize.width * transform.anchor.x,
+        -drawSize.height * transform.anchor.y,
+        drawSize.width,
+        drawSize.height,
+      );
+    } else {
+      ctx.drawImage(
+        frame,
+        -frame.width * transform.anchor.x,
+        -frame.height * transform.anchor.y,
+      );
+    }
+
+    ctx.restore();
+  }
+
+  private async decodeFrame(
+    clipId: string,
+    path: string,
+    sourceTime: number | null,
+    width: number,
+    height: number,
+    frameRate: number,
+  ): Promise<HeadlessCanvas | null> {
+    const key =
+      sourceTime === null
+        ? "still"
+        : Math.floor(sourceTime * frameRate).toString();
+    const cached = this.frameCache.get(clipId);
+    if (cached && cached.key === key) {
+      return cached.canvas;
+    }
+
+    const { exitCode, stdout } = await this.host.runFFmpeg(
+      buildFrameDecodeArgs(path, sourceTime, width, height),
+    );
+    const expectedBytes = width * height * 4;
+    if (exitCode !== 0 || stdout.byteLength < expectedBytes) {
+      return cached?.canvas ?? null;
+    }
+
+    const canvas =
+      cached && cached.canvas.width === width && cached.canvas.height === height
+        ? cached.canvas
+        : this.host.createCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    const imageData = ctx.createImageData(width, height);
+    imageData.data.set(stdout.subarray(0, expectedBytes));
+    ctx.putImageData(imageData, 0, 0);
+
+    this.frameCache.set(clipId, { key, canvas });
+    return canvas;
+  }
+
+  /**
+   * The clip's frame at `sourceTime` from its decode stream. Frames are
+   * read in order; the stream is reopened only if playback jumps back.
+   */
+  private async readClipFrame(
+    clip: Clip,
+    path: string,
+    sourceTime: number,
+    width: number,
+    height: number,
+    frameRate: number,
+  ): Promise<HeadlessCanvas | null> {
+    let decoder = this.decoders.get(clip.id);
+    const step = (clip.speed ?? 1) / frameRate;
+    let target = decoder
+      ? Math.round((sourceTime - decoder.startTime) / decoder.step)
+      : 0;
+    if (
+      decoder &&
+      (target < decoder.index - 1 ||
+        decoder.canvas.width !== width ||
+        decoder.canvas.height !== height)
+    ) {
+      decoder.reader.close();
+      decoder = undefined;
+      target = 0;
+    }
+
+    if (!decoder) {
+      const stream = this.host.streamFFmpeg(
+        buildStreamDecodeArgs(
+          path,
+          sourceTime,
+          Math.max(step, clip.outPoint - sourceTime),
+          step,
+          width,
+          height,
+        ),
+      );
+      decoder = {
+        reader: new RawFrameReader(stream, width * height * 4),
+        canvas: this.host.createCanvas(width, height),
+        startTime: sourceTime,
+        step,
+        index: 0,
+      };
+      this.decoders.set(clip.id, decoder);
+    }
+    if (target < decoder.index) {
+      return decoder.index > 0 ? decoder.canvas : null;
+    }
+
+    let pixels: Uint8Array | null = null;
+    while (decoder.index <= target) {
+      const next = await decoder.reader.read();
+      if (!next) break;
+      pixels = next;
+      decoder.index++;
+    }
+    if (!pixels) {
+      return decoder.index > 0 ? decoder.canvas : null;
+    }
+
+    const ctx = decoder.canvas.getContext("2d");
+    if (!ctx) return null;
+    const imageData = ctx.createImageData(width, height);
+    imageData.data.set(pixels);
+    ctx.putImageData(imageData, 0, 0);
+    return decoder.canvas;
+  }
+
+  /** Stops the decode streams of clips that are no longer on screen. */
+  private closeDecoders(visible: ReadonlySet<string>): void {
+    for (const [clipId, decoder] of this.decoders) {
+      if (visible.has(clipId)) continue;
+      decoder.reader.close();
+      this.decoders.delete(clipId);
+    }
+  }
+
+  private getClipsAtTime(track: Track, time: number): Clip[] {
+    return track.clips.filter(
+      (clip) => time >= clip.startTime && time < clip.startTime + clip.duration,
+    );
+  }
+
+  private getAnimatedTransform(clip: Clip, localTime: number): Transform {
+    const keyframes = clip.keyframes || [];
+    if (keyframes.length === 0) {
+      return clip.transform;
+    }
+
+    const values: Record<string, number> = {
+      opacity: clip.transform.opacity,
+      "position.x": clip.transform.position.x,
+      "position.y": clip.transform.position.y,
+      "scale.x": clip.transform.scale.x,
+      "scale.y": clip.transform.scale.y,
+      rotation: clip.transform.rotation,
+    };
+
+    for (const property of ANIMATED_TRANSFORM_PROPERTIES) {
+      const propertyKeyframes = keyframeEngine.getKeyframesForProperty(
+        keyframes,
+        property,
+      );
+      if (propertyKeyframes.length === 0) continue;
+      const result = keyframeEngine.getValueAtTime(propertyKeyframes, localTime);
+      if (typeof result.value === "number") {
+        values[property] = result.value;
+      }
+    }
+
+    return {
+      ...clip.transform,
+      position: { x: values["position.x"], y: values["position.y"] },
+      scale: { x: values["scale.x"], y: values["scale.y"] },
+      rotation: values.rotation,
+      opacity: values.opacity,
+      cornerPin: getAnimatedCornerPin(
+        clip.transform.cornerPin,
+        keyframes,
+        localTime,
+      ),
+    };
+  }
+
+  private getFadeMultiplier(clip: Clip, localTime: number): number {
+    if (!clip.fade) return 1;
+    let multiplier = 1;
+    if (clip.fade.fadeIn > 0 && localTime < clip.fade.fadeIn) {
+      multiplier = Math.min(multiplier, localTime / clip.fade.fadeIn);
+    }
+    const remaining = clip.duration - localTime;
+    if (clip.fade.fadeOut > 0 && remaining < clip.fade.fadeOut) {
+      multiplier = Math.min(multiplier, remaining / clip.fade.fadeOut);
+    }
+    return Math.max(0, multiplier);
+  }
+
+  private collectAudioInputs(project: Project): HeadlessAudioInput[] {
+    const audibleTracks = project.timeline.tracks.filter(
+      (track) =>
+        (track.type === "audio" || track.type === "video") && !track.muted,
+    );
+    const soloed = audibleTracks.filter((track) => track.solo);
+    const tracks = soloed.length > 0 ? soloed : audibleTracks;
+
+    const inputs: HeadlessAudioInput[] = [];
+    for (const track of tracks) {
+      for (const clip of track.clips) {
+        const mediaItem = project.mediaLibrary.items.find(
+          (item) => item.id === clip.mediaId,
+        );
+        const path = this.mediaPaths.get(clip.mediaId);
+        if (!mediaItem || !path || clip.volume <= 0) continue;
+        if (mediaItem.type === "image") continue;
+        if (mediaItem.type === "video" && mediaItem.metadata.channels <= 0) {
+          continue;
+        }
+        inputs.push({ path, clip });
+      }
+    }
+    return inputs;
+  }
+
+  private calculateTimelineDuration(project: Project): number {
+    let maxEndTime = 0;
+    for (const track of project.timeline.tracks) {
+      for (const clip of track.clips) {
+        maxEndTime = Math.max(maxEndTime, clip.startTime + clip.duration);
+      }
+    }
+    return maxEndTime;
+  }
+
+  private createProgress(
+    phase: ExportProgress["phase"],
+    progress: number,
+    totalFrames: number,
+    currentFrame: number,
+    startedAt: number,
+  ): ExportProgress {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const framesPerSecond = elapsed > 0 ? currentFrame / elapsed : 0;
+    return {
+      phase,
+      progress,
+      estimatedTimeRemaining:
+        framesPerSecond > 0 ? (totalFrames - currentFrame) / framesPerSecond : 0,
+      currentFrame,
+      totalFrames,
+      bytesWritten: 0,
+      currentBitrate: 0,
+    };
+  }
+
+  private createError(
+    code: ExportError["code"],
+    message: string,
+    phase: ExportProgress["phase"],
+  ): ExportError {
+    return {
+      code,
+      message,
+      phase,
+      recoverable: code === "CANCELLED",
+    };
+  }
+
+  private calculateStats(framesRendered: number, startedAt: number): ExportStats {
+    const duration = Date.now() - startedAt;
+    return {
+      duration,
+      framesRendered,
+      averageSpeed: duration > 0 ? (framesRendered / duration) * 1000 : 0,
+      fileSize: 0,
+      averageBitrate: 0,
+    };
+  }
+}
+
+export function createHeadlessRenderer(
+  host: HeadlessHost,
+  serializer?: ProjectSerializer,
+): HeadlessRenderer {
+  return new HeadlessRenderer(host, serializer);
+}
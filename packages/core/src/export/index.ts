@@ -1,2 +1,10 @@
 export * from "./types";
 export * from "./export-engine";
+export * from "./headless-renderer";
+export * from "./color-quantizer";
+export * from "./gif-encoder";
+export * from "./apng-encoder";
+export * from "./animated-image-encoder";
+export * from "./smart-render";
+export * from "./hdr-export";
+export * from "./hdr-metadata";
@@ -0,0 +1,372 @@
+import { describe, it, expect } from "vitest";
+import {
+  areDecoderConfigsCompatible,
+  findPassThroughRanges,
+  isClipUntouched,
+  planSmartRender,
+  type SmartRenderSource,
+} from "./smart-render";
+import type { Clip, MediaItem, Project, Track } from "../types";
+import {
+  DEFAULT_COLOR_MANAGEMENT,
+  type ColorManagementSettings,
+} from "../video/color-management";
+
+const createClip = (overrides: Partial<Clip> = {}): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 4,
+  inPoint: 0,
+  outPoint: 4,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createTrack = (overrides: Partial<Track> = {}): Track => ({
+  id: "track-1",
+  type: "video",
+  name: "Video 1",
+  clips: [createClip()],
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  ...overrides,
+});
+
+const createMedia = (id: string): MediaItem => ({
+  id,
+  name: `${id}.mp4`,
+  type: "video",
+  fileHandle: null,
+  blob: null,
+  metadata: {
+    duration: 10,
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    codec: "avc1",
+    sampleRate: 48000,
+    channels: 2,
+    fileSize: 0,
+  },
+  thumbnailUrl: null,
+  waveformData: null,
+});
+
+const createProject = (
+  tracks: Track[],
+  overrides: Partial<Project["timeline"]> = {},
+): Project => ({
+  id: "project-1",
+  name: "Interview",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [createMedia("media-1"), createMedia("media-2")] },
+  timeline: {
+    tracks,
+    subtitles: [],
+    duration: 8,
+    markers: [],
+    ...overrides,
+  },
+});
+
+const everySecond = (duration: number): SmartRenderSource => ({
+  keyframes: Array.from({ length: duration }, (_, i) => i),
+  duration,
+  frameRate: 30,
+});
+
+describe("isClipUntouched", () => {
+  it("should accept a clip drawn as decoded", () => {
+    expect(isClipUntouched(createClip())).toBe(true);
+    expect(
+      isClipUntouched(
+        createClip({
+          effects: [{ id: "e", type: "blur", params: {}, enabled: false }],
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("should reject effects, transforms and retiming", () => {
+    const base = createClip();
+    expect(
+      isClipUntouched(
+        createClip({
+          effects: [{ id: "e", type: "blur", params: {}, enabled: true }],
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      isClipUntouched(
+        createClip({ transform: { ...base.transform, opacity: 0.5 } }),
+      ),
+    ).toBe(false);
+    expect(isClipUntouched(createClip({ speed: 2 }))).toBe(false);
+    expect(isClipUntouched(createClip({ reversed: true }))).toBe(false);
+    expect(isClipUntouched(createClip({ blendMode: "screen" }))).toBe(false);
+    expect(
+      isClipUntouched(
+        createClip({
+          speedData: {
+            clipId: "clip-1",
+            baseSpeed: 1,
+            reverse: false,
+            keyframes: [],
+            pitchCorrection: true,
+            freezeFrames: [
+              {
+                id: "f",
+                clipId: "clip-1",
+                sourceTime: 1,
+                startTime: 1,
+                duration: 1,
+              },
+            ],
+            originalDuration: 4,
+          },
+        }),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("findPassThroughRanges", () => {
+  it("should cut out subtitles, overlays and other layers", () => {
+    const project = createProject(
+      [
+        createTrack({
+          clips: [createClip({ duration: 8, outPoint: 8 })],
+        }),
+        createTrack({
+          id: "track-2",
+          clips: [
+            createClip({
+              id: "clip-2",
+              mediaId: "media-2",
+              trackId: "track-2",
+              startTime: 6,
+              duration: 1,
+            }),
+          ],
+        }),
+      ],
+      {
+        subtitles: [{ id: "s", text: "Hi", startTime: 1, endTime: 2 }],
+      },
+    );
+
+    const ranges = findPassThroughRanges(project, {
+      overlays: [{ start: 4, end: 5 }],
+    });
+    expect(ranges.map(({ start, end }) => [start, end])).toEqual([
+      [0, 1],
+      [2, 4],
+      [5, 6],
+      [7, 8],
+    ]);
+    expect(ranges.every((range) => range.clip.id === "clip-1")).toBe(true);
+  });
+
+  it("should skip hidden layers, retimed clips and transitions", () => {
+    const first = createClip({ duration: 4 });
+    const second = createClip({ id: "clip-2", startTime: 4, inPoint: 4 });
+    const project = createProject([
+      createTrack({
+        clips: [first, second],
+        transitions: [
+          {
+            id: "t",
+            clipAId: "clip-1",
+            clipBId: "clip-2",
+            type: "crossfade",
+            duration: 0.5,
+            params: {},
+          },
+        ],
+      }),
+      createTrack({
+        id: "track-2",
+        hidden: true,
+        clips: [createClip({ id: "clip-3", trackId: "track-2" })],
+      }),
+    ]);
+
+    const ranges = findPassThroughRanges(project, {
+      retimedClipIds: new Set(["clip-2"]),
+    });
+    expect(ranges.map(({ start, end }) => [start, end])).toEqual([[0, 3.5]]);
+  });
+
+  it("should only copy sources the color pipeline leaves unchanged", () => {
+    const project = createProject([
+      createTrack({
+        clips: [
+          createClip({ duration: 4 }),
+          createClip({
+            id: "clip-2",
+            mediaId: "media-2",
+            startTime: 4,
+            duration: 4,
+          }),
+        ],
+      }),
+    ]);
+    const withColor = (colorManagement: ColorManagementSettings): Project => ({
+      ...project,
+      settings: { ...project.settings, colorManagement },
+      mediaLibrary: {
+        items: [
+          createMedia("media-1"),
+          { ...createMedia("media-2"), colorSpace: "slog3" },
+        ],
+      },
+    });
+
+    const managed = findPassThroughRanges(
+      withColor({ ...DEFAULT_COLOR_MANAGEMENT, enabled: true }),
+    );
+    expect(managed.map((range) => range.clip.id)).toEqual(["clip-1"]);
+
+    const srgbOut = findPassThroughRanges(
+      withColor({
+        ...DEFAULT_COLOR_MANAGEMENT,
+        enabled: true,
+        outputSpace: "srgb",
+      }),
+    );
+    expect(srgbOut).toEqual([]);
+
+    const off = findPassThroughRanges(withColor(DEFAULT_COLOR_MANAGEMENT));
+    expect(off.map((range) => range.clip.id)).toEqual(["clip-1", "clip-2"]);
+  });
+});
+
+describe("planSmartRender", () => {
+  it("should copy whole GOPs and render the edges", () => {
+    const clip = createClip({ inPoint: 0.5, outPoint: 4.5 });
+    const plan = planSmartRender(
+      [{ start: 0, end: 4, clip }],
+      new Map([["media-1", everySecond(10)]]),
+      4,
+      30,
+    );
+
+    expect(
+      plan.segments.map((segment) => [
+        segment.type,
+        segment.startFrame,
+        segment.endFrame,
+      ]),
+    ).toEqual([
+      ["render", 0, 15],
+      ["copy", 15, 105],
+      ["render", 105, 120],
+    ]);
+    const copy = plan.segments[1];
+    expect(copy.type === "copy" && [copy.sourceStart, copy.sourceEnd]).toEqual(
+      [1, 4],
+    );
+    expect(plan.totalFrames).toBe(120);
+    expect(plan.copiedFrames).toBe(90);
+  });
+
+  it("should copy through the end of the source file", () => {
+    const clip = createClip({
+      startTime: 2,
+      duration: 3,
+      inPoint: 7,
+      outPoint: 10,
+    });
+    const plan = planSmartRender(
+      [{ start: 2, end: 5, clip }],
+      new Map([["media-1", everySecond(10)]]),
+      5,
+      30,
+    );
+
+    expect(plan.segments.map((segment) => segment.type)).toEqual([
+      "render",
+      "copy",
+    ]);
+    const copy = plan.segments[1];
+    expect(copy.type === "copy" && [copy.sourceStart, copy.sourceEnd]).toEqual(
+      [7, 10],
+    );
+  });
+
+  it("should render everything when frame rates differ", () => {
+    const clip = createClip();
+    const plan = planSmartRender(
+      [{ start: 0, end: 4, clip }],
+      new Map([["media-1", { ...everySecond(10), frameRate: 25 }]]),
+      4,
+      30,
+    );
+    expect(plan.copiedFrames).toBe(0);
+    expect(plan.segments).toEqual([
+      { type: "render", start: 0, end: 4, startFrame: 0, endFrame: 120 },
+    ]);
+  });
+});
+
+describe("areDecoderConfigsCompatible", () => {
+  it("should require identical out-of-band parameter sets", () => {
+    const avcC = new Uint8Array([1, 100, 0, 31, 255]);
+    expect(
+      areDecoderConfigsCompatible(
+        { codec: "avc1.64001f", description: avcC },
+        { codec: "avc1.64001f", description: avcC.slice().buffer },
+      ),
+    ).toBe(true);
+    expect(
+      areDecoderConfigsCompatible(
+        { codec: "avc1.64001f", description: avcC },
+        { codec: "avc1.64001f", description: new Uint8Array([1, 100]) },
+      ),
+    ).toBe(false);
+    expect(
+      areDecoderConfigsCompatible(
+        { codec: "avc1.64001f", description: avcC },
+        { codec: "avc1.64001f" },
+      ),
+    ).toBe(false);
+  });
+
+  it("should ignore level differences for in-band codecs", () => {
+    expect(
+      areDecoderConfigsCompatible(
+        { codec: "vp09.00.41.08" },
+        { codec: "vp09.00.10.08" },
+      ),
+    ).toBe(true);
+    expect(
+      areDecoderConfigsCompatible(
+        { codec: "vp09.02.10.10" },
+        { codec: "vp09.00.10.08" },
+      ),
+    ).toBe(false);
+  });
+});
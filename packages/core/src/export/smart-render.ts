@@ -0,0 +1,374 @@
+import type { Project } from "../types/project";
+import type { Clip, Transform } from "../types/timeline";
+import type { ClipSpeedData } from "../video/speed-engine";
+import {
+  getMediaColorSpace,
+  isColorPipelineIdentity,
+} from "../video/color-management";
+
+/**
+ * Smart-render planning: works out which parts of the timeline show a
+ * single untouched video clip and can therefore be copied from the source
+ * file as compressed packets, and which parts have to be rendered and
+ * re-encoded. Copies always start and end on source key frames so every
+ * copied GOP decodes on its own; this assumes closed GOPs, which is what
+ * browser encoders and most cameras produce.
+ */
+
+export interface TimeRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/** A stretch of the timeline where only `clip` is visible, unmodified. */
+export interface PassThroughRange extends TimeRange {
+  readonly clip: Clip;
+}
+
+export interface SmartRenderSource {
+  /** Presentation times of key packets in source seconds, ascending. */
+  readonly keyframes: readonly number[];
+  readonly duration: number;
+  readonly frameRate: number;
+}
+
+export interface SmartRenderCopySegment extends TimeRange {
+  readonly type: "copy";
+  readonly startFrame: number;
+  readonly endFrame: number;
+  readonly clip: Clip;
+  readonly sourceStart: number;
+  /** Source time of the key frame that ends the copy (not included). */
+  readonly sourceEnd: number;
+}
+
+export interface SmartRenderRenderSegment extends TimeRange {
+  readonly type: "render";
+  readonly startFrame: number;
+  readonly endFrame: number;
+}
+
+export type SmartRenderSegment =
+  | SmartRenderCopySegment
+  | SmartRenderRenderSegment;
+
+export interface SmartRenderPlan {
+  /** Ordered, contiguous segments covering the whole export. */
+  readonly segments: SmartRenderSegment[];
+  readonly totalFrames: number;
+  readonly copiedFrames: number;
+}
+
+export interface PassThroughOptions {
+  /**
+   * Time ranges drawn on top of the video tracks by other engines (titles,
+   * graphics, particles). Nothing inside them is passed through.
+   */
+  readonly overlays?: readonly TimeRange[];
+  /** Clips retimed outside the project model, e.g. by the speed engine. */
+  readonly retimedClipIds?: ReadonlySet<string>;
+}
+
+const EPSILON = 1e-6;
+/** How far a key frame may sit from the export frame grid, in frames. */
+const FRAME_GRID_TOLERANCE = 0.05;
+/** Source and export frame rates must agree to within this fraction. */
+const FRAME_RATE_TOLERANCE = 0.001;
+
+function isIdentityTransform(transform: Transform): boolean {
+  const { position, scale, rotation, opacity, crop, rotate3d } = transform;
+  return (
+    position.x === 0 &&
+    position.y === 0 &&
+    scale.x === 1 &&
+    scale.y === 1 &&
+    rotation === 0 &&
+    opacity === 1 &&
+    !transform.borderRadius &&
+    !crop &&
+    !transform.cornerPin &&
+    (!rotate3d || (rotate3d.x === 0 && rotate3d.y === 0 && rotate3d.z === 0))
+  );
+}
+
+/** Whether speed-engine data changes playback from plain 1x forward. */
+export function isSpeedDataRetimed(data: ClipSpeedData | undefined): boolean {
+  return (
+    !!data &&
+    (data.baseSpeed !== 1 ||
+      data.reverse ||
+      data.keyframes.length > 0 ||
+      data.freezeFrames.length > 0)
+  );
+}
+
+/**
+ * True when a clip is drawn exactly as decoded: no enabled effects,
+ * keyframes, masks, keying or stabilization, an identity transform, normal
+ * blending and normal speed.
+ */
+export function isClipUntouched(clip: Clip): boolean {
+  return (
+    !clip.effects.some((effect) => effect.enabled) &&
+    clip.keyframes.length === 0 &&
+    isIdentityTransform(clip.transform) &&
+    (!clip.blendMode || clip.blendMode === "normal") &&
+    (clip.speed ?? 1) === 1 &&
+    !clip.reversed &&
+    (!clip.emphasisAnimation || clip.emphasisAnimation.type === "none") &&
+    !clip.masks?.length &&
+    !clip.chromaKey?.enabled &&
+    !clip.stabilization?.enabled &&
+    !isSpeedDataRetimed(clip.speedData)
+  );
+}
+
+function subtractRanges(
+  range: TimeRange,
+  holes: readonly TimeRange[],
+): TimeRange[] {
+  let pieces: TimeRange[] = [range];
+  for (const hole of holes) {
+    if (hole.end <= range.start || hole.start >= range.end) continue;
+    pieces = pieces.flatMap((piece) => {
+      if (hole.end <= piece.start || hole.start >= piece.end) return [piece];
+      const remaining: TimeRange[] = [];
+      if (hole.start > piece.start) {
+        remaining.push({ start: piece.start, end: hole.start });
+      }
+      if (hole.end < piece.end) {
+        remaining.push({ start: hole.end, end: piece.end });
+      }
+      return remaining;
+    });
+  }
+  return pieces.filter((piece) => piece.end - piece.start > EPSILON);
+}
+
+/**
+ * Finds the parts of the timeline where exactly one untouched video clip
+ * is on screen with nothing else drawn over or under it. With color
+ * management on, only sources already in the output space qualify, since
+ * rendered frames go through the color pipeline and copied ones would not.
+ */
+export function findPassThroughRanges(
+  project: Project,
+  options: PassThroughOptions = {},
+): PassThroughRange[] {
+  const { timeline, mediaLibrary } = project;
+  const colorManagement = project.settings.colorManagement;
+  const visualTracks = timeline.tracks.filter(
+    (track) => track.type !== "audio" && !track.hidden,
+  );
+  const clipsById = new Map(
+    visualTracks.flatMap((track) => track.clips).map((clip) => [clip.id, clip]),
+  );
+
+  const occupied: { clipId?: string; range: TimeRange }[] = [];
+  for (const track of visualTracks) {
+    for (const clip of track.clips) {
+      occupied.push({
+        clipId: clip.id,
+        range: { start: clip.startTime, end: clip.startTime + clip.duration },
+      });
+    }
+    // Transitions blend across the cut, so keep clear of both sides
+    for (const transition of track.transitions) {
+      const clipA = clipsById.get(transition.clipAId);
+      if (!clipA) continue;
+      const cut = clipA.startTime + clipA.duration;
+      occupied.push({
+        range: {
+          start: cut - transition.duration,
+          end: cut + transition.duration,
+        },
+      });
+    }
+  }
+  for (const subtitle of timeline.subtitles) {
+    occupied.push({
+      range: { start: subtitle.startTime, end: subtitle.endTime },
+    });
+  }
+  for (const overlay of options.overlays ?? []) {
+    occupied.push({ range: overlay });
+  }
+
+  const ranges: PassThroughRange[] = [];
+  for (const track of visualTracks) {
+    if (track.type !== "video") continue;
+    for (const clip of track.clips) {
+      const media = mediaLibrary.items.find((item) => item.id === clip.mediaId);
+      if (
+        media?.type !== "video" ||
+        !isClipUntouched(clip) ||
+        options.retimedClipIds?.has(clip.id) ||
+        (colorManagement &&
+          !isColorPipelineIdentity(
+            getMediaColorSpace(media, colorManagement),
+            colorManagement,
+          ))
+      ) {
+        continue;
+      }
+
+      const holes = occupied
+        .filter((entry) => entry.clipId !== clip.id)
+        .map((entry) => entry.range);
+      const own = {
+        start: clip.startTime,
+        end: clip.startTime + clip.duration,
+      };
+      for (const piece of subtractRanges(own, holes)) {
+        ranges.push({ ...piece, clip });
+      }
+    }
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+function toFrame(time: number, frameRate: number): number | null {
+  const exact = time * frameRate;
+  const frame = Math.round(exact);
+  return Math.abs(exact - frame) <= FRAME_GRID_TOLERANCE ? frame : null;
+}
+
+/**
+ * Turns pass-through ranges into copy segments that start and end on
+ * source key frames, and fills everything else with render segments.
+ */
+export function planSmartRender(
+  ranges: readonly PassThroughRange[],
+  sources: ReadonlyMap<string, SmartRenderSource>,
+  duration: number,
+  frameRate: number,
+): SmartRenderPlan {
+  const totalFrames = Math.ceil(duration * frameRate - EPSILON);
+  const copies: SmartRenderCopySegment[] = [];
+
+  for (const range of ranges) {
+    const { clip } = range;
+    const source = sources.get(clip.mediaId);
+    if (
+      !source ||
+      Math.abs(source.frameRate - frameRate) > frameRate * FRAME_RATE_TOLERANCE
+    ) {
+      continue;
+    }
+
+    const offset = clip.startTime - clip.inPoint;
+    const boundaries: { frame: number; sourceTime: number }[] = [];
+    for (const keyframe of source.keyframes) {
+      const time = keyframe + offset;
+      if (time < range.start - EPSILON || time > range.end + EPSILON) {
+        continue;
+      }
+      const frame = toFrame(time, frameRate);
+      if (frame !== null) boundaries.push({ frame, sourceTime: keyframe });
+    }
+
+    // A clip that plays to the end of its file can copy its final GOP too
+    const clipEnd = clip.startTime + clip.duration;
+    if (
+      Math.abs(range.end - clipEnd) <= EPSILON &&
+      clip.outPoint >= source.duration - EPSILON
+    ) {
+      const frame = toFrame(range.end, frameRate);
+      if (frame !== null) {
+        boundaries.push({ frame, sourceTime: source.duration });
+      }
+    }
+
+    if (boundaries.length < 2) continue;
+    const first = boundaries[0];
+    const last = boundaries[boundaries.length - 1];
+    if (last.frame <= first.frame) continue;
+    copies.push({
+      type: "copy",
+      start: first.frame / frameRate,
+      end: last.frame / frameRate,
+      startFrame: first.frame,
+      endFrame: Math.min(last.frame, totalFrames),
+      clip,
+      sourceStart: first.sourceTime,
+      sourceEnd: last.sourceTime,
+    });
+  }
+
+  copies.sort((a, b) => a.startFrame - b.startFrame);
+  const segments: SmartRenderSegment[] = [];
+  let frame = 0;
+  let copiedFrames = 0;
+  for (const copy of copies) {
+    if (copy.startFrame < frame) continue;
+    if (copy.startFrame > frame) {
+      segments.push({
+        type: "render",
+        start: frame / frameRate,
+        end: copy.start,
+        startFrame: frame,
+        endFrame: copy.startFrame,
+      });
+    }
+    segments.push(copy);
+    copiedFrames += copy.endFrame - copy.startFrame;
+    frame = copy.endFrame;
+  }
+  if (frame < totalFrames) {
+    segments.push({
+      type: "render",
+      start: frame / frameRate,
+      end: duration,
+      startFrame: frame,
+      endFrame: totalFrames,
+    });
+  }
+
+  return { segments, totalFrames, copiedFrames };
+}
+
+export interface CodecConfigLike {
+  readonly codec: string;
+  readonly description?: AllowSharedBufferSource;
+}
+
+function descriptionBytes(
+  description: AllowSharedBufferSource | undefined,
+): Uint8Array | null {
+  if (!description) return null;
+  return ArrayBuffer.isView(description)
+    ? new Uint8Array(
+        description.buffer,
+        description.byteOffset,
+        description.byteLength,
+      )
+    : new Uint8Array(description);
+}
+
+/** Codec string fields that decoders care about; levels may differ. */
+function codecIdentity(codec: string): string {
+  const parts = codec.split(".");
+  if (parts[0] === "vp09") return [parts[0], parts[1], parts[3]].join(".");
+  if (parts[0] === "av01") return [parts[0], parts[1], parts[3]].join(".");
+  return codec;
+}
+
+/**
+ * Whether packets produced under one decoder config can be spliced into a
+ * track declared with the other. Out-of-band parameter sets (avcC, hvcC)
+ * must be byte-identical; in-band codecs only need the same profile and
+ * bit depth.
+ */
+export function areDecoderConfigsCompatible(
+  a: CodecConfigLike,
+  b: CodecConfigLike,
+): boolean {
+  if (codecIdentity(a.codec) !== codecIdentity(b.codec)) return false;
+  const left = descriptionBytes(a.description);
+  const right = descriptionBytes(b.description);
+  if (!left || !right) return !left && !right;
+  return (
+    left.length === right.length &&
+    left.every((byte, index) => byte === right[index])
+  );
+}
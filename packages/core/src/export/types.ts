@@ -27,6 +27,52 @@ export interface VideoExportSettings {
   colorDepth?: 8 | 10 | 12;
   pixelFormat?: "yuv420" | "yuv422" | "yuv444" | "rgb";
   upscaling?: UpscalingSettings;
+  /**
+   * Copy unmodified, GOP-aligned stretches of source video as compressed
+   * packets when the source matches these settings. On unless false.
+   */
+  smartRender?: boolean;
+  /**
+   * Encode 10-bit BT.2020 HDR. Also turned on by a project whose color
+   * management outputs Rec.2020 PQ or HLG.
+   */
+  hdr?: HdrExportSettings;
+}
+
+export type HdrTransfer = "pq" | "hlg";
+
+/** CIE 1931 xy chromaticity. */
+export interface Chromaticity {
+  x: number;
+  y: number;
+}
+
+/** SMPTE ST 2086 description of the display the video was graded on. */
+export interface MasteringDisplayMetadata {
+  red: Chromaticity;
+  green: Chromaticity;
+  blue: Chromaticity;
+  whitePoint: Chromaticity;
+  /** Nits. */
+  maxLuminance: number;
+  /** Nits. */
+  minLuminance: number;
+}
+
+/** CTA-861.3 content light levels, in nits. */
+export interface ContentLightLevel {
+  /** Brightest pixel in the video. */
+  maxCLL: number;
+  /** Highest frame-average light level. */
+  maxFALL: number;
+}
+
+export interface HdrExportSettings {
+  transfer: HdrTransfer;
+  /** PQ only; defaults to a 1000-nit P3 display. */
+  masteringDisplay?: MasteringDisplayMetadata;
+  /** PQ only; measured from the rendered frames when not given. */
+  contentLightLevel?: ContentLightLevel;
 }
 
 export interface AudioExportSettings {
@@ -35,8 +81,23 @@ export interface AudioExportSettings {
   bitDepth: 16 | 24 | 32;
   bitrate: number;
   channels: 1 | 2;
+  /**
+   * Normalize the mix to a target integrated loudness (BS.1770) before
+   * encoding: the rendered audio is measured, then gained and true-peak
+   * limited in a second pass.
+   */
+  loudness?: LoudnessNormalizationSettings;
 }
 
+export interface LoudnessNormalizationSettings {
+  /** Integrated loudness, in LUFS. */
+  targetLufs: number;
+  /** Ceiling for the true peak, in dBTP. */
+  truePeakLimit: number;
+}
+
+export type LoudnessTarget = "streaming" | "podcast" | "broadcast";
+
 export interface ImageExportSettings {
   format: "jpg" | "png" | "webp";
   quality: number;
@@ -44,6 +105,30 @@ export interface ImageExportSettings {
   height: number;
 }
 
+export type AnimatedImageDithering = "none" | "ordered" | "floyd-steinberg";
+
+export interface AnimatedImageExportSettings {
+  format: "gif" | "apng";
+  width: number;
+  height: number;
+  frameRate: number;
+  /** Section of the timeline to export, in seconds. */
+  startTime: number;
+  endTime?: number;
+  /**
+   * One palette shared by every frame, or one per frame. APNG has a single
+   * palette, so per-frame palettes are written as full-colour frames.
+   */
+  palette: "global" | "per-frame";
+  /** Palette size, 2-256. */
+  maxColors: number;
+  dithering: AnimatedImageDithering;
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number;
+  /** Bytes. Frames are dropped evenly until the file fits. */
+  targetFileSize?: number;
+}
+
 export interface SequenceExportSettings extends ImageExportSettings {
   startFrame: number;
   endFrame: number;
@@ -127,6 +212,16 @@ export const DEFAULT_VIDEO_SETTINGS: VideoExportSettings = {
   },
 };
 
+/** A P3 D65 grading monitor peaking at 1000 nits, the usual HDR10 setup. */
+export const DEFAULT_MASTERING_DISPLAY: MasteringDisplayMetadata = {
+  red: { x: 0.68, y: 0.32 },
+  green: { x: 0.265, y: 0.69 },
+  blue: { x: 0.15, y: 0.06 },
+  whitePoint: { x: 0.3127, y: 0.329 },
+  maxLuminance: 1000,
+  minLuminance: 0.0001,
+};
+
 export const DEFAULT_AUDIO_SETTINGS: AudioExportSettings = {
   format: "mp3",
   sampleRate: 48000,
@@ -135,6 +230,16 @@ export const DEFAULT_AUDIO_SETTINGS: AudioExportSettings = {
   channels: 2,
 };
 
+export const LOUDNESS_TARGETS: Record<
+  LoudnessTarget,
+  LoudnessNormalizationSettings
+> = {
+  streaming: { targetLufs: -14, truePeakLimit: -1 },
+  podcast: { targetLufs: -16, truePeakLimit: -1 },
+  // EBU R128
+  broadcast: { targetLufs: -23, truePeakLimit: -1 },
+};
+
 export const DEFAULT_IMAGE_SETTINGS: ImageExportSettings = {
   format: "jpg",
   quality: 90,
@@ -142,6 +247,18 @@ export const DEFAULT_IMAGE_SETTINGS: ImageExportSettings = {
   height: 1080,
 };
 
+export const DEFAULT_ANIMATED_IMAGE_SETTINGS: AnimatedImageExportSettings = {
+  format: "gif",
+  width: 480,
+  height: 270,
+  frameRate: 15,
+  startTime: 0,
+  palette: "global",
+  maxColors: 256,
+  dithering: "floyd-steinberg",
+  loopCount: 0,
+};
+
 export const VIDEO_QUALITY_PRESETS = {
   "4k-high": {
     width: 3840,
@@ -14,6 +14,8 @@ export * from "./template";
 export * from "./ai";
 export * from "./animation";
 export * from "./effects";
+export * from "./interchange";
+export * from "./collaboration";
 export * from "./device";
 export {
   ExportEngine,
@@ -22,11 +24,32 @@ export {
   downloadBlob,
 } from "./export/export-engine";
 
+export { getWavEncoder } from "./wasm/wav";
+
+export {
+  HeadlessRenderer,
+  createHeadlessRenderer,
+  buildEncodeArgs,
+  buildFrameDecodeArgs,
+  buildStreamDecodeArgs,
+} from "./export/headless-renderer";
+
+export type {
+  HeadlessHost,
+  HeadlessCanvas,
+  HeadlessRenderingContext2D,
+  HeadlessImageData,
+  HeadlessFFmpegResult,
+  HeadlessRenderOptions,
+} from "./export/headless-renderer";
+
 export type {
   VideoExportSettings,
   AudioExportSettings,
   ImageExportSettings,
   SequenceExportSettings,
+  AnimatedImageExportSettings,
+  AnimatedImageDithering,
   ExportProgress as VideoExportProgressInfo,
   ExportPreset,
   ExportResult,
@@ -35,13 +58,23 @@ export type {
   ExportErrorCode,
   UpscalingSettings,
   UpscaleQuality,
+  HdrTransfer,
+  HdrExportSettings,
+  Chromaticity,
+  MasteringDisplayMetadata,
+  ContentLightLevel,
+  LoudnessNormalizationSettings,
+  LoudnessTarget,
 } from "./export/types";
 
 export {
   DEFAULT_VIDEO_SETTINGS,
   DEFAULT_AUDIO_SETTINGS,
   DEFAULT_IMAGE_SETTINGS,
+  DEFAULT_ANIMATED_IMAGE_SETTINGS,
   VIDEO_QUALITY_PRESETS,
   CODEC_MAP,
   DEFAULT_UPSCALING_SETTINGS,
+  DEFAULT_MASTERING_DISPLAY,
+  LOUDNESS_TARGETS,
 } from "./export/types";
@@ -0,0 +1,536 @@
+import type { Project, MediaItem } from "../types/project";
+import type { Clip, Track, Transition } from "../types/timeline";
+import type { TransitionType } from "../types/effects";
+import { createClip } from "../timeline/clip-manager";
+import { createTrack } from "../timeline/track-manager";
+import {
+  getTimecodeRate,
+  secondsToFrames,
+  framesToSeconds,
+  framesToTimecode,
+  timecodeToFrames,
+  type TimecodeRate,
+} from "./timecode";
+import {
+  InterchangeMediaResolver,
+  applyImportedTracks,
+} from "./media-resolver";
+import type {
+  EDLExportOptions,
+  EDLImportOptions,
+  InterchangeImportResult,
+} from "./types";
+
+const AUDIO_CHANNELS = ["A", "A2", "A3", "A4"];
+const DEFAULT_REEL = "AX";
+const ONE_HOUR = 3600;
+
+interface EDLLine {
+  readonly reel: string;
+  readonly channel: string;
+  readonly transition: string;
+  readonly transitionFrames: number;
+  readonly sourceIn: number;
+  readonly sourceOut: number;
+  readonly recordIn: number;
+  readonly recordOut: number;
+}
+
+interface EDLEvent {
+  readonly number: number;
+  readonly lines: EDLLine[];
+  clipName?: string;
+  speed?: number;
+}
+
+function getEDLTransitionCode(type: TransitionType): string {
+  switch (type) {
+    case "wipe":
+    case "slide":
+    case "push":
+      return "W001";
+    default:
+      return "D";
+  }
+}
+
+function formatEventLine(
+  eventNumber: number,
+  channel: string,
+  transition: string,
+  transitionFrames: number | null,
+  sourceIn: number,
+  sourceOut: number,
+  recordIn: number,
+  recordOut: number,
+  rate: TimecodeRate,
+): string {
+  const duration =
+    transitionFrames === null
+      ? "   "
+      : transitionFrames.toString().padStart(3, "0");
+  return [
+    `${eventNumber.toString().padStart(3, "0")} `,
+    DEFAULT_REEL.padEnd(8),
+    channel.padEnd(5),
+    transition.padEnd(4),
+    duration,
+    framesToTimecode(sourceIn, rate),
+    framesToTimecode(sourceOut, rate),
+    framesToTimecode(recordIn, rate),
+    framesToTimecode(recordOut, rate),
+  ].join(" ");
+}
+
+function formatSpeedLine(
+  clip: Clip,
+  sourceIn: number,
+  frameRate: number,
+  rate: TimecodeRate,
+): string {
+  const speed = (clip.speed ?? 1) * (clip.reversed ? -1 : 1);
+  const fps = (speed * frameRate).toFixed(1).padStart(5, "0");
+  return `M2   ${DEFAULT_REEL.padEnd(8)} ${fps.padStart(6)}    ${framesToTimecode(sourceIn, rate)}`;
+}
+
+function exportTrackEvents(
+  project: Project,
+  track: Track,
+  channel: string,
+  rate: TimecodeRate,
+  recordOffset: number,
+  firstEventNumber: number,
+): string[] {
+  const mediaById = new Map(
+    project.mediaLibrary.items.map((item) => [item.id, item]),
+  );
+  const clips = [...track.clips].sort((a, b) => a.startTime - b.startTime);
+  const transitionsByClipB = new Map<string, Transition>(
+    track.transitions.map((t) => [t.clipBId, t]),
+  );
+  const halfFramesByClipA = new Map<string, number>();
+  for (const transition of track.transitions) {
+    halfFramesByClipA.set(
+      transition.clipAId,
+      Math.floor(secondsToFrames(transition.duration, rate) / 2),
+    );
+  }
+
+  const lines: string[] = [];
+  let eventNumber = firstEventNumber;
+
+  for (const clip of clips) {
+    const media = mediaById.get(clip.mediaId);
+    const speed = clip.speed ?? 1;
+    const recordIn = secondsToFrames(clip.startTime, rate) + recordOffset;
+    const recordOut =
+      secondsToFrames(clip.startTime + clip.duration, rate) + recordOffset;
+    const sourceIn = clip.reversed
+      ? secondsToFrames(clip.outPoint, rate)
+      : secondsToFrames(clip.inPoint, rate);
+
+    const tailTrim = halfFramesByClipA.get(clip.id) ?? 0;
+    const transition = transitionsByClipB.get(clip.id);
+    const transitionFrames = transition
+      ? secondsToFrames(transition.duration, rate)
+      : 0;
+    const headTrim = Math.floor(transitionFrames / 2);
+
+    const eventRecordIn = recordIn - headTrim;
+    const eventRecordOut = recordOut - tailTrim;
+    const eventSourceIn =
+      sourceIn + Math.round(headTrim * speed) * (clip.reversed ? 1 : -1);
+    const eventSourceOut = eventSourceIn + (eventRecordOut - eventRecordIn);
+
+    if (transition && headTrim > 0) {
+      const previous = clips.find((c) => c.id === transition.clipAId);
+      const previousMedia = previous ? mediaById.get(previous.mediaId) : null;
+      const previousSourceOut = previous
+        ? secondsToFrames(
+            previous.reversed ? previous.inPoint : previous.outPoint,
+            rate,
+          ) - Math.round(headTrim * (previous.speed ?? 1))
+        : 0;
+      lines.push(
+        formatEventLine(
+          eventNumber,
+          channel,
+          "C",
+          null,
+          previousSourceOut,
+          previousSourceOut,
+          eventRecordIn,
+          eventRecordIn,
+          rate,
+        ),
+      );
+      lines.push(
+        formatEventLine(
+          eventNumber,
+          channel,
+          getEDLTransitionCode(transition.type),
+          transitionFrames,
+          eventSourceIn,
+          eventSourceOut,
+          eventRecordIn,
+          eventRecordOut,
+          rate,
+        ),
+      );
+      if (previousMedia) {
+        lines.push(`* FROM CLIP NAME: ${previousMedia.name}`);
+      }
+      if (media) {
+        lines.push(`* TO CLIP NAME: ${media.name}`);
+      }
+    } else {
+      lines.push(
+        formatEventLine(
+          eventNumber,
+          channel,
+          "C",
+          null,
+          eventSourceIn,
+          eventSourceOut,
+          eventRecordIn,
+          eventRecordOut,
+          rate,
+        ),
+      );
+      if (media) {
+        lines.push(`* FROM CLIP NAME: ${media.name}`);
+      }
+    }
+
+    if (speed !== 1 || clip.reversed) {
+      lines.push(formatSpeedLine(clip, eventSourceIn, rate.timebase, rate));
+    }
+
+    lines.push("");
+    eventNumber++;
+  }
+
+  return lines;
+}
+
+/**
+ * Exports a project as a CMX3600 EDL. The picture track becomes channel V and
+ * up to four audio tracks become A through A4. Media file names are written
+ * as `* FROM CLIP NAME:` comments, which most NLEs use for relinking.
+ */
+export function exportEDL(
+  project: Project,
+  options: EDLExportOptions = {},
+): string {
+  const rate = getTimecodeRate(project.settings.frameRate);
+  const recordOffset = secondsToFrames(options.recordStart ?? 0, rate);
+
+  const videoTrack = options.videoTrackId
+    ? project.timeline.tracks.find((t) => t.id === options.videoTrackId)
+    : project.timeline.tracks.find(
+        (t) => t.type === "video" || t.type === "image",
+      );
+
+  const header = [
+    `TITLE: ${options.title ?? project.name}`,
+    `FCM: ${rate.dropFrame ? "DROP FRAME" : "NON-DROP FRAME"}`,
+    "",
+  ];
+
+  const body: string[] = [];
+  let eventNumber = 1;
+
+  if (videoTrack) {
+    const lines = exportTrackEvents(
+      project,
+      videoTrack,
+      "V",
+      rate,
+      recordOffset,
+      eventNumber,
+    );
+    eventNumber += videoTrack.clips.length;
+    body.push(...lines);
+  }
+
+  if (options.includeAudio ?? true) {
+    const audioTracks = project.timeline.tracks
+      .filter((t) => t.type === "audio")
+      .slice(0, AUDIO_CHANNELS.length);
+    audioTracks.forEach((track, index) => {
+      const lines = exportTrackEvents(
+        project,
+        track,
+        AUDIO_CHANNELS[index],
+        rate,
+        recordOffset,
+        eventNumber,
+      );
+      eventNumber += track.clips.length;
+      body.push(...lines);
+    });
+  }
+
+  return [...header, ...body].join("\n").trimEnd() + "\n";
+}
+
+function parseEventLine(
+  tokens: string[],
+  rate: TimecodeRate,
+): EDLLine | null {
+  if (tokens.length < 8) {
+    return null;
+  }
+
+  const [, reel, channel, transition] = tokens;
+  const hasDuration = tokens.length >= 9;
+  const timecodes = tokens.slice(hasDuration ? 5 : 4, hasDuration ? 9 : 8);
+  const frames = timecodes.map((tc) => timecodeToFrames(tc, rate));
+  if (frames.some((f) => f === null)) {
+    return null;
+  }
+
+  return {
+    reel,
+    channel: channel.toUpperCase(),
+    transition: transition.toUpperCase(),
+    transitionFrames: hasDuration ? parseInt(tokens[4], 10) || 0 : 0,
+    sourceIn: frames[0]!,
+    sourceOut: frames[1]!,
+    recordIn: frames[2]!,
+    recordOut: frames[3]!,
+  };
+}
+
+export function parseEDL(
+  content: string,
+  frameRate: number,
+): { title: string | null; events: EDLEvent[]; errors: string[] } {
+  const rate = getTimecodeRate(frameRate);
+  const events: EDLEvent[] = [];
+  const errors: string[] = [];
+  let title: string | null = null;
+  let current: EDLEvent | null = null;
+
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith("TITLE:")) {
+      title = line.slice(6).trim();
+      return;
+    }
+    if (line.startsWith("FCM:")) {
+      return;
+    }
+    if (line.startsWith("*")) {
+      const match = line.match(/^\*\s*(FROM|TO) CLIP NAME:\s*(.+)$/i);
+      if (match && current) {
+        if (match[1].toUpperCase() === "TO" || !current.clipName) {
+          current.clipName = match[2].trim();
+        }
+      }
+      return;
+    }
+
+    const tokens = line.split(/\s+/);
+    if (tokens[0] === "M2") {
+      const speedFps = parseFloat(tokens[2]);
+      if (current && !isNaN(speedFps)) {
+        current.speed = speedFps / rate.timebase;
+      }
+      return;
+    }
+
+    const number = parseInt(tokens[0], 10);
+    if (isNaN(number)) {
+      errors.push(`Line ${index + 1}: unrecognized statement "${line}"`);
+      return;
+    }
+
+    const parsed = parseEventLine(tokens, rate);
+    if (!parsed) {
+      errors.push(`Line ${index + 1}: invalid event "${line}"`);
+      return;
+    }
+
+    if (current && current.number === number) {
+      current.lines.push(parsed);
+    } else {
+      current = { number, lines: [parsed] };
+      events.push(current);
+    }
+  });
+
+  return { title, events, errors };
+}
+
+function getTrackKey(channel: string): { key: string; type: "video" | "audio" } | null {
+  if (channel === "V" || channel === "B") return { key: "V", type: "video" };
+  if (channel === "A" || channel === "A1" || channel === "AA") {
+    return { key: "A", type: "audio" };
+  }
+  if (/^A\d$/.test(channel)) return { key: channel, type: "audio" };
+  return null;
+}
+
+/**
+ * Imports a CMX3600 EDL into the project timeline. Timecodes are interpreted
+ * at the project frame rate; media is matched by clip name (or reel name)
+ * against the MediaLibrary, and unmatched media becomes placeholders.
+ */
+export function importEDL(
+  project: Project,
+  content: string,
+  options: EDLImportOptions = {},
+): InterchangeImportResult {
+  const frameRate = project.settings.frameRate;
+  const rate = getTimecodeRate(frameRate);
+  const { events, errors } = parseEDL(content, frameRate);
+  const warnings: string[] = [];
+
+  if (events.length === 0) {
+    return {
+      success: false,
+      project,
+      placeholders: [],
+      warnings,
+      errors: errors.length > 0 ? errors : ["EDL contains no events"],
+    };
+  }
+
+  let recordOffset: number;
+  if (options.recordStart !== undefined) {
+    recordOffset = secondsToFrames(options.recordStart, rate);
+  } else {
+    const firstRecord = Math.min(
+      ...events.flatMap((e) => e.lines.map((l) => l.recordIn)),
+    );
+    const hour = secondsToFrames(ONE_HOUR, rate);
+    recordOffset = firstRecord >= hour ? Math.floor(firstRecord / hour) * hour : 0;
+  }
+
+  const resolver = new InterchangeMediaResolver(project.mediaLibrary, frameRate);
+  const tracks = new Map<string, { track: Track; clips: Clip[]; transitions: Transition[] }>();
+
+  const getTrack = (channel: string) => {
+    const trackKey = getTrackKey(channel);
+    if (!trackKey) return null;
+    let entry = tracks.get(trackKey.key);
+    if (!entry) {
+      const name =
+        trackKey.type === "video" ? "EDL Video" : `EDL Audio ${trackKey.key}`;
+      entry = { track: createTrack(trackKey.type, name), clips: [], transitions: [] };
+      tracks.set(trackKey.key, entry);
+    }
+    return entry;
+  };
+
+  for (const event of events) {
+    const incoming = event.lines[event.lines.length - 1];
+    const outgoing = event.lines.length > 1 ? event.lines[0] : null;
+    const entry = getTrack(incoming.channel);
+    if (!entry) {
+      warnings.push(`Event ${event.number}: unsupported channel "${incoming.channel}"`);
+      continue;
+    }
+    if (incoming.reel === "BL" || incoming.reel === "BLACK") {
+      continue;
+    }
+
+    const isTransition =
+      outgoing !== null &&
+      (incoming.transition === "D" || incoming.transition.startsWith("W")) &&
+      incoming.transitionFrames > 0;
+    const half = isTransition ? Math.floor(incoming.transitionFrames / 2) : 0;
+
+    const recordIn = incoming.recordIn - recordOffset + half;
+    const recordOut = incoming.recordOut - recordOffset;
+    if (recordOut <= recordIn) {
+      warnings.push(`Event ${event.number}: zero-length event skipped`);
+      continue;
+    }
+
+    const speedValue = event.speed ?? 1;
+    const reversed = speedValue < 0;
+    const speed = Math.abs(speedValue) || 1;
+    const startTime = framesToSeconds(recordIn, rate);
+    const duration = framesToSeconds(recordOut - recordIn, rate);
+    const sourceStart = framesToSeconds(
+      incoming.sourceIn + Math.round(half * speed) * (reversed ? -1 : 1),
+      rate,
+    );
+    const sourceLength = duration * speed;
+    const inPoint = reversed ? Math.max(0, sourceStart - sourceLength) : sourceStart;
+    const outPoint = inPoint + sourceLength;
+
+    const reference = event.clipName ?? incoming.reel;
+    const media = resolver.resolve(
+      reference,
+      entry.track.type === "audio" ? "audio" : "video",
+      outPoint,
+    );
+
+    const clip: Clip = {
+      ...createClip(media.id, entry.track.id, startTime, duration),
+      inPoint,
+      outPoint,
+      ...(speed !== 1 ? { speed } : {}),
+      ...(reversed ? { reversed: true } : {}),
+    };
+
+    if (isTransition) {
+      const previousIndex = entry.clips.length - 1;
+      const previous = entry.clips[previousIndex];
+      if (previous) {
+        const extension = framesToSeconds(half, rate);
+        entry.clips[previousIndex] = {
+          ...previous,
+          duration: previous.duration + extension,
+          outPoint: previous.outPoint + extension * (previous.speed ?? 1),
+        };
+        entry.transitions.push({
+          id: `transition-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+          clipAId: previous.id,
+          clipBId: clip.id,
+          type: incoming.transition === "D" ? "crossfade" : "wipe",
+          duration: framesToSeconds(incoming.transitionFrames, rate),
+          params: {},
+        });
+      } else {
+        warnings.push(`Event ${event.number}: transition without an outgoing clip`);
+      }
+    }
+
+    entry.clips.push(clip);
+  }
+
+  const importedTracks: Track[] = Array.from(tracks.values())
+    .sort((a, b) =>
+      a.track.type === b.track.type ? 0 : a.track.type === "video" ? -1 : 1,
+    )
+    .map(({ track, clips, transitions }) => ({ ...track, clips, transitions }));
+
+  const placeholders: MediaItem[] = resolver.getPlaceholders();
+  if (placeholders.length > 0) {
+    warnings.push(
+      `${placeholders.length} media file(s) not found in the library: ${placeholders
+        .map((p) => p.name)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    success: errors.length === 0,
+    project: applyImportedTracks(
+      project,
+      importedTracks,
+      placeholders,
+      options.appendTracks ?? false,
+    ),
+    placeholders,
+    warnings,
+    errors,
+  };
+}
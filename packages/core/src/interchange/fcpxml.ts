@@ -0,0 +1,558 @@
+import type { Project, MediaItem } from "../types/project";
+import type { Clip, Track, Transition } from "../types/timeline";
+import { createClip } from "../timeline/clip-manager";
+import { createTrack } from "../timeline/track-manager";
+import {
+  getTimecodeRate,
+  getFrameDuration,
+  secondsToRationalTime,
+  parseRationalTime,
+  type TimecodeRate,
+} from "./timecode";
+import {
+  createXmlElement,
+  findChild,
+  findDescendant,
+  parseXml,
+  serializeXml,
+  type XmlElement,
+} from "./xml";
+import {
+  InterchangeMediaResolver,
+  applyImportedTracks,
+} from "./media-resolver";
+import type {
+  FCPXMLExportOptions,
+  FCPXMLImportOptions,
+  InterchangeImportResult,
+} from "./types";
+
+const DEFAULT_FCPXML_VERSION = "1.9";
+const FORMAT_ID = "r1";
+
+function volumeToDecibels(volume: number): string {
+  if (volume <= 0) {
+    return "-96dB";
+  }
+  return `${(20 * Math.log10(volume)).toFixed(2)}dB`;
+}
+
+function decibelsToVolume(value: string | undefined): number {
+  if (!value) return 1;
+  const db = parseFloat(value);
+  if (isNaN(db)) return 1;
+  return db <= -96 ? 0 : Math.pow(10, db / 20);
+}
+
+function getTransitionName(transition: Transition): string {
+  switch (transition.type) {
+    case "dipToBlack":
+      return "Fade To Color";
+    case "wipe":
+      return "Wipe";
+    case "slide":
+      return "Slide";
+    case "push":
+      return "Push";
+    case "zoom":
+      return "Zoom";
+    default:
+      return "Cross Dissolve";
+  }
+}
+
+function parseTransitionName(name: string | undefined): Transition["type"] {
+  const normalized = (name ?? "").toLowerCase();
+  if (normalized.includes("wipe")) return "wipe";
+  if (normalized.includes("slide")) return "slide";
+  if (normalized.includes("push")) return "push";
+  if (normalized.includes("zoom")) return "zoom";
+  if (normalized.includes("white")) return "dipToWhite";
+  if (normalized.includes("color") || normalized.includes("black")) {
+    return "dipToBlack";
+  }
+  return "crossfade";
+}
+
+function buildAssetClip(
+  clip: Clip,
+  assetId: string,
+  media: MediaItem | undefined,
+  rate: TimecodeRate,
+): XmlElement {
+  const speed = clip.speed ?? 1;
+  const retimed = speed !== 1 || clip.reversed === true;
+  const children: XmlElement[] = [];
+
+  if (clip.volume !== 1) {
+    children.push(
+      createXmlElement("adjust-volume", {
+        amount: volumeToDecibels(clip.volume),
+      }),
+    );
+  }
+
+  if (retimed) {
+    const startValue = clip.reversed ? clip.outPoint : clip.inPoint;
+    const endValue = clip.reversed ? clip.inPoint : clip.outPoint;
+    children.push(
+      createXmlElement("timeMap", {}, [
+        createXmlElement("timept", {
+          time: "0s",
+          value: secondsToRationalTime(startValue, rate),
+          interp: "linear",
+        }),
+        createXmlElement("timept", {
+          time: secondsToRationalTime(clip.duration, rate),
+          value: secondsToRationalTime(endValue, rate),
+          interp: "linear",
+        }),
+      ]),
+    );
+  }
+
+  return createXmlElement(
+    "asset-clip",
+    {
+      ref: assetId,
+      name: media?.name ?? clip.id,
+      offset: secondsToRationalTime(clip.startTime, rate),
+      start: retimed ? "0s" : secondsToRationalTime(clip.inPoint, rate),
+      duration: secondsToRationalTime(clip.duration, rate),
+    },
+    children,
+  );
+}
+
+function buildStoryline(
+  track: Track,
+  lane: number,
+  assetIds: Map<string, string>,
+  mediaById: Map<string, MediaItem>,
+  rate: TimecodeRate,
+): XmlElement {
+  const clips = [...track.clips].sort((a, b) => a.startTime - b.startTime);
+  const transitionsByClipA = new Map(
+    track.transitions.map((t) => [t.clipAId, t]),
+  );
+  const children: XmlElement[] = [];
+  let cursor = 0;
+
+  for (const clip of clips) {
+    if (clip.startTime - cursor > 1 / rate.fps / 2) {
+      children.push(
+        createXmlElement("gap", {
+          name: "Gap",
+          offset: secondsToRationalTime(cursor, rate),
+          start: "0s",
+          duration: secondsToRationalTime(clip.startTime - cursor, rate),
+        }),
+      );
+    }
+
+    const assetId = assetIds.get(clip.mediaId);
+    if (assetId) {
+      children.push(
+        buildAssetClip(clip, assetId, mediaById.get(clip.mediaId), rate),
+      );
+    }
+    cursor = clip.startTime + clip.duration;
+
+    const transition = transitionsByClipA.get(clip.id);
+    if (transition) {
+      children.push(
+        createXmlElement("transition", {
+          name: getTransitionName(transition),
+          offset: secondsToRationalTime(cursor - transition.duration / 2, rate),
+          duration: secondsToRationalTime(transition.duration, rate),
+        }),
+      );
+    }
+  }
+
+  return createXmlElement(
+    "spine",
+    { lane, offset: "0s", name: track.name },
+    children,
+  );
+}
+
+/**
+ * Exports a project as FCPXML. Every OpenReel track becomes a connected
+ * storyline on a base gap: video tracks on positive lanes (the first track
+ * highest, matching the compositing order) and audio tracks on negative lanes.
+ */
+export function exportFCPXML(
+  project: Project,
+  options: FCPXMLExportOptions = {},
+): string {
+  const rate = getTimecodeRate(project.settings.frameRate);
+  const mediaById = new Map(project.mediaLibrary.items.map((m) => [m.id, m]));
+
+  const usedMediaIds = new Set(
+    project.timeline.tracks.flatMap((t) => t.clips.map((c) => c.mediaId)),
+  );
+  const assetIds = new Map<string, string>();
+  const resources: XmlElement[] = [
+    createXmlElement("format", {
+      id: FORMAT_ID,
+      name: `FFVideoFormat${project.settings.height}p${Math.round(project.settings.frameRate * 100) / 100}`,
+      frameDuration: getFrameDuration(rate),
+      width: project.settings.width,
+      height: project.settings.height,
+    }),
+  ];
+
+  let nextResource = 2;
+  for (const item of project.mediaLibrary.items) {
+    if (!usedMediaIds.has(item.id)) continue;
+    const assetId = `r${nextResource++}`;
+    assetIds.set(item.id, assetId);
+    resources.push(
+      createXmlElement(
+        "asset",
+        {
+          id: assetId,
+          name: item.name,
+          start: "0s",
+          duration: secondsToRationalTime(item.metadata.duration, rate),
+          hasVideo: item.type === "audio" ? "0" : "1",
+          hasAudio: item.type === "image" ? "0" : "1",
+          format: item.type === "audio" ? undefined : FORMAT_ID,
+          audioChannels: item.metadata.channels || undefined,
+          audioRate: item.metadata.sampleRate || undefined,
+        },
+        [
+          createXmlElement("media-rep", {
+            kind: "original-media",
+            src: item.originalUrl ?? `file:./${encodeURI(item.name)}`,
+          }),
+        ],
+      ),
+    );
+  }
+
+  const pictureTracks = project.timeline.tracks.filter(
+    (t) => t.type === "video" || t.type === "image",
+  );
+  const audioTracks = project.timeline.tracks.filter((t) => t.type === "audio");
+
+  const storylines: XmlElement[] = [
+    ...pictureTracks.map((track, index) =>
+      buildStoryline(track, pictureTracks.length - index, assetIds, mediaById, rate),
+    ),
+    ...audioTracks.map((track, index) =>
+      buildStoryline(track, -(index + 1), assetIds, mediaById, rate),
+    ),
+  ];
+
+  let duration = 0;
+  for (const track of project.timeline.tracks) {
+    for (const clip of track.clips) {
+      duration = Math.max(duration, clip.startTime + clip.duration);
+    }
+  }
+  const totalDuration = secondsToRationalTime(duration, rate);
+
+  const sequence = createXmlElement(
+    "sequence",
+    {
+      format: FORMAT_ID,
+      duration: totalDuration,
+      tcStart: "0s",
+      tcFormat: rate.dropFrame ? "DF" : "NDF",
+      audioLayout: project.settings.channels === 1 ? "mono" : "stereo",
+      audioRate: project.settings.sampleRate === 44100 ? "44.1k" : "48k",
+    },
+    [
+      createXmlElement("spine", {}, [
+        createXmlElement(
+          "gap",
+          { name: "Gap", offset: "0s", start: "0s", duration: totalDuration },
+          storylines,
+        ),
+      ]),
+    ],
+  );
+
+  const document = createXmlElement(
+    "fcpxml",
+    { version: options.version ?? DEFAULT_FCPXML_VERSION },
+    [
+      createXmlElement("resources", {}, resources),
+      createXmlElement("library", {}, [
+        createXmlElement("event", { name: options.eventName ?? "OpenReel" }, [
+          createXmlElement("project", { name: project.name }, [sequence]),
+        ]),
+      ]),
+    ],
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE fcpxml>\n${serializeXml(document)}\n`;
+}
+
+interface FCPXMLAsset {
+  readonly name: string;
+  readonly src: string | undefined;
+  readonly hasVideo: boolean;
+}
+
+const CLIP_ELEMENTS = new Set(["asset-clip", "clip", "video", "audio", "ref-clip"]);
+
+function getAssetReference(element: XmlElement): string | undefined {
+  if (element.attributes.ref) return element.attributes.ref;
+  for (const child of element.children) {
+    if (child.name === "video" || child.name === "audio") {
+      return child.attributes.ref;
+    }
+  }
+  return undefined;
+}
+
+interface StorylineEntry {
+  readonly element: XmlElement;
+  readonly lane: number;
+  readonly baseOffset: number;
+}
+
+/**
+ * Imports FCPXML (1.8 and later) into the project timeline. The primary
+ * storyline and each connected lane become separate tracks; media is matched
+ * by asset file name against the MediaLibrary.
+ */
+export function importFCPXML(
+  project: Project,
+  content: string,
+  options: FCPXMLImportOptions = {},
+): InterchangeImportResult {
+  const frameRate = project.settings.frameRate;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  let root: XmlElement;
+  try {
+    root = parseXml(content);
+  } catch (error) {
+    return {
+      success: false,
+      project,
+      placeholders: [],
+      warnings,
+      errors: [
+        `Invalid FCPXML: ${error instanceof Error ? error.message : "Parse error"}`,
+      ],
+    };
+  }
+
+  if (root.name !== "fcpxml") {
+    return {
+      success: false,
+      project,
+      placeholders: [],
+      warnings,
+      errors: [`Expected <fcpxml> root element, found <${root.name}>`],
+    };
+  }
+
+  const assets = new Map<string, FCPXMLAsset>();
+  const resources = findChild(root, "resources");
+  for (const resource of resources?.children ?? []) {
+    if (resource.name !== "asset") continue;
+    const mediaRep = findChild(resource, "media-rep");
+    assets.set(resource.attributes.id, {
+      name: resource.attributes.name ?? "",
+      src: mediaRep?.attributes.src ?? resource.attributes.src,
+      hasVideo: resource.attributes.hasVideo !== "0",
+    });
+  }
+
+  const sequence = findDescendant(root, "sequence");
+  const mainSpine = sequence ? findChild(sequence, "spine") : undefined;
+  if (!mainSpine) {
+    return {
+      success: false,
+      project,
+      placeholders: [],
+      warnings,
+      errors: ["FCPXML contains no sequence spine"],
+    };
+  }
+
+  const storylines: StorylineEntry[] = [{ element: mainSpine, lane: 0, baseOffset: 0 }];
+  const connectedClips: StorylineEntry[] = [];
+
+  const collectConnected = (parent: XmlElement, parentStart: number, parentOffset: number) => {
+    for (const child of parent.children) {
+      const lane = child.attributes.lane;
+      if (lane === undefined) continue;
+      const offset = parseRationalTime(child.attributes.offset) ?? 0;
+      const entry: StorylineEntry = {
+        element: child,
+        lane: parseInt(lane, 10) || 0,
+        baseOffset: parentOffset + (offset - parentStart),
+      };
+      if (child.name === "spine") {
+        storylines.push(entry);
+      } else if (CLIP_ELEMENTS.has(child.name)) {
+        connectedClips.push(entry);
+      }
+    }
+  };
+
+  const resolver = new InterchangeMediaResolver(project.mediaLibrary, frameRate);
+  const mediaTypes = new Map<string, MediaItem["type"]>();
+  const lanes = new Map<number, { clips: Clip[]; transitions: Transition[] }>();
+  const getLane = (lane: number) => {
+    let entry = lanes.get(lane);
+    if (!entry) {
+      entry = { clips: [], transitions: [] };
+      lanes.set(lane, entry);
+    }
+    return entry;
+  };
+
+  const addClip = (element: XmlElement, lane: number, startTime: number): Clip | null => {
+    const duration = parseRationalTime(element.attributes.duration) ?? 0;
+    if (duration <= 0) return null;
+
+    const assetRef = getAssetReference(element);
+    const asset = assetRef ? assets.get(assetRef) : undefined;
+    if (!asset) {
+      warnings.push(`Clip "${element.attributes.name ?? "untitled"}" references unknown asset`);
+      return null;
+    }
+
+    let inPoint = parseRationalTime(element.attributes.start) ?? 0;
+    let speed = 1;
+    let reversed = false;
+    const timeMap = findChild(element, "timeMap");
+    const points = timeMap?.children.filter((c) => c.name === "timept") ?? [];
+    if (points.length >= 2) {
+      const first = points[0];
+      const last = points[points.length - 1];
+      const t0 = parseRationalTime(first.attributes.time) ?? 0;
+      const t1 = parseRationalTime(last.attributes.time) ?? duration;
+      const v0 = parseRationalTime(first.attributes.value) ?? 0;
+      const v1 = parseRationalTime(last.attributes.value) ?? 0;
+      if (t1 > t0) {
+        speed = Math.abs(v1 - v0) / (t1 - t0) || 1;
+        reversed = v1 < v0;
+        inPoint = reversed ? v0 - duration * speed : v0;
+      }
+    }
+
+    const sourceLength = duration * speed;
+    const outPoint = inPoint + sourceLength;
+    const media = resolver.resolve(
+      asset.src ?? asset.name,
+      asset.hasVideo ? "video" : "audio",
+      outPoint,
+    );
+    mediaTypes.set(media.id, media.type);
+    const volume = decibelsToVolume(
+      findChild(element, "adjust-volume")?.attributes.amount,
+    );
+
+    const clip: Clip = {
+      ...createClip(media.id, "", startTime, duration),
+      inPoint,
+      outPoint,
+      volume,
+      ...(speed !== 1 ? { speed } : {}),
+      ...(reversed ? { reversed: true } : {}),
+    };
+    getLane(lane).clips.push(clip);
+    return clip;
+  };
+
+  for (let i = 0; i < storylines.length; i++) {
+    const { element, lane, baseOffset } = storylines[i];
+    let cursor = 0;
+    let previous: Clip | null = null;
+    let pendingTransition: XmlElement | null = null;
+
+    for (const child of element.children) {
+      if (child.attributes.lane !== undefined) continue;
+      const duration = parseRationalTime(child.attributes.duration) ?? 0;
+
+      if (child.name === "transition") {
+        pendingTransition = child;
+        continue;
+      }
+
+      const start = parseRationalTime(child.attributes.start) ?? 0;
+      const clipStart = baseOffset + cursor;
+      collectConnected(child, start, clipStart);
+
+      if (CLIP_ELEMENTS.has(child.name)) {
+        const clip = addClip(child, lane, clipStart);
+        if (clip && previous && pendingTransition) {
+          getLane(lane).transitions.push({
+            id: `transition-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+            clipAId: previous.id,
+            clipBId: clip.id,
+            type: parseTransitionName(pendingTransition.attributes.name),
+            duration: parseRationalTime(pendingTransition.attributes.duration) ?? 0,
+            params: {},
+          });
+        }
+        previous = clip;
+      } else if (child.name !== "gap") {
+        warnings.push(`Unsupported storyline element <${child.name}> imported as a gap`);
+        previous = null;
+      } else {
+        previous = null;
+      }
+
+      pendingTransition = null;
+      cursor += duration;
+    }
+  }
+
+  for (const { element, lane, baseOffset } of connectedClips) {
+    addClip(element, lane, baseOffset);
+  }
+
+  const sortedLanes = Array.from(lanes.entries())
+    .filter(([, entry]) => entry.clips.length > 0)
+    .sort(([a], [b]) => b - a);
+
+  const tracks: Track[] = sortedLanes.map(([lane, entry]) => {
+    const isAudio =
+      lane < 0 &&
+      entry.clips.every((clip) => mediaTypes.get(clip.mediaId) === "audio");
+    const track = createTrack(
+      isAudio ? "audio" : "video",
+      lane === 0 ? "Primary Storyline" : `Lane ${lane}`,
+    );
+    return {
+      ...track,
+      clips: entry.clips
+        .sort((a, b) => a.startTime - b.startTime)
+        .map((clip) => ({ ...clip, trackId: track.id })),
+      transitions: entry.transitions,
+    };
+  });
+
+  const placeholders = resolver.getPlaceholders();
+  if (placeholders.length > 0) {
+    warnings.push(
+      `${placeholders.length} media file(s) not found in the library: ${placeholders
+        .map((p) => p.name)
+        .join(", ")}`,
+    );
+  }
+
+  return {
+    success: errors.length === 0,
+    project: applyImportedTracks(
+      project,
+      tracks,
+      placeholders,
+      options.appendTracks ?? false,
+    ),
+    placeholders,
+    warnings,
+    errors,
+  };
+}
@@ -0,0 +1,12 @@
+export * from "./types";
+export * from "./timecode";
+export {
+  parseXml,
+  serializeXml,
+  escapeXml,
+  type XmlElement,
+  type XmlNode,
+} from "./xml";
+export { InterchangeMediaResolver } from "./media-resolver";
+export { exportEDL, importEDL, parseEDL } from "./edl";
+export { exportFCPXML, importFCPXML } from "./fcpxml";
@@ -0,0 +1,279 @@
+import { describe, it, expect } from "vitest";
+import { exportEDL, importEDL } from "./edl";
+import { exportFCPXML, importFCPXML } from "./fcpxml";
+import {
+  getTimecodeRate,
+  framesToTimecode,
+  timecodeToFrames,
+  secondsToTimecode,
+  parseRationalTime,
+} from "./timecode";
+import { parseXml } from "./xml";
+import type { Project, Clip, MediaItem, Track } from "../types";
+
+const createMockMediaItem = (overrides?: Partial<MediaItem>): MediaItem => ({
+  id: "media-1",
+  name: "interview.mp4",
+  type: "video",
+  fileHandle: null,
+  blob: null,
+  metadata: {
+    duration: 60,
+    width: 1920,
+    height: 1080,
+    frameRate: 25,
+    codec: "avc1",
+    sampleRate: 48000,
+    channels: 2,
+    fileSize: 1024,
+  },
+  thumbnailUrl: null,
+  waveformData: null,
+  ...overrides,
+});
+
+const createMockClip = (overrides?: Partial<Clip>): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 4,
+  inPoint: 10,
+  outPoint: 14,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createMockTrack = (overrides?: Partial<Track>): Track => ({
+  id: "track-1",
+  type: "video",
+  name: "Video 1",
+  clips: [],
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  ...overrides,
+});
+
+const createMockProject = (tracks: Track[], items?: MediaItem[]): Project => ({
+  id: "project-1",
+  name: "Rough Cut",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 25,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: {
+    items: items ?? [
+      createMockMediaItem(),
+      createMockMediaItem({ id: "media-2", name: "broll.mov" }),
+    ],
+  },
+  timeline: { tracks, subtitles: [], duration: 0, markers: [] },
+});
+
+const roughCut = (): Project =>
+  createMockProject([
+    createMockTrack({
+      clips: [
+        createMockClip(),
+        createMockClip({
+          id: "clip-2",
+          mediaId: "media-2",
+          startTime: 4,
+          duration: 2,
+          inPoint: 1,
+          outPoint: 5,
+          speed: 2,
+        }),
+      ],
+      transitions: [
+        {
+          id: "transition-1",
+          clipAId: "clip-1",
+          clipBId: "clip-2",
+          type: "crossfade",
+          duration: 1,
+          params: {},
+        },
+      ],
+    }),
+  ]);
+
+describe("timecode", () => {
+  it("should format and parse non-drop-frame timecode", () => {
+    expect(secondsToTimecode(3661.48, 25)).toBe("01:01:01:12");
+    const rate = getTimecodeRate(25);
+    expect(timecodeToFrames("01:01:01:12", rate)).toBe(91537);
+  });
+
+  it("should round-trip 29.97 drop-frame timecode", () => {
+    const rate = getTimecodeRate(29.97);
+    expect(rate.dropFrame).toBe(true);
+    expect(framesToTimecode(1800, rate)).toBe("00:01:00;02");
+    expect(framesToTimecode(17982, rate)).toBe("00:10:00;00");
+    for (const frames of [0, 1799, 1800, 17981, 17982, 107892]) {
+      expect(timecodeToFrames(framesToTimecode(frames, rate), rate)).toBe(frames);
+    }
+  });
+
+  it("should parse FCPXML rational time", () => {
+    expect(parseRationalTime("1001/30000s")).toBeCloseTo(0.03337, 5);
+    expect(parseRationalTime("5s")).toBe(5);
+    expect(parseRationalTime("bad")).toBeNull();
+  });
+});
+
+describe("CMX3600 EDL", () => {
+  it("should export events at the project frame rate", () => {
+    const edl = exportEDL(roughCut());
+
+    expect(edl).toContain("TITLE: Rough Cut");
+    expect(edl).toContain("FCM: NON-DROP FRAME");
+    expect(edl).toContain("* FROM CLIP NAME: interview.mp4");
+    expect(edl).toMatch(/002  AX\s+V\s+D\s+025/);
+    expect(edl).toMatch(/M2\s+AX\s+050\.0/);
+  });
+
+  it("should round-trip clips, speed and transitions", () => {
+    const source = roughCut();
+    const result = importEDL(createMockProject([], source.mediaLibrary.items), exportEDL(source));
+
+    expect(result.success).toBe(true);
+    expect(result.placeholders).toHaveLength(0);
+    const [track] = result.project.timeline.tracks;
+    expect(track.type).toBe("video");
+    expect(track.clips).toHaveLength(2);
+
+    const [first, second] = track.clips;
+    expect(first.mediaId).toBe("media-1");
+    expect(first.startTime).toBeCloseTo(0);
+    expect(first.duration).toBeCloseTo(4);
+    expect(first.inPoint).toBeCloseTo(10);
+    expect(second.mediaId).toBe("media-2");
+    expect(second.startTime).toBeCloseTo(4);
+    expect(second.duration).toBeCloseTo(2);
+    expect(second.speed).toBeCloseTo(2);
+    expect(track.transitions).toHaveLength(1);
+    expect(track.transitions[0].duration).toBeCloseTo(1);
+    expect(track.transitions[0].clipBId).toBe(second.id);
+  });
+
+  it("should strip a one hour record start and create placeholders", () => {
+    const edl = [
+      "TITLE: Conform",
+      "FCM: NON-DROP FRAME",
+      "",
+      "001  AX       V     C        00:00:05:00 00:00:07:00 01:00:00:00 01:00:02:00",
+      "* FROM CLIP NAME: missing.mxf",
+      "002  AX       A     C        00:00:00:00 00:00:02:00 01:00:00:00 01:00:02:00",
+      "* FROM CLIP NAME: interview.mp4",
+    ].join("\n");
+
+    const result = importEDL(createMockProject([]), edl);
+
+    expect(result.success).toBe(true);
+    const [video, audio] = result.project.timeline.tracks;
+    expect(video.clips[0].startTime).toBe(0);
+    expect(video.clips[0].inPoint).toBe(5);
+    expect(audio.type).toBe("audio");
+    expect(audio.clips[0].mediaId).toBe("media-1");
+    expect(result.placeholders).toHaveLength(1);
+    expect(result.placeholders[0].name).toBe("missing.mxf");
+    expect(result.placeholders[0].isPlaceholder).toBe(true);
+    expect(result.project.mediaLibrary.items).toContain(result.placeholders[0]);
+  });
+
+  it("should report malformed events", () => {
+    const result = importEDL(createMockProject([]), "001  AX  V  C  garbage");
+    expect(result.success).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe("FCPXML", () => {
+  it("should export well-formed FCPXML with assets and lanes", () => {
+    const xml = exportFCPXML(roughCut());
+    const root = parseXml(xml);
+
+    expect(root.name).toBe("fcpxml");
+    expect(xml).toContain('frameDuration="1/25s"');
+    expect(xml).toContain('name="interview.mp4"');
+    expect(xml).toContain('lane="1"');
+    expect(xml).toContain("<timeMap>");
+    expect(xml).toContain('name="Cross Dissolve"');
+  });
+
+  it("should round-trip tracks, speed and transitions", () => {
+    const source = roughCut();
+    const audioTrack = createMockTrack({
+      id: "track-2",
+      type: "audio",
+      name: "Music",
+      clips: [
+        createMockClip({
+          id: "clip-3",
+          mediaId: "media-3",
+          trackId: "track-2",
+          startTime: 1,
+          duration: 3,
+          inPoint: 0,
+          outPoint: 3,
+          volume: 0.5,
+        }),
+      ],
+    });
+    const project = createMockProject(
+      [...source.timeline.tracks, audioTrack],
+      [
+        ...source.mediaLibrary.items,
+        createMockMediaItem({ id: "media-3", name: "music.wav", type: "audio" }),
+      ],
+    );
+
+    const result = importFCPXML(
+      createMockProject([], project.mediaLibrary.items),
+      exportFCPXML(project),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.placeholders).toHaveLength(0);
+    const [video, audio] = result.project.timeline.tracks;
+    expect(video.type).toBe("video");
+    expect(video.clips.map((c) => c.mediaId)).toEqual(["media-1", "media-2"]);
+    expect(video.clips[1].startTime).toBeCloseTo(4);
+    expect(video.clips[1].inPoint).toBeCloseTo(1);
+    expect(video.clips[1].speed).toBeCloseTo(2);
+    expect(video.transitions[0].type).toBe("crossfade");
+    expect(audio.type).toBe("audio");
+    expect(audio.clips[0].startTime).toBeCloseTo(1);
+    expect(audio.clips[0].volume).toBeCloseTo(0.5, 3);
+  });
+
+  it("should keep references to invalid code points as text", () => {
+    const root = parseXml('<title name="&#x41;&#x110000;&#xDC00;"/>');
+    expect(root.attributes.name).toBe("A&#x110000;&#xDC00;");
+  });
+
+  it("should reject documents that are not FCPXML", () => {
+    const result = importFCPXML(createMockProject([]), "<xmeml></xmeml>");
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("<fcpxml>");
+  });
+});
@@ -0,0 +1,148 @@
+import type { Project, MediaItem, MediaLibrary } from "../types/project";
+import type { Track, Timeline } from "../types/timeline";
+
+const VIDEO_EXTENSIONS = ["mp4", "mov", "m4v", "webm", "mkv", "avi", "mxf", "mts"];
+const AUDIO_EXTENSIONS = ["wav", "mp3", "aac", "m4a", "flac", "ogg", "aif", "aiff", "opus"];
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp", "tif", "tiff"];
+
+export function getFileName(path: string): string {
+  const segments = path.split(/[\\/]/);
+  const name = segments[segments.length - 1] || path;
+  if (!/^(file|https?):/.test(path)) {
+    return name;
+  }
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+export function guessMediaType(
+  fileName: string,
+  fallback: MediaItem["type"],
+): MediaItem["type"] {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (VIDEO_EXTENSIONS.includes(extension)) return "video";
+  if (AUDIO_EXTENSIONS.includes(extension)) return "audio";
+  if (IMAGE_EXTENSIONS.includes(extension)) return "image";
+  return fallback;
+}
+
+/**
+ * Matches media referenced by an interchange file to MediaLibrary items by
+ * file name, creating placeholder items for anything that is not found.
+ */
+export class InterchangeMediaResolver {
+  private byName: Map<string, MediaItem> = new Map();
+  private byBaseName: Map<string, MediaItem> = new Map();
+  private placeholders: Map<string, MediaItem> = new Map();
+  private frameRate: number;
+
+  constructor(library: MediaLibrary, frameRate: number) {
+    this.frameRate = frameRate;
+    for (const item of library.items) {
+      const name = getFileName(item.name).toLowerCase();
+      if (!this.byName.has(name)) {
+        this.byName.set(name, item);
+      }
+      const baseName = stripExtension(name);
+      if (!this.byBaseName.has(baseName)) {
+        this.byBaseName.set(baseName, item);
+      }
+    }
+  }
+
+  resolve(
+    reference: string,
+    fallbackType: MediaItem["type"],
+    minimumDuration: number,
+  ): MediaItem {
+    const fileName = getFileName(reference);
+    const key = fileName.toLowerCase();
+
+    const match =
+      this.byName.get(key) ??
+      this.byBaseName.get(key) ??
+      this.byBaseName.get(stripExtension(key));
+    if (match) {
+      return match;
+    }
+
+    const existing = this.placeholders.get(key);
+    if (existing) {
+      if (existing.metadata.duration < minimumDuration) {
+        const extended: MediaItem = {
+          ...existing,
+          metadata: { ...existing.metadata, duration: minimumDuration },
+        };
+        this.placeholders.set(key, extended);
+        return extended;
+      }
+      return existing;
+    }
+
+    const placeholder: MediaItem = {
+      id: `media-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      name: fileName,
+      type: guessMediaType(fileName, fallbackType),
+      fileHandle: null,
+      blob: null,
+      metadata: {
+        duration: minimumDuration,
+        width: 0,
+        height: 0,
+        frameRate: this.frameRate,
+        codec: "",
+        sampleRate: 0,
+        channels: 0,
+        fileSize: 0,
+      },
+      thumbnailUrl: null,
+      waveformData: null,
+      isPlaceholder: true,
+      originalUrl: reference,
+    };
+    this.placeholders.set(key, placeholder);
+    return placeholder;
+  }
+
+  getPlaceholders(): MediaItem[] {
+    return Array.from(this.placeholders.values());
+  }
+}
+
+export function applyImportedTracks(
+  project: Project,
+  tracks: Track[],
+  placeholders: MediaItem[],
+  appendTracks: boolean,
+): Project {
+  const allTracks = appendTracks ? [...project.timeline.tracks, ...tracks] : tracks;
+  let duration = 0;
+  for (const track of allTracks) {
+    for (const clip of track.clips) {
+      duration = Math.max(duration, clip.startTime + clip.duration);
+    }
+  }
+
+  const timeline: Timeline = {
+    ...project.timeline,
+    tracks: allTracks,
+    duration,
+  };
+
+  return {
+    ...project,
+    timeline,
+    mediaLibrary: {
+      items: [...project.mediaLibrary.items, ...placeholders],
+    },
+    modifiedAt: Date.now(),
+  };
+}
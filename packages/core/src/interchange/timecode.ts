@@ -0,0 +1,154 @@
+/**
+ * SMPTE timecode helpers shared by the EDL and FCPXML interchange formats.
+ * NTSC rates (23.976, 29.97, 59.94) are detected from the project frame rate
+ * and use a 1000/1001 clock; 29.97 and 59.94 additionally use drop-frame.
+ */
+export interface TimecodeRate {
+  /** Exact frames per second, e.g. 29.97002997 for NTSC 30. */
+  readonly fps: number;
+  /** Integer frame count per timecode second. */
+  readonly timebase: number;
+  readonly ntsc: boolean;
+  readonly dropFrame: boolean;
+}
+
+export function getTimecodeRate(frameRate: number): TimecodeRate {
+  const timebase = Math.max(1, Math.round(frameRate));
+  const ntsc = Math.abs(frameRate - timebase) > 0.001;
+  return {
+    fps: ntsc ? (timebase * 1000) / 1001 : timebase,
+    timebase,
+    ntsc,
+    dropFrame: ntsc && timebase % 30 === 0,
+  };
+}
+
+export function secondsToFrames(seconds: number, rate: TimecodeRate): number {
+  return Math.round(seconds * rate.fps);
+}
+
+export function framesToSeconds(frames: number, rate: TimecodeRate): number {
+  return frames / rate.fps;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+export function framesToTimecode(frames: number, rate: TimecodeRate): string {
+  let total = Math.max(0, Math.round(frames));
+
+  if (rate.dropFrame) {
+    const dropCount = (rate.timebase / 30) * 2;
+    const framesPerMinute = rate.timebase * 60 - dropCount;
+    const framesPerTenMinutes = framesPerMinute * 10 + dropCount;
+    const tens = Math.floor(total / framesPerTenMinutes);
+    const remainder = total % framesPerTenMinutes;
+    total += dropCount * 9 * tens;
+    if (remainder > dropCount) {
+      total +=
+        dropCount * Math.floor((remainder - dropCount) / framesPerMinute);
+    }
+  }
+
+  const frameUnits = total % rate.timebase;
+  const totalSeconds = Math.floor(total / rate.timebase);
+  const seconds = totalSeconds % 60;
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const separator = rate.dropFrame ? ";" : ":";
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(frameUnits)}`;
+}
+
+/**
+ * Parses HH:MM:SS:FF (or HH:MM:SS;FF for drop-frame) into a frame count.
+ * Returns null when the timecode is malformed or out of range.
+ */
+export function timecodeToFrames(
+  timecode: string,
+  rate: TimecodeRate,
+): number | null {
+  const match = timecode
+    .trim()
+    .match(/^(\d{2}):(\d{2}):(\d{2})[:;.,](\d{2,3})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const frames = parseInt(match[4], 10);
+
+  if (minutes >= 60 || seconds >= 60 || frames >= rate.timebase) {
+    return null;
+  }
+
+  let total =
+    (hours * 3600 + minutes * 60 + seconds) * rate.timebase + frames;
+
+  if (rate.dropFrame) {
+    const dropCount = (rate.timebase / 30) * 2;
+    const totalMinutes = hours * 60 + minutes;
+    total -= dropCount * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return total;
+}
+
+export function secondsToTimecode(seconds: number, frameRate: number): string {
+  const rate = getTimecodeRate(frameRate);
+  return framesToTimecode(secondsToFrames(seconds, rate), rate);
+}
+
+export function timecodeToSeconds(
+  timecode: string,
+  frameRate: number,
+): number | null {
+  const rate = getTimecodeRate(frameRate);
+  const frames = timecodeToFrames(timecode, rate);
+  return frames === null ? null : framesToSeconds(frames, rate);
+}
+
+/** FCPXML rational time, e.g. "1001/30000s" for one NTSC frame. */
+export function framesToRationalTime(
+  frames: number,
+  rate: TimecodeRate,
+): string {
+  if (frames === 0) {
+    return "0s";
+  }
+  if (rate.ntsc) {
+    return `${frames * 1001}/${rate.timebase * 1000}s`;
+  }
+  return `${frames}/${rate.timebase}s`;
+}
+
+export function secondsToRationalTime(
+  seconds: number,
+  rate: TimecodeRate,
+): string {
+  return framesToRationalTime(secondsToFrames(seconds, rate), rate);
+}
+
+export function getFrameDuration(rate: TimecodeRate): string {
+  return rate.ntsc ? `1001/${rate.timebase * 1000}s` : `1/${rate.timebase}s`;
+}
+
+/** Parses "N/Ds", "Ns" or "N.Ms" into seconds. Returns null when malformed. */
+export function parseRationalTime(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)(?:\/(\d+))?s$/);
+  if (!match) {
+    return null;
+  }
+  const numerator = parseFloat(match[1]);
+  const denominator = match[2] ? parseInt(match[2], 10) : 1;
+  if (denominator === 0) {
+    return null;
+  }
+  return numerator / denominator;
+}
@@ -0,0 +1,41 @@
+import type { Project, MediaItem } from "../types/project";
+
+export interface InterchangeImportOptions {
+  /** Keep the existing tracks and add the imported ones after them. */
+  readonly appendTracks?: boolean;
+}
+
+export interface InterchangeImportResult {
+  readonly success: boolean;
+  /** The input project with the imported tracks and placeholder media applied. */
+  readonly project: Project;
+  /** Media referenced by the file that did not match any MediaLibrary item. */
+  readonly placeholders: MediaItem[];
+  readonly warnings: string[];
+  readonly errors: string[];
+}
+
+export interface EDLExportOptions {
+  readonly title?: string;
+  /** Video track to export; CMX3600 carries a single picture track. Defaults to the first video track. */
+  readonly videoTrackId?: string;
+  readonly includeAudio?: boolean;
+  /** Record timecode of the first frame, in seconds. Defaults to 0. */
+  readonly recordStart?: number;
+}
+
+export interface EDLImportOptions extends InterchangeImportOptions {
+  /**
+   * Record timecode that maps to timeline time 0, in seconds. When omitted,
+   * a 01:00:00:00 start is detected and removed automatically.
+   */
+  readonly recordStart?: number;
+}
+
+export interface FCPXMLExportOptions {
+  readonly eventName?: string;
+  /** FCPXML document version. Defaults to 1.9. */
+  readonly version?: string;
+}
+
+export type FCPXMLImportOptions = InterchangeImportOptions;
@@ -0,0 +1,241 @@
+/**
+ * Small XML reader and writer for interchange files. Core also runs outside
+ * the browser (headless rendering, tests) where DOMParser is unavailable, so
+ * FCPXML is handled with this self-contained parser instead.
+ */
+export interface XmlElement {
+  readonly name: string;
+  readonly attributes: Record<string, string>;
+  readonly children: XmlElement[];
+  text: string;
+  /**
+   * Text and child elements in document order, whitespace included. Set by
+   * parseXml; when set on a created element, serializeXml writes it inline,
+   * which mixed content such as TTML paragraphs needs.
+   */
+  readonly nodes?: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITY_MAP: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/** References past U+10FFFF or to a surrogate are left as text. */
+function decodeCodePoint(codePoint: number, match: string): string {
+  return codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff)
+    ? String.fromCodePoint(codePoint)
+    : match;
+}
+
+/**
+ * Decodes character references. Named ones are looked up in `entities`,
+ * so formats with HTML entities such as WebVTT can pass their own table.
+ */
+export function decodeXmlEntities(
+  value: string,
+  entities: Readonly<Record<string, string>> = ENTITY_MAP,
+): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return decodeCodePoint(parseInt(entity.slice(2), 16), match);
+    }
+    if (entity.startsWith("#")) {
+      return decodeCodePoint(parseInt(entity.slice(1), 10), match);
+    }
+    return entities[entity] ?? match;
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Parses an XML document and returns its root element.
+ * Throws an Error describing the first structural problem found.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (!current || !text) return;
+    const decoded = decodeXmlEntities(text);
+    current.nodes?.push(decoded);
+    if (text.trim()) {
+      current.text += decoded;
+    }
+  };
+
+  while (index < source.length) {
+    const open = source.indexOf("<", index);
+    if (open === -1) {
+      appendText(source.slice(index));
+      break;
+    }
+    appendText(source.slice(index, open));
+
+    if (source.startsWith("<!--", open)) {
+      const end = source.indexOf("-->", open);
+      if (end === -1) throw new Error("Unterminated comment");
+      index = end + 3;
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", open)) {
+      const end = source.indexOf("]]>", open);
+      if (end === -1) throw new Error("Unterminated CDATA section");
+      const current = stack[stack.length - 1];
+      if (current) {
+        current.text += source.slice(open + 9, end);
+        current.nodes?.push(source.slice(open + 9, end));
+      }
+      index = end + 3;
+      continue;
+    }
+    if (source.startsWith("<?", open)) {
+      const end = source.indexOf("?>", open);
+      if (end === -1) throw new Error("Unterminated processing instruction");
+      index = end + 2;
+      continue;
+    }
+    if (source.startsWith("<!", open)) {
+      const end = source.indexOf(">", open);
+      if (end === -1) throw new Error("Unterminated declaration");
+      index = end + 1;
+      continue;
+    }
+
+    const close = source.indexOf(">", open);
+    if (close === -1) throw new Error("Unterminated tag");
+    const tag = source.slice(open + 1, close);
+    index = close + 1;
+
+    if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const current = stack.pop();
+      if (!current || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith("/");
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) throw new Error("Missing tag name");
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attribute: RegExpExecArray | null;
+    const attributeSource = body.slice(nameMatch[0].length);
+    while ((attribute = attributePattern.exec(attributeSource)) !== null) {
+      attributes[attribute[1]] = decodeXmlEntities(
+        attribute[3] ?? attribute[4] ?? "",
+      );
+    }
+
+    const element: XmlElement = {
+      name: nameMatch[1],
+      attributes,
+      children: [],
+      text: "",
+      nodes: [],
+    };
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+      parent.nodes?.push(element);
+    } else if (!root) {
+      root = element;
+    } else {
+      throw new Error("Multiple root elements");
+    }
+
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    throw new Error("Document has no root element");
+  }
+  return root;
+}
+
+export function findChild(
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+export function findDescendant(
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const nested = findDescendant(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/** Serializes an element tree with two-space indentation. */
+export function serializeXml(element: XmlElement, depth = 0): string {
+  const indent = "  ".repeat(depth);
+  const attributes = Object.entries(element.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+
+  if (element.nodes && element.nodes.length > 0) {
+    const content = element.nodes
+      .map((node) =>
+        typeof node === "string" ? escapeXml(node) : serializeXml(node),
+      )
+      .join("");
+    return `${indent}<${element.name}${attributes}>${content}</${element.name}>`;
+  }
+  if (element.children.length === 0 && !element.text) {
+    return `${indent}<${element.name}${attributes}/>`;
+  }
+  if (element.children.length === 0) {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`;
+  }
+
+  const children = element.children
+    .map((child) => serializeXml(child, depth + 1))
+    .join("\n");
+  return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+}
+
+export function createXmlElement(
+  name: string,
+  attributes: Record<string, string | number | undefined> = {},
+  children: XmlElement[] = [],
+): XmlElement {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      normalized[key] = String(value);
+    }
+  }
+  return { name, attributes: normalized, children, text: "" };
+}
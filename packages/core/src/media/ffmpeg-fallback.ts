@@ -1,4 +1,18 @@
-import type { ExportProgress } from "../export/types";
+import type {
+  ContentLightLevel,
+  ExportProgress,
+  HdrTransfer,
+  MasteringDisplayMetadata,
+} from "../export/types";
+import type { OutputColorSpace } from "../video/color-management";
+import { encodePng16 } from "../export/apng-encoder";
+import {
+  ContentLightMeter,
+  HdrFrameConverter,
+  createHdrConversion,
+  signalToRgb16,
+} from "../export/hdr-export";
+import { writeHdrMetadata } from "../export/hdr-metadata";
 type FFmpegInstance = {
   load(options?: {
     coreURL?: string;
@@ -605,6 +619,13 @@ export class FFmpegFallback {
       audioBitrate?: string;
       audioBuffer?: AudioBuffer;
       writableStream?: FileSystemWritableFileStream;
+      /** Frames are in `source`; encode them as 10-bit BT.2020. */
+      hdr?: {
+        transfer: HdrTransfer;
+        source: OutputColorSpace;
+        masteringDisplay?: MasteringDisplayMetadata;
+        contentLightLevel?: ContentLightLevel;
+      };
     },
     onProgress?: (progress: ExportProgress) => void,
   ): Promise<Blob | null> {
@@ -621,27 +642,48 @@ export class FFmpegFallback {
       audioBitrate = "192k",
       audioBuffer,
       writableStream,
+      hdr,
     } = options;
 
     const outputFilename = `output.${format}`;
+    // HDR frames go through 16-bit PNGs so no precision is lost before
+    // the 10-bit encode
+    const frameExtension = hdr ? "png" : "jpg";
+    const hdrConverter = hdr
+      ? new HdrFrameConverter(
+          width,
+          height,
+          createHdrConversion(hdr.source, hdr.transfer),
+        )
+      : null;
+    const lightMeter = new ContentLightMeter();
     let frameCount = 0;
 
     try {
       const BATCH_SIZE = 10;
 
       for await (const { image, frameIndex } of frames) {
-        const canvas = new OffscreenCanvas(width, height);
-        const ctx = canvas.getContext("2d")!;
-        ctx.fillStyle = "#000000";
-        ctx.fillRect(0, 0, width, height);
-        ctx.drawImage(image, 0, 0, width, height);
-
-        const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.95 });
-        const arrayBuffer = await blob.arrayBuffer();
-        const data = new Uint8Array(arrayBuffer);
+        let data: Uint8Array;
+        if (hdrConverter) {
+          const signal = hdrConverter.convert(image);
+          lightMeter.add(signal);
+          data = await encodePng16(signalToRgb16(signal), width, height);
+        } else {
+          const canvas = new OffscreenCanvas(width, height);
+          const ctx = canvas.getContext("2d")!;
+          ctx.fillStyle = "#000000";
+          ctx.fillRect(0, 0, width, height);
+          ctx.drawImage(image, 0, 0, width, height);
+
+          const blob = await canvas.convertToBlob({
+            type: "image/jpeg",
+            quality: 0.95,
+          });
+          data = new Uint8Array(await blob.arrayBuffer());
+        }
 
         const paddedIndex = String(frameIndex).padStart(6, "0");
-        const frameFilename = `frame_${paddedIndex}.jpg`;
+        const frameFilename = `frame_${paddedIndex}.${frameExtension}`;
 
         await this.ffmpeg!.writeFile(frameFilename, data);
         frameCount++;
@@ -689,7 +731,7 @@ export class FFmpegFallback {
 
       const ffmpegArgs = [
         "-framerate", frameRate.toString(),
-        "-i", "frame_%06d.jpg",
+        "-i", `frame_%06d.${frameExtension}`,
       ];
 
       if (hasAudio) {
@@ -698,7 +740,75 @@ export class FFmpegFallback {
 
       ffmpegArgs.push("-threads", "4");
 
-      if (format === "mp4") {
+      const contentLightLevel =
+        hdr?.contentLightLevel ?? lightMeter.getLevels();
+      if (hdr) {
+        const transfer = hdr.transfer === "pq" ? "smpte2084" : "arib-std-b67";
+        ffmpegArgs.push(
+          "-vf",
+          "scale=out_color_matrix=bt2020:out_range=tv,format=yuv420p10le",
+          "-color_primaries",
+          "bt2020",
+          "-color_trc",
+          transfer,
+          "-colorspace",
+          "bt2020nc",
+          "-color_range",
+          "tv",
+        );
+
+        if (format === "mp4") {
+          const x265Params = [
+            "hdr-opt=1",
+            "repeat-headers=1",
+            "colorprim=bt2020",
+            `transfer=${transfer}`,
+            "colormatrix=bt2020nc",
+          ];
+          const display = hdr.masteringDisplay;
+          if (hdr.transfer === "pq" && display) {
+            const xy = ({ x, y }: { x: number; y: number }) =>
+              `(${Math.round(x * 50000)},${Math.round(y * 50000)})`;
+            x265Params.push(
+              `master-display=G${xy(display.green)}B${xy(display.blue)}R${xy(display.red)}WP${xy(display.whitePoint)}L(${Math.round(display.maxLuminance * 10000)},${Math.round(display.minLuminance * 10000)})`,
+              `max-cll=${contentLightLevel.maxCLL},${contentLightLevel.maxFALL}`,
+            );
+          }
+          ffmpegArgs.push(
+            "-c:v",
+            "libx265",
+            "-preset",
+            "fast",
+            "-crf",
+            "22",
+            "-maxrate",
+            videoBitrate,
+            "-bufsize",
+            this.calculateBufsize(videoBitrate),
+            "-tag:v",
+            "hvc1",
+            "-x265-params",
+            x265Params.join(":"),
+          );
+        } else {
+          ffmpegArgs.push(
+            "-c:v",
+            "libvpx-vp9",
+            "-profile:v",
+            "2",
+            "-crf",
+            "31",
+            "-b:v",
+            "0",
+            "-deadline",
+            "good",
+            "-cpu-used",
+            "4",
+            "-row-mt",
+            "1",
+          );
+        }
+      } else if (format === "mp4") {
         ffmpegArgs.push(
           "-c:v", "libx264",
           "-preset", "fast",
@@ -760,7 +870,14 @@ export class FFmpegFallback {
         });
       }
 
-      const outputData = await this.ffmpeg!.readFile(outputFilename);
+      let outputData = await this.ffmpeg!.readFile(outputFilename);
+      if (hdr) {
+        outputData = writeHdrMetadata(outputData, format, {
+          transfer: hdr.transfer,
+          masteringDisplay: hdr.masteringDisplay,
+          contentLightLevel,
+        });
+      }
       const mimeType = format === "mp4" ? "video/mp4" : "video/webm";
 
       if (writableStream) {
@@ -803,9 +920,12 @@ export class FFmpegFallback {
       for (let i = 0; i < frameCount; i++) {
         const paddedIndex = String(i).padStart(6, "0");
         try {
-          await this.ffmpeg!.deleteFile(`frame_${paddedIndex}.jpg`);
+          await this.ffmpeg!.deleteFile(
+            `frame_${paddedIndex}.${frameExtension}`,
+          );
         } catch {}
       }
+      hdrConverter?.dispose();
       try {
         await this.ffmpeg!.deleteFile("audio.wav");
       } catch {}
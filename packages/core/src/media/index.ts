@@ -29,6 +29,26 @@ export {
 } from "./media-import-service";
 export type { MediaImportOptions } from "./media-import-service";
 
+// Scene Detection
+export {
+  detectSceneCuts,
+  computeFrameHistogram,
+  histogramDistance,
+  sceneCutsToMarkers,
+  getSceneCutTimes,
+  getClipSceneCuts,
+  getTimelineSceneCuts,
+  DEFAULT_SCENE_DETECTION_OPTIONS,
+} from "./scene-detection";
+export type {
+  SceneCut,
+  SceneCutType,
+  SceneDetectionOptions,
+  HistogramSample,
+  SceneFrame,
+  TimelineSceneCut,
+} from "./scene-detection";
+
 // Waveform Generator
 export {
   WaveformGenerator,
@@ -18,6 +18,11 @@ import {
   PROXY_THRESHOLDS,
   type ProxySettings,
 } from "./ffmpeg-fallback";
+import {
+  sceneCutsToMarkers,
+  type SceneCut,
+  type SceneDetectionOptions,
+} from "./scene-detection";
 
 export interface MediaImportOptions {
   generateThumbnails?: boolean;
@@ -27,6 +32,9 @@ export interface MediaImportOptions {
   waveformSamplesPerSecond?: number;
   useFallback?: boolean;
   quickMode?: boolean;
+  /** Look for shot changes in video; off by default as it decodes the file. */
+  detectSceneCuts?: boolean;
+  sceneDetection?: SceneDetectionOptions;
 }
 
 const DEFAULT_OPTIONS: Required<MediaImportOptions> = {
@@ -37,6 +45,8 @@ const DEFAULT_OPTIONS: Required<MediaImportOptions> = {
   waveformSamplesPerSecond: 100,
   useFallback: true,
   quickMode: false,
+  detectSceneCuts: false,
+  sceneDetection: {},
 };
 
 export class MediaImportService {
@@ -197,6 +207,28 @@ export class MediaImportService {
         }
       }
 
+      let sceneCuts: SceneCut[] | undefined;
+      if (
+        opts.detectSceneCuts &&
+        mediaType === "video" &&
+        metadata.hasVideo &&
+        !opts.quickMode
+      ) {
+        try {
+          sceneCuts = await this.mediaEngine.detectSceneCuts(
+            file,
+            metadata.duration,
+            opts.sceneDetection,
+          );
+        } catch (error) {
+          warnings.push(
+            `Scene detection failed: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+          );
+        }
+      }
+
       const processedMedia: ProcessedMedia = {
         id: uuidv4(),
         name: file.name,
@@ -205,6 +237,7 @@ export class MediaImportService {
         metadata,
         thumbnails,
         waveformData,
+        sceneCuts,
       };
 
       return {
@@ -349,6 +382,12 @@ export class MediaImportService {
       metadata,
       thumbnailUrl: thumbnailUrl || null,
       waveformData: processedMedia.waveformData?.peaks || null,
+      ...(processedMedia.sceneCuts && {
+        markers: sceneCutsToMarkers(processedMedia.sceneCuts),
+      }),
+      ...(processedMedia.metadata.colorSpace && {
+        colorSpace: processedMedia.metadata.colorSpace,
+      }),
     };
   }
 
@@ -531,6 +570,17 @@ export class MediaImportService {
     }
     return this.mediaEngine.generateWaveform(file, samplesPerSecond);
   }
+
+  async detectSceneCutsForMedia(
+    file: File | Blob,
+    duration: number,
+    options: SceneDetectionOptions = {},
+  ): Promise<SceneCut[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+    return this.mediaEngine.detectSceneCuts(file, duration, options);
+  }
 }
 let importServiceInstance: MediaImportService | null = null;
 
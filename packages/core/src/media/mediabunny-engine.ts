@@ -7,6 +7,18 @@ import type {
   VideoFrameResult,
   FrameCacheEntry,
 } from "./types";
+import {
+  DEFAULT_SCENE_DETECTION_OPTIONS,
+  computeFrameHistogram,
+  detectSceneCuts,
+  type HistogramSample,
+  type SceneCut,
+  type SceneDetectionOptions,
+} from "./scene-detection";
+import {
+  inferColorSpace,
+  type InputColorSpace,
+} from "../video/color-management";
 
 import type {
   InputVideoTrack,
@@ -335,6 +347,7 @@ export class MediaBunnyEngine {
       let rotation = 0;
       let canDecodeVideo = false;
       let videoBitrate = 0;
+      let colorSpace: InputColorSpace | undefined;
 
       if (videoTrack) {
         width = videoTrack.displayWidth;
@@ -351,6 +364,12 @@ export class MediaBunnyEngine {
         } catch {
           frameRate = 30; // Default
         }
+
+        try {
+          colorSpace = inferColorSpace(await videoTrack.getColorSpace());
+        } catch {
+          colorSpace = undefined;
+        }
       }
 
       let sampleRate = 0;
@@ -380,6 +399,7 @@ export class MediaBunnyEngine {
         rotation,
         canDecode: canDecodeVideo || canDecodeAudio,
         videoBitrate,
+        colorSpace,
       };
     } finally {
       input[Symbol.dispose]?.();
@@ -468,6 +488,95 @@ export class MediaBunnyEngine {
     thumbnailWidth: number = 80,
     interval: number = 1,
   ): Promise<ThumbnailResult[]> {
+    const thumbnails: ThumbnailResult[] = [];
+
+    for await (const frame of this.sampleFrames(
+      file,
+      duration,
+      thumbnailWidth,
+      interval,
+    )) {
+      // Clone the canvas
+      const clone = new OffscreenCanvas(
+        frame.canvas.width,
+        frame.canvas.height,
+      );
+      const ctx = clone.getContext("2d");
+      if (ctx) {
+        ctx.drawImage(frame.canvas, 0, 0);
+      }
+      let dataUrl: string | undefined;
+      try {
+        const blob = await clone.convertToBlob({
+          type: "image/jpeg",
+          quality: 0.6,
+        });
+        dataUrl = URL.createObjectURL(blob);
+      } catch {}
+
+      thumbnails.push({
+        timestamp: frame.timestamp,
+        canvas: clone,
+        dataUrl,
+      });
+    }
+
+    return thumbnails;
+  }
+
+  /**
+   * Finds shot changes by decoding small frames at a fixed interval, the
+   * same way the filmstrip is built, and comparing colour histograms.
+   */
+  async detectSceneCuts(
+    file: File | Blob,
+    duration: number,
+    options: SceneDetectionOptions = {},
+  ): Promise<SceneCut[]> {
+    const { interval, sampleWidth } = {
+      ...DEFAULT_SCENE_DETECTION_OPTIONS,
+      ...options,
+    };
+    const samples: HistogramSample[] = [];
+    let canvas: OffscreenCanvas | null = null;
+    let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+    for await (const frame of this.sampleFrames(
+      file,
+      duration,
+      sampleWidth,
+      interval,
+    )) {
+      const { width, height } = frame.canvas;
+      if (!canvas || canvas.width !== width || canvas.height !== height) {
+        canvas = new OffscreenCanvas(width, height);
+        ctx = canvas.getContext("2d", { willReadFrequently: true });
+      }
+      if (!ctx) break;
+      ctx.drawImage(frame.canvas, 0, 0);
+      samples.push({
+        time: frame.time,
+        histogram: computeFrameHistogram(ctx.getImageData(0, 0, width, height)),
+      });
+    }
+
+    return detectSceneCuts(samples, options);
+  }
+
+  /**
+   * Decodes evenly spaced frames at a small size. `time` is measured from
+   * the first frame, `timestamp` is the container's own.
+   */
+  private async *sampleFrames(
+    file: File | Blob,
+    duration: number,
+    width: number,
+    interval: number,
+  ): AsyncGenerator<{
+    time: number;
+    timestamp: number;
+    canvas: OffscreenCanvas | HTMLCanvasElement;
+  }> {
     this.ensureInitialized();
     const { CanvasSink } = this.mediabunny!;
     const input = await this.createInput(file);
@@ -475,7 +584,7 @@ export class MediaBunnyEngine {
     try {
       const videoTrack = await input.getPrimaryVideoTrack();
       if (!videoTrack) {
-        return [];
+        return;
       }
 
       const canDecode = await videoTrack.canDecode();
@@ -483,11 +592,11 @@ export class MediaBunnyEngine {
         throw new Error("Cannot decode video track");
       }
       const aspectRatio = videoTrack.displayHeight / videoTrack.displayWidth;
-      const height = Math.round(thumbnailWidth * aspectRatio);
+      const height = Math.round(width * aspectRatio);
       const count = Math.max(1, Math.ceil(duration / interval));
 
       const sink = new CanvasSink(videoTrack, {
-        width: thumbnailWidth,
+        width,
         height,
         fit: "cover" as const,
         poolSize: Math.min(count, 20),
@@ -499,37 +608,15 @@ export class MediaBunnyEngine {
         (_, i) => startTimestamp + i * interval,
       );
 
-      const thumbnails: ThumbnailResult[] = [];
-
       for await (const result of sink.canvasesAtTimestamps(timestamps)) {
         if (result) {
-          // Clone the canvas
-          const clone = new OffscreenCanvas(
-            result.canvas.width,
-            result.canvas.height,
-          );
-          const ctx = clone.getContext("2d");
-          if (ctx) {
-            ctx.drawImage(result.canvas, 0, 0);
-          }
-          let dataUrl: string | undefined;
-          try {
-            const blob = await clone.convertToBlob({
-              type: "image/jpeg",
-              quality: 0.6,
-            });
-            dataUrl = URL.createObjectURL(blob);
-          } catch {}
-
-          thumbnails.push({
+          yield {
+            time: result.timestamp - startTimestamp,
             timestamp: result.timestamp,
-            canvas: clone,
-            dataUrl,
-          });
+            canvas: result.canvas,
+          };
         }
       }
-
-      return thumbnails;
     } finally {
       input[Symbol.dispose]?.();
     }
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeFrameHistogram,
+  detectSceneCuts,
+  getClipSceneCuts,
+  getTimelineSceneCuts,
+  histogramDistance,
+  sceneCutsToMarkers,
+  type HistogramSample,
+  type SceneFrame,
+} from "./scene-detection";
+import type { MediaItem } from "../types/project";
+import type { Clip, Timeline } from "../types/timeline";
+
+const WIDTH = 32;
+const HEIGHT = 18;
+
+/** A lit scene: a colour wash with a sinusoidal texture drifting over it. */
+const texture = (
+  colour: [number, number, number],
+  phase: number,
+): SceneFrame => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      const shade = 40 * Math.sin(x * 0.4 + phase) * Math.cos(y * 0.3);
+      data[i] = colour[0] + shade;
+      data[i + 1] = colour[1] + shade;
+      data[i + 2] = colour[2] + shade;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const mix = (a: SceneFrame, b: SceneFrame, amount: number): SceneFrame => ({
+  width: a.width,
+  height: a.height,
+  data: a.data.map((value, i) => value + (b.data[i] - value) * amount),
+});
+
+const STREET: [number, number, number] = [200, 160, 90];
+const NIGHT: [number, number, number] = [30, 40, 110];
+const FOREST: [number, number, number] = [60, 150, 60];
+
+const sample = (frames: SceneFrame[], interval = 0.1): HistogramSample[] =>
+  frames.map((frame, index) => ({
+    time: index * interval,
+    histogram: computeFrameHistogram(frame),
+  }));
+
+describe("computeFrameHistogram", () => {
+  it("should be normalized and tell scenes apart", () => {
+    const street = computeFrameHistogram(texture(STREET, 0));
+    const total = street.reduce((sum, bin) => sum + bin, 0);
+    expect(total).toBeCloseTo(1, 5);
+    expect(
+      histogramDistance(street, computeFrameHistogram(texture(STREET, 0.1))),
+    ).toBeLessThan(0.05);
+    expect(
+      histogramDistance(street, computeFrameHistogram(texture(NIGHT, 0))),
+    ).toBeGreaterThan(0.9);
+  });
+});
+
+describe("detectSceneCuts", () => {
+  it("should find a hard cut and a dissolve but not camera drift", () => {
+    const frames: SceneFrame[] = [];
+    // Street for 2 s with the texture drifting, then a hard cut to night
+    for (let i = 0; i < 20; i++) frames.push(texture(STREET, i * 0.05));
+    for (let i = 0; i < 20; i++) frames.push(texture(NIGHT, i * 0.05));
+    // A 1 s dissolve into the forest
+    for (let i = 1; i <= 10; i++) {
+      frames.push(mix(texture(NIGHT, 1), texture(FOREST, 0), i / 10));
+    }
+    for (let i = 0; i < 20; i++) frames.push(texture(FOREST, i * 0.05));
+
+    const cuts = detectSceneCuts(sample(frames));
+
+    expect(cuts.map((cut) => cut.type)).toEqual(["hard", "soft"]);
+    expect(cuts[0].time).toBeCloseTo(2, 6);
+    expect(cuts[1].time).toBeGreaterThan(4);
+    expect(cuts[1].time).toBeLessThan(5);
+    expect(cuts[1].score).toBeGreaterThan(0.35);
+  });
+
+  it("should drop cuts closer than the minimum scene", () => {
+    const frames = [
+      ...Array.from({ length: 10 }, () => texture(STREET, 0)),
+      ...Array.from({ length: 2 }, () => texture(NIGHT, 0)),
+      ...Array.from({ length: 10 }, () => texture(FOREST, 0)),
+    ];
+
+    const cuts = detectSceneCuts(sample(frames), { minSceneDuration: 0.5 });
+
+    expect(cuts.map((cut) => Math.round(cut.time * 10) / 10)).toEqual([1]);
+  });
+});
+
+describe("getTimelineSceneCuts", () => {
+  it("should place media cuts on the timeline through trims and speed", () => {
+    const media = {
+      id: "media-1",
+      markers: sceneCutsToMarkers([
+        { time: 1, type: "hard", score: 0.8 },
+        { time: 4, type: "soft", score: 0.4 },
+        { time: 9, type: "hard", score: 0.7 },
+      ]),
+    } as MediaItem;
+    const timeline = {
+      tracks: [
+        {
+          clips: [
+            {
+              id: "clip-1",
+              mediaId: "media-1",
+              startTime: 10,
+              duration: 3,
+              inPoint: 2,
+              outPoint: 8,
+              speed: 2,
+            },
+          ],
+        },
+      ],
+    } as unknown as Timeline;
+
+    expect(media.markers?.[1]).toMatchObject({
+      label: "Shot 3",
+      kind: "scene-cut",
+      cutType: "soft",
+    });
+    expect(getTimelineSceneCuts(timeline, [media])).toEqual([
+      { time: 11, clipId: "clip-1", cutType: "soft" },
+    ]);
+  });
+
+  it("should mirror cuts on a reversed clip", () => {
+    const media = {
+      id: "media-1",
+      markers: sceneCutsToMarkers([
+        { time: 3, type: "hard", score: 0.8 },
+        { time: 7, type: "soft", score: 0.4 },
+      ]),
+    } as MediaItem;
+    const clip = {
+      id: "clip-1",
+      mediaId: "media-1",
+      startTime: 10,
+      duration: 3,
+      inPoint: 2,
+      outPoint: 8,
+      speed: 2,
+      reversed: true,
+    } as Clip;
+
+    // Played backwards, the cut near the out point comes first
+    expect(getClipSceneCuts(clip, media)).toEqual([
+      { time: 10.5, clipId: "clip-1", cutType: "soft" },
+      { time: 12.5, clipId: "clip-1", cutType: "hard" },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import type { MediaItem, MediaMarker } from "../types/project";
+import type { Clip, Timeline } from "../types/timeline";
+
+/** A hard cut changes shot between two frames; a soft one dissolves or fades. */
+export type SceneCutType = "hard" | "soft";
+
+export interface SceneCut {
+  /** Seconds into the media where the new shot starts. */
+  time: number;
+  type: SceneCutType;
+  /** Histogram distance across the cut, 0 to 1. */
+  score: number;
+}
+
+export interface SceneDetectionOptions {
+  /** Seconds between analysed frames; also the precision of cut times. */
+  interval?: number;
+  /** Width frames are scaled to before building histograms. */
+  sampleWidth?: number;
+  /**
+   * Distance between neighbouring frames that is a cut on its own, and the
+   * total change a gradual transition must add up to.
+   */
+  hardCutThreshold?: number;
+  /** Frame-to-frame distance that may be part of a dissolve or fade. */
+  softCutThreshold?: number;
+  /** Cuts closer than this to the previous one are dropped. */
+  minSceneDuration?: number;
+}
+
+export interface HistogramSample {
+  time: number;
+  histogram: Float32Array;
+}
+
+/** RGBA pixels, as read back from a canvas. */
+export interface SceneFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_SCENE_DETECTION_OPTIONS: Required<SceneDetectionOptions> =
+  {
+    interval: 0.1,
+    sampleWidth: 64,
+    hardCutThreshold: 0.35,
+    softCutThreshold: 0.05,
+    minSceneDuration: 0.5,
+  };
+
+/** Levels per colour channel; the histogram has this many cubed bins. */
+const LEVELS = 4;
+
+/** Normalized joint RGB histogram of a frame. */
+export function computeFrameHistogram(frame: SceneFrame): Float32Array {
+  const histogram = new Float32Array(LEVELS ** 3);
+  const pixels = frame.width * frame.height;
+  if (pixels === 0) return histogram;
+  for (let i = 0; i < pixels * 4; i += 4) {
+    const r = (frame.data[i] * LEVELS) >> 8;
+    const g = (frame.data[i + 1] * LEVELS) >> 8;
+    const b = (frame.data[i + 2] * LEVELS) >> 8;
+    histogram[(r * LEVELS + g) * LEVELS + b]++;
+  }
+  for (let i = 0; i < histogram.length; i++) histogram[i] /= pixels;
+  return histogram;
+}
+
+/** Share of pixels that would have to change bin, 0 (same) to 1. */
+export function histogramDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 2;
+}
+
+/**
+ * Twin-threshold shot boundary detection. A single step over the hard
+ * threshold is a cut. A run of steps over the soft threshold is a
+ * candidate transition, and becomes a soft cut when the frames either
+ * side of the run differ as much as a hard cut would; slow camera moves
+ * rarely add up that far.
+ */
+export function detectSceneCuts(
+  samples: readonly HistogramSample[],
+  options: SceneDetectionOptions = {},
+): SceneCut[] {
+  const { hardCutThreshold, softCutThreshold, minSceneDuration } = {
+    ...DEFAULT_SCENE_DETECTION_OPTIONS,
+    ...options,
+  };
+  const cuts: SceneCut[] = [];
+  const add = (cut: SceneCut) => {
+    const previous = cuts[cuts.length - 1]?.time ?? samples[0].time;
+    if (cut.time - previous >= minSceneDuration) cuts.push(cut);
+  };
+
+  let runStart = -1;
+  const endRun = (last: number) => {
+    if (runStart < 0) return;
+    const score = histogramDistance(
+      samples[runStart].histogram,
+      samples[last].histogram,
+    );
+    if (score >= hardCutThreshold) {
+      const middle = Math.round((runStart + 1 + last) / 2);
+      add({ time: samples[middle].time, type: "soft", score });
+    }
+    runStart = -1;
+  };
+
+  for (let i = 1; i < samples.length; i++) {
+    const step = histogramDistance(
+      samples[i - 1].histogram,
+      samples[i].histogram,
+    );
+    if (step >= hardCutThreshold) {
+      endRun(i - 1);
+      add({ time: samples[i].time, type: "hard", score: step });
+    } else if (step >= softCutThreshold) {
+      if (runStart < 0) runStart = i - 1;
+    } else {
+      endRun(i - 1);
+    }
+  }
+  endRun(samples.length - 1);
+  return cuts;
+}
+
+/** Scene cuts as markers to keep on a media item. */
+export function sceneCutsToMarkers(cuts: readonly SceneCut[]): MediaMarker[] {
+  return cuts.map((cut, index) => ({
+    id: `scene-cut-${index + 1}`,
+    time: cut.time,
+    label: `Shot ${index + 2}`,
+    kind: "scene-cut",
+    cutType: cut.type,
+  }));
+}
+
+/** Media times of a media item's scene cut markers, in order. */
+export function getSceneCutTimes(mediaItem: MediaItem): number[] {
+  return (mediaItem.markers ?? [])
+    .filter((marker) => marker.kind === "scene-cut")
+    .map((marker) => marker.time)
+    .sort((a, b) => a - b);
+}
+
+export interface TimelineSceneCut {
+  time: number;
+  clipId: string;
+  cutType?: SceneCutType;
+}
+
+/**
+ * Where the detected cuts of a clip's media fall on the timeline, mapped
+ * through its in point, speed and direction, skipping those trimmed away.
+ * A reversed clip plays from its out point, so its cuts are mirrored.
+ */
+export function getClipSceneCuts(
+  clip: Clip,
+  mediaItem: MediaItem | undefined,
+): TimelineSceneCut[] {
+  const speed = clip.speed ?? 1;
+  return (mediaItem?.markers ?? [])
+    .filter(
+      (marker) =>
+        marker.kind === "scene-cut" &&
+        marker.time > clip.inPoint &&
+        marker.time < clip.outPoint,
+    )
+    .map((marker) => ({
+      time:
+        clip.startTime +
+        (clip.reversed
+          ? clip.outPoint - marker.time
+          : marker.time - clip.inPoint) /
+          speed,
+      clipId: clip.id,
+      cutType: marker.cutType,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Scene cuts of every clip in the timeline, in time order. */
+export function getTimelineSceneCuts(
+  timeline: Pick<Timeline, "tracks">,
+  mediaItems: readonly MediaItem[],
+): TimelineSceneCut[] {
+  const media = new Map(mediaItems.map((item) => [item.id, item]));
+  return timeline.tracks
+    .flatMap((track) =>
+      track.clips.flatMap((clip) =>
+        getClipSceneCuts(clip, media.get(clip.mediaId)),
+      ),
+    )
+    .sort((a, b) => a.time - b.time);
+}
@@ -1,3 +1,6 @@
+import type { SceneCut } from "./scene-detection";
+import type { InputColorSpace } from "../video/color-management";
+
 export interface ProcessedMedia {
   id: string;
   name: string;
@@ -6,6 +9,8 @@ export interface ProcessedMedia {
   metadata: MediaTrackInfo;
   thumbnails: ThumbnailResult[];
   waveformData: WaveformData | null;
+  /** Shot changes, when scene detection ran on import. */
+  sceneCuts?: SceneCut[];
 }
 
 export interface MediaTrackInfo {
@@ -24,6 +29,8 @@ export interface MediaTrackInfo {
   canDecode: boolean;
   videoBitrate?: number;
   audioBitrate?: number;
+  /** Inferred from the video track's color tags, when it has any. */
+  colorSpace?: InputColorSpace;
 }
 
 export interface ThumbnailResult {
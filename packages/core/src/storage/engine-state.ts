@@ -0,0 +1,80 @@
+import type { Project } from "../types/project";
+import type { Clip } from "../types/timeline";
+
+/**
+ * An engine that keeps clip state in its own maps for fast lookup while the
+ * project holds the persisted copy. Engines hydrate whenever a project is
+ * loaded, imported or restored, and write back before it is saved, shared
+ * or exported.
+ */
+export interface ProjectStateEngine {
+  /** Replaces everything the engine holds with the project's state. */
+  hydrateFromProject(project: Project): void;
+  /** Returns a copy of project carrying the engine's current state. */
+  writeToProject(project: Project): Project;
+}
+
+export function getProjectClips(project: Project): Clip[] {
+  return project.timeline.tracks.flatMap((track) => track.clips);
+}
+
+export function mapProjectClips(
+  project: Project,
+  transform: (clip: Clip) => Clip,
+): Project {
+  return {
+    ...project,
+    timeline: {
+      ...project.timeline,
+      tracks: project.timeline.tracks.map((track) => ({
+        ...track,
+        clips: track.clips.map(transform),
+      })),
+    },
+  };
+}
+
+type ClipStateKey =
+  | "masks"
+  | "speedData"
+  | "colorGrade"
+  | "chromaKey"
+  | "motionTracks"
+  | "planarTracks"
+  | "stabilization";
+
+/**
+ * Sets a persisted state field on a clip, leaving the field out entirely
+ * when there is nothing to store so untouched clips serialize as before.
+ */
+export function withClipState<K extends ClipStateKey>(
+  clip: Clip,
+  key: K,
+  value: Clip[K] | undefined,
+): Clip {
+  const next: Record<string, unknown> = { ...clip };
+  delete next[key];
+  if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+    next[key] = structuredClone(value);
+  }
+  return next as unknown as Clip;
+}
+
+export function hydrateEngines(
+  project: Project,
+  engines: readonly ProjectStateEngine[],
+): void {
+  for (const engine of engines) {
+    engine.hydrateFromProject(project);
+  }
+}
+
+export function writeEngineState(
+  project: Project,
+  engines: readonly ProjectStateEngine[],
+): Project {
+  return engines.reduce(
+    (current, engine) => engine.writeToProject(current),
+    project,
+  );
+}
@@ -2,3 +2,4 @@ export * from "./types";
 export * from "./storage-engine";
 export * from "./cache-manager";
 export * from "./project-serializer";
+export * from "./engine-state";
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi } from "vitest";
+import { ProjectSerializer, SCHEMA_VERSION } from "./project-serializer";
+import { hydrateEngines, writeEngineState } from "./engine-state";
+import type { IStorageEngine } from "./types";
+import { SpeedEngine } from "../video/speed-engine";
+import { MultiCamEngine } from "../video/multicam-engine";
+import { MotionTrackingEngine } from "../video/motion-tracking-engine";
+import { ChromaKeyEngine } from "../video/chroma-key-engine";
+import { MaskEngine } from "../video/mask-engine";
+import type { Clip, Project, Track } from "../types";
+
+vi.stubGlobal(
+  "OffscreenCanvas",
+  class {
+    getContext() {
+      return {};
+    }
+  },
+);
+
+const createClip = (overrides: Partial<Clip> = {}): Clip => ({
+  id: "clip-1",
+  mediaId: "media-1",
+  trackId: "track-1",
+  startTime: 0,
+  duration: 5,
+  inPoint: 0,
+  outPoint: 5,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createTrack = (clips: Clip[]): Track => ({
+  id: "track-1",
+  type: "video",
+  name: "Video 1",
+  clips,
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+});
+
+const createProject = (clips: Clip[] = [createClip()]): Project => ({
+  id: "project-1",
+  name: "Interview",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: {
+    tracks: [createTrack(clips)],
+    subtitles: [],
+    duration: 10,
+    markers: [],
+  },
+});
+
+const createSerializer = () => new ProjectSerializer({} as IStorageEngine);
+
+const createEngines = () => {
+  const masks = new MaskEngine({ width: 1920, height: 1080 });
+  const speed = new SpeedEngine();
+  const chromaKey = new ChromaKeyEngine({ width: 1920, height: 1080 });
+  const tracking = new MotionTrackingEngine();
+  const multicam = new MultiCamEngine();
+  return {
+    masks,
+    speed,
+    chromaKey,
+    tracking,
+    multicam,
+    all: [masks, speed, chromaKey, tracking, multicam],
+  };
+};
+
+describe("ProjectSerializer schema migration", () => {
+  it("should upgrade 1.0.0 files and drop stray engine fields", () => {
+    const legacy = createProject([
+      createClip({ chromaKey: "green" as unknown as Clip["chromaKey"] }),
+    ]);
+    const json = JSON.stringify({ version: "1.0.0", project: legacy });
+
+    const project = createSerializer().importFromJson(json);
+    expect(project.timeline.tracks[0].clips[0]).not.toHaveProperty(
+      "chromaKey",
+    );
+    expect(project.timeline.tracks[0].clips[0].id).toBe("clip-1");
+  });
+
+  it("should write the current schema version", () => {
+    const json = createSerializer().exportToJson(createProject());
+    expect(JSON.parse(json).version).toBe(SCHEMA_VERSION);
+    expect(createSerializer().validateProjectJson(json).warnings).toEqual([]);
+  });
+});
+
+describe("engine state persistence", () => {
+  it("should survive a save and reload through the project file", () => {
+    const source = createEngines();
+    source.masks.createShapeMask("clip-1", {
+      type: "rectangle",
+      x: 0.25,
+      y: 0.25,
+      width: 0.5,
+      height: 0.5,
+    });
+    source.speed.setClipSpeed("clip-1", 2, 5);
+    source.speed.createFreezeFrame("clip-1", 1, 1, 0.5);
+    source.chromaKey.enableChromaKey("clip-1");
+    const group = source.multicam.createGroup("Interview", ["clip-1"]);
+    source.multicam.addSwitch(group.id, group.angles[0].id, 2);
+
+    const saved = writeEngineState(createProject(), source.all);
+    const clip = saved.timeline.tracks[0].clips[0];
+    expect(clip.masks).toHaveLength(1);
+    expect(clip.speedData?.baseSpeed).toBe(2);
+    expect(clip.chromaKey?.enabled).toBe(true);
+    expect(saved.timeline.multicamGroups?.[0].switches).toHaveLength(1);
+
+    const serializer = createSerializer();
+    const loaded = serializer.importFromJson(serializer.exportToJson(saved));
+    const target = createEngines();
+    hydrateEngines(loaded, target.all);
+
+    expect(target.masks.getMasksForClip("clip-1")).toEqual(
+      source.masks.getMasksForClip("clip-1"),
+    );
+    expect(target.speed.getClipSpeedData("clip-1")).toEqual(
+      source.speed.getClipSpeedData("clip-1"),
+    );
+    expect(target.chromaKey.getSettings("clip-1")).toEqual(
+      source.chromaKey.getSettings("clip-1"),
+    );
+    expect(target.multicam.getAllGroups()).toEqual(
+      source.multicam.getAllGroups(),
+    );
+    expect(target.multicam.getSwitches(group.id)).toEqual(
+      source.multicam.getSwitches(group.id),
+    );
+  });
+
+  it("should round-trip tracks and attachments through the tracker", () => {
+    const track = {
+      trackId: "track-a",
+      clipId: "clip-1",
+      keyframes: [{ frame: 0, position: { x: 10, y: 20 } }],
+      confidence: [1],
+      lostFrames: [],
+      region: { x: 0, y: 0, width: 32, height: 32 },
+      frameRate: 30,
+    };
+    const project = createProject([createClip({ motionTracks: [track] })]);
+    const withAttachments: Project = {
+      ...project,
+      timeline: {
+        ...project.timeline,
+        trackingAttachments: [
+          {
+            elementId: "title-1",
+            trackId: "track-a",
+            offset: { x: 5, y: 0 },
+            applyScale: true,
+            applyRotation: false,
+          },
+          // Points at a track that no longer exists
+          {
+            elementId: "title-2",
+            trackId: "track-gone",
+            offset: { x: 0, y: 0 },
+            applyScale: true,
+            applyRotation: true,
+          },
+        ],
+      },
+    };
+
+    const tracking = new MotionTrackingEngine();
+    tracking.hydrateFromProject(withAttachments);
+    expect(tracking.getTrackingDataForClip("clip-1")).toEqual([track]);
+    expect(tracking.hasTracking("title-1")).toBe(true);
+    expect(tracking.hasTracking("title-2")).toBe(false);
+
+    const written = tracking.writeToProject(createProject());
+    expect(written.timeline.tracks[0].clips[0].motionTracks).toEqual([track]);
+    expect(written.timeline.trackingAttachments).toEqual([
+      withAttachments.timeline.trackingAttachments![0],
+    ]);
+  });
+
+  it("should round-trip planar tracks and corner pins", () => {
+    const corners = {
+      topLeft: { x: 0, y: 0 },
+      topRight: { x: 100, y: 0 },
+      bottomRight: { x: 100, y: 50 },
+      bottomLeft: { x: 0, y: 50 },
+    };
+    const tracking = new MotionTrackingEngine();
+    tracking.hydrateFromProject(
+      createProject([
+        createClip({
+          planarTracks: [
+            {
+              trackId: "planar-a",
+              clipId: "clip-1",
+              referenceFrame: 0,
+              referenceCorners: corners,
+              keyframes: [
+                { frame: 0, corners, homography: [1, 0, 0, 0, 1, 0, 0, 0, 1] },
+              ],
+              confidence: [1],
+              lostFrames: [],
+              frameRate: 30,
+            },
+          ],
+        }),
+      ]),
+    );
+    tracking.attachCornerPin("planar-a", "screen-1");
+
+    const written = tracking.writeToProject(createProject());
+    expect(written.timeline.tracks[0].clips[0].planarTracks).toHaveLength(1);
+    expect(written.timeline.cornerPinAttachments).toEqual([
+      { elementId: "screen-1", trackId: "planar-a", corners: undefined },
+    ]);
+
+    const legacy = JSON.stringify({ version: "1.1.0", project: written });
+    const migrated = createSerializer().importFromJson(legacy);
+    expect(migrated.timeline).not.toHaveProperty("cornerPinAttachments");
+    expect(migrated.timeline.tracks[0].clips[0]).not.toHaveProperty(
+      "planarTracks",
+    );
+  });
+
+  it("should round-trip stabilization and drop it from older files", () => {
+    const identity = { frame: 0, x: 0, y: 0, rotation: 0, scale: 1 };
+    const tracking = new MotionTrackingEngine();
+    tracking.hydrateFromProject(
+      createProject([
+        createClip({
+          stabilization: {
+            clipId: "clip-1",
+            enabled: true,
+            strength: 0.5,
+            zoomMode: "fixed",
+            frameRate: 30,
+            frameWidth: 1920,
+            frameHeight: 1080,
+            path: [identity],
+            transforms: [identity],
+            lostFrames: [],
+          },
+        }),
+      ]),
+    );
+    tracking.updateStabilizationSettings("clip-1", { strength: 0.8 });
+
+    const written = tracking.writeToProject(createProject());
+    const clip = written.timeline.tracks[0].clips[0];
+    expect(clip.stabilization?.strength).toBe(0.8);
+    expect(clip.stabilization?.transforms).toEqual([identity]);
+
+    const legacy = JSON.stringify({ version: "1.2.0", project: written });
+    const migrated = createSerializer().importFromJson(legacy);
+    expect(migrated.timeline.tracks[0].clips[0]).not.toHaveProperty(
+      "stabilization",
+    );
+  });
+
+  it("should leave clips without engine state untouched", () => {
+    const engines = createEngines();
+    const project = createProject([
+      createClip({ speedData: undefined, masks: [] }),
+    ]);
+    const written = writeEngineState(project, engines.all);
+    expect(written.timeline.tracks[0].clips[0]).toEqual(createClip());
+    expect(written.timeline).not.toHaveProperty("multicamGroups");
+  });
+});
@@ -1,13 +1,69 @@
 import type { Project, MediaItem } from "../types";
 import type { IStorageEngine, MediaRecord } from "./types";
 import type { ValidationResult, ProjectFileWithMetadata } from "./schema-types";
+import { mapProjectClips } from "./engine-state";
 
 export interface ProjectFile {
   readonly version: string;
   readonly project: Project;
 }
 
-export const SCHEMA_VERSION = "1.0.0";
+export const SCHEMA_VERSION = "1.3.0";
+
+interface ProjectMigration {
+  readonly to: string;
+  readonly migrate: (project: Project) => Project;
+}
+
+/**
+ * One step per older schema version. A file is upgraded step by step until
+ * it reaches SCHEMA_VERSION; unknown versions are loaded as they are.
+ */
+const MIGRATIONS: Record<string, ProjectMigration> = {
+  // 1.1.0 persists mask, speed, chroma key, tracking and multicam state.
+  // 1.0.0 files never had it, so start every clip out without any.
+  "1.0.0": {
+    to: "1.1.0",
+    migrate: (project) => {
+      const {
+        multicamGroups: _groups,
+        trackingAttachments: _attachments,
+        ...timeline
+      } = project.timeline;
+      return mapProjectClips({ ...project, timeline }, (clip) => {
+        const {
+          masks: _masks,
+          speedData: _speedData,
+          chromaKey: _chromaKey,
+          motionTracks: _motionTracks,
+          ...rest
+        } = clip;
+        return rest;
+      });
+    },
+  },
+  // 1.2.0 adds planar tracks and corner-pin attachments.
+  "1.1.0": {
+    to: "1.2.0",
+    migrate: (project) => {
+      const { cornerPinAttachments: _attachments, ...timeline } =
+        project.timeline;
+      return mapProjectClips({ ...project, timeline }, (clip) => {
+        const { planarTracks: _planarTracks, ...rest } = clip;
+        return rest;
+      });
+    },
+  },
+  // 1.3.0 adds stabilization analysis to clips.
+  "1.2.0": {
+    to: "1.3.0",
+    migrate: (project) =>
+      mapProjectClips(project, (clip) => {
+        const { stabilization: _stabilization, ...rest } = clip;
+        return rest;
+      }),
+  },
+};
 
 export class ProjectSerializer {
   private storage: IStorageEngine;
@@ -47,12 +103,10 @@ export class ProjectSerializer {
 
   importFromJson(json: string): Project {
     const projectFile = JSON.parse(json) as ProjectFile;
-
-    if (projectFile.version !== SCHEMA_VERSION) {
-      return this.migrateProject(projectFile);
-    }
-
-    const project = projectFile.project;
+    const project =
+      projectFile.version !== SCHEMA_VERSION
+        ? this.migrateProject(projectFile)
+        : projectFile.project;
 
     const processedItems: MediaItem[] = project.mediaLibrary.items.map(
       (item: MediaItem) => {
@@ -252,7 +306,14 @@ export class ProjectSerializer {
   }
 
   private migrateProject(projectFile: ProjectFile): Project {
-    return projectFile.project;
+    let { version, project } = projectFile;
+    let migration = MIGRATIONS[version];
+    while (migration) {
+      project = migration.migrate(project);
+      version = migration.to;
+      migration = MIGRATIONS[version];
+    }
+    return project;
   }
 
   async deleteProject(id: string): Promise<void> {
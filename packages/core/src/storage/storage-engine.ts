@@ -1,4 +1,5 @@
 import type { Project } from "../types";
+import type { SerializedActionHistory } from "../actions/action-history";
 import { serializeProject, deserializeProject } from "../utils/serialization";
 import {
   DB_NAME,
@@ -10,6 +11,7 @@ import {
   type MediaRecord,
   type CacheRecord,
   type WaveformRecord,
+  type HistoryRecord,
   type StorageUsage,
   type StorageError,
   type StorageErrorCode,
@@ -97,6 +99,10 @@ export class StorageEngine implements IStorageEngine {
     if (!db.objectStoreNames.contains(STORES.WAVEFORMS)) {
       db.createObjectStore(STORES.WAVEFORMS, { keyPath: "mediaId" });
     }
+
+    if (!db.objectStoreNames.contains(STORES.HISTORY)) {
+      db.createObjectStore(STORES.HISTORY, { keyPath: "projectId" });
+    }
   }
 
   /**
@@ -232,6 +238,7 @@ export class StorageEngine implements IStorageEngine {
     for (const media of mediaRecords) {
       await this.deleteMedia(media.id);
     }
+    await this.deleteHistory(id);
 
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORES.PROJECTS, "readwrite");
@@ -350,6 +357,63 @@ export class StorageEngine implements IStorageEngine {
     );
   }
 
+  async saveHistory(
+    projectId: string,
+    history: SerializedActionHistory,
+  ): Promise<void> {
+    try {
+      const record: HistoryRecord = {
+        projectId,
+        modifiedAt: Date.now(),
+        data: JSON.stringify(history),
+      };
+
+      await this.transaction(STORES.HISTORY, "readwrite", (stores) =>
+        stores[STORES.HISTORY].put(record),
+      );
+    } catch (error) {
+      if ((error as StorageError).code) {
+        throw error;
+      }
+      throw createStorageError(
+        "SERIALIZATION_FAILED",
+        `Failed to serialize history: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async loadHistory(
+    projectId: string,
+  ): Promise<SerializedActionHistory | null> {
+    try {
+      const record = await this.transaction<HistoryRecord | undefined>(
+        STORES.HISTORY,
+        "readonly",
+        (stores) => stores[STORES.HISTORY].get(projectId),
+      );
+
+      if (!record) {
+        return null;
+      }
+
+      return JSON.parse(record.data) as SerializedActionHistory;
+    } catch (error) {
+      if ((error as StorageError).code) {
+        throw error;
+      }
+      throw createStorageError(
+        "DESERIALIZATION_FAILED",
+        `Failed to deserialize history: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async deleteHistory(projectId: string): Promise<void> {
+    await this.transaction(STORES.HISTORY, "readwrite", (stores) =>
+      stores[STORES.HISTORY].delete(projectId),
+    );
+  }
+
   async getStorageUsage(): Promise<StorageUsage> {
     const db = await this.getDb();
 
@@ -1,6 +1,7 @@
 import type { Project, MediaMetadata } from "../types";
+import type { SerializedActionHistory } from "../actions/action-history";
 
-export const DB_VERSION = 1;
+export const DB_VERSION = 2;
 
 export const DB_NAME = "openreel-db";
 
@@ -9,6 +10,7 @@ export const STORES = {
   MEDIA: "media",
   CACHE: "cache",
   WAVEFORMS: "waveforms",
+  HISTORY: "history",
 } as const;
 
 export interface ProjectRecord {
@@ -46,6 +48,12 @@ export interface WaveformRecord {
   readonly sampleRate: number;
 }
 
+export interface HistoryRecord {
+  readonly projectId: string;
+  readonly modifiedAt: number;
+  readonly data: string; // Serialized SerializedActionHistory JSON
+}
+
 export interface StorageUsage {
   readonly used: number;
   readonly quota: number;
@@ -97,6 +105,14 @@ export interface IStorageEngine {
   loadWaveform(mediaId: string): Promise<WaveformRecord | null>;
   deleteWaveform(mediaId: string): Promise<void>;
 
+  // Undo history operations
+  saveHistory(
+    projectId: string,
+    history: SerializedActionHistory,
+  ): Promise<void>;
+  loadHistory(projectId: string): Promise<SerializedActionHistory | null>;
+  deleteHistory(projectId: string): Promise<void>;
+
   // Storage info
   getStorageUsage(): Promise<StorageUsage>;
 
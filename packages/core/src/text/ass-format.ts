@@ -0,0 +1,559 @@
+import type { Subtitle, SubtitleStyle, SubtitleWord } from "../types/timeline";
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  generateSubtitleId,
+  type SRTParseError,
+  type SRTParseResult,
+} from "./subtitle-engine";
+import { formatSubtitleColor, parseSubtitleColor } from "./subtitle-color";
+
+/**
+ * Advanced SubStation Alpha (.ass) and its predecessor SSA v4 (.ssa).
+ * Styles are mapped to SubtitleStyle and karaoke tags (\k, \K, \kf, \ko)
+ * to word timings. Other override tags are dropped.
+ */
+
+export interface ASSExportOptions {
+  /** Script resolution (PlayResX/PlayResY). Defaults to 1920x1080. */
+  readonly width?: number;
+  readonly height?: number;
+  readonly title?: string;
+}
+
+const STYLE_FORMAT = [
+  "Name",
+  "Fontname",
+  "Fontsize",
+  "PrimaryColour",
+  "SecondaryColour",
+  "OutlineColour",
+  "BackColour",
+  "Bold",
+  "Italic",
+  "Underline",
+  "StrikeOut",
+  "ScaleX",
+  "ScaleY",
+  "Spacing",
+  "Angle",
+  "BorderStyle",
+  "Outline",
+  "Shadow",
+  "Alignment",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Encoding",
+];
+
+const EVENT_FORMAT = [
+  "Layer",
+  "Start",
+  "End",
+  "Style",
+  "Name",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Effect",
+  "Text",
+];
+
+const DEFAULT_SSA_EVENT_FORMAT = [
+  "marked",
+  "start",
+  "end",
+  "style",
+  "name",
+  "marginl",
+  "marginr",
+  "marginv",
+  "effect",
+  "text",
+];
+
+interface KaraokeSyllable {
+  readonly startTime: number;
+  readonly endTime: number;
+  text: string;
+}
+
+export function parseASSTimestamp(timestamp: string): number | null {
+  const match = timestamp
+    .trim()
+    .match(/^(\d+):(\d{1,2}):(\d{1,2})\.(\d{1,3})$/);
+  if (!match) return null;
+
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  return (
+    parseInt(match[1], 10) * 3600 +
+    minutes * 60 +
+    seconds +
+    parseFloat(`0.${match[4]}`)
+  );
+}
+
+export function formatASSTimestamp(seconds: number): string {
+  if (seconds < 0 || !isFinite(seconds)) {
+    seconds = 0;
+  }
+
+  const totalCs = Math.round(seconds * 100);
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}.${cs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Converts `&HAABBGGRR` (alpha 00 is opaque) or an SSA decimal BGR value
+ * to a CSS colour.
+ */
+export function parseASSColor(value: string): string | null {
+  const trimmed = value.trim();
+  let alpha = 0;
+  let bgr: number;
+
+  const hex = trimmed.match(/^&H([0-9a-fA-F]{1,8})&?$/);
+  if (hex) {
+    const digits = hex[1].padStart(8, "0");
+    alpha = parseInt(digits.slice(0, 2), 16);
+    bgr = parseInt(digits.slice(2), 16);
+  } else if (/^-?\d+$/.test(trimmed)) {
+    bgr = parseInt(trimmed, 10) & 0xffffff;
+  } else {
+    return null;
+  }
+
+  return formatSubtitleColor({
+    r: bgr & 0xff,
+    g: (bgr >> 8) & 0xff,
+    b: (bgr >> 16) & 0xff,
+    a: 1 - alpha / 255,
+  });
+}
+
+export function formatASSColor(color: string): string {
+  const parsed = parseSubtitleColor(color) ?? { r: 255, g: 255, b: 255, a: 1 };
+  const hex = (value: number) =>
+    Math.round(Math.max(0, Math.min(255, value)))
+      .toString(16)
+      .padStart(2, "0")
+      .toUpperCase();
+  return `&H${hex((1 - parsed.a) * 255)}${hex(parsed.b)}${hex(parsed.g)}${hex(parsed.r)}`;
+}
+
+/**
+ * Maps an alignment to a position. ASS uses numpad layout (1-3 bottom,
+ * 4-6 middle, 7-9 top); SSA adds 4 for top and 8 for middle.
+ */
+function positionFromAlignment(
+  alignment: number,
+  legacy: boolean,
+): SubtitleStyle["position"] | undefined {
+  if (isNaN(alignment)) return undefined;
+  if (legacy) {
+    if (alignment >= 9) return "center";
+    if (alignment >= 5) return "top";
+    return "bottom";
+  }
+  if (alignment >= 7) return "top";
+  if (alignment >= 4) return "center";
+  return "bottom";
+}
+
+function splitFields(line: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = line;
+  for (let i = 0; i < count - 1; i++) {
+    const comma = rest.indexOf(",");
+    if (comma === -1) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(rest);
+  return fields;
+}
+
+function parseStyle(
+  format: string[],
+  values: string[],
+  legacy: boolean,
+): [string, SubtitleStyle] {
+  const field = (name: string) => values[format.indexOf(name)]?.trim() ?? "";
+  const primary = parseASSColor(field("primarycolour"));
+  const secondary = parseASSColor(field("secondarycolour"));
+  // An opaque box (BorderStyle 3) is filled with the outline colour
+  const box =
+    field("borderstyle") === "3"
+      ? parseASSColor(field(legacy ? "backcolour" : "outlinecolour"))
+      : null;
+  const fontSize = parseFloat(field("fontsize"));
+
+  const style: SubtitleStyle = {
+    fontFamily: field("fontname") || DEFAULT_SUBTITLE_STYLE.fontFamily,
+    fontSize: isNaN(fontSize) ? DEFAULT_SUBTITLE_STYLE.fontSize : fontSize,
+    color: primary ?? DEFAULT_SUBTITLE_STYLE.color,
+    backgroundColor: box ?? "transparent",
+    position:
+      positionFromAlignment(parseInt(field("alignment"), 10), legacy) ??
+      "bottom",
+    ...(primary ? { highlightColor: primary } : {}),
+    ...(secondary ? { upcomingColor: secondary } : {}),
+  };
+  return [field("name").replace(/^\*/, ""), style];
+}
+
+/**
+ * Groups karaoke syllables into words: a syllable that does not follow
+ * whitespace continues the previous word ("Hel" + "lo").
+ */
+function syllablesToWords(
+  syllables: readonly KaraokeSyllable[],
+): SubtitleWord[] {
+  const words: SubtitleWord[] = [];
+  let joinNext = false;
+
+  for (const syllable of syllables) {
+    const parts = syllable.text.split(/\s+/).filter(Boolean);
+    if (parts.length === 0) {
+      joinNext = joinNext && syllable.text === "";
+      continue;
+    }
+
+    const step = (syllable.endTime - syllable.startTime) / parts.length;
+    parts.forEach((part, index) => {
+      const startTime = syllable.startTime + step * index;
+      const endTime = startTime + step;
+      const previous = words[words.length - 1];
+      if (index === 0 && joinNext && previous && !/^\s/.test(syllable.text)) {
+        words[words.length - 1] = {
+          text: previous.text + part,
+          startTime: previous.startTime,
+          endTime,
+        };
+      } else {
+        words.push({ text: part, startTime, endTime });
+      }
+    });
+    joinNext = !/\s$/.test(syllable.text);
+  }
+  return words;
+}
+
+function parseDialogueText(
+  raw: string,
+  startTime: number,
+  endTime: number,
+  legacy: boolean,
+): {
+  text: string;
+  words?: SubtitleWord[];
+  position?: SubtitleStyle["position"];
+} {
+  const syllables: KaraokeSyllable[] = [];
+  let text = "";
+  let cursor = startTime;
+  let drawing = false;
+  let position: SubtitleStyle["position"] | undefined;
+
+  const tokenPattern = /\{([^}]*)\}|([^{]+)/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(raw)) !== null) {
+    if (token[1] !== undefined) {
+      const tagPattern = /\\(kf|ko|k|K|an|a|p)(\d+)/g;
+      let tag: RegExpExecArray | null;
+      while ((tag = tagPattern.exec(token[1])) !== null) {
+        const value = parseInt(tag[2], 10);
+        if (tag[1] === "an") {
+          position = positionFromAlignment(value, false);
+        } else if (tag[1] === "a") {
+          position = positionFromAlignment(value, legacy);
+        } else if (tag[1] === "p") {
+          drawing = value > 0;
+        } else {
+          const syllableEnd = Math.min(cursor + value / 100, endTime);
+          syllables.push({ startTime: cursor, endTime: syllableEnd, text: "" });
+          cursor = syllableEnd;
+        }
+      }
+      continue;
+    }
+
+    if (drawing) continue;
+    const chunk = token[2]
+      .replace(/\\[Nn]/g, "\n")
+      .replace(/\\h/g, " ");
+    text += chunk;
+    if (syllables.length > 0) {
+      syllables[syllables.length - 1].text += chunk;
+    }
+  }
+
+  const cleanText = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+  const words = syllablesToWords(syllables);
+  return {
+    text: cleanText,
+    ...(words.length > 0 ? { words } : {}),
+    ...(position ? { position } : {}),
+  };
+}
+
+export function parseASS(content: string): SRTParseResult {
+  const subtitles: Subtitle[] = [];
+  const errors: SRTParseError[] = [];
+  const styles = new Map<string, SubtitleStyle>();
+
+  const lines = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .split("\n");
+
+  let section = "";
+  let legacy = false;
+  let styleFormat: string[] = [];
+  let eventFormat = DEFAULT_SSA_EVENT_FORMAT;
+  let segment = 0;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line || line.startsWith(";")) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].trim().toLowerCase();
+      if (section === "v4 styles") legacy = true;
+      return;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (section === "script info") {
+      if (key === "scripttype") {
+        legacy = !/v4\.00\+/i.test(value);
+      }
+      return;
+    }
+
+    if (section === "v4+ styles" || section === "v4 styles") {
+      if (key === "format") {
+        styleFormat = value.split(",").map((name) => name.trim().toLowerCase());
+      } else if (key === "style" && styleFormat.length > 0) {
+        const [name, style] = parseStyle(
+          styleFormat,
+          splitFields(value, styleFormat.length),
+          legacy,
+        );
+        styles.set(name, style);
+      }
+      return;
+    }
+
+    if (section !== "events") return;
+    if (key === "format") {
+      eventFormat = value.split(",").map((name) => name.trim().toLowerCase());
+      return;
+    }
+    if (key !== "dialogue") return;
+
+    segment++;
+    const fields = splitFields(value, eventFormat.length);
+    const field = (name: string) => fields[eventFormat.indexOf(name)] ?? "";
+    const startTime = parseASSTimestamp(field("start"));
+    const endTime = parseASSTimestamp(field("end"));
+
+    if (startTime === null) {
+      errors.push({
+        line: lineNumber,
+        message: `Invalid start timestamp: "${field("start")}"`,
+        segment,
+      });
+      return;
+    }
+    if (endTime === null) {
+      errors.push({
+        line: lineNumber,
+        message: `Invalid end timestamp: "${field("end")}"`,
+        segment,
+      });
+      return;
+    }
+    if (endTime <= startTime) {
+      errors.push({
+        line: lineNumber,
+        message: "End time must be greater than start time",
+        segment,
+      });
+      return;
+    }
+
+    const { text, words, position } = parseDialogueText(
+      field("text"),
+      startTime,
+      endTime,
+      legacy,
+    );
+    // Blank events are commonly used as spacers; they are not errors
+    if (!text) return;
+
+    const styleName = field("style").replace(/^\*/, "");
+    const style =
+      styles.get(styleName) ?? styles.get("Default") ?? DEFAULT_SUBTITLE_STYLE;
+    subtitles.push({
+      id: generateSubtitleId(),
+      text,
+      startTime,
+      endTime,
+      style: position ? { ...style, position } : style,
+      ...(words ? { words, animationStyle: "karaoke" as const } : {}),
+    });
+  });
+
+  return {
+    success: errors.length === 0,
+    subtitles,
+    errors,
+  };
+}
+
+function styleKey(style: SubtitleStyle): string {
+  return JSON.stringify([
+    style.fontFamily,
+    style.fontSize,
+    style.color,
+    style.backgroundColor,
+    style.position,
+    style.upcomingColor,
+  ]);
+}
+
+function formatStyle(name: string, style: SubtitleStyle): string {
+  const box = (parseSubtitleColor(style.backgroundColor)?.a ?? 0) > 0;
+  const alignment =
+    style.position === "top" ? 8 : style.position === "center" ? 5 : 2;
+  const values = [
+    name,
+    style.fontFamily,
+    style.fontSize,
+    formatASSColor(style.color),
+    formatASSColor(style.upcomingColor ?? style.color),
+    box ? formatASSColor(style.backgroundColor) : "&H00000000",
+    "&H80000000",
+    0,
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    box ? 3 : 1,
+    box ? 0 : 2,
+    0,
+    alignment,
+    20,
+    20,
+    40,
+    1,
+  ];
+  return `Style: ${values.join(",")}`;
+}
+
+/**
+ * Writes karaoke timing as \k tags. Durations are derived from rounded
+ * absolute times so they do not drift over a long line. Words that start
+ * a new line of the subtitle text are preceded by \N instead of a space.
+ */
+function formatKaraokeText(subtitle: Subtitle): string {
+  const centiseconds = (time: number) => Math.round(time * 100);
+  let cursor = centiseconds(subtitle.startTime);
+  let searchFrom = 0;
+  let result = "";
+
+  (subtitle.words ?? []).forEach((word, index) => {
+    const found = subtitle.text.indexOf(word.text, searchFrom);
+    if (index > 0) {
+      const between = found >= 0 ? subtitle.text.slice(searchFrom, found) : " ";
+      result += between.includes("\n") ? "\\N" : " ";
+    }
+    if (found >= 0) {
+      searchFrom = found + word.text.length;
+    }
+
+    const start = Math.max(cursor, centiseconds(word.startTime));
+    const end = Math.max(start, centiseconds(word.endTime));
+    const gap = start - cursor;
+    result += `${gap > 0 ? `{\\k${gap}}` : ""}{\\k${end - start}}${word.text}`;
+    cursor = end;
+  });
+  return result;
+}
+
+export function exportASS(
+  subtitles: readonly Subtitle[],
+  options: ASSExportOptions = {},
+): string {
+  const sorted = [...subtitles].sort((a, b) => a.startTime - b.startTime);
+  const styleNames = new Map<string, string>();
+  const styleLines: string[] = [];
+
+  const styleName = (style: SubtitleStyle) => {
+    const key = styleKey(style);
+    let name = styleNames.get(key);
+    if (!name) {
+      name = styleNames.size === 0 ? "Default" : `Style${styleNames.size}`;
+      styleNames.set(key, name);
+      styleLines.push(formatStyle(name, style));
+    }
+    return name;
+  };
+
+  const events = sorted.map((subtitle) => {
+    const name = styleName(subtitle.style ?? DEFAULT_SUBTITLE_STYLE);
+    const text =
+      subtitle.words && subtitle.words.length > 0
+        ? formatKaraokeText(subtitle)
+        : subtitle.text.replace(/\n/g, "\\N");
+    return `Dialogue: 0,${formatASSTimestamp(subtitle.startTime)},${formatASSTimestamp(
+      subtitle.endTime,
+    )},${name},,0,0,0,,${text}`;
+  });
+  if (styleLines.length === 0) {
+    styleName(DEFAULT_SUBTITLE_STYLE);
+  }
+
+  return [
+    "[Script Info]",
+    `Title: ${options.title ?? "OpenReel subtitles"}`,
+    "ScriptType: v4.00+",
+    `PlayResX: ${options.width ?? 1920}`,
+    `PlayResY: ${options.height ?? 1080}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    `Format: ${STYLE_FORMAT.join(", ")}`,
+    ...styleLines,
+    "",
+    "[Events]",
+    `Format: ${EVENT_FORMAT.join(", ")}`,
+    ...events,
+    "",
+  ].join("\n");
+}
@@ -2,8 +2,18 @@ export * from "./types";
 export * from "./title-engine";
 export * from "./text-animation";
 export * from "./subtitle-engine";
+export * from "./subtitle-formats";
+export * from "./subtitle-color";
+export * from "./webvtt-format";
+export * from "./ass-format";
+export * from "./ttml-format";
+export * from "./transcript-edit-engine";
 export * from "./speech-to-text-engine";
 export * from "./transcription-service";
+export * from "./transcription-backend";
+export * from "./local-whisper-backend";
+export * from "./whisper-model-loader";
+export * from "./whisper-inference";
 export * from "./caption-animation-renderer";
 export * from "./text-animation-presets";
 export * from "./character-animator";
@@ -0,0 +1,194 @@
+import { parseWhisperModel } from "./whisper-model-loader";
+import {
+  WhisperModel,
+  WHISPER_SAMPLE_RATE,
+  type WhisperTranscript,
+} from "./whisper-inference";
+import type {
+  TranscriptionAudio,
+  TranscriptionBackend,
+  TranscriptionBackendOptions,
+  TranscriptionBackendResult,
+} from "./transcription-backend";
+import type {
+  WhisperWorkerRequest,
+  WhisperWorkerResponse,
+} from "./whisper-worker";
+
+export interface LocalWhisperBackendOptions {
+  /**
+   * A whisper.cpp model file chosen by the user, e.g. ggml-base.en.bin.
+   * Quantized models are not supported.
+   */
+  readonly model: Blob;
+  /** Run inference in a Web Worker when available. Defaults to true. */
+  readonly useWorker?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (transcript: WhisperTranscript) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Transcribes with a Whisper model running on this machine. The model file is
+ * read once, on first use, and kept in memory until dispose. No audio or
+ * model data is sent over the network.
+ */
+export class LocalWhisperBackend implements TranscriptionBackend {
+  readonly id = "local-whisper";
+  readonly name = "Whisper (on this device)";
+  readonly isLocal = true;
+  readonly sampleRate = WHISPER_SAMPLE_RATE;
+
+  private modelFile: Blob;
+  private useWorker: boolean;
+  private worker: Worker | null = null;
+  private model: WhisperModel | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
+
+  constructor(options: LocalWhisperBackendOptions) {
+    this.modelFile = options.model;
+    this.useWorker = options.useWorker ?? typeof Worker !== "undefined";
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionBackendOptions = {},
+  ): Promise<TranscriptionBackendResult> {
+    if (audio.sampleRate !== WHISPER_SAMPLE_RATE) {
+      throw new Error(
+        `Local Whisper expects ${WHISPER_SAMPLE_RATE} Hz audio, got ${audio.sampleRate} Hz`,
+      );
+    }
+
+    options.onProgress?.(0, "Loading speech model...");
+    await this.load();
+
+    const onProgress = (progress: number) =>
+      options.onProgress?.(
+        progress,
+        `Transcribing on this device (${Math.round(progress * 100)}%)...`,
+      );
+
+    const transcript = this.worker
+      ? await this.transcribeInWorker(
+          audio.samples,
+          options.language,
+          onProgress,
+        )
+      : this.model!.transcribe(audio.samples, {
+          language: options.language,
+          onProgress,
+        });
+
+    return { text: transcript.text, words: transcript.words };
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.model = null;
+    this.loadPromise = null;
+    this.pending.forEach((request) =>
+      request.reject(new Error("Transcription backend disposed")),
+    );
+    this.pending.clear();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (
+        this.useWorker ? this.loadWorker() : this.loadInline()
+      ).catch((error) => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadInline(): Promise<void> {
+    const buffer = await this.modelFile.arrayBuffer();
+    this.model = new WhisperModel(parseWhisperModel(buffer));
+  }
+
+  private loadWorker(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(
+        new URL("./whisper-worker.ts", import.meta.url),
+        { type: "module" },
+      );
+
+      worker.onmessage = (event: MessageEvent<WhisperWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "loaded") {
+          this.worker = worker;
+          resolve();
+        } else if (response.type === "error" && response.id === null) {
+          worker.terminate();
+          reject(new Error(response.error));
+        } else {
+          this.handleWorkerResponse(response);
+        }
+      };
+      worker.onerror = (event) => {
+        const error = new Error(event.message || "Whisper worker failed");
+        worker.terminate();
+        if (this.worker === worker) {
+          // Crashed mid-transcription, e.g. out of memory on a large model
+          this.worker = null;
+          this.loadPromise = null;
+          this.pending.forEach((request) => request.reject(error));
+          this.pending.clear();
+        } else {
+          reject(error);
+        }
+      };
+
+      const request: WhisperWorkerRequest = {
+        type: "load",
+        model: this.modelFile,
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  private transcribeInWorker(
+    samples: Float32Array,
+    language: string | undefined,
+    onProgress: (progress: number) => void,
+  ): Promise<WhisperTranscript> {
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      const request: WhisperWorkerRequest = {
+        type: "transcribe",
+        id,
+        samples,
+        language,
+      };
+      this.worker!.postMessage(request);
+    });
+  }
+
+  private handleWorkerResponse(response: WhisperWorkerResponse): void {
+    if (response.type === "loaded" || response.id === null) return;
+
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === "progress") {
+      request.onProgress?.(response.progress);
+    } else if (response.type === "result") {
+      this.pending.delete(response.id);
+      request.resolve(response.transcript);
+    } else {
+      this.pending.delete(response.id);
+      request.reject(new Error(response.error));
+    }
+  }
+}
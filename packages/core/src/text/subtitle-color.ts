@@ -0,0 +1,86 @@
+/**
+ * Colour conversion shared by the subtitle formats. SubtitleStyle stores CSS
+ * colours ("#ffffff", "rgba(0, 0, 0, 0.75)", "transparent"); ASS and TTML
+ * each have their own notation.
+ */
+export interface SubtitleColor {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+  /** Opacity from 0 to 1. */
+  readonly a: number;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000",
+  silver: "#c0c0c0",
+  gray: "#808080",
+  white: "#ffffff",
+  maroon: "#800000",
+  red: "#ff0000",
+  purple: "#800080",
+  fuchsia: "#ff00ff",
+  magenta: "#ff00ff",
+  green: "#008000",
+  lime: "#00ff00",
+  olive: "#808000",
+  yellow: "#ffff00",
+  navy: "#000080",
+  blue: "#0000ff",
+  teal: "#008080",
+  aqua: "#00ffff",
+  cyan: "#00ffff",
+};
+
+export function parseSubtitleColor(value: string): SubtitleColor | null {
+  const color = value.trim().toLowerCase();
+  if (color === "transparent") {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  if (NAMED_COLORS[color]) {
+    return parseSubtitleColor(NAMED_COLORS[color]);
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split("")
+            .map((digit) => digit + digit)
+            .join("")
+        : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(",").map((part) => parseFloat(part));
+    if (parts.length < 3 || parts.some((part) => isNaN(part))) return null;
+    return {
+      r: parts[0],
+      g: parts[1],
+      b: parts[2],
+      a: parts.length > 3 ? Math.max(0, Math.min(1, parts[3])) : 1,
+    };
+  }
+  return null;
+}
+
+export function formatSubtitleColor(color: SubtitleColor): string {
+  if (color.a <= 0) return "transparent";
+  const channel = (value: number) =>
+    Math.round(Math.max(0, Math.min(255, value)));
+  if (color.a >= 1) {
+    return `#${[color.r, color.g, color.b]
+      .map((value) => channel(value).toString(16).padStart(2, "0"))
+      .join("")}`;
+  }
+  const alpha = Math.round(color.a * 1000) / 1000;
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${alpha})`;
+}
@@ -1,4 +1,9 @@
-import type { Subtitle, SubtitleStyle, Timeline } from "../types/timeline";
+import type {
+  Subtitle,
+  SubtitleStyle,
+  SubtitleWord,
+  Timeline,
+} from "../types/timeline";
 
 export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
   fontFamily: "Arial",
@@ -73,7 +78,7 @@ export interface SRTParseError {
   readonly segment?: number;
 }
 
-function generateSubtitleId(): string {
+export function generateSubtitleId(): string {
   return `subtitle-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
@@ -261,6 +266,141 @@ export function exportSRT(subtitles: readonly Subtitle[]): string {
   return blocks.join("\n\n");
 }
 
+function wordMidpoint(word: SubtitleWord): number {
+  return (word.startTime + word.endTime) / 2;
+}
+
+function joinWords(words: readonly SubtitleWord[]): string {
+  return words.map((word) => word.text).join(" ");
+}
+
+/**
+ * Removes [start, end) from the subtitles and closes the gap, as a ripple
+ * delete does to clips. Words whose midpoint falls inside the range are
+ * dropped; subtitles left without text are removed.
+ */
+export function rippleDeleteSubtitleRange(
+  subtitles: readonly Subtitle[],
+  start: number,
+  end: number,
+): Subtitle[] {
+  const duration = end - start;
+  const mapTime = (time: number) =>
+    time <= start ? time : time >= end ? time - duration : start;
+  const mapWord = (word: SubtitleWord): SubtitleWord => ({
+    ...word,
+    startTime: mapTime(word.startTime),
+    endTime: mapTime(word.endTime),
+  });
+
+  const result: Subtitle[] = [];
+  for (const subtitle of subtitles) {
+    if (subtitle.endTime <= start) {
+      result.push(subtitle);
+      continue;
+    }
+
+    const startTime = mapTime(subtitle.startTime);
+    const endTime = mapTime(subtitle.endTime);
+
+    if (subtitle.words && subtitle.words.length > 0) {
+      const kept = subtitle.words.filter((word) => {
+        const midpoint = wordMidpoint(word);
+        return midpoint < start || midpoint >= end;
+      });
+      if (kept.length === 0) continue;
+      result.push({
+        ...subtitle,
+        text:
+          kept.length === subtitle.words.length
+            ? subtitle.text
+            : joinWords(kept),
+        startTime,
+        endTime,
+        words: kept.map(mapWord),
+      });
+    } else if (endTime > startTime) {
+      result.push({ ...subtitle, startTime, endTime });
+    }
+  }
+  return result;
+}
+
+/**
+ * Moves the subtitles in [start, end) so they begin at `to`, shifting the
+ * ones in between to fill the space, as when a passage of the timeline is
+ * cut and pasted elsewhere. A subtitle whose words straddle the moved range
+ * is split so each part travels with its words.
+ */
+export function moveSubtitleRange(
+  subtitles: readonly Subtitle[],
+  start: number,
+  end: number,
+  to: number,
+): Subtitle[] {
+  if (to >= start && to <= end) return [...subtitles];
+
+  const offsetAt = (time: number): number => {
+    if (to < start) {
+      if (time >= to && time < start) return end - start;
+      if (time >= start && time < end) return to - start;
+    } else {
+      if (time >= start && time < end) return to - end;
+      if (time >= end && time < to) return start - end;
+    }
+    return 0;
+  };
+  const shift = <T extends { startTime: number; endTime: number }>(
+    item: T,
+    offset: number,
+  ): T => ({
+    ...item,
+    startTime: item.startTime + offset,
+    endTime: item.endTime + offset,
+  });
+
+  const result: Subtitle[] = [];
+  for (const subtitle of subtitles) {
+    if (!subtitle.words || subtitle.words.length === 0) {
+      const midpoint = (subtitle.startTime + subtitle.endTime) / 2;
+      result.push(shift(subtitle, offsetAt(midpoint)));
+      continue;
+    }
+
+    const groups: { offset: number; words: SubtitleWord[] }[] = [];
+    for (const word of subtitle.words) {
+      const offset = offsetAt(wordMidpoint(word));
+      const last = groups[groups.length - 1];
+      if (last && last.offset === offset) {
+        last.words.push(word);
+      } else {
+        groups.push({ offset, words: [word] });
+      }
+    }
+
+    if (groups.length === 1) {
+      result.push({
+        ...shift(subtitle, groups[0].offset),
+        words: subtitle.words.map((word) => shift(word, groups[0].offset)),
+      });
+      continue;
+    }
+
+    groups.forEach((group, index) => {
+      const words = group.words.map((word) => shift(word, group.offset));
+      result.push({
+        ...subtitle,
+        id: index === 0 ? subtitle.id : `${subtitle.id}-${index}`,
+        text: joinWords(group.words),
+        startTime: words[0].startTime,
+        endTime: words[words.length - 1].endTime,
+        words,
+      });
+    });
+  }
+  return result.sort((a, b) => a.startTime - b.startTime);
+}
+
 export function normalizeSRT(srtContent: string): string {
   const parseResult = parseSRT(srtContent);
 
@@ -0,0 +1,357 @@
+import { describe, it, expect } from "vitest";
+import { ActionExecutor } from "../actions/action-executor";
+import {
+  detectSubtitleFormat,
+  exportSubtitles,
+  parseSubtitles,
+} from "./subtitle-formats";
+import { parseWebVTT, exportWebVTT } from "./webvtt-format";
+import {
+  parseASS,
+  exportASS,
+  parseASSColor,
+  formatASSColor,
+} from "./ass-format";
+import { parseTTML, exportTTML, parseTTMLTime } from "./ttml-format";
+import type { Project, Subtitle } from "../types";
+
+const createSubtitle = (overrides: Partial<Subtitle> = {}): Subtitle => ({
+  id: "sub-1",
+  text: "Hello world",
+  startTime: 1,
+  endTime: 3,
+  style: {
+    fontFamily: "Georgia",
+    fontSize: 40,
+    color: "#ffff00",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    position: "top",
+  },
+  words: [
+    { text: "Hello", startTime: 1, endTime: 1.5 },
+    { text: "world", startTime: 2, endTime: 3 },
+  ],
+  ...overrides,
+});
+
+const createProject = (): Project => ({
+  id: "project-1",
+  name: "Subtitles",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: { tracks: [], subtitles: [], duration: 10, markers: [] },
+});
+
+describe("WebVTT", () => {
+  it("should map cue settings, ::cue styles and timestamp tags", () => {
+    const result = parseWebVTT(
+      [
+        "WEBVTT - interview",
+        "",
+        "STYLE",
+        "::cue(.speaker) {",
+        '  font-family: "Helvetica Neue", sans-serif;',
+        "  color: #00ff00;",
+        "}",
+        "",
+        "NOTE checked by the subtitling team",
+        "",
+        "intro",
+        "00:01.000 --> 00:04.000 line:0 align:center",
+        "<c.speaker>Welcome &amp; hello</c>",
+        "",
+        "00:00:05.000 --> 00:00:07.000",
+        "so<00:00:05.500><c> we</c><00:00:06.000><c> begin</c>",
+      ].join("\n"),
+    );
+
+    expect(result.success).toBe(true);
+    const [first, second] = result.subtitles;
+    expect(first.text).toBe("Welcome & hello");
+    expect(first.startTime).toBe(1);
+    expect(first.style?.position).toBe("top");
+    expect(first.style?.fontFamily).toBe("Helvetica Neue");
+    expect(first.style?.color).toBe("#00ff00");
+    expect(first.words).toBeUndefined();
+
+    expect(second.text).toBe("so we begin");
+    expect(second.style?.position).toBe("bottom");
+    expect(second.words).toEqual([
+      { text: "so", startTime: 5, endTime: 5.5 },
+      { text: "we", startTime: 5.5, endTime: 6 },
+      { text: "begin", startTime: 6, endTime: 7 },
+    ]);
+  });
+
+  it("should report bad cues and require the header", () => {
+    expect(parseWebVTT("00:01.000 --> 00:02.000\nHi").errors[0].message).toBe(
+      "Missing WEBVTT header",
+    );
+
+    const result = parseWebVTT("WEBVTT\n\n00:02.000 --> 00:01.000\nBackwards");
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toEqual({
+      line: 3,
+      message: "End time must be greater than start time",
+      segment: 1,
+    });
+  });
+
+  it("should keep numeric references to invalid code points as text", () => {
+    const result = parseWebVTT(
+      "WEBVTT\n\n00:01.000 --> 00:02.000\n&#x41; &#x110000; &#99999999; &#xD800;",
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.subtitles[0].text).toBe("A &#x110000; &#99999999; &#xD800;");
+  });
+
+  it("should round-trip style, position and word timing", () => {
+    const exported = exportWebVTT([createSubtitle()]);
+
+    expect(exported).toContain("::cue(.s0)");
+    expect(exported).toContain("00:00:01.000 --> 00:00:03.000 line:0");
+    const [subtitle] = parseWebVTT(exported).subtitles;
+    expect(subtitle.text).toBe("Hello world");
+    expect(subtitle.style).toEqual(createSubtitle().style);
+    expect(subtitle.words?.map((word) => word.startTime)).toEqual([1, 2]);
+  });
+});
+
+describe("ASS/SSA", () => {
+  const script = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    "Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H80000000,&H00000000,0,0,0,0,100,100,0,0,3,2,0,2,10,10,10,1",
+    "Style: Sign,Impact,36,&H0000FFFF,&H00FFFFFF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,0,8,10,10,10,1",
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    "Dialogue: 0,0:00:01.00,0:00:04.00,Default,,0,0,0,,{\\k50}Hel{\\k30}lo {\\k100}world, {\\k20}again",
+    "Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,ignored",
+    "Dialogue: 0,0:00:05.00,0:00:06.50,Sign,,0,0,0,,{\\an5}Two\\Nlines",
+  ].join("\n");
+
+  it("should map styles and karaoke syllables", () => {
+    const result = parseASS(script);
+
+    expect(result.success).toBe(true);
+    expect(result.subtitles).toHaveLength(2);
+    const [karaoke, sign] = result.subtitles;
+    expect(karaoke.text).toBe("Hello world, again");
+    expect(karaoke.animationStyle).toBe("karaoke");
+    expect(karaoke.style).toEqual({
+      fontFamily: "Arial",
+      fontSize: 48,
+      color: "#ffffff",
+      backgroundColor: "rgba(0, 0, 0, 0.498)",
+      position: "bottom",
+      highlightColor: "#ffffff",
+      upcomingColor: "#ff0000",
+    });
+    expect(karaoke.words).toHaveLength(3);
+    expect(karaoke.words?.[0]).toEqual({
+      text: "Hello",
+      startTime: 1,
+      endTime: 1.8,
+    });
+    expect(karaoke.words?.[1].startTime).toBeCloseTo(1.8);
+    expect(karaoke.words?.[2].endTime).toBeCloseTo(3);
+
+    expect(sign.text).toBe("Two\nlines");
+    expect(sign.style?.fontFamily).toBe("Impact");
+    expect(sign.style?.color).toBe("#ffff00");
+    expect(sign.style?.backgroundColor).toBe("transparent");
+    // \an5 overrides the style's top alignment
+    expect(sign.style?.position).toBe("center");
+  });
+
+  it("should convert colours between &HAABBGGRR and CSS", () => {
+    expect(parseASSColor("&H0000FF&")).toBe("#ff0000");
+    expect(parseASSColor("255")).toBe("#ff0000");
+    expect(parseASSColor("&HFF000000")).toBe("transparent");
+    expect(formatASSColor("rgba(0, 255, 0, 0.5)")).toBe("&H8000FF00");
+  });
+
+  it("should round-trip styles and karaoke timing", () => {
+    const exported = exportASS([
+      createSubtitle(),
+      createSubtitle({ id: "sub-2", startTime: 4, endTime: 5, words: [] }),
+    ]);
+
+    expect(exported).toContain(
+      "Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\k50}Hello {\\k50}{\\k100}world",
+    );
+    const { subtitles } = parseASS(exported);
+    expect(subtitles[0].style?.fontFamily).toBe("Georgia");
+    expect(subtitles[0].style?.position).toBe("top");
+    expect(subtitles[0].style?.backgroundColor).toBe(
+      "rgba(0, 0, 0, 0.498)",
+    );
+    expect(subtitles[0].words).toEqual(createSubtitle().words);
+    expect(subtitles[1].words).toBeUndefined();
+  });
+
+  it("should keep line breaks in karaoke lines", () => {
+    const exported = exportASS([createSubtitle({ text: "Hello\nworld" })]);
+
+    expect(exported).toContain("{\\k50}Hello\\N{\\k50}{\\k100}world");
+    const [subtitle] = parseASS(exported).subtitles;
+    expect(subtitle.text).toBe("Hello\nworld");
+    expect(subtitle.words).toEqual(createSubtitle().words);
+  });
+});
+
+describe("TTML/IMSC", () => {
+  const document = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml"
+    xmlns:tts="http://www.w3.org/ns/ttml#styling"
+    xmlns:ttp="http://www.w3.org/ns/ttml#parameter"
+    ttp:frameRate="25" ttp:tickRate="10000000" tts:extent="1280px 720px">
+  <head>
+    <styling>
+      <style xml:id="base" tts:fontFamily="proportionalSansSerif" tts:fontSize="100%"/>
+      <style xml:id="yellow" style="base" tts:color="yellow"/>
+      <style xml:id="box" tts:backgroundColor="rgba(0,0,0,128)"/>
+    </styling>
+    <layout>
+      <region xml:id="top" tts:origin="10% 5%" tts:extent="80% 15%"/>
+      <region xml:id="low" tts:displayAlign="after"/>
+    </layout>
+  </head>
+  <body region="low">
+    <div begin="10s">
+      <p begin="00:00:01:12" end="00:00:03.000" style="yellow">
+        <span style="box">First line</span><br/>second line
+      </p>
+      <p begin="40000000t" dur="2s" region="top" style="base"><span begin="0s" end="0.5s">Timed</span> <span begin="0.5s" end="2s">words</span></p>
+    </div>
+  </body>
+</tt>`;
+
+  it("should resolve timing, styles and regions", () => {
+    const result = parseTTML(document);
+
+    expect(result.success).toBe(true);
+    const [first, second] = result.subtitles;
+    expect(first.text).toBe("First line\nsecond line");
+    expect(first.startTime).toBeCloseTo(11.48);
+    expect(first.endTime).toBe(13);
+    expect(first.style).toEqual({
+      fontFamily: "Arial",
+      fontSize: 48,
+      color: "#ffff00",
+      backgroundColor: "rgba(0, 0, 0, 0.502)",
+      position: "bottom",
+    });
+    expect(first.words).toBeUndefined();
+
+    expect(second.startTime).toBe(14);
+    expect(second.endTime).toBe(16);
+    expect(second.style?.position).toBe("top");
+    expect(second.words).toEqual([
+      { text: "Timed", startTime: 14, endTime: 14.5 },
+      { text: "words", startTime: 14.5, endTime: 16 },
+    ]);
+  });
+
+  it("should parse clock and offset times", () => {
+    const timing = { frameRate: 25, subFrameRate: 1, tickRate: 1000 };
+    expect(parseTTMLTime("01:00:00.5", timing)).toBe(3600.5);
+    expect(parseTTMLTime("00:00:02:05", timing)).toBe(2.2);
+    expect(parseTTMLTime("1500ms", timing)).toBe(1.5);
+    expect(parseTTMLTime("50f", timing)).toBe(2);
+    expect(parseTTMLTime("2500t", timing)).toBe(2.5);
+    expect(parseTTMLTime("soon", timing)).toBeNull();
+  });
+
+  it("should report documents that are not TTML", () => {
+    expect(parseTTML("<html></html>").errors[0].message).toBe(
+      "Missing <tt> root element",
+    );
+    expect(parseTTML("<tt>").success).toBe(false);
+  });
+
+  it("should write an IMSC document that reads back the same", () => {
+    const exported = exportTTML([
+      createSubtitle(),
+      createSubtitle({
+        id: "sub-2",
+        text: "Line one\nLine & two",
+        startTime: 4,
+        endTime: 5,
+        words: undefined,
+      }),
+    ]);
+
+    expect(exported).toContain(
+      'ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"',
+    );
+    expect(exported).toContain("Line one<br/>Line &amp; two");
+    const { subtitles } = parseTTML(exported);
+    // Alpha is written as #rrggbbaa, so 0.5 comes back as 128/255
+    expect(subtitles[0].style).toEqual({
+      ...createSubtitle().style,
+      backgroundColor: "rgba(0, 0, 0, 0.502)",
+    });
+    expect(subtitles[0].words).toEqual(createSubtitle().words);
+    expect(subtitles[1].text).toBe("Line one\nLine & two");
+    expect(subtitles[1].style?.position).toBe("top");
+  });
+});
+
+describe("subtitle formats", () => {
+  it("should detect formats from the file name or content", () => {
+    expect(detectSubtitleFormat("", "captions.VTT")).toBe("vtt");
+    expect(detectSubtitleFormat("", "episode.dfxp")).toBe("ttml");
+    expect(detectSubtitleFormat("\uFEFFWEBVTT\n")).toBe("vtt");
+    expect(detectSubtitleFormat("[Script Info]\nTitle: x")).toBe("ass");
+    expect(detectSubtitleFormat('<?xml version="1.0"?>\n<tt:tt>')).toBe(
+      "ttml",
+    );
+    expect(detectSubtitleFormat("1\n00:00:01,000 --> 00:00:02,000\nHi")).toBe(
+      "srt",
+    );
+  });
+
+  it("should convert between formats", () => {
+    const srt = exportSubtitles(
+      parseSubtitles(exportSubtitles([createSubtitle()], "ass")).subtitles,
+      "srt",
+    );
+
+    expect(srt).toBe("1\n00:00:01,000 --> 00:00:03,000\nHello world");
+  });
+
+  it("should import any format through subtitle/import", async () => {
+    const executor = new ActionExecutor();
+    const project = createProject();
+
+    const result = await executor.execute(
+      {
+        type: "subtitle/import",
+        id: "import-1",
+        timestamp: 0,
+        params: { content: exportWebVTT([createSubtitle()]) },
+      },
+      project,
+    );
+
+    expect(result.success).toBe(true);
+    expect(project.timeline.subtitles[0].words).toHaveLength(2);
+
+    await executor.undo(project);
+    expect(project.timeline.subtitles).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Subtitle } from "../types/timeline";
+import { exportSRT, parseSRT, type SRTParseResult } from "./subtitle-engine";
+import { exportWebVTT, parseWebVTT } from "./webvtt-format";
+import { exportASS, parseASS, type ASSExportOptions } from "./ass-format";
+import { exportTTML, parseTTML, type TTMLExportOptions } from "./ttml-format";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass" | "ttml";
+
+export type SubtitleExportOptions = ASSExportOptions & TTMLExportOptions;
+
+export const SUBTITLE_FORMATS: readonly SubtitleFormat[] = [
+  "srt",
+  "vtt",
+  "ass",
+  "ttml",
+];
+
+const EXTENSION_FORMATS: Record<string, SubtitleFormat> = {
+  srt: "srt",
+  vtt: "vtt",
+  webvtt: "vtt",
+  ass: "ass",
+  ssa: "ass",
+  ttml: "ttml",
+  dfxp: "ttml",
+  xml: "ttml",
+};
+
+/**
+ * Works out a subtitle file's format from its extension, falling back to
+ * its content. Unrecognised content is treated as SRT.
+ */
+export function detectSubtitleFormat(
+  content: string,
+  fileName?: string,
+): SubtitleFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension];
+  }
+
+  const head = content.replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\[Script Info\]/i.test(head)) return "ass";
+  const markup = head
+    .replace(/^<\?xml[^>]*\?>\s*/, "")
+    .replace(/^(<!--[\s\S]*?-->\s*)*/, "");
+  if (/^<([\w-]+:)?tt[\s>]/.test(markup)) return "ttml";
+  return "srt";
+}
+
+export function parseSubtitles(
+  content: string,
+  format: SubtitleFormat = detectSubtitleFormat(content),
+): SRTParseResult {
+  switch (format) {
+    case "vtt":
+      return parseWebVTT(content);
+    case "ass":
+      return parseASS(content);
+    case "ttml":
+      return parseTTML(content);
+    default:
+      return parseSRT(content);
+  }
+}
+
+export function exportSubtitles(
+  subtitles: readonly Subtitle[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = {},
+): string {
+  switch (format) {
+    case "vtt":
+      return exportWebVTT(subtitles);
+    case "ass":
+      return exportASS(subtitles, options);
+    case "ttml":
+      return exportTTML(subtitles, options);
+    default:
+      return exportSRT(subtitles);
+  }
+}
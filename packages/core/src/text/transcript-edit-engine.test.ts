@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ActionExecutor } from "../actions/action-executor";
+import {
+  TranscriptEditEngine,
+  buildTranscript,
+  detectFillerWords,
+  getLinkedTrackIds,
+  getWordRanges,
+} from "./transcript-edit-engine";
+import type { Clip, Project, Subtitle, Track } from "../types";
+
+const createClip = (overrides: Partial<Clip>): Clip => ({
+  id: "clip",
+  mediaId: "media-1",
+  trackId: "video",
+  startTime: 0,
+  duration: 10,
+  inPoint: 0,
+  outPoint: 10,
+  effects: [],
+  audioEffects: [],
+  transform: {
+    position: { x: 0, y: 0 },
+    scale: { x: 1, y: 1 },
+    rotation: 0,
+    anchor: { x: 0.5, y: 0.5 },
+    opacity: 1,
+  },
+  volume: 1,
+  keyframes: [],
+  ...overrides,
+});
+
+const createTrack = (overrides: Partial<Track>): Track => ({
+  id: "video",
+  type: "video",
+  name: "Video",
+  clips: [],
+  transitions: [],
+  locked: false,
+  hidden: false,
+  muted: false,
+  solo: false,
+  ...overrides,
+});
+
+// "so um I I think we should go", one word per second
+const createSubtitles = (): Subtitle[] => [
+  {
+    id: "sub-1",
+    text: "so um I I",
+    startTime: 0,
+    endTime: 4,
+    words: [
+      { text: "so", startTime: 0, endTime: 0.8 },
+      { text: "um", startTime: 1, endTime: 1.8 },
+      { text: "I", startTime: 2, endTime: 2.8 },
+      { text: "I,", startTime: 3, endTime: 3.8 },
+    ],
+  },
+  {
+    id: "sub-2",
+    text: "think we should go",
+    startTime: 4,
+    endTime: 8,
+    words: [
+      { text: "think", startTime: 4, endTime: 4.8 },
+      { text: "we", startTime: 5, endTime: 5.8 },
+      { text: "should", startTime: 6, endTime: 6.8 },
+      { text: "go", startTime: 7, endTime: 7.8 },
+    ],
+  },
+];
+
+const createProject = (): Project => ({
+  id: "project-1",
+  name: "Interview",
+  createdAt: 0,
+  modifiedAt: 0,
+  settings: {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    sampleRate: 48000,
+    channels: 2,
+  },
+  mediaLibrary: { items: [] },
+  timeline: {
+    tracks: [
+      createTrack({
+        clips: [createClip({ id: "video-clip" })],
+      }),
+      createTrack({
+        id: "audio",
+        type: "audio",
+        name: "Audio",
+        clips: [createClip({ id: "audio-clip", trackId: "audio" })],
+      }),
+      createTrack({
+        id: "music",
+        type: "audio",
+        name: "Music",
+        clips: [
+          createClip({
+            id: "music-clip",
+            mediaId: "media-2",
+            trackId: "music",
+            startTime: 6,
+            duration: 4,
+          }),
+        ],
+      }),
+    ],
+    subtitles: createSubtitles(),
+    duration: 10,
+    markers: [],
+  },
+});
+
+const spans = (project: Project, trackId: string) =>
+  project.timeline.tracks
+    .find((track) => track.id === trackId)!
+    .clips.map((clip) =>
+      [clip.startTime, clip.inPoint, clip.duration].map(
+        (value) => Math.round(value * 1000) / 1000,
+      ),
+    )
+    .sort((a, b) => a[0] - b[0]);
+
+const transcriptText = (project: Project) =>
+  buildTranscript(project.timeline.subtitles)
+    .map((word) => word.text)
+    .join(" ");
+
+describe("detectFillerWords", () => {
+  it("should find hesitations and the earlier copy of repeated words", () => {
+    const words = buildTranscript(createSubtitles());
+
+    expect(detectFillerWords(words)).toEqual([
+      { wordId: "sub-1:1", kind: "filler" },
+      { wordId: "sub-1:2", kind: "repeat" },
+    ]);
+  });
+
+  it("should not treat repeats separated by a long pause as stutters", () => {
+    const words = buildTranscript([
+      {
+        id: "sub",
+        text: "go go",
+        startTime: 0,
+        endTime: 5,
+        words: [
+          { text: "go", startTime: 0, endTime: 1 },
+          { text: "go", startTime: 4, endTime: 5 },
+        ],
+      },
+    ]);
+
+    expect(detectFillerWords(words)).toEqual([]);
+  });
+});
+
+describe("getWordRanges", () => {
+  it("should merge consecutive words and take part of the pause after", () => {
+    const words = buildTranscript(createSubtitles());
+    const ranges = getWordRanges(
+      words,
+      new Set(["sub-1:1", "sub-1:2", "sub-2:3"]),
+    );
+
+    expect(ranges).toHaveLength(2);
+    expect(ranges[0].startTime).toBe(1);
+    expect(ranges[0].endTime).toBeCloseTo(3);
+    expect(ranges[1]).toEqual({ startTime: 7, endTime: 7.8 });
+  });
+});
+
+describe("TranscriptEditEngine", () => {
+  let executor: ActionExecutor;
+  let engine: TranscriptEditEngine;
+  let project: Project;
+
+  beforeEach(() => {
+    executor = new ActionExecutor();
+    engine = new TranscriptEditEngine(executor, {
+      maxPauseRemoved: 0.2,
+      sourceClipId: "video-clip",
+    });
+    project = createProject();
+  });
+
+  it("should find the tracks holding the source clip's media", () => {
+    expect(getLinkedTrackIds(project, "video-clip")).toEqual([
+      "video",
+      "audio",
+    ]);
+    expect(getLinkedTrackIds(project, "music-clip")).toEqual(["music"]);
+    expect(getLinkedTrackIds(project, "missing")).toEqual([]);
+  });
+
+  it("should cut deleted words out of every linked track", async () => {
+    const result = await engine.deleteWords(project, ["sub-1:1"]);
+
+    expect(result.success).toBe(true);
+    for (const trackId of ["video", "audio"]) {
+      expect(spans(project, trackId)).toEqual([
+        [0, 0, 1],
+        [1, 2, 8],
+      ]);
+    }
+    // The music is not linked to the interview
+    expect(spans(project, "music")).toEqual([[6, 0, 4]]);
+
+    expect(transcriptText(project)).toBe("so I I, think we should go");
+    const [first] = project.timeline.subtitles;
+    expect(first.text).toBe("so I I,");
+    expect(first.endTime).toBe(3);
+    expect(first.words?.[1].startTime).toBe(1);
+    expect(first.words?.[1].endTime).toBeCloseTo(1.8);
+  });
+
+  it("should keep chosen tracks without a clip under the cut in sync", async () => {
+    engine = new TranscriptEditEngine(executor, {
+      maxPauseRemoved: 0.2,
+      trackIds: ["video", "audio", "music"],
+    });
+
+    await engine.deleteWords(project, ["sub-1:1"]);
+
+    expect(spans(project, "video")).toEqual([
+      [0, 0, 1],
+      [1, 2, 8],
+    ]);
+    // No clip under the cut, but pulled in to stay aligned
+    expect(spans(project, "music")).toEqual([[5, 0, 4]]);
+  });
+
+  it("should refuse to cut without a source clip or tracks", async () => {
+    engine = new TranscriptEditEngine(executor);
+
+    const result = await engine.deleteWords(project, ["sub-1:1"]);
+
+    expect(result.success).toBe(false);
+    expect(spans(project, "video")).toEqual([[0, 0, 10]]);
+  });
+
+  it("should undo a deletion in one step", async () => {
+    await engine.deleteWords(project, ["sub-1:1", "sub-2:1"]);
+    await executor.undo(project);
+
+    expect(spans(project, "video")).toEqual([[0, 0, 10]]);
+    expect(spans(project, "music")).toEqual([[6, 0, 4]]);
+    expect(project.timeline.subtitles).toEqual(createSubtitles());
+  });
+
+  it("should move words and their media before another word", async () => {
+    const result = await engine.moveWords(
+      project,
+      ["sub-2:2", "sub-2:3"],
+      "sub-1:0",
+    );
+
+    expect(result.success).toBe(true);
+    expect(transcriptText(project)).toBe("should go so um I I, think we");
+    expect(spans(project, "audio")).toEqual([
+      [0, 6, 1.8],
+      [1.8, 0, 6],
+      [7.8, 7.8, 2.2],
+    ]);
+    expect(project.timeline.subtitles.map((s) => s.text)).toEqual([
+      "should go",
+      "so um I I",
+      "think we",
+    ]);
+  });
+
+  it("should move words when overlapping clips are rejected", async () => {
+    executor.setRejectOverlaps(true);
+
+    const result = await engine.moveWords(project, ["sub-1:1"], "sub-2:2");
+
+    expect(result.success).toBe(true);
+    expect(transcriptText(project)).toBe("so I I, think we um should go");
+    expect(spans(project, "video")).toEqual([
+      [0, 0, 1],
+      [1, 2, 4],
+      [5, 1, 1],
+      [6, 6, 4],
+    ]);
+  });
+
+  it("should undo the applied actions when a move fails partway", async () => {
+    const execute = executor.execute.bind(executor);
+    let moves = 0;
+    vi.spyOn(executor, "execute").mockImplementation((action, ...rest) => {
+      if (action.type === "clip/move" && ++moves === 4) {
+        return Promise.resolve({
+          success: false,
+          error: { code: "INVALID_PARAMS", message: "Move rejected" },
+        });
+      }
+      return execute(action, ...rest);
+    });
+
+    const result = await engine.moveWords(
+      project,
+      ["sub-2:2", "sub-2:3"],
+      "sub-1:0",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe("Move rejected");
+    expect(spans(project, "video")).toEqual([[0, 0, 10]]);
+    expect(spans(project, "audio")).toEqual([[0, 0, 10]]);
+    expect(project.timeline.subtitles).toEqual(createSubtitles());
+    expect(executor.getHistory().canUndo()).toBe(false);
+  });
+
+  it("should only move consecutive words", async () => {
+    const result = await engine.moveWords(
+      project,
+      ["sub-1:0", "sub-1:2"],
+      null,
+    );
+
+    expect(result.success).toBe(false);
+    expect(spans(project, "video")).toEqual([[0, 0, 10]]);
+  });
+
+  it("should leave locked tracks alone", async () => {
+    engine = new TranscriptEditEngine(executor, {
+      trackIds: ["video", "audio", "music"],
+    });
+    project = {
+      ...project,
+      timeline: {
+        ...project.timeline,
+        tracks: project.timeline.tracks.map((track) =>
+          track.id === "music" ? { ...track, locked: true } : track,
+        ),
+      },
+    };
+
+    await engine.deleteWords(project, ["sub-1:1"]);
+
+    expect(spans(project, "music")).toEqual([[6, 0, 4]]);
+  });
+});
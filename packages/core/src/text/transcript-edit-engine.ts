@@ -0,0 +1,487 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Clip, Subtitle, SubtitleWord, Track } from "../types/timeline";
+import type { Project } from "../types/project";
+import type { Action, ActionResult } from "../types/actions";
+import type { ActionExecutor } from "../actions/action-executor";
+
+/**
+ * Text-based editing: the word timings of the timeline's subtitles act as a
+ * transcript, and deleting or reordering words cuts or rearranges the
+ * matching stretch of the linked video and audio tracks with clip/split,
+ * clip/rippleDelete and clip/move, so picture and sound stay in sync.
+ * Linked tracks are the ones holding the transcribed clip's media (e.g. the
+ * video and its separated audio), or the tracks the user picks; music beds
+ * and B-roll on other tracks are left alone.
+ */
+
+export interface TranscriptWord extends SubtitleWord {
+  /** Stable for as long as the subtitle is unchanged. */
+  readonly id: string;
+  readonly subtitleId: string;
+}
+
+export interface TranscriptRange {
+  readonly startTime: number;
+  readonly endTime: number;
+}
+
+export type FillerKind = "filler" | "repeat";
+
+export interface FillerWordMatch {
+  readonly wordId: string;
+  readonly kind: FillerKind;
+}
+
+export interface TranscriptEditOptions {
+  /** Track types cut along with the transcript. Defaults to video and audio. */
+  readonly trackTypes?: readonly Track["type"][];
+  /** Clip the transcript was made from; tracks linked to it are cut. */
+  readonly sourceClipId?: string;
+  /** Tracks to cut, in place of the ones linked to `sourceClipId`. */
+  readonly trackIds?: readonly string[];
+  /**
+   * Longest pause after a deleted word that is removed with it; the rest
+   * of a longer pause is kept. Defaults to 0.3 seconds.
+   */
+  readonly maxPauseRemoved?: number;
+}
+
+export const DEFAULT_FILLER_WORDS: readonly string[] = [
+  "um",
+  "umm",
+  "uh",
+  "uhh",
+  "uhm",
+  "er",
+  "erm",
+  "ah",
+  "hmm",
+  "mm",
+  "mhm",
+];
+
+const TIME_EPSILON = 1e-4;
+const MAX_REPEAT_GAP = 1;
+
+export function buildTranscript(
+  subtitles: readonly Subtitle[],
+): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  for (const subtitle of subtitles) {
+    subtitle.words?.forEach((word, index) => {
+      words.push({
+        ...word,
+        id: `${subtitle.id}:${index}`,
+        subtitleId: subtitle.id,
+      });
+    });
+  }
+  return words.sort((a, b) => a.startTime - b.startTime);
+}
+
+export function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Finds hesitations ("um", "uh") and immediately repeated words ("I I
+ * think"). For a repeat, the earlier occurrences are reported so the last
+ * one, which usually runs into the rest of the sentence, is kept.
+ */
+export function detectFillerWords(
+  words: readonly TranscriptWord[],
+  fillerWords: readonly string[] = DEFAULT_FILLER_WORDS,
+): FillerWordMatch[] {
+  const fillers = new Set(fillerWords.map(normalizeWord));
+  const matches: FillerWordMatch[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const text = normalizeWord(words[i].text);
+    if (!text) continue;
+
+    if (fillers.has(text)) {
+      matches.push({ wordId: words[i].id, kind: "filler" });
+      continue;
+    }
+
+    const next = words[i + 1];
+    if (
+      next &&
+      normalizeWord(next.text) === text &&
+      next.startTime - words[i].endTime <= MAX_REPEAT_GAP
+    ) {
+      matches.push({ wordId: words[i].id, kind: "repeat" });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Turns a set of words into the timeline ranges to remove: one range per
+ * run of consecutive words, running up to the next kept word so the pause
+ * after them goes too (at most `maxPauseRemoved` of it).
+ */
+export function getWordRanges(
+  words: readonly TranscriptWord[],
+  wordIds: ReadonlySet<string>,
+  maxPauseRemoved: number = 0.3,
+): TranscriptRange[] {
+  const ranges: TranscriptRange[] = [];
+  let runStart: TranscriptWord | null = null;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (!wordIds.has(word.id)) continue;
+
+    runStart = runStart ?? word;
+    const next = words[i + 1];
+    if (next && wordIds.has(next.id)) continue;
+
+    const endTime = next
+      ? Math.max(
+          word.endTime,
+          Math.min(next.startTime, word.endTime + maxPauseRemoved),
+        )
+      : word.endTime;
+    if (endTime > runStart.startTime) {
+      ranges.push({ startTime: runStart.startTime, endTime });
+    }
+    runStart = null;
+  }
+  return ranges;
+}
+
+/**
+ * Unlocked tracks of the given types that hold the clip or another clip of
+ * the same media, such as audio separated from a video clip.
+ */
+export function getLinkedTrackIds(
+  project: Project,
+  clipId: string,
+  trackTypes: readonly Track["type"][] = ["video", "audio"],
+): string[] {
+  const mediaId = project.timeline.tracks
+    .flatMap((track) => track.clips)
+    .find((clip) => clip.id === clipId)?.mediaId;
+  if (!mediaId) return [];
+  return project.timeline.tracks
+    .filter(
+      (track) =>
+        !track.locked &&
+        trackTypes.includes(track.type) &&
+        track.clips.some((clip) => clip.mediaId === mediaId),
+    )
+    .map((track) => track.id);
+}
+
+function createAction(type: string, params: Record<string, unknown>): Action {
+  return {
+    type,
+    id: uuidv4(),
+    timestamp: Date.now(),
+    params,
+  };
+}
+
+export class TranscriptEditEngine {
+  private executor: ActionExecutor;
+  private trackTypes: readonly Track["type"][];
+  private sourceClipId: string | null;
+  private trackIds: readonly string[] | null;
+  private maxPauseRemoved: number;
+
+  constructor(executor: ActionExecutor, options: TranscriptEditOptions = {}) {
+    this.executor = executor;
+    this.trackTypes = options.trackTypes ?? ["video", "audio"];
+    this.sourceClipId = options.sourceClipId ?? null;
+    this.trackIds = options.trackIds ?? null;
+    this.maxPauseRemoved = options.maxPauseRemoved ?? 0.3;
+  }
+
+  getTranscript(project: Project): TranscriptWord[] {
+    return buildTranscript(project.timeline.subtitles);
+  }
+
+  /** Removes the words and the media under them, as one undo step. */
+  async deleteWords(
+    project: Project,
+    wordIds: readonly string[],
+  ): Promise<ActionResult> {
+    const ranges = getWordRanges(
+      this.getTranscript(project),
+      new Set(wordIds),
+      this.maxPauseRemoved,
+    );
+    if (ranges.length === 0) return { success: true };
+
+    // Last range first, so earlier ranges keep their timeline position
+    return this.inGroup(project, "Delete words", async () => {
+      const trackIds = this.resolveTrackIds(project);
+      for (const range of [...ranges].reverse()) {
+        await this.rippleDeleteRange(project, range, trackIds);
+      }
+    });
+  }
+
+  /**
+   * Moves a run of consecutive words, and the media under them, to just
+   * before `beforeWordId`, or to the end of the transcript when null.
+   */
+  async moveWords(
+    project: Project,
+    wordIds: readonly string[],
+    beforeWordId: string | null,
+  ): Promise<ActionResult> {
+    const words = this.getTranscript(project);
+    const selected = new Set(wordIds);
+    const indices = words
+      .map((word, index) => (selected.has(word.id) ? index : -1))
+      .filter((index) => index >= 0);
+    if (indices.length === 0) return { success: true };
+
+    if (indices[indices.length - 1] - indices[0] !== indices.length - 1) {
+      return {
+        success: false,
+        error: {
+          code: "INVALID_PARAMS",
+          message: "Only consecutive words can be moved together",
+        },
+      };
+    }
+
+    const [range] = getWordRanges(words, selected, this.maxPauseRemoved);
+    let toTime: number;
+    if (beforeWordId === null) {
+      toTime = words.reduce(
+        (end, word) => Math.max(end, word.endTime),
+        range.endTime,
+      );
+    } else {
+      const target = words.find((word) => word.id === beforeWordId);
+      if (!target) {
+        return {
+          success: false,
+          error: {
+            code: "INVALID_PARAMS",
+            message: `Word ${beforeWordId} not found`,
+          },
+        };
+      }
+      toTime = target.startTime;
+    }
+
+    if (toTime >= range.startTime && toTime <= range.endTime) {
+      return { success: true };
+    }
+
+    return this.inGroup(project, "Move words", () =>
+      this.moveRange(project, range, toTime, this.resolveTrackIds(project)),
+    );
+  }
+
+  /**
+   * Runs an edit as one undo step. If any action fails, the ones already
+   * applied are undone so the timeline is never left half cut.
+   */
+  private async inGroup(
+    project: Project,
+    description: string,
+    edit: () => Promise<void>,
+  ): Promise<ActionResult> {
+    const history = this.executor.getHistory();
+    const start = history.getCurrentNodeId();
+    history.beginGroup(description);
+    try {
+      await edit();
+      return { success: true };
+    } catch (error) {
+      if (history.getCurrentNodeId() !== start) {
+        await this.executor.undo(project);
+      }
+      return {
+        success: false,
+        error: {
+          code: "INVALID_PARAMS",
+          message:
+            error instanceof Error ? error.message : "Unknown error occurred",
+        },
+      };
+    } finally {
+      history.endGroup();
+    }
+  }
+
+  private async run(
+    project: Project,
+    type: string,
+    params: Record<string, unknown>,
+  ): Promise<void> {
+    const result = await this.executor.execute(
+      createAction(type, params),
+      project,
+    );
+    if (!result.success) {
+      throw new Error(result.error?.message ?? `${type} failed`);
+    }
+  }
+
+  /** Resolved before an edit starts, as the edit may remove the source clip. */
+  private resolveTrackIds(project: Project): string[] {
+    const trackIds =
+      this.trackIds ??
+      (this.sourceClipId
+        ? getLinkedTrackIds(project, this.sourceClipId, this.trackTypes)
+        : null);
+    if (!trackIds) {
+      throw new Error("Choose the transcribed clip or the tracks to cut");
+    }
+    return project.timeline.tracks
+      .filter(
+        (track) =>
+          trackIds.includes(track.id) &&
+          !track.locked &&
+          this.trackTypes.includes(track.type),
+      )
+      .map((track) => track.id);
+  }
+
+  private findTrack(project: Project, trackId: string): Track {
+    return project.timeline.tracks.find((track) => track.id === trackId)!;
+  }
+
+  /** Splits the clip on the track that spans `time`, if there is one. */
+  private async splitAt(
+    project: Project,
+    trackId: string,
+    time: number,
+  ): Promise<void> {
+    const clip = this.findTrack(project, trackId).clips.find(
+      (c) =>
+        c.startTime < time - TIME_EPSILON &&
+        c.startTime + c.duration > time + TIME_EPSILON,
+    );
+    if (clip) {
+      // Explicit ids: several splits can land within one millisecond
+      await this.run(project, "clip/split", {
+        clipId: clip.id,
+        time,
+        id: uuidv4(),
+      });
+    }
+  }
+
+  private async rippleDeleteRange(
+    project: Project,
+    range: TranscriptRange,
+    trackIds: readonly string[],
+  ): Promise<void> {
+    const { startTime, endTime } = range;
+    const duration = endTime - startTime;
+
+    for (const trackId of trackIds) {
+      await this.splitAt(project, trackId, endTime);
+      await this.splitAt(project, trackId, startTime);
+
+      const inside = this.findTrack(project, trackId)
+        .clips.filter(
+          (c) =>
+            c.startTime >= startTime - TIME_EPSILON &&
+            c.startTime + c.duration <= endTime + TIME_EPSILON,
+        )
+        .sort((a, b) => b.startTime - a.startTime);
+      let removed = 0;
+      for (const clip of inside) {
+        await this.run(project, "clip/rippleDelete", { clipId: clip.id });
+        removed += clip.duration;
+      }
+
+      // Gaps inside the range are not closed by rippleDelete; pull the
+      // rest of the track in so it stays aligned with the other tracks
+      const gap = duration - removed;
+      if (gap > TIME_EPSILON) {
+        const later = this.findTrack(project, trackId)
+          .clips.filter((c) => c.startTime >= startTime - TIME_EPSILON)
+          .sort((a, b) => a.startTime - b.startTime);
+        for (const clip of later) {
+          await this.run(project, "clip/move", {
+            clipId: clip.id,
+            startTime: Math.max(0, clip.startTime - gap),
+          });
+        }
+      }
+    }
+
+    await this.run(project, "subtitle/rippleDelete", { startTime, endTime });
+  }
+
+  private async moveRange(
+    project: Project,
+    range: TranscriptRange,
+    toTime: number,
+    trackIds: readonly string[],
+  ): Promise<void> {
+    const { startTime, endTime } = range;
+    const from = Math.min(startTime, toTime);
+    const to = Math.max(endTime, toTime);
+    const movingEarlier = toTime < startTime;
+    const isMoved = (clip: Clip): boolean =>
+      movingEarlier
+        ? clip.startTime >= startTime - TIME_EPSILON
+        : clip.startTime < endTime - TIME_EPSILON;
+    const offset = (clip: Clip): number => {
+      if (movingEarlier) {
+        return isMoved(clip) ? toTime - startTime : endTime - startTime;
+      }
+      return isMoved(clip) ? toTime - endTime : startTime - endTime;
+    };
+
+    for (const trackId of trackIds) {
+      for (const time of [startTime, endTime, toTime]) {
+        await this.splitAt(project, trackId, time);
+      }
+
+      const clips = this.findTrack(project, trackId).clips;
+      const trackEnd = clips.reduce(
+        (end, c) => Math.max(end, c.startTime + c.duration),
+        0,
+      );
+      const affected = clips.filter(
+        (c) =>
+          c.startTime >= from - TIME_EPSILON &&
+          c.startTime + c.duration <= to + TIME_EPSILON,
+      );
+      const targets = new Map(
+        affected.map((c) => [c.id, c.startTime + offset(c)]),
+      );
+      const moved = affected.filter(isMoved);
+      // Each passed-over clip steps into space that is already free
+      const passed = affected
+        .filter((c) => !isMoved(c))
+        .sort((a, b) =>
+          movingEarlier ? b.startTime - a.startTime : a.startTime - b.startTime,
+        );
+
+      // Park the moved clips past the end of the track while the others
+      // shift, so no clip overlaps another along the way (collaborative
+      // sessions reject overlapping moves)
+      for (const clip of moved) {
+        await this.run(project, "clip/move", {
+          clipId: clip.id,
+          startTime: trackEnd + clip.startTime - from,
+        });
+      }
+      for (const clip of [...passed, ...moved]) {
+        await this.run(project, "clip/move", {
+          clipId: clip.id,
+          startTime: targets.get(clip.id),
+        });
+      }
+    }
+
+    await this.run(project, "subtitle/moveRange", {
+      startTime,
+      endTime,
+      toTime,
+    });
+  }
+}
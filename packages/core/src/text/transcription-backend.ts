@@ -0,0 +1,149 @@
+import type { SubtitleWord } from "../types/timeline";
+
+export interface CloudflareWhisperWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface CloudflareWhisperResponse {
+  text: string;
+  word_count?: number;
+  words?: CloudflareWhisperWord[];
+  vtt?: string;
+}
+
+export interface TranscriptionAudio {
+  /** Mono samples at `sampleRate`. */
+  readonly samples: Float32Array;
+  readonly sampleRate: number;
+}
+
+export interface TranscriptionBackendOptions {
+  readonly language?: string;
+  /** Progress from 0 to 1 with a message for the user. */
+  readonly onProgress?: (progress: number, message: string) => void;
+}
+
+export interface TranscriptionBackendResult {
+  readonly text: string;
+  /** Word timings in seconds from the start of the audio. */
+  readonly words: SubtitleWord[];
+}
+
+/**
+ * Speech-to-text engine used by TranscriptionService. Implementations decide
+ * where the audio goes: RemoteWhisperBackend posts it to an HTTP endpoint,
+ * LocalWhisperBackend never lets it leave the machine.
+ */
+export interface TranscriptionBackend {
+  readonly id: string;
+  readonly name: string;
+  /** True when audio is processed entirely on this machine. */
+  readonly isLocal: boolean;
+  /** Sample rate audio is resampled to before it is passed in. */
+  readonly sampleRate: number;
+  transcribe(
+    audio: TranscriptionAudio,
+    options?: TranscriptionBackendOptions,
+  ): Promise<TranscriptionBackendResult>;
+  dispose(): void;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const headerSize = 44;
+  const totalSize = headerSize + dataSize;
+
+  const arrayBuffer = new ArrayBuffer(totalSize);
+  const view = new DataView(arrayBuffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, totalSize - 8, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    view.setInt16(offset, intSample, true);
+    offset += 2;
+  }
+
+  return new Blob([arrayBuffer], { type: "audio/wav" });
+}
+
+/** Posts audio as WAV to a Whisper HTTP endpoint, e.g. a Cloudflare worker. */
+export class RemoteWhisperBackend implements TranscriptionBackend {
+  readonly id = "remote-whisper";
+  readonly name = "Whisper (cloud)";
+  readonly isLocal = false;
+  readonly sampleRate = 16000;
+  private apiEndpoint: string;
+
+  constructor(apiEndpoint: string) {
+    this.apiEndpoint = apiEndpoint;
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionBackendOptions = {},
+  ): Promise<TranscriptionBackendResult> {
+    const formData = new FormData();
+    formData.append(
+      "audio",
+      encodeWav(audio.samples, audio.sampleRate),
+      "audio.wav",
+    );
+
+    options.onProgress?.(0, "Transcribing audio...");
+
+    const response = await fetch(this.apiEndpoint, {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new Error(
+          "Rate limit reached. Please wait a minute before transcribing more audio. This free service is limited to 10 requests per minute.",
+        );
+      }
+      const errorText = await response.text();
+      throw new Error(
+        `Transcription failed: ${response.status} - ${errorText}`,
+      );
+    }
+
+    const result: CloudflareWhisperResponse = await response.json();
+    options.onProgress?.(1, "Transcription received");
+
+    return {
+      text: result.text ?? "",
+      words: (result.words ?? []).map((word) => ({
+        text: word.word,
+        startTime: word.start,
+        endTime: word.end,
+      })),
+    };
+  }
+
+  dispose(): void {}
+}
@@ -1,18 +1,15 @@
-import type { Subtitle, SubtitleStyle, Clip } from "../types/timeline";
+import type {
+  Subtitle,
+  SubtitleStyle,
+  SubtitleWord,
+  Clip,
+} from "../types/timeline";
 import type { MediaItem } from "../types/project";
-
-export interface CloudflareWhisperWord {
-  word: string;
-  start: number;
-  end: number;
-}
-
-export interface CloudflareWhisperResponse {
-  text: string;
-  word_count?: number;
-  words?: CloudflareWhisperWord[];
-  vtt?: string;
-}
+import {
+  RemoteWhisperBackend,
+  type TranscriptionBackend,
+  type TranscriptionBackendResult,
+} from "./transcription-backend";
 
 export interface WhisperTranscriptionProgress {
   phase:
@@ -27,7 +24,10 @@ export interface WhisperTranscriptionProgress {
 }
 
 export interface TranscriptionConfig {
-  apiEndpoint: string;
+  /** Whisper HTTP endpoint, used when no backend is given. */
+  apiEndpoint?: string;
+  /** Speech-to-text backend, e.g. a LocalWhisperBackend for offline use. */
+  backend?: TranscriptionBackend;
   apiKey?: string;
   language?: string;
   maxSegmentDuration?: number;
@@ -44,6 +44,7 @@ const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
 
 export class TranscriptionService {
   private config: TranscriptionConfig;
+  private backend: TranscriptionBackend;
   private audioContext: AudioContext | null = null;
 
   constructor(config: TranscriptionConfig) {
@@ -52,6 +53,25 @@ export class TranscriptionService {
       maxWordsPerSegment: 10,
       ...config,
     };
+
+    if (config.backend) {
+      this.backend = config.backend;
+    } else if (config.apiEndpoint) {
+      this.backend = new RemoteWhisperBackend(config.apiEndpoint);
+    } else {
+      throw new Error("Transcription needs an apiEndpoint or a backend");
+    }
+  }
+
+  getBackend(): TranscriptionBackend {
+    return this.backend;
+  }
+
+  /** Replaces the backend, disposing the previous one. */
+  setBackend(backend: TranscriptionBackend): void {
+    if (backend === this.backend) return;
+    this.backend.dispose();
+    this.backend = backend;
   }
 
   async transcribeClip(
@@ -66,15 +86,34 @@ export class TranscriptionService {
         message: "Extracting audio from video...",
       });
 
-      const audioBlob = await this.extractAudioFromClip(clip, mediaItem);
-
-      onProgress?.({
-        phase: "uploading",
-        progress: 25,
-        message: "Uploading audio for transcription...",
-      });
+      const samples = await this.extractAudioFromClip(clip, mediaItem);
+
+      onProgress?.(
+        this.backend.isLocal
+          ? {
+              phase: "transcribing",
+              progress: 25,
+              message: "Transcribing on this device...",
+            }
+          : {
+              phase: "uploading",
+              progress: 25,
+              message: "Uploading audio for transcription...",
+            },
+      );
 
-      const whisperResponse = await this.sendToWhisper(audioBlob, onProgress);
+      const result = await this.backend.transcribe(
+        { samples, sampleRate: this.backend.sampleRate },
+        {
+          language: this.config.language,
+          onProgress: (progress, message) =>
+            onProgress?.({
+              phase: "transcribing",
+              progress: 25 + Math.round(progress * 65),
+              message,
+            }),
+        },
+      );
 
       onProgress?.({
         phase: "processing",
@@ -82,7 +121,7 @@ export class TranscriptionService {
         message: "Processing transcription...",
       });
 
-      const subtitles = this.convertToSubtitles(whisperResponse, clip);
+      const subtitles = this.convertToSubtitles(result, clip);
 
       onProgress?.({
         phase: "complete",
@@ -102,10 +141,11 @@ export class TranscriptionService {
     }
   }
 
+  /** Decodes the clip's audio as mono at the backend's sample rate. */
   private async extractAudioFromClip(
     clip: Clip,
     mediaItem: MediaItem,
-  ): Promise<Blob> {
+  ): Promise<Float32Array> {
     if (!this.audioContext) {
       this.audioContext = new AudioContext();
     }
@@ -132,7 +172,12 @@ export class TranscriptionService {
     const endSample = Math.floor((inPoint + duration) * sampleRate);
     const numSamples = endSample - startSample;
 
-    const offlineContext = new OfflineAudioContext(1, numSamples, sampleRate);
+    const targetRate = this.backend.sampleRate;
+    const offlineContext = new OfflineAudioContext(
+      1,
+      Math.max(1, Math.ceil((numSamples * targetRate) / sampleRate)),
+      targetRate,
+    );
     const source = offlineContext.createBufferSource();
 
     const trimmedBuffer = offlineContext.createBuffer(
@@ -152,101 +197,20 @@ export class TranscriptionService {
     source.start(0);
 
     const renderedBuffer = await offlineContext.startRendering();
-    return this.audioBufferToWav(renderedBuffer);
-  }
-
-  private audioBufferToWav(buffer: AudioBuffer): Blob {
-    const numChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const format = 1;
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = buffer.length * blockAlign;
-    const headerSize = 44;
-    const totalSize = headerSize + dataSize;
-
-    const arrayBuffer = new ArrayBuffer(totalSize);
-    const view = new DataView(arrayBuffer);
-
-    const writeString = (offset: number, str: string) => {
-      for (let i = 0; i < str.length; i++) {
-        view.setUint8(offset + i, str.charCodeAt(i));
-      }
-    };
-
-    writeString(0, "RIFF");
-    view.setUint32(4, totalSize - 8, true);
-    writeString(8, "WAVE");
-    writeString(12, "fmt ");
-    view.setUint32(16, 16, true);
-    view.setUint16(20, format, true);
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, "data");
-    view.setUint32(40, dataSize, true);
-
-    const channelData = buffer.getChannelData(0);
-    let offset = 44;
-    for (let i = 0; i < buffer.length; i++) {
-      const sample = Math.max(-1, Math.min(1, channelData[i]));
-      const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-      view.setInt16(offset, intSample, true);
-      offset += 2;
-    }
-
-    return new Blob([arrayBuffer], { type: "audio/wav" });
-  }
-
-  private async sendToWhisper(
-    audioBlob: Blob,
-    onProgress?: (progress: WhisperTranscriptionProgress) => void,
-  ): Promise<CloudflareWhisperResponse> {
-    const formData = new FormData();
-    formData.append("audio", audioBlob, "audio.wav");
-
-    onProgress?.({
-      phase: "transcribing",
-      progress: 50,
-      message: "Transcribing audio...",
-    });
-
-    const response = await fetch(this.config.apiEndpoint, {
-      method: "POST",
-      body: formData,
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new Error(
-          "Rate limit reached. Please wait a minute before transcribing more audio. This free service is limited to 10 requests per minute.",
-        );
-      }
-      const errorText = await response.text();
-      throw new Error(
-        `Transcription failed: ${response.status} - ${errorText}`,
-      );
-    }
-
-    return response.json();
+    return renderedBuffer.getChannelData(0);
   }
 
   private convertToSubtitles(
-    response: CloudflareWhisperResponse,
+    result: TranscriptionBackendResult,
     clip: Clip,
   ): Subtitle[] {
-    if (!response.words || response.words.length === 0) {
-      if (!response.text) return [];
+    if (result.words.length === 0) {
+      if (!result.text.trim()) return [];
 
       return [
         {
           id: this.generateId(),
-          text: response.text.trim(),
+          text: result.text.trim(),
           startTime: clip.startTime,
           endTime: clip.startTime + clip.duration,
           style: DEFAULT_SUBTITLE_STYLE,
@@ -256,28 +220,28 @@ export class TranscriptionService {
       ];
     }
 
-    return this.groupWordsIntoSubtitles(response.words, clip.startTime);
+    return this.groupWordsIntoSubtitles(result.words, clip.startTime);
   }
 
   private groupWordsIntoSubtitles(
-    words: CloudflareWhisperWord[],
+    words: SubtitleWord[],
     clipStartTime: number,
   ): Subtitle[] {
     const subtitles: Subtitle[] = [];
     const maxWords = this.config.maxWordsPerSegment || 10;
     const maxDuration = this.config.maxSegmentDuration || 5;
 
-    let currentWords: CloudflareWhisperWord[] = [];
+    let currentWords: SubtitleWord[] = [];
     let groupStart = 0;
 
     for (const word of words) {
       if (currentWords.length === 0) {
-        groupStart = word.start;
+        groupStart = word.startTime;
       }
 
       const wouldExceedWords = currentWords.length >= maxWords;
-      const wouldExceedDuration = word.end - groupStart > maxDuration;
-      const isPunctuation = /[.!?]$/.test(word.word);
+      const wouldExceedDuration = word.endTime - groupStart > maxDuration;
+      const isPunctuation = /[.!?]$/.test(word.text);
 
       if (
         (wouldExceedWords || wouldExceedDuration) &&
@@ -287,7 +251,7 @@ export class TranscriptionService {
           this.createSubtitleFromWords(currentWords, clipStartTime),
         );
         currentWords = [word];
-        groupStart = word.start;
+        groupStart = word.startTime;
       } else {
         currentWords.push(word);
 
@@ -308,15 +272,15 @@ export class TranscriptionService {
   }
 
   private createSubtitleFromWords(
-    words: CloudflareWhisperWord[],
+    words: SubtitleWord[],
     clipStartTime: number,
   ): Subtitle {
     const text = words
-      .map((w) => w.word)
+      .map((w) => w.text)
       .join(" ")
       .trim();
-    const startTime = clipStartTime + words[0].start;
-    const endTime = clipStartTime + words[words.length - 1].end;
+    const startTime = clipStartTime + words[0].startTime;
+    const endTime = clipStartTime + words[words.length - 1].endTime;
 
     return {
       id: this.generateId(),
@@ -325,9 +289,9 @@ export class TranscriptionService {
       endTime,
       style: DEFAULT_SUBTITLE_STYLE,
       words: words.map((w) => ({
-        text: w.word,
-        startTime: clipStartTime + w.start,
-        endTime: clipStartTime + w.end,
+        text: w.text,
+        startTime: clipStartTime + w.startTime,
+        endTime: clipStartTime + w.endTime,
       })),
       animationStyle: "none",
     };
@@ -338,6 +302,7 @@ export class TranscriptionService {
   }
 
   dispose(): void {
+    this.backend.dispose();
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
@@ -0,0 +1,700 @@
+import type { Subtitle, SubtitleStyle, SubtitleWord } from "../types/timeline";
+import {
+  createXmlElement,
+  parseXml,
+  serializeXml,
+  type XmlElement,
+  type XmlNode,
+} from "../interchange/xml";
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  generateSubtitleId,
+  type SRTParseError,
+  type SRTParseResult,
+} from "./subtitle-engine";
+import { formatSubtitleColor, parseSubtitleColor } from "./subtitle-color";
+import { formatWebVTTTimestamp } from "./webvtt-format";
+
+/**
+ * TTML (https://www.w3.org/TR/ttml2/) and its IMSC text profile, which
+ * broadcasters and streaming services deliver. Referential and inline
+ * styling on regions, divs and paragraphs is resolved to SubtitleStyle;
+ * timed spans inside a paragraph become word timings. Export writes IMSC1
+ * text profile documents.
+ */
+
+export interface TTMLExportOptions {
+  /** Root extent in pixels, which IMSC needs for pixel font sizes. */
+  readonly width?: number;
+  readonly height?: number;
+  readonly language?: string;
+}
+
+interface TimingParameters {
+  readonly frameRate: number;
+  readonly subFrameRate: number;
+  readonly tickRate: number;
+}
+
+type StyleAttributes = Record<string, string>;
+
+interface DocumentContext {
+  readonly timing: TimingParameters;
+  readonly styles: Map<string, StyleAttributes>;
+  readonly regions: Map<string, StyleAttributes>;
+  /** Root height in pixels and cell rows, for font sizes in c and %. */
+  readonly height: number;
+  readonly cellRows: number;
+  readonly subtitles: Subtitle[];
+  readonly errors: SRTParseError[];
+}
+
+interface Inherited {
+  readonly begin: number;
+  readonly end?: number;
+  readonly style: StyleAttributes;
+  readonly region?: string;
+}
+
+const TTML_NAMESPACE = "http://www.w3.org/ns/ttml";
+const IMSC1_TEXT_PROFILE = "http://www.w3.org/ns/ttml/profile/imsc1/text";
+
+const GENERIC_FONT_FAMILIES: Record<string, string> = {
+  default: "Arial",
+  sansSerif: "Arial",
+  proportionalSansSerif: "Arial",
+  monospace: "Courier New",
+  monospaceSansSerif: "Courier New",
+  monospaceSerif: "Courier New",
+  serif: "Georgia",
+  proportionalSerif: "Georgia",
+};
+
+const REGIONS: Record<
+  SubtitleStyle["position"],
+  { origin: string; extent: string; displayAlign: string }
+> = {
+  top: { origin: "10% 10%", extent: "80% 20%", displayAlign: "before" },
+  center: { origin: "10% 40%", extent: "80% 20%", displayAlign: "center" },
+  bottom: { origin: "10% 70%", extent: "80% 20%", displayAlign: "after" },
+};
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function getAttribute(element: XmlElement, name: string): string | undefined {
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (localName(key) === name) return value;
+  }
+  return undefined;
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => localName(child.name) === name);
+}
+
+/** tts:* attributes of an element, keyed by local name. */
+function inlineStyle(element: XmlElement): StyleAttributes {
+  const style: StyleAttributes = {};
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (key.startsWith("tts:")) {
+      style[key.slice(4)] = value;
+    }
+  }
+  return style;
+}
+
+export function parseTTMLTime(
+  value: string,
+  timing: TimingParameters = { frameRate: 30, subFrameRate: 1, tickRate: 1 },
+): number | null {
+  const trimmed = value.trim();
+
+  const clock = trimmed.match(
+    /^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/,
+  );
+  if (clock) {
+    const seconds =
+      parseInt(clock[1], 10) * 3600 +
+      parseInt(clock[2], 10) * 60 +
+      parseInt(clock[3], 10);
+    if (clock[4]) return seconds + parseFloat(clock[4]);
+    if (clock[5]) {
+      const subFrames = clock[6] ? parseInt(clock[6], 10) : 0;
+      return (
+        seconds +
+        (parseInt(clock[5], 10) + subFrames / timing.subFrameRate) /
+          timing.frameRate
+      );
+    }
+    return seconds;
+  }
+
+  const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/);
+  if (!offset) return null;
+  const amount = parseFloat(offset[1]);
+  switch (offset[2]) {
+    case "h":
+      return amount * 3600;
+    case "m":
+      return amount * 60;
+    case "s":
+      return amount;
+    case "ms":
+      return amount / 1000;
+    case "f":
+      return amount / timing.frameRate;
+    default:
+      return amount / timing.tickRate;
+  }
+}
+
+function parseTimingParameters(root: XmlElement): TimingParameters {
+  const frameRate = parseFloat(getAttribute(root, "frameRate") ?? "");
+  const [numerator, denominator] = (
+    getAttribute(root, "frameRateMultiplier") ?? "1 1"
+  )
+    .split(/\s+/)
+    .map((part) => parseFloat(part));
+  const effectiveFrameRate =
+    (isNaN(frameRate) ? 30 : frameRate) *
+    (numerator > 0 && denominator > 0 ? numerator / denominator : 1);
+  const subFrameRate = parseFloat(getAttribute(root, "subFrameRate") ?? "");
+  const tickRate = parseFloat(getAttribute(root, "tickRate") ?? "");
+
+  return {
+    frameRate: effectiveFrameRate,
+    subFrameRate: subFrameRate > 0 ? subFrameRate : 1,
+    tickRate:
+      tickRate > 0 ? tickRate : isNaN(frameRate) ? 1 : effectiveFrameRate,
+  };
+}
+
+/** TTML allows `rgba()` with a 0-255 alpha; CSS uses 0-1. */
+function parseTTMLColor(value: string): string | undefined {
+  const rgba = value.trim().match(/^rgba\(([^)]*)\)$/);
+  const color = rgba
+    ? (() => {
+        const [r, g, b, a] = rgba[1].split(",").map((part) => parseFloat(part));
+        return [r, g, b, a].some((part) => isNaN(part))
+          ? null
+          : { r, g, b, a: a / 255 };
+      })()
+    : parseSubtitleColor(value);
+  return color ? formatSubtitleColor(color) : undefined;
+}
+
+function formatTTMLColor(value: string): string {
+  const color = parseSubtitleColor(value) ?? { r: 255, g: 255, b: 255, a: 1 };
+  return `#${[color.r, color.g, color.b, color.a * 255]
+    .map((channel) =>
+      Math.round(Math.max(0, Math.min(255, channel)))
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+}
+
+function parseFontSize(
+  value: string,
+  context: DocumentContext,
+): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px|c|%|em)/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  const cellHeight = context.height / context.cellRows;
+  switch (match[2]) {
+    case "px":
+      return amount;
+    case "c":
+    case "em":
+      return Math.round(amount * cellHeight * 100) / 100;
+    default:
+      return Math.round((amount / 100) * cellHeight * 100) / 100;
+  }
+}
+
+function parsePercentPair(value?: string): [number, number] | null {
+  const match = value?.trim().match(/^(-?[\d.]+)%\s+(-?[\d.]+)%$/);
+  return match ? [parseFloat(match[1]), parseFloat(match[2])] : null;
+}
+
+/**
+ * Resolves a region to a position: the vertical centre of its area when
+ * origin and extent are percentages, otherwise its displayAlign.
+ */
+function positionFromRegion(
+  region: StyleAttributes | undefined,
+): SubtitleStyle["position"] | undefined {
+  if (!region) return undefined;
+  const origin = parsePercentPair(region.origin);
+  if (origin) {
+    const extent = parsePercentPair(region.extent) ?? [100 - origin[0], 0];
+    const middle = origin[1] + extent[1] / 2;
+    return middle < 33 ? "top" : middle < 66 ? "center" : "bottom";
+  }
+  switch (region.displayAlign) {
+    case "before":
+      return "top";
+    case "center":
+      return "center";
+    case "after":
+      return "bottom";
+  }
+  return undefined;
+}
+
+function toSubtitleStyle(
+  attributes: StyleAttributes,
+  region: StyleAttributes | undefined,
+  context: DocumentContext,
+): SubtitleStyle {
+  const family = attributes.fontFamily
+    ?.split(",")[0]
+    .trim()
+    .replace(/^["']|["']$/g, "");
+  const fontSize = attributes.fontSize
+    ? parseFontSize(attributes.fontSize, context)
+    : undefined;
+  const color = attributes.color ? parseTTMLColor(attributes.color) : undefined;
+  const backgroundColor = attributes.backgroundColor
+    ? parseTTMLColor(attributes.backgroundColor)
+    : undefined;
+
+  return {
+    ...DEFAULT_SUBTITLE_STYLE,
+    ...(family ? { fontFamily: GENERIC_FONT_FAMILIES[family] ?? family } : {}),
+    ...(fontSize !== undefined ? { fontSize } : {}),
+    ...(color ? { color } : {}),
+    ...(backgroundColor ? { backgroundColor } : {}),
+    position: positionFromRegion(region) ?? "bottom",
+  };
+}
+
+/** Merges the styles an element references, then its own tts attributes. */
+function referencedStyle(
+  element: XmlElement,
+  styles: Map<string, StyleAttributes>,
+): StyleAttributes {
+  const merged: StyleAttributes = {};
+  for (const id of (getAttribute(element, "style") ?? "").split(/\s+/)) {
+    Object.assign(merged, styles.get(id));
+  }
+  return { ...merged, ...inlineStyle(element) };
+}
+
+function readStyles(
+  head: XmlElement | undefined,
+): Map<string, StyleAttributes> {
+  const definitions = new Map<string, XmlElement>();
+  for (const styling of head ? childrenNamed(head, "styling") : []) {
+    for (const style of childrenNamed(styling, "style")) {
+      const id = getAttribute(style, "id");
+      if (id) definitions.set(id, style);
+    }
+  }
+
+  const resolved = new Map<string, StyleAttributes>();
+  const resolve = (id: string, visiting: Set<string>): StyleAttributes => {
+    const cached = resolved.get(id);
+    if (cached) return cached;
+    const definition = definitions.get(id);
+    if (!definition || visiting.has(id)) return {};
+
+    visiting.add(id);
+    const merged: StyleAttributes = {};
+    for (const ref of (getAttribute(definition, "style") ?? "").split(/\s+/)) {
+      if (ref) Object.assign(merged, resolve(ref, visiting));
+    }
+    const style = { ...merged, ...inlineStyle(definition) };
+    resolved.set(id, style);
+    return style;
+  };
+
+  for (const id of definitions.keys()) {
+    resolve(id, new Set());
+  }
+  return resolved;
+}
+
+function readRegions(
+  head: XmlElement | undefined,
+  styles: Map<string, StyleAttributes>,
+): Map<string, StyleAttributes> {
+  const regions = new Map<string, StyleAttributes>();
+  for (const layout of head ? childrenNamed(head, "layout") : []) {
+    for (const region of childrenNamed(layout, "region")) {
+      const id = getAttribute(region, "id");
+      if (!id) continue;
+      const nested = childrenNamed(region, "style").map(inlineStyle);
+      regions.set(
+        id,
+        Object.assign({}, ...nested, referencedStyle(region, styles)),
+      );
+    }
+  }
+  return regions;
+}
+
+/**
+ * Collects a paragraph's text, collapsing whitespace as TTML's default
+ * xml:space does, and the words of spans that carry their own timing.
+ */
+function collectParagraph(
+  nodes: readonly XmlNode[],
+  begin: number,
+  end: number,
+  context: DocumentContext,
+  out: { text: string; words: SubtitleWord[]; untimed: boolean },
+  timed: boolean,
+): void {
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      const text = node.replace(/\s+/g, " ");
+      out.text += text;
+      if (!timed && text.trim()) out.untimed = true;
+      continue;
+    }
+
+    const name = localName(node.name);
+    if (name === "br") {
+      out.text += "\n";
+      continue;
+    }
+    if (name !== "span") continue;
+
+    const spanBegin = getAttribute(node, "begin");
+    const spanEnd = getAttribute(node, "end");
+    const spanDur = getAttribute(node, "dur");
+    if (spanBegin === undefined && spanEnd === undefined && !spanDur) {
+      collectParagraph(node.nodes ?? [], begin, end, context, out, timed);
+      continue;
+    }
+
+    const start =
+      begin + (parseTTMLTime(spanBegin ?? "0s", context.timing) ?? 0);
+    const explicitEnd = spanEnd ? parseTTMLTime(spanEnd, context.timing) : null;
+    const duration = spanDur ? parseTTMLTime(spanDur, context.timing) : null;
+    const stop = Math.min(
+      end,
+      explicitEnd !== null
+        ? begin + explicitEnd
+        : duration !== null
+          ? start + duration
+          : end,
+    );
+
+    const before = out.text.length;
+    collectParagraph(node.nodes ?? [], start, stop, context, out, true);
+    const spanWords = out.text.slice(before).split(/\s+/).filter(Boolean);
+    const step = (stop - start) / (spanWords.length || 1);
+    spanWords.forEach((text, index) => {
+      out.words.push({
+        text,
+        startTime: start + step * index,
+        endTime: start + step * (index + 1),
+      });
+    });
+  }
+}
+
+function firstSpanStyle(
+  element: XmlElement,
+  styles: Map<string, StyleAttributes>,
+): StyleAttributes {
+  const span = childrenNamed(element, "span")[0];
+  return span ? referencedStyle(span, styles) : {};
+}
+
+function readParagraph(
+  paragraph: XmlElement,
+  inherited: Inherited,
+  context: DocumentContext,
+): void {
+  const segment = context.subtitles.length + context.errors.length + 1;
+  const beginValue = getAttribute(paragraph, "begin");
+  const endValue = getAttribute(paragraph, "end");
+  const durValue = getAttribute(paragraph, "dur");
+
+  const begin = beginValue ? parseTTMLTime(beginValue, context.timing) : 0;
+  if (begin === null) {
+    context.errors.push({
+      line: 0,
+      message: `Invalid begin time: "${beginValue}"`,
+      segment,
+    });
+    return;
+  }
+  const startTime = inherited.begin + begin;
+
+  let endTime: number | undefined = inherited.end;
+  if (endValue) {
+    const end = parseTTMLTime(endValue, context.timing);
+    if (end === null) {
+      context.errors.push({
+        line: 0,
+        message: `Invalid end time: "${endValue}"`,
+        segment,
+      });
+      return;
+    }
+    endTime = inherited.begin + end;
+  } else if (durValue) {
+    const duration = parseTTMLTime(durValue, context.timing);
+    if (duration === null) {
+      context.errors.push({
+        line: 0,
+        message: `Invalid duration: "${durValue}"`,
+        segment,
+      });
+      return;
+    }
+    endTime = startTime + duration;
+  }
+
+  if (endTime === undefined) {
+    context.errors.push({
+      line: 0,
+      message: "Paragraph has no end time",
+      segment,
+    });
+    return;
+  }
+  if (endTime <= startTime) {
+    context.errors.push({
+      line: 0,
+      message: "End time must be greater than start time",
+      segment,
+    });
+    return;
+  }
+
+  const out = { text: "", words: [] as SubtitleWord[], untimed: false };
+  collectParagraph(
+    paragraph.nodes ?? [],
+    startTime,
+    endTime,
+    context,
+    out,
+    false,
+  );
+  const text = out.text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+  if (!text) return;
+
+  const own = referencedStyle(paragraph, context.styles);
+  const regionId = getAttribute(paragraph, "region") ?? inherited.region;
+  const region = regionId ? context.regions.get(regionId) : undefined;
+  const style = { ...region, ...inherited.style, ...own };
+  // Background colours are usually set on the spans rather than the <p>
+  if (!style.backgroundColor) {
+    const spanStyle = firstSpanStyle(paragraph, context.styles);
+    if (spanStyle.backgroundColor) {
+      style.backgroundColor = spanStyle.backgroundColor;
+    }
+  }
+
+  context.subtitles.push({
+    id: generateSubtitleId(),
+    text,
+    startTime,
+    endTime,
+    style: toSubtitleStyle(style, region, context),
+    ...(out.words.length > 0 && !out.untimed ? { words: out.words } : {}),
+  });
+}
+
+function readContainer(
+  element: XmlElement,
+  inherited: Inherited,
+  context: DocumentContext,
+): void {
+  const beginValue = getAttribute(element, "begin");
+  const endValue = getAttribute(element, "end");
+  const begin =
+    inherited.begin +
+    (beginValue ? (parseTTMLTime(beginValue, context.timing) ?? 0) : 0);
+  const end = endValue ? parseTTMLTime(endValue, context.timing) : null;
+  const scope: Inherited = {
+    begin,
+    end: end !== null ? inherited.begin + end : inherited.end,
+    style: { ...inherited.style, ...referencedStyle(element, context.styles) },
+    region: getAttribute(element, "region") ?? inherited.region,
+  };
+
+  for (const child of element.children) {
+    const name = localName(child.name);
+    if (name === "div") {
+      readContainer(child, scope, context);
+    } else if (name === "p") {
+      readParagraph(child, scope, context);
+    }
+  }
+}
+
+export function parseTTML(content: string): SRTParseResult {
+  let root: XmlElement;
+  try {
+    root = parseXml(content.replace(/^\uFEFF/, ""));
+  } catch (error) {
+    return {
+      success: false,
+      subtitles: [],
+      errors: [
+        {
+          line: 0,
+          message: `Invalid TTML: ${error instanceof Error ? error.message : "unreadable XML"}`,
+        },
+      ],
+    };
+  }
+
+  if (localName(root.name) !== "tt") {
+    return {
+      success: false,
+      subtitles: [],
+      errors: [{ line: 0, message: "Missing <tt> root element" }],
+    };
+  }
+
+  const head = childrenNamed(root, "head")[0];
+  const styles = readStyles(head);
+  const extent = getAttribute(root, "extent")?.match(/^[\d.]+px\s+([\d.]+)px$/);
+  const cellRows = parseInt(
+    getAttribute(root, "cellResolution")?.split(/\s+/)[1] ?? "",
+    10,
+  );
+  const context: DocumentContext = {
+    timing: parseTimingParameters(root),
+    styles,
+    regions: readRegions(head, styles),
+    height: extent ? parseFloat(extent[1]) : 1080,
+    cellRows: cellRows > 0 ? cellRows : 15,
+    subtitles: [],
+    errors: [],
+  };
+
+  const body = childrenNamed(root, "body")[0];
+  if (body) {
+    readContainer(body, { begin: 0, style: {} }, context);
+  }
+
+  return {
+    success: context.errors.length === 0,
+    subtitles: context.subtitles.sort((a, b) => a.startTime - b.startTime),
+    errors: context.errors,
+  };
+}
+
+function styleKey(style: SubtitleStyle): string {
+  return JSON.stringify([
+    style.fontFamily,
+    style.fontSize,
+    style.color,
+    style.backgroundColor,
+  ]);
+}
+
+function paragraphNodes(subtitle: Subtitle): XmlNode[] {
+  const words = subtitle.words ?? [];
+  const nodes: XmlNode[] = [];
+
+  if (words.length > 0) {
+    words.forEach((word, index) => {
+      if (index > 0) nodes.push(" ");
+      nodes.push({
+        ...createXmlElement("span", {
+          // Span times are relative to the paragraph's begin
+          begin: formatWebVTTTimestamp(word.startTime - subtitle.startTime),
+          end: formatWebVTTTimestamp(word.endTime - subtitle.startTime),
+        }),
+        text: word.text,
+      });
+    });
+    return nodes;
+  }
+
+  subtitle.text.split("\n").forEach((line, index) => {
+    if (index > 0) nodes.push(createXmlElement("br"));
+    nodes.push(line);
+  });
+  return nodes;
+}
+
+/** Writes an IMSC1 text profile document. */
+export function exportTTML(
+  subtitles: readonly Subtitle[],
+  options: TTMLExportOptions = {},
+): string {
+  const sorted = [...subtitles].sort((a, b) => a.startTime - b.startTime);
+  const styleIds = new Map<string, string>();
+  const styleElements: XmlElement[] = [];
+
+  const styleId = (style: SubtitleStyle) => {
+    const key = styleKey(style);
+    let id = styleIds.get(key);
+    if (!id) {
+      id = `s${styleIds.size}`;
+      styleIds.set(key, id);
+      styleElements.push(
+        createXmlElement("style", {
+          "xml:id": id,
+          "tts:fontFamily": style.fontFamily,
+          "tts:fontSize": `${style.fontSize}px`,
+          "tts:color": formatTTMLColor(style.color),
+          "tts:backgroundColor": formatTTMLColor(style.backgroundColor),
+          "tts:textAlign": "center",
+        }),
+      );
+    }
+    return id;
+  };
+
+  const paragraphs = sorted.map((subtitle) => {
+    const style = subtitle.style ?? DEFAULT_SUBTITLE_STYLE;
+    return {
+      ...createXmlElement("p", {
+        begin: formatWebVTTTimestamp(subtitle.startTime),
+        end: formatWebVTTTimestamp(subtitle.endTime),
+        style: styleId(style),
+        region: style.position,
+      }),
+      nodes: paragraphNodes(subtitle),
+    };
+  });
+
+  const regions = Object.entries(REGIONS).map(([id, region]) =>
+    createXmlElement("region", {
+      "xml:id": id,
+      "tts:origin": region.origin,
+      "tts:extent": region.extent,
+      "tts:displayAlign": region.displayAlign,
+    }),
+  );
+
+  const document = createXmlElement(
+    "tt",
+    {
+      xmlns: TTML_NAMESPACE,
+      "xmlns:ttp": `${TTML_NAMESPACE}#parameter`,
+      "xmlns:tts": `${TTML_NAMESPACE}#styling`,
+      "xml:lang": options.language ?? "en",
+      "ttp:timeBase": "media",
+      "ttp:profile": IMSC1_TEXT_PROFILE,
+      "tts:extent": `${options.width ?? 1920}px ${options.height ?? 1080}px`,
+    },
+    [
+      createXmlElement("head", {}, [
+        createXmlElement("styling", {}, styleElements),
+        createXmlElement("layout", {}, regions),
+      ]),
+      createXmlElement("body", {}, [createXmlElement("div", {}, paragraphs)]),
+    ],
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeXml(document)}\n`;
+}
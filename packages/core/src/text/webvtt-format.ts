@@ -0,0 +1,452 @@
+import type { Subtitle, SubtitleStyle, SubtitleWord } from "../types/timeline";
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  generateSubtitleId,
+  type SRTParseError,
+  type SRTParseResult,
+} from "./subtitle-engine";
+import { decodeXmlEntities } from "../interchange/xml";
+
+/**
+ * WebVTT (https://www.w3.org/TR/webvtt1/). Cue settings are mapped to the
+ * subtitle position, `::cue` rules in STYLE blocks to SubtitleStyle, and
+ * inline timestamp tags (as in `one<00:00:01.500><c> two</c>`) to word
+ * timings.
+ */
+
+export interface WebVTTCueSettings {
+  vertical?: string;
+  line?: string;
+  position?: string;
+  size?: string;
+  align?: string;
+  region?: string;
+}
+
+type CueStyleKey = "fontFamily" | "fontSize" | "color" | "backgroundColor";
+
+type CueStyle = { -readonly [K in CueStyleKey]?: SubtitleStyle[K] };
+
+interface TextBlock {
+  readonly line: number;
+  readonly lines: string[];
+}
+
+const CUE_SETTING_KEYS = new Set([
+  "vertical",
+  "line",
+  "position",
+  "size",
+  "align",
+  "region",
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  lrm: "\u200e",
+  rlm: "\u200f",
+};
+
+export function parseWebVTTTimestamp(timestamp: string): number | null {
+  const match = timestamp
+    .trim()
+    .match(/^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/);
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  return hours * 3600 + minutes * 60 + seconds + parseInt(match[4], 10) / 1000;
+}
+
+export function formatWebVTTTimestamp(seconds: number): string {
+  if (seconds < 0 || !isFinite(seconds)) {
+    seconds = 0;
+  }
+
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, "0")}:${minutes
+    .toString()
+    .padStart(2, "0")}:${secs.toString().padStart(2, "0")}.${ms
+    .toString()
+    .padStart(3, "0")}`;
+}
+
+export function parseWebVTTCueSettings(settings: string): WebVTTCueSettings {
+  const result: WebVTTCueSettings = {};
+  for (const setting of settings.trim().split(/\s+/)) {
+    const separator = setting.indexOf(":");
+    if (separator <= 0) continue;
+    const key = setting.slice(0, separator);
+    const value = setting.slice(separator + 1);
+    if (CUE_SETTING_KEYS.has(key) && value) {
+      result[key as keyof WebVTTCueSettings] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Maps the `line` setting to a position: percentages split the frame into
+ * thirds, non-negative line numbers count from the top and negative ones
+ * from the bottom.
+ */
+function positionFromLine(line?: string): SubtitleStyle["position"] {
+  const value = line?.split(",")[0];
+  if (!value || value === "auto") return "bottom";
+  if (value.endsWith("%")) {
+    const percent = parseFloat(value);
+    if (isNaN(percent)) return "bottom";
+    return percent < 33 ? "top" : percent < 66 ? "center" : "bottom";
+  }
+  const lineNumber = parseFloat(value);
+  return isNaN(lineNumber) || lineNumber < 0 ? "bottom" : "top";
+}
+
+function escapeCueText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function splitBlocks(content: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let current: TextBlock | null = null;
+  content.split("\n").forEach((text, index) => {
+    if (!text.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(text);
+  });
+  return blocks;
+}
+
+function parseStyleBlock(
+  css: string,
+  globalStyle: CueStyle,
+  classStyles: Map<string, CueStyle>,
+): void {
+  const rulePattern = /::cue(?:\(([^)]*)\))?\s*\{([^}]*)\}/g;
+  let rule: RegExpExecArray | null;
+  while ((rule = rulePattern.exec(css)) !== null) {
+    const selector = rule[1]?.trim();
+    if (selector && !/^\.[\w-]+$/.test(selector)) continue;
+
+    const style: CueStyle = selector
+      ? { ...classStyles.get(selector.slice(1)) }
+      : globalStyle;
+    for (const declaration of rule[2].split(";")) {
+      const separator = declaration.indexOf(":");
+      if (separator <= 0) continue;
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      switch (property) {
+        case "color":
+          style.color = value;
+          break;
+        case "background":
+        case "background-color":
+          style.backgroundColor = value;
+          break;
+        case "font-family":
+          style.fontFamily = value
+            .split(",")[0]
+            .trim()
+            .replace(/^["']|["']$/g, "");
+          break;
+        case "font-size":
+          if (value.endsWith("px") && !isNaN(parseFloat(value))) {
+            style.fontSize = parseFloat(value);
+          }
+          break;
+      }
+    }
+    if (selector) classStyles.set(selector.slice(1), style);
+  }
+}
+
+/**
+ * Strips the markup from a cue payload. Timestamp tags split the payload
+ * into segments that start at the tag's time; each segment's words share
+ * its span evenly.
+ */
+function parseCuePayload(
+  payload: string,
+  startTime: number,
+  endTime: number,
+): { text: string; words?: SubtitleWord[]; classes: string[] } {
+  const segments: { time: number; text: string }[] = [
+    { time: startTime, text: "" },
+  ];
+  const classes: string[] = [];
+  let text = "";
+  let rubyTextDepth = 0;
+
+  const tokenPattern = /<([^>]*)>|([^<]+)/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(payload)) !== null) {
+    if (token[2] !== undefined) {
+      if (rubyTextDepth > 0) continue;
+      const chunk = decodeXmlEntities(token[2], HTML_ENTITIES);
+      text += chunk;
+      segments[segments.length - 1].text += chunk;
+      continue;
+    }
+
+    const tag = token[1].trim();
+    const time = parseWebVTTTimestamp(tag);
+    if (time !== null) {
+      segments.push({
+        time: Math.min(Math.max(time, startTime), endTime),
+        text: "",
+      });
+    } else if (tag === "rt") {
+      rubyTextDepth++;
+    } else if (tag === "/rt") {
+      rubyTextDepth = Math.max(0, rubyTextDepth - 1);
+    } else if (tag.startsWith("c.")) {
+      classes.push(...tag.split(/\s/)[0].split(".").slice(1));
+    }
+  }
+
+  const cleanText = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+  if (segments.length === 1) {
+    return { text: cleanText, classes };
+  }
+
+  const words: SubtitleWord[] = [];
+  segments.forEach((segment, index) => {
+    const segmentEnd = segments[index + 1]?.time ?? endTime;
+    const segmentWords = segment.text.split(/\s+/).filter(Boolean);
+    const step = (segmentEnd - segment.time) / (segmentWords.length || 1);
+    segmentWords.forEach((word, wordIndex) => {
+      words.push({
+        text: word,
+        startTime: segment.time + step * wordIndex,
+        endTime: segment.time + step * (wordIndex + 1),
+      });
+    });
+  });
+  return { text: cleanText, words, classes };
+}
+
+export function parseWebVTT(content: string): SRTParseResult {
+  const subtitles: Subtitle[] = [];
+  const errors: SRTParseError[] = [];
+
+  const normalized = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n");
+  if (!/^WEBVTT(?:[ \t].*)?$/m.test(normalized.split("\n")[0])) {
+    return {
+      success: false,
+      subtitles,
+      errors: [{ line: 1, message: "Missing WEBVTT header" }],
+    };
+  }
+
+  const globalStyle: CueStyle = {};
+  const classStyles = new Map<string, CueStyle>();
+  const blocks = splitBlocks(normalized).slice(1);
+
+  blocks.forEach((block, i) => {
+    const segment = i + 1;
+    const first = block.lines[0].trim();
+    if (/^NOTE(?:\s|$)/.test(first) || /^REGION(?:\s|$)/.test(first)) {
+      return;
+    }
+    if (/^STYLE(?:\s|$)/.test(first)) {
+      parseStyleBlock(
+        block.lines.slice(1).join("\n"),
+        globalStyle,
+        classStyles,
+      );
+      return;
+    }
+
+    const timingIndex = block.lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1 || timingIndex > 1) {
+      errors.push({
+        line: block.line,
+        message: "Invalid cue: missing timing line",
+        segment,
+      });
+      return;
+    }
+
+    const timingLine = block.lines[timingIndex].trim();
+    const timingMatch = timingLine.match(/^(\S+)\s+-->\s+(\S+)(.*)$/);
+    const startTime = timingMatch ? parseWebVTTTimestamp(timingMatch[1]) : null;
+    const endTime = timingMatch ? parseWebVTTTimestamp(timingMatch[2]) : null;
+    const line = block.line + timingIndex;
+
+    if (!timingMatch) {
+      errors.push({
+        line,
+        message: `Invalid timestamp format: "${timingLine}"`,
+        segment,
+      });
+      return;
+    }
+    if (startTime === null) {
+      errors.push({
+        line,
+        message: `Invalid start timestamp: "${timingMatch[1]}"`,
+        segment,
+      });
+      return;
+    }
+    if (endTime === null) {
+      errors.push({
+        line,
+        message: `Invalid end timestamp: "${timingMatch[2]}"`,
+        segment,
+      });
+      return;
+    }
+    if (endTime <= startTime) {
+      errors.push({
+        line,
+        message: "End time must be greater than start time",
+        segment,
+      });
+      return;
+    }
+
+    const { text, words, classes } = parseCuePayload(
+      block.lines.slice(timingIndex + 1).join("\n"),
+      startTime,
+      endTime,
+    );
+    if (!text) {
+      errors.push({ line: line + 1, message: "Empty cue text", segment });
+      return;
+    }
+
+    const settings = parseWebVTTCueSettings(timingMatch[3]);
+    const classStyle = classes
+      .map((name) => classStyles.get(name))
+      .find((style) => style !== undefined);
+    subtitles.push({
+      id: generateSubtitleId(),
+      text,
+      startTime,
+      endTime,
+      style: {
+        ...DEFAULT_SUBTITLE_STYLE,
+        ...globalStyle,
+        ...classStyle,
+        position: positionFromLine(settings.line),
+      },
+      ...(words && words.length > 0 ? { words } : {}),
+    });
+  });
+
+  return {
+    success: errors.length === 0,
+    subtitles,
+    errors,
+  };
+}
+
+function styleKey(style: SubtitleStyle): string {
+  return JSON.stringify([
+    style.fontFamily,
+    style.fontSize,
+    style.color,
+    style.backgroundColor,
+  ]);
+}
+
+function formatCuePayload(subtitle: Subtitle): string {
+  const words = subtitle.words ?? [];
+  if (words.length === 0) {
+    return escapeCueText(subtitle.text);
+  }
+  return [
+    escapeCueText(words[0].text),
+    ...words
+      .slice(1)
+      .map(
+        (word) =>
+          `<${formatWebVTTTimestamp(word.startTime)}><c> ${escapeCueText(word.text)}</c>`,
+      ),
+  ].join("");
+}
+
+/**
+ * Writes WebVTT. Each distinct subtitle style becomes a `::cue(.sN)` rule
+ * applied with a `<c.sN>` span; positions become `line` cue settings.
+ */
+export function exportWebVTT(subtitles: readonly Subtitle[]): string {
+  const sorted = [...subtitles].sort((a, b) => a.startTime - b.startTime);
+  const defaultKey = styleKey(DEFAULT_SUBTITLE_STYLE);
+  const classNames = new Map<string, string>();
+  const rules: string[] = [];
+
+  for (const subtitle of sorted) {
+    if (!subtitle.style) continue;
+    const key = styleKey(subtitle.style);
+    if (key === defaultKey || classNames.has(key)) continue;
+
+    const name = `s${classNames.size}`;
+    classNames.set(key, name);
+    const { fontFamily, fontSize, color, backgroundColor } = subtitle.style;
+    rules.push(
+      [
+        `::cue(.${name}) {`,
+        `  font-family: "${fontFamily}";`,
+        `  font-size: ${fontSize}px;`,
+        `  color: ${color};`,
+        `  background-color: ${backgroundColor};`,
+        "}",
+      ].join("\n"),
+    );
+  }
+
+  const blocks = ["WEBVTT"];
+  if (rules.length > 0) {
+    blocks.push(`STYLE\n${rules.join("\n\n")}`);
+  }
+
+  sorted.forEach((subtitle, i) => {
+    const position = subtitle.style?.position ?? "bottom";
+    const settings =
+      position === "top" ? " line:0" : position === "center" ? " line:50%" : "";
+    const className = subtitle.style
+      ? classNames.get(styleKey(subtitle.style))
+      : undefined;
+    const payload = formatCuePayload(subtitle);
+
+    blocks.push(
+      `${i + 1}\n${formatWebVTTTimestamp(subtitle.startTime)} --> ${formatWebVTTTimestamp(
+        subtitle.endTime,
+      )}${settings}\n${className ? `<c.${className}>${payload}</c>` : payload}`,
+    );
+  });
+
+  return `${blocks.join("\n\n")}\n`;
+}
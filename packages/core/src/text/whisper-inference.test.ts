@@ -0,0 +1,286 @@
+import { describe, it, expect } from "vitest";
+import { parseWhisperModel } from "./whisper-model-loader";
+import {
+  WhisperModel,
+  WHISPER_SAMPLE_RATE,
+  computeLogMelSpectrogram,
+  distributeWordTimings,
+} from "./whisper-inference";
+import { LocalWhisperBackend } from "./local-whisper-backend";
+
+const N_VOCAB = 51864;
+const N_MELS = 4;
+const N_FFT_BINS = 201;
+const AUDIO_STATE = 4;
+const TEXT_STATE = 4;
+const TEXT_CTX = 6;
+
+const EOT = 50256;
+const TIMESTAMP_BEGIN = 50363;
+const HELLO = 100;
+
+interface TestTensor {
+  name: string;
+  /** PyTorch order, outermost first. */
+  shape: number[];
+  data: ArrayLike<number>;
+  type?: number;
+}
+
+function float32ToFloat16(value: number): number {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, value);
+  const bits = view.getUint32(0);
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  if (value === 0 || exponent <= 0) return sign;
+  return sign | (exponent << 10) | ((bits >>> 13) & 0x3ff);
+}
+
+function buildModelFile(tensors: TestTensor[]): ArrayBuffer {
+  const bytes: number[] = [];
+  const view = new DataView(new ArrayBuffer(4));
+  const int32 = (value: number) => {
+    view.setInt32(0, value, true);
+    bytes.push(...new Uint8Array(view.buffer));
+  };
+  const float32 = (value: number) => {
+    view.setFloat32(0, value, true);
+    bytes.push(...new Uint8Array(view.buffer));
+  };
+
+  view.setUint32(0, 0x67676d6c, true);
+  bytes.push(...new Uint8Array(view.buffer));
+  int32(N_VOCAB);
+  int32(1500);
+  int32(AUDIO_STATE);
+  int32(1);
+  int32(0);
+  int32(TEXT_CTX);
+  int32(TEXT_STATE);
+  int32(1);
+  int32(0);
+  int32(N_MELS);
+  int32(1);
+
+  int32(N_MELS);
+  int32(N_FFT_BINS);
+  for (let mel = 0; mel < N_MELS; mel++) {
+    for (let bin = 0; bin < N_FFT_BINS; bin++) {
+      float32(bin % N_MELS === mel ? 0.01 : 0);
+    }
+  }
+
+  const vocab: number[][] = [];
+  for (let i = 0; i < 256; i++) vocab.push([i]);
+  vocab[HELLO] = [...new TextEncoder().encode(" hello")];
+  int32(vocab.length);
+  for (const token of vocab) {
+    int32(token.length);
+    bytes.push(...token);
+  }
+
+  for (const tensor of tensors) {
+    const type = tensor.type ?? 0;
+    const name = new TextEncoder().encode(tensor.name);
+    int32(tensor.shape.length);
+    int32(name.length);
+    int32(type);
+    [...tensor.shape].reverse().forEach(int32);
+    bytes.push(...name);
+    for (let i = 0; i < tensor.data.length; i++) {
+      if (type === 1) {
+        const half = float32ToFloat16(tensor.data[i]);
+        bytes.push(half & 0xff, half >> 8);
+      } else {
+        float32(tensor.data[i]);
+      }
+    }
+  }
+
+  return new Uint8Array(bytes).buffer;
+}
+
+function zeros(...shape: number[]): Float32Array {
+  return new Float32Array(shape.reduce((a, b) => a * b, 1));
+}
+
+/**
+ * A model without transformer layers whose logits do not depend on the
+ * audio: the final layer norm always yields [1, 0, 0, 0], so each token's
+ * logit is the first component of its embedding.
+ */
+function buildTinyModel(): ArrayBuffer {
+  const embedding = zeros(N_VOCAB, TEXT_STATE);
+  embedding[HELLO * TEXT_STATE] = 10;
+  embedding[TIMESTAMP_BEGIN * TEXT_STATE] = 5;
+  embedding[EOT * TEXT_STATE] = 3;
+
+  return buildModelFile([
+    {
+      name: "encoder.conv1.weight",
+      shape: [AUDIO_STATE, N_MELS, 3],
+      data: zeros(AUDIO_STATE, N_MELS, 3).fill(0.1),
+    },
+    { name: "encoder.conv1.bias", shape: [AUDIO_STATE], data: zeros(4) },
+    {
+      name: "encoder.conv2.weight",
+      shape: [AUDIO_STATE, AUDIO_STATE, 3],
+      data: zeros(AUDIO_STATE, AUDIO_STATE, 3).fill(0.1),
+    },
+    { name: "encoder.conv2.bias", shape: [AUDIO_STATE], data: zeros(4) },
+    {
+      name: "encoder.positional_embedding",
+      shape: [1500, AUDIO_STATE],
+      data: zeros(1500, AUDIO_STATE),
+    },
+    { name: "encoder.ln_post.weight", shape: [4], data: zeros(4).fill(1) },
+    { name: "encoder.ln_post.bias", shape: [4], data: zeros(4) },
+    {
+      name: "decoder.token_embedding.weight",
+      shape: [N_VOCAB, TEXT_STATE],
+      data: embedding,
+      type: 1,
+    },
+    {
+      name: "decoder.positional_embedding",
+      shape: [TEXT_CTX, TEXT_STATE],
+      data: zeros(TEXT_CTX, TEXT_STATE),
+    },
+    { name: "decoder.ln.weight", shape: [4], data: zeros(4) },
+    { name: "decoder.ln.bias", shape: [4], data: [1, 0, 0, 0] },
+  ]);
+}
+
+function tone(seconds: number): Float32Array {
+  const samples = new Float32Array(seconds * WHISPER_SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / WHISPER_SAMPLE_RATE);
+  }
+  return samples;
+}
+
+describe("parseWhisperModel", () => {
+  it("should read hyperparameters, vocabulary and tensors", () => {
+    const model = parseWhisperModel(
+      buildModelFile([
+        { name: "a", shape: [2, 3], data: [1, 2, 3, 4, 5, 6] },
+        { name: "b", shape: [2], data: [0.5, -2], type: 1 },
+      ]),
+    );
+
+    expect(model.hparams.nVocab).toBe(N_VOCAB);
+    expect(model.hparams.nMels).toBe(N_MELS);
+    expect(model.melFilters.data.length).toBe(N_MELS * N_FFT_BINS);
+    expect(model.vocab).toHaveLength(256);
+    expect(new TextDecoder().decode(model.vocab[HELLO])).toBe(" hello");
+    expect(model.tensors.get("a")?.shape).toEqual([2, 3]);
+    expect(Array.from(model.tensors.get("a")!.data)).toEqual([
+      1, 2, 3, 4, 5, 6,
+    ]);
+    expect(Array.from(model.tensors.get("b")!.data)).toEqual([0.5, -2]);
+  });
+
+  it("should reject files that are not ggml models", () => {
+    expect(() => parseWhisperModel(new ArrayBuffer(16))).toThrow(
+      /bad magic number/,
+    );
+  });
+
+  it("should reject quantized tensors", () => {
+    const buffer = buildModelFile([
+      { name: "q", shape: [1], data: [0], type: 8 },
+    ]);
+    expect(() => parseWhisperModel(buffer)).toThrow(/quantized/);
+  });
+});
+
+describe("computeLogMelSpectrogram", () => {
+  it("should pad the spectrogram with 30 seconds of frames", () => {
+    const { melFilters } = parseWhisperModel(buildModelFile([]));
+    const mel = computeLogMelSpectrogram(new Float32Array(1600), melFilters);
+
+    expect(mel.frames).toBe(10 + 3000);
+    expect(mel.data.length).toBe(N_MELS * mel.frames);
+    expect(mel.data.every((value) => Number.isFinite(value))).toBe(true);
+  });
+});
+
+describe("distributeWordTimings", () => {
+  it("should spread words over the segment by length", () => {
+    const words = distributeWordTimings(["a", "bbb"], 1, 3);
+
+    expect(words).toEqual([
+      { text: "a", startTime: 1, endTime: 1.5 },
+      { text: "bbb", startTime: 1.5, endTime: 3 },
+    ]);
+  });
+
+  it("should snap word boundaries to the quietest nearby frame", () => {
+    const energy = new Float32Array(100).fill(1);
+    energy[45] = 0;
+    const words = distributeWordTimings(["one", "two"], 0, 1, energy);
+
+    expect(words[0].endTime).toBeCloseTo(0.45);
+    expect(words[1].startTime).toBeCloseTo(0.45);
+  });
+});
+
+describe("WhisperModel", () => {
+  it("should reject files that are not Whisper models", () => {
+    const data = parseWhisperModel(buildModelFile([]));
+    expect(() => new WhisperModel(data)).toThrow(/missing tensor/);
+  });
+
+  it("should transcribe into word-timed segments", () => {
+    const model = new WhisperModel(parseWhisperModel(buildTinyModel()));
+    const progress: number[] = [];
+    const transcript = model.transcribe(tone(1), {
+      onProgress: (value) => progress.push(value),
+    });
+
+    expect(model.isMultilingual()).toBe(false);
+    expect(transcript.language).toBe("en");
+    expect(transcript.text).toBe("hello hello");
+    expect(transcript.words.map((word) => word.text)).toEqual([
+      "hello",
+      "hello",
+    ]);
+    expect(transcript.words[0].startTime).toBe(0);
+    expect(transcript.words[1].endTime).toBeCloseTo(1);
+    expect(transcript.words[0].endTime).toBe(transcript.words[1].startTime);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
+
+describe("LocalWhisperBackend", () => {
+  it("should transcribe a model file without a worker", async () => {
+    const backend = new LocalWhisperBackend({
+      model: new Blob([buildTinyModel()]),
+      useWorker: false,
+    });
+    const messages: string[] = [];
+
+    const result = await backend.transcribe(
+      { samples: tone(1), sampleRate: WHISPER_SAMPLE_RATE },
+      { onProgress: (_, message) => messages.push(message) },
+    );
+
+    expect(backend.isLocal).toBe(true);
+    expect(result.text).toBe("hello hello");
+    expect(result.words).toHaveLength(2);
+    expect(messages[0]).toBe("Loading speech model...");
+    backend.dispose();
+  });
+
+  it("should reject audio at other sample rates", async () => {
+    const backend = new LocalWhisperBackend({
+      model: new Blob([]),
+      useWorker: false,
+    });
+
+    await expect(
+      backend.transcribe({ samples: new Float32Array(10), sampleRate: 44100 }),
+    ).rejects.toThrow(/16000 Hz/);
+  });
+});
@@ -0,0 +1,942 @@
+import type { SubtitleWord } from "../types/timeline";
+import type { WhisperModelData, WhisperTensor } from "./whisper-model-loader";
+
+/**
+ * Whisper speech recognition implemented directly in TypeScript, so that
+ * transcription can run on the user's machine from a whisper.cpp model file
+ * with no network access. Decoding follows the reference implementation:
+ * 30 second windows, greedy search with the timestamp rules, and seeking to
+ * the last complete timestamp.
+ *
+ * Whisper only predicts segment timestamps, so word timings are spread over
+ * each segment by length and then snapped to the quietest nearby point of
+ * the audio.
+ */
+
+export const WHISPER_SAMPLE_RATE = 16000;
+
+const N_FFT = 400;
+const HOP_LENGTH = 160;
+const CHUNK_FRAMES = 3000;
+const SECONDS_PER_FRAME = HOP_LENGTH / WHISPER_SAMPLE_RATE;
+const SECONDS_PER_TIMESTAMP = 0.02;
+const FRAMES_PER_TIMESTAMP = 2;
+const MAX_INITIAL_TIMESTAMP_INDEX = 50;
+const WORD_SNAP_WINDOW = 0.1;
+const MIN_WORD_DURATION = 0.02;
+
+/** Language codes in the order of Whisper's language tokens. */
+export const WHISPER_LANGUAGES: readonly string[] = (
+  "en zh de es ru ko fr ja pt tr pl ca nl ar sv it id hi fi vi he uk " +
+  "el ms cs ro da hu ta no th ur hr bg lt la mi ml cy sk te fa lv bn " +
+  "sr az sl kn et mk br eu is hy ne mn bs kk sq sw gl mr pa si km sn " +
+  "yo so af oc ka be tg sd gu am yi lo uz fo ht ps tk nn mt sa lb my " +
+  "bo tl mg as tt haw ln ha ba jw su yue"
+).split(" ");
+
+export interface WhisperSegment {
+  readonly start: number;
+  readonly end: number;
+  readonly text: string;
+  readonly words: SubtitleWord[];
+}
+
+export interface WhisperTranscript {
+  readonly language: string;
+  readonly text: string;
+  readonly segments: WhisperSegment[];
+  readonly words: SubtitleWord[];
+}
+
+export interface WhisperTranscribeOptions {
+  /** Language code such as "en"; detected from the audio when omitted. */
+  readonly language?: string;
+  /** Called with the fraction of audio processed, from 0 to 1. */
+  readonly onProgress?: (fraction: number) => void;
+}
+
+interface SpecialTokens {
+  readonly eot: number;
+  readonly sot: number;
+  readonly transcribe: number;
+  readonly timestampBegin: number;
+  readonly space: number;
+}
+
+interface DecoderCache {
+  readonly selfKeys: Float32Array[];
+  readonly selfValues: Float32Array[];
+  readonly crossKeys: Float32Array[];
+  readonly crossValues: Float32Array[];
+  length: number;
+}
+
+function linear(
+  input: Float32Array,
+  rows: number,
+  weight: WhisperTensor,
+  bias?: WhisperTensor,
+): Float32Array {
+  const outDim = weight.shape[0];
+  const inDim = weight.data.length / outDim;
+  const w = weight.data;
+  const b = bias?.data;
+  const output = new Float32Array(rows * outDim);
+
+  for (let r = 0; r < rows; r++) {
+    const inOffset = r * inDim;
+    const outOffset = r * outDim;
+    for (let o = 0; o < outDim; o++) {
+      const wOffset = o * inDim;
+      let s0 = 0;
+      let s1 = 0;
+      let s2 = 0;
+      let s3 = 0;
+      let i = 0;
+      for (; i + 3 < inDim; i += 4) {
+        s0 += input[inOffset + i] * w[wOffset + i];
+        s1 += input[inOffset + i + 1] * w[wOffset + i + 1];
+        s2 += input[inOffset + i + 2] * w[wOffset + i + 2];
+        s3 += input[inOffset + i + 3] * w[wOffset + i + 3];
+      }
+      for (; i < inDim; i++) {
+        s0 += input[inOffset + i] * w[wOffset + i];
+      }
+      output[outOffset + o] = s0 + s1 + s2 + s3 + (b ? b[o] : 0);
+    }
+  }
+  return output;
+}
+
+function layerNorm(
+  input: Float32Array,
+  rows: number,
+  gamma: WhisperTensor,
+  beta: WhisperTensor,
+): Float32Array {
+  const dim = gamma.data.length;
+  const output = new Float32Array(input.length);
+
+  for (let r = 0; r < rows; r++) {
+    const offset = r * dim;
+    let mean = 0;
+    for (let i = 0; i < dim; i++) mean += input[offset + i];
+    mean /= dim;
+
+    let variance = 0;
+    for (let i = 0; i < dim; i++) {
+      const d = input[offset + i] - mean;
+      variance += d * d;
+    }
+    const scale = 1 / Math.sqrt(variance / dim + 1e-5);
+
+    for (let i = 0; i < dim; i++) {
+      output[offset + i] =
+        (input[offset + i] - mean) * scale * gamma.data[i] + beta.data[i];
+    }
+  }
+  return output;
+}
+
+function erf(x: number): number {
+  // Abramowitz and Stegun 7.1.26, accurate to 1.5e-7
+  const sign = x < 0 ? -1 : 1;
+  const a = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * a);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-a * a);
+  return sign * y;
+}
+
+function gelu(values: Float32Array): void {
+  for (let i = 0; i < values.length; i++) {
+    const x = values[i];
+    values[i] = 0.5 * x * (1 + erf(x / Math.SQRT2));
+  }
+}
+
+function addInPlace(target: Float32Array, source: Float32Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] += source[i];
+  }
+}
+
+/**
+ * Multi-head scaled dot-product attention over row-major [n x dim] inputs.
+ * With causalOffset, query i (at position causalOffset + i) only attends to
+ * keys up to its own position.
+ */
+function attention(
+  queries: Float32Array,
+  queryCount: number,
+  keys: Float32Array,
+  values: Float32Array,
+  keyCount: number,
+  dim: number,
+  heads: number,
+  causalOffset: number | null,
+): Float32Array {
+  const headDim = dim / heads;
+  const scale = 1 / Math.sqrt(headDim);
+  const output = new Float32Array(queryCount * dim);
+  const scores = new Float32Array(keyCount);
+
+  for (let h = 0; h < heads; h++) {
+    const headOffset = h * headDim;
+    for (let q = 0; q < queryCount; q++) {
+      const qOffset = q * dim + headOffset;
+      const limit =
+        causalOffset === null
+          ? keyCount
+          : Math.min(keyCount, causalOffset + q + 1);
+
+      let max = -Infinity;
+      for (let k = 0; k < limit; k++) {
+        const kOffset = k * dim + headOffset;
+        let dot = 0;
+        for (let d = 0; d < headDim; d++) {
+          dot += queries[qOffset + d] * keys[kOffset + d];
+        }
+        scores[k] = dot * scale;
+        if (scores[k] > max) max = scores[k];
+      }
+
+      let sum = 0;
+      for (let k = 0; k < limit; k++) {
+        scores[k] = Math.exp(scores[k] - max);
+        sum += scores[k];
+      }
+
+      for (let k = 0; k < limit; k++) {
+        const weight = scores[k] / sum;
+        const vOffset = k * dim + headOffset;
+        for (let d = 0; d < headDim; d++) {
+          output[qOffset + d] += weight * values[vOffset + d];
+        }
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * 1-D convolution with kernel size 3 and padding 1. The input is read through
+ * an accessor so channel-major and time-major inputs need no copy; the output
+ * is time-major [outLength x outChannels].
+ */
+function conv1d(
+  read: (channel: number, time: number) => number,
+  inChannels: number,
+  inLength: number,
+  weight: WhisperTensor,
+  bias: WhisperTensor,
+  stride: number,
+): { data: Float32Array; length: number } {
+  const outLength = Math.floor((inLength - 1) / stride) + 1;
+  const patchSize = inChannels * 3;
+  const patches = new Float32Array(outLength * patchSize);
+
+  for (let t = 0; t < outLength; t++) {
+    const center = t * stride;
+    const offset = t * patchSize;
+    for (let c = 0; c < inChannels; c++) {
+      for (let k = 0; k < 3; k++) {
+        const time = center + k - 1;
+        patches[offset + c * 3 + k] =
+          time >= 0 && time < inLength ? read(c, time) : 0;
+      }
+    }
+  }
+
+  return { data: linear(patches, outLength, weight, bias), length: outLength };
+}
+
+function argmax(values: Float32Array): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+/**
+ * Log-mel spectrogram as computed by Whisper: 25 ms Hann windows every
+ * 10 ms, followed by 30 s of silence so the last window is always full.
+ * Returned channel-major, [nMel x frames].
+ */
+export function computeLogMelSpectrogram(
+  samples: Float32Array,
+  filters: WhisperModelData["melFilters"],
+): { data: Float32Array; frames: number } {
+  const { nMel, nFft } = filters;
+  const frames = Math.floor(samples.length / HOP_LENGTH) + CHUNK_FRAMES;
+  const mel = new Float32Array(nMel * frames);
+
+  const window = new Float32Array(N_FFT);
+  const cos = new Float32Array(N_FFT);
+  const sin = new Float32Array(N_FFT);
+  for (let i = 0; i < N_FFT; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / N_FFT);
+    cos[i] = Math.cos((2 * Math.PI * i) / N_FFT);
+    sin[i] = Math.sin((2 * Math.PI * i) / N_FFT);
+  }
+
+  const sample = (index: number): number => {
+    // Reflect padding at the start; silence after the end
+    const i = index < 0 ? -index : index;
+    return i < samples.length ? samples[i] : 0;
+  };
+
+  const frame = new Float32Array(N_FFT);
+  const power = new Float32Array(nFft);
+  for (let t = 0; t < frames; t++) {
+    const start = t * HOP_LENGTH - N_FFT / 2;
+    if (start >= samples.length) continue;
+
+    for (let n = 0; n < N_FFT; n++) {
+      frame[n] = sample(start + n) * window[n];
+    }
+    for (let k = 0; k < nFft; k++) {
+      let re = 0;
+      let im = 0;
+      for (let n = 0; n < N_FFT; n++) {
+        const index = (k * n) % N_FFT;
+        re += frame[n] * cos[index];
+        im -= frame[n] * sin[index];
+      }
+      power[k] = re * re + im * im;
+    }
+    for (let m = 0; m < nMel; m++) {
+      let sum = 0;
+      for (let k = 0; k < nFft; k++) {
+        sum += filters.data[m * nFft + k] * power[k];
+      }
+      mel[m * frames + t] = sum;
+    }
+  }
+
+  let max = -Infinity;
+  for (let i = 0; i < mel.length; i++) {
+    mel[i] = Math.log10(Math.max(mel[i], 1e-10));
+    if (mel[i] > max) max = mel[i];
+  }
+  for (let i = 0; i < mel.length; i++) {
+    mel[i] = (Math.max(mel[i], max - 8) + 4) / 4;
+  }
+
+  return { data: mel, frames };
+}
+
+/**
+ * Spreads a segment's words over [start, end] in proportion to their length,
+ * then moves each boundary between words to the quietest 10 ms frame within
+ * WORD_SNAP_WINDOW of it. `energy` holds one RMS value per mel frame.
+ */
+export function distributeWordTimings(
+  words: string[],
+  start: number,
+  end: number,
+  energy?: Float32Array,
+): SubtitleWord[] {
+  if (words.length === 0) return [];
+
+  const weights = words.map((word) => Math.max(word.length, 1));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const duration = Math.max(end - start, 0);
+
+  const boundaries = [start];
+  let elapsed = 0;
+  for (let i = 0; i < words.length - 1; i++) {
+    elapsed += weights[i];
+    let boundary = start + (duration * elapsed) / total;
+
+    if (energy && energy.length > 0) {
+      const previous = boundaries[boundaries.length - 1] + MIN_WORD_DURATION;
+      const from = Math.max(boundary - WORD_SNAP_WINDOW, previous);
+      const to = Math.min(boundary + WORD_SNAP_WINDOW, end - MIN_WORD_DURATION);
+      let quietest = Infinity;
+      for (
+        let frame = Math.ceil(from / SECONDS_PER_FRAME);
+        frame * SECONDS_PER_FRAME <= to && frame < energy.length;
+        frame++
+      ) {
+        if (energy[frame] < quietest) {
+          quietest = energy[frame];
+          boundary = frame * SECONDS_PER_FRAME;
+        }
+      }
+    }
+    boundaries.push(
+      Math.min(Math.max(boundary, boundaries[boundaries.length - 1]), end),
+    );
+  }
+  boundaries.push(end);
+
+  return words.map((text, i) => ({
+    text,
+    startTime: boundaries[i],
+    endTime: boundaries[i + 1],
+  }));
+}
+
+function computeFrameEnergy(samples: Float32Array): Float32Array {
+  const frames = Math.ceil(samples.length / HOP_LENGTH);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    const from = f * HOP_LENGTH;
+    const to = Math.min(from + HOP_LENGTH, samples.length);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    energy[f] = Math.sqrt(sum / Math.max(to - from, 1));
+  }
+  return energy;
+}
+
+export class WhisperModel {
+  private readonly model: WhisperModelData;
+  private readonly tokens: SpecialTokens;
+  private readonly multilingual: boolean;
+  private readonly languageCount: number;
+  private readonly textDecoder = new TextDecoder();
+
+  constructor(model: WhisperModelData) {
+    this.model = model;
+    const { nVocab } = model.hparams;
+
+    // Token ids as assigned by whisper.cpp for English-only, multilingual
+    // and large-v3 vocabularies
+    this.multilingual = nVocab >= 51865;
+    this.languageCount = nVocab - 51765 - (this.multilingual ? 1 : 0);
+    const shift = this.multilingual ? this.languageCount - 98 : 0;
+    const eot = this.multilingual ? 50257 : 50256;
+
+    const space = model.vocab.findIndex(
+      (bytes) => bytes.length === 1 && bytes[0] === 0x20,
+    );
+    this.tokens = {
+      eot,
+      sot: eot + 1,
+      transcribe: 50358 + shift,
+      timestampBegin: 50363 + shift,
+      space,
+    };
+
+    // Fail on load rather than mid-transcription for non-Whisper files
+    this.tensor("decoder.token_embedding.weight");
+  }
+
+  isMultilingual(): boolean {
+    return this.multilingual;
+  }
+
+  transcribe(
+    samples: Float32Array,
+    options: WhisperTranscribeOptions = {},
+  ): WhisperTranscript {
+    const mel = computeLogMelSpectrogram(samples, this.model.melFilters);
+    const energy = computeFrameEnergy(samples);
+    const contentFrames = mel.frames - CHUNK_FRAMES;
+    const duration = samples.length / WHISPER_SAMPLE_RATE;
+
+    let language = this.multilingual ? options.language : "en";
+    const segments: WhisperSegment[] = [];
+    let seek = 0;
+
+    while (seek < contentFrames) {
+      options.onProgress?.(seek / contentFrames);
+
+      const windowFrames = Math.min(CHUNK_FRAMES, contentFrames - seek);
+      const timeOffset = seek * SECONDS_PER_FRAME;
+      const cache = this.createCache(this.encode(mel.data, mel.frames, seek));
+
+      if (!language) {
+        language = this.detectLanguage(cache);
+      }
+
+      const prompt = this.multilingual
+        ? [
+            this.tokens.sot,
+            this.languageToken(language),
+            this.tokens.transcribe,
+          ]
+        : [this.tokens.sot];
+      const tokens = this.decodeGreedy(cache, prompt);
+
+      const { eot, timestampBegin } = this.tokens;
+      const isTimestamp = tokens.map((token) => token >= timestampBegin);
+      const singleTimestampEnding =
+        tokens.length >= 2 &&
+        !isTimestamp[tokens.length - 2] &&
+        isTimestamp[tokens.length - 1];
+
+      const slices: number[] = [];
+      for (let i = 1; i < tokens.length; i++) {
+        if (isTimestamp[i - 1] && isTimestamp[i]) slices.push(i);
+      }
+
+      const addSegment = (start: number, end: number, slice: number[]) => {
+        const text = slice.filter((token) => token < eot);
+        const clampedEnd = Math.min(end, duration);
+        const words = this.splitWords(text);
+        if (words.length === 0 || clampedEnd <= start) return;
+        segments.push({
+          start,
+          end: clampedEnd,
+          text: this.decodeTokens(text).trim(),
+          words: distributeWordTimings(words, start, clampedEnd, energy),
+        });
+      };
+
+      let advance = windowFrames;
+      if (slices.length > 0) {
+        if (singleTimestampEnding) slices.push(tokens.length);
+        let last = 0;
+        for (const current of slices) {
+          const slice = tokens.slice(last, current);
+          addSegment(
+            timeOffset + (slice[0] - timestampBegin) * SECONDS_PER_TIMESTAMP,
+            timeOffset +
+              (slice[slice.length - 1] - timestampBegin) *
+                SECONDS_PER_TIMESTAMP,
+            slice,
+          );
+          last = current;
+        }
+        if (!singleTimestampEnding) {
+          const lastTimestamp = tokens[last - 1] - timestampBegin;
+          advance = lastTimestamp * FRAMES_PER_TIMESTAMP;
+        }
+      } else {
+        const timestamps = tokens.filter((_, i) => isTimestamp[i]);
+        let segmentDuration = windowFrames * SECONDS_PER_FRAME;
+        const lastTimestamp = timestamps[timestamps.length - 1];
+        if (lastTimestamp !== undefined && lastTimestamp !== timestampBegin) {
+          segmentDuration =
+            (lastTimestamp - timestampBegin) * SECONDS_PER_TIMESTAMP;
+        }
+        addSegment(timeOffset, timeOffset + segmentDuration, tokens);
+      }
+
+      // Never stall on a window that ends with a zero timestamp
+      seek += advance > 0 ? advance : windowFrames;
+    }
+
+    options.onProgress?.(1);
+
+    return {
+      language: language ?? "en",
+      text: segments
+        .map((segment) => segment.text)
+        .join(" ")
+        .trim(),
+      segments,
+      words: segments.flatMap((segment) => segment.words),
+    };
+  }
+
+  private tensor(name: string): WhisperTensor {
+    const tensor = this.model.tensors.get(name);
+    if (!tensor) {
+      throw new Error(`Whisper model is missing tensor ${name}`);
+    }
+    return tensor;
+  }
+
+  private languageToken(language: string): number {
+    const index = WHISPER_LANGUAGES.indexOf(language);
+    if (index < 0 || index >= this.languageCount) {
+      throw new Error(`Language "${language}" is not supported by this model`);
+    }
+    return this.tokens.sot + 1 + index;
+  }
+
+  private detectLanguage(cache: DecoderCache): string {
+    const logits = this.decoderForward([this.tokens.sot], cache);
+    cache.length = 0;
+
+    let best = 0;
+    for (let i = 1; i < this.languageCount; i++) {
+      const token = this.tokens.sot + 1 + i;
+      if (logits[token] > logits[this.tokens.sot + 1 + best]) best = i;
+    }
+    return WHISPER_LANGUAGES[best] ?? "en";
+  }
+
+  private encode(
+    mel: Float32Array,
+    melFrames: number,
+    seek: number,
+  ): Float32Array {
+    const { nMels, nAudioState, nAudioHead, nAudioLayer } = this.model.hparams;
+
+    const conv1 = conv1d(
+      (channel, time) => mel[channel * melFrames + seek + time],
+      nMels,
+      CHUNK_FRAMES,
+      this.tensor("encoder.conv1.weight"),
+      this.tensor("encoder.conv1.bias"),
+      1,
+    );
+    gelu(conv1.data);
+
+    const conv2 = conv1d(
+      (channel, time) => conv1.data[time * nAudioState + channel],
+      nAudioState,
+      conv1.length,
+      this.tensor("encoder.conv2.weight"),
+      this.tensor("encoder.conv2.bias"),
+      2,
+    );
+    gelu(conv2.data);
+
+    let x = conv2.data;
+    const length = conv2.length;
+    const positional = this.tensor("encoder.positional_embedding").data;
+    for (let i = 0; i < x.length; i++) {
+      x[i] += positional[i];
+    }
+
+    for (let layer = 0; layer < nAudioLayer; layer++) {
+      const prefix = `encoder.blocks.${layer}`;
+      x = this.residualSelfAttention(x, length, prefix, nAudioHead);
+      x = this.residualMlp(x, length, prefix);
+    }
+
+    return layerNorm(
+      x,
+      length,
+      this.tensor("encoder.ln_post.weight"),
+      this.tensor("encoder.ln_post.bias"),
+    );
+  }
+
+  private residualSelfAttention(
+    x: Float32Array,
+    length: number,
+    prefix: string,
+    heads: number,
+  ): Float32Array {
+    const dim = x.length / length;
+    const h = layerNorm(
+      x,
+      length,
+      this.tensor(`${prefix}.attn_ln.weight`),
+      this.tensor(`${prefix}.attn_ln.bias`),
+    );
+    const q = linear(
+      h,
+      length,
+      this.tensor(`${prefix}.attn.query.weight`),
+      this.tensor(`${prefix}.attn.query.bias`),
+    );
+    const k = linear(h, length, this.tensor(`${prefix}.attn.key.weight`));
+    const v = linear(
+      h,
+      length,
+      this.tensor(`${prefix}.attn.value.weight`),
+      this.tensor(`${prefix}.attn.value.bias`),
+    );
+    const attended = attention(q, length, k, v, length, dim, heads, null);
+    addInPlace(
+      x,
+      linear(
+        attended,
+        length,
+        this.tensor(`${prefix}.attn.out.weight`),
+        this.tensor(`${prefix}.attn.out.bias`),
+      ),
+    );
+    return x;
+  }
+
+  private residualMlp(
+    x: Float32Array,
+    length: number,
+    prefix: string,
+  ): Float32Array {
+    const h = layerNorm(
+      x,
+      length,
+      this.tensor(`${prefix}.mlp_ln.weight`),
+      this.tensor(`${prefix}.mlp_ln.bias`),
+    );
+    const hidden = linear(
+      h,
+      length,
+      this.tensor(`${prefix}.mlp.0.weight`),
+      this.tensor(`${prefix}.mlp.0.bias`),
+    );
+    gelu(hidden);
+    addInPlace(
+      x,
+      linear(
+        hidden,
+        length,
+        this.tensor(`${prefix}.mlp.2.weight`),
+        this.tensor(`${prefix}.mlp.2.bias`),
+      ),
+    );
+    return x;
+  }
+
+  private createCache(audioFeatures: Float32Array): DecoderCache {
+    const { nAudioCtx, nTextCtx, nTextState, nTextLayer } = this.model.hparams;
+    const cache: DecoderCache = {
+      selfKeys: [],
+      selfValues: [],
+      crossKeys: [],
+      crossValues: [],
+      length: 0,
+    };
+
+    for (let layer = 0; layer < nTextLayer; layer++) {
+      const prefix = `decoder.blocks.${layer}.cross_attn`;
+      cache.selfKeys.push(new Float32Array(nTextCtx * nTextState));
+      cache.selfValues.push(new Float32Array(nTextCtx * nTextState));
+      cache.crossKeys.push(
+        linear(audioFeatures, nAudioCtx, this.tensor(`${prefix}.key.weight`)),
+      );
+      cache.crossValues.push(
+        linear(
+          audioFeatures,
+          nAudioCtx,
+          this.tensor(`${prefix}.value.weight`),
+          this.tensor(`${prefix}.value.bias`),
+        ),
+      );
+    }
+    return cache;
+  }
+
+  /** Runs the decoder on new tokens and returns the logits of the last one. */
+  private decoderForward(tokens: number[], cache: DecoderCache): Float32Array {
+    const { nAudioCtx, nTextState, nTextHead, nTextLayer, nVocab } =
+      this.model.hparams;
+    const count = tokens.length;
+    const position = cache.length;
+    const embedding = this.tensor("decoder.token_embedding.weight").data;
+    const positional = this.tensor("decoder.positional_embedding").data;
+
+    let x: Float32Array = new Float32Array(count * nTextState);
+    for (let t = 0; t < count; t++) {
+      for (let i = 0; i < nTextState; i++) {
+        x[t * nTextState + i] =
+          embedding[tokens[t] * nTextState + i] +
+          positional[(position + t) * nTextState + i];
+      }
+    }
+
+    for (let layer = 0; layer < nTextLayer; layer++) {
+      const prefix = `decoder.blocks.${layer}`;
+
+      let h = layerNorm(
+        x,
+        count,
+        this.tensor(`${prefix}.attn_ln.weight`),
+        this.tensor(`${prefix}.attn_ln.bias`),
+      );
+      let q = linear(
+        h,
+        count,
+        this.tensor(`${prefix}.attn.query.weight`),
+        this.tensor(`${prefix}.attn.query.bias`),
+      );
+      cache.selfKeys[layer].set(
+        linear(h, count, this.tensor(`${prefix}.attn.key.weight`)),
+        position * nTextState,
+      );
+      cache.selfValues[layer].set(
+        linear(
+          h,
+          count,
+          this.tensor(`${prefix}.attn.value.weight`),
+          this.tensor(`${prefix}.attn.value.bias`),
+        ),
+        position * nTextState,
+      );
+      let attended = attention(
+        q,
+        count,
+        cache.selfKeys[layer],
+        cache.selfValues[layer],
+        position + count,
+        nTextState,
+        nTextHead,
+        position,
+      );
+      addInPlace(
+        x,
+        linear(
+          attended,
+          count,
+          this.tensor(`${prefix}.attn.out.weight`),
+          this.tensor(`${prefix}.attn.out.bias`),
+        ),
+      );
+
+      h = layerNorm(
+        x,
+        count,
+        this.tensor(`${prefix}.cross_attn_ln.weight`),
+        this.tensor(`${prefix}.cross_attn_ln.bias`),
+      );
+      q = linear(
+        h,
+        count,
+        this.tensor(`${prefix}.cross_attn.query.weight`),
+        this.tensor(`${prefix}.cross_attn.query.bias`),
+      );
+      attended = attention(
+        q,
+        count,
+        cache.crossKeys[layer],
+        cache.crossValues[layer],
+        nAudioCtx,
+        nTextState,
+        nTextHead,
+        null,
+      );
+      addInPlace(
+        x,
+        linear(
+          attended,
+          count,
+          this.tensor(`${prefix}.cross_attn.out.weight`),
+          this.tensor(`${prefix}.cross_attn.out.bias`),
+        ),
+      );
+
+      x = this.residualMlp(x, count, prefix);
+    }
+    cache.length += count;
+
+    const last = layerNorm(
+      x.subarray((count - 1) * nTextState),
+      1,
+      this.tensor("decoder.ln.weight"),
+      this.tensor("decoder.ln.bias"),
+    );
+    const logits = new Float32Array(nVocab);
+    for (let v = 0; v < nVocab; v++) {
+      let sum = 0;
+      const offset = v * nTextState;
+      for (let i = 0; i < nTextState; i++) {
+        sum += last[i] * embedding[offset + i];
+      }
+      logits[v] = sum;
+    }
+    return logits;
+  }
+
+  private decodeGreedy(cache: DecoderCache, prompt: number[]): number[] {
+    const { nTextCtx } = this.model.hparams;
+    const sampled: number[] = [];
+    let logits = this.decoderForward(prompt, cache);
+
+    while (sampled.length < nTextCtx / 2 && cache.length < nTextCtx) {
+      this.applyTimestampRules(logits, sampled);
+      const token = argmax(logits);
+      if (token === this.tokens.eot) break;
+      sampled.push(token);
+      logits = this.decoderForward([token], cache);
+    }
+    return sampled;
+  }
+
+  /** Logit filters from Whisper's SuppressBlank and ApplyTimestampRules. */
+  private applyTimestampRules(logits: Float32Array, sampled: number[]): void {
+    const { eot, timestampBegin, space } = this.tokens;
+    const suppress = (from: number, to: number) =>
+      logits.fill(-Infinity, from, Math.min(to, logits.length));
+
+    // Special tokens other than end-of-text are never sampled
+    suppress(eot + 1, timestampBegin);
+
+    if (sampled.length === 0) {
+      if (space >= 0) logits[space] = -Infinity;
+      logits[eot] = -Infinity;
+    }
+
+    const last = sampled[sampled.length - 1];
+    const lastWasTimestamp = last !== undefined && last >= timestampBegin;
+    const penultimateWasTimestamp =
+      sampled.length < 2 || sampled[sampled.length - 2] >= timestampBegin;
+
+    if (lastWasTimestamp) {
+      if (penultimateWasTimestamp) {
+        suppress(timestampBegin, logits.length);
+      } else {
+        suppress(0, eot);
+      }
+    }
+
+    const timestamps = sampled.filter((token) => token >= timestampBegin);
+    if (timestamps.length > 0) {
+      const lastTimestamp = timestamps[timestamps.length - 1];
+      const minimum =
+        lastWasTimestamp && !penultimateWasTimestamp
+          ? lastTimestamp
+          : lastTimestamp + 1;
+      suppress(timestampBegin, minimum);
+    }
+
+    if (sampled.length === 0) {
+      suppress(0, timestampBegin);
+      suppress(timestampBegin + MAX_INITIAL_TIMESTAMP_INDEX + 1, logits.length);
+    }
+
+    // Prefer a timestamp when timestamps are jointly more likely than any
+    // single text token
+    let max = -Infinity;
+    for (let i = 0; i < logits.length; i++) {
+      if (logits[i] > max) max = logits[i];
+    }
+    if (max === -Infinity) return;
+
+    let timestampMass = 0;
+    for (let i = timestampBegin; i < logits.length; i++) {
+      timestampMass += Math.exp(logits[i] - max);
+    }
+    let maxText = -Infinity;
+    for (let i = 0; i < timestampBegin; i++) {
+      if (logits[i] > maxText) maxText = logits[i];
+    }
+    if (Math.log(timestampMass) + max > maxText) {
+      suppress(0, timestampBegin);
+    }
+  }
+
+  private decodeTokens(tokens: number[]): string {
+    const parts = tokens.map((token) => this.model.vocab[token] ?? []);
+    const length = parts.reduce((sum, part) => sum + part.length, 0);
+    const bytes = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return this.textDecoder.decode(bytes);
+  }
+
+  /** Groups text tokens into words: a token with a leading space starts one. */
+  private splitWords(tokens: number[]): string[] {
+    const groups: number[][] = [];
+    for (const token of tokens) {
+      const bytes = this.model.vocab[token];
+      if (!bytes || bytes.length === 0) continue;
+      if (groups.length === 0 || bytes[0] === 0x20) {
+        groups.push([token]);
+      } else {
+        groups[groups.length - 1].push(token);
+      }
+    }
+    return groups
+      .map((group) => this.decodeTokens(group).trim())
+      .filter((word) => word.length > 0);
+  }
+}
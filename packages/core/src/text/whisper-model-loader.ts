@@ -0,0 +1,193 @@
+/**
+ * Reader for Whisper models in the ggml format used by whisper.cpp
+ * (ggml-tiny.bin, ggml-base.en.bin, ...). Only f32 and f16 weights are
+ * supported; f16 weights are widened to f32 on load.
+ */
+
+const GGML_MAGIC = 0x67676d6c;
+const GGML_TYPE_F32 = 0;
+const GGML_TYPE_F16 = 1;
+
+export interface WhisperHyperParams {
+  readonly nVocab: number;
+  readonly nAudioCtx: number;
+  readonly nAudioState: number;
+  readonly nAudioHead: number;
+  readonly nAudioLayer: number;
+  readonly nTextCtx: number;
+  readonly nTextState: number;
+  readonly nTextHead: number;
+  readonly nTextLayer: number;
+  readonly nMels: number;
+  readonly ftype: number;
+}
+
+export interface WhisperTensor {
+  /** Dimensions in PyTorch order, outermost first. */
+  readonly shape: number[];
+  readonly data: Float32Array;
+}
+
+export interface WhisperModelData {
+  readonly hparams: WhisperHyperParams;
+  readonly melFilters: {
+    readonly nMel: number;
+    readonly nFft: number;
+    readonly data: Float32Array;
+  };
+  /** Raw UTF-8 bytes of every token, indexed by token id. */
+  readonly vocab: Uint8Array[];
+  readonly tensors: Map<string, WhisperTensor>;
+}
+
+function float16ToFloat32(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x03ff;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+let float16Table: Float32Array | null = null;
+
+function getFloat16Table(): Float32Array {
+  if (!float16Table) {
+    float16Table = new Float32Array(65536);
+    for (let i = 0; i < 65536; i++) {
+      float16Table[i] = float16ToFloat32(i);
+    }
+  }
+  return float16Table;
+}
+
+class ModelReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of model file");
+    }
+  }
+
+  int32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  bytesOf(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  float32Array(length: number): Float32Array {
+    this.ensure(length * 4);
+    const result = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = this.view.getFloat32(this.offset + i * 4, true);
+    }
+    this.offset += length * 4;
+    return result;
+  }
+
+  float16Array(length: number): Float32Array {
+    this.ensure(length * 2);
+    const table = getFloat16Table();
+    const result = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = table[this.view.getUint16(this.offset + i * 2, true)];
+    }
+    this.offset += length * 2;
+    return result;
+  }
+}
+
+export function parseWhisperModel(buffer: ArrayBuffer): WhisperModelData {
+  const reader = new ModelReader(buffer);
+
+  if (reader.uint32() !== GGML_MAGIC) {
+    throw new Error("Not a whisper.cpp ggml model file (bad magic number)");
+  }
+
+  const hparams: WhisperHyperParams = {
+    nVocab: reader.int32(),
+    nAudioCtx: reader.int32(),
+    nAudioState: reader.int32(),
+    nAudioHead: reader.int32(),
+    nAudioLayer: reader.int32(),
+    nTextCtx: reader.int32(),
+    nTextState: reader.int32(),
+    nTextHead: reader.int32(),
+    nTextLayer: reader.int32(),
+    nMels: reader.int32(),
+    // Newer files fold the quantization version into ftype
+    ftype: reader.int32() % 1000,
+  };
+
+  const nMel = reader.int32();
+  const nFft = reader.int32();
+  const melFilters = { nMel, nFft, data: reader.float32Array(nMel * nFft) };
+
+  const vocabSize = reader.int32();
+  const vocab: Uint8Array[] = [];
+  for (let i = 0; i < vocabSize; i++) {
+    vocab.push(reader.bytesOf(reader.uint32()));
+  }
+
+  const tensors = new Map<string, WhisperTensor>();
+  const decoder = new TextDecoder();
+  while (reader.remaining > 0) {
+    const nDims = reader.int32();
+    const nameLength = reader.int32();
+    const type = reader.int32();
+
+    const ne: number[] = [];
+    for (let i = 0; i < nDims; i++) {
+      ne.push(reader.int32());
+    }
+    const name = decoder.decode(reader.bytesOf(nameLength));
+    const count = ne.reduce((product, n) => product * n, 1);
+
+    let data: Float32Array;
+    if (type === GGML_TYPE_F32) {
+      data = reader.float32Array(count);
+    } else if (type === GGML_TYPE_F16) {
+      data = reader.float16Array(count);
+    } else {
+      throw new Error(
+        `Tensor ${name} is quantized (type ${type}); use an f16 or f32 model`,
+      );
+    }
+
+    tensors.set(name, { shape: ne.reverse(), data });
+  }
+
+  return { hparams, melFilters, vocab, tensors };
+}
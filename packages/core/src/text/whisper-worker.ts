@@ -0,0 +1,80 @@
+import { parseWhisperModel } from "./whisper-model-loader";
+import { WhisperModel, type WhisperTranscript } from "./whisper-inference";
+
+export type WhisperWorkerRequest =
+  | { type: "load"; model: Blob }
+  | {
+      type: "transcribe";
+      id: number;
+      samples: Float32Array;
+      language?: string;
+    };
+
+export type WhisperWorkerResponse =
+  | { type: "loaded"; multilingual: boolean }
+  | { type: "progress"; id: number; progress: number }
+  | { type: "result"; id: number; transcript: WhisperTranscript }
+  | { type: "error"; id: number | null; error: string };
+
+const workerSelf = self as unknown as {
+  onmessage: ((event: MessageEvent<WhisperWorkerRequest>) => void) | null;
+  postMessage: (message: WhisperWorkerResponse) => void;
+};
+
+let model: WhisperModel | null = null;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+workerSelf.onmessage = async (event: MessageEvent<WhisperWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "load":
+      try {
+        const buffer = await request.model.arrayBuffer();
+        model = new WhisperModel(parseWhisperModel(buffer));
+        workerSelf.postMessage({
+          type: "loaded",
+          multilingual: model.isMultilingual(),
+        });
+      } catch (error) {
+        workerSelf.postMessage({
+          type: "error",
+          id: null,
+          error: errorMessage(error),
+        });
+      }
+      break;
+
+    case "transcribe":
+      if (!model) {
+        workerSelf.postMessage({
+          type: "error",
+          id: request.id,
+          error: "No Whisper model loaded",
+        });
+        return;
+      }
+      try {
+        const transcript = model.transcribe(request.samples, {
+          language: request.language,
+          onProgress: (progress) =>
+            workerSelf.postMessage({
+              type: "progress",
+              id: request.id,
+              progress,
+            }),
+        });
+        workerSelf.postMessage({ type: "result", id: request.id, transcript });
+      } catch (error) {
+        workerSelf.postMessage({
+          type: "error",
+          id: request.id,
+          error: errorMessage(error),
+        });
+      }
+      break;
+  }
+};
@@ -432,6 +432,76 @@ describe("ClipManager", () => {
     });
   });
 
+  describe("splitAtSceneCuts", () => {
+    it("should split at cuts inside the trimmed, sped up clip", async () => {
+      const clip = createMockClip({
+        startTime: 10,
+        duration: 5,
+        inPoint: 2,
+        outPoint: 12,
+        speed: 2,
+      });
+      const timeline = createMockTimeline({
+        tracks: [createMockTrack({ clips: [clip] })],
+      });
+
+      const result = await clipManager.splitAtSceneCuts(
+        timeline,
+        "clip-1",
+        [1, 8, 4, 12.5],
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.clipIds).toHaveLength(3);
+      expect(result.clipIds![0]).toBe("clip-1");
+      const clips = timeline.tracks[0].clips;
+      expect(clips.map((c) => c.id)).toEqual(result.clipIds);
+      expect(clips.map((c) => c.startTime)).toEqual([10, 11, 13]);
+      expect(clips.map((c) => c.duration)).toEqual([1, 2, 2]);
+    });
+
+    it("should split a reversed clip at mirrored positions", async () => {
+      const clip = createMockClip({
+        startTime: 10,
+        duration: 5,
+        inPoint: 2,
+        outPoint: 12,
+        speed: 2,
+        reversed: true,
+      });
+      const timeline = createMockTimeline({
+        tracks: [createMockTrack({ clips: [clip] })],
+      });
+
+      const result = await clipManager.splitAtSceneCuts(
+        timeline,
+        "clip-1",
+        [4, 8],
+      );
+
+      expect(result.success).toBe(true);
+      const clips = timeline.tracks[0].clips;
+      expect(clips.map((c) => c.startTime)).toEqual([10, 12, 14]);
+      expect(clips.map((c) => c.duration)).toEqual([2, 2, 1]);
+    });
+
+    it("should fail when no cut falls inside the clip", async () => {
+      const timeline = createMockTimeline({
+        tracks: [createMockTrack({ clips: [createMockClip()] })],
+      });
+
+      const result = await clipManager.splitAtSceneCuts(
+        timeline,
+        "clip-1",
+        [0, 5, 7],
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("No scene cuts within clip");
+      expect(timeline.tracks[0].clips).toHaveLength(1);
+    });
+  });
+
   describe("deleteClip", () => {
     it("should fail when clip not found", async () => {
       const timeline = createMockTimeline();
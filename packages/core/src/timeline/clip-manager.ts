@@ -31,6 +31,11 @@ export interface ClipOperationResult {
   constrainedPosition?: number;
 }
 
+export interface SplitAtSceneCutsResult extends ClipOperationResult {
+  /** Every resulting piece in timeline order, starting with the original. */
+  clipIds?: string[];
+}
+
 export interface SnapResult {
   snappedTime: number;
   didSnap: boolean;
@@ -442,6 +447,7 @@ export class ClipManager {
     timeline: Timeline,
     clipId: string,
     splitTime: number,
+    newClipId?: string,
   ): Promise<ClipOperationResult> {
     const clip = this.findClip(timeline, clipId);
     if (!clip) {
@@ -471,6 +477,7 @@ export class ClipManager {
       params: {
         clipId,
         time: splitTime,
+        id: newClipId,
       },
     };
 
@@ -484,6 +491,55 @@ export class ClipManager {
     };
   }
 
+  /**
+   * Splits a clip at every scene cut of its media that falls inside it.
+   * Cut times are media times; they are mapped through the clip's in point,
+   * speed and direction. The original id stays on the first shot.
+   */
+  async splitAtSceneCuts(
+    timeline: Timeline,
+    clipId: string,
+    cutTimes: readonly number[],
+  ): Promise<SplitAtSceneCutsResult> {
+    const clip = this.findClip(timeline, clipId);
+    if (!clip) {
+      return { success: false, error: "Clip not found" };
+    }
+
+    const speed = clip.speed ?? 1;
+    const clipEnd = clip.startTime + clip.duration;
+    const splitTimes = [...cutTimes]
+      .map(
+        (time) =>
+          clip.startTime +
+          (clip.reversed ? clip.outPoint - time : time - clip.inPoint) / speed,
+      )
+      .filter((time) => time > clip.startTime && time < clipEnd)
+      .sort((a, b) => a - b);
+    if (splitTimes.length === 0) {
+      return { success: false, error: "No scene cuts within clip" };
+    }
+
+    // Splitting from the end keeps the original id on the first piece
+    const stamp = Date.now().toString(36);
+    const clipIds = splitTimes.map(
+      (_, index) => `${clipId}-shot-${stamp}-${index + 1}`,
+    );
+    for (let index = splitTimes.length - 1; index >= 0; index--) {
+      const result = await this.splitClip(
+        timeline,
+        clipId,
+        splitTimes[index],
+        clipIds[index],
+      );
+      if (!result.success) {
+        return { success: false, clipId, error: result.error };
+      }
+    }
+
+    return { success: true, clipId, clipIds: [clipId, ...clipIds] };
+  }
+
   async trimClip(
     timeline: Timeline,
     clipId: string,
@@ -20,6 +20,7 @@ export {
   type AddClipParams,
   type MoveClipParams,
   type ClipOperationResult,
+  type SplitAtSceneCutsResult,
   type SnapResult,
 } from "./clip-manager";
 
@@ -1,4 +1,6 @@
+import type { Project } from "../types/project";
 import type { Clip, Track, Transform } from "../types/timeline";
+import type { ProjectStateEngine } from "../storage/engine-state";
 
 export interface CompoundClipContent {
   clips: Clip[];
@@ -27,6 +29,12 @@ export interface CompoundClipInstance {
   volume: number;
 }
 
+/** Compound clips and their instances as persisted on the timeline. */
+export interface NestedSequenceState {
+  compoundClips: CompoundClip[];
+  instances: CompoundClipInstance[];
+}
+
 export interface CreateCompoundClipOptions {
   name?: string;
   color?: string;
@@ -53,7 +61,7 @@ function generateId(): string {
   return `compound_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 }
 
-export class NestedSequenceEngine {
+export class NestedSequenceEngine implements ProjectStateEngine {
   private compoundClips: Map<string, CompoundClip> = new Map();
   private instances: Map<string, CompoundClipInstance> = new Map();
   private instancesByCompound: Map<string, Set<string>> = new Map();
@@ -101,6 +109,13 @@ export class NestedSequenceEngine {
     return compound;
   }
 
+  addCompoundClip(compound: CompoundClip): void {
+    this.compoundClips.set(compound.id, compound);
+    if (!this.instancesByCompound.has(compound.id)) {
+      this.instancesByCompound.set(compound.id, new Set());
+    }
+  }
+
   getCompoundClip(id: string): CompoundClip | undefined {
     return this.compoundClips.get(id);
   }
@@ -177,6 +192,15 @@ export class NestedSequenceEngine {
     return instance;
   }
 
+  addInstance(instance: CompoundClipInstance): boolean {
+    if (!this.compoundClips.has(instance.compoundClipId)) return false;
+
+    this.instances.set(instance.id, instance);
+    this.instancesByCompound.get(instance.compoundClipId)?.add(instance.id);
+
+    return true;
+  }
+
   getInstance(id: string): CompoundClipInstance | undefined {
     return this.instances.get(id);
   }
@@ -275,6 +299,32 @@ export class NestedSequenceEngine {
     this.instancesByCompound.clear();
     this.colorIndex = 0;
   }
+
+  hydrateFromProject(project: Project): void {
+    this.clearAll();
+    const state = project.timeline.nestedSequences;
+    for (const compound of state?.compoundClips ?? []) {
+      this.addCompoundClip(structuredClone(compound));
+    }
+    for (const instance of state?.instances ?? []) {
+      this.addInstance(structuredClone(instance));
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    const { nestedSequences: _previous, ...timeline } = project.timeline;
+    const state: NestedSequenceState = {
+      compoundClips: structuredClone(this.getAllCompoundClips()),
+      instances: structuredClone(this.getAllInstances()),
+    };
+    return {
+      ...project,
+      timeline:
+        state.compoundClips.length > 0
+          ? { ...timeline, nestedSequences: state }
+          : timeline,
+    };
+  }
 }
 
 let nestedSequenceEngineInstance: NestedSequenceEngine | null = null;
@@ -1,11 +1,27 @@
-import type { ProjectSettings } from "./project";
+import type { MediaMarker, ProjectSettings } from "./project";
+import type { InputColorSpace } from "../video/color-management";
 import type {
   Transform,
   EasingType,
   SubtitleStyle,
   AutomationPoint,
+  Marker,
+  AudioBus,
+  MasterBus,
+  TrackMix,
 } from "./timeline";
 import type { TransitionType } from "./effects";
+import type { TextClip } from "../text/types";
+import type { SubtitleFormat } from "../text/subtitle-formats";
+import type { ShapeClip, SVGClip, StickerClip } from "../graphics/types";
+import type { Mask } from "../video/mask-engine";
+import type { SpeedKeyframe, FreezeFrame } from "../video/speed-engine";
+import type { ColorGradingSettings } from "../video/color-grading-engine";
+import type {
+  CompoundClip,
+  CompoundClipContent,
+  CompoundClipInstance,
+} from "../timeline/nested-sequence-engine";
 export interface Action {
   readonly type: string;
   readonly id: string;
@@ -75,7 +91,15 @@ export type ProjectAction =
 export type MediaAction =
   | { type: "media/import"; params: { file: File } }
   | { type: "media/delete"; params: { mediaId: string } }
-  | { type: "media/rename"; params: { mediaId: string; name: string } };
+  | { type: "media/rename"; params: { mediaId: string; name: string } }
+  | {
+      type: "media/setColorSpace";
+      params: { mediaId: string; colorSpace?: InputColorSpace };
+    }
+  | {
+      type: "media/setMarkers";
+      params: { mediaId: string; markers: MediaMarker[] };
+    };
 
 // Track actions
 export type TrackAction =
@@ -84,6 +108,7 @@ export type TrackAction =
       params: {
         trackType: "video" | "audio" | "image" | "text" | "graphics";
         position?: number;
+        id?: string;
       };
     }
   | { type: "track/remove"; params: { trackId: string } }
@@ -97,7 +122,12 @@ export type TrackAction =
 export type ClipAction =
   | {
       type: "clip/add";
-      params: { trackId: string; mediaId: string; startTime: number };
+      params: {
+        trackId: string;
+        mediaId: string;
+        startTime: number;
+        id?: string;
+      };
     }
   | { type: "clip/remove"; params: { clipId: string } }
   | {
@@ -108,7 +138,10 @@ export type ClipAction =
       type: "clip/trim";
       params: { clipId: string; inPoint?: number; outPoint?: number };
     }
-  | { type: "clip/split"; params: { clipId: string; time: number } }
+  | {
+      type: "clip/split";
+      params: { clipId: string; time: number; id?: string };
+    }
   | { type: "clip/rippleDelete"; params: { clipId: string } };
 
 // Effect actions
@@ -119,6 +152,7 @@ export type EffectAction =
         clipId: string;
         effectType: string;
         params?: Record<string, unknown>;
+        id?: string;
       };
     }
   | { type: "effect/remove"; params: { clipId: string; effectId: string } }
@@ -148,6 +182,7 @@ export type KeyframeAction =
         property: string;
         time: number;
         value: unknown;
+        id?: string;
       };
     }
   | {
@@ -174,6 +209,7 @@ export type TransitionAction =
         clipBId: string;
         transitionType: TransitionType;
         duration: number;
+        id?: string;
       };
     }
   | { type: "transition/remove"; params: { transitionId: string } }
@@ -196,14 +232,37 @@ export type AudioAction =
   | {
       type: "audio/addAutomation";
       params: { clipId: string; points: AutomationPoint[] };
+    }
+  | {
+      type: "audio/replaceSource";
+      params: { clipId: string; mediaId: string };
     };
 
+// Mixer actions
+export type MixerAction =
+  | { type: "mixer/addBus"; params: { bus: AudioBus } }
+  | { type: "mixer/removeBus"; params: { busId: string } }
+  | {
+      type: "mixer/updateBus";
+      params: { busId: string; updates: Partial<Omit<AudioBus, "id">> };
+    }
+  | {
+      type: "mixer/updateTrack";
+      params: { trackId: string; updates: Partial<TrackMix> };
+    }
+  | { type: "mixer/updateMaster"; params: { updates: Partial<MasterBus> } };
+
 // Subtitle actions
 export type SubtitleAction =
-  | { type: "subtitle/import"; params: { srtContent: string } }
+  | {
+      type: "subtitle/import";
+      params:
+        | { srtContent: string }
+        | { content: string; format?: SubtitleFormat };
+    }
   | {
       type: "subtitle/add";
-      params: { text: string; startTime: number; endTime: number };
+      params: { text: string; startTime: number; endTime: number; id?: string };
     }
   | {
       type: "subtitle/update";
@@ -215,7 +274,132 @@ export type SubtitleAction =
       };
     }
   | { type: "subtitle/remove"; params: { subtitleId: string } }
-  | { type: "subtitle/setStyle"; params: { style: SubtitleStyle } };
+  | { type: "subtitle/setStyle"; params: { style: SubtitleStyle } }
+  | {
+      type: "subtitle/rippleDelete";
+      params: { startTime: number; endTime: number };
+    }
+  | {
+      type: "subtitle/moveRange";
+      params: { startTime: number; endTime: number; toTime: number };
+    };
+
+// Mask actions
+export type MaskAction =
+  | { type: "mask/add"; params: { clipId: string; mask: Mask } }
+  | { type: "mask/remove"; params: { clipId: string; maskId: string } }
+  | {
+      type: "mask/update";
+      params: {
+        clipId: string;
+        maskId: string;
+        updates: Partial<Omit<Mask, "id" | "clipId">>;
+      };
+    };
+
+// Color grading actions
+export type ColorGradeAction =
+  | {
+      type: "colorGrade/update";
+      params: { clipId: string; settings: ColorGradingSettings };
+    }
+  | { type: "colorGrade/reset"; params: { clipId: string } };
+
+// Speed ramp actions
+export type SpeedAction =
+  | {
+      type: "speed/addKeyframe";
+      params: { clipId: string; keyframe: SpeedKeyframe };
+    }
+  | {
+      type: "speed/removeKeyframe";
+      params: { clipId: string; keyframeId: string };
+    }
+  | {
+      type: "speed/updateKeyframe";
+      params: {
+        clipId: string;
+        keyframeId: string;
+        updates: Partial<Omit<SpeedKeyframe, "id">>;
+      };
+    }
+  | {
+      type: "speed/addFreezeFrame";
+      params: { clipId: string; freezeFrame: FreezeFrame };
+    }
+  | {
+      type: "speed/removeFreezeFrame";
+      params: { clipId: string; freezeFrameId: string };
+    }
+  | {
+      type: "speed/setPitchCorrection";
+      params: { clipId: string; enabled: boolean };
+    };
+
+// Text clip actions
+export type TextClipAction =
+  | { type: "text/add"; params: { textClip: TextClip } }
+  | { type: "text/remove"; params: { clipId: string } }
+  | {
+      type: "text/update";
+      params: { clipId: string; updates: Partial<Omit<TextClip, "id">> };
+    };
+
+// Shape, SVG and sticker clip actions
+export type GraphicClipData = ShapeClip | SVGClip | StickerClip;
+
+export type GraphicAction =
+  | { type: "graphic/add"; params: { graphic: GraphicClipData } }
+  | { type: "graphic/remove"; params: { clipId: string } }
+  | {
+      type: "graphic/update";
+      params: {
+        clipId: string;
+        updates:
+          | Partial<Omit<ShapeClip, "id" | "type">>
+          | Partial<Omit<SVGClip, "id" | "type">>
+          | Partial<Omit<StickerClip, "id" | "type">>;
+      };
+    };
+
+// Marker actions
+export type MarkerAction =
+  | { type: "marker/add"; params: { marker: Marker } }
+  | { type: "marker/remove"; params: { markerId: string } }
+  | {
+      type: "marker/update";
+      params: { markerId: string; updates: Partial<Omit<Marker, "id">> };
+    };
+
+// Multicam actions
+export type MulticamAction =
+  | {
+      type: "multicam/switchAngle";
+      params: { groupId: string; angleId: string; time: number; id?: string };
+    }
+  | {
+      type: "multicam/removeSwitch";
+      params: { groupId: string; switchId: string };
+    }
+  | {
+      type: "multicam/setActiveAngle";
+      params: { groupId: string; angleId: string };
+    };
+
+// Nested sequence actions
+export type NestedSequenceAction =
+  | { type: "sequence/create"; params: { compoundClip: CompoundClip } }
+  | {
+      type: "sequence/update";
+      params: { compoundClipId: string; content: CompoundClipContent };
+    }
+  | {
+      type: "sequence/rename";
+      params: { compoundClipId: string; name: string };
+    }
+  | { type: "sequence/delete"; params: { compoundClipId: string } }
+  | { type: "sequence/addInstance"; params: { instance: CompoundClipInstance } }
+  | { type: "sequence/removeInstance"; params: { instanceId: string } };
 export type TimelineAction =
   | ProjectAction
   | MediaAction
@@ -226,4 +410,13 @@ export type TimelineAction =
   | KeyframeAction
   | TransitionAction
   | AudioAction
-  | SubtitleAction;
+  | MixerAction
+  | SubtitleAction
+  | MaskAction
+  | ColorGradeAction
+  | SpeedAction
+  | TextClipAction
+  | GraphicAction
+  | MarkerAction
+  | MulticamAction
+  | NestedSequenceAction;
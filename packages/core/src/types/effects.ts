@@ -601,6 +601,10 @@ export type AudioEffectType =
   | "reverb"
   | "delay"
   | "noiseReduction"
+  | "deEsser"
+  | "limiter"
+  | "gate"
+  | "pitchShift"
   | "fadeIn"
   | "fadeOut";
 export type TransitionType =
@@ -738,6 +742,27 @@ export interface AudioEffectParams {
     attack: number; // 0 to 100 ms
     release: number; // 0 to 500 ms
   };
+  deEsser: {
+    frequency: number; // 2000 to 12000 Hz, bottom of the sibilance band
+    threshold: number; // -60 to 0 dB
+    range: number; // 0 to 24 dB, most the band is turned down
+  };
+  limiter: {
+    ceiling: number; // -12 to 0 dBTP
+    release: number; // 0.01 to 1 seconds
+    lookahead: number; // 0.001 to 0.02 seconds
+  };
+  gate: {
+    threshold: number; // -80 to 0 dB
+    ratio: number; // 1 to 20, expansion below threshold; 20 acts as a gate
+    range: number; // 0 to 80 dB, most the signal is turned down
+    attack: number; // 0.0001 to 0.1 seconds
+    hold: number; // 0 to 1 seconds
+    release: number; // 0.005 to 2 seconds
+  };
+  pitchShift: {
+    semitones: number; // -12 to 12
+  };
   fadeIn: {
     duration: number; // In seconds
     curve: "linear" | "exponential" | "logarithmic" | "s-curve";
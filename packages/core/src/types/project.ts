@@ -1,6 +1,10 @@
 import type { Timeline } from "./timeline";
 import type { TextClip } from "../text/types";
 import type { ShapeClip, SVGClip, StickerClip } from "../graphics/types";
+import type {
+  ColorManagementSettings,
+  InputColorSpace,
+} from "../video/color-management";
 
 export interface ProjectSettings {
   readonly width: number;
@@ -8,6 +12,7 @@ export interface ProjectSettings {
   readonly frameRate: number;
   readonly sampleRate: number;
   readonly channels: number;
+  readonly colorManagement?: ColorManagementSettings;
 }
 
 export interface Project {
@@ -22,6 +27,7 @@ export interface Project {
   readonly shapeClips?: ShapeClip[];
   readonly svgClips?: SVGClip[];
   readonly stickerClips?: StickerClip[];
+  readonly historyNodeId?: string | null; // Undo history node this state is at
 }
 
 export interface MediaLibrary {
@@ -38,10 +44,21 @@ export interface MediaItem {
   readonly thumbnailUrl: string | null;
   readonly waveformData: Float32Array | null;
   readonly filmstripThumbnails?: FilmstripThumbnail[];
+  readonly markers?: MediaMarker[];
+  readonly colorSpace?: InputColorSpace; // Overrides the project default
   readonly isPlaceholder?: boolean;
   readonly originalUrl?: string;
 }
 
+/** A point in the media's own time, such as a detected shot change */
+export interface MediaMarker {
+  readonly id: string;
+  readonly time: number; // In seconds from the start of the media
+  readonly label: string;
+  readonly kind: "scene-cut";
+  readonly cutType?: "hard" | "soft";
+}
+
 /** Thumbnail for filmstrip display in timeline */
 export interface FilmstripThumbnail {
   readonly timestamp: number;
@@ -1,5 +1,18 @@
 import type { TransitionType } from "./effects";
 import type { EmphasisAnimation } from "../graphics/types";
+import type { Mask } from "../video/mask-engine";
+import type { ClipSpeedData } from "../video/speed-engine";
+import type { ChromaKeySettings } from "../video/chroma-key-engine";
+import type {
+  CornerPinAttachment,
+  PlanarTrackingData,
+  TrackingAttachment,
+  TrackingData,
+} from "../video/motion-tracking-engine";
+import type { MultiCamGroupState } from "../video/multicam-engine";
+import type { ClipStabilization } from "../video/stabilizer";
+import type { PersistedColorGrading } from "../video/color-grading-engine";
+import type { NestedSequenceState } from "../timeline/nested-sequence-engine";
 
 export interface Timeline {
   readonly tracks: Track[];
@@ -8,6 +21,68 @@ export interface Timeline {
   readonly markers: Marker[];
   readonly beatMarkers?: TimelineBeatMarker[];
   readonly beatAnalysis?: TimelineBeatAnalysis;
+  readonly multicamGroups?: MultiCamGroupState[];
+  readonly nestedSequences?: NestedSequenceState;
+  /** Elements that follow a tracked point, keyed by their element id. */
+  readonly trackingAttachments?: TrackingAttachment[];
+  /** Elements corner-pinned to a planar track, keyed by their element id. */
+  readonly cornerPinAttachments?: CornerPinAttachment[];
+  readonly audioMix?: AudioMix;
+}
+
+/**
+ * Mixer routing: tracks feed a submix bus or the master bus and can send
+ * to any bus; every bus feeds the master.
+ */
+export interface AudioMix {
+  readonly buses: AudioBus[];
+  /** Fader, pan and routing per track, keyed by track id. */
+  readonly tracks: Record<string, TrackMix>;
+  readonly master: MasterBus;
+}
+
+export interface AudioBus {
+  readonly id: string;
+  readonly name: string;
+  readonly volume: number; // 0-4
+  readonly pan: number; // -1 to 1
+  readonly muted: boolean;
+  /** Insert chain, ahead of the bus fader. */
+  readonly effects: Effect[];
+  /** Sidechain compressor keyed from another bus, after the inserts. */
+  readonly ducking?: SidechainDucking;
+}
+
+export interface SidechainDucking {
+  readonly enabled: boolean;
+  /** Bus whose output drives the gain reduction, e.g. dialogue. */
+  readonly keyBusId: string;
+  readonly threshold: number; // dB
+  readonly ratio: number;
+  readonly attack: number; // seconds
+  readonly release: number; // seconds
+  /** How far ahead of the key the reduction starts, in seconds. */
+  readonly lookahead: number;
+}
+
+export interface MasterBus {
+  readonly volume: number; // 0-4
+  readonly effects: Effect[];
+}
+
+export interface TrackMix {
+  readonly volume: number; // 0-4
+  readonly pan: number; // -1 to 1
+  /** Bus the track feeds; the master bus when unset. */
+  readonly outputBusId?: string;
+  readonly sends: AudioSend[];
+}
+
+export interface AudioSend {
+  readonly busId: string;
+  readonly level: number; // 0-4
+  /** Tap the track before its fader and pan instead of after. */
+  readonly preFader: boolean;
 }
 
 export interface TimelineBeatMarker {
@@ -59,6 +134,14 @@ export interface Clip {
   readonly speed?: number;
   readonly reversed?: boolean;
   readonly emphasisAnimation?: EmphasisAnimation;
+  // Engine-side state, persisted so reloads, shares and undo keep it
+  readonly masks?: Mask[];
+  readonly speedData?: ClipSpeedData;
+  readonly colorGrade?: PersistedColorGrading;
+  readonly chromaKey?: ChromaKeySettings;
+  readonly motionTracks?: TrackingData[];
+  readonly planarTracks?: PlanarTrackingData[];
+  readonly stabilization?: ClipStabilization;
 }
 
 export interface Effect {
@@ -87,6 +170,19 @@ export interface Transform {
     width: number;
     height: number;
   };
+  /**
+   * Where the source's corners land, in project pixels from the top-left.
+   * When set the clip is warped onto this quad and position, scale,
+   * rotation and anchor are ignored.
+   */
+  readonly cornerPin?: CornerPin;
+}
+
+export interface CornerPin {
+  readonly topLeft: { x: number; y: number };
+  readonly topRight: { x: number; y: number };
+  readonly bottomRight: { x: number; y: number };
+  readonly bottomLeft: { x: number; y: number };
 }
 
 export interface Keyframe {
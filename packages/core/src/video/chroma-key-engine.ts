@@ -1,3 +1,11 @@
+import type { Project } from "../types/project";
+import {
+  getProjectClips,
+  mapProjectClips,
+  withClipState,
+  type ProjectStateEngine,
+} from "../storage/engine-state";
+
 export interface RGB {
   r: number;
   g: number;
@@ -42,7 +50,7 @@ export function createDefaultChromaKeySettings(): ChromaKeySettings {
   return { ...DEFAULT_CHROMA_KEY_SETTINGS };
 }
 
-export class ChromaKeyEngine {
+export class ChromaKeyEngine implements ProjectStateEngine {
   private canvas: OffscreenCanvas;
   private ctx: OffscreenCanvasRenderingContext2D;
   private width: number;
@@ -409,4 +417,19 @@ export class ChromaKeyEngine {
   clearAllSettings(): void {
     this.clipSettings.clear();
   }
+
+  hydrateFromProject(project: Project): void {
+    this.clipSettings.clear();
+    for (const clip of getProjectClips(project)) {
+      if (clip.chromaKey) {
+        this.clipSettings.set(clip.id, structuredClone(clip.chromaKey));
+      }
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    return mapProjectClips(project, (clip) =>
+      withClipState(clip, "chromaKey", this.clipSettings.get(clip.id)),
+    );
+  }
 }
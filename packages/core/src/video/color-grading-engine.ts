@@ -1,4 +1,10 @@
 import type { CurvePoint } from "../types/effects";
+import {
+  transformImage,
+  type ColorPipeline,
+  type GradeProcessor,
+} from "./color-management";
+import { sampleShaper, type CubeLUT, type LUTBakeSize } from "./lut-formats";
 
 export interface ColorWheelValues {
   shadows: { r: number; g: number; b: number };
@@ -26,6 +32,15 @@ export interface LUTData {
   data: Uint8Array;
   size: number;
   intensity: number;
+  /** 1D input shaper from the LUT file; see {@link CubeLUT}. */
+  shaper?: Float32Array;
+}
+
+export interface ColorGradingSettings {
+  colorWheels?: ColorWheelValues;
+  curves?: CurvesValues;
+  lut?: LUTData;
+  hsl?: HSLValues;
 }
 
 export interface WaveformScopeData {
@@ -88,6 +103,51 @@ export const DEFAULT_HSL: HSLValues = {
   luminance: [0, 0, 0, 0, 0, 0, 0, 0],
 };
 
+/**
+ * A clip's grade as stored on the project. LUT tables are plain arrays so
+ * the project survives a JSON round trip.
+ */
+export interface PersistedColorGrading {
+  colorWheels?: ColorWheelValues;
+  curves?: CurvesValues;
+  lut?: { data: number[]; size: number; intensity: number; shaper?: number[] };
+  hsl?: HSLValues;
+}
+
+export function toPersistedColorGrading(
+  settings: ColorGradingSettings,
+): PersistedColorGrading {
+  const { lut, ...rest } = settings;
+  return {
+    ...structuredClone(rest),
+    ...(lut && {
+      lut: {
+        data: Array.from(lut.data),
+        size: lut.size,
+        intensity: lut.intensity,
+        ...(lut.shaper && { shaper: Array.from(lut.shaper) }),
+      },
+    }),
+  };
+}
+
+export function fromPersistedColorGrading(
+  persisted: PersistedColorGrading,
+): ColorGradingSettings {
+  const { lut, ...rest } = persisted;
+  return {
+    ...structuredClone(rest),
+    ...(lut && {
+      lut: {
+        data: new Uint8Array(lut.data),
+        size: lut.size,
+        intensity: lut.intensity,
+        ...(lut.shaper && { shaper: new Float32Array(lut.shaper) }),
+      },
+    }),
+  };
+}
+
 // WebGL2 shaders for color grading
 
 const VERTEX_SHADER = `#version 300 es
@@ -273,6 +333,64 @@ void main() {
 }
 `;
 
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+}
+
+/** Linear interpolation in a table spanning 0 to 1. */
+function sampleTable(table: Float32Array, x: number): number {
+  const position = clamp01(x) * (table.length - 1);
+  const index = Math.min(Math.floor(position), table.length - 2);
+  const frac = position - index;
+  return table[index] * (1 - frac) + table[index + 1] * frac;
+}
+
+/** Position of an input value along a LUT axis, through its shaper. */
+function lutCoordinate(lut: LUTData, value: number, channel: number): number {
+  return lut.shaper ? sampleShaper(lut.shaper, value, channel) : clamp01(value);
+}
+
+/** Trilinear lookup in a 3D LUT, red varying fastest. */
+function sampleLUT(
+  lut: LUTData,
+  r: number,
+  g: number,
+  b: number,
+): [number, number, number] {
+  const max = lut.size - 1;
+  const rIdx = lutCoordinate(lut, r, 0) * max;
+  const gIdx = lutCoordinate(lut, g, 1) * max;
+  const bIdx = lutCoordinate(lut, b, 2) * max;
+  const r0 = Math.floor(rIdx);
+  const g0 = Math.floor(gIdx);
+  const b0 = Math.floor(bIdx);
+  const r1 = Math.min(r0 + 1, max);
+  const g1 = Math.min(g0 + 1, max);
+  const b1 = Math.min(b0 + 1, max);
+  const rf = rIdx - r0;
+  const gf = gIdx - g0;
+  const bf = bIdx - b0;
+  const at = (ri: number, gi: number, bi: number, c: number) =>
+    lut.data[(bi * lut.size * lut.size + gi * lut.size + ri) * 3 + c] / 255;
+
+  const out: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const c00 = at(r0, g0, b0, c) * (1 - rf) + at(r1, g0, b0, c) * rf;
+    const c01 = at(r0, g0, b1, c) * (1 - rf) + at(r1, g0, b1, c) * rf;
+    const c10 = at(r0, g1, b0, c) * (1 - rf) + at(r1, g1, b0, c) * rf;
+    const c11 = at(r0, g1, b1, c) * (1 - rf) + at(r1, g1, b1, c) * rf;
+    const c0 = c00 * (1 - gf) + c10 * gf;
+    const c1 = c01 * (1 - gf) + c11 * gf;
+    out[c] = c0 * (1 - bf) + c1 * bf;
+  }
+  return out;
+}
+
 interface ShaderProgram {
   program: WebGLProgram;
   uniforms: Map<string, WebGLUniformLocation>;
@@ -501,7 +619,17 @@ export class ColorGradingEngine {
   }
 
   private buildCurveLUT(points: CurvePoint[]): Uint8Array {
+    const table = this.buildCurveTable(points, 256);
     const lut = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+      lut[i] = Math.round(Math.max(0, Math.min(255, table[i] * 255)));
+    }
+    return lut;
+  }
+
+  /** Samples a curve at `size` evenly spaced inputs from 0 to 1. */
+  private buildCurveTable(points: CurvePoint[], size: number): Float32Array {
+    const table = new Float32Array(size);
     const sorted = [...points].sort((a, b) => a.x - b.x);
     if (sorted.length === 0 || sorted[0].x > 0) {
       sorted.unshift({ x: 0, y: 0 });
@@ -510,18 +638,17 @@ export class ColorGradingEngine {
       sorted.push({ x: 1, y: 1 });
     }
     if (sorted.length === 2) {
-      for (let i = 0; i < 256; i++) {
-        const x = i / 255;
+      for (let i = 0; i < size; i++) {
+        const x = i / (size - 1);
         const t = (x - sorted[0].x) / (sorted[1].x - sorted[0].x);
-        const y = sorted[0].y + t * (sorted[1].y - sorted[0].y);
-        lut[i] = Math.round(Math.max(0, Math.min(255, y * 255)));
+        table[i] = sorted[0].y + t * (sorted[1].y - sorted[0].y);
       }
-      return lut;
+      return table;
     }
 
     // Catmull-Rom spline interpolation for smooth curves
-    for (let i = 0; i < 256; i++) {
-      const x = i / 255;
+    for (let i = 0; i < size; i++) {
+      const x = i / (size - 1);
       let y = x; // Default to linear
       for (let j = 0; j < sorted.length - 1; j++) {
         if (x >= sorted[j].x && x <= sorted[j + 1].x) {
@@ -545,10 +672,10 @@ export class ColorGradingEngine {
         }
       }
 
-      lut[i] = Math.round(Math.max(0, Math.min(255, y * 255)));
+      table[i] = y;
     }
 
-    return lut;
+    return table;
   }
 
   async applyLUT(
@@ -573,9 +700,9 @@ export class ColorGradingEngine {
       const b = data[i + 2] / 255;
 
       // 3D LUT lookup with full trilinear interpolation
-      const rIdx = r * (lutSize - 1);
-      const gIdx = g * (lutSize - 1);
-      const bIdx = b * (lutSize - 1);
+      const rIdx = lutCoordinate(lut, r, 0) * (lutSize - 1);
+      const gIdx = lutCoordinate(lut, g, 1) * (lutSize - 1);
+      const bIdx = lutCoordinate(lut, b, 2) * (lutSize - 1);
 
       const r0 = Math.floor(rIdx);
       const g0 = Math.floor(gIdx);
@@ -690,6 +817,133 @@ export class ColorGradingEngine {
     };
   }
 
+  /**
+   * Grades through a color pipeline in floating point: the source is taken
+   * to linear, graded in the log grading space and encoded for output,
+   * without the 8-bit round trips between tools.
+   */
+  async applyManagedGrade(
+    image: ImageBitmap,
+    settings: ColorGradingSettings,
+    pipeline: ColorPipeline,
+  ): Promise<ColorGradingResult> {
+    const startTime = performance.now();
+    const result = await transformImage(
+      image,
+      pipeline,
+      this.createGradeProcessor(settings),
+    );
+    return {
+      image: result,
+      processingTime: performance.now() - startTime,
+    };
+  }
+
+  /**
+   * The grade as a per-pixel function on 0-1 RGB: color wheels, curves, LUT
+   * and HSL in the order the bridge applies them. Null when nothing is set.
+   */
+  createGradeProcessor(settings: ColorGradingSettings): GradeProcessor | null {
+    const steps: GradeProcessor[] = [];
+    const { colorWheels, curves, lut, hsl } = settings;
+
+    if (colorWheels) {
+      steps.push((rgb) => {
+        const luma = 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+        const shadowWeight = 1 - smoothstep(0, 0.5, luma);
+        const highlightWeight = smoothstep(0.5, 1, luma);
+        const midtoneWeight = 1 - shadowWeight - highlightWeight;
+        const channels = ["r", "g", "b"] as const;
+        channels.forEach((channel, c) => {
+          let value =
+            rgb[c] +
+            colorWheels.shadows[channel] * shadowWeight +
+            colorWheels.midtones[channel] * midtoneWeight +
+            colorWheels.highlights[channel] * highlightWeight +
+            colorWheels.shadowsLift * shadowWeight;
+          value = Math.pow(Math.max(value, 0), 1 / colorWheels.midtonesGamma);
+          value *= 1 + (colorWheels.highlightsGain - 1) * highlightWeight;
+          rgb[c] = Math.max(0, Math.min(1, value));
+        });
+      });
+    }
+
+    if (curves) {
+      const size = 1024;
+      const master = this.buildCurveTable(curves.rgb, size);
+      const channels = [
+        this.buildCurveTable(curves.red, size),
+        this.buildCurveTable(curves.green, size),
+        this.buildCurveTable(curves.blue, size),
+      ];
+      steps.push((rgb) => {
+        for (let c = 0; c < 3; c++) {
+          rgb[c] = sampleTable(master, sampleTable(channels[c], rgb[c]));
+        }
+      });
+    }
+
+    if (lut) {
+      steps.push((rgb) => {
+        const graded = sampleLUT(lut, rgb[0], rgb[1], rgb[2]);
+        for (let c = 0; c < 3; c++) {
+          rgb[c] = rgb[c] * (1 - lut.intensity) + graded[c] * lut.intensity;
+        }
+      });
+    }
+
+    if (hsl) {
+      steps.push((rgb) => {
+        const color = this.rgbToHsl(
+          clamp01(rgb[0]),
+          clamp01(rgb[1]),
+          clamp01(rgb[2]),
+        );
+        const hueIndex = Math.floor(color.h * 8) % 8;
+        color.h = (color.h + hsl.hue[hueIndex] / 360 + 1) % 1;
+        color.s = clamp01(color.s + hsl.saturation[hueIndex]);
+        color.l = clamp01(color.l + hsl.luminance[hueIndex]);
+        const result = this.hslToRgb(color.h, color.s, color.l);
+        rgb[0] = result.r;
+        rgb[1] = result.g;
+        rgb[2] = result.b;
+      });
+    }
+
+    if (steps.length === 0) return null;
+    return (rgb) => {
+      for (const step of steps) step(rgb);
+    };
+  }
+
+  /**
+   * Samples the whole grade into a 3D LUT so it can be written out for
+   * other tools. Without a grade the result is an identity LUT.
+   */
+  bakeLUT(
+    settings: ColorGradingSettings,
+    size: LUTBakeSize,
+    title?: string,
+  ): CubeLUT {
+    const grade = this.createGradeProcessor(settings);
+    const data = new Float32Array(size ** 3 * 3);
+    const rgb = new Float32Array(3);
+    const max = size - 1;
+
+    for (let b = 0; b < size; b++) {
+      for (let g = 0; g < size; g++) {
+        for (let r = 0; r < size; r++) {
+          rgb[0] = r / max;
+          rgb[1] = g / max;
+          rgb[2] = b / max;
+          grade?.(rgb);
+          data.set(rgb, ((b * size + g) * size + r) * 3);
+        }
+      }
+    }
+    return { size, data, title };
+  }
+
   async generateWaveform(image: ImageBitmap): Promise<WaveformScopeData> {
     const canvas = new OffscreenCanvas(image.width, image.height);
     const ctx = canvas.getContext("2d")!;
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_COLOR_MANAGEMENT,
+  applyColorTransform,
+  createColorPipeline,
+  decodeTransfer,
+  encodeTransfer,
+  inferColorSpace,
+  primariesConversionMatrix,
+  processPixels,
+  type TransferFunction,
+} from "./color-management";
+import { ColorGradingEngine } from "./color-grading-engine";
+
+const SETTINGS = { ...DEFAULT_COLOR_MANAGEMENT, enabled: true };
+
+const pixels = (...colors: [number, number, number][]) =>
+  new Uint8ClampedArray(colors.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe("transfer functions", () => {
+  it("should round trip every transfer", () => {
+    const transfers: TransferFunction[] = [
+      "linear",
+      "srgb",
+      "bt1886",
+      "pq",
+      "hlg",
+      "slog3",
+      "vlog",
+      "acescct",
+    ];
+    for (const transfer of transfers) {
+      for (const linear of [0, 0.01, 0.18, 0.5, 1, 3]) {
+        const signal = encodeTransfer(transfer, linear);
+        expect(decodeTransfer(transfer, signal)).toBeCloseTo(linear, 4);
+      }
+    }
+  });
+
+  it("should match published reference points", () => {
+    // 100 nits in PQ, with 203 nits as reference white
+    expect(encodeTransfer("pq", 100 / 203)).toBeCloseTo(0.5081, 3);
+    // S-Log3 middle grey is code value 420 of 1023
+    expect(decodeTransfer("slog3", 420 / 1023)).toBeCloseTo(0.18, 3);
+  });
+});
+
+describe("primariesConversionMatrix", () => {
+  it("should match the published conversion matrices", () => {
+    const toRec2020 = primariesConversionMatrix("rec709", "rec2020");
+    expect(toRec2020[0]).toBeCloseTo(0.6274, 3);
+    expect(toRec2020[1]).toBeCloseTo(0.3293, 3);
+    expect(toRec2020[2]).toBeCloseTo(0.0433, 3);
+
+    const fromAcescg = primariesConversionMatrix("ap1", "rec709");
+    expect(fromAcescg[0]).toBeCloseTo(1.7051, 3);
+    expect(fromAcescg[1]).toBeCloseTo(-0.6218, 3);
+    expect(fromAcescg[2]).toBeCloseTo(-0.0833, 3);
+  });
+});
+
+describe("processPixels", () => {
+  it("should leave Rec.709 unchanged through an ACEScg working space", () => {
+    const colors: [number, number, number][] = [];
+    for (let v = 0; v < 256; v += 5) colors.push([v, v, v]);
+    colors.push([200, 40, 10], [12, 180, 90], [30, 60, 240]);
+    const data = pixels(...colors);
+    const original = data.slice();
+
+    processPixels(data, createColorPipeline("rec709", SETTINGS));
+    for (let i = 0; i < data.length; i++) {
+      expect(Math.abs(data[i] - original[i])).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("should bring S-Log3 middle grey to Rec.709 middle grey", () => {
+    const code = Math.round((420 / 1023) * 255);
+    const data = pixels([code, code, code]);
+    processPixels(data, createColorPipeline("slog3", SETTINGS));
+
+    const expected = encodeTransfer("bt1886", 0.18) * 255;
+    expect(Math.abs(data[0] - expected)).toBeLessThanOrEqual(2);
+    expect(data[1]).toBe(data[0]);
+    expect(data[2]).toBe(data[0]);
+  });
+
+  it("should roll off HDR highlights for an SDR output", () => {
+    const { output } = createColorPipeline("rec2020-pq", {
+      ...SETTINGS,
+      workingSpace: "linear-rec709",
+    });
+    const light = (nits: number) => {
+      const rgb = new Float32Array(3).fill(nits / 203);
+      applyColorTransform(output, rgb);
+      return rgb[0];
+    };
+    expect(light(100)).toBeCloseTo(encodeTransfer("bt1886", 100 / 203), 6);
+    expect(light(400)).toBeLessThan(light(600));
+    expect(light(600)).toBeLessThan(light(900));
+    expect(light(900)).toBeLessThan(1);
+    expect(light(1000)).toBeCloseTo(1, 6);
+
+    const untouched = createColorPipeline("rec709", SETTINGS);
+    expect(untouched.output.toneMap).toBe(false);
+  });
+});
+
+describe("inferColorSpace", () => {
+  it("should read HDR and SDR container tags", () => {
+    expect(inferColorSpace({ primaries: "bt2020", transfer: "pq" })).toBe(
+      "rec2020-pq",
+    );
+    expect(inferColorSpace({ primaries: "bt2020", transfer: "hlg" })).toBe(
+      "rec2020-hlg",
+    );
+    expect(inferColorSpace({ primaries: "bt709", transfer: "bt709" })).toBe(
+      "rec709",
+    );
+    expect(inferColorSpace({})).toBeUndefined();
+  });
+});
+
+describe("ColorGradingEngine.createGradeProcessor", () => {
+  it("should return null without a grade and pass a neutral grade through", () => {
+    const engine = new ColorGradingEngine();
+    expect(engine.createGradeProcessor({})).toBeNull();
+
+    const identity = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ];
+    const grade = engine.createGradeProcessor({
+      colorWheels: {
+        shadows: { r: 0, g: 0, b: 0 },
+        midtones: { r: 0, g: 0, b: 0 },
+        highlights: { r: 0, g: 0, b: 0 },
+        shadowsLift: 0,
+        midtonesGamma: 1,
+        highlightsGain: 1,
+      },
+      curves: { rgb: identity, red: identity, green: identity, blue: identity },
+      hsl: {
+        hue: new Array(8).fill(0),
+        saturation: new Array(8).fill(0),
+        luminance: new Array(8).fill(0),
+      },
+    })!;
+
+    for (const color of [
+      [0.1, 0.2, 0.3],
+      [0.5, 0.5, 0.5],
+      [0.9, 0.4, 0.05],
+    ]) {
+      const rgb = Float32Array.from(color);
+      grade(rgb);
+      for (let c = 0; c < 3; c++) expect(rgb[c]).toBeCloseTo(color[c], 4);
+    }
+  });
+
+  it("should grade in log space between the input and output transforms", () => {
+    const engine = new ColorGradingEngine();
+    const lift = [
+      { x: 0, y: 0.1 },
+      { x: 1, y: 1 },
+    ];
+    const flat = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ];
+    const grade = engine.createGradeProcessor({
+      curves: { rgb: lift, red: flat, green: flat, blue: flat },
+    });
+
+    const data = pixels([0, 0, 0], [255, 255, 255]);
+    processPixels(data, createColorPipeline("rec709", SETTINGS), grade);
+    expect(data[0]).toBeGreaterThan(0);
+    expect(data[4]).toBe(255);
+  });
+});
@@ -0,0 +1,627 @@
+/**
+ * Scene-linear color management in the spirit of ACES and OCIO. Each piece
+ * of media is decoded from its own encoding into a linear working space,
+ * graded there through a log shaper, and encoded for the chosen output.
+ * Linear 1.0 is SDR reference white: 100% of a Rec.709 signal, 203 nits in
+ * PQ, 75% of an HLG signal.
+ */
+
+export type TransferFunction =
+  "linear" | "srgb" | "bt1886" | "pq" | "hlg" | "slog3" | "vlog" | "acescct";
+
+export type ColorPrimaries =
+  "rec709" | "rec2020" | "sgamut3cine" | "vgamut" | "ap1";
+
+export type InputColorSpace =
+  | "srgb"
+  | "rec709"
+  | "rec2020"
+  | "rec2020-pq"
+  | "rec2020-hlg"
+  | "slog3"
+  | "vlog";
+
+export type WorkingColorSpace = "acescg" | "linear-rec709";
+
+export type OutputColorSpace =
+  "srgb" | "rec709" | "rec2020" | "rec2020-pq" | "rec2020-hlg";
+
+export type ColorSpaceId = InputColorSpace | WorkingColorSpace;
+
+export interface ColorSpaceInfo {
+  id: ColorSpaceId;
+  name: string;
+  primaries: ColorPrimaries;
+  transfer: TransferFunction;
+  /** Holds values above reference white, so SDR output needs tone mapping. */
+  highDynamicRange: boolean;
+}
+
+export const COLOR_SPACES: Record<ColorSpaceId, ColorSpaceInfo> = {
+  srgb: {
+    id: "srgb",
+    name: "sRGB",
+    primaries: "rec709",
+    transfer: "srgb",
+    highDynamicRange: false,
+  },
+  rec709: {
+    id: "rec709",
+    name: "Rec.709",
+    primaries: "rec709",
+    transfer: "bt1886",
+    highDynamicRange: false,
+  },
+  rec2020: {
+    id: "rec2020",
+    name: "Rec.2020",
+    primaries: "rec2020",
+    transfer: "bt1886",
+    highDynamicRange: false,
+  },
+  "rec2020-pq": {
+    id: "rec2020-pq",
+    name: "Rec.2020 PQ",
+    primaries: "rec2020",
+    transfer: "pq",
+    highDynamicRange: true,
+  },
+  "rec2020-hlg": {
+    id: "rec2020-hlg",
+    name: "Rec.2020 HLG",
+    primaries: "rec2020",
+    transfer: "hlg",
+    highDynamicRange: true,
+  },
+  slog3: {
+    id: "slog3",
+    name: "S-Log3 / S-Gamut3.Cine",
+    primaries: "sgamut3cine",
+    transfer: "slog3",
+    highDynamicRange: true,
+  },
+  vlog: {
+    id: "vlog",
+    name: "V-Log / V-Gamut",
+    primaries: "vgamut",
+    transfer: "vlog",
+    highDynamicRange: true,
+  },
+  acescg: {
+    id: "acescg",
+    name: "ACEScg",
+    primaries: "ap1",
+    transfer: "linear",
+    highDynamicRange: true,
+  },
+  "linear-rec709": {
+    id: "linear-rec709",
+    name: "Linear Rec.709",
+    primaries: "rec709",
+    transfer: "linear",
+    highDynamicRange: true,
+  },
+};
+
+export const INPUT_COLOR_SPACES: InputColorSpace[] = [
+  "rec709",
+  "srgb",
+  "rec2020",
+  "rec2020-pq",
+  "rec2020-hlg",
+  "slog3",
+  "vlog",
+];
+
+export const WORKING_COLOR_SPACES: WorkingColorSpace[] = [
+  "acescg",
+  "linear-rec709",
+];
+
+export const OUTPUT_COLOR_SPACES: OutputColorSpace[] = [
+  "rec709",
+  "srgb",
+  "rec2020",
+  "rec2020-pq",
+  "rec2020-hlg",
+];
+
+export interface ColorManagementSettings {
+  enabled: boolean;
+  workingSpace: WorkingColorSpace;
+  outputSpace: OutputColorSpace;
+  /** Assumed for video that has no color space of its own set. */
+  defaultInputSpace: InputColorSpace;
+  /** Roll off highlights when HDR or log sources go to an SDR output. */
+  toneMapping: boolean;
+}
+
+export const DEFAULT_COLOR_MANAGEMENT: ColorManagementSettings = {
+  enabled: false,
+  workingSpace: "acescg",
+  outputSpace: "rec709",
+  defaultInputSpace: "rec709",
+  toneMapping: true,
+};
+
+// Transfer functions
+
+const PQ_M1 = 2610 / 16384;
+const PQ_M2 = (2523 / 4096) * 128;
+const PQ_C1 = 3424 / 4096;
+const PQ_C2 = (2413 / 4096) * 32;
+const PQ_C3 = (2392 / 4096) * 32;
+/** BT.2408 reference white, in nits. */
+const PQ_REFERENCE_WHITE = 203;
+const PQ_PEAK = 10000;
+
+const HLG_A = 0.17883277;
+const HLG_B = 1 - 4 * HLG_A;
+const HLG_C = 0.5 - HLG_A * Math.log(4 * HLG_A);
+
+function hlgInverseOetf(v: number): number {
+  return v <= 0.5 ? (v * v) / 3 : (Math.exp((v - HLG_C) / HLG_A) + HLG_B) / 12;
+}
+
+function hlgOetf(e: number): number {
+  return e <= 1 / 12
+    ? Math.sqrt(3 * e)
+    : HLG_A * Math.log(12 * e - HLG_B) + HLG_C;
+}
+
+/** Scene light of a 75% HLG signal, which is mapped to reference white. */
+const HLG_REFERENCE_WHITE = hlgInverseOetf(0.75);
+
+const SLOG3_CUT = 171.2102946929 / 1023;
+const VLOG_B = 0.00873;
+const VLOG_C = 0.241514;
+const VLOG_D = 0.598206;
+const ACESCCT_CUT = 0.155251141552511;
+const ACESCCT_A = 10.5402377416545;
+const ACESCCT_B = 0.0729055341958355;
+
+/** Encoded signal to linear light. */
+export function decodeTransfer(transfer: TransferFunction, v: number): number {
+  switch (transfer) {
+    case "linear":
+      return v;
+    case "srgb":
+      return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    case "bt1886":
+      return Math.pow(Math.max(v, 0), 2.4);
+    case "pq": {
+      const n = Math.pow(Math.max(v, 0), 1 / PQ_M2);
+      const l = Math.max(n - PQ_C1, 0) / (PQ_C2 - PQ_C3 * n);
+      return (Math.pow(l, 1 / PQ_M1) * PQ_PEAK) / PQ_REFERENCE_WHITE;
+    }
+    case "hlg":
+      return hlgInverseOetf(Math.max(v, 0)) / HLG_REFERENCE_WHITE;
+    case "slog3":
+      return v >= SLOG3_CUT
+        ? Math.pow(10, (v * 1023 - 420) / 261.5) * 0.19 - 0.01
+        : ((v * 1023 - 95) * 0.01125) / (171.2102946929 - 95);
+    case "vlog":
+      return v < 0.181
+        ? (v - 0.125) / 5.6
+        : Math.pow(10, (v - VLOG_D) / VLOG_C) - VLOG_B;
+    case "acescct":
+      return v <= ACESCCT_CUT
+        ? (v - ACESCCT_B) / ACESCCT_A
+        : Math.pow(2, v * 17.52 - 9.72);
+  }
+}
+
+/** Linear light to encoded signal. */
+export function encodeTransfer(transfer: TransferFunction, v: number): number {
+  switch (transfer) {
+    case "linear":
+      return v;
+    case "srgb":
+      return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+    case "bt1886":
+      return Math.pow(Math.max(v, 0), 1 / 2.4);
+    case "pq": {
+      const y = Math.min(Math.max((v * PQ_REFERENCE_WHITE) / PQ_PEAK, 0), 1);
+      const p = Math.pow(y, PQ_M1);
+      return Math.pow((PQ_C1 + PQ_C2 * p) / (1 + PQ_C3 * p), PQ_M2);
+    }
+    case "hlg":
+      return hlgOetf(Math.min(Math.max(v * HLG_REFERENCE_WHITE, 0), 1));
+    case "slog3":
+      return v >= 0.01125
+        ? (420 + Math.log10((v + 0.01) / 0.19) * 261.5) / 1023
+        : ((v * (171.2102946929 - 95)) / 0.01125 + 95) / 1023;
+    case "vlog":
+      return v < 0.01
+        ? 5.6 * v + 0.125
+        : VLOG_C * Math.log10(v + VLOG_B) + VLOG_D;
+    case "acescct":
+      return v <= 0.0078125
+        ? ACESCCT_A * v + ACESCCT_B
+        : (Math.log2(v) + 9.72) / 17.52;
+  }
+}
+
+// Gamut conversion
+
+/** Row-major 3x3 matrix. */
+export type Matrix3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+type Chromaticity = [x: number, y: number];
+
+const D65: Chromaticity = [0.3127, 0.329];
+const ACES_WHITE: Chromaticity = [0.32168, 0.33767];
+
+const PRIMARIES: Record<
+  ColorPrimaries,
+  {
+    red: Chromaticity;
+    green: Chromaticity;
+    blue: Chromaticity;
+    white: Chromaticity;
+  }
+> = {
+  rec709: {
+    red: [0.64, 0.33],
+    green: [0.3, 0.6],
+    blue: [0.15, 0.06],
+    white: D65,
+  },
+  rec2020: {
+    red: [0.708, 0.292],
+    green: [0.17, 0.797],
+    blue: [0.131, 0.046],
+    white: D65,
+  },
+  sgamut3cine: {
+    red: [0.766, 0.275],
+    green: [0.225, 0.8],
+    blue: [0.089, -0.087],
+    white: D65,
+  },
+  vgamut: {
+    red: [0.73, 0.28],
+    green: [0.165, 0.84],
+    blue: [0.1, -0.03],
+    white: D65,
+  },
+  ap1: {
+    red: [0.713, 0.293],
+    green: [0.165, 0.83],
+    blue: [0.128, 0.044],
+    white: ACES_WHITE,
+  },
+};
+
+const BRADFORD: Matrix3 = [
+  0.8951, 0.2664, -0.1614, -0.7502, 1.7135, 0.0367, 0.0389, -0.0685, 1.0296,
+];
+
+export const IDENTITY_MATRIX: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  const out = new Array(9).fill(0) as Matrix3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        out[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return out;
+}
+
+export function invertMatrix(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) {
+    throw new Error("Matrix is not invertible");
+  }
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+function applyMatrix(
+  m: Matrix3,
+  x: number,
+  y: number,
+  z: number,
+): [number, number, number] {
+  return [
+    m[0] * x + m[1] * y + m[2] * z,
+    m[3] * x + m[4] * y + m[5] * z,
+    m[6] * x + m[7] * y + m[8] * z,
+  ];
+}
+
+function toXYZ([x, y]: Chromaticity): [number, number, number] {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+/** RGB to CIE XYZ for a set of primaries, normalized so white has Y = 1. */
+export function rgbToXyzMatrix(primaries: ColorPrimaries): Matrix3 {
+  const { red, green, blue, white } = PRIMARIES[primaries];
+  const [rx, ry, rz] = toXYZ(red);
+  const [gx, gy, gz] = toXYZ(green);
+  const [bx, by, bz] = toXYZ(blue);
+  const columns: Matrix3 = [rx, gx, bx, ry, gy, by, rz, gz, bz];
+  const [wx, wy, wz] = toXYZ(white);
+  const [sr, sg, sb] = applyMatrix(invertMatrix(columns), wx, wy, wz);
+  return [
+    rx * sr,
+    gx * sg,
+    bx * sb,
+    ry * sr,
+    gy * sg,
+    by * sb,
+    rz * sr,
+    gz * sg,
+    bz * sb,
+  ];
+}
+
+/** Bradford chromatic adaptation between two white points, in XYZ. */
+function adaptationMatrix(from: Chromaticity, to: Chromaticity): Matrix3 {
+  if (from[0] === to[0] && from[1] === to[1]) return IDENTITY_MATRIX;
+  const [fx, fy, fz] = toXYZ(from);
+  const [tx, ty, tz] = toXYZ(to);
+  const [fr, fg, fb] = applyMatrix(BRADFORD, fx, fy, fz);
+  const [tr, tg, tb] = applyMatrix(BRADFORD, tx, ty, tz);
+  const scale: Matrix3 = [tr / fr, 0, 0, 0, tg / fg, 0, 0, 0, tb / fb];
+  return multiplyMatrices(
+    invertMatrix(BRADFORD),
+    multiplyMatrices(scale, BRADFORD),
+  );
+}
+
+/** Linear RGB in one set of primaries to linear RGB in another. */
+export function primariesConversionMatrix(
+  from: ColorPrimaries,
+  to: ColorPrimaries,
+): Matrix3 {
+  if (from === to) return IDENTITY_MATRIX;
+  const adapt = adaptationMatrix(PRIMARIES[from].white, PRIMARIES[to].white);
+  return multiplyMatrices(
+    invertMatrix(rgbToXyzMatrix(to)),
+    multiplyMatrices(adapt, rgbToXyzMatrix(from)),
+  );
+}
+
+// Transforms
+
+export interface ColorTransform {
+  decode: TransferFunction;
+  matrix: Matrix3;
+  encode: TransferFunction;
+  /** Roll highlights off below 1.0 before encoding. */
+  toneMap: boolean;
+}
+
+export interface ColorPipeline {
+  /** Source signal to linear working space. */
+  input: ColorTransform;
+  /** Linear working space to output signal. */
+  output: ColorTransform;
+}
+
+export function createInputTransform(
+  input: ColorSpaceId,
+  working: WorkingColorSpace,
+): ColorTransform {
+  const source = COLOR_SPACES[input];
+  return {
+    decode: source.transfer,
+    matrix: primariesConversionMatrix(
+      source.primaries,
+      COLOR_SPACES[working].primaries,
+    ),
+    encode: "linear",
+    toneMap: false,
+  };
+}
+
+export function createOutputTransform(
+  working: WorkingColorSpace,
+  output: OutputColorSpace,
+  toneMap: boolean,
+): ColorTransform {
+  const target = COLOR_SPACES[output];
+  return {
+    decode: "linear",
+    matrix: primariesConversionMatrix(
+      COLOR_SPACES[working].primaries,
+      target.primaries,
+    ),
+    encode: target.transfer,
+    toneMap: toneMap && !target.highDynamicRange,
+  };
+}
+
+/**
+ * The transforms for one source. Tone mapping only applies when the source
+ * can exceed reference white and the output cannot, so SDR material passes
+ * through an SDR project untouched.
+ */
+export function createColorPipeline(
+  input: InputColorSpace,
+  settings: ColorManagementSettings,
+  output: OutputColorSpace = settings.outputSpace,
+): ColorPipeline {
+  return {
+    input: createInputTransform(input, settings.workingSpace),
+    output: createOutputTransform(
+      settings.workingSpace,
+      output,
+      settings.toneMapping && COLOR_SPACES[input].highDynamicRange,
+    ),
+  };
+}
+
+/**
+ * Whether a source comes out of the pipeline unchanged: the input
+ * transform into the working space is undone exactly by the output one.
+ */
+export function isColorPipelineIdentity(
+  input: InputColorSpace,
+  settings: ColorManagementSettings,
+): boolean {
+  return !settings.enabled || input === settings.outputSpace;
+}
+
+/** The space a media item's pixels are encoded in. */
+export function getMediaColorSpace(
+  media: { type: string; colorSpace?: InputColorSpace },
+  settings: ColorManagementSettings,
+): InputColorSpace {
+  if (media.colorSpace) return media.colorSpace;
+  return media.type === "image" ? "srgb" : settings.defaultInputSpace;
+}
+
+/** Container color tags, as in `VideoColorSpaceInit`. */
+export interface ColorTags {
+  primaries?: string | null;
+  transfer?: string | null;
+}
+
+/**
+ * Best guess at an input space from container color tags. Log footage is
+ * usually tagged as Rec.709, so it has to be chosen by hand.
+ */
+export function inferColorSpace(
+  init: ColorTags | null | undefined,
+): InputColorSpace | undefined {
+  if (!init) return undefined;
+  if (init.transfer === "pq") return "rec2020-pq";
+  if (init.transfer === "hlg") return "rec2020-hlg";
+  if (init.primaries === "bt2020") return "rec2020";
+  if (init.primaries === "bt709" || init.transfer === "bt709") return "rec709";
+  if (init.transfer === "iec61966-2-1") return "srgb";
+  return undefined;
+}
+
+/** Shoulder start for the highlight roll-off, in linear output light. */
+const TONE_MAP_KNEE = 0.8;
+/** Brightest highlight kept distinct: 1000 nits, the usual HDR grade peak. */
+const TONE_MAP_PEAK = 1000 / PQ_REFERENCE_WHITE;
+
+/**
+ * Compresses everything from the knee up to the peak into the remaining
+ * headroom, scaling all three channels together so hues hold. The curve
+ * leaves the knee at slope one and reaches white exactly at the peak.
+ */
+function toneMap(rgb: Float32Array): void {
+  const peak = Math.max(rgb[0], rgb[1], rgb[2]);
+  if (peak <= TONE_MAP_KNEE) return;
+  const room = 1 - TONE_MAP_KNEE;
+  const x =
+    Math.min(peak - TONE_MAP_KNEE, TONE_MAP_PEAK - TONE_MAP_KNEE) / room;
+  const white = (TONE_MAP_PEAK - TONE_MAP_KNEE) / room;
+  const mapped =
+    TONE_MAP_KNEE + (room * x * (1 + x / (white * white))) / (1 + x);
+  const scale = mapped / peak;
+  rgb[0] *= scale;
+  rgb[1] *= scale;
+  rgb[2] *= scale;
+}
+
+/** Runs one transform in place on a linear or encoded RGB triple. */
+export function applyColorTransform(
+  transform: ColorTransform,
+  rgb: Float32Array,
+): void {
+  const r = decodeTransfer(transform.decode, rgb[0]);
+  const g = decodeTransfer(transform.decode, rgb[1]);
+  const b = decodeTransfer(transform.decode, rgb[2]);
+  const m = transform.matrix;
+  rgb[0] = m[0] * r + m[1] * g + m[2] * b;
+  rgb[1] = m[3] * r + m[4] * g + m[5] * b;
+  rgb[2] = m[6] * r + m[7] * g + m[8] * b;
+  if (transform.toneMap) toneMap(rgb);
+  rgb[0] = encodeTransfer(transform.encode, rgb[0]);
+  rgb[1] = encodeTransfer(transform.encode, rgb[1]);
+  rgb[2] = encodeTransfer(transform.encode, rgb[2]);
+}
+
+/**
+ * Grades work on log-encoded values, as colorists expect from ACEScct:
+ * wheels, curves and LUTs then behave alike across exposure.
+ */
+export const GRADING_TRANSFER: TransferFunction = "acescct";
+
+/** Grade callback: receives grading-space RGB and edits it in place. */
+export type GradeProcessor = (rgb: Float32Array) => void;
+
+/**
+ * Runs 8-bit RGBA pixels through a pipeline in floating point, with an
+ * optional grade applied in the log grading space between input and output.
+ */
+export function processPixels(
+  data: Uint8ClampedArray,
+  pipeline: ColorPipeline,
+  grade?: GradeProcessor | null,
+): void {
+  const decodeTable = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    decodeTable[i] = decodeTransfer(pipeline.input.decode, i / 255);
+  }
+  const input: ColorTransform = { ...pipeline.input, decode: "linear" };
+  const rgb = new Float32Array(3);
+
+  for (let i = 0; i < data.length; i += 4) {
+    rgb[0] = decodeTable[data[i]];
+    rgb[1] = decodeTable[data[i + 1]];
+    rgb[2] = decodeTable[data[i + 2]];
+    applyColorTransform(input, rgb);
+    if (grade) {
+      for (let c = 0; c < 3; c++) {
+        rgb[c] = encodeTransfer(GRADING_TRANSFER, rgb[c]);
+      }
+      grade(rgb);
+      for (let c = 0; c < 3; c++) {
+        rgb[c] = decodeTransfer(GRADING_TRANSFER, rgb[c]);
+      }
+    }
+    applyColorTransform(pipeline.output, rgb);
+    // Clamped arrays round to the nearest code value on write
+    data[i] = rgb[0] * 255;
+    data[i + 1] = rgb[1] * 255;
+    data[i + 2] = rgb[2] * 255;
+  }
+}
+
+/** Renders a bitmap through a pipeline, returning a new bitmap. */
+export async function transformImage(
+  image: ImageBitmap,
+  pipeline: ColorPipeline,
+  grade?: GradeProcessor | null,
+): Promise<ImageBitmap> {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Failed to get 2D context for color management");
+  }
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, image.width, image.height);
+  processPixels(imageData.data, pipeline, grade);
+  ctx.putImageData(imageData, 0, 0);
+  return createImageBitmap(canvas);
+}
@@ -0,0 +1,266 @@
+import type { CornerPin, Keyframe } from "../types/timeline";
+import { keyframeEngine } from "./keyframe-engine";
+import {
+  applyHomography,
+  solveHomography,
+  type Homography,
+  type HomographyPoint,
+} from "./homography";
+
+export const CORNER_PIN_CORNERS = [
+  "topLeft",
+  "topRight",
+  "bottomRight",
+  "bottomLeft",
+] as const;
+
+export type CornerPinCorner = (typeof CORNER_PIN_CORNERS)[number];
+
+/** Keyframe properties animating a corner pin, e.g. `cornerPin.topLeft.x`. */
+export const CORNER_PIN_PROPERTIES = CORNER_PIN_CORNERS.flatMap((corner) => [
+  `cornerPin.${corner}.x`,
+  `cornerPin.${corner}.y`,
+]);
+
+export interface SourceRect {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * The subset of a 2D context needed to warp an image onto a quad.
+ * OffscreenCanvasRenderingContext2D and the headless renderer's context
+ * both satisfy it.
+ */
+export interface CornerPinContext<TImage> {
+  save(): void;
+  restore(): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  clip(): void;
+  transform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number,
+  ): void;
+  drawImage(
+    image: TImage,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number,
+  ): void;
+}
+
+/** Corners in top-left, top-right, bottom-right, bottom-left order. */
+export function cornerPinToPoints(pin: CornerPin): HomographyPoint[] {
+  return CORNER_PIN_CORNERS.map((corner) => ({ ...pin[corner] }));
+}
+
+export function pointsToCornerPin(
+  points: readonly HomographyPoint[],
+): CornerPin {
+  if (points.length !== 4) {
+    throw new Error(`Corner pin needs 4 points, got ${points.length}`);
+  }
+  return {
+    topLeft: { x: points[0].x, y: points[0].y },
+    topRight: { x: points[1].x, y: points[1].y },
+    bottomRight: { x: points[2].x, y: points[2].y },
+    bottomLeft: { x: points[3].x, y: points[3].y },
+  };
+}
+
+export function scaleCornerPin(
+  pin: CornerPin,
+  scaleX: number,
+  scaleY: number,
+): CornerPin {
+  return pointsToCornerPin(
+    cornerPinToPoints(pin).map((p) => ({ x: p.x * scaleX, y: p.y * scaleY })),
+  );
+}
+
+/** Homography taking the source rectangle onto the pinned quad. */
+export function getCornerPinHomography(
+  source: SourceRect,
+  pin: CornerPin,
+): Homography | null {
+  return solveHomography(
+    [
+      { x: source.x, y: source.y },
+      { x: source.x + source.width, y: source.y },
+      { x: source.x + source.width, y: source.y + source.height },
+      { x: source.x, y: source.y + source.height },
+    ],
+    cornerPinToPoints(pin),
+  );
+}
+
+/**
+ * Resolves `cornerPin.*` keyframes at a clip-local time. Corners without
+ * keyframes keep their value from `base`; returns undefined when the clip
+ * has neither a static pin nor any pin keyframes.
+ */
+export function getAnimatedCornerPin(
+  base: CornerPin | undefined,
+  keyframes: readonly Keyframe[],
+  localTime: number,
+): CornerPin | undefined {
+  const animated = keyframes.some((kf) =>
+    kf.property.startsWith("cornerPin."),
+  );
+  if (!animated) return base;
+
+  const points = base
+    ? cornerPinToPoints(base)
+    : CORNER_PIN_CORNERS.map(() => ({ x: 0, y: 0 }));
+  CORNER_PIN_CORNERS.forEach((corner, index) => {
+    for (const axis of ["x", "y"] as const) {
+      const propertyKeyframes = keyframeEngine.getKeyframesForProperty(
+        [...keyframes],
+        `cornerPin.${corner}.${axis}`,
+      );
+      if (propertyKeyframes.length === 0) continue;
+      const result = keyframeEngine.getValueAtTime(
+        propertyKeyframes,
+        localTime,
+      );
+      if (typeof result.value === "number") {
+        points[index] = { ...points[index], [axis]: result.value };
+      }
+    }
+  });
+  return pointsToCornerPin(points);
+}
+
+/** Grows a triangle away from its centroid so neighbours overlap slightly. */
+function expandTriangle(
+  points: readonly HomographyPoint[],
+  amount: number,
+): HomographyPoint[] {
+  const cx = (points[0].x + points[1].x + points[2].x) / 3;
+  const cy = (points[0].y + points[1].y + points[2].y) / 3;
+  return points.map((p) => {
+    const length = Math.hypot(p.x - cx, p.y - cy);
+    if (length === 0) return p;
+    const grow = (length + amount) / length;
+    return { x: cx + (p.x - cx) * grow, y: cy + (p.y - cy) * grow };
+  });
+}
+
+function drawTriangle<TImage>(
+  ctx: CornerPinContext<TImage>,
+  image: TImage,
+  source: SourceRect,
+  from: readonly HomographyPoint[],
+  to: readonly HomographyPoint[],
+): void {
+  const [s0, s1, s2] = from;
+  const [d0, d1, d2] = to;
+  const denominator =
+    (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+  if (Math.abs(denominator) < 1e-9) return;
+
+  const a =
+    ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) /
+    denominator;
+  const b =
+    ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) /
+    denominator;
+  const c =
+    ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) /
+    denominator;
+  const d =
+    ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) /
+    denominator;
+
+  const clipPath = expandTriangle(to, 0.5);
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(clipPath[0].x, clipPath[0].y);
+  ctx.lineTo(clipPath[1].x, clipPath[1].y);
+  ctx.lineTo(clipPath[2].x, clipPath[2].y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(
+    a,
+    b,
+    c,
+    d,
+    d0.x - a * s0.x - c * s0.y,
+    d0.y - b * s0.x - d * s0.y,
+  );
+  ctx.drawImage(
+    image,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+  );
+  ctx.restore();
+}
+
+/**
+ * Draws `source` from `image` warped onto the pinned quad. Canvas 2D only
+ * does affine transforms, so the quad is split into a grid of triangles
+ * that each get the affine closest to the true projective warp; more
+ * subdivisions trade speed for accuracy on strong perspective.
+ */
+export function drawImageCornerPin<TImage>(
+  ctx: CornerPinContext<TImage>,
+  image: TImage,
+  source: SourceRect,
+  pin: CornerPin,
+  subdivisions = 8,
+): void {
+  const homography = getCornerPinHomography(source, pin);
+  if (!homography) return;
+
+  const steps = Math.max(1, Math.round(subdivisions));
+  const sourcePoint = (i: number, j: number): HomographyPoint => ({
+    x: source.x + (source.width * i) / steps,
+    y: source.y + (source.height * j) / steps,
+  });
+  const grid: HomographyPoint[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    grid.push([]);
+    for (let j = 0; j <= steps; j++) {
+      grid[i].push(applyHomography(homography, sourcePoint(i, j)));
+    }
+  }
+
+  for (let i = 0; i < steps; i++) {
+    for (let j = 0; j < steps; j++) {
+      const s00 = sourcePoint(i, j);
+      const s10 = sourcePoint(i + 1, j);
+      const s11 = sourcePoint(i + 1, j + 1);
+      const s01 = sourcePoint(i, j + 1);
+      drawTriangle(ctx, image, source, [s00, s10, s11], [
+        grid[i][j],
+        grid[i + 1][j],
+        grid[i + 1][j + 1],
+      ]);
+      drawTriangle(ctx, image, source, [s00, s11, s01], [
+        grid[i][j],
+        grid[i + 1][j + 1],
+        grid[i][j + 1],
+      ]);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  blendFrames,
+  estimateOpticalFlow,
+  interpolateFrames,
+  interpolateFramesOpticalFlow,
+  type InterpolationFrame,
+} from "./frame-interpolation";
+
+const WIDTH = 96;
+const HEIGHT = 64;
+
+const texture = (x: number, y: number): number =>
+  128 +
+  40 * Math.sin(x * 0.31) * Math.cos(y * 0.23) +
+  30 * Math.sin((x + 2 * y) * 0.17) +
+  25 * Math.cos(x * 0.53 - y * 0.41);
+
+/** Content shifted `offset` pixels right and half that down. */
+const renderFrame = (offset: number): InterpolationFrame => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = texture(x - offset, y - offset / 2);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const flatFrame = (value: number): InterpolationFrame => ({
+  data: new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(value),
+  width: WIDTH,
+  height: HEIGHT,
+});
+
+/** Mean absolute difference away from the borders, where content enters. */
+const interiorError = (
+  actual: InterpolationFrame,
+  expected: InterpolationFrame,
+): number => {
+  let sum = 0;
+  let count = 0;
+  for (let y = 10; y < HEIGHT - 10; y++) {
+    for (let x = 10; x < WIDTH - 10; x++) {
+      const i = (y * WIDTH + x) * 4;
+      sum += Math.abs(actual.data[i] - expected.data[i]);
+      count++;
+    }
+  }
+  return sum / count;
+};
+
+describe("blendFrames", () => {
+  it("should cross-fade by t", () => {
+    const blended = blendFrames(flatFrame(0), flatFrame(200), 0.25);
+    expect(blended.data[0]).toBe(50);
+    expect(() =>
+      blendFrames(flatFrame(0), { ...flatFrame(0), width: 10 }, 0.5),
+    ).toThrow("Cannot interpolate");
+  });
+});
+
+describe("optical flow interpolation", () => {
+  it("should measure the motion between frames", () => {
+    const flow = estimateOpticalFlow(renderFrame(0), renderFrame(4));
+    expect(flow.coverage).toBeGreaterThan(0.5);
+    const center = Math.floor(flow.rows / 2) * flow.columns + flow.columns / 2;
+    expect(flow.dx[Math.floor(center)]).toBeCloseTo(4, 0);
+    expect(flow.dy[Math.floor(center)]).toBeCloseTo(2, 0);
+  });
+
+  it("should place content midway instead of ghosting it", () => {
+    const before = renderFrame(0);
+    const after = renderFrame(4);
+    const expected = renderFrame(2);
+
+    for (const quality of ["full", "preview"] as const) {
+      const flow = interpolateFramesOpticalFlow(before, after, 0.5, {
+        quality,
+      });
+      const blend = blendFrames(before, after, 0.5);
+      expect(interiorError(flow, expected)).toBeLessThan(
+        interiorError(blend, expected) / 3,
+      );
+    }
+  });
+
+  it("should fall back to blending when nothing can be tracked", () => {
+    const result = interpolateFramesOpticalFlow(
+      flatFrame(40),
+      flatFrame(80),
+      0.5,
+    );
+    expect(result.data[0]).toBe(60);
+  });
+
+  it("should pass source frames through at the ends", () => {
+    const before = renderFrame(0);
+    const after = renderFrame(4);
+    expect(interpolateFrames(before, after, 0.5, "none")).toBe(before);
+    expect(interpolateFrames(before, after, 0.001, "optical-flow")).toBe(
+      before,
+    );
+    expect(interpolateFrames(before, after, 0.999, "blend")).toBe(after);
+  });
+});
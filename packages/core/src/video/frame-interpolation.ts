@@ -0,0 +1,280 @@
+import {
+  buildPyramid,
+  toGrayFrame,
+  trackFeature,
+  type GrayFrame,
+  type PlanarTrackerFrame,
+} from "./planar-tracker";
+
+/** How in-between source frames are made for slowed clips. */
+export type FrameInterpolationMode = "none" | "blend" | "optical-flow";
+
+/**
+ * Preview estimates flow on a smaller image with a coarser grid so it keeps
+ * up with playback; export spends the time on a denser field.
+ */
+export type FrameInterpolationQuality = "preview" | "full";
+
+/** RGBA pixels; the same shape the trackers read. */
+export type InterpolationFrame = PlanarTrackerFrame;
+
+export interface FlowField {
+  /** Grid columns and rows; vector (i, j) sits at (i, j) * spacing. */
+  readonly columns: number;
+  readonly rows: number;
+  /** Distance in frame pixels between grid points. */
+  readonly spacing: number;
+  /** Motion from the first frame to the second, in frame pixels. */
+  readonly dx: Float32Array;
+  readonly dy: Float32Array;
+  /** Share of grid points whose motion was measured rather than filled. */
+  readonly coverage: number;
+}
+
+export interface OpticalFlowOptions {
+  quality?: FrameInterpolationQuality;
+}
+
+interface FlowSettings {
+  /** Longer side of the image the flow is estimated on. */
+  maxSize: number;
+  /** Grid spacing in pixels of that image. */
+  spacing: number;
+  windowRadius: number;
+  pyramidLevels: number;
+}
+
+const FLOW_SETTINGS: Record<FrameInterpolationQuality, FlowSettings> = {
+  preview: { maxSize: 320, spacing: 8, windowRadius: 5, pyramidLevels: 3 },
+  full: { maxSize: 960, spacing: 8, windowRadius: 7, pyramidLevels: 4 },
+};
+
+/** Below this share of measured vectors the field is noise; blend instead. */
+const MIN_FLOW_COVERAGE = 0.1;
+const FILL_PASSES = 8;
+
+/**
+ * Positions closer than this to a source frame show that frame as is, so
+ * normal-speed playback never pays for interpolation.
+ */
+export const INTERPOLATION_EPSILON = 0.01;
+
+function checkSameSize(a: InterpolationFrame, b: InterpolationFrame): void {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(
+      `Cannot interpolate ${a.width}x${a.height} with ${b.width}x${b.height}`,
+    );
+  }
+}
+
+/** Cross-fades two frames; `t` 0 is all `a`, 1 is all `b`. */
+export function blendFrames(
+  a: InterpolationFrame,
+  b: InterpolationFrame,
+  t: number,
+): InterpolationFrame {
+  checkSameSize(a, b);
+  const data = new Uint8ClampedArray(a.width * a.height * 4);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = a.data[i] + (b.data[i] - a.data[i]) * t;
+  }
+  return { data, width: a.width, height: a.height };
+}
+
+/**
+ * Dense-ish motion between two frames: Lucas-Kanade with a forward-backward
+ * check on a regular grid, computed on a downscaled copy. Grid points that
+ * fail (flat areas, occlusions) take the average of their measured
+ * neighbours so the field has no holes.
+ */
+export function estimateOpticalFlow(
+  a: InterpolationFrame,
+  b: InterpolationFrame,
+  options: OpticalFlowOptions = {},
+): FlowField {
+  checkSameSize(a, b);
+  const settings = FLOW_SETTINGS[options.quality ?? "full"];
+  let downscale = 0;
+  while (Math.max(a.width, a.height) / 2 ** downscale > settings.maxSize) {
+    downscale++;
+  }
+  const pyramid = (frame: InterpolationFrame): GrayFrame[] =>
+    buildPyramid(
+      toGrayFrame(frame),
+      downscale + settings.pyramidLevels,
+    ).slice(downscale);
+  const from = pyramid(a);
+  const to = pyramid(b);
+  // buildPyramid stops at 32px, so small frames may stop short of it
+  const scale = a.width / from[0].width;
+
+  const columns = Math.floor((from[0].width - 1) / settings.spacing) + 1;
+  const rows = Math.floor((from[0].height - 1) / settings.spacing) + 1;
+  const dx = new Float32Array(columns * rows);
+  const dy = new Float32Array(columns * rows);
+  const measured = new Uint8Array(columns * rows);
+  let measuredCount = 0;
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      const point = { x: i * settings.spacing, y: j * settings.spacing };
+      const moved = trackFeature(from, to, point, settings.windowRadius);
+      if (!moved) continue;
+      const index = j * columns + i;
+      dx[index] = (moved.x - point.x) * scale;
+      dy[index] = (moved.y - point.y) * scale;
+      measured[index] = 1;
+      measuredCount++;
+    }
+  }
+
+  fillFlowHoles(dx, dy, measured, columns, rows);
+  return {
+    columns,
+    rows,
+    spacing: settings.spacing * scale,
+    dx,
+    dy,
+    coverage: measuredCount / (columns * rows),
+  };
+}
+
+function fillFlowHoles(
+  dx: Float32Array,
+  dy: Float32Array,
+  known: Uint8Array,
+  columns: number,
+  rows: number,
+): void {
+  for (let pass = 0; pass < FILL_PASSES; pass++) {
+    const filled: number[] = [];
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < columns; i++) {
+        const index = j * columns + i;
+        if (known[index]) continue;
+        let sumX = 0;
+        let sumY = 0;
+        let count = 0;
+        for (let nj = j - 1; nj <= j + 1; nj++) {
+          for (let ni = i - 1; ni <= i + 1; ni++) {
+            if (ni < 0 || nj < 0 || ni >= columns || nj >= rows) continue;
+            const neighbour = nj * columns + ni;
+            if (!known[neighbour]) continue;
+            sumX += dx[neighbour];
+            sumY += dy[neighbour];
+            count++;
+          }
+        }
+        if (count > 0) {
+          dx[index] = sumX / count;
+          dy[index] = sumY / count;
+          filled.push(index);
+        }
+      }
+    }
+    if (filled.length === 0) break;
+    for (const index of filled) known[index] = 1;
+  }
+  // Anything still unknown is far from all texture; treat it as static
+}
+
+function sampleFlow(
+  flow: FlowField,
+  x: number,
+  y: number,
+): { x: number; y: number } {
+  const gx = Math.min(Math.max(x / flow.spacing, 0), flow.columns - 1);
+  const gy = Math.min(Math.max(y / flow.spacing, 0), flow.rows - 1);
+  const i0 = Math.floor(gx);
+  const j0 = Math.floor(gy);
+  const i1 = Math.min(i0 + 1, flow.columns - 1);
+  const j1 = Math.min(j0 + 1, flow.rows - 1);
+  const fx = gx - i0;
+  const fy = gy - j0;
+  const at = (values: Float32Array) => {
+    const top =
+      values[j0 * flow.columns + i0] * (1 - fx) +
+      values[j0 * flow.columns + i1] * fx;
+    const bottom =
+      values[j1 * flow.columns + i0] * (1 - fx) +
+      values[j1 * flow.columns + i1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+  return { x: at(flow.dx), y: at(flow.dy) };
+}
+
+/** Bilinear RGBA sample with edge clamping, written into `out`. */
+function sampleRgba(
+  frame: InterpolationFrame,
+  x: number,
+  y: number,
+  out: Float32Array,
+): void {
+  const cx = Math.min(Math.max(x, 0), frame.width - 1);
+  const cy = Math.min(Math.max(y, 0), frame.height - 1);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(x0 + 1, frame.width - 1);
+  const y1 = Math.min(y0 + 1, frame.height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const i00 = (y0 * frame.width + x0) * 4;
+  const i10 = (y0 * frame.width + x1) * 4;
+  const i01 = (y1 * frame.width + x0) * 4;
+  const i11 = (y1 * frame.width + x1) * 4;
+  for (let c = 0; c < 4; c++) {
+    const top = frame.data[i00 + c] * (1 - fx) + frame.data[i10 + c] * fx;
+    const bottom = frame.data[i01 + c] * (1 - fx) + frame.data[i11 + c] * fx;
+    out[c] = top * (1 - fy) + bottom * fy;
+  }
+}
+
+/**
+ * Synthesizes the frame at `t` between `a` and `b` by moving both along
+ * the estimated flow and cross-fading the results. Runs entirely on the
+ * CPU. When too little of the image could be tracked it falls back to a
+ * plain blend rather than smearing pixels along a guessed field.
+ */
+export function interpolateFramesOpticalFlow(
+  a: InterpolationFrame,
+  b: InterpolationFrame,
+  t: number,
+  options: OpticalFlowOptions = {},
+): InterpolationFrame {
+  const flow = estimateOpticalFlow(a, b, options);
+  if (flow.coverage < MIN_FLOW_COVERAGE) {
+    return blendFrames(a, b, t);
+  }
+
+  const { width, height } = a;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const fromA = new Float32Array(4);
+  const fromB = new Float32Array(4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Flow is read at the output pixel rather than traced back to its
+      // origin; motion is smooth enough over a grid cell for that to hold
+      const motion = sampleFlow(flow, x, y);
+      sampleRgba(a, x - motion.x * t, y - motion.y * t, fromA);
+      sampleRgba(b, x + motion.x * (1 - t), y + motion.y * (1 - t), fromB);
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[i + c] = fromA[c] + (fromB[c] - fromA[c]) * t;
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+/** The frame at `t` between `a` and `b` using a clip's chosen mode. */
+export function interpolateFrames(
+  a: InterpolationFrame,
+  b: InterpolationFrame,
+  t: number,
+  mode: FrameInterpolationMode,
+  quality: FrameInterpolationQuality = "full",
+): InterpolationFrame {
+  if (mode === "none" || t < INTERPOLATION_EPSILON) return a;
+  if (t > 1 - INTERPOLATION_EPSILON) return b;
+  if (mode === "blend") return blendFrames(a, b, t);
+  return interpolateFramesOpticalFlow(a, b, t, { quality });
+}
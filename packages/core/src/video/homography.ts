@@ -0,0 +1,265 @@
+/**
+ * 3x3 projective transforms between image planes, stored row-major with
+ * the bottom-right entry normalised to 1.
+ */
+export type Homography = readonly number[];
+
+export interface HomographyPoint {
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface RansacOptions {
+  /** Reprojection error in pixels under which a match counts as inlier. */
+  readonly threshold?: number;
+  readonly iterations?: number;
+  /** Seed for sample selection, so repeated runs give the same result. */
+  readonly seed?: number;
+}
+
+export interface RansacResult {
+  readonly homography: Homography;
+  readonly inliers: boolean[];
+  readonly inlierCount: number;
+}
+
+export const IDENTITY_HOMOGRAPHY: Homography = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+export function applyHomography(
+  h: Homography,
+  point: HomographyPoint,
+): HomographyPoint {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+}
+
+function normalize(h: number[]): Homography {
+  const scale = Math.abs(h[8]) > 1e-12 ? h[8] : 1;
+  return h.map((value) => value / scale);
+}
+
+/** Applies `b` after `a`. */
+export function multiplyHomographies(b: Homography, a: Homography): Homography {
+  const result: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result.push(
+        b[row * 3] * a[col] +
+          b[row * 3 + 1] * a[3 + col] +
+          b[row * 3 + 2] * a[6 + col],
+      );
+    }
+  }
+  return normalize(result);
+}
+
+export function invertHomography(h: Homography): Homography {
+  const [a, b, c, d, e, f, g, i, j] = h;
+  const cofactors = [
+    e * j - f * i,
+    c * i - b * j,
+    b * f - c * e,
+    f * g - d * j,
+    a * j - c * g,
+    c * d - a * f,
+    d * i - e * g,
+    b * g - a * i,
+    a * e - b * d,
+  ];
+  const determinant = a * cofactors[0] + b * cofactors[3] + c * cofactors[6];
+  if (Math.abs(determinant) < 1e-12) {
+    throw new Error("Homography is not invertible");
+  }
+  return normalize(cofactors.map((value) => value / determinant));
+}
+
+/**
+ * Similarity transform that moves the centroid to the origin and the mean
+ * distance to sqrt(2), which keeps the linear solve well conditioned.
+ */
+function normalizingTransform(points: readonly HomographyPoint[]): Homography {
+  let cx = 0;
+  let cy = 0;
+  for (const p of points) {
+    cx += p.x;
+    cy += p.y;
+  }
+  cx /= points.length;
+  cy /= points.length;
+  let distance = 0;
+  for (const p of points) {
+    distance += Math.hypot(p.x - cx, p.y - cy);
+  }
+  distance /= points.length;
+  const s = distance > 1e-12 ? Math.SQRT2 / distance : 1;
+  return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+}
+
+/** Solves the square system in place with partial pivoting. */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < n; k++) matrix[row][k] -= factor * matrix[col][k];
+      rhs[row] -= factor * rhs[col];
+    }
+  }
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rhs[row];
+    for (let k = row + 1; k < n; k++) sum -= matrix[row][k] * solution[k];
+    solution[row] = sum / matrix[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Least-squares homography mapping `source` onto `destination` (normalised
+ * DLT). Needs at least four correspondences, no three of them collinear;
+ * returns null when the points do not determine a transform.
+ */
+export function solveHomography(
+  source: readonly HomographyPoint[],
+  destination: readonly HomographyPoint[],
+): Homography | null {
+  if (source.length < 4 || source.length !== destination.length) {
+    return null;
+  }
+  const sourceNorm = normalizingTransform(source);
+  const destinationNorm = normalizingTransform(destination);
+
+  // Normal equations of the 2N x 8 system with h[8] fixed to 1
+  const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0));
+  const atb = new Array<number>(8).fill(0);
+  const accumulate = (row: number[], value: number) => {
+    for (let i = 0; i < 8; i++) {
+      if (row[i] === 0) continue;
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j];
+      atb[i] += row[i] * value;
+    }
+  };
+  for (let i = 0; i < source.length; i++) {
+    const { x, y } = applyHomography(sourceNorm, source[i]);
+    const { x: u, y: v } = applyHomography(destinationNorm, destination[i]);
+    accumulate([x, y, 1, 0, 0, 0, -u * x, -u * y], u);
+    accumulate([0, 0, 0, x, y, 1, -v * x, -v * y], v);
+  }
+
+  const solution = solveLinearSystem(ata, atb);
+  if (!solution || solution.some((value) => !Number.isFinite(value))) {
+    return null;
+  }
+  const normalized: Homography = [...solution, 1];
+  return multiplyHomographies(
+    invertHomography(destinationNorm),
+    multiplyHomographies(normalized, sourceNorm),
+  );
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isDegenerateSample(points: readonly HomographyPoint[]): boolean {
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      for (let k = j + 1; k < points.length; k++) {
+        const area =
+          (points[j].x - points[i].x) * (points[k].y - points[i].y) -
+          (points[k].x - points[i].x) * (points[j].y - points[i].y);
+        if (Math.abs(area) < 1e-3) return true;
+      }
+    }
+  }
+  return false;
+}
+
+function findInliers(
+  h: Homography,
+  source: readonly HomographyPoint[],
+  destination: readonly HomographyPoint[],
+  threshold: number,
+): boolean[] {
+  return source.map((point, index) => {
+    const projected = applyHomography(h, point);
+    const error = Math.hypot(
+      projected.x - destination[index].x,
+      projected.y - destination[index].y,
+    );
+    return Number.isFinite(error) && error <= threshold;
+  });
+}
+
+/**
+ * Robust homography estimate: fits random minimal samples, keeps the model
+ * with the most inliers and refits it on all of them.
+ */
+export function estimateHomographyRansac(
+  source: readonly HomographyPoint[],
+  destination: readonly HomographyPoint[],
+  options: RansacOptions = {},
+): RansacResult | null {
+  const { threshold = 2, iterations = 200, seed = 1 } = options;
+  if (source.length < 4 || source.length !== destination.length) {
+    return null;
+  }
+
+  const random = mulberry32(seed);
+  let best: boolean[] | null = null;
+  let bestCount = 0;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const indices = new Set<number>();
+    while (indices.size < 4) {
+      indices.add(Math.floor(random() * source.length));
+    }
+    const sample = Array.from(indices);
+    const sampleSource = sample.map((i) => source[i]);
+    if (isDegenerateSample(sampleSource)) continue;
+    const model = solveHomography(
+      sampleSource,
+      sample.map((i) => destination[i]),
+    );
+    if (!model) continue;
+
+    const inliers = findInliers(model, source, destination, threshold);
+    const count = inliers.filter(Boolean).length;
+    if (count > bestCount) {
+      best = inliers;
+      bestCount = count;
+      if (count === source.length) break;
+    }
+  }
+  if (!best || bestCount < 4) return null;
+
+  const refined = solveHomography(
+    source.filter((_, i) => best![i]),
+    destination.filter((_, i) => best![i]),
+  );
+  if (!refined) return null;
+  const inliers = findInliers(refined, source, destination, threshold);
+  return {
+    homography: refined,
+    inliers,
+    inlierCount: inliers.filter(Boolean).length,
+  };
+}
@@ -1,6 +1,8 @@
 export * from "./video-engine";
 export * from "./video-effects-engine";
 export * from "./color-grading-engine";
+export * from "./color-management";
+export * from "./lut-formats";
 export * from "./frame-cache";
 export * from "./transition-engine";
 export * from "./animation-engine";
@@ -11,6 +13,12 @@ export * from "./speed-engine";
 export * from "./keyframe-engine";
 export * from "./chroma-key-engine";
 export * from "./motion-tracking-engine";
+export * from "./homography";
+export * from "./corner-pin";
+export * from "./planar-tracker";
+export * from "./mask-tracker";
+export * from "./frame-interpolation";
+export * from "./stabilizer";
 export * from "./playback-engine";
 export * from "./types";
 
@@ -38,6 +46,7 @@ export * from "./filter-presets";
 
 // Multi-camera editing
 export * from "./multicam-engine";
+export * from "./multicam-auto-switch";
 
 // Adjustment layers
 export * from "./adjustment-layer-engine";
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateLUT,
+  formatLUTFile,
+  getLUTFileFormat,
+  parseLUTFile,
+  toLUTData,
+  type CubeLUT,
+  type LUTFileFormat,
+} from "./lut-formats";
+import { ColorGradingEngine } from "./color-grading-engine";
+
+const GRADE = {
+  colorWheels: {
+    shadows: { r: 0.02, g: 0, b: -0.02 },
+    midtones: { r: 0, g: 0, b: 0 },
+    highlights: { r: -0.03, g: 0, b: 0.03 },
+    shadowsLift: 0.01,
+    midtonesGamma: 1.1,
+    highlightsGain: 0.95,
+  },
+  curves: {
+    rgb: [
+      { x: 0, y: 0 },
+      { x: 0.5, y: 0.6 },
+      { x: 1, y: 1 },
+    ],
+    red: [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ],
+    green: [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ],
+    blue: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0.9 },
+    ],
+  },
+};
+
+const expectLUTsClose = (a: CubeLUT, b: CubeLUT, tolerance: number) => {
+  expect(a.size).toBe(b.size);
+  expect(a.data.length).toBe(b.data.length);
+  for (let i = 0; i < a.data.length; i++) {
+    expect(Math.abs(a.data[i] - b.data[i])).toBeLessThanOrEqual(tolerance);
+  }
+};
+
+describe("ColorGradingEngine.bakeLUT", () => {
+  it("should bake an identity LUT without a grade", () => {
+    const lut = new ColorGradingEngine().bakeLUT({}, 17);
+    expect(lut.data.length).toBe(17 ** 3 * 3);
+    expect(evaluateLUT(lut, 0.3, 0.6, 0.9).map((v) => +v.toFixed(6))).toEqual([
+      0.3, 0.6, 0.9,
+    ]);
+  });
+
+  it("should sample the grade chain at every grid point", () => {
+    const engine = new ColorGradingEngine();
+    const lut = engine.bakeLUT(GRADE, 33);
+    const grade = engine.createGradeProcessor(GRADE)!;
+
+    for (const [r, g, b] of [
+      [0, 0, 0],
+      [16, 8, 4],
+      [32, 32, 32],
+    ]) {
+      const rgb = Float32Array.from([r / 32, g / 32, b / 32]);
+      grade(rgb);
+      const index = ((b * 33 + g) * 33 + r) * 3;
+      for (let c = 0; c < 3; c++) {
+        expect(lut.data[index + c]).toBeCloseTo(rgb[c], 6);
+      }
+    }
+  });
+});
+
+describe("LUT files", () => {
+  it("should round trip a baked grade through every format", () => {
+    const lut = new ColorGradingEngine().bakeLUT(GRADE, 17, "Film Look");
+    const tolerances: Record<LUTFileFormat, number> = {
+      cube: 1e-6,
+      csp: 1e-6,
+      "3dl": 0.5 / 4095,
+    };
+    for (const format of ["cube", "3dl", "csp"] as const) {
+      const parsed = parseLUTFile(formatLUTFile(lut, format), format);
+      expectLUTsClose(parsed, lut, tolerances[format]);
+      expect(parsed.shaper).toBeUndefined();
+    }
+    expect(parseLUTFile(formatLUTFile(lut, "cube"), "cube").title).toBe(
+      "Film Look",
+    );
+  });
+
+  it("should apply a .cube 1D shaper before the cube", () => {
+    const content = [
+      'TITLE "Shaped"',
+      "LUT_1D_SIZE 3",
+      "LUT_3D_SIZE 2",
+      "0 0 0",
+      "0.25 0.25 0.25",
+      "1 1 1",
+      "0 0 0",
+      "1 0 0",
+      "0 1 0",
+      "1 1 0",
+      "0 0 1",
+      "1 0 1",
+      "0 1 1",
+      "1 1 1",
+    ].join("\n");
+    const lut = parseLUTFile(content, "cube");
+    expect(lut.size).toBe(2);
+    expect(lut.shaper).toBeDefined();
+    expect(evaluateLUT(lut, 0.5, 0.75, 1)[0]).toBeCloseTo(0.25, 3);
+    expect(evaluateLUT(lut, 0.5, 0.75, 1)[1]).toBeCloseTo(0.625, 3);
+
+    // Written back as the same combination
+    const reparsed = parseLUTFile(formatLUTFile(lut, "cube"), "cube");
+    expect(evaluateLUT(reparsed, 0.5, 0.5, 0.5)[2]).toBeCloseTo(0.25, 3);
+  });
+
+  it("should read .3dl with blue varying fastest and mesh spacing as a shaper", () => {
+    const rows: string[] = [];
+    for (let r = 0; r < 2; r++) {
+      for (let g = 0; g < 2; g++) {
+        for (let b = 0; b < 2; b++)
+          rows.push(`${r * 4095} ${g * 4095} ${b * 4095}`);
+      }
+    }
+    const identity = parseLUTFile(["0 1023", ...rows].join("\n"), "3dl");
+    expect(identity.shaper).toBeUndefined();
+    expect(Array.from(identity.data.subarray(3, 6))).toEqual([1, 0, 0]);
+
+    // Grid lines at 0, 256 and 1023: inputs below a quarter fill half the cube
+    const rows3: string[] = [];
+    for (let r = 0; r < 3; r++) {
+      for (let g = 0; g < 3; g++) {
+        for (let b = 0; b < 3; b++) {
+          rows3.push(`${r * 2047} ${g * 2047} ${b * 2047}`);
+        }
+      }
+    }
+    const meshed = parseLUTFile(["0 256 1023", ...rows3].join("\n"), "3dl");
+    expect(evaluateLUT(meshed, 256 / 1023, 0, 0)[0]).toBeCloseTo(0.5, 2);
+  });
+
+  it("should read CSP preluts as a shaper", () => {
+    const rows: string[] = [];
+    for (let b = 0; b < 2; b++) {
+      for (let g = 0; g < 2; g++) {
+        for (let r = 0; r < 2; r++) rows.push(`${r} ${g} ${b}`);
+      }
+    }
+    const content = [
+      "CSPLUTV100",
+      "3D",
+      "",
+      "BEGIN METADATA",
+      "Log to display",
+      "END METADATA",
+      "",
+      "3",
+      "0.0 0.5 1.0",
+      "0.0 0.8 1.0",
+      "2",
+      "0.0 1.0",
+      "0.0 1.0",
+      "2",
+      "0.0 1.0",
+      "0.0 1.0",
+      "",
+      "2 2 2",
+      ...rows,
+    ].join("\n");
+    const lut = parseLUTFile(content, "csp");
+    expect(lut.title).toBe("Log to display");
+    const [r, g] = evaluateLUT(lut, 0.5, 0.5, 0);
+    expect(r).toBeCloseTo(0.8, 3);
+    expect(g).toBeCloseTo(0.5, 3);
+  });
+
+  it("should reject malformed files", () => {
+    expect(() => parseLUTFile("0 0 0", "cube")).toThrow(
+      "LUT size not specified",
+    );
+    expect(() => parseLUTFile("LUT_3D_SIZE 2\n0 0 0", "cube")).toThrow(
+      "expected 8 entries",
+    );
+    expect(() => parseLUTFile("CSPLUTV100\n1D", "csp")).toThrow(
+      "Only 3D CSP LUTs",
+    );
+    expect(getLUTFileFormat("grade.CUBE")).toBe("cube");
+    expect(getLUTFileFormat("grade.png")).toBeNull();
+  });
+
+  it("should quantize for the engine and keep the shaper", () => {
+    const lut = parseLUTFile("LUT_1D_SIZE 2\n0 0 0\n0.5 0.5 0.5", "cube");
+    const data = toLUTData(lut, 0.8);
+    expect(data.size).toBe(2);
+    expect(data.intensity).toBe(0.8);
+    expect(data.shaper).toBe(lut.shaper);
+    expect(data.data[3]).toBe(255);
+  });
+});
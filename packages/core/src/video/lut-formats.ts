@@ -0,0 +1,513 @@
+/**
+ * Reading and writing 3D LUT files: Adobe/Resolve .cube (including 1D
+ * shaper + 3D combinations), Autodesk .3dl and Rising Sun CSP. LUTs are
+ * held at full precision here and quantized to the engine's 8-bit form
+ * with {@link toLUTData}.
+ */
+import type { LUTData } from "./color-grading-engine";
+
+export type LUTFileFormat = "cube" | "3dl" | "csp";
+
+export const LUT_FILE_FORMATS: LUTFileFormat[] = ["cube", "3dl", "csp"];
+
+/** Cube sizes offered when baking a grade. */
+export const LUT_BAKE_SIZES = [17, 33, 65] as const;
+export type LUTBakeSize = (typeof LUT_BAKE_SIZES)[number];
+
+/**
+ * A 3D LUT at full precision: RGB triples with red varying fastest. The
+ * optional shaper maps each 0-1 input channel to its coordinate in the
+ * cube before the lookup.
+ */
+export interface CubeLUT {
+  size: number;
+  data: Float32Array;
+  /** Interleaved RGB, sampled uniformly over 0-1 input. */
+  shaper?: Float32Array;
+  title?: string;
+}
+
+const SHAPER_SIZE = 1024;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export function getLUTFileFormat(fileName: string): LUTFileFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return LUT_FILE_FORMATS.find((format) => format === extension) ?? null;
+}
+
+export function parseLUTFile(content: string, format: LUTFileFormat): CubeLUT {
+  switch (format) {
+    case "cube":
+      return parseCube(content);
+    case "3dl":
+      return parse3dl(content);
+    case "csp":
+      return parseCsp(content);
+  }
+}
+
+export function formatLUTFile(lut: CubeLUT, format: LUTFileFormat): string {
+  switch (format) {
+    case "cube":
+      return formatCube(lut);
+    case "3dl":
+      return format3dl(lut);
+    case "csp":
+      return formatCsp(lut);
+  }
+}
+
+/** Quantizes to the 8-bit form the grading engine applies. */
+export function toLUTData(lut: CubeLUT, intensity = 1): LUTData {
+  const data = new Uint8Array(lut.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(clamp01(lut.data[i]) * 255);
+  }
+  return lut.shaper
+    ? { data, size: lut.size, intensity, shaper: lut.shaper }
+    : { data, size: lut.size, intensity };
+}
+
+/** Runs a color through the shaper and the cube, trilinearly. */
+export function evaluateLUT(
+  lut: CubeLUT,
+  r: number,
+  g: number,
+  b: number,
+): [number, number, number] {
+  const { size, data, shaper } = lut;
+  const max = size - 1;
+  const coordinates = [r, g, b].map((value, channel) =>
+    shaper ? sampleShaper(shaper, value, channel) : clamp01(value),
+  );
+  const [rIdx, gIdx, bIdx] = coordinates.map((value) => value * max);
+  const r0 = Math.floor(rIdx);
+  const g0 = Math.floor(gIdx);
+  const b0 = Math.floor(bIdx);
+  const r1 = Math.min(r0 + 1, max);
+  const g1 = Math.min(g0 + 1, max);
+  const b1 = Math.min(b0 + 1, max);
+  const rf = rIdx - r0;
+  const gf = gIdx - g0;
+  const bf = bIdx - b0;
+  const at = (ri: number, gi: number, bi: number, c: number) =>
+    data[((bi * size + gi) * size + ri) * 3 + c];
+
+  const out: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const c00 = at(r0, g0, b0, c) * (1 - rf) + at(r1, g0, b0, c) * rf;
+    const c01 = at(r0, g0, b1, c) * (1 - rf) + at(r1, g0, b1, c) * rf;
+    const c10 = at(r0, g1, b0, c) * (1 - rf) + at(r1, g1, b0, c) * rf;
+    const c11 = at(r0, g1, b1, c) * (1 - rf) + at(r1, g1, b1, c) * rf;
+    const c0 = c00 * (1 - gf) + c10 * gf;
+    const c1 = c01 * (1 - gf) + c11 * gf;
+    out[c] = c0 * (1 - bf) + c1 * bf;
+  }
+  return out;
+}
+
+/** Linear lookup in an interleaved RGB shaper. */
+export function sampleShaper(
+  shaper: ArrayLike<number>,
+  value: number,
+  channel: number,
+): number {
+  const count = shaper.length / 3;
+  const position = clamp01(value) * (count - 1);
+  const index = Math.min(Math.floor(position), count - 2);
+  const frac = position - index;
+  return (
+    shaper[index * 3 + channel] * (1 - frac) +
+    shaper[(index + 1) * 3 + channel] * frac
+  );
+}
+
+/** Piecewise-linear interpolation through points sorted by x. */
+function interpolate(
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  x: number,
+): number {
+  const last = xs.length - 1;
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[last]) return ys[last];
+  let i = 0;
+  while (i < last - 1 && xs[i + 1] < x) i++;
+  const span = xs[i + 1] - xs[i];
+  const t = span > 0 ? (x - xs[i]) / span : 0;
+  return ys[i] + (ys[i + 1] - ys[i]) * t;
+}
+
+/**
+ * Resamples a per-channel input-to-cube-coordinate curve onto the shaper
+ * grid. Returns undefined when the curve is the identity, to within
+ * `tolerance`.
+ */
+function buildShaper(
+  curve: (value: number, channel: number) => number,
+  tolerance = 1e-6,
+): Float32Array | undefined {
+  const shaper = new Float32Array(SHAPER_SIZE * 3);
+  let identity = true;
+  for (let i = 0; i < SHAPER_SIZE; i++) {
+    const x = i / (SHAPER_SIZE - 1);
+    for (let c = 0; c < 3; c++) {
+      const value = clamp01(curve(x, c));
+      shaper[i * 3 + c] = value;
+      identity &&= Math.abs(value - x) <= tolerance;
+    }
+  }
+  return identity ? undefined : shaper;
+}
+
+function identityCube(size: number): Float32Array {
+  const data = new Float32Array(size ** 3 * 3);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const i = ((b * size + g) * size + r) * 3;
+        data[i] = r / (size - 1);
+        data[i + 1] = g / (size - 1);
+        data[i + 2] = b / (size - 1);
+      }
+    }
+  }
+  return data;
+}
+
+function parseRow(line: string): number[] | null {
+  const values = line.split(/\s+/).map(Number);
+  return values.every(Number.isFinite) ? values : null;
+}
+
+function parseSize(value: string | undefined, max: number): number {
+  const size = parseInt(value ?? "", 10);
+  if (isNaN(size) || size < 2 || size > max) {
+    throw new Error(`Invalid LUT size: ${value}`);
+  }
+  return size;
+}
+
+function checkCubeSize(size: number, rows: number): void {
+  if (rows !== size ** 3) {
+    throw new Error(
+      `Invalid LUT data: expected ${size ** 3} entries, got ${rows}`,
+    );
+  }
+}
+
+function parseCube(content: string): CubeLUT {
+  let title: string | undefined;
+  let size1D = 0;
+  let size3D = 0;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  let range1D: number[] | null = null;
+  let range3D: number[] | null = null;
+  const rows: number[][] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) continue;
+    const [keyword, ...args] = line.split(/\s+/);
+
+    switch (keyword) {
+      case "TITLE":
+        title = line.slice(5).trim().replace(/^"|"$/g, "");
+        continue;
+      case "LUT_1D_SIZE":
+        size1D = parseSize(args[0], 65536);
+        continue;
+      case "LUT_3D_SIZE":
+        size3D = parseSize(args[0], 256);
+        continue;
+      case "DOMAIN_MIN":
+        domainMin = args.map(Number);
+        continue;
+      case "DOMAIN_MAX":
+        domainMax = args.map(Number);
+        continue;
+      case "LUT_1D_INPUT_RANGE":
+        range1D = args.map(Number);
+        continue;
+      case "LUT_3D_INPUT_RANGE":
+        range3D = args.map(Number);
+        continue;
+    }
+
+    const values = parseRow(line);
+    if (values?.length === 3) rows.push(values);
+  }
+
+  if (size1D === 0 && size3D === 0) {
+    throw new Error("LUT size not specified in file");
+  }
+  const expected = size1D + size3D ** 3;
+  if (rows.length !== expected) {
+    throw new Error(
+      `Invalid LUT data: expected ${expected} entries, got ${rows.length}`,
+    );
+  }
+
+  // Domains are per channel for DOMAIN_*, shared for the *_INPUT_RANGEs
+  const domain = (range: number[] | null, c: number, useDomain: boolean) =>
+    range
+      ? [range[0], range[1]]
+      : useDomain
+        ? [domainMin[c], domainMax[c]]
+        : [0, 1];
+  const toCube = (value: number, c: number) => {
+    const [min, max] = domain(range3D, c, size1D === 0);
+    return (value - min) / (max - min);
+  };
+
+  const shaperTable = rows.slice(0, size1D);
+  const shaper = buildShaper((x, c) => {
+    if (size1D === 0) return toCube(x, c);
+    const [min, max] = domain(range1D, c, true);
+    const position = clamp01((x - min) / (max - min)) * (size1D - 1);
+    const index = Math.min(Math.floor(position), size1D - 2);
+    const frac = position - index;
+    const value =
+      shaperTable[index][c] * (1 - frac) + shaperTable[index + 1][c] * frac;
+    // A 1D-only file has no cube; its output is the final color
+    return size3D === 0 ? value : toCube(value, c);
+  });
+
+  return {
+    size: size3D || 2,
+    data: size3D
+      ? Float32Array.from(rows.slice(size1D).flat())
+      : identityCube(2),
+    shaper,
+    title,
+  };
+}
+
+function parse3dl(content: string): CubeLUT {
+  const rows: number[][] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) continue;
+    // Keyword lines such as "3DMESH" or "Mesh 4 12" are not numeric
+    const values = parseRow(line);
+    if (values) rows.push(values);
+  }
+
+  // The first line normally lists the mesh points; a three-point mesh
+  // only tells itself apart from data by the number of rows after it
+  let mesh: number[] | null = null;
+  if (rows.length > 0 && (rows[0].length !== 3 || rows.length - 1 === 27)) {
+    mesh = rows.shift()!;
+  }
+  if (rows.some((row) => row.length !== 3)) {
+    throw new Error("Invalid LUT data");
+  }
+
+  if (rows.length === 0) {
+    throw new Error("No valid LUT data found in file");
+  }
+  const size = mesh ? mesh.length : Math.round(Math.cbrt(rows.length));
+  if (size < 2 || size ** 3 !== rows.length) {
+    throw new Error("Could not determine LUT size from data");
+  }
+
+  // Integer outputs; the bit depth is read from the largest value
+  const peak = Math.max(...rows.flat());
+  const outputScale =
+    peak > 4095 ? 65535 : peak > 1023 ? 4095 : peak > 1 ? 1023 : 1;
+
+  // Blue varies fastest in .3dl
+  const data = new Float32Array(rows.length * 3);
+  rows.forEach((row, i) => {
+    const r = Math.floor(i / (size * size));
+    const g = Math.floor(i / size) % size;
+    const b = i % size;
+    const index = ((b * size + g) * size + r) * 3;
+    for (let c = 0; c < 3; c++) data[index + c] = row[c] / outputScale;
+  });
+
+  // Mesh points are the inputs of the cube's grid lines; uneven spacing
+  // becomes a shaper
+  let shaper: Float32Array | undefined;
+  if (mesh) {
+    const last = mesh[mesh.length - 1];
+    const inputScale = last > 4095 ? 65535 : last > 1023 ? 4095 : 1023;
+    const points = mesh.map((point) => point / inputScale);
+    const coordinates = mesh.map((_, i) => i / (mesh!.length - 1));
+    // Integer mesh points are rounded, so allow for that
+    shaper = buildShaper(
+      (x) => interpolate(points, coordinates, x),
+      0.5 / inputScale,
+    );
+  }
+
+  return { size, data, shaper };
+}
+
+function parseCsp(content: string): CubeLUT {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  if (lines[0] !== "CSPLUTV100") {
+    throw new Error("Not a CSP LUT file");
+  }
+  if (lines[1] !== "3D") {
+    throw new Error("Only 3D CSP LUTs are supported");
+  }
+
+  let index = 2;
+  let title: string | undefined;
+  if (lines[index] === "BEGIN METADATA") {
+    const end = lines.indexOf("END METADATA", index);
+    if (end < 0) throw new Error("Unterminated CSP metadata block");
+    title = lines.slice(index + 1, end).join(" ") || undefined;
+    index = end + 1;
+  }
+
+  // One prelut per channel: point count, input values, output values
+  const preluts: { inputs: number[]; outputs: number[] }[] = [];
+  for (let c = 0; c < 3; c++) {
+    const count = parseInt(lines[index++], 10);
+    const inputs = parseRow(lines[index++] ?? "");
+    const outputs = parseRow(lines[index++] ?? "");
+    if (
+      isNaN(count) ||
+      count < 2 ||
+      inputs?.length !== count ||
+      outputs?.length !== count
+    ) {
+      throw new Error("Invalid CSP prelut");
+    }
+    preluts.push({ inputs, outputs });
+  }
+
+  const sizes = parseRow(lines[index++] ?? "");
+  if (!sizes || sizes.length !== 3) {
+    throw new Error("LUT size not specified in file");
+  }
+  if (sizes[0] !== sizes[1] || sizes[1] !== sizes[2]) {
+    throw new Error("Only cubic CSP LUTs are supported");
+  }
+  const size = parseSize(String(sizes[0]), 256);
+
+  const rows = lines.slice(index).map(parseRow);
+  checkCubeSize(size, rows.length);
+  if (rows.some((row) => row?.length !== 3)) {
+    throw new Error("Invalid LUT data");
+  }
+
+  return {
+    size,
+    data: Float32Array.from(rows.flat() as number[]),
+    shaper: buildShaper((x, c) =>
+      interpolate(preluts[c].inputs, preluts[c].outputs, x),
+    ),
+    title,
+  };
+}
+
+const formatValue = (value: number) => value.toFixed(6);
+
+function formatRows(data: Float32Array): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    lines.push(
+      `${formatValue(data[i])} ${formatValue(data[i + 1])} ${formatValue(data[i + 2])}`,
+    );
+  }
+  return lines;
+}
+
+function formatCube(lut: CubeLUT): string {
+  const lines: string[] = [];
+  if (lut.title) lines.push(`TITLE "${lut.title.replace(/"/g, "'")}"`);
+  if (lut.shaper) {
+    // Resolve's combined layout: the 1D table feeds the cube's 0-1 range
+    lines.push(
+      `LUT_1D_SIZE ${lut.shaper.length / 3}`,
+      "LUT_1D_INPUT_RANGE 0.0 1.0",
+      `LUT_3D_SIZE ${lut.size}`,
+      "LUT_3D_INPUT_RANGE 0.0 1.0",
+      "",
+      ...formatRows(lut.shaper),
+    );
+  } else {
+    lines.push(
+      `LUT_3D_SIZE ${lut.size}`,
+      "DOMAIN_MIN 0.0 0.0 0.0",
+      "DOMAIN_MAX 1.0 1.0 1.0",
+      "",
+    );
+  }
+  lines.push(...formatRows(lut.data));
+  return lines.join("\n") + "\n";
+}
+
+/** Folds a shaper into the cube, for formats that cannot carry one. */
+function flattenShaper(lut: CubeLUT): CubeLUT {
+  if (!lut.shaper) return lut;
+  const { size } = lut;
+  const data = new Float32Array(size ** 3 * 3);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const max = size - 1;
+        data.set(
+          evaluateLUT(lut, r / max, g / max, b / max),
+          ((b * size + g) * size + r) * 3,
+        );
+      }
+    }
+  }
+  return { size, data, title: lut.title };
+}
+
+function format3dl(lut: CubeLUT): string {
+  const { size, data } = flattenShaper(lut);
+  const mesh = Array.from({ length: size }, (_, i) =>
+    Math.round((i * 1023) / (size - 1)),
+  );
+  const lines = [mesh.join(" ")];
+  const toInt = (value: number) => Math.round(clamp01(value) * 4095);
+  for (let r = 0; r < size; r++) {
+    for (let g = 0; g < size; g++) {
+      for (let b = 0; b < size; b++) {
+        const i = ((b * size + g) * size + r) * 3;
+        lines.push(
+          `${toInt(data[i])} ${toInt(data[i + 1])} ${toInt(data[i + 2])}`,
+        );
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatCsp(lut: CubeLUT): string {
+  const lines = ["CSPLUTV100", "3D", ""];
+  if (lut.title) {
+    lines.push("BEGIN METADATA", lut.title, "END METADATA", "");
+  }
+  for (let c = 0; c < 3; c++) {
+    if (lut.shaper) {
+      const count = lut.shaper.length / 3;
+      const inputs: string[] = [];
+      const outputs: string[] = [];
+      for (let i = 0; i < count; i++) {
+        inputs.push(formatValue(i / (count - 1)));
+        outputs.push(formatValue(lut.shaper[i * 3 + c]));
+      }
+      lines.push(String(count), inputs.join(" "), outputs.join(" "));
+    } else {
+      lines.push("2", "0.0 1.0", "0.0 1.0");
+    }
+  }
+  lines.push(
+    "",
+    `${lut.size} ${lut.size} ${lut.size}`,
+    ...formatRows(lut.data),
+  );
+  return lines.join("\n") + "\n";
+}
@@ -1,3 +1,13 @@
+import type { Project } from "../types/project";
+import {
+  getProjectClips,
+  mapProjectClips,
+  withClipState,
+  type ProjectStateEngine,
+} from "../storage/engine-state";
+import { applyHomography } from "./homography";
+import type { PlanarTrackingData } from "./motion-tracking-engine";
+
 export interface MaskPoint {
   x: number;
   y: number;
@@ -47,6 +57,8 @@ export interface MaskKeyframe {
   time: number;
   path: BezierPath;
   easing: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+  /** Written by a tracker; keyframes without it are manual anchors. */
+  tracked?: boolean;
 }
 
 export interface Mask {
@@ -84,6 +96,9 @@ export interface MaskEngineConfig {
   useGPU?: boolean;
 }
 
+/** Keyframes closer than this, in seconds, share a frame. */
+const KEYFRAME_TIME_EPSILON = 1e-4;
+
 function generateId(): string {
   return `mask-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
@@ -241,6 +256,20 @@ export function interpolatePaths(
   };
 }
 
+export function mapBezierPath(
+  path: BezierPath,
+  transform: (point: MaskPoint) => MaskPoint,
+): BezierPath {
+  return {
+    closed: path.closed,
+    points: path.points.map((point) => ({
+      ...transform(point),
+      ...(point.handleIn && { handleIn: transform(point.handleIn) }),
+      ...(point.handleOut && { handleOut: transform(point.handleOut) }),
+    })),
+  };
+}
+
 export function applyEasing(
   t: number,
   easing: "linear" | "ease-in" | "ease-out" | "ease-in-out",
@@ -331,7 +360,7 @@ function simplifyPoints(points: MaskPoint[], tolerance: number): MaskPoint[] {
   return result;
 }
 
-export class MaskEngine {
+export class MaskEngine implements ProjectStateEngine {
   private canvas: OffscreenCanvas;
   private ctx: OffscreenCanvasRenderingContext2D;
   private maskCanvas: OffscreenCanvas;
@@ -450,6 +479,89 @@ export class MaskEngine {
     return keyframe;
   }
 
+  /**
+   * Makes the mask follow a planar track: its current path is taken as the
+   * shape in the track's reference frame and carried through each tracked
+   * frame's homography. Replaces the mask's keyframes; frames where
+   * tracking was lost are skipped and interpolated over. `frameSize` is the
+   * pixel size the track was made at, defaulting to the engine's size.
+   */
+  applyPlanarTrack(
+    maskId: string,
+    track: PlanarTrackingData,
+    frameSize: { width: number; height: number } = {
+      width: this.width,
+      height: this.height,
+    },
+  ): MaskKeyframe[] {
+    const mask = this.masks.get(maskId);
+    if (!mask) {
+      throw new Error(`Mask not found: ${maskId}`);
+    }
+    const { width, height } = frameSize;
+    const lost = new Set(track.lostFrames);
+
+    const keyframes = track.keyframes
+      .filter((kf) => !lost.has(kf.frame))
+      .map((kf): MaskKeyframe => ({
+        id: generateId(),
+        time: kf.frame / track.frameRate,
+        path: mapBezierPath(mask.path, (point) => {
+          const warped = applyHomography(kf.homography, {
+            x: point.x * width,
+            y: point.y * height,
+          });
+          return { x: warped.x / width, y: warped.y / height };
+        }),
+        easing: "linear",
+        tracked: true,
+      }));
+
+    this.masks.set(maskId, { ...mask, keyframes });
+    return keyframes;
+  }
+
+  /**
+   * Swaps the tracked keyframes between `startTime` and `endTime` for new
+   * ones. Manual keyframes are kept, and a tracked path landing on the
+   * same time as one is dropped.
+   */
+  replaceTrackedKeyframes(
+    maskId: string,
+    startTime: number,
+    endTime: number,
+    paths: readonly { time: number; path: BezierPath }[],
+  ): MaskKeyframe[] {
+    const mask = this.masks.get(maskId);
+    if (!mask) {
+      throw new Error(`Mask not found: ${maskId}`);
+    }
+    const from = Math.min(startTime, endTime) - KEYFRAME_TIME_EPSILON;
+    const to = Math.max(startTime, endTime) + KEYFRAME_TIME_EPSILON;
+    const kept = mask.keyframes.filter(
+      (kf) => !kf.tracked || kf.time < from || kf.time > to,
+    );
+    const added = paths
+      .filter(
+        ({ time }) =>
+          !kept.some(
+            (kf) => Math.abs(kf.time - time) < KEYFRAME_TIME_EPSILON,
+          ),
+      )
+      .map(
+        ({ time, path }): MaskKeyframe => ({
+          id: generateId(),
+          time,
+          path: structuredClone(path),
+          easing: "linear",
+          tracked: true,
+        }),
+      );
+    const keyframes = [...kept, ...added].sort((a, b) => a.time - b.time);
+    this.masks.set(maskId, { ...mask, keyframes });
+    return added;
+  }
+
   removeMaskKeyframe(maskId: string, keyframeId: string): void {
     const mask = this.masks.get(maskId);
     if (mask) {
@@ -518,6 +630,13 @@ export class MaskEngine {
     }
   }
 
+  setMasksForClip(clipId: string, masks: Mask[]): void {
+    this.deleteMasksForClip(clipId);
+    for (const mask of masks) {
+      this.masks.set(mask.id, { ...mask, clipId });
+    }
+  }
+
   async applyMask(
     image: ImageBitmap,
     mask: Mask,
@@ -958,4 +1077,21 @@ export class MaskEngine {
   clearAllMasks(): void {
     this.masks.clear();
   }
+
+  hydrateFromProject(project: Project): void {
+    this.masks.clear();
+    for (const clip of getProjectClips(project)) {
+      for (const mask of clip.masks ?? []) {
+        // Split and duplicated clips carry copies of the same mask ids
+        const id = this.masks.has(mask.id) ? `${mask.id}_${clip.id}` : mask.id;
+        this.masks.set(id, { ...structuredClone(mask), id, clipId: clip.id });
+      }
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    return mapProjectClips(project, (clip) =>
+      withClipState(clip, "masks", this.getMasksForClip(clip.id)),
+    );
+  }
 }
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import { MaskPathTracker } from "./mask-tracker";
+import { MaskEngine, shapeToPath, type BezierPath } from "./mask-engine";
+import { MotionTrackingEngine } from "./motion-tracking-engine";
+import type { PlanarTrackerFrame } from "./planar-tracker";
+
+vi.stubGlobal(
+  "OffscreenCanvas",
+  class {
+    getContext() {
+      return {};
+    }
+  },
+);
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+const texture = (x: number, y: number): number =>
+  128 +
+  40 * Math.sin(x * 0.31) * Math.cos(y * 0.23) +
+  30 * Math.sin((x + 2 * y) * 0.17) +
+  25 * Math.cos(x * 0.53 - y * 0.41);
+
+/** Content drifting 2px right and 1px down per frame. */
+const offsetAt = (frame: number) => ({ x: 2 * frame, y: frame });
+
+const renderFrame = (frame: number): PlanarTrackerFrame => {
+  const offset = offsetAt(frame);
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = texture(x - offset.x, y - offset.y);
+      const i = (y * WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const pathAt = (frame: number, extra = 0): BezierPath => {
+  const offset = offsetAt(frame);
+  return shapeToPath({
+    type: "rectangle",
+    x: (50 + offset.x + extra) / WIDTH,
+    y: (40 + offset.y) / HEIGHT,
+    width: 50 / WIDTH,
+    height: 40 / HEIGHT,
+  });
+};
+
+const expectPathNear = (
+  actual: BezierPath,
+  expected: BezierPath,
+  pixels: number,
+) => {
+  actual.points.forEach((point, i) => {
+    expect(Math.abs(point.x - expected.points[i].x) * WIDTH).toBeLessThan(
+      pixels,
+    );
+    expect(Math.abs(point.y - expected.points[i].y) * HEIGHT).toBeLessThan(
+      pixels,
+    );
+  });
+};
+
+const runTracking = async (
+  masks: MaskEngine,
+  maskId: string,
+  options: Parameters<MotionTrackingEngine["startMaskTracking"]>[3],
+) => {
+  const engine = new MotionTrackingEngine();
+  const job = await engine.startMaskTracking(
+    masks,
+    maskId,
+    async (frame) => renderFrame(frame),
+    { frameRate: 30, ...options },
+  );
+  await vi.waitFor(() => expect(job.status).toBe("completed"), {
+    timeout: 10000,
+  });
+};
+
+describe("MaskPathTracker", () => {
+  it("should move the path with the content inside it", () => {
+    const tracker = new MaskPathTracker();
+    tracker.start(renderFrame(0), pathAt(0));
+    for (let frame = 1; frame <= 3; frame++) {
+      const result = tracker.track(renderFrame(frame));
+      expect(result.lost).toBe(false);
+      expectPathNear(result.path, pathAt(frame), 0.5);
+    }
+  });
+});
+
+describe("MotionTrackingEngine mask tracking", () => {
+  it("should write tracked keyframes at the chosen interval", async () => {
+    const masks = new MaskEngine({ width: WIDTH, height: HEIGHT });
+    const mask = masks.createDrawnMask("clip-1", pathAt(0));
+
+    await runTracking(masks, mask.id, { endFrame: 6, keyframeInterval: 2 });
+
+    const keyframes = masks.getMask(mask.id)!.keyframes;
+    expect(keyframes.map((kf) => Math.round(kf.time * 30))).toEqual([2, 4, 6]);
+    expect(keyframes.every((kf) => kf.tracked)).toBe(true);
+    expectPathNear(keyframes[2].path, pathAt(6), 0.75);
+  });
+
+  it("should meet manual keyframes and restart from them", async () => {
+    const masks = new MaskEngine({ width: WIDTH, height: HEIGHT });
+    const mask = masks.createDrawnMask("clip-1", pathAt(0));
+    masks.addMaskKeyframe(mask.id, 0, pathAt(0));
+    // The user nudged the outline 4px right at frame 4
+    masks.addMaskKeyframe(mask.id, 4 / 30, pathAt(4, 4));
+
+    await runTracking(masks, mask.id, { endFrame: 6, keyframeInterval: 2 });
+
+    const keyframes = masks.getMask(mask.id)!.keyframes;
+    const frames = keyframes.map((kf) => [
+      Math.round(kf.time * 30),
+      !!kf.tracked,
+    ]);
+    expect(frames).toEqual([
+      [0, false],
+      [2, true],
+      [4, false],
+      [6, true],
+    ]);
+    expectPathNear(keyframes[1].path, pathAt(2, 2), 0.75);
+    expectPathNear(keyframes[2].path, pathAt(4, 4), 1e-9);
+    expectPathNear(keyframes[3].path, pathAt(6, 4), 0.75);
+  });
+
+  it("should track backwards and replace earlier tracking", async () => {
+    const masks = new MaskEngine({ width: WIDTH, height: HEIGHT });
+    const mask = masks.createDrawnMask("clip-1", pathAt(6));
+    masks.replaceTrackedKeyframes(mask.id, 0, 0.1, [
+      { time: 2 / 30, path: pathAt(0) },
+    ]);
+    masks.addMaskKeyframe(mask.id, 6 / 30, pathAt(6));
+
+    await runTracking(masks, mask.id, {
+      direction: "backward",
+      startFrame: 6,
+      endFrame: 2,
+      keyframeInterval: 2,
+    });
+
+    const keyframes = masks.getMask(mask.id)!.keyframes;
+    expect(keyframes.map((kf) => Math.round(kf.time * 30))).toEqual([2, 4, 6]);
+    expectPathNear(keyframes[0].path, pathAt(2), 0.75);
+  });
+});
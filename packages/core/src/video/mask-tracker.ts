@@ -0,0 +1,175 @@
+import {
+  applyHomography,
+  estimateHomographyRansac,
+  type Homography,
+  type HomographyPoint,
+} from "./homography";
+import { mapBezierPath, type BezierPath, type MaskPoint } from "./mask-engine";
+import {
+  buildPyramid,
+  detectFeatures,
+  toGrayFrame,
+  trackFeature,
+  type GrayFrame,
+  type PlanarTrackerFrame,
+} from "./planar-tracker";
+
+export interface MaskPathTrackerOptions {
+  maxFeatures?: number;
+  windowRadius?: number;
+  pyramidLevels?: number;
+  /** Fewer features than this surviving a frame and it counts as lost. */
+  minFeatures?: number;
+}
+
+export interface MaskTrackResult {
+  /** The mask path in the new frame, normalized like every mask path. */
+  readonly path: BezierPath;
+  /** Share of followed features that agree on the motion, 0..1. */
+  readonly confidence: number;
+  /** Too few features survived; the path was left where it was. */
+  readonly lost: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<MaskPathTrackerOptions> = {
+  maxFeatures: 200,
+  windowRadius: 7,
+  pyramidLevels: 3,
+  minFeatures: 6,
+};
+
+/** Reprojection error allowed for an inlier; loose, as bodies deform. */
+const RANSAC_THRESHOLD = 3;
+
+/**
+ * Carries a bezier mask from frame to frame. Features inside the path are
+ * tracked with Lucas-Kanade; a RANSAC homography gives the overall motion
+ * and the inliers' leftover displacement, weighted by distance, bends each
+ * vertex and handle so the outline can follow a subject that changes shape.
+ */
+export class MaskPathTracker {
+  private readonly options: Required<MaskPathTrackerOptions>;
+  private previousPyramid: GrayFrame[] = [];
+  private path: BezierPath = { points: [], closed: true };
+
+  constructor(options: MaskPathTrackerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Sets the path to follow as it appears in `frame`. */
+  start(frame: PlanarTrackerFrame, path: BezierPath): void {
+    this.previousPyramid = buildPyramid(
+      toGrayFrame(frame),
+      this.options.pyramidLevels,
+    );
+    this.path = structuredClone(path);
+  }
+
+  track(frame: PlanarTrackerFrame): MaskTrackResult {
+    const { width, height } = frame;
+    const pyramid = buildPyramid(
+      toGrayFrame(frame),
+      this.options.pyramidLevels,
+    );
+    const outline = this.path.points.map((p) => ({
+      x: p.x * width,
+      y: p.y * height,
+    }));
+
+    const before: HomographyPoint[] = [];
+    const after: HomographyPoint[] = [];
+    if (outline.length >= 3) {
+      const features = detectFeatures(
+        this.previousPyramid[0],
+        outline,
+        this.options.maxFeatures,
+        6,
+      );
+      for (const feature of features) {
+        const moved = trackFeature(
+          this.previousPyramid,
+          pyramid,
+          feature,
+          this.options.windowRadius,
+        );
+        if (moved) {
+          before.push(feature);
+          after.push(moved);
+        }
+      }
+    }
+    this.previousPyramid = pyramid;
+
+    if (before.length < this.options.minFeatures) {
+      return { path: this.path, confidence: 0, lost: true };
+    }
+
+    const fit = estimateHomographyRansac(before, after, {
+      threshold: RANSAC_THRESHOLD,
+    });
+    const inliers = fit?.inliers ?? before.map(() => true);
+    const motion = fit?.homography ?? translationOf(before, after);
+    const residuals = before
+      .map((point, i) => {
+        const predicted = applyHomography(motion, point);
+        return {
+          point,
+          dx: after[i].x - predicted.x,
+          dy: after[i].y - predicted.y,
+        };
+      })
+      .filter((_, i) => inliers[i]);
+
+    const xs = outline.map((p) => p.x);
+    const ys = outline.map((p) => p.y);
+    const size = Math.max(
+      Math.max(...xs) - Math.min(...xs),
+      Math.max(...ys) - Math.min(...ys),
+      1,
+    );
+    const sigma = size / 4;
+    const move = (point: MaskPoint): MaskPoint => {
+      const pixel = { x: point.x * width, y: point.y * height };
+      const moved = applyHomography(motion, pixel);
+      let x = moved.x;
+      let y = moved.y;
+      let weightSum = 0;
+      let dx = 0;
+      let dy = 0;
+      for (const residual of residuals) {
+        const distance = Math.hypot(
+          residual.point.x - pixel.x,
+          residual.point.y - pixel.y,
+        );
+        const weight = Math.exp(-(distance * distance) / (2 * sigma * sigma));
+        weightSum += weight;
+        dx += residual.dx * weight;
+        dy += residual.dy * weight;
+      }
+      if (weightSum > 1e-6) {
+        x += dx / weightSum;
+        y += dy / weightSum;
+      }
+      return { x: x / width, y: y / height };
+    };
+
+    this.path = mapBezierPath(this.path, move);
+    const inlierCount = inliers.filter(Boolean).length;
+    return {
+      path: this.path,
+      confidence: inlierCount / before.length,
+      lost: inlierCount < this.options.minFeatures,
+    };
+  }
+}
+
+function translationOf(
+  before: readonly HomographyPoint[],
+  after: readonly HomographyPoint[],
+): Homography {
+  const median = (values: number[]) =>
+    values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  const dx = median(after.map((p, i) => p.x - before[i].x));
+  const dy = median(after.map((p, i) => p.y - before[i].y));
+  return [1, 0, dx, 0, 1, dy, 0, 0, 1];
+}
@@ -1,3 +1,39 @@
+import type { Project } from "../types/project";
+import type { CornerPin, Keyframe } from "../types/timeline";
+import {
+  getProjectClips,
+  mapProjectClips,
+  withClipState,
+  type ProjectStateEngine,
+} from "../storage/engine-state";
+import {
+  applyHomography,
+  IDENTITY_HOMOGRAPHY,
+  solveHomography,
+} from "./homography";
+import {
+  CORNER_PIN_CORNERS,
+  cornerPinToPoints,
+  pointsToCornerPin,
+} from "./corner-pin";
+import type { BezierPath, MaskEngine } from "./mask-engine";
+import { MaskPathTracker, type MaskPathTrackerOptions } from "./mask-tracker";
+import {
+  PlanarTracker,
+  type PlanarTrackerFrame,
+  type PlanarTrackerOptions,
+} from "./planar-tracker";
+import {
+  accumulateCameraPath,
+  CameraMotionEstimator,
+  computeStabilizationTransforms,
+  DEFAULT_STABILIZATION_SETTINGS,
+  type CameraMotionOptions,
+  type ClipStabilization,
+  type StabilizationSettings,
+  type StabilizationTransform,
+} from "./stabilizer";
+
 export interface Point {
   x: number;
   y: number;
@@ -35,6 +71,8 @@ export interface TrackingJob {
   startTime: number;
   endTime?: number;
   error?: string;
+  /** Id of the track the job produced, once it has completed. */
+  trackId?: string;
 }
 
 export interface TrackingKeyframe {
@@ -62,6 +100,68 @@ export interface TrackingAttachment {
   applyRotation: boolean;
 }
 
+export interface PlanarTrackKeyframe {
+  frame: number;
+  /** Where the tracked plane's reference corners sit in this frame. */
+  corners: CornerPin;
+  /** Row-major 3x3 map from the reference frame onto this frame. */
+  homography: number[];
+}
+
+export interface PlanarTrackingData {
+  trackId: string;
+  clipId: string;
+  referenceFrame: number;
+  referenceCorners: CornerPin;
+  keyframes: PlanarTrackKeyframe[];
+  confidence: number[];
+  lostFrames: number[];
+  frameRate: number;
+}
+
+export interface CornerPinAttachment {
+  elementId: string;
+  trackId: string;
+  /**
+   * The element's corners in the reference frame. Defaults to the tracked
+   * quad, so the element exactly covers the tracked surface.
+   */
+  corners?: CornerPin;
+}
+
+export interface PlanarTrackingOptions
+  extends TrackingOptions,
+    PlanarTrackerOptions {}
+
+export interface PlanarKeyframeExportOptions {
+  /** Corners to pin in the reference frame; defaults to the tracked quad. */
+  corners?: CornerPin;
+  /** Added to every keyframe time, e.g. to line up with another clip. */
+  timeOffset?: number;
+}
+
+export interface MaskTrackingOptions
+  extends TrackingOptions,
+    MaskPathTrackerOptions {
+  /** Backward runs from `startFrame` down to `endFrame`. */
+  direction?: "forward" | "backward";
+  /** Write a keyframe every this many frames. */
+  keyframeInterval?: number;
+}
+
+export interface StabilizationOptions
+  extends TrackingOptions,
+    CameraMotionOptions,
+    Partial<StabilizationSettings> {}
+
+/**
+ * Supplies RGBA pixels for a frame of the tracked clip, in the same pixel
+ * space as the corners, or null once the clip has no more frames.
+ */
+export type PlanarFrameProvider = (
+  frame: number,
+) => Promise<PlanarTrackerFrame | null>;
+
 export type TrackingProgressCallback = (progress: number) => void;
 
 export type TrackingLostCallback = (frameIndex: number) => void;
@@ -70,10 +170,79 @@ function generateId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
-export class MotionTrackingEngine {
+function getBoundingRectangle(corners: CornerPin): Rectangle {
+  const points = cornerPinToPoints(corners);
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function interpolateCornerPin(
+  a: CornerPin,
+  b: CornerPin,
+  t: number,
+): CornerPin {
+  const from = cornerPinToPoints(a);
+  const to = cornerPinToPoints(b);
+  return pointsToCornerPin(
+    from.map((p, i) => ({
+      x: p.x + (to[i].x - p.x) * t,
+      y: p.y + (to[i].y - p.y) * t,
+    })),
+  );
+}
+
+/**
+ * Shifts each pending path towards the anchor in proportion to how far
+ * along the segment it is, so the error found at the anchor is spread
+ * over the frames that built it up.
+ */
+function spreadDrift(
+  pending: readonly { frame: number; path: BezierPath }[],
+  tracked: BezierPath,
+  anchor: BezierPath,
+  segmentStart: number,
+  anchorFrame: number,
+): { frame: number; path: BezierPath }[] {
+  if (tracked.points.length !== anchor.points.length) {
+    return [...pending];
+  }
+  const error = anchor.points.map((point, i) => ({
+    x: point.x - tracked.points[i].x,
+    y: point.y - tracked.points[i].y,
+  }));
+  const span = anchorFrame - segmentStart;
+  return pending.map(({ frame, path }) => {
+    const weight = (frame - segmentStart) / span;
+    return {
+      frame,
+      path: {
+        closed: path.closed,
+        points: path.points.map((point, i) => {
+          const shift = (p: { x: number; y: number }) => ({
+            x: p.x + error[i].x * weight,
+            y: p.y + error[i].y * weight,
+          });
+          return {
+            ...shift(point),
+            ...(point.handleIn && { handleIn: shift(point.handleIn) }),
+            ...(point.handleOut && { handleOut: shift(point.handleOut) }),
+          };
+        }),
+      },
+    };
+  });
+}
+
+export class MotionTrackingEngine implements ProjectStateEngine {
   private trackingJobs: Map<string, TrackingJob> = new Map();
   private trackingData: Map<string, TrackingData> = new Map();
   private attachments: Map<string, TrackingAttachment> = new Map();
+  private planarData: Map<string, PlanarTrackingData> = new Map();
+  private cornerPinAttachments: Map<string, CornerPinAttachment> = new Map();
+  private stabilization: Map<string, ClipStabilization> = new Map();
   private progressCallbacks: Set<TrackingProgressCallback> = new Set();
   private lostCallbacks: Set<TrackingLostCallback> = new Set();
 
@@ -166,6 +335,7 @@ export class MotionTrackingEngine {
     this.trackingData.set(trackId, trackingData);
 
     // Complete job
+    job.trackId = trackId;
     job.status = "completed";
     job.progress = 100;
     job.endTime = Date.now();
@@ -204,6 +374,491 @@ export class MotionTrackingEngine {
     };
   }
 
+  // Planar Tracking
+  /**
+   * Tracks the plane inside `corners` from `options.startFrame` onwards and
+   * stores a homography per frame. Frames come from `getFrame`, so the
+   * caller decides how the clip is decoded and at what resolution.
+   */
+  async startPlanarTracking(
+    clipId: string,
+    corners: CornerPin,
+    getFrame: PlanarFrameProvider,
+    options: PlanarTrackingOptions = {},
+  ): Promise<TrackingJob> {
+    const {
+      frameRate,
+      startFrame,
+      endFrame,
+      algorithm: _algorithm,
+      confidenceThreshold,
+      ...trackerOptions
+    } = options;
+    const job: TrackingJob = {
+      id: generateId("track-job"),
+      clipId,
+      region: getBoundingRectangle(corners),
+      status: "pending",
+      progress: 0,
+      options: {
+        frameRate: frameRate ?? 30,
+        startFrame: startFrame ?? 0,
+        endFrame: endFrame ?? 300,
+        algorithm: "feature",
+        confidenceThreshold: confidenceThreshold ?? 0.5,
+      },
+      startTime: Date.now(),
+    };
+
+    this.trackingJobs.set(job.id, job);
+    this.runPlanarTracking(job, corners, getFrame, trackerOptions).catch(
+      (error) => {
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+        job.endTime = Date.now();
+      },
+    );
+
+    return job;
+  }
+
+  private async runPlanarTracking(
+    job: TrackingJob,
+    corners: CornerPin,
+    getFrame: PlanarFrameProvider,
+    trackerOptions: PlanarTrackerOptions,
+  ): Promise<void> {
+    job.status = "running";
+    const startFrame = job.options.startFrame ?? 0;
+    const endFrame = job.options.endFrame ?? 300;
+    const threshold = job.options.confidenceThreshold ?? 0.5;
+    const totalFrames = Math.max(1, endFrame - startFrame);
+
+    const reference = await getFrame(startFrame);
+    if (!reference) {
+      throw new Error(`Frame ${startFrame} is not available for tracking`);
+    }
+    const tracker = new PlanarTracker(trackerOptions);
+    const featureCount = tracker.initialize(
+      reference,
+      cornerPinToPoints(corners),
+    );
+    if (featureCount < (trackerOptions.minInliers ?? 8)) {
+      throw new Error("Not enough detail inside the corners to track");
+    }
+
+    const keyframes: PlanarTrackKeyframe[] = [
+      { frame: startFrame, corners, homography: [...IDENTITY_HOMOGRAPHY] },
+    ];
+    const confidence: number[] = [1];
+    const lostFrames: number[] = [];
+
+    for (let frame = startFrame + 1; frame <= endFrame; frame++) {
+      const currentJob = this.trackingJobs.get(job.id);
+      if (!currentJob || currentJob.status === "cancelled") {
+        return;
+      }
+      const image = await getFrame(frame);
+      if (!image) break;
+
+      const result = tracker.track(image);
+      keyframes.push({
+        frame,
+        corners: pointsToCornerPin(result.corners),
+        homography: [...result.homography],
+      });
+      confidence.push(result.confidence);
+      if (result.lost || result.confidence < threshold) {
+        lostFrames.push(frame);
+        this.notifyTrackingLost(frame);
+      }
+      job.progress = ((frame - startFrame) / totalFrames) * 100;
+      this.notifyProgress(job.progress);
+
+      // Yield to allow cancellation
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const trackId = generateId("planar-track");
+    this.planarData.set(trackId, {
+      trackId,
+      clipId: job.clipId,
+      referenceFrame: startFrame,
+      referenceCorners: corners,
+      keyframes,
+      confidence,
+      lostFrames,
+      frameRate: job.options.frameRate ?? 30,
+    });
+
+    job.trackId = trackId;
+    job.status = "completed";
+    job.progress = 100;
+    job.endTime = Date.now();
+  }
+
+  // Mask Tracking
+  /**
+   * Propagates a mask's path from `startFrame` to `endFrame` and writes
+   * tracked keyframes every `keyframeInterval` frames. Manual keyframes in
+   * the way are anchors: tracking restarts from each one, and the drift
+   * accumulated on the way is spread back over the frames before it so the
+   * tracked path meets the anchor exactly. Frame times are clip-local,
+   * `frame / frameRate` seconds, like the mask's keyframes.
+   */
+  async startMaskTracking(
+    masks: MaskEngine,
+    maskId: string,
+    getFrame: PlanarFrameProvider,
+    options: MaskTrackingOptions = {},
+  ): Promise<TrackingJob> {
+    const mask = masks.getMask(maskId);
+    if (!mask) {
+      throw new Error(`Mask not found: ${maskId}`);
+    }
+    const {
+      frameRate,
+      startFrame,
+      endFrame,
+      algorithm: _algorithm,
+      confidenceThreshold,
+      direction = "forward",
+      keyframeInterval = 5,
+      ...trackerOptions
+    } = options;
+    const first = startFrame ?? 0;
+    const job: TrackingJob = {
+      id: generateId("track-job"),
+      clipId: mask.clipId,
+      region: { x: 0, y: 0, width: 0, height: 0 },
+      status: "pending",
+      progress: 0,
+      options: {
+        frameRate: frameRate ?? 30,
+        startFrame: first,
+        endFrame: endFrame ?? (direction === "forward" ? first + 300 : 0),
+        algorithm: "optical-flow",
+        confidenceThreshold: confidenceThreshold ?? 0.5,
+      },
+      startTime: Date.now(),
+    };
+
+    this.trackingJobs.set(job.id, job);
+    this.runMaskTracking(
+      job,
+      masks,
+      maskId,
+      getFrame,
+      Math.max(1, Math.round(keyframeInterval)),
+      trackerOptions,
+    ).catch((error) => {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      job.endTime = Date.now();
+    });
+
+    return job;
+  }
+
+  private async runMaskTracking(
+    job: TrackingJob,
+    masks: MaskEngine,
+    maskId: string,
+    getFrame: PlanarFrameProvider,
+    keyframeInterval: number,
+    trackerOptions: MaskPathTrackerOptions,
+  ): Promise<void> {
+    job.status = "running";
+    const frameRate = job.options.frameRate ?? 30;
+    const startFrame = job.options.startFrame ?? 0;
+    const endFrame = job.options.endFrame ?? startFrame;
+    const threshold = job.options.confidenceThreshold ?? 0.5;
+    const step = endFrame >= startFrame ? 1 : -1;
+    const totalFrames = Math.max(1, Math.abs(endFrame - startFrame));
+
+    const anchors = new Map<number, BezierPath>();
+    for (const kf of masks.getMask(maskId)?.keyframes ?? []) {
+      if (!kf.tracked) {
+        anchors.set(Math.round(kf.time * frameRate), kf.path);
+      }
+    }
+
+    const tracker = new MaskPathTracker(trackerOptions);
+    const startImage = await getFrame(startFrame);
+    const startPath = masks.getMaskAtTime(maskId, startFrame / frameRate);
+    if (!startImage || !startPath) {
+      throw new Error(`Frame ${startFrame} is not available for tracking`);
+    }
+    tracker.start(startImage, startPath);
+
+    const written: { frame: number; path: BezierPath }[] = [];
+    let segmentStart = startFrame;
+    let pending: { frame: number; path: BezierPath }[] = [];
+    let lastFrame = startFrame;
+    let lastPath = startPath;
+
+    for (
+      let frame = startFrame + step;
+      step > 0 ? frame <= endFrame : frame >= endFrame;
+      frame += step
+    ) {
+      const currentJob = this.trackingJobs.get(job.id);
+      if (!currentJob || currentJob.status === "cancelled") {
+        return;
+      }
+      const image = await getFrame(frame);
+      if (!image) break;
+      const result = tracker.track(image);
+      lastFrame = frame;
+      lastPath = result.path;
+      if (result.lost || result.confidence < threshold) {
+        this.notifyTrackingLost(frame);
+      }
+
+      const anchor = anchors.get(frame);
+      if (anchor) {
+        written.push(
+          ...spreadDrift(pending, result.path, anchor, segmentStart, frame),
+        );
+        pending = [];
+        segmentStart = frame;
+        tracker.start(image, anchor);
+      } else if (
+        Math.abs(frame - segmentStart) % keyframeInterval === 0 ||
+        frame === endFrame
+      ) {
+        pending.push({ frame, path: result.path });
+      }
+
+      job.progress = (Math.abs(frame - startFrame) / totalFrames) * 100;
+      this.notifyProgress(job.progress);
+
+      // Yield to allow cancellation
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    // The clip ran out of frames before endFrame; keep where it got to
+    if (
+      lastFrame !== segmentStart &&
+      pending[pending.length - 1]?.frame !== lastFrame
+    ) {
+      pending.push({ frame: lastFrame, path: lastPath });
+    }
+    written.push(...pending);
+
+    if (lastFrame !== startFrame) {
+      masks.replaceTrackedKeyframes(
+        maskId,
+        (startFrame + step) / frameRate,
+        lastFrame / frameRate,
+        written.map(({ frame, path }) => ({ time: frame / frameRate, path })),
+      );
+    }
+
+    job.status = "completed";
+    job.progress = 100;
+    job.endTime = Date.now();
+  }
+
+  // Stabilization
+  /**
+   * Measures the camera motion over a clip's frames and stores per-frame
+   * corrections that move it onto a smoothed path. Frame `n` must be the
+   * source frame at `clip.inPoint + n / frameRate`. Analysis stops at
+   * `endFrame` or at the first frame the provider cannot supply; frames
+   * without enough agreeing features count as still and are listed in
+   * `lostFrames`.
+   */
+  async startStabilization(
+    clipId: string,
+    getFrame: PlanarFrameProvider,
+    options: StabilizationOptions = {},
+  ): Promise<TrackingJob> {
+    const {
+      frameRate,
+      startFrame,
+      endFrame,
+      algorithm: _algorithm,
+      confidenceThreshold,
+      enabled,
+      strength,
+      zoomMode,
+      ...estimatorOptions
+    } = options;
+    const job: TrackingJob = {
+      id: generateId("track-job"),
+      clipId,
+      region: { x: 0, y: 0, width: 0, height: 0 },
+      status: "pending",
+      progress: 0,
+      options: {
+        frameRate: frameRate ?? 30,
+        startFrame: startFrame ?? 0,
+        endFrame: endFrame ?? 300,
+        algorithm: "feature",
+        confidenceThreshold: confidenceThreshold ?? 0.5,
+      },
+      startTime: Date.now(),
+    };
+    const settings: StabilizationSettings = {
+      enabled: enabled ?? DEFAULT_STABILIZATION_SETTINGS.enabled,
+      strength: strength ?? DEFAULT_STABILIZATION_SETTINGS.strength,
+      zoomMode: zoomMode ?? DEFAULT_STABILIZATION_SETTINGS.zoomMode,
+    };
+
+    this.trackingJobs.set(job.id, job);
+    this.runStabilization(job, getFrame, settings, estimatorOptions).catch(
+      (error) => {
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+        job.endTime = Date.now();
+      },
+    );
+
+    return job;
+  }
+
+  private async runStabilization(
+    job: TrackingJob,
+    getFrame: PlanarFrameProvider,
+    settings: StabilizationSettings,
+    estimatorOptions: CameraMotionOptions,
+  ): Promise<void> {
+    job.status = "running";
+    const startFrame = job.options.startFrame ?? 0;
+    const endFrame = job.options.endFrame ?? 300;
+    const frameRate = job.options.frameRate ?? 30;
+    const threshold = job.options.confidenceThreshold ?? 0.5;
+    const totalFrames = Math.max(1, endFrame - startFrame);
+
+    const first = await getFrame(startFrame);
+    if (!first) {
+      throw new Error(`Frame ${startFrame} is not available for tracking`);
+    }
+    const { width, height } = first;
+    job.region = { x: 0, y: 0, width, height };
+    const estimator = new CameraMotionEstimator(estimatorOptions);
+    estimator.start(first);
+
+    const path: StabilizationTransform[] = [
+      { frame: startFrame, x: 0, y: 0, rotation: 0, scale: 1 },
+    ];
+    const lostFrames: number[] = [];
+
+    for (let frame = startFrame + 1; frame <= endFrame; frame++) {
+      const currentJob = this.trackingJobs.get(job.id);
+      if (!currentJob || currentJob.status === "cancelled") {
+        return;
+      }
+      const image = await getFrame(frame);
+      if (!image) break;
+
+      const motion = estimator.next(image);
+      if (motion.lost || motion.confidence < threshold) {
+        lostFrames.push(frame);
+        this.notifyTrackingLost(frame);
+      }
+      // A lost frame reports no motion, so the path holds still across it
+      path.push(
+        accumulateCameraPath(path[path.length - 1], motion, width, height),
+      );
+      job.progress = ((frame - startFrame) / totalFrames) * 100;
+      this.notifyProgress(job.progress);
+
+      // Yield to allow cancellation
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    this.stabilization.set(job.clipId, {
+      ...settings,
+      clipId: job.clipId,
+      frameRate,
+      frameWidth: width,
+      frameHeight: height,
+      path,
+      transforms: computeStabilizationTransforms(
+        path,
+        settings,
+        frameRate,
+        width,
+        height,
+      ),
+      lostFrames,
+    });
+
+    job.status = "completed";
+    job.progress = 100;
+    job.endTime = Date.now();
+  }
+
+  getStabilization(clipId: string): ClipStabilization | undefined {
+    return this.stabilization.get(clipId);
+  }
+
+  /**
+   * Changes strength, zoom or the on/off switch of an analyzed clip. The
+   * corrections are recomputed from the stored camera path, so this does
+   * not need the frames again.
+   */
+  updateStabilizationSettings(
+    clipId: string,
+    settings: Partial<StabilizationSettings>,
+  ): ClipStabilization {
+    const current = this.stabilization.get(clipId);
+    if (!current) {
+      throw new Error(`Stabilization not found for clip: ${clipId}`);
+    }
+    const next = { ...current, ...settings };
+    const updated: ClipStabilization = {
+      ...next,
+      transforms: computeStabilizationTransforms(
+        next.path,
+        next,
+        next.frameRate,
+        next.frameWidth,
+        next.frameHeight,
+      ),
+    };
+    this.stabilization.set(clipId, updated);
+    return updated;
+  }
+
+  removeStabilization(clipId: string): void {
+    this.stabilization.delete(clipId);
+  }
+
+  getPlanarTrackingData(trackId: string): PlanarTrackingData | undefined {
+    return this.planarData.get(trackId);
+  }
+
+  getPlanarTracksForClip(clipId: string): PlanarTrackingData[] {
+    return Array.from(this.planarData.values()).filter(
+      (d) => d.clipId === clipId,
+    );
+  }
+
+  /** Tracked quad at a time in the tracked clip, between frames linearly. */
+  getPlanarCornersAtTime(trackId: string, time: number): CornerPin | null {
+    const data = this.planarData.get(trackId);
+    if (!data || data.keyframes.length === 0) {
+      return null;
+    }
+    const frame = time * data.frameRate;
+    const next = data.keyframes.findIndex((kf) => kf.frame > frame);
+    if (next === 0) {
+      return data.keyframes[0].corners;
+    }
+    if (next === -1) {
+      return data.keyframes[data.keyframes.length - 1].corners;
+    }
+    const a = data.keyframes[next - 1];
+    const b = data.keyframes[next];
+    return interpolateCornerPin(
+      a.corners,
+      b.corners,
+      (frame - a.frame) / (b.frame - a.frame),
+    );
+  }
+
   cancelTracking(jobId: string): void {
     const job = this.trackingJobs.get(jobId);
     if (job && job.status === "running") {
@@ -323,6 +978,92 @@ export class MotionTrackingEngine {
         (nextKeyframe.position.y - prevKeyframe.position.y) * t,
     };
   }
+  // Corner Pin Application
+  attachCornerPin(
+    trackId: string,
+    elementId: string,
+    corners?: CornerPin,
+  ): void {
+    if (!this.planarData.has(trackId)) {
+      throw new Error(`Planar tracking data not found: ${trackId}`);
+    }
+    this.cornerPinAttachments.set(elementId, { elementId, trackId, corners });
+  }
+
+  detachCornerPin(elementId: string): void {
+    this.cornerPinAttachments.delete(elementId);
+  }
+
+  getCornerPinAttachment(elementId: string): CornerPinAttachment | undefined {
+    return this.cornerPinAttachments.get(elementId);
+  }
+
+  /**
+   * Where a corner-pinned element's corners are at a time in the tracked
+   * clip: its reference corners carried through that frame's homography.
+   */
+  getCornerPinAtTime(elementId: string, time: number): CornerPin | null {
+    const attachment = this.cornerPinAttachments.get(elementId);
+    const data = attachment && this.planarData.get(attachment.trackId);
+    if (!attachment || !data) {
+      return null;
+    }
+    const tracked = this.getPlanarCornersAtTime(data.trackId, time);
+    if (!tracked || !attachment.corners) {
+      return tracked;
+    }
+    const homography = solveHomography(
+      cornerPinToPoints(data.referenceCorners),
+      cornerPinToPoints(tracked),
+    );
+    if (!homography) {
+      return null;
+    }
+    return pointsToCornerPin(
+      cornerPinToPoints(attachment.corners).map((p) =>
+        applyHomography(homography, p),
+      ),
+    );
+  }
+
+  /**
+   * Bakes a planar track into `cornerPin.*` keyframes, one set per tracked
+   * frame, skipping frames where tracking was lost. Times are in seconds of
+   * the tracked clip plus `timeOffset`.
+   */
+  exportPlanarTrackAsKeyframes(
+    trackId: string,
+    options: PlanarKeyframeExportOptions = {},
+  ): Keyframe[] {
+    const data = this.planarData.get(trackId);
+    if (!data) {
+      throw new Error(`Planar tracking data not found: ${trackId}`);
+    }
+    const lost = new Set(data.lostFrames);
+    const { corners, timeOffset = 0 } = options;
+
+    const keyframes: Keyframe[] = [];
+    for (const kf of data.keyframes) {
+      if (lost.has(kf.frame)) continue;
+      const points = corners
+        ? cornerPinToPoints(corners).map((p) =>
+            applyHomography(kf.homography, p),
+          )
+        : cornerPinToPoints(kf.corners);
+      CORNER_PIN_CORNERS.forEach((corner, index) => {
+        for (const axis of ["x", "y"] as const) {
+          keyframes.push({
+            id: generateId("keyframe"),
+            time: kf.frame / data.frameRate + timeOffset,
+            property: `cornerPin.${corner}.${axis}`,
+            value: points[index][axis],
+            easing: "linear",
+          });
+        }
+      });
+    }
+    return keyframes;
+  }
   // Tracking Lost Notification (Requirement 23.4)
   onTrackingProgress(callback: TrackingProgressCallback): () => void {
     this.progressCallbacks.add(callback);
@@ -384,6 +1125,49 @@ export class MotionTrackingEngine {
 
     this.trackingData.set(trackId, data);
   }
+
+  /** Sets the tracked quad at a frame by hand, like correctTrackingPoint. */
+  correctPlanarCorners(
+    trackId: string,
+    frameIndex: number,
+    corners: CornerPin,
+  ): void {
+    const data = this.planarData.get(trackId);
+    if (!data) {
+      throw new Error(`Planar tracking data not found: ${trackId}`);
+    }
+    const homography = solveHomography(
+      cornerPinToPoints(data.referenceCorners),
+      cornerPinToPoints(corners),
+    );
+    if (!homography) {
+      throw new Error("Corners must form a quad with no three in a line");
+    }
+    const keyframe: PlanarTrackKeyframe = {
+      frame: frameIndex,
+      corners,
+      homography: [...homography],
+    };
+
+    const keyframeIndex = data.keyframes.findIndex(
+      (kf) => kf.frame === frameIndex,
+    );
+    if (keyframeIndex >= 0) {
+      data.keyframes[keyframeIndex] = keyframe;
+      data.confidence[keyframeIndex] = 1.0;
+      const lostIndex = data.lostFrames.indexOf(frameIndex);
+      if (lostIndex >= 0) {
+        data.lostFrames.splice(lostIndex, 1);
+      }
+    } else {
+      let insertIndex = data.keyframes.findIndex((kf) => kf.frame > frameIndex);
+      if (insertIndex === -1) {
+        insertIndex = data.keyframes.length;
+      }
+      data.keyframes.splice(insertIndex, 0, keyframe);
+      data.confidence.splice(insertIndex, 0, 1.0);
+    }
+  }
   // Offset Management (Requirement 23.5)
   setTrackingOffset(elementId: string, offset: Point): void {
     const attachment = this.attachments.get(elementId);
@@ -420,6 +1204,12 @@ export class MotionTrackingEngine {
       }
     }
     this.trackingData.delete(trackId);
+    for (const [elementId, attachment] of this.cornerPinAttachments) {
+      if (attachment.trackId === trackId) {
+        this.cornerPinAttachments.delete(elementId);
+      }
+    }
+    this.planarData.delete(trackId);
   }
 
   deleteTrackingDataForClip(clipId: string): void {
@@ -428,20 +1218,111 @@ export class MotionTrackingEngine {
         this.deleteTrackingData(trackId);
       }
     }
+    for (const [trackId, data] of this.planarData) {
+      if (data.clipId === clipId) {
+        this.deleteTrackingData(trackId);
+      }
+    }
+    this.stabilization.delete(clipId);
   }
 
   clear(): void {
     this.trackingJobs.clear();
     this.trackingData.clear();
     this.attachments.clear();
+    this.planarData.clear();
+    this.cornerPinAttachments.clear();
+    this.stabilization.clear();
   }
 
   getTrackIds(): string[] {
     return Array.from(this.trackingData.keys());
   }
 
+  /** Loads tracks and attachments; running tracking jobs are left alone. */
+  hydrateFromProject(project: Project): void {
+    this.trackingData.clear();
+    this.attachments.clear();
+    this.planarData.clear();
+    this.cornerPinAttachments.clear();
+    this.stabilization.clear();
+    for (const clip of getProjectClips(project)) {
+      for (const data of clip.motionTracks ?? []) {
+        this.trackingData.set(data.trackId, {
+          ...structuredClone(data),
+          clipId: clip.id,
+        });
+      }
+      for (const data of clip.planarTracks ?? []) {
+        this.planarData.set(data.trackId, {
+          ...structuredClone(data),
+          clipId: clip.id,
+        });
+      }
+      if (clip.stabilization) {
+        this.stabilization.set(clip.id, {
+          ...structuredClone(clip.stabilization),
+          clipId: clip.id,
+        });
+      }
+    }
+    for (const attachment of project.timeline.trackingAttachments ?? []) {
+      if (this.trackingData.has(attachment.trackId)) {
+        this.attachments.set(attachment.elementId, structuredClone(attachment));
+      }
+    }
+    for (const attachment of project.timeline.cornerPinAttachments ?? []) {
+      if (this.planarData.has(attachment.trackId)) {
+        this.cornerPinAttachments.set(
+          attachment.elementId,
+          structuredClone(attachment),
+        );
+      }
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    const withTracks = mapProjectClips(project, (clip) =>
+      withClipState(
+        withClipState(
+          withClipState(
+            clip,
+            "motionTracks",
+            this.getTrackingDataForClip(clip.id),
+          ),
+          "planarTracks",
+          this.getPlanarTracksForClip(clip.id),
+        ),
+        "stabilization",
+        this.stabilization.get(clip.id),
+      ),
+    );
+    const {
+      trackingAttachments: _previous,
+      cornerPinAttachments: _previousPins,
+      ...timeline
+    } = withTracks.timeline;
+    const attachments = Array.from(this.attachments.values());
+    const pins = Array.from(this.cornerPinAttachments.values());
+    return {
+      ...withTracks,
+      timeline: {
+        ...timeline,
+        ...(attachments.length > 0 && {
+          trackingAttachments: structuredClone(attachments),
+        }),
+        ...(pins.length > 0 && {
+          cornerPinAttachments: structuredClone(pins),
+        }),
+      },
+    };
+  }
+
   hasTracking(elementId: string): boolean {
-    return this.attachments.has(elementId);
+    return (
+      this.attachments.has(elementId) ||
+      this.cornerPinAttachments.has(elementId)
+    );
   }
 }
 let motionTrackingEngineInstance: MotionTrackingEngine | null = null;
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectSpeakers,
+  planAutoSwitches,
+  type MicrophoneSignal,
+} from "./multicam-auto-switch";
+import { MultiCamEngine } from "./multicam-engine";
+
+const SAMPLE_RATE = 8000;
+const DURATION = 20;
+
+type Talk = [start: number, end: number];
+
+/**
+ * A lapel mic: its own speaker loud, everyone else bleeding in 20 dB down,
+ * over a faint hiss.
+ */
+const micSignal = (own: Talk[], others: Talk[]): Float32Array => {
+  const samples = new Float32Array(SAMPLE_RATE * DURATION);
+  const within = (talks: Talk[], time: number) =>
+    talks.some(([start, end]) => time >= start && time < end);
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    const voice = Math.sin(2 * Math.PI * 220 * time);
+    let amplitude = 0;
+    if (within(own, time)) amplitude = 0.3;
+    else if (within(others, time)) amplitude = 0.03;
+    samples[i] = amplitude * voice + 0.001 * Math.sin(i * 1.7);
+  }
+  return samples;
+};
+
+const HOST: Talk[] = [
+  [0, 6],
+  [7, 15],
+];
+const GUEST: Talk[] = [
+  [6, 7],
+  [12, 20],
+];
+
+const signals = (): MicrophoneSignal[] => [
+  { angleId: "host", samples: micSignal(HOST, GUEST), sampleRate: SAMPLE_RATE },
+  {
+    angleId: "guest",
+    samples: micSignal(GUEST, HOST),
+    sampleRate: SAMPLE_RATE,
+  },
+];
+
+const fakeBuffer = (samples: Float32Array) =>
+  ({
+    length: samples.length,
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    duration: samples.length / SAMPLE_RATE,
+    getChannelData: () => samples,
+  }) as unknown as AudioBuffer;
+
+const summarize = (cuts: { angleId: string; time: number }[]) =>
+  cuts.map((cut) => [cut.angleId, Math.round(cut.time * 10) / 10]);
+
+describe("detectSpeakers", () => {
+  it("should ignore bleed from the other mic", () => {
+    const activity = detectSpeakers(signals());
+    const at = (index: number, time: number) =>
+      activity.active[index][Math.round(time / activity.frameDuration)];
+    expect(at(0, 3)).toBe(1);
+    expect(at(1, 3)).toBe(0);
+    expect(at(1, 6.5)).toBe(1);
+    expect(at(0, 13)).toBe(1);
+    expect(at(1, 13)).toBe(1);
+    expect(at(0, 18)).toBe(0);
+  });
+});
+
+describe("planAutoSwitches", () => {
+  it("should follow the speaker and respect the minimum shot", () => {
+    const cuts = planAutoSwitches(detectSpeakers(signals()), {
+      minShotDuration: 2,
+      wideAngleId: "wide",
+    });
+    expect(summarize(cuts)).toEqual([
+      ["host", 0],
+      ["guest", 6],
+      // The host is back at 7, but the guest shot must last two seconds
+      ["host", 8],
+      ["wide", 12],
+      ["guest", 15],
+    ]);
+  });
+
+  it("should stay on the current speaker when talk overlaps and there is no wide shot", () => {
+    const cuts = planAutoSwitches(detectSpeakers(signals()), {
+      minShotDuration: 2,
+    });
+    expect(summarize(cuts)).toEqual([
+      ["host", 0],
+      ["guest", 6],
+      ["host", 8],
+      ["guest", 15],
+    ]);
+  });
+
+  it("should add repeatable cutaways that keep every shot long enough", () => {
+    const options = {
+      minShotDuration: 1,
+      cutawayChance: 1,
+      cutawayDuration: 1.5,
+      cutawayAngleIds: ["host", "guest", "wide"],
+      seed: 7,
+    };
+    const activity = detectSpeakers(signals());
+    const cuts = planAutoSwitches(activity, options);
+    expect(cuts).toEqual(planAutoSwitches(activity, options));
+    expect(cuts.length).toBeGreaterThan(5);
+
+    const ends = [...cuts.slice(1).map((cut) => cut.time), DURATION];
+    cuts.forEach((cut, index) => {
+      expect(ends[index] - cut.time).toBeGreaterThanOrEqual(1 - 1e-9);
+      if (index > 0) expect(cut.angleId).not.toBe(cuts[index - 1].angleId);
+    });
+  });
+});
+
+describe("MultiCamEngine auto switching", () => {
+  it("should replace the cut list from the assigned microphones", () => {
+    const engine = new MultiCamEngine();
+    const group = engine.createGroup("Podcast", ["c1", "c2", "c3"]);
+    const [host, guest, wide] = group.angles;
+    engine.setAngleMicrophone(group.id, host.id, "track-host");
+    engine.setAngleMicrophone(group.id, guest.id, "track-guest");
+    engine.setWideAngle(group.id, wide.id);
+    engine.addSwitch(group.id, guest.id, 1);
+
+    const [hostMic, guestMic] = signals();
+    const switches = engine.autoSwitchByAudio(
+      group.id,
+      new Map([
+        [host.id, fakeBuffer(hostMic.samples)],
+        [guest.id, fakeBuffer(guestMic.samples)],
+      ]),
+      { minShotDuration: 2 },
+    );
+
+    expect(switches.map((s) => s.angleId)).toEqual([
+      host.id,
+      guest.id,
+      host.id,
+      wide.id,
+      guest.id,
+    ]);
+    expect(new Set(switches.map((s) => s.id)).size).toBe(5);
+    expect(engine.getGroup(group.id)!.duration).toBeCloseTo(DURATION, 6);
+    expect(engine.getGroup(group.id)!.angles[0].micTrackId).toBe("track-host");
+    expect(() => engine.autoSwitchByAudio(group.id, new Map())).toThrow(
+      "Assign a microphone",
+    );
+  });
+
+  it("should overwrite the played range during live switching", () => {
+    const engine = new MultiCamEngine();
+    const group = engine.createGroup("Live", ["c1", "c2", "c3"]);
+    const [a, b, c] = group.angles;
+    engine.addSwitch(group.id, b.id, 3);
+    engine.addSwitch(group.id, c.id, 6);
+    engine.addSwitch(group.id, a.id, 12);
+
+    expect(engine.liveSwitch(group.id, b.id, 1)).toBeNull();
+    engine.startLiveSwitching(group.id, 2);
+    expect(engine.isLiveSwitching(group.id)).toBe(true);
+    engine.liveSwitch(group.id, c.id, 4);
+    engine.liveSwitch(group.id, b.id, 5);
+    engine.stopLiveSwitching(group.id, 8);
+
+    const cuts = engine.getSwitches(group.id).map((s) => [s.angleId, s.time]);
+    expect(cuts).toEqual([
+      [c.id, 4],
+      [b.id, 5],
+      // The old edit had angle 3 here, so it resumes where the pass ended
+      [c.id, 8],
+      [a.id, 12],
+    ]);
+    expect(engine.isLiveSwitching(group.id)).toBe(false);
+    expect(engine.getActiveAngle(group.id)?.id).toBe(b.id);
+  });
+});
@@ -0,0 +1,219 @@
+import { getBeatDetectionProcessor } from "../wasm/beat-detection";
+
+/** Mono samples from one angle's microphone, on the group's clock. */
+export interface MicrophoneSignal {
+  angleId: string;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface SpeakerDetectionOptions {
+  /** Analysis step in seconds; cuts land on multiples of it. */
+  frameDuration?: number;
+  /** Level above a mic's own noise floor that counts as speech, in dB. */
+  speechThreshold?: number;
+  /**
+   * How far below the loudest talker a mic may sit and still count as
+   * speaking, in dB. Every mic hears the person talking; this keeps that
+   * bleed from reading as a second speaker.
+   */
+  crosstalkRange?: number;
+  /** Seconds a mic stays active after it goes quiet, bridging word gaps. */
+  holdTime?: number;
+}
+
+export interface SpeakerActivity {
+  frameDuration: number;
+  frameCount: number;
+  angleIds: string[];
+  /** Per angle, per frame: dB above that mic's noise floor. */
+  levels: Float32Array[];
+  /** Per angle, per frame: 1 while that person is speaking. */
+  active: Uint8Array[];
+}
+
+export interface AutoSwitchOptions extends SpeakerDetectionOptions {
+  /** Shortest shot a cut may leave behind, in seconds. */
+  minShotDuration?: number;
+  /** Angle shown while two or more people talk at once. */
+  wideAngleId?: string;
+  /** Chance that a long single-speaker shot gets a cutaway, 0 to 1. */
+  cutawayChance?: number;
+  /** Length of a cutaway in seconds; never shorter than a minimum shot. */
+  cutawayDuration?: number;
+  /** Angles a cutaway may go to; defaults to every analysed angle. */
+  cutawayAngleIds?: string[];
+  /** Same seed, same cutaways. */
+  seed?: number;
+}
+
+export interface AutoSwitchCut {
+  angleId: string;
+  time: number;
+}
+
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const MIN_NOISE_FLOOR = 1e-5;
+
+function noiseFloor(energies: Float32Array): number {
+  if (energies.length === 0) return MIN_NOISE_FLOOR;
+  const sorted = Float32Array.from(energies).sort();
+  const index = Math.floor((sorted.length - 1) * NOISE_FLOOR_PERCENTILE);
+  return Math.max(sorted[index], MIN_NOISE_FLOOR);
+}
+
+/**
+ * Works out who is talking when, from the RMS energy of each person's mic.
+ * Levels are measured against each mic's own quiet level, so a hot mic and
+ * a quiet one are judged alike.
+ */
+export function detectSpeakers(
+  signals: readonly MicrophoneSignal[],
+  options: SpeakerDetectionOptions = {},
+): SpeakerActivity {
+  const {
+    frameDuration = 0.05,
+    speechThreshold = 12,
+    crosstalkRange = 6,
+    holdTime = 0.4,
+  } = options;
+  const processor = getBeatDetectionProcessor();
+  const frameCount = Math.max(
+    0,
+    ...signals.map((signal) =>
+      Math.floor(signal.samples.length / signal.sampleRate / frameDuration),
+    ),
+  );
+
+  const levels = signals.map((signal) => {
+    const hop = Math.max(1, Math.round(signal.sampleRate * frameDuration));
+    const own = Math.floor(signal.samples.length / hop);
+    const energies = new Float32Array(own);
+    processor.computeRMSEnergies(signal.samples, hop, hop, energies);
+    const floor = noiseFloor(energies);
+    // Frames past the end of a shorter recording read as silence
+    const db = new Float32Array(frameCount);
+    for (let frame = 0; frame < own && frame < frameCount; frame++) {
+      db[frame] = 20 * Math.log10(Math.max(energies[frame], floor) / floor);
+    }
+    return db;
+  });
+
+  const holdFrames = Math.round(holdTime / frameDuration);
+  const active = signals.map(() => new Uint8Array(frameCount));
+  const lastSpoke = signals.map(() => -Infinity);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let loudest = 0;
+    for (const db of levels) loudest = Math.max(loudest, db[frame]);
+    const speaking = levels.map(
+      (db) =>
+        db[frame] >= speechThreshold && db[frame] >= loudest - crosstalkRange,
+    );
+    const anyone = speaking.some(Boolean);
+    speaking.forEach((isSpeaking, index) => {
+      if (isSpeaking) lastSpoke[index] = frame;
+      // A pause only holds the floor while nobody else has taken it
+      const holding = !anyone && frame - lastSpoke[index] <= holdFrames;
+      active[index][frame] = isSpeaking || holding ? 1 : 0;
+    });
+  }
+
+  return {
+    frameDuration,
+    frameCount,
+    angleIds: signals.map((signal) => signal.angleId),
+    levels,
+    active,
+  };
+}
+
+/** The angle one analysis frame asks for, or null to stay where we are. */
+/** Seeded mulberry32 PRNG in [0, 1): a seed always plans the same cuts. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function wantedAngle(
+  activity: SpeakerActivity,
+  frame: number,
+  wideAngleId: string | undefined,
+  shown: string | null,
+): string | null {
+  const speaking = activity.angleIds
+    .map((angleId, index) => ({
+      angleId,
+      level: activity.levels[index][frame],
+      active: activity.active[index][frame] === 1,
+    }))
+    .filter((speaker) => speaker.active);
+  if (speaking.length === 0) return null;
+  if (speaking.length === 1) return speaking[0].angleId;
+  if (wideAngleId) return wideAngleId;
+  // Without a wide shot, stay on whoever already has it
+  if (speaking.some((speaker) => speaker.angleId === shown)) return shown;
+  return speaking.reduce((a, b) => (b.level > a.level ? b : a)).angleId;
+}
+
+/**
+ * Turns speaker activity into a cut list: cut to whoever talks, to the
+ * wide angle when several talk over each other, hold through silence, and
+ * never leave a shot shorter than the minimum. Long single-speaker shots
+ * may then get a seeded random cutaway to another angle.
+ */
+export function planAutoSwitches(
+  activity: SpeakerActivity,
+  options: AutoSwitchOptions = {},
+): AutoSwitchCut[] {
+  const {
+    minShotDuration = 2,
+    wideAngleId,
+    cutawayChance = 0,
+    cutawayAngleIds = activity.angleIds,
+    seed = 1,
+  } = options;
+  const cutawayDuration = Math.max(
+    options.cutawayDuration ?? minShotDuration,
+    minShotDuration,
+  );
+  if (activity.frameCount === 0) return [];
+
+  const cuts: AutoSwitchCut[] = [];
+  for (let frame = 0; frame < activity.frameCount; frame++) {
+    const last = cuts[cuts.length - 1];
+    const shown = last?.angleId ?? null;
+    const angleId = wantedAngle(activity, frame, wideAngleId, shown);
+    if (!angleId || angleId === shown) continue;
+    const time = frame * activity.frameDuration;
+    if (last && time - last.time < minShotDuration) continue;
+    cuts.push({ angleId, time: cuts.length === 0 ? 0 : time });
+  }
+  if (cuts.length === 0) {
+    cuts.push({ angleId: wideAngleId ?? activity.angleIds[0], time: 0 });
+  }
+  if (cutawayChance <= 0) return cuts;
+
+  const duration = activity.frameCount * activity.frameDuration;
+  const random = seededRandom(seed);
+  const withCutaways: AutoSwitchCut[] = [];
+  cuts.forEach((cut, index) => {
+    withCutaways.push(cut);
+    const end = cuts[index + 1]?.time ?? duration;
+    const room = end - cut.time - 2 * minShotDuration - cutawayDuration;
+    if (cut.angleId === wideAngleId || room < 0) return;
+    if (random() >= cutawayChance) return;
+    const others = cutawayAngleIds.filter((id) => id !== cut.angleId);
+    if (others.length === 0) return;
+    const angleId = others[Math.floor(random() * others.length)];
+    const start = cut.time + minShotDuration + random() * room;
+    withCutaways.push({ angleId, time: start });
+    withCutaways.push({ angleId: cut.angleId, time: start + cutawayDuration });
+  });
+  return withCutaways;
+}
@@ -1,3 +1,12 @@
+import type { Project } from "../types/project";
+import type { ProjectStateEngine } from "../storage/engine-state";
+import {
+  detectSpeakers,
+  planAutoSwitches,
+  type AutoSwitchOptions,
+  type MicrophoneSignal,
+} from "./multicam-auto-switch";
+
 export interface CameraAngle {
   id: string;
   name: string;
@@ -6,6 +15,8 @@ export interface CameraAngle {
   offset: number;
   color: string;
   isActive: boolean;
+  /** Audio track carrying this person's microphone, for auto switching. */
+  micTrackId?: string;
 }
 
 export interface MultiCamGroup {
@@ -13,6 +24,8 @@ export interface MultiCamGroup {
   name: string;
   angles: CameraAngle[];
   activeAngleId: string;
+  /** Shown by auto switching while several people talk at once. */
+  wideAngleId?: string;
   syncPoint: number;
   duration: number;
   createdAt: number;
@@ -25,12 +38,23 @@ export interface AngleSwitch {
   time: number;
 }
 
+/** A multicam group as persisted on the timeline, with its cut list. */
+export interface MultiCamGroupState extends MultiCamGroup {
+  switches: AngleSwitch[];
+}
+
 export interface SyncResult {
   offset: number;
   confidence: number;
   method: "audio" | "timecode" | "manual";
 }
 
+/** Where a live switching pass is; cuts behind it are overwritten. */
+interface LiveSwitchSession {
+  angleId: string;
+  time: number;
+}
+
 const ANGLE_COLORS = [
   "#ef4444",
   "#f97316",
@@ -42,9 +66,10 @@ const ANGLE_COLORS = [
   "#ec4899",
 ];
 
-export class MultiCamEngine {
+export class MultiCamEngine implements ProjectStateEngine {
   private groups: Map<string, MultiCamGroup> = new Map();
   private switches: Map<string, AngleSwitch[]> = new Map();
+  private liveSessions: Map<string, LiveSwitchSession> = new Map();
 
   constructor() {}
 
@@ -87,6 +112,7 @@ export class MultiCamEngine {
 
   deleteGroup(groupId: string): boolean {
     this.switches.delete(groupId);
+    this.liveSessions.delete(groupId);
     return this.groups.delete(groupId);
   }
 
@@ -117,6 +143,9 @@ export class MultiCamEngine {
     if (index === -1) return false;
 
     group.angles.splice(index, 1);
+    if (group.wideAngleId === angleId) {
+      delete group.wideAngleId;
+    }
 
     if (group.activeAngleId === angleId && group.angles.length > 0) {
       group.activeAngleId = group.angles[0].id;
@@ -159,7 +188,7 @@ export class MultiCamEngine {
     if (!angle) return null;
 
     const switchItem: AngleSwitch = {
-      id: `switch_${Date.now()}`,
+      id: this.createSwitchId(),
       groupId,
       angleId,
       time,
@@ -173,6 +202,10 @@ export class MultiCamEngine {
     return switchItem;
   }
 
+  private createSwitchId(): string {
+    return `switch_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
   removeSwitch(groupId: string, switchId: string): boolean {
     const switches = this.switches.get(groupId);
     if (!switches) return false;
@@ -188,6 +221,13 @@ export class MultiCamEngine {
     return this.switches.get(groupId) || [];
   }
 
+  setSwitches(groupId: string, switches: AngleSwitch[]): void {
+    this.switches.set(
+      groupId,
+      [...switches].sort((a, b) => a.time - b.time),
+    );
+  }
+
   getAngleAtTime(groupId: string, time: number): CameraAngle | null {
     const group = this.groups.get(groupId);
     if (!group) return null;
@@ -228,6 +268,157 @@ export class MultiCamEngine {
     return true;
   }
 
+  setAngleMicrophone(
+    groupId: string,
+    angleId: string,
+    trackId: string | null,
+  ): boolean {
+    const angle = this.groups
+      .get(groupId)
+      ?.angles.find((a) => a.id === angleId);
+    if (!angle) return false;
+
+    if (trackId) {
+      angle.micTrackId = trackId;
+    } else {
+      delete angle.micTrackId;
+    }
+    return true;
+  }
+
+  setWideAngle(groupId: string, angleId: string | null): boolean {
+    const group = this.groups.get(groupId);
+    if (!group) return false;
+
+    if (!angleId) {
+      delete group.wideAngleId;
+      return true;
+    }
+    if (!group.angles.some((a) => a.id === angleId)) return false;
+    group.wideAngleId = angleId;
+    return true;
+  }
+
+  /**
+   * Replaces the group's cuts with ones following whoever is speaking.
+   * `micBuffers` maps angle ids to their microphone audio, starting at the
+   * group's time zero. Angles without a buffer are only used as cutaways.
+   */
+  autoSwitchByAudio(
+    groupId: string,
+    micBuffers: Map<string, AudioBuffer>,
+    options: AutoSwitchOptions = {},
+  ): AngleSwitch[] {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      throw new Error(`Multicam group not found: ${groupId}`);
+    }
+
+    const signals: MicrophoneSignal[] = group.angles
+      .filter((angle) => micBuffers.has(angle.id))
+      .map((angle) => toMonoSignal(angle.id, micBuffers.get(angle.id)!));
+    if (signals.length === 0) {
+      throw new Error("Assign a microphone to at least one angle");
+    }
+
+    const activity = detectSpeakers(signals, options);
+    const cuts = planAutoSwitches(activity, {
+      wideAngleId: group.wideAngleId,
+      cutawayAngleIds: group.angles.map((a) => a.id),
+      ...options,
+    });
+    if (group.duration === 0) {
+      group.duration = activity.frameCount * activity.frameDuration;
+    }
+
+    this.setSwitches(
+      groupId,
+      cuts.map((cut) => ({
+        id: this.createSwitchId(),
+        groupId,
+        angleId: cut.angleId,
+        time: cut.time,
+      })),
+    );
+    return this.getSwitches(groupId);
+  }
+
+  /**
+   * Begins a live switching pass at `time`. While it runs, `liveSwitch`
+   * cuts to an angle and everything the pass has played over is replaced.
+   */
+  startLiveSwitching(groupId: string, time: number): boolean {
+    const angle = this.getAngleAtTime(groupId, time);
+    if (!angle) return false;
+    this.liveSessions.set(groupId, { angleId: angle.id, time });
+    return true;
+  }
+
+  isLiveSwitching(groupId: string): boolean {
+    return this.liveSessions.has(groupId);
+  }
+
+  liveSwitch(
+    groupId: string,
+    angleId: string,
+    time: number,
+  ): AngleSwitch | null {
+    const session = this.liveSessions.get(groupId);
+    if (!session) return null;
+    if (!this.groups.get(groupId)?.angles.some((a) => a.id === angleId)) {
+      return null;
+    }
+
+    this.overwriteLiveRange(groupId, session, time, false);
+    this.liveSessions.set(groupId, { angleId, time });
+    this.setActiveAngle(groupId, angleId);
+    return this.addSwitch(groupId, angleId, time);
+  }
+
+  /** Ends the pass; the last live angle holds up to `time`. */
+  stopLiveSwitching(groupId: string, time: number): void {
+    const session = this.liveSessions.get(groupId);
+    if (!session) return;
+    this.overwriteLiveRange(groupId, session, time, true);
+    this.liveSessions.delete(groupId);
+  }
+
+  /**
+   * Drops the old cuts the pass has played over. When the pass ends, the
+   * angle the old cuts had at that point is restored so the rest of the
+   * edit is untouched.
+   */
+  private overwriteLiveRange(
+    groupId: string,
+    session: LiveSwitchSession,
+    time: number,
+    restore: boolean,
+  ): void {
+    const switches = this.getSwitches(groupId);
+    const previous = this.getAngleAtTime(groupId, time);
+    // Cuts at the last live point are the pass's own and stay
+    const kept = switches.filter((s) =>
+      restore
+        ? s.time <= session.time || s.time >= time
+        : s.time <= session.time || s.time > time,
+    );
+    const resumesHere = switches.some((s) => s.time === time);
+    if (
+      restore &&
+      previous &&
+      previous.id !== session.angleId &&
+      !resumesHere
+    ) {
+      kept.push({
+        id: this.createSwitchId(),
+        groupId,
+        angleId: previous.id,
+        time,
+      });
+    }
+    this.setSwitches(groupId, kept);
+  }
+
   async syncByAudio(
     groupId: string,
     referenceAngleId: string,
@@ -335,6 +526,29 @@ export class MultiCamEngine {
   clearAll(): void {
     this.groups.clear();
     this.switches.clear();
+    this.liveSessions.clear();
+  }
+
+  hydrateFromProject(project: Project): void {
+    this.clearAll();
+    const groups = project.timeline.multicamGroups ?? [];
+    for (const { switches, ...group } of groups) {
+      this.groups.set(group.id, structuredClone(group));
+      this.setSwitches(group.id, structuredClone(switches));
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    const { multicamGroups: _previous, ...timeline } = project.timeline;
+    const groups: MultiCamGroupState[] = this.getAllGroups().map((group) => ({
+      ...structuredClone(group),
+      switches: structuredClone(this.getSwitches(group.id)),
+    }));
+    return {
+      ...project,
+      timeline:
+        groups.length > 0 ? { ...timeline, multicamGroups: groups } : timeline,
+    };
   }
 
   exportGroupAsSequence(
@@ -393,4 +607,15 @@ export class MultiCamEngine {
   }
 }
 
+function toMonoSignal(angleId: string, buffer: AudioBuffer): MicrophoneSignal {
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { angleId, samples, sampleRate: buffer.sampleRate };
+}
+
 export const multicamEngine = new MultiCamEngine();
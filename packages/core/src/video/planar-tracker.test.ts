@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  applyHomography,
+  estimateHomographyRansac,
+  invertHomography,
+  solveHomography,
+  type Homography,
+  type HomographyPoint,
+} from "./homography";
+import { PlanarTracker, type PlanarTrackerFrame } from "./planar-tracker";
+import { getAnimatedCornerPin, pointsToCornerPin } from "./corner-pin";
+import { MotionTrackingEngine } from "./motion-tracking-engine";
+import { MaskEngine } from "./mask-engine";
+
+vi.stubGlobal(
+  "OffscreenCanvas",
+  class {
+    getContext() {
+      return {};
+    }
+  },
+);
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+const texture = (x: number, y: number): number =>
+  128 +
+  40 * Math.sin(x * 0.31) * Math.cos(y * 0.23) +
+  30 * Math.sin((x + 2 * y) * 0.17) +
+  25 * Math.cos(x * 0.53 - y * 0.41);
+
+/** The textured plane as seen through `h` (plane to image). */
+const renderFrame = (h: Homography): PlanarTrackerFrame => {
+  const inverse = invertHomography(h);
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const p = applyHomography(inverse, { x, y });
+      const value = texture(p.x, p.y);
+      const i = (y * WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const motionAt = (frame: number): Homography => [
+  1 + 0.01 * frame,
+  0.005 * frame,
+  1.5 * frame,
+  -0.004 * frame,
+  1,
+  frame,
+  0.00005 * frame,
+  0,
+  1,
+];
+
+const QUAD: HomographyPoint[] = [
+  { x: 40, y: 30 },
+  { x: 120, y: 30 },
+  { x: 120, y: 90 },
+  { x: 40, y: 90 },
+];
+
+const expectClose = (
+  actual: readonly HomographyPoint[],
+  expected: readonly HomographyPoint[],
+  tolerance: number,
+) => {
+  actual.forEach((point, i) => {
+    expect(Math.abs(point.x - expected[i].x)).toBeLessThan(tolerance);
+    expect(Math.abs(point.y - expected[i].y)).toBeLessThan(tolerance);
+  });
+};
+
+describe("homography", () => {
+  it("should recover a perspective transform from four points", () => {
+    const h = motionAt(6);
+    const solved = solveHomography(
+      QUAD,
+      QUAD.map((p) => applyHomography(h, p)),
+    );
+    expect(solved).not.toBeNull();
+    solved!.forEach((value, i) => expect(value).toBeCloseTo(h[i], 6));
+
+    const roundTrip = applyHomography(
+      invertHomography(solved!),
+      applyHomography(solved!, { x: 75, y: 50 }),
+    );
+    expect(roundTrip.x).toBeCloseTo(75, 6);
+    expect(roundTrip.y).toBeCloseTo(50, 6);
+  });
+
+  it("should reject collinear points and ignore outliers", () => {
+    const line = [0, 1, 2, 3].map((i) => ({ x: i, y: i }));
+    expect(solveHomography(line, line)).toBeNull();
+
+    const h = motionAt(3);
+    const source = Array.from({ length: 40 }, (_, i) => ({
+      x: (i % 8) * 15 + 10,
+      y: Math.floor(i / 8) * 20 + 10,
+    }));
+    const destination = source.map((p, i) =>
+      i % 5 === 0 ? { x: p.x + 30, y: p.y - 25 } : applyHomography(h, p),
+    );
+    const fit = estimateHomographyRansac(source, destination);
+    expect(fit?.inlierCount).toBe(32);
+    expectClose(
+      QUAD.map((p) => applyHomography(fit!.homography, p)),
+      QUAD.map((p) => applyHomography(h, p)),
+      0.01,
+    );
+  });
+});
+
+describe("PlanarTracker", () => {
+  it("should follow a plane under perspective motion", () => {
+    const tracker = new PlanarTracker();
+    expect(tracker.initialize(renderFrame(motionAt(0)), QUAD)).toBeGreaterThan(
+      20,
+    );
+
+    for (let frame = 1; frame <= 4; frame++) {
+      const result = tracker.track(renderFrame(motionAt(frame)));
+      expect(result.lost).toBe(false);
+      expect(result.confidence).toBeGreaterThan(0.8);
+      expectClose(
+        result.corners,
+        QUAD.map((p) => applyHomography(motionAt(frame), p)),
+        0.5,
+      );
+    }
+  });
+});
+
+describe("MotionTrackingEngine planar tracking", () => {
+  const track = async () => {
+    const engine = new MotionTrackingEngine();
+    const job = await engine.startPlanarTracking(
+      "clip-1",
+      pointsToCornerPin(QUAD),
+      async (frame) => (frame <= 3 ? renderFrame(motionAt(frame)) : null),
+      { frameRate: 30, endFrame: 10 },
+    );
+    await vi.waitFor(() => expect(job.status).toBe("completed"), {
+      timeout: 10000,
+    });
+    return { engine, data: engine.getPlanarTrackingData(job.trackId!)! };
+  };
+
+  it("should store per-frame homographies and take corrections", async () => {
+    const { engine, data } = await track();
+    expect(data.keyframes.map((kf) => kf.frame)).toEqual([0, 1, 2, 3]);
+    expect(data.lostFrames).toEqual([]);
+
+    const corrected = pointsToCornerPin(
+      QUAD.map((p) => ({ x: p.x + 20, y: p.y + 10 })),
+    );
+    data.lostFrames.push(2);
+    engine.correctPlanarCorners(data.trackId, 2, corrected);
+    engine.correctPlanarCorners(data.trackId, 5, corrected);
+    expect(data.lostFrames).toEqual([]);
+    expect(data.keyframes.map((kf) => kf.frame)).toEqual([0, 1, 2, 3, 5]);
+    expect(data.keyframes[2].homography[2]).toBeCloseTo(20, 6);
+    expect(data.confidence[4]).toBe(1);
+  });
+
+  it("should drive corner pins, keyframes and masks", async () => {
+    const { engine, data } = await track();
+    const inner = pointsToCornerPin([
+      { x: 60, y: 40 },
+      { x: 100, y: 40 },
+      { x: 100, y: 80 },
+      { x: 60, y: 80 },
+    ]);
+    engine.attachCornerPin(data.trackId, "screen-1", inner);
+    const pinned = engine.getCornerPinAtTime("screen-1", 2 / 30)!;
+    const expected = applyHomography(motionAt(2), { x: 60, y: 40 });
+    expect(pinned.topLeft.x).toBeCloseTo(expected.x, 0);
+    expect(pinned.topLeft.y).toBeCloseTo(expected.y, 0);
+
+    const keyframes = engine.exportPlanarTrackAsKeyframes(data.trackId, {
+      corners: inner,
+    });
+    expect(keyframes).toHaveLength(4 * 8);
+    const animated = getAnimatedCornerPin(undefined, keyframes, 2 / 30)!;
+    expect(animated.bottomRight.x).toBeCloseTo(pinned.bottomRight.x, 6);
+    expect(animated.bottomRight.y).toBeCloseTo(pinned.bottomRight.y, 6);
+
+    const masks = new MaskEngine({ width: WIDTH, height: HEIGHT });
+    const mask = masks.createShapeMask("clip-2", {
+      type: "rectangle",
+      x: 60 / WIDTH,
+      y: 40 / HEIGHT,
+      width: 40 / WIDTH,
+      height: 40 / HEIGHT,
+    });
+    masks.applyPlanarTrack(mask.id, data);
+    const path = masks.getMaskAtTime(mask.id, 2 / 30)!;
+    expect(path.points[0].x * WIDTH).toBeCloseTo(expected.x, 0);
+    expect(path.points[0].y * HEIGHT).toBeCloseTo(expected.y, 0);
+  });
+});
@@ -0,0 +1,430 @@
+import {
+  applyHomography,
+  estimateHomographyRansac,
+  IDENTITY_HOMOGRAPHY,
+  invertHomography,
+  type Homography,
+  type HomographyPoint,
+} from "./homography";
+
+/** RGBA pixels, as returned by `getImageData` or a decoded video frame. */
+export interface PlanarTrackerFrame {
+  readonly data: Uint8ClampedArray | Uint8Array;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface GrayFrame {
+  readonly data: Float32Array;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface PlanarTrackerOptions {
+  /** Features followed at once; more is steadier but slower. */
+  maxFeatures?: number;
+  /** Half size of the Lucas-Kanade window in pixels. */
+  windowRadius?: number;
+  pyramidLevels?: number;
+  /** Fewer RANSAC inliers than this and the frame counts as lost. */
+  minInliers?: number;
+  /** Reprojection error in pixels allowed for an inlier. */
+  ransacThreshold?: number;
+}
+
+export interface PlanarTrackResult {
+  /** Maps the reference frame onto the current frame. */
+  readonly homography: Homography;
+  readonly corners: HomographyPoint[];
+  /** Share of followed features that agree with the homography, 0..1. */
+  readonly confidence: number;
+  /** No reliable fit; the previous homography is carried forward. */
+  readonly lost: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<PlanarTrackerOptions> = {
+  maxFeatures: 150,
+  windowRadius: 7,
+  pyramidLevels: 3,
+  minInliers: 8,
+  ransacThreshold: 2,
+};
+
+const LK_ITERATIONS = 10;
+/** Forward-backward disagreement in pixels that rejects a track. */
+const MAX_ROUND_TRIP_ERROR = 1;
+
+export function toGrayFrame(frame: PlanarTrackerFrame): GrayFrame {
+  const { width, height, data } = frame;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height };
+}
+
+function downsample(frame: GrayFrame): GrayFrame {
+  const width = Math.max(1, Math.floor(frame.width / 2));
+  const height = Math.max(1, Math.floor(frame.height / 2));
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(x * 2, frame.width - 2);
+      const sy = Math.min(y * 2, frame.height - 2);
+      const i = sy * frame.width + sx;
+      data[y * width + x] =
+        (frame.data[i] +
+          frame.data[i + 1] +
+          frame.data[i + frame.width] +
+          frame.data[i + frame.width + 1]) /
+        4;
+    }
+  }
+  return { data, width, height };
+}
+
+export function buildPyramid(
+  frame: GrayFrame,
+  levels: number,
+): GrayFrame[] {
+  const pyramid = [frame];
+  while (
+    pyramid.length < levels &&
+    pyramid[pyramid.length - 1].width >= 32 &&
+    pyramid[pyramid.length - 1].height >= 32
+  ) {
+    pyramid.push(downsample(pyramid[pyramid.length - 1]));
+  }
+  return pyramid;
+}
+
+function sample(frame: GrayFrame, x: number, y: number): number {
+  const cx = Math.min(Math.max(x, 0), frame.width - 1.001);
+  const cy = Math.min(Math.max(y, 0), frame.height - 1.001);
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const i = y0 * frame.width + x0;
+  const top = frame.data[i] + (frame.data[i + 1] - frame.data[i]) * fx;
+  const bottom =
+    frame.data[i + frame.width] +
+    (frame.data[i + frame.width + 1] - frame.data[i + frame.width]) * fx;
+  return top + (bottom - top) * fy;
+}
+
+export function isPointInQuad(
+  point: HomographyPoint,
+  quad: readonly HomographyPoint[],
+): boolean {
+  let inside = false;
+  for (let i = 0, j = quad.length - 1; i < quad.length; j = i++) {
+    const a = quad[i];
+    const b = quad[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Shi-Tomasi corners inside `quad`, strongest first, at least
+ * `minDistance` pixels apart.
+ */
+export function detectFeatures(
+  frame: GrayFrame,
+  quad: readonly HomographyPoint[],
+  maxFeatures: number,
+  minDistance = 8,
+): HomographyPoint[] {
+  const { width, height, data } = frame;
+  const margin = 4;
+  const xs = quad.map((p) => p.x);
+  const ys = quad.map((p) => p.y);
+  const left = Math.max(margin, Math.floor(Math.min(...xs)));
+  const right = Math.min(width - margin - 1, Math.ceil(Math.max(...xs)));
+  const top = Math.max(margin, Math.floor(Math.min(...ys)));
+  const bottom = Math.min(height - margin - 1, Math.ceil(Math.max(...ys)));
+
+  const candidates: { x: number; y: number; score: number }[] = [];
+  let maxScore = 0;
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (!isPointInQuad({ x, y }, quad)) continue;
+      let sxx = 0;
+      let syy = 0;
+      let sxy = 0;
+      for (let wy = -1; wy <= 1; wy++) {
+        for (let wx = -1; wx <= 1; wx++) {
+          const i = (y + wy) * width + x + wx;
+          const gx = (data[i + 1] - data[i - 1]) / 2;
+          const gy = (data[i + width] - data[i - width]) / 2;
+          sxx += gx * gx;
+          syy += gy * gy;
+          sxy += gx * gy;
+        }
+      }
+      const trace = sxx + syy;
+      const score =
+        trace / 2 - Math.sqrt(((sxx - syy) * (sxx - syy)) / 4 + sxy * sxy);
+      if (score > 0) {
+        candidates.push({ x, y, score });
+        maxScore = Math.max(maxScore, score);
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const cellSize = Math.max(1, minDistance);
+  const occupied = new Map<string, HomographyPoint[]>();
+  const features: HomographyPoint[] = [];
+  for (const candidate of candidates) {
+    if (features.length >= maxFeatures || candidate.score < maxScore * 0.01) {
+      break;
+    }
+    const cx = Math.floor(candidate.x / cellSize);
+    const cy = Math.floor(candidate.y / cellSize);
+    let clear = true;
+    for (let dy = -1; dy <= 1 && clear; dy++) {
+      for (let dx = -1; dx <= 1 && clear; dx++) {
+        for (const other of occupied.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (
+            Math.hypot(other.x - candidate.x, other.y - candidate.y) <
+            minDistance
+          ) {
+            clear = false;
+            break;
+          }
+        }
+      }
+    }
+    if (!clear) continue;
+    const point = { x: candidate.x, y: candidate.y };
+    features.push(point);
+    const key = `${cx},${cy}`;
+    occupied.set(key, [...(occupied.get(key) ?? []), point]);
+  }
+  return features;
+}
+
+/**
+ * Pyramidal Lucas-Kanade: where `point` in `from` moved to in `to`, or
+ * null when the window is untextured or the solve leaves the image.
+ */
+function trackPoint(
+  from: readonly GrayFrame[],
+  to: readonly GrayFrame[],
+  point: HomographyPoint,
+  windowRadius: number,
+): HomographyPoint | null {
+  let guessX = 0;
+  let guessY = 0;
+  for (let level = from.length - 1; level >= 0; level--) {
+    const scale = 2 ** level;
+    const previous = from[level];
+    const next = to[level];
+    const px = point.x / scale;
+    const py = point.y / scale;
+
+    let gxx = 0;
+    let gyy = 0;
+    let gxy = 0;
+    const gradients: number[] = [];
+    for (let wy = -windowRadius; wy <= windowRadius; wy++) {
+      for (let wx = -windowRadius; wx <= windowRadius; wx++) {
+        const x = px + wx;
+        const y = py + wy;
+        const ix =
+          (sample(previous, x + 1, y) - sample(previous, x - 1, y)) / 2;
+        const iy =
+          (sample(previous, x, y + 1) - sample(previous, x, y - 1)) / 2;
+        gradients.push(ix, iy, sample(previous, x, y));
+        gxx += ix * ix;
+        gyy += iy * iy;
+        gxy += ix * iy;
+      }
+    }
+    const determinant = gxx * gyy - gxy * gxy;
+    if (determinant < 1e-6) return null;
+
+    for (let iteration = 0; iteration < LK_ITERATIONS; iteration++) {
+      let bx = 0;
+      let by = 0;
+      let index = 0;
+      for (let wy = -windowRadius; wy <= windowRadius; wy++) {
+        for (let wx = -windowRadius; wx <= windowRadius; wx++) {
+          const difference =
+            sample(next, px + wx + guessX, py + wy + guessY) -
+            gradients[index + 2];
+          bx += difference * gradients[index];
+          by += difference * gradients[index + 1];
+          index += 3;
+        }
+      }
+      const dx = -(gyy * bx - gxy * by) / determinant;
+      const dy = -(gxx * by - gxy * bx) / determinant;
+      guessX += dx;
+      guessY += dy;
+      if (dx * dx + dy * dy < 0.0001) break;
+    }
+    if (level > 0) {
+      guessX *= 2;
+      guessY *= 2;
+    }
+  }
+
+  const x = point.x + guessX;
+  const y = point.y + guessY;
+  const base = to[0];
+  if (
+    !Number.isFinite(x) ||
+    !Number.isFinite(y) ||
+    x < 0 ||
+    y < 0 ||
+    x > base.width - 1 ||
+    y > base.height - 1
+  ) {
+    return null;
+  }
+  return { x, y };
+}
+
+/**
+ * Tracks a feature from one pyramid to the next and back again, keeping it
+ * only when the round trip lands where it started.
+ */
+export function trackFeature(
+  from: readonly GrayFrame[],
+  to: readonly GrayFrame[],
+  point: HomographyPoint,
+  windowRadius: number,
+): HomographyPoint | null {
+  const forward = trackPoint(from, to, point, windowRadius);
+  if (!forward) return null;
+  const backward = trackPoint(to, from, forward, windowRadius);
+  if (
+    !backward ||
+    Math.hypot(backward.x - point.x, backward.y - point.y) >
+      MAX_ROUND_TRIP_ERROR
+  ) {
+    return null;
+  }
+  return forward;
+}
+
+/**
+ * Follows a planar surface from a reference quad. Features are tracked
+ * frame to frame with a forward-backward check, and each frame's
+ * homography is fitted with RANSAC against their reference positions so
+ * error does not accumulate in the fit itself. Features are re-detected
+ * inside the current quad when too many have dropped out.
+ */
+export class PlanarTracker {
+  private readonly options: Required<PlanarTrackerOptions>;
+  private referenceCorners: HomographyPoint[] = [];
+  private referencePoints: HomographyPoint[] = [];
+  private currentPoints: HomographyPoint[] = [];
+  private previousPyramid: GrayFrame[] = [];
+  private homography: Homography = IDENTITY_HOMOGRAPHY;
+  private initialFeatureCount = 0;
+
+  constructor(options: PlanarTrackerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Starts a track; returns how many features were found in the quad. */
+  initialize(
+    frame: PlanarTrackerFrame,
+    corners: readonly HomographyPoint[],
+  ): number {
+    if (corners.length !== 4) {
+      throw new Error(`Planar tracking needs 4 corners, got ${corners.length}`);
+    }
+    const gray = toGrayFrame(frame);
+    this.previousPyramid = buildPyramid(gray, this.options.pyramidLevels);
+    this.referenceCorners = corners.map((p) => ({ ...p }));
+    this.referencePoints = detectFeatures(
+      gray,
+      corners,
+      this.options.maxFeatures,
+    );
+    this.currentPoints = this.referencePoints.map((p) => ({ ...p }));
+    this.homography = IDENTITY_HOMOGRAPHY;
+    this.initialFeatureCount = this.referencePoints.length;
+    return this.initialFeatureCount;
+  }
+
+  track(frame: PlanarTrackerFrame): PlanarTrackResult {
+    const gray = toGrayFrame(frame);
+    const pyramid = buildPyramid(gray, this.options.pyramidLevels);
+    const { windowRadius, minInliers, ransacThreshold } = this.options;
+
+    const reference: HomographyPoint[] = [];
+    const tracked: HomographyPoint[] = [];
+    this.currentPoints.forEach((point, index) => {
+      const forward = trackFeature(
+        this.previousPyramid,
+        pyramid,
+        point,
+        windowRadius,
+      );
+      if (!forward) return;
+      reference.push(this.referencePoints[index]);
+      tracked.push(forward);
+    });
+
+    const fit = estimateHomographyRansac(reference, tracked, {
+      threshold: ransacThreshold,
+    });
+    const total = Math.max(1, this.currentPoints.length);
+    const lost = !fit || fit.inlierCount < minInliers;
+    if (fit && !lost) {
+      this.homography = fit.homography;
+      this.referencePoints = reference.filter((_, i) => fit.inliers[i]);
+      this.currentPoints = tracked.filter((_, i) => fit.inliers[i]);
+    } else {
+      // Keep the features where the last good fit predicts them
+      this.currentPoints = this.referencePoints.map((p) =>
+        applyHomography(this.homography, p),
+      );
+    }
+    this.previousPyramid = pyramid;
+
+    if (!lost && this.currentPoints.length < this.initialFeatureCount / 2) {
+      this.replenishFeatures(gray);
+    }
+
+    return {
+      homography: this.homography,
+      corners: this.referenceCorners.map((p) =>
+        applyHomography(this.homography, p),
+      ),
+      confidence: fit ? fit.inlierCount / total : 0,
+      lost,
+    };
+  }
+
+  private replenishFeatures(gray: GrayFrame): void {
+    const quad = this.referenceCorners.map((p) =>
+      applyHomography(this.homography, p),
+    );
+    const inverse = invertHomography(this.homography);
+    const fresh = detectFeatures(gray, quad, this.options.maxFeatures).filter(
+      (candidate) =>
+        this.currentPoints.every(
+          (existing) =>
+            Math.hypot(existing.x - candidate.x, existing.y - candidate.y) >= 8,
+        ),
+    );
+    for (const point of fresh) {
+      if (this.currentPoints.length >= this.options.maxFeatures) break;
+      this.currentPoints.push(point);
+      this.referencePoints.push(applyHomography(inverse, point));
+    }
+  }
+}
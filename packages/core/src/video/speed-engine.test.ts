@@ -111,6 +111,31 @@ describe("SpeedEngine", () => {
       expect(speedEngine.getFrameIndexAtTime("clip-1", 1, 30)).toBe(60);
       expect(speedEngine.getFrameIndexAtTime("clip-1", 2, 30)).toBe(120);
     });
+
+    it("should keep the position between frames for slowed clips", () => {
+      speedEngine.setClipSpeed("clip-1", 0.25, 10);
+
+      const sample = speedEngine.getFrameSampleAtTime("clip-1", 0.1, 30);
+      expect(sample.frameA).toBe(0);
+      expect(sample.frameB).toBe(1);
+      expect(sample.t).toBeCloseTo(0.75, 6);
+      expect(sample.frameA).toBe(
+        speedEngine.getFrameIndexAtTime("clip-1", 0.1, 30),
+      );
+    });
+
+    it("should store the interpolation mode with the speed data", () => {
+      expect(speedEngine.getFrameInterpolation("clip-1")).toBe("none");
+      speedEngine.setClipSpeed("clip-1", 0.5, 10);
+      speedEngine.setFrameInterpolation("clip-1", "optical-flow");
+
+      const restored = new SpeedEngine();
+      restored.setClipSpeedData(
+        "clip-1",
+        speedEngine.getClipSpeedData("clip-1"),
+      );
+      expect(restored.getFrameInterpolation("clip-1")).toBe("optical-flow");
+    });
   });
 
   describe("Playback Timing Invariants", () => {
@@ -1,5 +1,13 @@
 import type { EasingType } from "../types/timeline";
 import { AnimationEngine } from "./animation-engine";
+import type { Project } from "../types/project";
+import {
+  getProjectClips,
+  mapProjectClips,
+  withClipState,
+  type ProjectStateEngine,
+} from "../storage/engine-state";
+import type { FrameInterpolationMode } from "./frame-interpolation";
 
 export interface SpeedKeyframe {
   id: string;
@@ -24,12 +32,23 @@ export interface ClipSpeedData {
   pitchCorrection: boolean;
   freezeFrames: FreezeFrame[];
   originalDuration: number;
+  /** How frames between source frames are made; repeats them when unset. */
+  frameInterpolation?: FrameInterpolationMode;
+}
+
+/** The two source frames around a playback time and the position between. */
+export interface FrameSample {
+  frameA: number;
+  frameB: number;
+  /** 0 at `frameA`, approaching 1 at `frameB`. */
+  t: number;
+  sourceTime: number;
 }
 
 export const SPEED_MIN = 0.1;
 export const SPEED_MAX = 20;
 
-export class SpeedEngine {
+export class SpeedEngine implements ProjectStateEngine {
   private clipSpeedData: Map<string, ClipSpeedData> = new Map();
   private animationEngine: AnimationEngine;
 
@@ -117,6 +136,28 @@ export class SpeedEngine {
     return Math.max(0, frameIndex);
   }
 
+  /**
+   * Like getFrameIndexAtTime, but keeps the fraction that flooring throws
+   * away so slowed clips can interpolate instead of repeating frames.
+   */
+  getFrameSampleAtTime(
+    clipId: string,
+    playbackTime: number,
+    frameRate: number,
+  ): FrameSample {
+    const sourceTime = this.getSourceTimeAtPlaybackTime(clipId, playbackTime);
+    const position = Math.max(0, sourceTime * frameRate);
+    const frameA = Math.floor(position);
+    const frozen = this.getFreezeFrameAtTime(clipId, playbackTime) !== null;
+
+    return {
+      frameA,
+      frameB: frameA + 1,
+      t: frozen ? 0 : position - frameA,
+      sourceTime,
+    };
+  }
+
   getFrameIndicesInRange(
     clipId: string,
     startTime: number,
@@ -375,6 +416,18 @@ export class SpeedEngine {
     const data = this.clipSpeedData.get(clipId);
     return data?.pitchCorrection ?? true;
   }
+  // Frame Interpolation
+  setFrameInterpolation(clipId: string, mode: FrameInterpolationMode): void {
+    const data = this.clipSpeedData.get(clipId);
+    if (data) {
+      data.frameInterpolation = mode;
+    }
+  }
+
+  getFrameInterpolation(clipId: string): FrameInterpolationMode {
+    const data = this.clipSpeedData.get(clipId);
+    return data?.frameInterpolation ?? "none";
+  }
   private getOrCreateSpeedData(
     clipId: string,
     originalDuration: number,
@@ -411,9 +464,35 @@ export class SpeedEngine {
     return this.clipSpeedData.get(clipId);
   }
 
+  setClipSpeedData(clipId: string, data: ClipSpeedData | undefined): void {
+    if (data) {
+      this.clipSpeedData.set(clipId, { ...data, clipId });
+    } else {
+      this.clipSpeedData.delete(clipId);
+    }
+  }
+
   clear(): void {
     this.clipSpeedData.clear();
   }
+
+  hydrateFromProject(project: Project): void {
+    this.clipSpeedData.clear();
+    for (const clip of getProjectClips(project)) {
+      if (clip.speedData) {
+        this.clipSpeedData.set(clip.id, {
+          ...structuredClone(clip.speedData),
+          clipId: clip.id,
+        });
+      }
+    }
+  }
+
+  writeToProject(project: Project): Project {
+    return mapProjectClips(project, (clip) =>
+      withClipState(clip, "speedData", this.clipSpeedData.get(clip.id)),
+    );
+  }
 }
 let speedEngineInstance: SpeedEngine | null = null;
 
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  applyStabilization,
+  CameraMotionEstimator,
+  computeStabilizationTransforms,
+  getStabilizationAtTime,
+  type StabilizationTransform,
+} from "./stabilizer";
+import { MotionTrackingEngine } from "./motion-tracking-engine";
+import type { PlanarTrackerFrame } from "./planar-tracker";
+import type { Transform } from "../types/timeline";
+
+vi.stubGlobal(
+  "OffscreenCanvas",
+  class {
+    getContext() {
+      return {};
+    }
+  },
+);
+
+const WIDTH = 160;
+const HEIGHT = 120;
+const FRAMES = 12;
+
+const texture = (x: number, y: number): number =>
+  128 +
+  40 * Math.sin(x * 0.31) * Math.cos(y * 0.23) +
+  30 * Math.sin((x + 2 * y) * 0.17) +
+  25 * Math.cos(x * 0.53 - y * 0.41);
+
+/** A slow pan right with a 2px vertical shake on every other frame. */
+const cameraAt = (frame: number) => ({
+  x: frame,
+  y: frame % 2 === 0 ? 0 : 2,
+  rotation: frame === 5 ? 0.02 : 0,
+});
+
+const renderFrame = (frame: number): PlanarTrackerFrame => {
+  const camera = cameraAt(frame);
+  const cos = Math.cos(camera.rotation);
+  const sin = Math.sin(camera.rotation);
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      // Content is moved by the camera motion about the frame center
+      const px = x - WIDTH / 2 - camera.x;
+      const py = y - HEIGHT / 2 - camera.y;
+      const value = texture(cos * px + sin * py, -sin * px + cos * py);
+      const i = (y * WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const IDENTITY: Transform = {
+  position: { x: 0, y: 0 },
+  scale: { x: 1, y: 1 },
+  rotation: 0,
+  anchor: { x: 0.5, y: 0.5 },
+  opacity: 1,
+};
+
+describe("CameraMotionEstimator", () => {
+  it("should measure shift and rotation between frames", () => {
+    const estimator = new CameraMotionEstimator();
+    estimator.start(renderFrame(4));
+    const motion = estimator.next(renderFrame(5));
+    expect(motion.lost).toBe(false);
+    expect(motion.x).toBeCloseTo(1, 0);
+    expect(motion.y).toBeCloseTo(2, 0);
+    expect(motion.rotation).toBeCloseTo(0.02, 2);
+    expect(motion.scale).toBeCloseTo(1, 2);
+  });
+});
+
+describe("stabilization transforms", () => {
+  const shakyPath: StabilizationTransform[] = Array.from(
+    { length: 30 },
+    (_, frame) => ({
+      frame,
+      x: frame / WIDTH,
+      y: (frame % 2 === 0 ? 0 : 2) / HEIGHT,
+      rotation: 0,
+      scale: 1,
+    }),
+  );
+
+  it("should cancel the shake and keep the pan", () => {
+    const corrections = computeStabilizationTransforms(
+      shakyPath,
+      { strength: 0.5, zoomMode: "none" },
+      30,
+      WIDTH,
+      HEIGHT,
+    );
+    const stabilized = shakyPath.map((p, i) => ({
+      x: (p.x + corrections[i].x) * WIDTH,
+      y: (p.y + corrections[i].y) * HEIGHT,
+    }));
+    for (let i = 10; i < 20; i++) {
+      expect(Math.abs(stabilized[i + 1].y - stabilized[i].y)).toBeLessThan(
+        0.1,
+      );
+      expect(stabilized[i + 1].x - stabilized[i].x).toBeCloseTo(1, 1);
+    }
+    expect(corrections.every((c) => c.scale === 1)).toBe(true);
+  });
+
+  it("should zoom just enough to hide the moved edges", () => {
+    const fixed = computeStabilizationTransforms(
+      shakyPath,
+      { strength: 0.5, zoomMode: "fixed" },
+      30,
+      WIDTH,
+      HEIGHT,
+    );
+    const zoom = fixed[0].scale;
+    expect(fixed.every((c) => c.scale === zoom)).toBe(true);
+    expect(zoom).toBeGreaterThan(1);
+    expect(zoom).toBeLessThan(1.1);
+
+    const adaptive = computeStabilizationTransforms(
+      shakyPath,
+      { strength: 0.5, zoomMode: "adaptive" },
+      30,
+      WIDTH,
+      HEIGHT,
+    );
+    for (const c of adaptive) {
+      // Every frame edge stays outside the picture
+      const halfWidth = (WIDTH / 2) * c.scale;
+      const halfHeight = (HEIGHT / 2) * c.scale;
+      expect(halfWidth - Math.abs(c.x * WIDTH)).toBeGreaterThanOrEqual(
+        WIDTH / 2 - 1e-6,
+      );
+      expect(halfHeight - Math.abs(c.y * HEIGHT)).toBeGreaterThanOrEqual(
+        HEIGHT / 2 - 1e-6,
+      );
+      expect(c.scale).toBeLessThanOrEqual(zoom + 1e-9);
+    }
+  });
+
+  it("should fold a correction into the clip transform", () => {
+    const correction = { frame: 0, x: 0.1, y: -0.05, rotation: 0, scale: 2 };
+    const centered = applyStabilization(IDENTITY, correction, WIDTH, HEIGHT);
+    expect(centered.position).toEqual({ x: 16, y: -6 });
+    expect(centered.scale).toEqual({ x: 2, y: 2 });
+
+    // Pivoting on the top-left corner must still scale about the center
+    const cornered = applyStabilization(
+      { ...IDENTITY, anchor: { x: 0, y: 0 } },
+      correction,
+      WIDTH,
+      HEIGHT,
+    );
+    expect(cornered.position.x).toBeCloseTo(16 - WIDTH / 2, 6);
+    expect(cornered.position.y).toBeCloseTo(-6 - HEIGHT / 2, 6);
+  });
+});
+
+describe("MotionTrackingEngine stabilization", () => {
+  it("should analyze a clip and store per-frame corrections", async () => {
+    const engine = new MotionTrackingEngine();
+    const job = await engine.startStabilization(
+      "clip-1",
+      async (frame) => (frame < FRAMES ? renderFrame(frame) : null),
+      { frameRate: 30, endFrame: 100, strength: 0.3, zoomMode: "none" },
+    );
+    await vi.waitFor(() => expect(job.status).toBe("completed"), {
+      timeout: 10000,
+    });
+
+    const stabilization = engine.getStabilization("clip-1")!;
+    expect(stabilization.path).toHaveLength(FRAMES);
+    expect(stabilization.lostFrames).toEqual([]);
+    expect(stabilization.path[5].y * HEIGHT).toBeCloseTo(2, 0);
+    expect(stabilization.path[5].x * WIDTH).toBeCloseTo(5, 0);
+
+    const odd = getStabilizationAtTime(stabilization, 5 / 30)!;
+    const even = getStabilizationAtTime(stabilization, 6 / 30)!;
+    expect(odd.y * HEIGHT).toBeLessThan(-0.5);
+    expect(even.y * HEIGHT).toBeGreaterThan(0.5);
+
+    const off = engine.updateStabilizationSettings("clip-1", {
+      enabled: false,
+    });
+    expect(getStabilizationAtTime(off, 5 / 30)).toBeNull();
+    const zoomed = engine.updateStabilizationSettings("clip-1", {
+      enabled: true,
+      zoomMode: "fixed",
+    });
+    expect(zoomed.transforms[0].scale).toBeGreaterThan(1);
+  });
+});
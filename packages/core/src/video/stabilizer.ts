@@ -0,0 +1,443 @@
+import type { Transform } from "../types/timeline";
+import {
+  applyHomography,
+  estimateHomographyRansac,
+  type HomographyPoint,
+} from "./homography";
+import {
+  buildPyramid,
+  detectFeatures,
+  toGrayFrame,
+  trackFeature,
+  type GrayFrame,
+  type PlanarTrackerFrame,
+} from "./planar-tracker";
+
+/**
+ * How the frame is enlarged to hide the edges the correction moves into
+ * view: not at all, by one factor for the whole clip, or frame by frame.
+ */
+export type StabilizationZoomMode = "none" | "fixed" | "adaptive";
+
+/**
+ * A similarity transform for one source frame. `x` and `y` are fractions
+ * of the frame size, `rotation` is in degrees and `scale` is a factor.
+ */
+export interface StabilizationTransform {
+  frame: number;
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+}
+
+export interface StabilizationSettings {
+  enabled: boolean;
+  /** 0 leaves the shake in, 1 smooths over about a second of motion. */
+  strength: number;
+  zoomMode: StabilizationZoomMode;
+}
+
+/**
+ * Result of a stabilization analysis, stored on the clip. Frame `n` is the
+ * source frame at `clip.inPoint + n / frameRate`, so the correction stays
+ * attached to the footage when the clip is retimed or trimmed.
+ */
+export interface ClipStabilization extends StabilizationSettings {
+  clipId: string;
+  frameRate: number;
+  frameWidth: number;
+  frameHeight: number;
+  /** Accumulated camera motion relative to the first analyzed frame. */
+  path: StabilizationTransform[];
+  /** What to apply to each frame to follow the smoothed path instead. */
+  transforms: StabilizationTransform[];
+  lostFrames: number[];
+}
+
+/** The parts of a clip transform a correction is folded into. */
+export type StabilizableTransform = Pick<
+  Transform,
+  "position" | "scale" | "rotation" | "anchor" | "cornerPin"
+>;
+
+export interface CameraMotionOptions {
+  maxFeatures?: number;
+  windowRadius?: number;
+  pyramidLevels?: number;
+  /** Fewer agreeing features than this and the frame counts as lost. */
+  minFeatures?: number;
+}
+
+export interface CameraMotionResult {
+  /** Motion of the picture since the previous frame, about its center. */
+  readonly x: number;
+  readonly y: number;
+  /** Radians. */
+  readonly rotation: number;
+  readonly scale: number;
+  /** Share of followed features that agree on the motion, 0..1. */
+  readonly confidence: number;
+  /** Too few features agreed; the motion is reported as none. */
+  readonly lost: boolean;
+}
+
+export const DEFAULT_STABILIZATION_SETTINGS: StabilizationSettings = {
+  enabled: true,
+  strength: 0.5,
+  zoomMode: "fixed",
+};
+
+const DEFAULT_OPTIONS: Required<CameraMotionOptions> = {
+  maxFeatures: 200,
+  windowRadius: 7,
+  pyramidLevels: 3,
+  minFeatures: 12,
+};
+
+/** Loose enough for parallax; moving subjects still end up as outliers. */
+const RANSAC_THRESHOLD = 3;
+
+/**
+ * Least-squares rotation, uniform scale and translation taking `from` onto
+ * `to`, with coordinates relative to `center`.
+ */
+function fitSimilarity(
+  from: readonly HomographyPoint[],
+  to: readonly HomographyPoint[],
+  center: HomographyPoint,
+): { x: number; y: number; rotation: number; scale: number } {
+  let fromX = 0;
+  let fromY = 0;
+  let toX = 0;
+  let toY = 0;
+  for (let i = 0; i < from.length; i++) {
+    fromX += from[i].x - center.x;
+    fromY += from[i].y - center.y;
+    toX += to[i].x - center.x;
+    toY += to[i].y - center.y;
+  }
+  fromX /= from.length;
+  fromY /= from.length;
+  toX /= from.length;
+  toY /= from.length;
+
+  let a = 0;
+  let b = 0;
+  let norm = 0;
+  for (let i = 0; i < from.length; i++) {
+    const px = from[i].x - center.x - fromX;
+    const py = from[i].y - center.y - fromY;
+    const qx = to[i].x - center.x - toX;
+    const qy = to[i].y - center.y - toY;
+    a += px * qx + py * qy;
+    b += px * qy - py * qx;
+    norm += px * px + py * py;
+  }
+  if (norm < 1e-9) {
+    return { x: toX - fromX, y: toY - fromY, rotation: 0, scale: 1 };
+  }
+  a /= norm;
+  b /= norm;
+  return {
+    x: toX - (a * fromX - b * fromY),
+    y: toY - (b * fromX + a * fromY),
+    rotation: Math.atan2(b, a),
+    scale: Math.hypot(a, b),
+  };
+}
+
+/**
+ * Measures how the whole picture moves from frame to frame. Features are
+ * spread over the frame and tracked with the same Lucas-Kanade tracker the
+ * planar and mask trackers use; RANSAC drops those on moving subjects and
+ * the rest give a rotation, zoom and shift for the camera.
+ */
+export class CameraMotionEstimator {
+  private readonly options: Required<CameraMotionOptions>;
+  private previousPyramid: GrayFrame[] = [];
+
+  constructor(options: CameraMotionOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(frame: PlanarTrackerFrame): void {
+    this.previousPyramid = buildPyramid(
+      toGrayFrame(frame),
+      this.options.pyramidLevels,
+    );
+  }
+
+  next(frame: PlanarTrackerFrame): CameraMotionResult {
+    const { width, height } = frame;
+    const pyramid = buildPyramid(
+      toGrayFrame(frame),
+      this.options.pyramidLevels,
+    );
+    const border = this.options.windowRadius + 2;
+    const features = detectFeatures(
+      this.previousPyramid[0],
+      [
+        { x: border, y: border },
+        { x: width - border, y: border },
+        { x: width - border, y: height - border },
+        { x: border, y: height - border },
+      ],
+      this.options.maxFeatures,
+      Math.max(8, Math.min(width, height) / 20),
+    );
+
+    const before: HomographyPoint[] = [];
+    const after: HomographyPoint[] = [];
+    for (const feature of features) {
+      const moved = trackFeature(
+        this.previousPyramid,
+        pyramid,
+        feature,
+        this.options.windowRadius,
+      );
+      if (moved) {
+        before.push(feature);
+        after.push(moved);
+      }
+    }
+    this.previousPyramid = pyramid;
+
+    const fit =
+      before.length >= this.options.minFeatures
+        ? estimateHomographyRansac(before, after, {
+            threshold: RANSAC_THRESHOLD,
+          })
+        : null;
+    if (!fit || fit.inlierCount < this.options.minFeatures) {
+      return { x: 0, y: 0, rotation: 0, scale: 1, confidence: 0, lost: true };
+    }
+
+    const inliers = before.filter((_, i) => fit.inliers[i]);
+    const motion = fitSimilarity(
+      inliers,
+      inliers.map((point) => applyHomography(fit.homography, point)),
+      { x: width / 2, y: height / 2 },
+    );
+    return {
+      ...motion,
+      confidence: fit.inlierCount / before.length,
+      lost: false,
+    };
+  }
+}
+
+/**
+ * Adds one frame's motion to the camera path. Motion is small between
+ * frames, so accumulating the parameters stands in for composing the
+ * transforms.
+ */
+export function accumulateCameraPath(
+  previous: StabilizationTransform,
+  motion: CameraMotionResult,
+  frameWidth: number,
+  frameHeight: number,
+): StabilizationTransform {
+  return {
+    frame: previous.frame + 1,
+    x: previous.x + motion.x / frameWidth,
+    y: previous.y + motion.y / frameHeight,
+    rotation: previous.rotation + (motion.rotation * 180) / Math.PI,
+    scale: previous.scale * motion.scale,
+  };
+}
+
+function gaussianSmooth(values: readonly number[], sigma: number): number[] {
+  if (sigma <= 0 || values.length < 2) return [...values];
+  const radius = Math.ceil(sigma * 3);
+  const kernel: number[] = [];
+  for (let i = -radius; i <= radius; i++) {
+    kernel.push(Math.exp(-(i * i) / (2 * sigma * sigma)));
+  }
+  const last = values.length - 1;
+  // Mirrored through the end values, so a steady pan stays steady up to
+  // the first and last frame instead of easing in and out
+  const valueAt = (at: number): number => {
+    if (at < 0) return 2 * values[0] - values[Math.min(-at, last)];
+    if (at > last) {
+      return 2 * values[last] - values[Math.max(2 * last - at, 0)];
+    }
+    return values[at];
+  };
+  return values.map((_, index) => {
+    let sum = 0;
+    let weight = 0;
+    for (let i = -radius; i <= radius; i++) {
+      sum += valueAt(index + i) * kernel[i + radius];
+      weight += kernel[i + radius];
+    }
+    return sum / weight;
+  });
+}
+
+/** The camera path with shake removed; `strength` as in the settings. */
+export function smoothCameraPath(
+  path: readonly StabilizationTransform[],
+  strength: number,
+  frameRate: number,
+): StabilizationTransform[] {
+  const sigma = Math.min(Math.max(strength, 0), 1) * frameRate;
+  const xs = gaussianSmooth(path.map((p) => p.x), sigma);
+  const ys = gaussianSmooth(path.map((p) => p.y), sigma);
+  const rotations = gaussianSmooth(path.map((p) => p.rotation), sigma);
+  const scales = gaussianSmooth(path.map((p) => Math.log(p.scale)), sigma);
+  return path.map((p, i) => ({
+    frame: p.frame,
+    x: xs[i],
+    y: ys[i],
+    rotation: rotations[i],
+    scale: Math.exp(scales[i]),
+  }));
+}
+
+/**
+ * Zoom needed so a frame moved by `correction` still covers the whole
+ * picture: every output corner, mapped back through the correction, has to
+ * land inside the source frame.
+ */
+function getCoverZoom(
+  correction: StabilizationTransform,
+  frameWidth: number,
+  frameHeight: number,
+): number {
+  const angle = (-correction.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const halfWidth = frameWidth / 2;
+  const halfHeight = frameHeight / 2;
+  let zoom = 1;
+  for (const [cx, cy] of [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ]) {
+    const qx = cx * halfWidth - correction.x * frameWidth;
+    const qy = cy * halfHeight - correction.y * frameHeight;
+    const ux = (cos * qx - sin * qy) / correction.scale;
+    const uy = (sin * qx + cos * qy) / correction.scale;
+    zoom = Math.max(zoom, Math.abs(ux) / halfWidth, Math.abs(uy) / halfHeight);
+  }
+  return zoom;
+}
+
+/**
+ * Per-frame corrections moving each frame from the measured camera path
+ * onto the smoothed one, enlarged according to the zoom mode.
+ */
+export function computeStabilizationTransforms(
+  path: readonly StabilizationTransform[],
+  settings: Pick<StabilizationSettings, "strength" | "zoomMode">,
+  frameRate: number,
+  frameWidth: number,
+  frameHeight: number,
+): StabilizationTransform[] {
+  const smoothed = smoothCameraPath(path, settings.strength, frameRate);
+  const corrections = path.map((p, i) => ({
+    frame: p.frame,
+    x: smoothed[i].x - p.x,
+    y: smoothed[i].y - p.y,
+    rotation: smoothed[i].rotation - p.rotation,
+    scale: smoothed[i].scale / p.scale,
+  }));
+  if (settings.zoomMode === "none") return corrections;
+
+  const zooms = corrections.map((c) =>
+    getCoverZoom(c, frameWidth, frameHeight),
+  );
+  if (settings.zoomMode === "fixed") {
+    const zoom = Math.max(1, ...zooms);
+    return corrections.map((c) => ({ ...c, scale: c.scale * zoom }));
+  }
+  // Adaptive zoom eases between frames but never drops below what a
+  // frame needs to keep its edges hidden
+  const eased = gaussianSmooth(zooms, frameRate / 4);
+  return corrections.map((c, i) => ({
+    ...c,
+    scale: c.scale * Math.max(zooms[i], eased[i]),
+  }));
+}
+
+/**
+ * The correction for a source time relative to the clip's in point, or
+ * null when stabilization is off. Times between analyzed frames are
+ * interpolated; times outside the analyzed range use the nearest frame.
+ */
+export function getStabilizationAtTime(
+  stabilization: ClipStabilization,
+  sourceTime: number,
+): StabilizationTransform | null {
+  const { transforms } = stabilization;
+  if (!stabilization.enabled || transforms.length === 0) return null;
+
+  const position = sourceTime * stabilization.frameRate - transforms[0].frame;
+  const index = Math.min(
+    Math.max(Math.floor(position), 0),
+    transforms.length - 1,
+  );
+  const next = transforms[Math.min(index + 1, transforms.length - 1)];
+  const current = transforms[index];
+  const t = Math.min(Math.max(position - index, 0), 1);
+  return {
+    frame: current.frame,
+    x: current.x + (next.x - current.x) * t,
+    y: current.y + (next.y - current.y) * t,
+    rotation: current.rotation + (next.rotation - current.rotation) * t,
+    scale: current.scale + (next.scale - current.scale) * t,
+  };
+}
+
+/**
+ * Folds a stabilization correction into a clip transform, so renderers
+ * draw it with their usual position/rotation/scale path. The correction
+ * acts on the image about its center, before the clip's own transform;
+ * `imageWidth` and `imageHeight` are the image's drawn size in the same
+ * units as `transform.position`. Exact for uniform clip scale. Corner
+ * pinned clips are left alone, as the pin replaces the transform.
+ */
+export function applyStabilization<T extends StabilizableTransform>(
+  transform: T,
+  correction: StabilizationTransform,
+  imageWidth: number,
+  imageHeight: number,
+): T {
+  if (transform.cornerPin) return transform;
+
+  const angle = (correction.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Offset of the image center from the anchor the clip pivots around
+  const dx = (0.5 - transform.anchor.x) * imageWidth;
+  const dy = (0.5 - transform.anchor.y) * imageHeight;
+  const offsetX =
+    correction.x * imageWidth + dx - correction.scale * (cos * dx - sin * dy);
+  const offsetY =
+    correction.y * imageHeight + dy - correction.scale * (sin * dx + cos * dy);
+
+  const clipAngle = (transform.rotation * Math.PI) / 180;
+  const scaledX = offsetX * transform.scale.x;
+  const scaledY = offsetY * transform.scale.y;
+  return {
+    ...transform,
+    position: {
+      x:
+        transform.position.x +
+        Math.cos(clipAngle) * scaledX -
+        Math.sin(clipAngle) * scaledY,
+      y:
+        transform.position.y +
+        Math.sin(clipAngle) * scaledX +
+        Math.cos(clipAngle) * scaledY,
+    },
+    rotation: transform.rotation + correction.rotation,
+    scale: {
+      x: transform.scale.x * correction.scale,
+      y: transform.scale.y * correction.scale,
+    },
+  };
+}
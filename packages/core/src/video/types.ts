@@ -1,10 +1,18 @@
 import type { Effect, Transform } from "../types/timeline";
 
+/** Backing store of the canvas a frame is composited into. */
+export type CompositePixelFormat = "unorm8" | "float16";
+
 export interface RenderedFrame {
   image: ImageBitmap;
   timestamp: number;
   width: number;
   height: number;
+  /**
+   * Unpremultiplied RGBA of a float16 composite. Only set when a float16
+   * frame was asked for and the browser supports float16 canvases.
+   */
+  floatPixels?: Float32Array;
 }
 
 export interface CompositeLayer {
@@ -12,9 +12,15 @@ import type { ShapeClip, EmphasisAnimation } from "../graphics/types";
 import { titleEngine } from "../text/title-engine";
 import { graphicsEngine } from "../graphics/graphics-engine";
 import { VideoEffectsEngine } from "./video-effects-engine";
+import {
+  createColorPipeline,
+  getMediaColorSpace,
+  transformImage,
+} from "./color-management";
 import { getMediaEngine } from "../media/mediabunny-engine";
 import type {
   RenderedFrame,
+  CompositePixelFormat,
   CompositeLayer,
   BlendMode,
   FrameCacheConfig,
@@ -37,6 +43,11 @@ import {
 import { GPUCompositor, initializeGPUCompositor } from "./gpu-compositor";
 import { getRendererFactory, type Renderer } from "./renderer-factory";
 import { keyframeEngine } from "./keyframe-engine";
+import {
+  drawImageCornerPin,
+  getAnimatedCornerPin,
+  scaleCornerPin,
+} from "./corner-pin";
 import {
   type GifFrameCache,
   createGifFrameCache,
@@ -44,6 +55,13 @@ import {
   isAnimatedGif,
 } from "../media/gif-decoder";
 import { getParticleEngine } from "../effects/particle-engine";
+import {
+  INTERPOLATION_EPSILON,
+  interpolateFrames,
+  type FrameInterpolationQuality,
+} from "./frame-interpolation";
+import { getMotionTrackingEngine } from "./motion-tracking-engine";
+import { applyStabilization, getStabilizationAtTime } from "./stabilizer";
 
 const DEFAULT_CACHE_CONFIG: FrameCacheConfig = {
   maxFrames: 100,
@@ -52,6 +70,38 @@ const DEFAULT_CACHE_CONFIG: FrameCacheConfig = {
   preloadBehind: 10,
 };
 
+/** Float16 canvas settings, not yet in the TypeScript DOM typings. */
+interface Float16CanvasContext {
+  getContextAttributes?(): { colorType?: string };
+  getImageData(
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    settings?: { pixelFormat?: "rgba-unorm8" | "rgba-float16" },
+  ): { data: ArrayLike<number> };
+}
+
+/**
+ * 2D context to composite into. Float16 keeps blending and scaling free
+ * of 8-bit rounding; browsers without it fall back to unorm8.
+ */
+function createCompositeContext(
+  canvas: OffscreenCanvas,
+  pixelFormat: CompositePixelFormat,
+): { ctx: OffscreenCanvasRenderingContext2D; float: boolean } {
+  const ctx = canvas.getContext(
+    "2d",
+    pixelFormat === "float16"
+      ? ({ colorType: "float16" } as CanvasRenderingContext2DSettings)
+      : undefined,
+  ) as OffscreenCanvasRenderingContext2D;
+  const attributes = (
+    ctx as unknown as Float16CanvasContext
+  ).getContextAttributes?.();
+  return { ctx, float: attributes?.colorType === "float16" };
+}
+
 export interface FrameRenderOptions {
   textClips?: TextClip[];
   shapeClips?: ShapeClip[];
@@ -384,6 +434,10 @@ export class VideoEngine {
    * @param time - Time in seconds to render at
    * @param targetWidth - Optional canvas width (defaults to project settings)
    * @param targetHeight - Optional canvas height (defaults to project settings)
+   * @param interpolationQuality - Optical-flow quality for slowed clips;
+   *   preview trades accuracy for speed, export should pass "full"
+   * @param pixelFormat - "float16" also returns the composite as floats,
+   *   for HDR export
    * @returns Rendered frame with ImageBitmap and metadata
    */
   async renderFrame(
@@ -391,6 +445,8 @@ export class VideoEngine {
     time: number,
     targetWidth?: number,
     targetHeight?: number,
+    interpolationQuality: FrameInterpolationQuality = "preview",
+    pixelFormat: CompositePixelFormat = "unorm8",
   ): Promise<RenderedFrame> {
     this.ensureInitialized();
 
@@ -421,7 +477,7 @@ export class VideoEngine {
       .sort((a, b) => b.originalIndex - a.originalIndex);
 
     const canvas = new OffscreenCanvas(width, height);
-    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
+    const { ctx, float } = createCompositeContext(canvas, pixelFormat);
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = "high";
     ctx.fillStyle = "#000000";
@@ -470,22 +526,21 @@ export class VideoEngine {
               );
             }
           } else {
-            bitmap = await this.decodeFrameWithMediaBunny(
-              mediaItem.blob,
-              clipInfo.sourceTime,
-              settings.width,
-              settings.height,
-              clipInfo.mediaId,
-            );
-            if (!bitmap) {
-              bitmap = await this.decodeFrameWithVideoElement(
-                mediaItem.id,
-                mediaItem.blob,
+            bitmap =
+              (await this.decodeInterpolatedFrame(
+                clip,
+                mediaItem,
+                time - clip.startTime,
+                settings.width,
+                settings.height,
+                interpolationQuality,
+              )) ??
+              (await this.decodeVideoFrame(
+                mediaItem,
                 clipInfo.sourceTime,
                 settings.width,
                 settings.height,
-              );
-            }
+              ));
           }
 
           if (bitmap) {
@@ -525,6 +580,24 @@ export class VideoEngine {
               };
             }
 
+            const stabilization = getMotionTrackingEngine().getStabilization(
+              clip.id,
+            );
+            const correction =
+              stabilization &&
+              getStabilizationAtTime(
+                stabilization,
+                clipInfo.sourceTime - clip.inPoint,
+              );
+            if (correction) {
+              finalTransform = applyStabilization(
+                finalTransform,
+                correction,
+                bitmap.width,
+                bitmap.height,
+              );
+            }
+
             const scaledTransform: Transform = {
               ...finalTransform,
               position: {
@@ -535,6 +608,9 @@ export class VideoEngine {
                 x: finalTransform.scale.x * scaleX,
                 y: finalTransform.scale.y * scaleY,
               },
+              cornerPin:
+                finalTransform.cornerPin &&
+                scaleCornerPin(finalTransform.cornerPin, scaleX, scaleY),
             };
 
             let processedBitmap = bitmap;
@@ -567,6 +643,25 @@ export class VideoEngine {
               }
             }
 
+            const colorManagement = settings.colorManagement;
+            if (colorManagement?.enabled) {
+              try {
+                const managed = await transformImage(
+                  processedBitmap,
+                  createColorPipeline(
+                    getMediaColorSpace(mediaItem, colorManagement),
+                    colorManagement,
+                  ),
+                );
+                if (processedBitmap !== bitmap) {
+                  processedBitmap.close();
+                }
+                processedBitmap = managed;
+              } catch (error) {
+                console.warn(`Failed to color manage clip ${clip.id}:`, error);
+              }
+            }
+
             this.drawFrameToContext(
               ctx,
               processedBitmap,
@@ -637,6 +732,17 @@ export class VideoEngine {
       this.renderSubtitleToCanvasCtx(ctx, subtitle, width, height);
     }
 
+    const floatPixels = float
+      ? Float32Array.from(
+          (ctx as unknown as Float16CanvasContext).getImageData(
+            0,
+            0,
+            width,
+            height,
+            { pixelFormat: "rgba-float16" },
+          ).data,
+        )
+      : undefined;
     const imageBitmap = await createImageBitmap(canvas);
 
     if (this.compositeBuffer) {
@@ -653,6 +759,7 @@ export class VideoEngine {
       timestamp: time,
       width,
       height,
+      floatPixels,
     };
   }
 
@@ -666,6 +773,24 @@ export class VideoEngine {
   ): void {
     ctx.save();
     ctx.globalAlpha = opacity;
+
+    if (transform.cornerPin) {
+      const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+      drawImageCornerPin(
+        ctx,
+        frame,
+        {
+          x: crop.x * frame.width,
+          y: crop.y * frame.height,
+          width: crop.width * frame.width,
+          height: crop.height * frame.height,
+        },
+        transform.cornerPin,
+      );
+      ctx.restore();
+      return;
+    }
+
     const centerX = canvasWidth / 2;
     const centerY = canvasHeight / 2;
 
@@ -916,6 +1041,108 @@ export class VideoEngine {
     ctx.restore();
   }
 
+  private async decodeVideoFrame(
+    mediaItem: MediaItem,
+    time: number,
+    width: number,
+    height: number,
+  ): Promise<ImageBitmap | null> {
+    if (!mediaItem.blob) return null;
+    const bitmap = await this.decodeFrameWithMediaBunny(
+      mediaItem.blob,
+      time,
+      width,
+      height,
+      mediaItem.id,
+    );
+    return (
+      bitmap ??
+      this.decodeFrameWithVideoElement(
+        mediaItem.id,
+        mediaItem.blob,
+        time,
+        width,
+        height,
+      )
+    );
+  }
+
+  /**
+   * Makes the in-between frame for a clip slowed with frame blending or
+   * optical flow. Returns null when the clip repeats frames, the time falls
+   * on a source frame, or a neighbouring frame fails to decode, leaving the
+   * caller to decode the nearest frame as usual.
+   */
+  private async decodeInterpolatedFrame(
+    clip: Clip,
+    mediaItem: MediaItem,
+    clipLocalTime: number,
+    width: number,
+    height: number,
+    quality: FrameInterpolationQuality,
+  ): Promise<ImageBitmap | null> {
+    const speedEngine = getSpeedEngine();
+    const mode = speedEngine.getFrameInterpolation(clip.id);
+    const frameRate = mediaItem.metadata.frameRate;
+    if (mode === "none" || !frameRate) return null;
+
+    const sample = speedEngine.getFrameSampleAtTime(
+      clip.id,
+      clipLocalTime,
+      frameRate,
+    );
+    if (
+      sample.t < INTERPOLATION_EPSILON ||
+      sample.t > 1 - INTERPOLATION_EPSILON
+    ) {
+      return null;
+    }
+
+    // Sequential on purpose: export decoders expect ordered requests
+    const before = await this.decodeVideoFrame(
+      mediaItem,
+      clip.inPoint + sample.frameA / frameRate,
+      width,
+      height,
+    );
+    const after =
+      before &&
+      (await this.decodeVideoFrame(
+        mediaItem,
+        clip.inPoint + sample.frameB / frameRate,
+        width,
+        height,
+      ));
+    if (!before || !after) {
+      before?.close();
+      return null;
+    }
+
+    const frame = interpolateFrames(
+      this.readBitmapPixels(before),
+      this.readBitmapPixels(after),
+      sample.t,
+      mode,
+      quality,
+    );
+    before.close();
+    after.close();
+    return createImageBitmap(
+      new ImageData(
+        Uint8ClampedArray.from(frame.data),
+        frame.width,
+        frame.height,
+      ),
+    );
+  }
+
+  private readBitmapPixels(bitmap: ImageBitmap): ImageData {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  }
+
   resetExportState(): void {
     this.lastExportTime = -1;
     const particleEngine = getParticleEngine();
@@ -1144,6 +1371,7 @@ export class VideoEngine {
       borderRadius: base.borderRadius,
       fitMode: base.fitMode,
       crop: base.crop,
+      cornerPin: getAnimatedCornerPin(base.cornerPin, keyframes, localTime),
     };
   }
 